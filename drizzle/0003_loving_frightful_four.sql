@@ -0,0 +1,40 @@
+CREATE TABLE `return_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`return_id` text,
+	`transaction_item_id` text,
+	`product_id` text,
+	`variant_id` text,
+	`quantity` integer NOT NULL,
+	`unit_price` real NOT NULL,
+	`total_price` real NOT NULL,
+	`restocked` integer DEFAULT true,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`return_id`) REFERENCES `returns`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`transaction_item_id`) REFERENCES `transaction_items`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `return_item_return_idx` ON `return_items` (`return_id`);--> statement-breakpoint
+CREATE INDEX `return_item_transaction_item_idx` ON `return_items` (`transaction_item_id`);--> statement-breakpoint
+CREATE INDEX `return_item_product_idx` ON `return_items` (`product_id`);--> statement-breakpoint
+CREATE TABLE `returns` (
+	`id` text PRIMARY KEY NOT NULL,
+	`original_transaction_id` text NOT NULL,
+	`user_id` text,
+	`subtotal` real NOT NULL,
+	`total` real NOT NULL,
+	`refund_method` text NOT NULL,
+	`refund_reference` text,
+	`reason` text,
+	`sync_status` text DEFAULT 'pending' NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`original_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `return_transaction_idx` ON `returns` (`original_transaction_id`);--> statement-breakpoint
+CREATE INDEX `return_user_idx` ON `returns` (`user_id`);--> statement-breakpoint
+CREATE INDEX `return_date_idx` ON `returns` (`created_at`);--> statement-breakpoint
+CREATE INDEX `return_refund_method_idx` ON `returns` (`refund_method`);
\ No newline at end of file
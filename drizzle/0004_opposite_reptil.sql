@@ -0,0 +1,14 @@
+CREATE TABLE `transaction_payments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transaction_id` text,
+	`method` text NOT NULL,
+	`amount` real NOT NULL,
+	`reference` text,
+	`tendered` real,
+	`change_given` real,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `payment_transaction_idx` ON `transaction_payments` (`transaction_id`);--> statement-breakpoint
+CREATE INDEX `payment_method_idx` ON `transaction_payments` (`method`);
\ No newline at end of file
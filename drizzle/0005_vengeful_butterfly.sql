@@ -0,0 +1,19 @@
+CREATE TABLE `held_carts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`label` text NOT NULL,
+	`user_id` text,
+	`cart_data` text NOT NULL,
+	`item_count` integer NOT NULL,
+	`total` real NOT NULL,
+	`status` text DEFAULT 'held' NOT NULL,
+	`expires_at` integer NOT NULL,
+	`resumed_by` text,
+	`resumed_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`resumed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `held_cart_status_idx` ON `held_carts` (`status`);--> statement-breakpoint
+CREATE INDEX `held_cart_expires_idx` ON `held_carts` (`expires_at`);
\ No newline at end of file
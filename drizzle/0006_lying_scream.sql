@@ -0,0 +1,29 @@
+CREATE TABLE `promotions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`type` text NOT NULL,
+	`scope` text NOT NULL,
+	`product_id` text,
+	`category_id` text,
+	`value` real NOT NULL,
+	`min_quantity` integer,
+	`get_quantity` integer,
+	`min_cart_total` real,
+	`starts_at` integer,
+	`ends_at` integer,
+	`is_active` integer DEFAULT true,
+	`created_by` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`category_id`) REFERENCES `categories`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `promotion_active_idx` ON `promotions` (`is_active`);--> statement-breakpoint
+CREATE INDEX `promotion_product_idx` ON `promotions` (`product_id`);--> statement-breakpoint
+CREATE INDEX `promotion_category_idx` ON `promotions` (`category_id`);--> statement-breakpoint
+CREATE INDEX `promotion_window_idx` ON `promotions` (`starts_at`,`ends_at`);--> statement-breakpoint
+ALTER TABLE `transaction_items` ADD `discount_amount` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `transaction_items` ADD `applied_promotions` text;
\ No newline at end of file
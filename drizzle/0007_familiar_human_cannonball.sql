@@ -0,0 +1,10 @@
+ALTER TABLE `products` ADD `hsn_code` text;--> statement-breakpoint
+ALTER TABLE `products` ADD `tax_rate` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `products` ADD `price_includes_tax` integer DEFAULT true;--> statement-breakpoint
+ALTER TABLE `transaction_items` ADD `hsn_code` text;--> statement-breakpoint
+ALTER TABLE `transaction_items` ADD `tax_rate` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `transaction_items` ADD `taxable_value` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `transaction_items` ADD `cgst` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `transaction_items` ADD `sgst` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `transaction_items` ADD `igst` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `transactions` ADD `inter_state` integer DEFAULT false;
\ No newline at end of file
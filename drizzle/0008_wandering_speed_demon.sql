@@ -0,0 +1,27 @@
+CREATE TABLE `shifts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`status` text DEFAULT 'open' NOT NULL,
+	`opening_float` real NOT NULL,
+	`expected_cash` real,
+	`counted_cash` real,
+	`variance` real,
+	`cash_count` text,
+	`closing_notes` text,
+	`approved_by` text,
+	`approved_at` integer,
+	`opened_at` integer NOT NULL,
+	`closed_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`approved_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `shift_user_idx` ON `shifts` (`user_id`);--> statement-breakpoint
+CREATE INDEX `shift_status_idx` ON `shifts` (`status`);--> statement-breakpoint
+CREATE INDEX `shift_opened_idx` ON `shifts` (`opened_at`);--> statement-breakpoint
+ALTER TABLE `returns` ADD `shift_id` text REFERENCES shifts(id);--> statement-breakpoint
+CREATE INDEX `return_shift_idx` ON `returns` (`shift_id`);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `shift_id` text REFERENCES shifts(id);--> statement-breakpoint
+CREATE INDEX `transaction_shift_idx` ON `transactions` (`shift_id`);
\ No newline at end of file
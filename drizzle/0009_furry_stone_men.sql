@@ -0,0 +1,2 @@
+ALTER TABLE `product_variants` ADD `barcode` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `variant_barcode_idx` ON `product_variants` (`barcode`);
\ No newline at end of file
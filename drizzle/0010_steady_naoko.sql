@@ -0,0 +1,81 @@
+CREATE TABLE `goods_receipt_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`goods_receipt_id` text NOT NULL,
+	`purchase_order_item_id` text NOT NULL,
+	`variant_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`unit_cost` real NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`goods_receipt_id`) REFERENCES `goods_receipts`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`purchase_order_item_id`) REFERENCES `purchase_order_items`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `goods_receipt_item_receipt_idx` ON `goods_receipt_items` (`goods_receipt_id`);--> statement-breakpoint
+CREATE INDEX `goods_receipt_item_variant_idx` ON `goods_receipt_items` (`variant_id`);--> statement-breakpoint
+CREATE TABLE `goods_receipts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`purchase_order_id` text NOT NULL,
+	`received_by` text,
+	`supplier_reference` text,
+	`notes` text,
+	`received_at` integer NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`purchase_order_id`) REFERENCES `purchase_orders`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`received_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `goods_receipt_order_idx` ON `goods_receipts` (`purchase_order_id`);--> statement-breakpoint
+CREATE INDEX `goods_receipt_date_idx` ON `goods_receipts` (`received_at`);--> statement-breakpoint
+CREATE TABLE `purchase_order_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`purchase_order_id` text NOT NULL,
+	`variant_id` text NOT NULL,
+	`quantity_ordered` integer NOT NULL,
+	`quantity_received` integer DEFAULT 0 NOT NULL,
+	`unit_cost` real NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`purchase_order_id`) REFERENCES `purchase_orders`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `po_item_order_idx` ON `purchase_order_items` (`purchase_order_id`);--> statement-breakpoint
+CREATE INDEX `po_item_variant_idx` ON `purchase_order_items` (`variant_id`);--> statement-breakpoint
+CREATE TABLE `purchase_orders` (
+	`id` text PRIMARY KEY NOT NULL,
+	`po_number` text NOT NULL,
+	`supplier_id` text NOT NULL,
+	`status` text DEFAULT 'draft' NOT NULL,
+	`notes` text,
+	`expected_at` integer,
+	`ordered_at` integer,
+	`received_at` integer,
+	`created_by` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`supplier_id`) REFERENCES `suppliers`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `purchase_orders_po_number_unique` ON `purchase_orders` (`po_number`);--> statement-breakpoint
+CREATE INDEX `po_supplier_idx` ON `purchase_orders` (`supplier_id`);--> statement-breakpoint
+CREATE INDEX `po_status_idx` ON `purchase_orders` (`status`);--> statement-breakpoint
+CREATE INDEX `po_date_idx` ON `purchase_orders` (`created_at`);--> statement-breakpoint
+CREATE TABLE `suppliers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`contact_name` text,
+	`phone` text,
+	`email` text,
+	`gstin` text,
+	`address` text,
+	`notes` text,
+	`is_active` integer DEFAULT true,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE INDEX `supplier_name_idx` ON `suppliers` (`name`);--> statement-breakpoint
+CREATE INDEX `supplier_active_idx` ON `suppliers` (`is_active`);--> statement-breakpoint
+ALTER TABLE `products` ADD `supplier_id` text REFERENCES suppliers(id);--> statement-breakpoint
+CREATE INDEX `product_supplier_idx` ON `products` (`supplier_id`);
\ No newline at end of file
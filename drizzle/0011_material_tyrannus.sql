@@ -0,0 +1,17 @@
+CREATE TABLE `stock_movements` (
+	`id` text PRIMARY KEY NOT NULL,
+	`variant_id` text NOT NULL,
+	`type` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`balance_after` integer NOT NULL,
+	`reference_id` text,
+	`reason` text,
+	`user_id` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `stock_movement_variant_idx` ON `stock_movements` (`variant_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `stock_movement_type_idx` ON `stock_movements` (`type`);--> statement-breakpoint
+CREATE INDEX `stock_movement_reference_idx` ON `stock_movements` (`reference_id`);
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE `stock_take_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`stock_take_id` text NOT NULL,
+	`variant_id` text NOT NULL,
+	`expected_quantity` integer NOT NULL,
+	`counted_quantity` integer,
+	`unit_value` real NOT NULL,
+	`counted_by` text,
+	`counted_at` integer,
+	FOREIGN KEY (`stock_take_id`) REFERENCES `stock_takes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`counted_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `stock_take_item_take_idx` ON `stock_take_items` (`stock_take_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `stock_take_item_variant_idx` ON `stock_take_items` (`stock_take_id`,`variant_id`);--> statement-breakpoint
+CREATE TABLE `stock_takes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`reference` text NOT NULL,
+	`name` text NOT NULL,
+	`category_id` text,
+	`status` text DEFAULT 'counting' NOT NULL,
+	`notes` text,
+	`created_by` text,
+	`approved_by` text,
+	`posted_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`category_id`) REFERENCES `categories`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`approved_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `stock_takes_reference_unique` ON `stock_takes` (`reference`);--> statement-breakpoint
+CREATE INDEX `stock_take_status_idx` ON `stock_takes` (`status`);--> statement-breakpoint
+CREATE INDEX `stock_take_date_idx` ON `stock_takes` (`created_at`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `product_variants` ADD `cost_price` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `transaction_items` ADD `unit_cost` real DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,52 @@
+CREATE TABLE `locations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`type` text DEFAULT 'shop' NOT NULL,
+	`is_default` integer DEFAULT false,
+	`is_active` integer DEFAULT true,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `locations_name_unique` ON `locations` (`name`);--> statement-breakpoint
+CREATE INDEX `location_active_idx` ON `locations` (`is_active`);--> statement-breakpoint
+CREATE TABLE `stock_levels` (
+	`id` text PRIMARY KEY NOT NULL,
+	`variant_id` text NOT NULL,
+	`location_id` text NOT NULL,
+	`quantity` integer DEFAULT 0 NOT NULL,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`location_id`) REFERENCES `locations`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `stock_level_variant_location_idx` ON `stock_levels` (`variant_id`,`location_id`);--> statement-breakpoint
+CREATE INDEX `stock_level_location_idx` ON `stock_levels` (`location_id`);--> statement-breakpoint
+CREATE TABLE `stock_transfer_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transfer_id` text NOT NULL,
+	`variant_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	FOREIGN KEY (`transfer_id`) REFERENCES `stock_transfers`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `stock_transfer_item_transfer_idx` ON `stock_transfer_items` (`transfer_id`);--> statement-breakpoint
+CREATE TABLE `stock_transfers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`reference` text NOT NULL,
+	`from_location_id` text NOT NULL,
+	`to_location_id` text NOT NULL,
+	`notes` text,
+	`created_by` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`from_location_id`) REFERENCES `locations`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`to_location_id`) REFERENCES `locations`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `stock_transfers_reference_unique` ON `stock_transfers` (`reference`);--> statement-breakpoint
+CREATE INDEX `stock_transfer_date_idx` ON `stock_transfers` (`created_at`);--> statement-breakpoint
+ALTER TABLE `goods_receipts` ADD `location_id` text REFERENCES locations(id);--> statement-breakpoint
+ALTER TABLE `stock_movements` ADD `location_id` text REFERENCES locations(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `location_id` text REFERENCES locations(id);
\ No newline at end of file
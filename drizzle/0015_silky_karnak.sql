@@ -0,0 +1,28 @@
+CREATE TABLE `stock_batches` (
+	`id` text PRIMARY KEY NOT NULL,
+	`variant_id` text NOT NULL,
+	`batch_number` text NOT NULL,
+	`manufactured_at` integer,
+	`expires_at` integer,
+	`quantity` integer DEFAULT 0 NOT NULL,
+	`received_quantity` integer DEFAULT 0 NOT NULL,
+	`created_by` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `stock_batch_variant_number_idx` ON `stock_batches` (`variant_id`,`batch_number`);--> statement-breakpoint
+CREATE INDEX `stock_batch_expires_idx` ON `stock_batches` (`expires_at`);--> statement-breakpoint
+CREATE TABLE `transaction_item_batches` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transaction_item_id` text NOT NULL,
+	`batch_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	FOREIGN KEY (`transaction_item_id`) REFERENCES `transaction_items`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`batch_id`) REFERENCES `stock_batches`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `transaction_item_batch_item_idx` ON `transaction_item_batches` (`transaction_item_id`);--> statement-breakpoint
+ALTER TABLE `products` ADD `track_batches` integer DEFAULT false;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `customers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`phone` text NOT NULL,
+	`email` text,
+	`address` text,
+	`pan` text,
+	`preferred_language` text DEFAULT 'en' NOT NULL,
+	`notes` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `customer_phone_idx` ON `customers` (`phone`);--> statement-breakpoint
+CREATE INDEX `customer_name_idx` ON `customers` (`name`);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `customer_id` text REFERENCES customers(id);--> statement-breakpoint
+CREATE INDEX `transaction_customer_idx` ON `transactions` (`customer_id`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `donations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transaction_id` text NOT NULL,
+	`customer_id` text NOT NULL,
+	`purpose` text NOT NULL,
+	`amount` real NOT NULL,
+	`receipt_number` text NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `donations_receipt_number_unique` ON `donations` (`receipt_number`);--> statement-breakpoint
+CREATE INDEX `donation_transaction_idx` ON `donations` (`transaction_id`);--> statement-breakpoint
+CREATE INDEX `donation_customer_idx` ON `donations` (`customer_id`);--> statement-breakpoint
+CREATE INDEX `donation_date_idx` ON `donations` (`created_at`);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `donation_total` real DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TABLE `loyalty_points` (
+	`id` text PRIMARY KEY NOT NULL,
+	`customer_id` text NOT NULL,
+	`transaction_id` text,
+	`type` text NOT NULL,
+	`points` integer NOT NULL,
+	`note` text,
+	`user_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `loyalty_customer_idx` ON `loyalty_points` (`customer_id`);--> statement-breakpoint
+CREATE INDEX `loyalty_transaction_idx` ON `loyalty_points` (`transaction_id`);--> statement-breakpoint
+CREATE TABLE `membership_tiers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`discount_percent` real DEFAULT 0 NOT NULL,
+	`points_per_rupee` real DEFAULT 0 NOT NULL,
+	`is_active` integer DEFAULT true,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `membership_tiers_name_unique` ON `membership_tiers` (`name`);--> statement-breakpoint
+CREATE TABLE `tier_prices` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tier_id` text NOT NULL,
+	`product_id` text NOT NULL,
+	`variant_id` text,
+	`price` real NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`tier_id`) REFERENCES `membership_tiers`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `tier_price_tier_idx` ON `tier_prices` (`tier_id`);--> statement-breakpoint
+CREATE INDEX `tier_price_product_idx` ON `tier_prices` (`product_id`);--> statement-breakpoint
+ALTER TABLE `customers` ADD `tier_id` text REFERENCES membership_tiers(id);--> statement-breakpoint
+CREATE INDEX `customer_tier_idx` ON `customers` (`tier_id`);
\ No newline at end of file
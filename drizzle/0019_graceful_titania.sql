@@ -0,0 +1,32 @@
+CREATE TABLE `voucher_redemptions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`voucher_id` text NOT NULL,
+	`transaction_id` text NOT NULL,
+	`amount` real NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`voucher_id`) REFERENCES `vouchers`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `voucher_redemption_voucher_idx` ON `voucher_redemptions` (`voucher_id`);--> statement-breakpoint
+CREATE INDEX `voucher_redemption_transaction_idx` ON `voucher_redemptions` (`transaction_id`);--> statement-breakpoint
+CREATE TABLE `vouchers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`code` text NOT NULL,
+	`kind` text NOT NULL,
+	`amount` real NOT NULL,
+	`customer_id` text,
+	`return_id` text,
+	`expires_at` integer,
+	`status` text DEFAULT 'active' NOT NULL,
+	`note` text,
+	`user_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`return_id`) REFERENCES `returns`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `vouchers_code_unique` ON `vouchers` (`code`);--> statement-breakpoint
+CREATE INDEX `voucher_customer_idx` ON `vouchers` (`customer_id`);--> statement-breakpoint
+CREATE INDEX `voucher_expires_idx` ON `vouchers` (`expires_at`);
\ No newline at end of file
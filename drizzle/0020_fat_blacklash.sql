@@ -0,0 +1,42 @@
+CREATE TABLE `upi_sale_clearances` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transaction_id` text NOT NULL,
+	`note` text NOT NULL,
+	`user_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `upi_sale_clearances_transaction_id_unique` ON `upi_sale_clearances` (`transaction_id`);--> statement-breakpoint
+CREATE TABLE `upi_statement_lines` (
+	`id` text PRIMARY KEY NOT NULL,
+	`statement_id` text NOT NULL,
+	`posted_at` integer NOT NULL,
+	`time_known` integer DEFAULT true NOT NULL,
+	`amount` real NOT NULL,
+	`utr` text,
+	`narration` text,
+	`transaction_id` text,
+	`matched_by` text,
+	`ignored` integer DEFAULT false,
+	`note` text,
+	`resolved_by` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`statement_id`) REFERENCES `upi_statements`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`resolved_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `upi_line_statement_idx` ON `upi_statement_lines` (`statement_id`);--> statement-breakpoint
+CREATE INDEX `upi_line_posted_idx` ON `upi_statement_lines` (`posted_at`);--> statement-breakpoint
+CREATE INDEX `upi_line_transaction_idx` ON `upi_statement_lines` (`transaction_id`);--> statement-breakpoint
+CREATE INDEX `upi_line_utr_idx` ON `upi_statement_lines` (`utr`);--> statement-breakpoint
+CREATE TABLE `upi_statements` (
+	`id` text PRIMARY KEY NOT NULL,
+	`file_name` text NOT NULL,
+	`line_count` integer NOT NULL,
+	`user_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,5 @@
+ALTER TABLE `returns` ADD `approved_by` text REFERENCES users(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `approved_by` text REFERENCES users(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `voided_by` text REFERENCES users(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `voided_at` integer;--> statement-breakpoint
+ALTER TABLE `transactions` ADD `void_reason` text;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `roles` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`permissions` text NOT NULL,
+	`is_system` integer DEFAULT false,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP
+);--> statement-breakpoint
+INSERT INTO `roles` (`id`, `name`, `description`, `permissions`, `is_system`) VALUES ('admin', 'Administrator', 'Full access to the store', '["sales.create","sales.refund","sales.void","sales.override","shifts.manage","customers.manage","promotions.manage","inventory.manage","inventory.adjust","purchasing.manage","reports.view","reports.export","payments.reconcile","settings.manage","users.manage"]', 1);--> statement-breakpoint
+INSERT INTO `roles` (`id`, `name`, `description`, `permissions`, `is_system`) VALUES ('manager', 'Manager', 'Runs the shop floor, stock and reports', '["sales.create","sales.refund","sales.void","sales.override","shifts.manage","customers.manage","promotions.manage","inventory.manage","inventory.adjust","purchasing.manage","reports.view","reports.export","payments.reconcile","settings.manage"]', 1);--> statement-breakpoint
+INSERT INTO `roles` (`id`, `name`, `description`, `permissions`, `is_system`) VALUES ('cashier', 'Cashier', 'Works the till', '["sales.create","sales.refund","sales.void"]', 1);
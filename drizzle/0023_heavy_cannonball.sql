@@ -0,0 +1,10 @@
+CREATE TABLE `login_attempts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`scope` text NOT NULL,
+	`key` text NOT NULL,
+	`failed_count` integer DEFAULT 0 NOT NULL,
+	`last_failed_at` integer,
+	`locked_until` integer
+);
+--> statement-breakpoint
+CREATE INDEX `login_attempts_scope_idx` ON `login_attempts` (`scope`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `returns` ADD `points_refunded` integer DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `returns` ADD `credit_refunded` real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `returns` ADD `credit_code` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `stock_takes` ADD `location_id` text REFERENCES locations(id);
\ No newline at end of file
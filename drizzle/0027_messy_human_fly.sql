@@ -0,0 +1,14 @@
+ALTER TABLE `transactions` ADD `place_of_supply` text;--> statement-breakpoint
+ALTER TABLE `transactions` ADD `invoice_number` text;--> statement-breakpoint
+WITH `dated` AS (
+	SELECT `id`, `created_at`,
+		CAST(strftime('%Y', `created_at`, 'unixepoch', 'localtime') AS INTEGER)
+			- (CASE WHEN CAST(strftime('%m', `created_at`, 'unixepoch', 'localtime') AS INTEGER) < 4 THEN 1 ELSE 0 END) AS `start_year`
+	FROM `transactions`
+), `numbered` AS (
+	SELECT `id`, 'S/' || `start_year` || '-' || printf('%02d', (`start_year` + 1) % 100) || '/'
+		|| printf('%06d', ROW_NUMBER() OVER (PARTITION BY `start_year` ORDER BY `created_at`, `id`)) AS `invoice_number`
+	FROM `dated`
+)
+UPDATE `transactions` SET `invoice_number` = (SELECT `invoice_number` FROM `numbered` WHERE `numbered`.`id` = `transactions`.`id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `transactions_invoice_number_unique` ON `transactions` (`invoice_number`);
@@ -0,0 +1,3 @@
+ALTER TABLE `stock_batches` ADD `location_id` text REFERENCES locations(id);--> statement-breakpoint
+UPDATE `stock_batches` SET `location_id` = (SELECT `id` FROM `locations` WHERE `is_default` = 1 LIMIT 1);--> statement-breakpoint
+CREATE INDEX `stock_batch_location_idx` ON `stock_batches` (`location_id`);
\ No newline at end of file
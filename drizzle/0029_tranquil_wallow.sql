@@ -0,0 +1 @@
+ALTER TABLE `stock_take_items` ADD `balance_at_count` integer;
\ No newline at end of file
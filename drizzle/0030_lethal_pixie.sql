@@ -0,0 +1,4 @@
+ALTER TABLE `vouchers` ADD `shift_id` text REFERENCES shifts(id);--> statement-breakpoint
+ALTER TABLE `vouchers` ADD `payment_method` text;--> statement-breakpoint
+ALTER TABLE `vouchers` ADD `payment_reference` text;--> statement-breakpoint
+CREATE INDEX `voucher_shift_idx` ON `vouchers` (`shift_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `held_carts` ADD `expiry_notified_at` integer;--> statement-breakpoint
+UPDATE `held_carts` SET `expiry_notified_at` = `updated_at` WHERE `status` = 'expired';
\ No newline at end of file
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { LoginForm } from '@/components/auth/LoginForm';
 import { useAuth } from '@/hooks/useAuth';
+import type { AuthUser } from '@/types/auth';
 import { trustedDeviceService } from '@/services/auth/trustedDeviceService';
 
 export default function LoginPage() {
@@ -16,7 +17,7 @@ export default function LoginPage() {
   useEffect(() => {
     if (user && !isLoading) {
       // Redirect based on user role
-      const dashboardPath = getDashboardPath(user.role);
+      const dashboardPath = getDashboardPath(user);
       router.replace(dashboardPath);
     }
   }, [user, isLoading, router]);
@@ -103,17 +104,14 @@ export default function LoginPage() {
 }
 
 /**
- * Get dashboard path based on user role
+ * Get dashboard path based on what the user's role lets them do
  */
-function getDashboardPath(role: string): string {
-  switch (role) {
-    case 'admin':
-      return '/dashboard/admin';
-    case 'manager':
-      return '/dashboard/manager';
-    case 'cashier':
-      return '/dashboard/cashier';
-    default:
-      return '/dashboard';
+function getDashboardPath(user: Pick<AuthUser, 'permissions'>): string {
+  if (user.permissions.includes('users.manage')) {
+    return '/dashboard/admin';
   }
-}
\ No newline at end of file
+  if (user.permissions.includes('reports.view')) {
+    return '/dashboard/manager';
+  }
+  return '/dashboard/cashier';
+}
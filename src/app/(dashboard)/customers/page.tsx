@@ -0,0 +1,29 @@
+import { redirect } from 'next/navigation';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { CustomerManager } from '@/components/customers/CustomerManager';
+import { MembershipTierManager } from '@/components/customers/MembershipTierManager';
+import { VoucherManager } from '@/components/customers/VoucherManager';
+
+export default async function CustomersPage({
+  searchParams,
+}: {
+  searchParams: { id?: string };
+}) {
+  // Get current user from session
+  const currentUser = await getSessionUser();
+
+  if (!currentUser) {
+    redirect('/login');
+  }
+
+  const canManage = canAccess(currentUser, ['customers.manage']);
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <CustomerManager initialCustomerId={searchParams.id} canManage={canManage} />
+      <VoucherManager canManage={canManage} />
+      {canManage && <MembershipTierManager />}
+    </div>
+  );
+}
@@ -55,6 +55,7 @@ interface DashboardMetrics {
 
 export default function AdminDashboard() {
   const { user, isLoading: authLoading } = useAuth();
+  const canViewAdmin = !!user?.permissions.includes('users.manage');
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -90,11 +91,11 @@ export default function AdminDashboard() {
       }
     };
 
-    // Only load metrics if user is authenticated and has admin role
-    if (user?.role === 'admin') {
+    // Only load metrics if user is authenticated and can manage staff
+    if (canViewAdmin) {
       loadMetrics();
     }
-  }, [user?.role]);
+  }, [canViewAdmin]);
 
   // Show loading while authentication is in progress
   if (authLoading) {
@@ -106,8 +107,8 @@ export default function AdminDashboard() {
     );
   }
 
-  // Show access denied only after auth is complete and user doesn't have admin role
-  if (!authLoading && user?.role !== 'admin') {
+  // Show access denied only after auth is complete and user can't manage staff
+  if (!authLoading && (!user || !canViewAdmin)) {
     return (
       <div className="text-center py-12">
         <h1 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h1>
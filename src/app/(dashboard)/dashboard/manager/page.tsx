@@ -17,6 +17,7 @@ import type { DashboardMetrics } from "@/types";
 
 export default function ManagerDashboard() {
   const { user, isLoading: authLoading } = useAuth();
+  const canViewReports = !!user?.permissions.includes("reports.view");
   const [metrics, setMetrics] = useState<Omit<
     DashboardMetrics,
     "users"
@@ -46,11 +47,11 @@ export default function ManagerDashboard() {
       }
     };
 
-    // Only load metrics if user has manager or admin role
-    if (user?.role === "manager" || user?.role === "admin") {
+    // Only load metrics if user can view reports
+    if (canViewReports) {
       loadMetrics();
     }
-  }, [user?.role]);
+  }, [canViewReports]);
 
   // Show loading while authentication is in progress
   if (authLoading) {
@@ -62,8 +63,8 @@ export default function ManagerDashboard() {
     );
   }
 
-  // Show access denied only after auth is complete and user doesn't have required role
-  if (!authLoading && user?.role !== "manager" && user?.role !== "admin") {
+  // Show access denied only after auth is complete and user can't view reports
+  if (!authLoading && (!user || !canViewReports)) {
     return (
       <div className="text-center py-12">
         <h1 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h1>
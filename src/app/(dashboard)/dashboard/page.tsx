@@ -3,6 +3,7 @@
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
+import type { AuthUser } from '@/types/auth';
 
 export default function DashboardPage() {
   const router = useRouter();
@@ -11,7 +12,7 @@ export default function DashboardPage() {
   useEffect(() => {
     if (!isLoading && user) {
       // Redirect to role-specific dashboard
-      const dashboardPath = getDashboardPath(user.role);
+      const dashboardPath = getDashboardPath(user);
       router.replace(dashboardPath);
     }
   }, [user, isLoading, router]);
@@ -28,17 +29,14 @@ export default function DashboardPage() {
 }
 
 /**
- * Get dashboard path based on user role
+ * Get dashboard path based on what the user's role lets them do
  */
-function getDashboardPath(role: string): string {
-  switch (role) {
-    case 'admin':
-      return '/dashboard/admin';
-    case 'manager':
-      return '/dashboard/manager';
-    case 'cashier':
-      return '/dashboard/cashier';
-    default:
-      return '/dashboard/cashier'; // Default to cashier for unknown roles
+function getDashboardPath(user: Pick<AuthUser, 'permissions'>): string {
+  if (user.permissions.includes('users.manage')) {
+    return '/dashboard/admin';
   }
-}
\ No newline at end of file
+  if (user.permissions.includes('reports.view')) {
+    return '/dashboard/manager';
+  }
+  return '/dashboard/cashier';
+}
@@ -7,18 +7,28 @@ import {
   FolderOpen, 
   BarChart3, 
   Zap, 
-  TrendingUp 
+  TrendingUp,
+  Tag,
+  Truck,
+  ClipboardCheck,
+  MapPin
 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { AlertDialog } from '@/components/ui/AlertDialog';
 import { ProductList } from '@/components/inventory/ProductList';
 
 import { CategoryManager } from '@/components/inventory/CategoryManager';
+import { PromotionManager } from '@/components/inventory/PromotionManager';
 import { StockManager } from '@/components/inventory/StockManager';
 import { BulkOperations } from '@/components/inventory/BulkOperations';
 import { InventoryReports } from '@/components/inventory/InventoryReports';
+import { PurchaseOrderManager } from '@/components/inventory/PurchaseOrderManager';
+import { StockTakeManager } from '@/components/inventory/StockTakeManager';
+import { LocationManager } from '@/components/inventory/LocationManager';
 import { ProductDetailModal } from '@/components/inventory/ProductDetailModal';
+import { LabelDesigner } from '@/components/inventory/LabelDesigner';
 import { useAuth } from '@/hooks/useAuth';
+import type { Permission } from '@/types/auth';
 import type { CategoryHierarchy } from '@/services/database/categories';
 import type { EnhancedProduct } from '@/services/database/products';
 
@@ -42,10 +52,12 @@ const flattenCategories = (categories: CategoryHierarchy[]): Array<{ id: string;
   return result;
 };
 
+const inventoryPermissions: Permission[] = ['inventory.manage', 'inventory.adjust', 'purchasing.manage', 'promotions.manage'];
+
 export default function InventoryPage() {
   const router = useRouter();
   const { user, isLoading: authLoading } = useAuth();
-  const [activeTab, setActiveTab] = useState<'products' | 'categories' | 'stock' | 'bulk' | 'reports'>('products');
+  const [activeTab, setActiveTab] = useState<'products' | 'categories' | 'promotions' | 'stock' | 'stocktake' | 'locations' | 'purchasing' | 'bulk' | 'reports'>('products');
   const [products, setProducts] = useState<EnhancedProduct[]>([]);
   const [categories, setCategories] = useState<CategoryHierarchy[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -53,6 +65,7 @@ export default function InventoryPage() {
 
   // Product detail modal state
   const [selectedProduct, setSelectedProduct] = useState<EnhancedProduct | null>(null);
+  const [labelProducts, setLabelProducts] = useState<EnhancedProduct[] | null>(null);
 
   // Alert dialog state
   const [deleteDialog, setDeleteDialog] = useState<{
@@ -66,8 +79,8 @@ export default function InventoryPage() {
   });
   const [isDeleting, setIsDeleting] = useState(false);
 
-  // Check if user has manager or admin role
-  const canManageInventory = user?.role === 'manager' || user?.role === 'admin';
+  // Any inventory permission opens the page; each tab below needs its own
+  const canManageInventory = !!user && inventoryPermissions.some((permission) => user.permissions.includes(permission));
 
   useEffect(() => {
     // Wait for authentication to complete
@@ -251,7 +264,7 @@ export default function InventoryPage() {
     );
   }
 
-  // Show access denied only after auth is complete and user doesn't have required role
+  // Show access denied only after auth is complete and user doesn't have any inventory permission
   if (!authLoading && !canManageInventory) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -277,13 +290,19 @@ export default function InventoryPage() {
     );
   }
 
-  const tabs = [
-    { id: 'products', label: 'Products', icon: Package },
-    { id: 'categories', label: 'Categories', icon: FolderOpen },
-    { id: 'stock', label: 'Stock Management', icon: BarChart3 },
-    { id: 'bulk', label: 'Bulk Operations', icon: Zap },
-    { id: 'reports', label: 'Reports', icon: TrendingUp },
+  const allTabs = [
+    { id: 'products', label: 'Products', icon: Package, permission: 'inventory.manage' },
+    { id: 'categories', label: 'Categories', icon: FolderOpen, permission: 'inventory.manage' },
+    { id: 'promotions', label: 'Promotions', icon: Tag, permission: 'promotions.manage' },
+    { id: 'stock', label: 'Stock Management', icon: BarChart3, permission: 'inventory.adjust' },
+    { id: 'stocktake', label: 'Stock Take', icon: ClipboardCheck, permission: 'inventory.adjust' },
+    { id: 'locations', label: 'Locations', icon: MapPin, permission: 'inventory.manage' },
+    { id: 'purchasing', label: 'Purchasing', icon: Truck, permission: 'purchasing.manage' },
+    { id: 'bulk', label: 'Bulk Operations', icon: Zap, permission: 'inventory.manage' },
+    { id: 'reports', label: 'Reports', icon: TrendingUp, permission: 'reports.view' },
   ] as const;
+  const tabs = allTabs.filter((tab) => user?.permissions.includes(tab.permission));
+  const currentTab = tabs.some((tab) => tab.id === activeTab) ? activeTab : tabs[0]?.id;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -305,7 +324,7 @@ export default function InventoryPage() {
                   key={tab.id}
                   onClick={() => setActiveTab(tab.id)}
                   className={`py-4 px-1 border-b-2 font-medium text-sm whitespace-nowrap flex items-center ${
-                    activeTab === tab.id
+                    currentTab === tab.id
                       ? 'border-orange-500 text-orange-600'
                       : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                   }`}
@@ -319,7 +338,7 @@ export default function InventoryPage() {
 
           {/* Tab Content */}
           <div className="p-6">
-            {activeTab === 'products' && (
+            {currentTab === 'products' && (
               <ProductList
                 products={products}
                 categories={categories}
@@ -327,11 +346,12 @@ export default function InventoryPage() {
                 onProductEdit={handleEditProduct}
                 onProductDelete={handleProductDelete}
                 onCreateProduct={handleCreateProduct}
+                onPrintLabels={setLabelProducts}
                 isLoading={isLoading}
               />
             )}
 
-            {activeTab === 'categories' && (
+            {currentTab === 'categories' && (
               <CategoryManager
                 categories={categories}
                 onCreateCategory={handleCategoryCreate}
@@ -341,7 +361,15 @@ export default function InventoryPage() {
               />
             )}
 
-            {activeTab === 'stock' && (
+            {currentTab === 'promotions' && (
+              <PromotionManager
+                products={products}
+                categories={flattenCategories(categories)}
+                isLoading={isLoading}
+              />
+            )}
+
+            {currentTab === 'stock' && (
               <StockManager
                 products={products}
                 onStockUpdate={loadData}
@@ -349,7 +377,28 @@ export default function InventoryPage() {
               />
             )}
 
-            {activeTab === 'bulk' && (
+            {currentTab === 'stocktake' && (
+              <StockTakeManager
+                categories={flattenCategories(categories)}
+                onStockChange={loadData}
+              />
+            )}
+
+            {currentTab === 'locations' && (
+              <LocationManager
+                products={products}
+                onStockChange={loadData}
+              />
+            )}
+
+            {currentTab === 'purchasing' && (
+              <PurchaseOrderManager
+                products={products}
+                onStockChange={loadData}
+              />
+            )}
+
+            {currentTab === 'bulk' && (
               <BulkOperations
                 products={products}
                 categories={categories}
@@ -358,7 +407,7 @@ export default function InventoryPage() {
               />
             )}
 
-            {activeTab === 'reports' && (
+            {currentTab === 'reports' && (
               <InventoryReports
                 products={products}
                 categories={categories}
@@ -381,6 +430,13 @@ export default function InventoryPage() {
         />
       )}
 
+      {/* Label Designer */}
+      <LabelDesigner
+        products={labelProducts || []}
+        isOpen={!!labelProducts}
+        onClose={() => setLabelProducts(null)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog
         isOpen={deleteDialog.isOpen}
@@ -10,6 +10,9 @@ import { productFormSchema, type ProductFormInput, type CreateProductInput } fro
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
+import { ProductTaxFields } from '@/components/inventory/ProductTaxFields';
+import { ProductBatchTrackingField } from '@/components/inventory/ProductBatchTrackingField';
+import { ProductSupplierField } from '@/components/inventory/ProductSupplierField';
 import { useAuth } from '@/hooks/useAuth';
 import type { ProductVariant } from '@/types';
 import type { CategoryHierarchy } from '@/services/database/categories';
@@ -18,6 +21,7 @@ interface VariantFormData {
   id?: string;
   name: string;
   price: number;
+  costPrice: number;
   stockQuantity: number;
   attributes: Record<string, string>;
   keywords: string[];
@@ -79,6 +83,11 @@ export default function NewProductPage() {
       description: '',
       basePrice: 0,
       categoryId: '',
+      hsnCode: '',
+      supplierId: '',
+      trackBatches: false,
+      taxRate: 0,
+      priceIncludesTax: true,
       keywords: [],
       metadata: {
         author: '',
@@ -98,7 +107,7 @@ export default function NewProductPage() {
   const keywords = watch('keywords');
 
   // Check permissions
-  const canManageInventory = user?.role === 'manager' || user?.role === 'admin';
+  const canManageInventory = !!user?.permissions.includes('inventory.manage');
 
   useEffect(() => {
     loadCategories();
@@ -163,6 +172,7 @@ export default function NewProductPage() {
       id: `temp-${Date.now()}`,
       name: '',
       price: 0,
+      costPrice: 0,
       stockQuantity: 0,
       attributes: {},
       keywords: [],
@@ -306,6 +316,18 @@ export default function NewProductPage() {
                 />
               </div>
             </div>
+
+            <div className="mt-6">
+              <ProductTaxFields register={register} errors={errors} />
+            </div>
+
+            <div className="mt-6">
+              <ProductSupplierField register={register} errors={errors} />
+            </div>
+
+            <div className="mt-6">
+              <ProductBatchTrackingField register={register} />
+            </div>
           </div>
 
           {/* Keywords Card */}
@@ -687,7 +709,7 @@ function VariantEditor({ variant, onChange }: VariantEditorProps) {
         />
       </div>
 
-      <div className="grid grid-cols-2 gap-4">
+      <div className="grid grid-cols-3 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Price *
@@ -702,6 +724,20 @@ function VariantEditor({ variant, onChange }: VariantEditorProps) {
           />
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Cost Price
+          </label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={variant.costPrice}
+            onChange={(e) => handleVariantChange('costPrice', parseFloat(e.target.value) || 0)}
+            placeholder="0.00"
+          />
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Stock Quantity
@@ -7,6 +7,11 @@ import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 import { SessionTimeoutWarning } from '@/components/auth/SessionTimeoutWarning';
 import { UserProfile } from '@/components/auth/UserProfile';
+import type { Permission } from '@/types/auth';
+
+// Any one of these opens the section
+const inventoryPermissions: Permission[] = ['inventory.manage', 'inventory.adjust', 'purchasing.manage', 'promotions.manage'];
+const reportPermissions: Permission[] = ['reports.view', 'reports.export', 'payments.reconcile'];
 
 export default function DashboardLayout({
   children,
@@ -54,7 +59,7 @@ export default function DashboardLayout({
                 </h1>
               </div>
               
-              {/* Role-based Navigation Menu */}
+              {/* Permission-based Navigation Menu */}
               <nav className="hidden md:flex space-x-6">
                 <Link 
                   href="/dashboard" 
@@ -68,23 +73,23 @@ export default function DashboardLayout({
                 >
                   Sales
                 </Link>
-                {(user.role === 'admin' || user.role === 'manager') && (
-                  <>
-                    <Link 
-                      href="/inventory" 
-                      className="text-gray-700 hover:text-saffron-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
-                    >
-                      Inventory
-                    </Link>
-                    <Link 
-                      href="/reports" 
-                      className="text-gray-700 hover:text-saffron-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
-                    >
-                      Reports
-                    </Link>
-                  </>
+                {inventoryPermissions.some((permission) => user.permissions.includes(permission)) && (
+                  <Link 
+                    href="/inventory" 
+                    className="text-gray-700 hover:text-saffron-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    Inventory
+                  </Link>
+                )}
+                {reportPermissions.some((permission) => user.permissions.includes(permission)) && (
+                  <Link 
+                    href="/reports" 
+                    className="text-gray-700 hover:text-saffron-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    Reports
+                  </Link>
                 )}
-                {user.role === 'admin' && (
+                {user.permissions.includes('users.manage') && (
                   <Link 
                     href="/users" 
                     className="text-gray-700 hover:text-saffron-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
@@ -7,7 +7,10 @@ import {
   FileText, 
   Package, 
   TrendingUp, 
-  Clock 
+  Clock,
+  Receipt,
+  Wallet,
+  Gift
 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -15,9 +18,13 @@ import { DailySalesReport } from '@/components/reports/DailySalesReport';
 import { TransactionHistory } from '@/components/reports/TransactionHistory';
 import { ProductPerformance } from '@/components/reports/ProductPerformance';
 import { ReportScheduler } from '@/components/reports/ReportScheduler';
+import { TaxReport } from '@/components/reports/TaxReport';
+import { ShiftReports } from '@/components/reports/ShiftReports';
+import { VoucherLiabilityReport } from '@/components/reports/VoucherLiabilityReport';
+import { UpiReconciliation } from '@/components/reports/UpiReconciliation';
 import { ReportStatus } from '@/components/reports/OfflineReportStatus';
 
-type ReportTab = 'daily' | 'transactions' | 'products' | 'analytics' | 'scheduler';
+type ReportTab = 'daily' | 'transactions' | 'products' | 'analytics' | 'tax' | 'shifts' | 'vouchers' | 'scheduler';
 
 export default function ReportsPage() {
   const [activeTab, setActiveTab] = useState<ReportTab>('daily');
@@ -43,6 +50,9 @@ export default function ReportsPage() {
     { id: 'transactions' as ReportTab, label: 'Transaction History', icon: FileText },
     { id: 'products' as ReportTab, label: 'Product Performance', icon: Package },
     { id: 'analytics' as ReportTab, label: 'Analytics', icon: TrendingUp },
+    { id: 'tax' as ReportTab, label: 'GST', icon: Receipt },
+    { id: 'shifts' as ReportTab, label: 'Shifts', icon: Wallet },
+    { id: 'vouchers' as ReportTab, label: 'Vouchers', icon: Gift },
     { id: 'scheduler' as ReportTab, label: 'Scheduled Reports', icon: Clock },
   ];
 
@@ -103,6 +113,9 @@ export default function ReportsPage() {
                 />
               </div>
               <DailySalesReport selectedDate={selectedDate} />
+              <div className="mt-8 pt-8 border-t">
+                <UpiReconciliation selectedDate={selectedDate} />
+              </div>
             </div>
           )}
 
@@ -142,6 +155,24 @@ export default function ReportsPage() {
             </div>
           )}
 
+          {activeTab === 'tax' && (
+            <div className="p-6">
+              <TaxReport />
+            </div>
+          )}
+
+          {activeTab === 'shifts' && (
+            <div className="p-6">
+              <ShiftReports />
+            </div>
+          )}
+
+          {activeTab === 'vouchers' && (
+            <div className="p-6">
+              <VoucherLiabilityReport />
+            </div>
+          )}
+
           {activeTab === 'scheduler' && (
             <div className="p-6">
               <ReportScheduler />
@@ -260,6 +291,29 @@ function SalesAnalytics() {
             </div>
           </div>
 
+          {/* Margin */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg border p-6">
+              <div className="text-sm font-medium text-gray-500">Net Sales (ex. GST)</div>
+              <div className="text-2xl font-bold text-gray-900">{formatCurrency(analyticsData.netSales)}</div>
+            </div>
+            <div className="bg-white rounded-lg border p-6">
+              <div className="text-sm font-medium text-gray-500">Cost of Goods Sold</div>
+              <div className="text-2xl font-bold text-gray-900">{formatCurrency(analyticsData.costOfGoods)}</div>
+            </div>
+            <div className="bg-white rounded-lg border p-6">
+              <div className="text-sm font-medium text-gray-500">Gross Margin</div>
+              <div className={`text-2xl font-bold ${analyticsData.grossMargin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCurrency(analyticsData.grossMargin)}
+              </div>
+              <div className="text-sm text-gray-500">{analyticsData.marginPercent.toFixed(1)}% of net sales</div>
+            </div>
+            <div className="bg-white rounded-lg border p-6">
+              <div className="text-sm font-medium text-gray-500">Inventory at Cost</div>
+              <div className="text-2xl font-bold text-gray-900">{formatCurrency(analyticsData.inventoryValue)}</div>
+            </div>
+          </div>
+
           {/* Category Breakdown with Visual Chart */}
           <div className="bg-white rounded-lg border p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Revenue by Category</h3>
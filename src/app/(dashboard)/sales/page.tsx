@@ -1,13 +1,19 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Monitor } from "lucide-react";
 import { ProductSelection } from "@/components/sales/ProductSelection";
 import { CartManager } from "@/components/sales/CartManager";
+import { CartPersistence } from "@/components/sales/CartPersistence";
+import { ShiftManager } from "@/components/sales/ShiftManager";
 import { PaymentProcessor } from "@/components/sales/PaymentProcessor";
 import { TransactionHistory } from "@/components/sales/TransactionHistory";
 import { ReceiptPrinter } from "@/components/sales/ReceiptPrinter";
 import { NotificationProvider } from "@/components/providers/NotificationProvider";
 import { PrinterStatusIndicator } from "@/components/common/PrinterStatusIndicator";
+import { useCartStore } from "@/stores/cartStore";
+import { useCustomerDisplaySync } from "@/hooks/useCustomerDisplaySync";
+import { GstCalculator } from "@/services/tax/gstCalculator";
 import type { Transaction, Product, ProductVariant } from "@/types";
 
 type SalesStep = "selection" | "payment" | "receipt";
@@ -21,6 +27,12 @@ interface EnhancedTransactionItem {
   totalPrice: number;
   productName: string;
   variantName?: string;
+  hsnCode?: string;
+  taxRate?: number;
+  taxableValue?: number;
+  cgst?: number;
+  sgst?: number;
+  igst?: number;
 }
 
 interface EnhancedTransaction extends Omit<Transaction, "items"> {
@@ -33,6 +45,26 @@ export default function SalesPage() {
     useState<EnhancedTransaction | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [showReceiptPrinter, setShowReceiptPrinter] = useState(false);
+  const setPromotions = useCartStore((state) => state.setPromotions);
+
+  useCustomerDisplaySync();
+
+  // Load the promotions running today so the cart prices them live
+  useEffect(() => {
+    const loadPromotions = async () => {
+      try {
+        const response = await fetch("/api/promotions?active=true");
+        if (response.ok) {
+          const result = await response.json();
+          setPromotions(result.data || []);
+        }
+      } catch (error) {
+        console.error("Failed to load promotions:", error);
+      }
+    };
+
+    loadPromotions();
+  }, [setPromotions]);
 
   const handleCheckout = () => {
     setCurrentStep("payment");
@@ -140,6 +172,15 @@ export default function SalesPage() {
                 size="md"
                 className="hidden sm:flex"
               />
+
+              {/* Opens the customer display; drag it to the second screen and make it full screen */}
+              <button
+                onClick={() => window.open("/customer-display", "customer-display", "popup")}
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Customer Display"
+              >
+                <Monitor className="w-5 h-5" />
+              </button>
               
               {currentStep === "selection" && (
                 <>
@@ -187,6 +228,9 @@ export default function SalesPage() {
         </div>
       </div>
 
+      {/* Cashier shift: opening float, running totals and end-of-shift count */}
+      <ShiftManager />
+
       {/* Step Indicator - Simplified for Mobile */}
       <div className="bg-white border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
@@ -341,6 +385,7 @@ export default function SalesPage() {
 
               {/* Cart - Prominent position */}
               <div className="xl:col-span-1 order-1 xl:order-2">
+                <CartPersistence />
                 <CartManager onCheckout={handleCheckout} />
               </div>
             </div>
@@ -397,7 +442,7 @@ export default function SalesPage() {
                 receiptData={{
                   id: `receipt-${enhancedTransaction.id}`,
                   transactionId: enhancedTransaction.id,
-                  receiptNumber: enhancedTransaction.id,
+                  receiptNumber: enhancedTransaction.invoiceNumber || enhancedTransaction.id,
                   storeName: "ISKCON Asansol Temple",
                   storeAddress: "Gift & Book Store",
                   storePhone: "+91-XXXXXXXXXX",
@@ -415,9 +460,10 @@ export default function SalesPage() {
                     quantity: item.quantity,
                     unitPrice: item.unitPrice,
                     totalPrice: item.totalPrice,
+                    hsnCode: item.hsnCode,
                   })),
                   subtotal: enhancedTransaction.subtotal,
-                  tax: enhancedTransaction.tax,
+                  ...GstCalculator.summarizeSale(enhancedTransaction),
                   discount: enhancedTransaction.discount,
                   total: enhancedTransaction.total,
                   paymentMethod: enhancedTransaction.paymentMethod,
@@ -1,7 +1,9 @@
 import { redirect } from 'next/navigation';
 import { getSessionUser } from '@/lib/auth/session';
 import { UserList } from '@/components/users/UserList';
+import { RoleManager } from '@/components/users/RoleManager';
 import { authService } from '@/services/auth/authService';
+import { roleService } from '@/services/database/roles';
 
 export default async function UsersPage() {
   // Get current user from session
@@ -12,13 +14,16 @@ export default async function UsersPage() {
   }
   
   // Check if user has permission to view users
-  if (!authService.hasPermission(currentUser.role, 'users:read')) {
+  if (!authService.hasPermission(currentUser, 'users.manage')) {
     redirect('/dashboard');
   }
+
+  const roles = await roleService.findAll();
   
   return (
-    <div className="container mx-auto px-4 py-8">
-      <UserList currentUserRole={currentUser.role} />
+    <div className="container mx-auto px-4 py-8 space-y-10">
+      <UserList roles={roles} canManage />
+      <RoleManager roles={roles} />
     </div>
   );
-}
\ No newline at end of file
+}
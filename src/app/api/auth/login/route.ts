@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authService } from '@/services/auth/authService';
-import { createSession, setSessionCookie } from '@/lib/auth/session';
-import type { LoginRequest } from '@/types/auth';
+import { createSession, getDeviceId, setDeviceCookie, setSessionCookie } from '@/lib/auth/session';
+import { UNREGISTERED_DEVICE_ID, type LoginRequest } from '@/types/auth';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -19,8 +19,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The server-issued device id identifies the terminal for throttling; the address our proxy
+    // appended last is only recorded, since anything earlier in the header comes from the client
+    const registeredDeviceId = getDeviceId(request);
+    const deviceId = registeredDeviceId || UNREGISTERED_DEVICE_ID;
+    const ipAddress = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || undefined;
+    const userAgent = request.headers.get('user-agent') || undefined;
+
     // Attempt login
-    const loginResult = await authService.login({ username, pin });
+    const loginResult = await authService.login({ username, pin }, { deviceId, ipAddress, userAgent });
+
+    if (loginResult.retryAfterSeconds) {
+      return NextResponse.json(
+        { error: loginResult.message, retryAfterSeconds: loginResult.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(loginResult.retryAfterSeconds) } }
+      );
+    }
 
     if (!loginResult.success) {
       return NextResponse.json(
@@ -41,6 +55,11 @@ export async function POST(request: NextRequest) {
     // Set session cookie
     setSessionCookie(response, sessionToken);
 
+    // A terminal only gets its own device id once someone has logged in on it
+    if (!registeredDeviceId) {
+      setDeviceCookie(response);
+    }
+
     return response;
   } catch (error) {
     console.error('Login API error:', error);
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { batchService } from '@/services/database/batches';
+import { nearExpiryQuerySchema } from '@/lib/validation/batch';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { days } = nearExpiryQuerySchema.parse({ days: searchParams.get('days') ?? undefined });
+
+    const batches = await batchService.getNearExpiry(days);
+
+    return NextResponse.json({
+      success: true,
+      data: batches,
+    });
+  } catch (error) {
+    console.error('Near-expiry API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid report window', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch near-expiry batches' },
+      { status: 500 }
+    );
+  }
+}
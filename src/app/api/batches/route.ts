@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { batchService } from '@/services/database/batches';
+import { createBatchSchema } from '@/lib/validation/batch';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['inventory.adjust'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createBatchSchema.parse(body);
+
+    const batch = await batchService.createBatch(validatedData, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: batch,
+    });
+  } catch (error) {
+    console.error('Create batch API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid batch data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('already exists')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message.includes('not found') ||
+      error.message.includes('batch tracking') ||
+      error.message.includes('not in a batch')
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to add batch' },
+      { status: 500 }
+    );
+  }
+}
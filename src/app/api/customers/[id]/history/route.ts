@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { customerService } from '@/services/database/customers';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const history = await customerService.getHistory(params.id);
+    if (!history) {
+      return NextResponse.json(
+        { error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    console.error('Customer history API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch customer history' },
+      { status: 500 }
+    );
+  }
+}
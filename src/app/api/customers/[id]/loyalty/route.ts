@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { customerService } from '@/services/database/customers';
+import { loyaltyService } from '@/services/database/loyalty';
+import { pointsAdjustmentSchema } from '@/lib/validation/loyalty';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const customer = await customerService.findById(params.id);
+    if (!customer) {
+      return NextResponse.json(
+        { error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    const summary = await loyaltyService.getSummary(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    console.error('Customer loyalty API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch loyalty points' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['customers.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const customer = await customerService.findById(params.id);
+    if (!customer) {
+      return NextResponse.json(
+        { error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { points, note } = pointsAdjustmentSchema.parse(body);
+
+    const balance = await loyaltyService.adjustPoints(params.id, points, note, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { balance },
+    });
+  } catch (error) {
+    console.error('Adjust loyalty points API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid points adjustment', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('points available')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to adjust loyalty points' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { customerService } from '@/services/database/customers';
+import { updateCustomerSchema } from '@/lib/validation/customer';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const customer = await customerService.findById(params.id);
+    if (!customer) {
+      return NextResponse.json(
+        { error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: customer,
+    });
+  } catch (error) {
+    console.error('Customer API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch customer' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateCustomerSchema.parse(body);
+
+    // Anyone at the till adds and updates customers, but handing out membership needs customers.manage
+    if (validatedData.tierId !== undefined && !canAccess(user, ['customers.manage'])) {
+      return NextResponse.json(
+        { error: 'Only a manager can change membership tiers' },
+        { status: 403 }
+      );
+    }
+
+    const customer = await customerService.updateCustomer(params.id, validatedData);
+    if (!customer) {
+      return NextResponse.json(
+        { error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: customer,
+    });
+  } catch (error) {
+    console.error('Update customer API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid customer data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.startsWith('Membership tier')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('already belongs to')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update customer' },
+      { status: 500 }
+    );
+  }
+}
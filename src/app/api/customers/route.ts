@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { customerService } from '@/services/database/customers';
+import { createCustomerSchema, customerSearchSchema } from '@/lib/validation/customer';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // The till looks a customer up by their exact phone number
+    const phone = request.nextUrl.searchParams.get('phone');
+    if (phone) {
+      const customer = await customerService.findByPhone(phone);
+      return NextResponse.json({
+        success: true,
+        data: customer ? [customer] : [],
+      });
+    }
+
+    const { q, limit } = customerSearchSchema.parse({
+      q: request.nextUrl.searchParams.get('q') || undefined,
+      limit: request.nextUrl.searchParams.get('limit') || undefined,
+    });
+    const data = await customerService.search(q, limit);
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Customers API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid search', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch customers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Cashiers add customers at the till, so any signed-in user may
+    const body = await request.json();
+    const validatedData = createCustomerSchema.parse(body);
+
+    // Anyone at the till adds and updates customers, but handing out membership needs customers.manage
+    if (validatedData.tierId !== undefined && !canAccess(user, ['customers.manage'])) {
+      return NextResponse.json(
+        { error: 'Only a manager can change membership tiers' },
+        { status: 403 }
+      );
+    }
+
+    const customer = await customerService.createCustomer(validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: customer,
+    });
+  } catch (error) {
+    console.error('Create customer API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid customer data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.startsWith('Membership tier')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('already belongs to')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create customer' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { dashboardService } from "@/services/dashboard/dashboardService";
 import { verifySession } from "@/lib/auth/session";
+import { roleService } from "@/services/database/roles";
 
 export const dynamic = 'force-dynamic';
 
@@ -16,7 +17,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Verify session and check admin role
+    // Verify session and check the role can manage users
     const session = await verifySession(sessionToken);
 
     if (!session) {
@@ -26,9 +27,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (session.role !== "admin") {
+    const permissions = await roleService.getPermissions(session.role);
+    if (!permissions.includes("users.manage")) {
       return NextResponse.json(
-        { error: "Forbidden - Admin access required" },
+        { error: "Forbidden - User management access required" },
         { status: 403 }
       );
     }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dashboardService } from '@/services/dashboard/dashboardService';
 import { verifySession } from '@/lib/auth/session';
+import { roleService } from '@/services/database/roles';
 
 export const dynamic = 'force-dynamic';
 
@@ -16,7 +17,7 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    // Verify session and check manager/admin role
+    // Verify session and check the role can view reports
     const session = await verifySession(sessionToken);
     
     if (!session) {
@@ -26,9 +27,10 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    if (session.role !== 'manager' && session.role !== 'admin') {
+    const permissions = await roleService.getPermissions(session.role);
+    if (!permissions.includes('reports.view')) {
       return NextResponse.json(
-        { error: 'Forbidden - Manager or Admin access required' },
+        { error: 'Forbidden - Report access required' },
         { status: 403 }
       );
     }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { heldCartService } from '@/services/database/heldCarts';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const discarded = await heldCartService.discardCart(params.id);
+    if (!discarded) {
+      return NextResponse.json(
+        { error: 'Held sale not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Held sale discarded',
+    });
+  } catch (error) {
+    console.error('Discard held cart API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to discard held sale' },
+      { status: 500 }
+    );
+  }
+}
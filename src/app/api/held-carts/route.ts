@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { heldCartService } from '@/services/database/heldCarts';
+import { parkCartSchema } from '@/lib/validation/heldCart';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { carts, expired } = await heldCartService.getHeldCarts(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        carts,
+        // The user's own carts that expired since they were last told, so the terminal can notify them
+        expired: expired.map(cart => ({
+          id: cart.id,
+          label: cart.label,
+          total: cart.total,
+          expiresAt: cart.expiresAt,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Held carts API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch held sales' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = parkCartSchema.parse(body);
+
+    const heldCart = await heldCartService.parkCart({
+      ...validatedData,
+      userId: user.id,
+      itemCount: validatedData.items.reduce((count, item) => count + item.quantity, 0),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: heldCart,
+    });
+  } catch (error) {
+    console.error('Park cart API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid cart data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to hold sale' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { locationService } from '@/services/database/locations';
+import { createLocationSchema } from '@/lib/validation/location';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user; every terminal needs the list to pick its location
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const locations = await locationService.findAll(searchParams.get('active') === 'true');
+
+    return NextResponse.json({
+      success: true,
+      data: locations,
+    });
+  } catch (error) {
+    console.error('Locations API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch locations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['inventory.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createLocationSchema.parse(body);
+
+    const location = await locationService.createLocation(validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    console.error('Create location API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid location data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('already exists')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create location' },
+      { status: 500 }
+    );
+  }
+}
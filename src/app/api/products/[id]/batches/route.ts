@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { batchService } from '@/services/database/batches';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const batches = await batchService.findByProduct(params.id, searchParams.get('includeEmpty') === 'true');
+
+    return NextResponse.json({
+      success: true,
+      data: batches,
+    });
+  } catch (error) {
+    console.error('Product batches API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch batches' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
 import { productService } from '@/services/database/products';
 import { updateProductSchema } from '@/lib/validation/product';
 import { z } from 'zod';
@@ -56,7 +57,8 @@ export async function PUT(
     const validatedData = updateProductSchema.parse(body);
     
     // Update the product
-    const updatedProduct = await productService.updateProduct(productId, validatedData);
+    const user = await getSessionUser(request);
+    const updatedProduct = await productService.updateProduct(productId, validatedData, user?.id);
     
     if (!updatedProduct) {
       return NextResponse.json(
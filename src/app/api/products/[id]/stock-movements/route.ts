@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { stockMovementService } from '@/services/database/stockMovements';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const variantId = searchParams.get('variantId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '200') || 200, 1000);
+
+    const movements = variantId
+      ? await stockMovementService.findByVariant(variantId, limit)
+      : await stockMovementService.findByProduct(params.id, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: movements,
+    });
+  } catch (error) {
+    console.error('Stock movements API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch stock movements' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { productService } from '@/services/database/products';
+import { linkBarcodeSchema } from '@/lib/validation/product';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const match = await productService.findByBarcode(decodeURIComponent(params.code));
+    if (!match) {
+      // Tell the till whether this user may link the code to a product there and then
+      return NextResponse.json(
+        { error: 'Unknown barcode', canLink: canAccess(user, ['inventory.manage']) },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: match,
+    });
+  } catch (error) {
+    console.error('Barcode lookup API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to look up barcode' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Anyone can scan, but linking a code changes the catalogue
+    if (!canAccess(user, ['inventory.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { variantId } = linkBarcodeSchema.parse(body);
+
+    const variant = await productService.linkBarcode(variantId, decodeURIComponent(params.code));
+
+    return NextResponse.json({
+      success: true,
+      data: variant,
+    });
+  } catch (error) {
+    console.error('Barcode link API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes('already linked')) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.message.includes('Invalid barcode') || error.message.includes('required')) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to link barcode' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
 import { productService } from '@/services/database/products';
 import { createProductSchema, productQuerySchema } from '@/lib/validation/product';
 import { z } from 'zod';
@@ -52,7 +53,8 @@ export async function POST(request: NextRequest) {
     const validatedData = createProductSchema.parse(body);
     
     // Create the product
-    const product = await productService.createProduct(validatedData);
+    const user = await getSessionUser(request);
+    const product = await productService.createProduct(validatedData, user?.id);
     
     return NextResponse.json(
       {
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
 import { productService } from '@/services/database/products';
 import { z } from 'zod';
 
@@ -7,12 +9,29 @@ const stockUpdateSchema = z.object({
     variantId: z.string(),
     quantity: z.number().min(0),
     operation: z.enum(['set', 'add', 'subtract']).default('set'),
+    type: z.enum(['adjustment', 'write_off']).default('adjustment'),
     reason: z.string().optional(),
   })),
 });
 
 export async function PUT(request: NextRequest) {
   try {
+    // Get authenticated user; every adjustment is attributed in the stock ledger
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['inventory.adjust'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     
     // Validate request body
@@ -47,7 +66,11 @@ export async function PUT(request: NextRequest) {
         }
         
         // Update the stock
-        const success = await productService.updateVariantStock(update.variantId, newQuantity);
+        const success = await productService.updateVariantStock(update.variantId, newQuantity, {
+          type: update.type,
+          reason: update.reason,
+          userId: user.id,
+        });
         
         results.push({
           variantId: update.variantId,
@@ -103,11 +126,13 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const threshold = parseInt(searchParams.get('threshold') || '5');
     const includeVariants = searchParams.get('includeVariants') !== 'false';
+    const locationId = searchParams.get('locationId') || undefined;
     
     // Get low stock items
     const lowStockItems = await productService.getLowStockItems({
       threshold,
       includeVariants,
+      locationId,
     });
     
     return NextResponse.json({
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
 import { productService } from '@/services/database/products';
 import { createProductVariantSchema } from '@/lib/validation/product';
 import { z } from 'zod';
@@ -36,10 +37,11 @@ export async function POST(request: NextRequest) {
     }
     
     // Create the variant
+    const user = await getSessionUser(request);
     const variant = await productService.createVariant({
       ...validatedData,
       productId,
-    });
+    }, user?.id);
     
     // Parse JSON fields for response
     const enhancedVariant = {
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { promotionService } from '@/services/database/promotions';
+import { createPromotionSchema } from '@/lib/validation/promotion';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // The sales counter only needs the promotions that apply right now
+    const activeOnly = request.nextUrl.searchParams.get('active') === 'true';
+    const data = activeOnly
+      ? await promotionService.getActivePromotions()
+      : await promotionService.findAll();
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Promotions API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch promotions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['promotions.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createPromotionSchema.parse(body);
+
+    const promotion = await promotionService.createPromotion(validatedData, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: promotion,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create promotion API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid promotion data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create promotion' },
+      { status: 500 }
+    );
+  }
+}
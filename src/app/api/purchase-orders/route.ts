@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { purchaseOrderService } from '@/services/database/purchaseOrders';
+import { createPurchaseOrderSchema } from '@/lib/validation/purchasing';
+import type { PurchaseOrderStatus } from '@/types/purchasing';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['purchasing.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const orders = await purchaseOrderService.findAll({
+      status: (searchParams.get('status') as PurchaseOrderStatus | null) || undefined,
+      supplierId: searchParams.get('supplierId') || undefined,
+      limit: parseInt(searchParams.get('limit') || '50'),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: orders,
+    });
+  } catch (error) {
+    console.error('Purchase orders API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase orders' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['purchasing.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createPurchaseOrderSchema.parse(body);
+
+    const order = await purchaseOrderService.createPurchaseOrder(validatedData, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: order,
+    });
+  } catch (error) {
+    console.error('Create purchase order API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid purchase order data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (error.message.includes('not found') || error.message.includes('inactive'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create purchase order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { upiReconciliationService } from '@/services/database/upiReconciliation';
+import { importUpiStatementSchema } from '@/lib/validation/upiReconciliation';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['payments.reconcile'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const dateParam = request.nextUrl.searchParams.get('date');
+    const date = dateParam ? new Date(dateParam) : new Date();
+    if (isNaN(date.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid date' },
+        { status: 400 }
+      );
+    }
+
+    const data = await upiReconciliationService.getReport(date);
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('UPI reconciliation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate UPI reconciliation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['payments.reconcile'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = importUpiStatementSchema.parse(body);
+
+    const data = await upiReconciliationService.importStatement(
+      validatedData.fileName,
+      validatedData.content,
+      user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Import UPI statement API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid statement', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    // The file didn't look like a statement
+    if (error instanceof Error && (error.message.includes('Could not find') || error.message.includes('No credits'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to import statement' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,72 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { reportService } from '@/services/reports/reportService';
-import { ReportExportService, CSVExporter, PDFExporter } from '@/services/reports/exportService';
-import { verifyAuth } from '@/lib/auth/middleware';
+import { ReportExportService, CSVExporter, PDFExporter, GSTR1Exporter } from '@/services/reports/exportService';
+import { verifyAuth, canAccess } from '@/lib/auth/middleware';
 import { parseISO } from 'date-fns';
+import type { ReportFilters } from '@/services/reports/reportService';
+import type { Gstr1Filer } from '@/types/tax';
+
+const TAX_REPORT_TYPES = ['gstr1', 'tax-summary', 'b2c-summary', 'tax-invoices'];
+
+/**
+ * Export GST data: the GSTR-1 JSON, or one of its tables as CSV.
+ * Amounts stay plain numbers so the files can be uploaded as they are.
+ */
+async function exportTaxReport(
+  reportType: string,
+  format: string,
+  filters: ReportFilters,
+  filer: Gstr1Filer
+) {
+  const report = await reportService.getTaxReport(filters);
+  const filename = ReportExportService.generateFilename(reportType, filters.startDate, filters.endDate);
+
+  if (reportType === 'gstr1') {
+    if (!/^\d{2}[A-Z0-9]{13}$/.test(filer.gstin)) {
+      return NextResponse.json(
+        { error: 'Set the store GSTIN in settings before exporting GSTR-1' },
+        { status: 400 }
+      );
+    }
+
+    const problems = GSTR1Exporter.problems(report);
+    if (problems.length > 0) {
+      return NextResponse.json(
+        { error: problems.join('. '), problems },
+        { status: 400 }
+      );
+    }
+
+    return new NextResponse(JSON.stringify(GSTR1Exporter.toJSON(report, filer), null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}.json"`,
+      },
+    });
+  }
+
+  const rows = reportType === 'b2c-summary'
+    ? GSTR1Exporter.b2csRows(report, filer)
+    : reportType === 'tax-invoices'
+      ? GSTR1Exporter.invoiceRows(report)
+      : GSTR1Exporter.hsnRows(report);
+
+  if (rows.length === 0) {
+    return NextResponse.json(
+      { error: 'No data available for export' },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(CSVExporter.arrayToCSV(rows), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': `attachment; filename="${filename}.csv"`,
+    },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,7 +80,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if user has permission to export reports
-    if (authResult.user.role === 'cashier') {
+    if (!canAccess(authResult.user, ['reports.export'])) {
       return NextResponse.json(
         { error: 'Insufficient permissions' },
         { status: 403 }
@@ -34,14 +98,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!['daily-sales', 'transactions', 'products'].includes(reportType)) {
+    if (!['daily-sales', 'transactions', 'products', ...TAX_REPORT_TYPES].includes(reportType)) {
       return NextResponse.json(
         { error: 'Invalid report type' },
         { status: 400 }
       );
     }
 
-    if (!['csv', 'pdf'].includes(format)) {
+    if (TAX_REPORT_TYPES.includes(reportType)) {
+      const expected = reportType === 'gstr1' ? 'json' : 'csv';
+      if (format !== expected) {
+        return NextResponse.json(
+          { error: `Invalid format. Must be ${expected}` },
+          { status: 400 }
+        );
+      }
+    } else if (!['csv', 'pdf'].includes(format)) {
       return NextResponse.json(
         { error: 'Invalid format. Must be csv or pdf' },
         { status: 400 }
@@ -57,6 +129,13 @@ export async function POST(request: NextRequest) {
       parsedFilters.endDate = parseISO(filters.endDate);
     }
 
+    if (TAX_REPORT_TYPES.includes(reportType)) {
+      return await exportTaxReport(reportType, format, parsedFilters, {
+        gstin: String(filters.gstin || '').toUpperCase(),
+        stateCode: String(filters.stateCode || ''),
+      });
+    }
+
     // Get export data
     const exportData = await reportService.getExportData(reportType, parsedFilters);
     
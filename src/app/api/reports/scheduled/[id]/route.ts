@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth/middleware';
+import { verifyAuth, canAccess } from '@/lib/auth/middleware';
 import { getDb } from '@/lib/db/connection';
 import { scheduledReports } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
@@ -18,8 +18,8 @@ export async function PATCH(
       );
     }
 
-    // Check if user has permission to modify scheduled reports (admin or manager)
-    if (!['admin', 'manager'].includes(authResult.user.role)) {
+    // Check if user has permission to modify scheduled reports
+    if (!canAccess(authResult.user, ['reports.export'])) {
       return NextResponse.json(
         { error: 'Insufficient permissions to modify scheduled reports' },
         { status: 403 }
@@ -74,8 +74,8 @@ export async function DELETE(
       );
     }
 
-    // Check if user has permission to delete scheduled reports (admin or manager)
-    if (!['admin', 'manager'].includes(authResult.user.role)) {
+    // Check if user has permission to delete scheduled reports
+    if (!canAccess(authResult.user, ['reports.export'])) {
       return NextResponse.json(
         { error: 'Insufficient permissions to delete scheduled reports' },
         { status: 403 }
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth/middleware';
+import { verifyAuth, canAccess } from '@/lib/auth/middleware';
 import { getDb } from '@/lib/db/connection';
 import { scheduledReports } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
@@ -20,8 +20,8 @@ export async function POST(
       );
     }
 
-    // Check if user has permission to run scheduled reports (admin or manager)
-    if (!['admin', 'manager'].includes(authResult.user.role)) {
+    // Check if user has permission to run scheduled reports
+    if (!canAccess(authResult.user, ['reports.export'])) {
       return NextResponse.json(
         { error: 'Insufficient permissions to run scheduled reports' },
         { status: 403 }
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth/middleware';
+import { verifyAuth, canAccess } from '@/lib/auth/middleware';
 import { scheduledReportsService } from '@/services/database/scheduledReports';
 
 export async function GET(request: NextRequest) {
@@ -13,8 +13,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check if user has permission to view scheduled reports (admin or manager)
-    if (!['admin', 'manager'].includes(authResult.user.role)) {
+    // Check if user has permission to view scheduled reports
+    if (!canAccess(authResult.user, ['reports.export'])) {
       return NextResponse.json(
         { error: 'Insufficient permissions to access scheduled reports' },
         { status: 403 }
@@ -51,8 +51,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if user has permission to create scheduled reports (admin or manager)
-    if (!['admin', 'manager'].includes(authResult.user.role)) {
+    // Check if user has permission to create scheduled reports
+    if (!canAccess(authResult.user, ['reports.export'])) {
       return NextResponse.json(
         { error: 'Insufficient permissions to create scheduled reports' },
         { status: 403 }
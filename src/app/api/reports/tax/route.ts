@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reportService } from '@/services/reports/reportService';
+import { verifyAuth, canAccess } from '@/lib/auth/middleware';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication and authorization
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    // Check if user has permission to view reports
+    if (!canAccess(authResult.user, ['reports.view'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to access reports' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Parse query parameters
+    const startDate = searchParams.get('startDate') ? new Date(searchParams.get('startDate')!) : undefined;
+    const endDate = searchParams.get('endDate') ? new Date(searchParams.get('endDate')!) : undefined;
+
+    // Validate dates
+    if (startDate && isNaN(startDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid start date format' },
+        { status: 400 }
+      );
+    }
+    if (endDate && isNaN(endDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid end date format' },
+        { status: 400 }
+      );
+    }
+
+    const data = await reportService.getTaxReport({ startDate, endDate });
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error in tax report API:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate tax report' },
+      { status: 500 }
+    );
+  }
+}
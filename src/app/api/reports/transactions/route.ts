@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { reportService } from '@/services/reports/reportService';
-import { verifyAuth } from '@/lib/auth/middleware';
+import { verifyAuth, canAccess } from '@/lib/auth/middleware';
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,8 +13,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check if user has permission to view reports (manager or admin)
-    if (!['admin', 'manager'].includes(authResult.user.role)) {
+    // Check if user has permission to view reports
+    if (!canAccess(authResult.user, ['reports.view'])) {
       return NextResponse.json(
         { error: 'Insufficient permissions to access reports' },
         { status: 403 }
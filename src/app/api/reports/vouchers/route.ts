@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { voucherService } from '@/services/database/vouchers';
+import { verifyAuth, canAccess } from '@/lib/auth/middleware';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication and authorization
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    // Check if user has permission to view reports
+    if (!canAccess(authResult.user, ['reports.view'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to access reports' },
+        { status: 403 }
+      );
+    }
+
+    const data = await voucherService.getLiabilityReport();
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error in voucher liability report API:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate voucher liability report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { returnService } from '@/services/database/returns';
+import { POINT_VALUE } from '@/types/loyalty';
+import type { ReceiptData } from '@/types/receipt';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const returnWithItems = await returnService.findReturnWithItems(params.id);
+
+    if (!returnWithItems) {
+      return NextResponse.json(
+        { error: 'Return not found' },
+        { status: 404 }
+      );
+    }
+
+    // Points and vouchers spent on the sale went back as points and store credit; the refund method
+    // paid out the rest
+    const pointsValue = (returnWithItems.pointsRefunded || 0) * POINT_VALUE;
+    const creditValue = returnWithItems.creditRefunded || 0;
+    const refunds = [
+      {
+        method: returnWithItems.refundMethod,
+        amount: Math.round((returnWithItems.total - pointsValue - creditValue) * 100) / 100,
+        reference: returnWithItems.refundReference || undefined,
+      },
+      { method: 'voucher', amount: creditValue, reference: returnWithItems.creditCode || undefined },
+      { method: 'points', amount: pointsValue },
+    ].filter(refund => refund.amount > 0);
+
+    // Generate return receipt data
+    const receiptData: ReceiptData = {
+      id: `receipt-${returnWithItems.id}`,
+      transactionId: returnWithItems.originalTransactionId,
+      receiptNumber: returnWithItems.id,
+      receiptType: 'return',
+      originalReceiptNumber: returnWithItems.originalTransactionId,
+      returnReason: returnWithItems.reason || undefined,
+      storeName: "ISKCON Asansol Temple",
+      storeAddress: "Gift & Book Store",
+      storePhone: "+91-XXXXXXXXXX",
+      storeEmail: "store@iskconasansol.org",
+      cashier: {
+        id: returnWithItems.userId || user.id,
+        username: user.username,
+      },
+      timestamp: returnWithItems.createdAt || new Date(),
+      items: returnWithItems.items.map(item => ({
+        name: item.variantName
+          ? `${item.productName} - ${item.variantName}`
+          : item.productName,
+        variant: item.variantName,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice: item.totalPrice,
+      })),
+      subtotal: returnWithItems.subtotal,
+      tax: Math.max(0, returnWithItems.total - returnWithItems.subtotal),
+      discount: Math.max(0, returnWithItems.subtotal - returnWithItems.total),
+      total: returnWithItems.total,
+      paymentMethod: returnWithItems.refundMethod,
+      paymentReference: returnWithItems.refundReference || undefined,
+      payments: refunds.length > 1 ? refunds : undefined,
+      footer: "Refund processed.\nHare Krishna!",
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: receiptData,
+    });
+  } catch (error) {
+    console.error('Return receipt API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate return receipt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { roleService } from '@/services/database/roles';
+import { updateRoleSchema } from '@/lib/validation/role';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['users.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateRoleSchema.parse(body);
+
+    // Taking users.manage away from your own role would lock you out of this screen
+    if (
+      params.id === user.role &&
+      validatedData.permissions !== undefined &&
+      !validatedData.permissions.includes('users.manage')
+    ) {
+      return NextResponse.json(
+        { error: 'You cannot remove user management from your own role' },
+        { status: 400 }
+      );
+    }
+
+    const role = await roleService.updateRole(params.id, validatedData, user.id);
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Role not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: role,
+    });
+  } catch (error) {
+    console.error('Update role API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid role data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('every permission')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update role' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['users.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const deleted = await roleService.deleteRole(params.id, user.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Role not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error('Delete role API error:', error);
+
+    if (error instanceof Error && (
+      error.message.includes('cannot be deleted') ||
+      error.message.includes('before deleting')
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete role' },
+      { status: 500 }
+    );
+  }
+}
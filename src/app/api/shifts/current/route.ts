@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { shiftService } from '@/services/database/shifts';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const shift = await shiftService.getOpenShift(user.id);
+
+    return NextResponse.json({
+      success: true,
+      // Running totals come with the shift so the till can show expected cash
+      data: shift ? await shiftService.getShiftReport(shift.id, 'X') : null,
+    });
+  } catch (error) {
+    console.error('Current shift API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch current shift' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { shiftService } from '@/services/database/shifts';
+import { openShiftSchema } from '@/lib/validation/shift';
+import type { ShiftStatus } from '@/types/shift';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as ShiftStatus | null;
+
+    // Without shifts.manage users only see their own shifts
+    const shifts = await shiftService.findAll({
+      userId: canAccess(user, ['shifts.manage']) ? searchParams.get('userId') || undefined : user.id,
+      status: status || undefined,
+      limit: parseInt(searchParams.get('limit') || '50'),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: shifts,
+    });
+  } catch (error) {
+    console.error('Shifts API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shifts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['sales.create'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { openingFloat } = openShiftSchema.parse(body);
+
+    const shift = await shiftService.openShift(user.id, openingFloat);
+
+    return NextResponse.json({
+      success: true,
+      data: shift,
+    });
+  } catch (error) {
+    console.error('Open shift API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid shift data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('already open')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to open shift' },
+      { status: 500 }
+    );
+  }
+}
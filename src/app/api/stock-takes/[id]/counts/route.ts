@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { stockTakeService } from '@/services/database/stockTakes';
+import { recordCountSchema } from '@/lib/validation/stockTake';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user; counts are attributed to whoever entered them
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = recordCountSchema.parse(body);
+
+    const item = await stockTakeService.recordCount(params.id, validatedData, user.id);
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Stock take not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: item,
+    });
+  } catch (error) {
+    console.error('Record stock count API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid count', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('not part of this stock take')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('Only open')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record count' },
+      { status: 500 }
+    );
+  }
+}
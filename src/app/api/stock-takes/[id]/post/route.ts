@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { stockTakeService } from '@/services/database/stockTakes';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Posting adjusts stock, so it needs inventory.adjust
+    if (!canAccess(user, ['inventory.adjust'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const stockTake = await stockTakeService.postStockTake(params.id, user.id);
+    if (!stockTake) {
+      return NextResponse.json(
+        { error: 'Stock take not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: stockTake,
+    });
+  } catch (error) {
+    console.error('Post stock take API error:', error);
+
+    if (error instanceof Error && (error.message.includes('Only open') || error.message.includes('at least one item'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to post stock take' },
+      { status: 500 }
+    );
+  }
+}
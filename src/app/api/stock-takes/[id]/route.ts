@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { stockTakeService } from '@/services/database/stockTakes';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const stockTake = await stockTakeService.findById(params.id);
+    if (!stockTake) {
+      return NextResponse.json(
+        { error: 'Stock take not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: stockTake,
+    });
+  } catch (error) {
+    console.error('Stock take API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch stock take' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { stockTakeService } from '@/services/database/stockTakes';
+import { createStockTakeSchema } from '@/lib/validation/stockTake';
+import type { StockTakeStatus } from '@/types/stock';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user; any staff member can help count
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sessions = await stockTakeService.findAll({
+      status: (searchParams.get('status') as StockTakeStatus | null) || undefined,
+      limit: parseInt(searchParams.get('limit') || '50'),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    console.error('Stock takes API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch stock takes' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['inventory.adjust'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createStockTakeSchema.parse(body);
+
+    const stockTake = await stockTakeService.createStockTake(validatedData, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: stockTake,
+    });
+  } catch (error) {
+    console.error('Create stock take API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid stock take data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (error.message.includes('not found') || error.message.includes('no stocked items') || error.message.includes('cannot be counted'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to start stock take' },
+      { status: 500 }
+    );
+  }
+}
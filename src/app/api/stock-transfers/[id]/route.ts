@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { stockTransferService } from '@/services/database/stockTransfers';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const transfer = await stockTransferService.findById(params.id);
+    if (!transfer) {
+      return NextResponse.json(
+        { error: 'Stock transfer not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: transfer,
+    });
+  } catch (error) {
+    console.error('Stock transfer API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch stock transfer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { stockTransferService } from '@/services/database/stockTransfers';
+import { createStockTransferSchema } from '@/lib/validation/location';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const transfers = await stockTransferService.findAll(parseInt(searchParams.get('limit') || '50'));
+
+    return NextResponse.json({
+      success: true,
+      data: transfers,
+    });
+  } catch (error) {
+    console.error('Stock transfers API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch stock transfers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['inventory.adjust'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createStockTransferSchema.parse(body);
+
+    const transfer = await stockTransferService.createTransfer(validatedData, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: transfer,
+    });
+  } catch (error) {
+    console.error('Create stock transfer API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid stock transfer data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message.includes('not found') ||
+      error.message.includes('Only ') ||
+      error.message.includes('is closed')
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create stock transfer' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth/middleware';
+import { verifyAuth, canAccess } from '@/lib/auth/middleware';
 import { getDb } from '@/lib/db/connection';
 import { syncMetadata } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
@@ -15,8 +15,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if user has permission to trigger sync (admin or manager)
-    if (!['admin', 'manager'].includes(authResult.user.role)) {
+    // Check if user has permission to trigger sync
+    if (!canAccess(authResult.user, ['settings.manage'])) {
       return NextResponse.json(
         { error: 'Insufficient permissions to trigger sync' },
         { status: 403 }
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSessionUser } from '@/lib/auth/session';
 import { transactionService } from '@/services/database/transactions';
+import { customerService } from '@/services/database/customers';
+import { donationService } from '@/services/database/donations';
+import { loyaltyService } from '@/services/database/loyalty';
+import { GstCalculator } from '@/services/tax/gstCalculator';
 import type { ReceiptData } from '@/types/receipt';
 
 export const dynamic = 'force-dynamic';
@@ -32,11 +36,31 @@ export async function GET(
       );
     }
 
+    const customer = transactionWithItems.customerId
+      ? await customerService.findById(transactionWithItems.customerId)
+      : null;
+
+    const donations = await donationService.findByTransaction(transactionWithItems.id);
+
+    // Members and anyone with points see their balance on every receipt
+    const [salePoints, pointsBalance, tier] = customer
+      ? await Promise.all([
+        loyaltyService.getSalePoints(transactionWithItems.id),
+        loyaltyService.getBalance(customer.id),
+        loyaltyService.getCustomerTier(customer.id),
+      ])
+      : [null, 0, null];
+
+    // Change is only ever given on the cash portion of a sale
+    const cashPayments = transactionWithItems.payments.filter(payment => payment.method === 'cash');
+    const cashReceived = cashPayments.reduce((sum, payment) => sum + (payment.tendered || 0), 0);
+    const changeGiven = cashPayments.reduce((sum, payment) => sum + (payment.changeGiven || 0), 0);
+
     // Generate receipt data
     const receiptData: ReceiptData = {
       id: `receipt-${transactionWithItems.id}`,
       transactionId: transactionWithItems.id,
-      receiptNumber: transactionWithItems.id,
+      receiptNumber: transactionWithItems.invoiceNumber || transactionWithItems.id,
       storeName: "ISKCON Asansol Temple",
       storeAddress: "Gift & Book Store",
       storePhone: "+91-XXXXXXXXXX",
@@ -45,6 +69,7 @@ export async function GET(
         id: transactionWithItems.userId,
         username: user.username, // Use the current user's username
       },
+      customer: customer ? { id: customer.id, name: customer.name, phone: customer.phone } : undefined,
       timestamp: transactionWithItems.createdAt,
       items: transactionWithItems.items.map(item => ({
         name: item.variant?.name 
@@ -54,14 +79,46 @@ export async function GET(
         quantity: item.quantity,
         unitPrice: item.unitPrice,
         totalPrice: item.totalPrice,
+        hsnCode: item.hsnCode,
+        promotions: item.appliedPromotions.map(promotion => ({
+          name: promotion.name,
+          amount: promotion.amount,
+        })),
       })),
       subtotal: transactionWithItems.subtotal,
-      tax: transactionWithItems.tax || 0,
+      ...GstCalculator.summarizeSale(transactionWithItems),
       discount: transactionWithItems.discount || 0,
       total: transactionWithItems.total,
       paymentMethod: transactionWithItems.paymentMethod,
       paymentReference: transactionWithItems.paymentReference || undefined,
+      payments: transactionWithItems.payments.map(payment => ({
+        method: payment.method,
+        amount: payment.amount,
+        reference: payment.reference || undefined,
+      })),
+      cashReceived: cashReceived > 0 ? cashReceived : undefined,
+      changeGiven: changeGiven > 0 ? changeGiven : undefined,
       footer: "Thank you for your visit!\nHare Krishna!",
+      donations: customer && donations.length > 0
+        ? donations.map(donation => ({
+          receiptNumber: donation.receiptNumber,
+          transactionId: transactionWithItems.id,
+          storeName: "ISKCON Asansol Temple",
+          donor: {
+            name: customer.name,
+            phone: customer.phone,
+            address: customer.address || undefined,
+            pan: customer.pan || '',
+          },
+          purpose: donation.purpose,
+          amount: donation.amount,
+          paymentMethod: transactionWithItems.paymentMethod,
+          timestamp: donation.createdAt || new Date(),
+        }))
+        : undefined,
+      loyalty: salePoints && (tier || pointsBalance !== 0 || salePoints.earned > 0 || salePoints.redeemed > 0)
+        ? { tierName: tier?.name, ...salePoints, balance: pointsBalance }
+        : undefined,
     };
 
     return NextResponse.json({
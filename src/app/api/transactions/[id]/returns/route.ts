@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { authorizeManagerOverride } from '@/lib/auth/managerOverride';
+import { ManagerOverridePolicy } from '@/services/auth/managerOverride';
+import { transactionService } from '@/services/database/transactions';
+import { returnService } from '@/services/database/returns';
+import { shiftService } from '@/services/database/shifts';
+import { createReturnSchema } from '@/lib/validation/return';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const transaction = await transactionService.findById(params.id);
+    if (!transaction) {
+      return NextResponse.json(
+        { error: 'Transaction not found' },
+        { status: 404 }
+      );
+    }
+
+    const [items, previousReturns, tenders] = await Promise.all([
+      returnService.getReturnableItems(params.id),
+      returnService.findByTransaction(params.id),
+      returnService.getSaleTenders(params.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        transaction,
+        items,
+        returns: previousReturns,
+        tenders,
+      },
+    });
+  } catch (error) {
+    console.error('Returnable items API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch returnable items' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['sales.refund'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createReturnSchema.parse(body);
+
+    // Staff who can't approve overrides refund with a manager's PIN, recorded on the return
+    let approvedBy: string | undefined;
+    if (ManagerOverridePolicy.needsApproval(user)) {
+      const approval = await authorizeManagerOverride(body.managerOverride, ['return'], {
+        cashierId: user.id,
+        cashierName: user.username,
+        transactionId: params.id,
+      });
+      if (approval instanceof NextResponse) {
+        return approval;
+      }
+      approvedBy = approval.id;
+    }
+
+    // Refunds paid out during a shift are reconciled against that shift's drawer
+    const shift = await shiftService.getOpenShift(user.id);
+
+    const returnRecord = await returnService.createReturn({
+      ...validatedData,
+      originalTransactionId: params.id,
+      userId: user.id,
+      shiftId: shift?.id,
+      approvedBy,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: returnRecord,
+    });
+  } catch (error) {
+    console.error('Return API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid return data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (
+        error.message.includes('not found') ||
+        error.message.includes('Cannot return') ||
+        error.message.includes('Only completed')
+      ) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to process return' },
+      { status: 500 }
+    );
+  }
+}
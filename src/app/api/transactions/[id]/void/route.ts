@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { authorizeManagerOverride } from '@/lib/auth/managerOverride';
+import { ManagerOverridePolicy } from '@/services/auth/managerOverride';
+import { transactionService } from '@/services/database/transactions';
+import { voidTransactionSchema } from '@/lib/validation/transaction';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['sales.void'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = voidTransactionSchema.parse(body);
+
+    const transaction = await transactionService.findById(params.id);
+    if (!transaction) {
+      return NextResponse.json(
+        { error: 'Transaction not found' },
+        { status: 404 }
+      );
+    }
+
+    // Staff who can't approve overrides void with a manager's PIN; the rest authorise their own
+    let voidedBy = user.id;
+    if (ManagerOverridePolicy.needsApproval(user)) {
+      const approval = await authorizeManagerOverride(body.managerOverride, ['void'], {
+        cashierId: user.id,
+        cashierName: user.username,
+        transactionId: params.id,
+        total: transaction.total,
+      });
+      if (approval instanceof NextResponse) {
+        return approval;
+      }
+      voidedBy = approval.id;
+    }
+
+    const voided = await transactionService.voidTransaction(params.id, {
+      userId: user.id,
+      reason: validatedData.reason,
+      voidedBy,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: voided,
+    });
+  } catch (error) {
+    console.error('Void transaction API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid void request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('voided')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to void transaction' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { transactionService } from "@/services/database/transactions";
 import { getSessionUser } from "@/lib/auth/session";
+import { canAccess } from "@/lib/auth/middleware";
 import { productService } from "@/services/database/products";
+import { shiftService } from "@/services/database/shifts";
+import { locationService } from "@/services/database/locations";
+import { customerService } from "@/services/database/customers";
+import { paymentsSchema } from "@/lib/validation/payment";
+import { donationsSchema } from "@/lib/validation/donation";
+import { authorizeManagerOverride } from "@/lib/auth/managerOverride";
+import { ManagerOverridePolicy, type OverrideSaleLine } from "@/services/auth/managerOverride";
+import { GST_STATE_CODES } from "@/types/tax";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -17,10 +26,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!canAccess(user, ["sales.create"])) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
 
+    // Donations are checked first, since a sale that is only a donation has no items
+    if (body.donations !== undefined) {
+      const donationsResult = donationsSchema.safeParse(body.donations);
+      if (!donationsResult.success) {
+        return NextResponse.json(
+          { error: donationsResult.error.errors[0]?.message || "Invalid donations" },
+          { status: 400 }
+        );
+      }
+      body.donations = donationsResult.data;
+    }
+
     // Validate required fields
-    if (!body.items || !Array.isArray(body.items) || body.items.length === 0) {
+    if (!Array.isArray(body.items) || (body.items.length === 0 && !body.donations?.length)) {
       return NextResponse.json(
         { error: "Items are required" },
         { status: 400 }
@@ -34,7 +62,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate that all products and variants exist
+    // Validate split tenders when the sale is paid with more than one method
+    if (body.payments !== undefined) {
+      const paymentsResult = paymentsSchema.safeParse(body.payments);
+      if (!paymentsResult.success) {
+        return NextResponse.json(
+          { error: paymentsResult.error.errors[0]?.message || "Invalid payments" },
+          { status: 400 }
+        );
+      }
+      body.payments = paymentsResult.data;
+    }
+
+    // Validate that all products and variants exist, noting each line's list price
+    const saleLines: OverrideSaleLine[] = [];
     for (const item of body.items) {
       if (!item.productId) {
         return NextResponse.json(
@@ -53,6 +94,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Check if variant exists (if specified and not custom)
+      let listPrice = product.basePrice;
       if (item.variantId && !item.isCustomVariant) {
         const variant = await productService.findVariantById(item.variantId);
         if (!variant || variant.productId !== item.productId) {
@@ -61,6 +103,7 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
+        listPrice = variant.price;
       }
 
       // Validate custom variant data
@@ -101,6 +144,72 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         );
       }
+
+      saleLines.push({ ...item, listPrice });
+    }
+
+    if (body.discount !== undefined && (typeof body.discount !== "number" || body.discount < 0)) {
+      return NextResponse.json(
+        { error: "Discount cannot be negative" },
+        { status: 400 }
+      );
+    }
+
+    // GSTR-1 reports inter-state sales by the buyer's state
+    if (body.interState === true && !GST_STATE_CODES[body.placeOfSupply]) {
+      return NextResponse.json(
+        { error: "Choose the buyer's state for an inter-state sale" },
+        { status: 400 }
+      );
+    }
+
+    // Every sale belongs to the cashier's open shift so the drawer can be reconciled
+    const shift = await shiftService.getOpenShift(user.id);
+    if (!shift) {
+      return NextResponse.json(
+        { error: "Open a shift before making sales" },
+        { status: 409 }
+      );
+    }
+
+    // Sales deduct from the terminal's location; without one they come off the default
+    if (body.locationId) {
+      const location = await locationService.findById(body.locationId);
+      if (!location || !location.isActive) {
+        return NextResponse.json(
+          { error: "This terminal's location is closed or no longer exists; choose another" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.customerId) {
+      const customer = await customerService.findById(body.customerId);
+      if (!customer) {
+        return NextResponse.json(
+          { error: "The customer on this sale no longer exists; look them up again" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Staff who can't approve overrides need a manager's PIN to sell below list price, give a large discount or sell
+    // expired batches; one approval covers the sale and is checked before anything is written
+    let approvedBy: string | undefined;
+    const reasons = ManagerOverridePolicy.needsApproval(user)
+      ? ManagerOverridePolicy.saleReasons(saleLines, body.discount || 0)
+      : [];
+    if (reasons.length > 0 || body.managerOverride !== undefined) {
+      // Without anything else to approve, the till only sends an approval when asked about expired stock
+      const approval = await authorizeManagerOverride(
+        body.managerOverride,
+        reasons.length > 0 ? reasons : ["expired_stock"],
+        { cashierId: user.id, cashierName: user.username }
+      );
+      if (approval instanceof NextResponse) {
+        return approval;
+      }
+      approvedBy = approval.id;
     }
 
     // Create transaction
@@ -108,8 +217,16 @@ export async function POST(request: NextRequest) {
       userId: user.id,
       paymentMethod: body.paymentMethod,
       paymentReference: body.paymentReference,
-      tax: body.tax || 0,
+      payments: body.payments,
       discount: body.discount || 0,
+      interState: body.interState === true,
+      placeOfSupply: body.interState === true ? body.placeOfSupply : undefined,
+      shiftId: shift.id,
+      locationId: body.locationId || undefined,
+      allowExpired: !!approvedBy,
+      approvedBy,
+      customerId: body.customerId || undefined,
+      donations: body.donations,
       items: body.items,
     });
 
@@ -132,7 +249,24 @@ export async function POST(request: NextRequest) {
 
     // Handle other common errors
     if (error instanceof Error) {
-      if (error.message.includes('not found')) {
+      if (error.message.includes('approve selling expired stock')) {
+        return NextResponse.json(
+          { error: error.message, overrideRequired: 'expired_stock' },
+          { status: 409 }
+        );
+      }
+
+      if (
+        error.message.includes('not found') ||
+        error.message.includes('80G receipt') ||
+        error.message.includes('points') ||
+        error.message.startsWith('Points') ||
+        error.message.startsWith('Voucher') ||
+        error.message.startsWith('Discount') ||
+        error.message.includes('does not match transaction total') ||
+        error.message.startsWith('Payment amount') ||
+        error.message.startsWith('Cash tendered')
+      ) {
         return NextResponse.json(
           { error: error.message },
           { status: 400 }
@@ -18,7 +18,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
-    if (!authService.hasPermission(currentUser.role, 'users:read')) {
+    if (!authService.hasPermission(currentUser, 'users.manage')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
     
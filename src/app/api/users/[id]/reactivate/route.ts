@@ -2,7 +2,6 @@ import { NextRequest, NextResponse } from 'next/server';
 import { userService } from '@/services/database/users';
 import { getSessionUser } from '@/lib/auth/session';
 import { authService } from '@/services/auth/authService';
-import { ROLE_PERMISSIONS } from '@/types/auth';
 
 interface RouteParams {
   params: {
@@ -19,7 +18,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
-    if (!ROLE_PERMISSIONS[currentUser.role].includes('users:write')) {
+    if (!authService.hasPermission(currentUser, 'users.manage')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
     
@@ -23,7 +23,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
-    if (!authService.hasPermission(currentUser.role, 'users:read')) {
+    if (!authService.hasPermission(currentUser, 'users.manage')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
     
@@ -66,7 +66,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
-    if (!authService.hasPermission(currentUser.role, 'users:write')) {
+    if (!authService.hasPermission(currentUser, 'users.manage')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
     
@@ -119,6 +119,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       if (error.message.includes('already exists')) {
         return NextResponse.json({ error: 'Username already exists' }, { status: 409 });
       }
+
+      if (error.message.includes('does not exist')) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
     }
     
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -134,7 +138,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
-    if (!authService.hasPermission(currentUser.role, 'users:write')) {
+    if (!authService.hasPermission(currentUser, 'users.manage')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
     
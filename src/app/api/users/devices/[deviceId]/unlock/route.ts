@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { userService } from '@/services/database/users';
+import { getSessionUser } from '@/lib/auth/session';
+import { authService } from '@/services/auth/authService';
+
+interface RouteParams {
+  params: {
+    deviceId: string;
+  };
+}
+
+// POST /api/users/devices/[deviceId]/unlock - Clear a device's failed PIN attempts and lift a lockout
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and authorization
+    const currentUser = await getSessionUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    if (!authService.hasPermission(currentUser, 'users.manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    
+    // Extract activity tracking info
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown';
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    
+    // Unlock device
+    await userService.unlockDevice(
+      params.deviceId,
+      currentUser.id,
+      { ipAddress, userAgent }
+    );
+    
+    return NextResponse.json({ message: 'Device unlocked successfully' });
+  } catch (error) {
+    console.error('Error unlocking device:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -17,7 +17,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
-    if (!authService.hasPermission(currentUser.role, 'users:read')) {
+    if (!authService.hasPermission(currentUser, 'users.manage')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
     
@@ -43,6 +43,9 @@ export async function GET(request: NextRequest) {
       offset,
     });
     
+    // Users locked out by failed PINs, so an admin can unlock them
+    const lockouts = await userService.getLockouts(result.users.map(user => user.username));
+    
     // Remove sensitive data
     const sanitizedUsers = result.users.map(user => ({
       id: user.id,
@@ -52,6 +55,7 @@ export async function GET(request: NextRequest) {
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
       lastLoginAt: user.lastLoginAt,
+      lockedUntil: lockouts.get(user.username) || null,
     }));
     
     return NextResponse.json({
@@ -83,7 +87,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
-    if (!authService.hasPermission(currentUser.role, 'users:write')) {
+    if (!authService.hasPermission(currentUser, 'users.manage')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
     
@@ -132,6 +136,10 @@ export async function POST(request: NextRequest) {
       if (error.message.includes('already exists')) {
         return NextResponse.json({ error: 'Username already exists' }, { status: 409 });
       }
+
+      if (error.message.includes('does not exist')) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
     }
     
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
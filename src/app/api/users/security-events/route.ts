@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { userActivityService } from '@/services/database/userActivity';
+import { getSessionUser } from '@/lib/auth/session';
+import { authService } from '@/services/auth/authService';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/users/security-events - Recent login failures, lockouts and unlocks
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication and authorization
+    const currentUser = await getSessionUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    if (!authService.hasPermission(currentUser, 'users.manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200);
+    
+    const events = await userActivityService.getSecurityEvents(limit);
+    
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('Error fetching security events:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { voucherService } from '@/services/database/vouchers';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const voucher = await voucherService.findByCode(decodeURIComponent(params.code));
+    if (!voucher) {
+      return NextResponse.json(
+        { error: 'Voucher not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: voucher,
+    });
+  } catch (error) {
+    console.error('Voucher API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch voucher' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { canAccess } from '@/lib/auth/middleware';
+import { voucherService } from '@/services/database/vouchers';
+import { customerService } from '@/services/database/customers';
+import { shiftService } from '@/services/database/shifts';
+import { issueVoucherSchema } from '@/lib/validation/voucher';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['customers.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const data = await voucherService.list();
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Vouchers API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch vouchers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccess(user, ['customers.manage'])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = issueVoucherSchema.parse(body);
+
+    if (validatedData.customerId && !(await customerService.findById(validatedData.customerId))) {
+      return NextResponse.json(
+        { error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    // The money for a gift voucher is reconciled against the seller's drawer
+    const shift = await shiftService.getOpenShift(user.id);
+    if (!shift) {
+      return NextResponse.json(
+        { error: 'Open a shift to take payment for a gift voucher' },
+        { status: 400 }
+      );
+    }
+
+    // Store credit only comes from returns; vouchers issued by hand are gift vouchers
+    const code = await voucherService.issue({
+      kind: 'gift',
+      amount: validatedData.amount,
+      customerId: validatedData.customerId,
+      expiresAt: validatedData.expiresAt,
+      note: validatedData.note,
+      shiftId: shift.id,
+      paymentMethod: validatedData.paymentMethod,
+      paymentReference: validatedData.paymentReference,
+      userId: user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: await voucherService.findByCode(code),
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Issue voucher API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid voucher data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to issue voucher' },
+      { status: 500 }
+    );
+  }
+}
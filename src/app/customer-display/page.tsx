@@ -0,0 +1,9 @@
+'use client';
+
+import { CustomerDisplay } from '@/components/sales/CustomerDisplay';
+
+// Opened from the sales screen and dragged to the screen facing the customer. It only listens
+// to the till on the same machine, so it sits outside the dashboard and needs no login.
+export default function CustomerDisplayPage() {
+  return <CustomerDisplay />;
+}
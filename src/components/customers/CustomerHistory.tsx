@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import type { CustomerHistory as CustomerHistoryData } from '@/types/customer';
+
+interface CustomerHistoryProps {
+  customerId: string;
+  // Bumped by the parent after the customer is edited
+  refreshKey?: number;
+}
+
+const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`;
+
+export function CustomerHistory({ customerId, refreshKey = 0 }: CustomerHistoryProps) {
+  const [history, setHistory] = useState<CustomerHistoryData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        setError(null);
+        const response = await fetch(`/api/customers/${customerId}/history`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load purchase history');
+        }
+        if (!cancelled) {
+          setHistory(result.data);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load purchase history');
+        }
+      }
+    };
+
+    setHistory(null);
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId, refreshKey]);
+
+  if (error) {
+    return (
+      <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+        {error}
+      </div>
+    );
+  }
+
+  if (!history) {
+    return <div className="text-center py-8 text-gray-500">Loading purchase history...</div>;
+  }
+
+  const { summary, purchases, topProducts } = history;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-4 bg-orange-50 rounded-lg">
+          <div className="text-sm text-gray-600">Total spent</div>
+          <div className="text-xl font-bold text-orange-700">{formatCurrency(summary.totalSpent)}</div>
+          {summary.totalRefunded > 0 && (
+            <div className="text-xs text-gray-500">after {formatCurrency(summary.totalRefunded)} refunded</div>
+          )}
+          {summary.totalDonated > 0 && (
+            <div className="text-xs text-gray-500">plus {formatCurrency(summary.totalDonated)} donated</div>
+          )}
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <div className="text-sm text-gray-600">Purchases</div>
+          <div className="text-xl font-bold text-gray-900">{summary.purchaseCount}</div>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <div className="text-sm text-gray-600">Average sale</div>
+          <div className="text-xl font-bold text-gray-900">{formatCurrency(summary.averageSale)}</div>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <div className="text-sm text-gray-600">Last visit</div>
+          <div className="text-xl font-bold text-gray-900">
+            {summary.lastPurchaseAt ? format(new Date(summary.lastPurchaseAt), 'dd MMM yyyy') : '—'}
+          </div>
+          {summary.firstPurchaseAt && (
+            <div className="text-xs text-gray-500">
+              since {format(new Date(summary.firstPurchaseAt), 'MMM yyyy')}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {topProducts.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Buys most often</h4>
+          <div className="flex flex-wrap gap-2">
+            {topProducts.map((product) => (
+              <span
+                key={product.productId}
+                className="inline-flex items-center px-3 py-1 text-sm bg-orange-100 text-orange-800 rounded-full"
+              >
+                {product.productName} × {product.quantity}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 mb-2">Purchases</h4>
+        {purchases.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">No purchases yet</div>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Receipt</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {purchases.map((purchase) => (
+                  <tr key={purchase.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {purchase.createdAt ? format(new Date(purchase.createdAt), 'dd MMM yyyy, HH:mm') : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-sm font-mono text-gray-600">#{purchase.id.slice(-8)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{purchase.itemCount}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600 capitalize">{purchase.paymentMethod}</td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      <div className="font-medium text-gray-900">{formatCurrency(purchase.total)}</div>
+                      {purchase.refunded > 0 && (
+                        <div className="text-xs text-red-600">-{formatCurrency(purchase.refunded)} refunded</div>
+                      )}
+                      {purchase.status !== 'completed' && (
+                        <div className="text-xs text-gray-500 capitalize">{purchase.status}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
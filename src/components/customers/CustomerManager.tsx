@@ -0,0 +1,442 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Edit, Plus, Search } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { CustomerHistory } from './CustomerHistory';
+import { CUSTOMER_LANGUAGE_LABELS, type Customer, type CustomerLanguage } from '@/types/customer';
+import type { LoyaltySummary, MembershipTier } from '@/types/loyalty';
+
+interface CustomerManagerProps {
+  // Customer to open straight away, e.g. when following a link from the till
+  initialCustomerId?: string;
+  // Managers set membership tiers and adjust points
+  canManage?: boolean;
+}
+
+interface CustomerFormState {
+  name: string;
+  phone: string;
+  email: string;
+  address: string;
+  pan: string;
+  preferredLanguage: CustomerLanguage;
+  tierId: string;
+  notes: string;
+}
+
+const emptyForm: CustomerFormState = {
+  name: '',
+  phone: '',
+  email: '',
+  address: '',
+  pan: '',
+  preferredLanguage: 'en',
+  tierId: '',
+  notes: '',
+};
+
+const languageOptions = Object.entries(CUSTOMER_LANGUAGE_LABELS).map(([value, label]) => ({ value, label }));
+
+export function CustomerManager({ initialCustomerId, canManage = false }: CustomerManagerProps) {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<Customer | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<CustomerFormState>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [tiers, setTiers] = useState<MembershipTier[]>([]);
+  const [loyalty, setLoyalty] = useState<LoyaltySummary | null>(null);
+  const [adjustment, setAdjustment] = useState({ points: '', note: '' });
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const loadCustomers = useCallback(async (search: string) => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/customers?q=${encodeURIComponent(search)}`);
+      if (!response.ok) {
+        throw new Error('Failed to load customers');
+      }
+      const result = await response.json();
+      setCustomers(result.data || []);
+    } catch (error) {
+      console.error('Error loading customers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => loadCustomers(query), 300);
+    return () => clearTimeout(timer);
+  }, [query, loadCustomers]);
+
+  useEffect(() => {
+    if (!initialCustomerId) return;
+
+    const openCustomer = async () => {
+      try {
+        const response = await fetch(`/api/customers/${initialCustomerId}`);
+        if (response.ok) {
+          const result = await response.json();
+          setSelected(result.data);
+        }
+      } catch (error) {
+        console.error('Error loading customer:', error);
+      }
+    };
+
+    openCustomer();
+  }, [initialCustomerId]);
+
+  useEffect(() => {
+    const loadTiers = async () => {
+      try {
+        const response = await fetch('/api/membership-tiers');
+        if (response.ok) {
+          const result = await response.json();
+          setTiers(result.data || []);
+        }
+      } catch (error) {
+        console.error('Error loading membership tiers:', error);
+      }
+    };
+
+    loadTiers();
+  }, []);
+
+  const loadLoyalty = useCallback(async (customerId: string) => {
+    try {
+      const response = await fetch(`/api/customers/${customerId}/loyalty`);
+      if (response.ok) {
+        const result = await response.json();
+        setLoyalty(result.data);
+      }
+    } catch (error) {
+      console.error('Error loading loyalty points:', error);
+    }
+  }, []);
+
+  const selectedId = selected?.id;
+  useEffect(() => {
+    setLoyalty(null);
+    setAdjustment({ points: '', note: '' });
+    if (selectedId) {
+      loadLoyalty(selectedId);
+    }
+  }, [selectedId, historyKey, loadLoyalty]);
+
+  const updateForm = (changes: Partial<CustomerFormState>) => {
+    setForm(current => ({ ...current, ...changes }));
+  };
+
+  const startCreate = () => {
+    setSelected(null);
+    setForm(emptyForm);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const startEdit = (customer: Customer) => {
+    setForm({
+      name: customer.name,
+      phone: customer.phone,
+      email: customer.email || '',
+      address: customer.address || '',
+      pan: customer.pan || '',
+      preferredLanguage: customer.preferredLanguage,
+      tierId: customer.tierId || '',
+      notes: customer.notes || '',
+    });
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const selectCustomer = (customer: Customer) => {
+    setSelected(customer);
+    setIsFormOpen(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch(selected ? `/api/customers/${selected.id}` : '/api/customers', {
+        method: selected ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // Only managers may move a customer between tiers, so the tier is sent only when it changes
+        body: JSON.stringify({
+          ...form,
+          tierId: form.tierId === (selected?.tierId || '') ? undefined : form.tierId || null,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save customer');
+      }
+
+      addNotification({ message: `Customer ${result.data.name} saved`, type: 'success' });
+      setSelected(result.data);
+      setIsFormOpen(false);
+      setHistoryKey(key => key + 1);
+      await loadCustomers(query);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save customer');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAdjustPoints = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setIsAdjusting(true);
+
+    try {
+      const response = await fetch(`/api/customers/${selected.id}/loyalty`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ points: Number(adjustment.points), note: adjustment.note }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to adjust points');
+      }
+
+      addNotification({ message: `Points balance is now ${result.data.balance}`, type: 'success' });
+      await loadLoyalty(selected.id);
+      setAdjustment({ points: '', note: '' });
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to adjust points',
+        type: 'error',
+      });
+    } finally {
+      setIsAdjusting(false);
+    }
+  };
+
+  const tierName = (tierId?: string | null) => tiers.find(tier => tier.id === tierId)?.name;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Customers</h2>
+            <Button size="sm" onClick={startCreate} icon={<Plus className="w-4 h-4" />}>
+              New
+            </Button>
+          </div>
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search name or phone"
+            leftIcon={<Search className="w-4 h-4" />}
+          />
+        </div>
+
+        {isLoading && customers.length === 0 ? (
+          <div className="p-4 text-sm text-gray-500">Loading customers...</div>
+        ) : customers.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">No customers found</div>
+        ) : (
+          <div className="divide-y divide-gray-100 max-h-[32rem] overflow-y-auto">
+            {customers.map((customer) => (
+              <button
+                key={customer.id}
+                onClick={() => selectCustomer(customer)}
+                className={`w-full text-left px-4 py-3 hover:bg-orange-50 ${selected?.id === customer.id ? 'bg-orange-50' : ''}`}
+              >
+                <div className="text-sm font-medium text-gray-900">{customer.name}</div>
+                <div className="text-xs text-gray-500">
+                  {[customer.phone, customer.email].filter(Boolean).join(' · ')}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        {isFormOpen ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">
+              {selected ? `Edit ${selected.name}` : 'New Customer'}
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Name *"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                required
+              />
+              <Input
+                label="Phone *"
+                value={form.phone}
+                onChange={(e) => updateForm({ phone: e.target.value })}
+                inputMode="tel"
+                required
+              />
+              <Input
+                label="Email"
+                type="email"
+                value={form.email}
+                onChange={(e) => updateForm({ email: e.target.value })}
+              />
+              <Select
+                label="Preferred language"
+                value={form.preferredLanguage}
+                onChange={(e) => updateForm({ preferredLanguage: e.target.value as CustomerLanguage })}
+                options={languageOptions}
+              />
+              <Input
+                label="PAN"
+                value={form.pan}
+                onChange={(e) => updateForm({ pan: e.target.value })}
+                placeholder="For donation receipts"
+                maxLength={10}
+              />
+              <Input
+                label="Address"
+                value={form.address}
+                onChange={(e) => updateForm({ address: e.target.value })}
+              />
+              {(canManage || form.tierId) && (
+                <Select
+                  label="Membership tier"
+                  value={form.tierId}
+                  onChange={(e) => updateForm({ tierId: e.target.value })}
+                  options={[
+                    { value: '', label: 'None' },
+                    ...tiers
+                      .filter(tier => tier.isActive || tier.id === form.tierId)
+                      .map(tier => ({ value: tier.id, label: tier.name })),
+                  ]}
+                  disabled={!canManage}
+                />
+              )}
+            </div>
+            <Input
+              label="Notes"
+              value={form.notes}
+              onChange={(e) => updateForm({ notes: e.target.value })}
+              placeholder="e.g. life member since 2015"
+            />
+
+            {formError && (
+              <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+                {formError}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" loading={isSubmitting} disabled={!form.name.trim() || !form.phone.trim()}>
+                {selected ? 'Update Customer' : 'Add Customer'}
+              </Button>
+            </div>
+          </form>
+        ) : selected ? (
+          <div className="space-y-6">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="text-xl font-semibold text-gray-900">{selected.name}</h3>
+                <div className="text-sm text-gray-600">
+                  {[selected.phone, selected.email, CUSTOMER_LANGUAGE_LABELS[selected.preferredLanguage]]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </div>
+                {selected.address && <div className="text-sm text-gray-500">{selected.address}</div>}
+                {selected.pan && <div className="text-sm text-gray-500">PAN {selected.pan}</div>}
+                {selected.tierId && (
+                  <div className="mt-1 inline-block px-2 py-0.5 text-xs font-medium text-orange-800 bg-orange-100 rounded">
+                    {tierName(selected.tierId) || 'Member'}
+                  </div>
+                )}
+                {selected.notes && <div className="mt-1 text-sm text-gray-500 italic">{selected.notes}</div>}
+              </div>
+              <Button variant="outline" size="sm" onClick={() => startEdit(selected)} icon={<Edit className="w-4 h-4" />}>
+                Edit
+              </Button>
+            </div>
+            {loyalty && (loyalty.balance !== 0 || loyalty.entries.length > 0 || canManage) && (
+              <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium text-gray-900">Loyalty points</span>
+                  <span className="text-lg font-semibold text-orange-700">{loyalty.balance}</span>
+                </div>
+                {loyalty.entries.length > 0 && (
+                  <div className="space-y-1 max-h-32 overflow-y-auto">
+                    {loyalty.entries.slice(0, 10).map((entry) => (
+                      <div key={entry.id} className="flex justify-between text-xs text-gray-600">
+                        <span>
+                          {entry.createdAt && `${new Date(entry.createdAt).toLocaleDateString()} · `}
+                          {entry.note || entry.type}
+                        </span>
+                        <span className={entry.points < 0 ? 'text-red-600' : 'text-green-700'}>
+                          {entry.points > 0 ? `+${entry.points}` : entry.points}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {canManage && (
+                  <form onSubmit={handleAdjustPoints} className="flex space-x-2">
+                    <Input
+                      type="number"
+                      step="1"
+                      value={adjustment.points}
+                      onChange={(e) => setAdjustment(current => ({ ...current, points: e.target.value }))}
+                      placeholder="± points"
+                      inputSize="sm"
+                      className="w-24"
+                    />
+                    <Input
+                      value={adjustment.note}
+                      onChange={(e) => setAdjustment(current => ({ ...current, note: e.target.value }))}
+                      placeholder="Reason"
+                      inputSize="sm"
+                    />
+                    <Button
+                      type="submit"
+                      size="sm"
+                      variant="outline"
+                      loading={isAdjusting}
+                      disabled={!Number(adjustment.points) || !adjustment.note.trim()}
+                    >
+                      Adjust
+                    </Button>
+                  </form>
+                )}
+              </div>
+            )}
+            <CustomerHistory customerId={selected.id} refreshKey={historyKey} />
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500">
+            Choose a customer to see what they have bought
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
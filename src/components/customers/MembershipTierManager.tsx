@@ -0,0 +1,361 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { useNotificationStore } from '@/stores/notificationStore';
+import type { MembershipTier } from '@/types/loyalty';
+import type { Product } from '@/types';
+
+interface TierFormState {
+  name: string;
+  discountPercent: string;
+  pointsPerRupee: string;
+  isActive: boolean;
+}
+
+// One line of a tier's price list while it is being edited
+interface PriceRow {
+  productId: string;
+  variantId: string | null;
+  label: string;
+  price: string;
+}
+
+const emptyForm: TierFormState = {
+  name: '',
+  discountPercent: '0',
+  pointsPerRupee: '0',
+  isActive: true,
+};
+
+export function MembershipTierManager() {
+  const [tiers, setTiers] = useState<MembershipTier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTier, setEditingTier] = useState<MembershipTier | null>(null);
+  const [form, setForm] = useState<TierFormState>(emptyForm);
+  const [priceRows, setPriceRows] = useState<PriceRow[]>([]);
+  const [productQuery, setProductQuery] = useState('');
+  const [productResults, setProductResults] = useState<Product[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const loadTiers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/membership-tiers');
+      if (!response.ok) {
+        throw new Error('Failed to load membership tiers');
+      }
+      const result = await response.json();
+      setTiers(result.data || []);
+    } catch (error) {
+      console.error('Error loading membership tiers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTiers();
+  }, [loadTiers]);
+
+  // Look products up as the user types, without a request per keystroke
+  useEffect(() => {
+    if (productQuery.trim().length < 2) {
+      setProductResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/products?search=${encodeURIComponent(productQuery.trim())}&limit=10`);
+        if (response.ok) {
+          const result = await response.json();
+          setProductResults(result.data?.products || []);
+        }
+      } catch (error) {
+        console.error('Error searching products:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [productQuery]);
+
+  const updateForm = (changes: Partial<TierFormState>) => {
+    setForm(current => ({ ...current, ...changes }));
+  };
+
+  const handleOpenModal = (tier?: MembershipTier) => {
+    if (tier) {
+      setEditingTier(tier);
+      setForm({
+        name: tier.name,
+        discountPercent: String(tier.discountPercent),
+        pointsPerRupee: String(tier.pointsPerRupee),
+        isActive: tier.isActive,
+      });
+      setPriceRows(tier.prices.map(price => ({
+        productId: price.productId,
+        variantId: price.variantId,
+        label: price.variantName ? `${price.productName} - ${price.variantName}` : price.productName || 'Unknown product',
+        price: String(price.price),
+      })));
+    } else {
+      setEditingTier(null);
+      setForm(emptyForm);
+      setPriceRows([]);
+    }
+    setProductQuery('');
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingTier(null);
+    setFormError(null);
+  };
+
+  const addPriceRow = (product: Product, variantId: string | null) => {
+    if (priceRows.some(row => row.productId === product.id && row.variantId === variantId)) {
+      return;
+    }
+
+    const variant = product.variants?.find(item => item.id === variantId);
+    setPriceRows(rows => [...rows, {
+      productId: product.id,
+      variantId,
+      label: variant ? `${product.name} - ${variant.name}` : `${product.name} (all variants)`,
+      price: String(variant?.price ?? product.basePrice),
+    }]);
+  };
+
+  const sendJson = async (url: string, method: string, body: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details?.[0]?.message || result.error || 'Failed to save membership tier');
+    }
+    return result.data as MembershipTier;
+  };
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const details = {
+        name: form.name.trim(),
+        discountPercent: Number(form.discountPercent || 0),
+        pointsPerRupee: Number(form.pointsPerRupee || 0),
+      };
+      const tier = editingTier
+        ? await sendJson(`/api/membership-tiers/${editingTier.id}`, 'PUT', { ...details, isActive: form.isActive })
+        : await sendJson('/api/membership-tiers', 'POST', details);
+
+      await sendJson(`/api/membership-tiers/${tier.id}/prices`, 'PUT', {
+        prices: priceRows.map(row => ({
+          productId: row.productId,
+          variantId: row.variantId || undefined,
+          price: Number(row.price),
+        })),
+      });
+
+      addNotification({
+        message: editingTier ? 'Membership tier updated' : 'Membership tier created',
+        type: 'success',
+      });
+      handleCloseModal();
+      await loadTiers();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save membership tier');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const describeTier = (tier: MembershipTier) => [
+    tier.discountPercent > 0 ? `${tier.discountPercent}% off` : null,
+    tier.prices.length > 0 ? `${tier.prices.length} member price${tier.prices.length === 1 ? '' : 's'}` : null,
+    tier.pointsPerRupee > 0 ? `${tier.pointsPerRupee} pts per ₹` : null,
+  ].filter(Boolean).join(' • ') || 'Regular prices, no points';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Membership Tiers</h2>
+          <p className="text-sm text-gray-600">Member prices and points applied automatically at the till</p>
+        </div>
+        <Button size="sm" onClick={() => handleOpenModal()}>
+          Add Tier
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading membership tiers...</div>
+      ) : tiers.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">No membership tiers yet</div>
+      ) : (
+        <div className="space-y-2">
+          {tiers.map((tier) => (
+            <div key={tier.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <h3 className="font-medium text-gray-900">{tier.name}</h3>
+                  {!tier.isActive && (
+                    <span className="inline-block px-2 py-1 text-xs rounded bg-gray-100 text-gray-600">Paused</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600">{describeTier(tier)}</p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => handleOpenModal(tier)}>
+                Edit
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        title={editingTier ? 'Edit Membership Tier' : 'Create Membership Tier'}
+      >
+        <form onSubmit={handleFormSubmit} className="space-y-4">
+          <Input
+            label="Tier Name *"
+            value={form.name}
+            onChange={(e) => updateForm({ name: e.target.value })}
+            placeholder="e.g. Life Member"
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Discount on other items (%)"
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              value={form.discountPercent}
+              onChange={(e) => updateForm({ discountPercent: e.target.value })}
+            />
+            <Input
+              label="Points per ₹1 spent"
+              type="number"
+              min="0"
+              max="1"
+              step="0.01"
+              value={form.pointsPerRupee}
+              onChange={(e) => updateForm({ pointsPerRupee: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Member price list</label>
+            {priceRows.map((row, index) => (
+              <div key={`${row.productId}-${row.variantId || 'all'}`} className="flex items-center space-x-2">
+                <span className="flex-1 text-sm text-gray-700 truncate">{row.label}</span>
+                <Input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={row.price}
+                  onChange={(e) => setPriceRows(rows => rows.map((item, i) => (
+                    i === index ? { ...item, price: e.target.value } : item
+                  )))}
+                  inputSize="sm"
+                  className="w-28"
+                />
+                <button
+                  type="button"
+                  onClick={() => setPriceRows(rows => rows.filter((_, i) => i !== index))}
+                  className="p-1 text-gray-400 hover:text-gray-600 rounded-full"
+                  title="Remove price"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <Input
+              value={productQuery}
+              onChange={(e) => setProductQuery(e.target.value)}
+              placeholder="Search a product to add a member price"
+              leftIcon={<Search className="w-4 h-4" />}
+              inputSize="sm"
+            />
+            {productResults.length > 0 && (
+              <div className="max-h-48 overflow-y-auto border rounded-lg divide-y divide-gray-100">
+                {productResults.map((product) => (
+                  <div key={product.id} className="px-3 py-2 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => addPriceRow(product, null)}
+                      className="font-medium text-gray-900 hover:text-orange-600"
+                    >
+                      {product.name}
+                    </button>
+                    {(product.variants || []).length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {(product.variants || []).map((variant) => (
+                          <button
+                            key={variant.id}
+                            type="button"
+                            onClick={() => addPriceRow(product, variant.id)}
+                            className="px-2 py-0.5 text-xs border rounded hover:border-orange-500"
+                          >
+                            {variant.name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              A listed price wins over the tier discount. Pick the product name to price all its variants at once.
+            </p>
+          </div>
+
+          {editingTier && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => updateForm({ isActive: e.target.checked })}
+                className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+              />
+              <span>Active</span>
+            </label>
+          )}
+
+          {formError && (
+            <p className="text-sm text-red-600">{formError}</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-6 border-t">
+            <Button type="button" variant="outline" onClick={handleCloseModal} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={isSubmitting} disabled={!form.name.trim()}>
+              {editingTier ? 'Update Tier' : 'Create Tier'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
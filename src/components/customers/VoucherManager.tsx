@@ -0,0 +1,313 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, addYears } from 'date-fns';
+import { Gift, Printer, Search } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Modal } from '@/components/ui/Modal';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { receiptService } from '@/services/printer/receiptService';
+import { VOUCHER_KIND_LABELS, type Voucher } from '@/types/voucher';
+
+interface VoucherManagerProps {
+  // Managers issue and cancel vouchers; everyone can look one up
+  canManage?: boolean;
+}
+
+interface IssueFormState {
+  amount: string;
+  paymentMethod: 'cash' | 'upi';
+  paymentReference: string;
+  expiresAt: string;
+  phone: string;
+  note: string;
+}
+
+const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`;
+
+const emptyForm = (): IssueFormState => ({
+  amount: '',
+  paymentMethod: 'cash',
+  paymentReference: '',
+  expiresAt: format(addYears(new Date(), 1), 'yyyy-MM-dd'),
+  phone: '',
+  note: '',
+});
+
+const describeStatus = (voucher: Voucher) => {
+  if (voucher.status === 'cancelled') return { label: 'Cancelled', className: 'bg-gray-100 text-gray-600' };
+  if (voucher.expiresAt && new Date(voucher.expiresAt) < new Date()) {
+    return { label: 'Expired', className: 'bg-red-100 text-red-700' };
+  }
+  if (voucher.balance <= 0) return { label: 'Used up', className: 'bg-gray-100 text-gray-600' };
+  return { label: 'Active', className: 'bg-green-100 text-green-700' };
+};
+
+export function VoucherManager({ canManage = false }: VoucherManagerProps) {
+  const [vouchers, setVouchers] = useState<Voucher[]>([]);
+  const [lookupCode, setLookupCode] = useState('');
+  const [found, setFound] = useState<Voucher | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [form, setForm] = useState<IssueFormState>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const loadVouchers = useCallback(async () => {
+    if (!canManage) return;
+
+    try {
+      const response = await fetch('/api/vouchers');
+      if (!response.ok) {
+        throw new Error('Failed to load vouchers');
+      }
+      const result = await response.json();
+      setVouchers(result.data || []);
+    } catch (error) {
+      console.error('Error loading vouchers:', error);
+    }
+  }, [canManage]);
+
+  useEffect(() => {
+    loadVouchers();
+  }, [loadVouchers]);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLookupError(null);
+    setFound(null);
+
+    try {
+      const response = await fetch(`/api/vouchers/${encodeURIComponent(lookupCode.trim())}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Voucher not found');
+      }
+      setFound(result.data);
+    } catch (error) {
+      setLookupError(error instanceof Error ? error.message : 'Voucher not found');
+    }
+  };
+
+  const handlePrint = async (voucher: Voucher) => {
+    const result = await receiptService.printVoucher(voucher);
+    if (!result.success) {
+      addNotification({ message: result.error || 'Failed to print voucher', type: 'error' });
+    }
+  };
+
+  const handleCancel = async (voucher: Voucher) => {
+    if (!confirm(`Cancel voucher ${voucher.code}? Its remaining ${formatCurrency(voucher.balance)} can no longer be spent.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/vouchers/${encodeURIComponent(voucher.code)}/cancel`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to cancel voucher');
+      }
+
+      addNotification({ message: `Voucher ${voucher.code} cancelled`, type: 'success' });
+      if (found?.code === voucher.code) {
+        setFound(result.data);
+      }
+      await loadVouchers();
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to cancel voucher',
+        type: 'error',
+      });
+    }
+  };
+
+  const handleOpenModal = () => {
+    setForm(emptyForm());
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      // The voucher can be made out to a customer, found by their phone number
+      let customerId: string | undefined;
+      if (form.phone.trim()) {
+        const lookup = await fetch(`/api/customers?phone=${encodeURIComponent(form.phone.trim())}`);
+        const lookupResult = await lookup.json();
+        customerId = lookupResult.data?.[0]?.id;
+        if (!customerId) {
+          throw new Error(`No customer with phone ${form.phone.trim()}`);
+        }
+      }
+
+      const response = await fetch('/api/vouchers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          amount: Number(form.amount),
+          paymentMethod: form.paymentMethod,
+          paymentReference: form.paymentMethod === 'upi' ? form.paymentReference.trim() || undefined : undefined,
+          customerId,
+          expiresAt: form.expiresAt ? `${form.expiresAt}T23:59:59` : null,
+          note: form.note.trim() || undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to issue voucher');
+      }
+
+      const voucher: Voucher = result.data;
+      addNotification({ message: `Gift voucher ${voucher.code} issued`, type: 'success' });
+      setIsModalOpen(false);
+      await handlePrint(voucher);
+      await loadVouchers();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to issue voucher');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderVoucher = (voucher: Voucher) => {
+    const status = describeStatus(voucher);
+    return (
+      <div key={voucher.id} className="flex items-center justify-between p-3 border rounded-lg">
+        <div>
+          <div className="flex items-center space-x-2">
+            <span className="font-mono font-medium text-gray-900">{voucher.code}</span>
+            <span className={`inline-block px-2 py-1 text-xs rounded ${status.className}`}>{status.label}</span>
+          </div>
+          <p className="text-sm text-gray-600">
+            {VOUCHER_KIND_LABELS[voucher.kind]} • {formatCurrency(voucher.balance)} of {formatCurrency(voucher.amount)} left
+            {voucher.customerName && ` • ${voucher.customerName}`}
+            {voucher.expiresAt && ` • until ${format(new Date(voucher.expiresAt), 'dd MMM yyyy')}`}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button size="sm" variant="outline" onClick={() => handlePrint(voucher)} icon={<Printer className="w-4 h-4" />}>
+            Print
+          </Button>
+          {canManage && voucher.status === 'active' && (
+            <Button size="sm" variant="ghost" onClick={() => handleCancel(voucher)}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Gift Vouchers & Store Credit</h2>
+          <p className="text-sm text-gray-600">Check a balance, or sell festival gift vouchers into your shift&apos;s drawer</p>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={handleOpenModal} icon={<Gift className="w-4 h-4" />}>
+            Issue Gift Voucher
+          </Button>
+        )}
+      </div>
+
+      <form onSubmit={handleLookup} className="flex space-x-2">
+        <Input
+          value={lookupCode}
+          onChange={(e) => setLookupCode(e.target.value.toUpperCase())}
+          placeholder="Voucher code, e.g. GV-7KQ2-M9XD"
+          leftIcon={<Search className="w-4 h-4" />}
+          inputSize="sm"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={!lookupCode.trim()}>
+          Check
+        </Button>
+      </form>
+      {lookupError && <p className="text-sm text-red-600">{lookupError}</p>}
+      {found && renderVoucher(found)}
+
+      {canManage && vouchers.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Recently issued</h3>
+          {vouchers.slice(0, 10).map(renderVoucher)}
+        </div>
+      )}
+
+      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title="Issue Gift Voucher">
+        <form onSubmit={handleIssue} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Value (₹) *"
+              type="number"
+              min="1"
+              step="0.01"
+              value={form.amount}
+              onChange={(e) => setForm(current => ({ ...current, amount: e.target.value }))}
+            />
+            <Input
+              label="Valid until"
+              type="date"
+              value={form.expiresAt}
+              onChange={(e) => setForm(current => ({ ...current, expiresAt: e.target.value }))}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Paid by *"
+              value={form.paymentMethod}
+              onChange={(e) => setForm(current => ({ ...current, paymentMethod: e.target.value as 'cash' | 'upi' }))}
+              options={[
+                { value: 'cash', label: 'Cash' },
+                { value: 'upi', label: 'UPI' },
+              ]}
+            />
+            {form.paymentMethod === 'upi' && (
+              <Input
+                label="UPI reference"
+                value={form.paymentReference}
+                onChange={(e) => setForm(current => ({ ...current, paymentReference: e.target.value }))}
+                placeholder="UTR from the payment"
+              />
+            )}
+          </div>
+          <Input
+            label="Customer phone (optional)"
+            value={form.phone}
+            onChange={(e) => setForm(current => ({ ...current, phone: e.target.value }))}
+            placeholder="Leave empty for a bearer voucher"
+          />
+          <Input
+            label="Note"
+            value={form.note}
+            onChange={(e) => setForm(current => ({ ...current, note: e.target.value }))}
+            placeholder="e.g. Janmashtami gift card"
+          />
+
+          {formError && (
+            <p className="text-sm text-red-600">{formError}</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-6 border-t">
+            <Button type="button" variant="outline" onClick={() => setIsModalOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={isSubmitting} disabled={!(Number(form.amount) > 0)}>
+              Issue & Print
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
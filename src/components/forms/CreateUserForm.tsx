@@ -5,21 +5,17 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { createUserSchema, type CreateUserInput } from '@/lib/validation/user';
-import type { UserRole } from '@/types/auth';
+import type { Role, UserRole } from '@/types/auth';
 
 interface CreateUserFormProps {
+  roles: Pick<Role, 'id' | 'name'>[];
   onSubmit: (data: CreateUserInput) => Promise<void>;
   onCancel: () => void;
   loading?: boolean;
 }
 
-const roleOptions = [
-  { value: 'cashier', label: 'Cashier' },
-  { value: 'manager', label: 'Manager' },
-  { value: 'admin', label: 'Administrator' },
-];
-
 export const CreateUserForm: React.FC<CreateUserFormProps> = ({
+  roles,
   onSubmit,
   onCancel,
   loading = false,
@@ -31,6 +27,8 @@ export const CreateUserForm: React.FC<CreateUserFormProps> = ({
     role: 'cashier',
   });
   
+  const roleOptions = roles.map(role => ({ value: role.id, label: role.name }));
+  
   const [errors, setErrors] = useState<Partial<Record<keyof CreateUserInput, string>>>({});
 
   const handleChange = (field: keyof CreateUserInput, value: string) => {
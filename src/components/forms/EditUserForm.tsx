@@ -5,7 +5,7 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { updateUserSchema, type UpdateUserInput } from '@/lib/validation/user';
-import type { UserRole } from '@/types/auth';
+import type { Role, UserRole } from '@/types/auth';
 
 interface User {
   id: string;
@@ -16,19 +16,15 @@ interface User {
 
 interface EditUserFormProps {
   user: User;
+  roles: Pick<Role, 'id' | 'name'>[];
   onSubmit: (data: UpdateUserInput) => Promise<void>;
   onCancel: () => void;
   loading?: boolean;
 }
 
-const roleOptions = [
-  { value: 'cashier', label: 'Cashier' },
-  { value: 'manager', label: 'Manager' },
-  { value: 'admin', label: 'Administrator' },
-];
-
 export const EditUserForm: React.FC<EditUserFormProps> = ({
   user,
+  roles,
   onSubmit,
   onCancel,
   loading = false,
@@ -38,6 +34,8 @@ export const EditUserForm: React.FC<EditUserFormProps> = ({
     role: user.role,
   });
   
+  const roleOptions = roles.map(role => ({ value: role.id, label: role.name }));
+  
   const [errors, setErrors] = useState<Partial<Record<keyof UpdateUserInput, string>>>({});
 
   const handleChange = (field: keyof UpdateUserInput, value: string | boolean) => {
@@ -1,11 +1,13 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader } from '@/components/ui/Card';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import type { EnhancedProduct } from '@/services/database/products';
 import type { CategoryHierarchy } from '@/services/database/categories';
+import { ExpiryBadge } from './ProductBatches';
+import type { Location, LocationStockLevel, NearExpiryBatch } from '@/types/stock';
 
 interface InventoryReportsProps {
   products: EnhancedProduct[];
@@ -34,8 +36,81 @@ interface CategoryReport {
 }
 
 export function InventoryReports({ products, categories, isLoading = false }: InventoryReportsProps) {
-  const [reportType, setReportType] = useState<'overview' | 'categories' | 'stock'>('overview');
+  const [reportType, setReportType] = useState<'overview' | 'categories' | 'stock' | 'expiry'>('overview');
   const [lowStockThreshold, setLowStockThreshold] = useState(10);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState('');
+  // Stock at the chosen location by variant; null while reporting the whole shop
+  const [locationLevels, setLocationLevels] = useState<Map<string, number> | null>(null);
+
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        const response = await fetch('/api/locations');
+        if (response.ok) {
+          const result = await response.json();
+          setLocations(result.data || []);
+        }
+      } catch (error) {
+        console.error('Failed to load locations:', error);
+      }
+    };
+
+    loadLocations();
+  }, []);
+
+  useEffect(() => {
+    if (!locationId) {
+      setLocationLevels(null);
+      return;
+    }
+
+    const loadLevels = async () => {
+      try {
+        const response = await fetch(`/api/locations/${locationId}/stock`);
+        if (!response.ok) {
+          throw new Error('Failed to load location stock');
+        }
+        const result = await response.json();
+        const levels: LocationStockLevel[] = result.data || [];
+        setLocationLevels(new Map(levels.map(level => [level.variantId, level.quantity])));
+      } catch (error) {
+        console.error('Failed to load location stock:', error);
+        setLocationLevels(new Map());
+      }
+    };
+
+    loadLevels();
+  }, [locationId, products]);
+
+  const [expiryDays, setExpiryDays] = useState(30);
+  const [nearExpiry, setNearExpiry] = useState<NearExpiryBatch[] | null>(null);
+
+  useEffect(() => {
+    if (reportType !== 'expiry') return;
+
+    const loadNearExpiry = async () => {
+      try {
+        const response = await fetch(`/api/batches/near-expiry?days=${expiryDays}`);
+        if (!response.ok) {
+          throw new Error('Failed to load near-expiry batches');
+        }
+        const result = await response.json();
+        setNearExpiry(result.data || []);
+      } catch (error) {
+        console.error('Failed to load near-expiry batches:', error);
+        setNearExpiry([]);
+      }
+    };
+
+    loadNearExpiry();
+  }, [reportType, expiryDays]);
+
+  const stockOf = useCallback(
+    (variant: EnhancedProduct['variants'][number]) =>
+      locationLevels ? locationLevels.get(variant.id) ?? 0 : variant.stockQuantity || 0,
+    [locationLevels]
+  );
 
   // Calculate inventory statistics
   const inventoryStats = useMemo((): InventoryStats => {
@@ -67,7 +142,7 @@ export function InventoryReports({ products, categories, isLoading = false }: In
         product.variants.forEach(variant => {
           variantCount++;
           totalPrice += variant.price;
-          const stockQuantity = variant.stockQuantity || 0;
+          const stockQuantity = stockOf(variant);
           const stockValue = stockQuantity * variant.price;
           stats.totalStockValue += stockValue;
 
@@ -85,7 +160,7 @@ export function InventoryReports({ products, categories, isLoading = false }: In
     stats.categoriesWithProducts = categoriesWithProducts.size;
 
     return stats;
-  }, [products, lowStockThreshold]);
+  }, [products, lowStockThreshold, stockOf]);
 
   // Calculate category reports
   const categoryReports = useMemo((): CategoryReport[] => {
@@ -126,7 +201,7 @@ export function InventoryReports({ products, categories, isLoading = false }: In
       } else {
         // Product with variants
         product.variants.forEach(variant => {
-          const stockQuantity = variant.stockQuantity || 0;
+          const stockQuantity = stockOf(variant);
           const stockValue = stockQuantity * variant.price;
           report.totalStockValue += stockValue;
           report.averagePrice += variant.price;
@@ -154,7 +229,7 @@ export function InventoryReports({ products, categories, isLoading = false }: In
     return Array.from(categoryMap.values())
       .filter(report => report.productCount > 0)
       .sort((a, b) => b.productCount - a.productCount);
-  }, [products, categories, lowStockThreshold]);
+  }, [products, categories, lowStockThreshold, stockOf]);
 
   const handleExportReport = async (format: 'csv' | 'pdf') => {
     try {
@@ -163,6 +238,7 @@ export function InventoryReports({ products, categories, isLoading = false }: In
         stats: inventoryStats,
         categories: categoryReports,
         lowStockThreshold,
+        location: locations.find(location => location.id === locationId)?.name || 'All locations',
         generatedAt: new Date().toISOString(),
       };
 
@@ -250,6 +326,7 @@ export function InventoryReports({ products, categories, isLoading = false }: In
               { id: 'overview', label: 'Overview' },
               { id: 'categories', label: 'By Category' },
               { id: 'stock', label: 'Stock Analysis' },
+              { id: 'expiry', label: 'Near Expiry' },
             ].map(type => (
               <button
                 key={type.id}
@@ -264,7 +341,24 @@ export function InventoryReports({ products, categories, isLoading = false }: In
               </button>
             ))}
           </div>
-          <div className="ml-auto flex items-center space-x-2">
+          {locations.length > 1 && (
+            <div className="ml-auto flex items-center space-x-2">
+              <label className="text-sm text-gray-600">Location:</label>
+              <select
+                value={locationId}
+                onChange={(e) => setLocationId(e.target.value)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              >
+                <option value="">All locations</option>
+                {locations.map(location => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}{location.isActive ? '' : ' (closed)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className={`${locations.length > 1 ? '' : 'ml-auto '}flex items-center space-x-2`}>
             <label className="text-sm text-gray-600">Low Stock Threshold:</label>
             <input
               type="number"
@@ -492,6 +586,77 @@ export function InventoryReports({ products, categories, isLoading = false }: In
           </Card>
         </div>
       )}
+
+      {/* Near Expiry Report */}
+      {reportType === 'expiry' && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-gray-900">Batches Expiring Soon</h3>
+              <div className="flex items-center space-x-2">
+                <label className="text-sm text-gray-600">Within</label>
+                <select
+                  value={expiryDays}
+                  onChange={(e) => setExpiryDays(parseInt(e.target.value))}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded"
+                >
+                  {[7, 30, 60, 90].map(days => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {nearExpiry === null ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner />
+              </div>
+            ) : nearExpiry.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">Nothing expires in the next {expiryDays} days</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Left</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {nearExpiry.map(batch => (
+                      <tr key={batch.id}>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {batch.productName} - {batch.variantName}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{batch.batchNumber}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          <ExpiryBadge expiresAt={batch.expiresAt} />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{batch.quantity}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                          ₹{batch.value.toLocaleString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-4 text-sm text-gray-600">
+                  {nearExpiry.filter(batch => batch.daysToExpiry <= 0).length} expired batches worth ₹
+                  {nearExpiry
+                    .filter(batch => batch.daysToExpiry <= 0)
+                    .reduce((sum, batch) => sum + batch.value, 0)
+                    .toLocaleString()}{' '}
+                  are held back from sale; write them off from the product&apos;s Batches tab.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
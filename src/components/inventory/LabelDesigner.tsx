@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Printer } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { receiptService } from '@/services/printer/receiptService';
+import { BarcodeEncoder } from '@/services/barcode/barcodeEncoder';
+import { LABEL_SHEET_LAYOUTS } from '@/types/label';
+import type { LabelItem, LabelOptions, LabelOutput } from '@/types/label';
+import type { EnhancedProduct } from '@/services/database/products';
+
+interface LabelDesignerProps {
+  products: EnhancedProduct[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface LabelRow extends LabelItem {
+  selected: boolean;
+}
+
+const buildRows = (products: EnhancedProduct[]): LabelRow[] =>
+  products.flatMap((product) =>
+    product.variants.map((variant) => ({
+      variantId: variant.id,
+      productName: product.name,
+      variantName: variant.name,
+      price: variant.price,
+      barcode: variant.barcode,
+      copies: 1,
+      selected: true,
+    }))
+  );
+
+export function LabelDesigner({ products, isOpen, onClose }: LabelDesignerProps) {
+  const addNotification = useNotificationStore((state) => state.addNotification);
+  const [rows, setRows] = useState<LabelRow[]>([]);
+  const [options, setOptions] = useState<LabelOptions>({ showName: true, showPrice: true, symbology: 'barcode' });
+  const [output, setOutput] = useState<LabelOutput>('sheet');
+  const [layoutId, setLayoutId] = useState(LABEL_SHEET_LAYOUTS[0].id);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setRows(buildRows(products));
+    }
+  }, [isOpen, products]);
+
+  const layout = LABEL_SHEET_LAYOUTS.find((l) => l.id === layoutId) || LABEL_SHEET_LAYOUTS[0];
+  const chosen = rows.filter((row) => row.selected && row.copies > 0);
+  const labelCount = chosen.reduce((sum, row) => sum + row.copies, 0);
+  const withoutBarcode = chosen.filter((row) => !row.barcode).length;
+  const productsWithoutVariants = products.filter((product) => product.variants.length === 0);
+  const preview = chosen[0];
+
+  const previewSvg = useMemo(() => {
+    if (!preview?.barcode) return null;
+    try {
+      return BarcodeEncoder.toSVG(preview.barcode);
+    } catch {
+      return null;
+    }
+  }, [preview?.barcode]);
+
+  const updateRow = (variantId: string, changes: Partial<LabelRow>) => {
+    setRows((prev) => prev.map((row) => (row.variantId === variantId ? { ...row, ...changes } : row)));
+  };
+
+  const printLabels = async () => {
+    setIsPrinting(true);
+    try {
+      const items: LabelItem[] = chosen.map(({ selected: _selected, ...item }) => item);
+      const result = await receiptService.printLabels(
+        items,
+        // QR codes need the thermal printer; A4 sheets always carry the linear code
+        output === 'sheet' ? { ...options, symbology: 'barcode' } : options,
+        output,
+        layout
+      );
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to print labels');
+      }
+
+      addNotification({
+        message: output === 'sheet'
+          ? `Label sheet ready: open it and print on ${layout.name} stickers`
+          : `${labelCount} label${labelCount === 1 ? '' : 's'} sent to the printer`,
+        type: 'success',
+      });
+      onClose();
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to print labels',
+        type: 'error',
+      });
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Print Labels" size="lg">
+      <div className="space-y-5">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <Select
+              label="Print on"
+              value={output}
+              onChange={(e) => setOutput(e.target.value as LabelOutput)}
+              options={[
+                { value: 'sheet', label: 'A4 sticker sheet' },
+                { value: 'thermal', label: 'Thermal printer' },
+              ]}
+            />
+            {output === 'sheet' ? (
+              <Select
+                label="Sheet layout"
+                value={layoutId}
+                onChange={(e) => setLayoutId(e.target.value)}
+                options={LABEL_SHEET_LAYOUTS.map((l) => ({ value: l.id, label: l.name }))}
+              />
+            ) : (
+              <Select
+                label="Code"
+                value={options.symbology}
+                onChange={(e) => setOptions((prev) => ({ ...prev, symbology: e.target.value as LabelOptions['symbology'] }))}
+                options={[
+                  { value: 'barcode', label: 'Barcode' },
+                  { value: 'qr', label: 'QR code' },
+                ]}
+              />
+            )}
+            <div className="flex gap-6 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.showName}
+                  onChange={(e) => setOptions((prev) => ({ ...prev, showName: e.target.checked }))}
+                  className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                />
+                Name
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.showPrice}
+                  onChange={(e) => setOptions((prev) => ({ ...prev, showPrice: e.target.checked }))}
+                  className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                />
+                Price
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-center bg-gray-50 border border-dashed border-gray-300 rounded-lg p-4">
+            {preview ? (
+              <div className="w-48 bg-white border border-gray-200 rounded p-2 text-center">
+                {options.showName && (
+                  <div className="text-xs text-gray-900 line-clamp-2">
+                    {preview.productName}{preview.variantName ? ` - ${preview.variantName}` : ''}
+                  </div>
+                )}
+                {options.showPrice && (
+                  <div className="text-sm font-bold text-gray-900">₹{preview.price.toFixed(2)}</div>
+                )}
+                {previewSvg ? (
+                  <div className="h-14 mt-1" dangerouslySetInnerHTML={{ __html: previewSvg }} />
+                ) : (
+                  <div className="mt-1 text-xs text-gray-400">No barcode</div>
+                )}
+              </div>
+            ) : (
+              <span className="text-sm text-gray-500">Pick a variant to preview its label</span>
+            )}
+          </div>
+        </div>
+
+        {(withoutBarcode > 0 || productsWithoutVariants.length > 0) && (
+          <div className="flex items-start gap-2 p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <div>
+              {withoutBarcode > 0 && (
+                <div>{withoutBarcode} selected variant{withoutBarcode === 1 ? ' has' : 's have'} no barcode; their labels print without one.</div>
+              )}
+              {productsWithoutVariants.length > 0 && (
+                <div>Skipped {productsWithoutVariants.map((p) => p.name).join(', ')}: labels are printed per variant.</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {rows.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500 text-center">No variants to label</div>
+          ) : (
+            rows.map((row) => (
+              <div key={row.variantId} className="flex items-center gap-3 px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={row.selected}
+                  onChange={(e) => updateRow(row.variantId, { selected: e.target.checked })}
+                  className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                  aria-label={`Label ${row.productName} ${row.variantName || ''}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">
+                    {row.productName}{row.variantName ? ` - ${row.variantName}` : ''}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    ₹{row.price.toFixed(2)} · {row.barcode ? <span className="font-mono">{row.barcode}</span> : 'no barcode'}
+                  </div>
+                </div>
+                <input
+                  type="number"
+                  min={0}
+                  max={999}
+                  value={row.copies}
+                  onChange={(e) => updateRow(row.variantId, { copies: Math.max(0, parseInt(e.target.value) || 0) })}
+                  disabled={!row.selected}
+                  className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  aria-label="Copies"
+                />
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600">
+            {labelCount} label{labelCount === 1 ? '' : 's'}
+            {output === 'sheet' && labelCount > 0 && (
+              <> · {Math.ceil(labelCount / (layout.columns * layout.rows))} sheet{labelCount > layout.columns * layout.rows ? 's' : ''}</>
+            )}
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={printLabels}
+              loading={isPrinting}
+              disabled={labelCount === 0}
+              icon={<Printer className="w-4 h-4" />}
+            >
+              Print
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
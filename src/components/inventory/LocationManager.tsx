@@ -0,0 +1,506 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import { ArrowRightLeft, Edit, MapPin, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Modal } from '@/components/ui/Modal';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { LOCATION_TYPE_LABELS } from '@/types/stock';
+import type { EnhancedProduct } from '@/services/database/products';
+import type { Location, LocationStockLevel, LocationType, StockTransfer } from '@/types/stock';
+
+interface LocationManagerProps {
+  products: EnhancedProduct[];
+  onStockChange: () => void;
+}
+
+interface TransferLineState {
+  variantId: string;
+  quantity: string;
+}
+
+const emptyLine: TransferLineState = { variantId: '', quantity: '1' };
+
+export function LocationManager({ products, onStockChange }: LocationManagerProps) {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLocationFormOpen, setIsLocationFormOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<LocationType>('shop');
+  const [isDefault, setIsDefault] = useState(false);
+  const [isActive, setIsActive] = useState(true);
+  const [isTransferFormOpen, setIsTransferFormOpen] = useState(false);
+  const [fromLocationId, setFromLocationId] = useState('');
+  const [toLocationId, setToLocationId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<TransferLineState[]>([emptyLine]);
+  const [fromLevels, setFromLevels] = useState<Map<string, number>>(new Map());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [locationsResponse, transfersResponse] = await Promise.all([
+        fetch('/api/locations'),
+        fetch('/api/stock-transfers'),
+      ]);
+      if (!locationsResponse.ok || !transfersResponse.ok) {
+        throw new Error('Failed to load locations');
+      }
+      const [locationsResult, transfersResult] = await Promise.all([
+        locationsResponse.json(),
+        transfersResponse.json(),
+      ]);
+      setLocations(locationsResult.data || []);
+      setTransfers(transfersResult.data || []);
+    } catch (error) {
+      console.error('Error loading locations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // Show what the source location actually holds so the picker doesn't offer the shop-wide total
+  useEffect(() => {
+    if (!fromLocationId) {
+      setFromLevels(new Map());
+      return;
+    }
+
+    const loadLevels = async () => {
+      try {
+        const response = await fetch(`/api/locations/${fromLocationId}/stock`);
+        if (response.ok) {
+          const result = await response.json();
+          const levels: LocationStockLevel[] = result.data || [];
+          setFromLevels(new Map(levels.map((level) => [level.variantId, level.quantity])));
+        }
+      } catch (error) {
+        console.error('Failed to load location stock:', error);
+      }
+    };
+
+    loadLevels();
+  }, [fromLocationId]);
+
+  const variantOptions = useMemo(
+    () =>
+      products.flatMap((product) =>
+        product.variants
+          .filter((variant) => (fromLevels.get(variant.id) ?? 0) > 0)
+          .map((variant) => ({
+            value: variant.id,
+            label: `${product.name} - ${variant.name} (${fromLevels.get(variant.id)} here)`,
+          }))
+      ),
+    [products, fromLevels]
+  );
+
+  const activeLocations = locations.filter((location) => location.isActive);
+
+  const openLocationForm = (location?: Location) => {
+    setEditingLocation(location || null);
+    setName(location?.name || '');
+    setType(location?.type || 'shop');
+    setIsDefault(location?.isDefault || false);
+    setIsActive(location?.isActive ?? true);
+    setFormError(null);
+    setIsLocationFormOpen(true);
+  };
+
+  const handleLocationSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const body = editingLocation
+        ? { name, type, isActive, ...(isDefault && !editingLocation.isDefault ? { isDefault: true } : {}) }
+        : { name, type, isDefault };
+
+      const response = await fetch(
+        editingLocation ? `/api/locations/${editingLocation.id}` : '/api/locations',
+        {
+          method: editingLocation ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save location');
+      }
+
+      addNotification({
+        message: `${result.data.name} ${editingLocation ? 'updated' : 'added'}`,
+        type: 'success',
+      });
+      setIsLocationFormOpen(false);
+      await loadData();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save location');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openTransferForm = () => {
+    setFromLocationId(activeLocations[0]?.id || '');
+    setToLocationId(activeLocations[1]?.id || '');
+    setNotes('');
+    setLines([emptyLine]);
+    setFormError(null);
+    setIsTransferFormOpen(true);
+  };
+
+  const updateLine = (index: number, changes: Partial<TransferLineState>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleTransferSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch('/api/stock-transfers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          fromLocationId,
+          toLocationId,
+          notes: notes.trim() || null,
+          items: lines
+            .filter((line) => line.variantId)
+            .map((line) => ({ variantId: line.variantId, quantity: parseInt(line.quantity) || 0 })),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to transfer stock');
+      }
+
+      addNotification({
+        message: `${result.data.reference}: moved ${result.data.totalQuantity} units to ${result.data.toLocationName}`,
+        type: 'success',
+      });
+      setIsTransferFormOpen(false);
+      await loadData();
+      onStockChange();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to transfer stock');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const locationOptions = activeLocations.map((location) => ({ value: location.id, label: location.name }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Locations</h2>
+          <p className="text-gray-600">Shop floor, storerooms and stalls, and the stock moved between them</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={openTransferForm}
+            disabled={activeLocations.length < 2}
+            icon={<ArrowRightLeft className="w-4 h-4" />}
+          >
+            New Transfer
+          </Button>
+          <Button onClick={() => openLocationForm()} icon={<Plus className="w-4 h-4" />}>
+            Add Location
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+          <span className="ml-2 text-gray-600">Loading locations...</span>
+        </div>
+      ) : (
+        <>
+          {locations.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No locations yet. All stock is held in one place until you add one.
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg border overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {locations.map((location) => (
+                    <tr key={location.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <span className="flex items-center">
+                          <MapPin className="w-4 h-4 mr-2 text-gray-400" />
+                          {location.name}
+                          {location.isDefault && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-800">
+                              Default
+                            </span>
+                          )}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{LOCATION_TYPE_LABELS[location.type]}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={location.isActive ? 'text-green-700' : 'text-gray-400'}>
+                          {location.isActive ? 'Open' : 'Closed'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <button
+                          onClick={() => openLocationForm(location)}
+                          className="text-orange-600 hover:text-orange-900 p-1"
+                          title="Edit location"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Recent Transfers</h3>
+            {transfers.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No stock transfers yet</div>
+            ) : (
+              <div className="bg-white rounded-lg border overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {transfers.map((transfer) => (
+                      <tr key={transfer.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900" title={transfer.notes || undefined}>
+                          {transfer.reference}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {transfer.createdAt ? format(new Date(transfer.createdAt), 'MMM dd, yyyy HH:mm') : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{transfer.fromLocationName || '—'}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{transfer.toLocationName || '—'}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                          {transfer.totalQuantity} ({transfer.itemCount} items)
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{transfer.creatorName || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <Modal
+        isOpen={isLocationFormOpen}
+        onClose={() => setIsLocationFormOpen(false)}
+        title={editingLocation ? `Edit ${editingLocation.name}` : 'Add Location'}
+        size="md"
+      >
+        <form onSubmit={handleLocationSubmit} className="space-y-4">
+          <Input
+            label="Name *"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Godown, Rath Yatra stall"
+            required
+          />
+          <Select
+            label="Type"
+            value={type}
+            onChange={(e) => setType(e.target.value as LocationType)}
+            options={Object.entries(LOCATION_TYPE_LABELS).map(([value, label]) => ({ value, label }))}
+          />
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={isDefault}
+              onChange={(e) => setIsDefault(e.target.checked)}
+              disabled={editingLocation?.isDefault}
+              className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+            />
+            <span>Default location (tills without a location sell from here)</span>
+          </label>
+          {editingLocation && !editingLocation.isDefault && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+                className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+              />
+              <span>Open</span>
+            </label>
+          )}
+          {locations.length === 0 && (
+            <p className="text-sm text-gray-500">
+              The first location becomes the default and holds all current stock.
+            </p>
+          )}
+
+          {formError && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              {formError}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsLocationFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={isSubmitting} disabled={!name.trim()}>
+              {editingLocation ? 'Save' : 'Add Location'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={isTransferFormOpen}
+        onClose={() => setIsTransferFormOpen(false)}
+        title="New Stock Transfer"
+        size="xl"
+      >
+        <form onSubmit={handleTransferSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="From *"
+              value={fromLocationId}
+              onChange={(e) => {
+                setFromLocationId(e.target.value);
+                setLines([emptyLine]);
+              }}
+              options={locationOptions}
+            />
+            <Select
+              label="To *"
+              value={toLocationId}
+              onChange={(e) => setToLocationId(e.target.value)}
+              options={locationOptions}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase">
+              <div className="col-span-9">Item</div>
+              <div className="col-span-2">Quantity</div>
+            </div>
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <div className="col-span-9">
+                  <Select
+                    value={line.variantId}
+                    onChange={(e) => updateLine(index, { variantId: e.target.value })}
+                    options={[
+                      { value: '', label: variantOptions.length > 0 ? 'Select item' : 'Nothing in stock here' },
+                      ...variantOptions,
+                    ]}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    step="1"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-1 flex justify-center">
+                  <button
+                    type="button"
+                    onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-900 p-1 disabled:opacity-30"
+                    disabled={lines.length === 1}
+                    title="Remove line"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setLines((current) => [...current, emptyLine])}
+              icon={<Plus className="w-4 h-4" />}
+            >
+              Add Line
+            </Button>
+          </div>
+
+          <Input
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="e.g. Restocking the festival stall"
+          />
+
+          {formError && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              {formError}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsTransferFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              loading={isSubmitting}
+              disabled={!fromLocationId || !toLocationId || fromLocationId === toLocationId}
+            >
+              Move Stock
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import React from 'react';
+import type { UseFormRegister } from 'react-hook-form';
+import type { ProductFormInput } from '@/lib/validation/product';
+
+interface ProductBatchTrackingFieldProps {
+  register: UseFormRegister<ProductFormInput>;
+}
+
+// Batch tracking switch shared by the product forms; batches are added from the product's detail view
+export function ProductBatchTrackingField({ register }: ProductBatchTrackingFieldProps) {
+  return (
+    <label className="flex items-start space-x-2 text-sm text-gray-700">
+      <input
+        type="checkbox"
+        {...register('trackBatches')}
+        className="mt-0.5 rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+      />
+      <span>
+        Track batches and expiry dates
+        <span className="block text-gray-500">
+          For ghee, sweets, incense and other perishables; sold first-expiry-first-out and blocked once expired
+        </span>
+      </span>
+    </label>
+  );
+}
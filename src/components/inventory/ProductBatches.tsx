@@ -0,0 +1,361 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, differenceInCalendarDays } from 'date-fns';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useNotificationStore } from '@/stores/notificationStore';
+import type { EnhancedProduct } from '@/services/database/products';
+import type { Location, StockBatch } from '@/types/stock';
+
+interface ProductBatchesProps {
+  product: EnhancedProduct;
+}
+
+// Batches inside this many days of expiry are flagged
+const NEAR_EXPIRY_DAYS = 30;
+
+export function ExpiryBadge({ expiresAt }: { expiresAt?: Date | string | null }) {
+  if (!expiresAt) {
+    return <span className="text-gray-400">No expiry</span>;
+  }
+
+  const daysLeft = differenceInCalendarDays(new Date(expiresAt), new Date());
+  const style = daysLeft <= 0
+    ? 'bg-red-100 text-red-800'
+    : daysLeft <= NEAR_EXPIRY_DAYS
+      ? 'bg-amber-100 text-amber-800'
+      : 'bg-green-100 text-green-800';
+  const label = daysLeft <= 0 ? 'Expired' : `${daysLeft} days left`;
+
+  return (
+    <span className="inline-flex items-center space-x-2">
+      <span>{format(new Date(expiresAt), 'dd MMM yyyy')}</span>
+      <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${style}`}>{label}</span>
+    </span>
+  );
+}
+
+export function ProductBatches({ product }: ProductBatchesProps) {
+  const [batches, setBatches] = useState<StockBatch[] | null>(null);
+  const [showEmpty, setShowEmpty] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [variantId, setVariantId] = useState(product.variants[0]?.id || '');
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [batchNumber, setBatchNumber] = useState('');
+  const [manufacturedAt, setManufacturedAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [addToStock, setAddToStock] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const variantNames = new Map(product.variants.map((variant) => [variant.id, variant.name]));
+
+  const loadBatches = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/products/${product.id}/batches?includeEmpty=${showEmpty}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load batches');
+      }
+      setBatches(result.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load batches');
+    }
+  }, [product.id, showEmpty]);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  // Batches are sold from the location they are shelved at
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        const response = await fetch('/api/locations?active=true');
+        if (response.ok) {
+          const result = await response.json();
+          setLocations(result.data || []);
+        }
+      } catch (err) {
+        console.error('Failed to load locations:', err);
+      }
+    };
+    loadLocations();
+  }, []);
+
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+  const defaultLocationName = locations.find((location) => location.isDefault)?.name;
+
+  const resetForm = () => {
+    setBatchNumber('');
+    setManufacturedAt('');
+    setExpiresAt('');
+    setQuantity('');
+    setUnitCost('');
+    setAddToStock(true);
+    setLocationId('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/batches', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          variantId,
+          locationId: locationId || null,
+          batchNumber,
+          manufacturedAt: manufacturedAt || null,
+          expiresAt: expiresAt || null,
+          quantity: parseInt(quantity) || 0,
+          addToStock,
+          unitCost: addToStock && unitCost ? parseFloat(unitCost) : undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to add batch');
+      }
+
+      addNotification({
+        message: `Batch ${result.data.batchNumber} added${addToStock ? ` with ${result.data.quantity} units` : ''}`,
+        type: 'success',
+      });
+      resetForm();
+      setIsFormOpen(false);
+      await loadBatches();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add batch');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const writeOff = async (batch: StockBatch) => {
+    if (!window.confirm(`Write off the ${batch.quantity} units left in batch ${batch.batchNumber}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/batches/${batch.id}/write-off`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to write off batch');
+      }
+
+      addNotification({ message: `Batch ${batch.batchNumber} written off`, type: 'success' });
+      await loadBatches();
+    } catch (err) {
+      addNotification({
+        message: err instanceof Error ? err.message : 'Failed to write off batch',
+        type: 'error',
+      });
+    }
+  };
+
+  if (!product.trackBatches) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        Batch tracking is off for this product. Turn it on from Edit to record batches and expiry dates.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Batches</h3>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showEmpty}
+              onChange={(e) => setShowEmpty(e.target.checked)}
+              className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+            />
+            <span>Show sold out</span>
+          </label>
+          <Button
+            size="sm"
+            onClick={() => {
+              resetForm();
+              setIsFormOpen(!isFormOpen);
+            }}
+            icon={<Plus className="w-4 h-4" />}
+          >
+            Add Batch
+          </Button>
+        </div>
+      </div>
+
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="p-4 space-y-4 bg-orange-50 border border-orange-200 rounded-lg">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {product.variants.length > 1 && (
+              <Select
+                label="Variant *"
+                value={variantId}
+                onChange={(e) => setVariantId(e.target.value)}
+                options={product.variants.map((variant) => ({ value: variant.id, label: variant.name }))}
+              />
+            )}
+            {locations.length > 1 && (
+              <Select
+                label="Location"
+                value={locationId}
+                onChange={(e) => setLocationId(e.target.value)}
+                options={locations.map((location) => ({
+                  value: location.isDefault ? '' : location.id,
+                  label: location.name,
+                }))}
+              />
+            )}
+            <Input
+              label="Batch number *"
+              value={batchNumber}
+              onChange={(e) => setBatchNumber(e.target.value)}
+              required
+            />
+            <Input
+              label="Quantity *"
+              type="number"
+              min={1}
+              step="1"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              required
+            />
+            <Input
+              label="Manufactured"
+              type="date"
+              value={manufacturedAt}
+              onChange={(e) => setManufacturedAt(e.target.value)}
+            />
+            <Input
+              label="Expires"
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+            />
+            {addToStock && (
+              <Input
+                label="Unit cost (₹)"
+                type="number"
+                min={0}
+                step="0.01"
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+              />
+            )}
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={addToStock}
+              onChange={(e) => setAddToStock(e.target.checked)}
+              className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+            />
+            <span>New stock arriving (untick to label stock already on the shelf)</span>
+          </label>
+
+          {error && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={isWorking} disabled={!batchNumber.trim() || !quantity}>
+              Save Batch
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {batches === null ? (
+        <div className="text-center py-8 text-gray-500">Loading batches...</div>
+      ) : batches.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No batches recorded</div>
+      ) : (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch</th>
+                {product.variants.length > 1 && (
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variant</th>
+                )}
+                {locations.length > 1 && (
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                )}
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Manufactured</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Left</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {batches.map((batch) => (
+                <tr key={batch.id}>
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900">{batch.batchNumber}</td>
+                  {product.variants.length > 1 && (
+                    <td className="px-4 py-2 text-sm text-gray-900">{variantNames.get(batch.variantId)}</td>
+                  )}
+                  {locations.length > 1 && (
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {batch.locationId ? locationNames.get(batch.locationId) || 'Closed location' : defaultLocationName}
+                    </td>
+                  )}
+                  <td className="px-4 py-2 text-sm text-gray-600">
+                    {batch.manufacturedAt ? format(new Date(batch.manufacturedAt), 'dd MMM yyyy') : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    <ExpiryBadge expiresAt={batch.expiresAt} />
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-900">
+                    {batch.quantity} / {batch.receivedQuantity}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {batch.quantity > 0 && (
+                      <Button variant="ghost" size="sm" onClick={() => writeOff(batch)}>
+                        Write Off
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-sm text-gray-500">
+        Sales take the soonest-expiring batch at the till&apos;s location first. Expired batches are held back unless a manager approves.
+      </p>
+    </div>
+  );
+}
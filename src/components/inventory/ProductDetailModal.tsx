@@ -1,13 +1,15 @@
 'use client';
 
-import React, { useState } from 'react';
-import { ClipboardList, Settings, BarChart3 } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, Settings, BarChart3, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
 import { AlertDialog } from '@/components/ui/AlertDialog';
 import { Input } from '@/components/ui/Input';
 import { formatDate } from '@/lib/utils';
+import { ProductBatches } from './ProductBatches';
 import type { EnhancedProduct } from '@/services/database/products';
+import { STOCK_MOVEMENT_TYPE_LABELS, type StockMovement } from '@/types/stock';
 
 interface ProductDetailModalProps {
   product: EnhancedProduct;
@@ -16,13 +18,8 @@ interface ProductDetailModalProps {
   onDelete: (productId: string) => void;
 }
 
-interface VariantStockUpdate {
-  variantId: string;
-  newStock: number;
-}
-
 export function ProductDetailModal({ product, onClose, onEdit, onDelete }: ProductDetailModalProps) {
-  const [activeTab, setActiveTab] = useState<'details' | 'variants' | 'history'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'variants' | 'batches' | 'history'>('details');
   const [isUpdatingStock, setIsUpdatingStock] = useState(false);
   
   // Delete confirmation dialog state
@@ -37,6 +34,30 @@ export function ProductDetailModal({ product, onClose, onEdit, onDelete }: Produ
     message: '',
   });
   const [stockUpdates, setStockUpdates] = useState<Record<string, number>>({});
+  const [movements, setMovements] = useState<StockMovement[] | null>(null);
+  const [historyVariantId, setHistoryVariantId] = useState('');
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  // Load the stock ledger the first time the history tab is opened
+  useEffect(() => {
+    if (activeTab !== 'history' || movements !== null) return;
+
+    const loadMovements = async () => {
+      try {
+        const response = await fetch(`/api/products/${product.id}/stock-movements`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load stock history');
+        }
+        setMovements(result.data || []);
+      } catch (error) {
+        console.error('Error loading stock history:', error);
+        setHistoryError(error instanceof Error ? error.message : 'Failed to load stock history');
+      }
+    };
+
+    loadMovements();
+  }, [activeTab, movements, product.id]);
 
   const handleStockUpdate = (variantId: string, newStock: number) => {
     setStockUpdates(prev => ({
@@ -53,10 +74,12 @@ export function ProductDetailModal({ product, onClose, onEdit, onDelete }: Produ
       
       const updates = Object.entries(stockUpdates).map(([variantId, stock]) => ({
         variantId,
-        stockQuantity: stock
+        quantity: stock,
+        operation: 'set',
+        reason: 'Corrected from product details',
       }));
 
-      const response = await fetch(`/api/products/${product.id}/stock/bulk-update`, {
+      const response = await fetch('/api/products/stock', {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -111,10 +134,17 @@ export function ProductDetailModal({ product, onClose, onEdit, onDelete }: Produ
     return { label: 'In Stock', color: 'text-green-600 bg-green-50' };
   };
 
+  const visibleMovements = (movements || []).filter(
+    (movement) => !historyVariantId || movement.variantId === historyVariantId
+  );
+  // Only shops with more than one location record where a movement happened
+  const showLocation = visibleMovements.some((movement) => movement.locationName);
+
   const tabs = [
     { id: 'details', label: 'Details', icon: ClipboardList },
     { id: 'variants', label: 'Variants', icon: Settings },
-    { id: 'history', label: 'History', icon: BarChart3 },
+    ...(product.trackBatches ? [{ id: 'batches', label: 'Batches', icon: CalendarClock } as const] : []),
+    { id: 'history', label: 'Stock History', icon: BarChart3 },
   ] as const;
 
   return (
@@ -340,41 +370,80 @@ export function ProductDetailModal({ product, onClose, onEdit, onDelete }: Produ
             </div>
           )}
 
+          {activeTab === 'batches' && <ProductBatches product={product} />}
+
           {activeTab === 'history' && (
             <div className="space-y-4">
-              <h3 className="text-lg font-medium text-gray-900">Product History</h3>
-              <div className="space-y-3">
-                <div className="border-l-4 border-blue-500 pl-4 py-2">
-                  <div className="font-medium text-gray-900">Product Created</div>
-                  <div className="text-sm text-gray-600">{formatDate(product.createdAt)}</div>
-                  <div className="text-sm text-gray-500">Initial product setup completed</div>
-                </div>
-
-                {product.variants.length > 0 && (
-                  <div className="border-l-4 border-green-500 pl-4 py-2">
-                    <div className="font-medium text-gray-900">Variants Configured</div>
-                    <div className="text-sm text-gray-600">{product.variants.length} variant(s) added</div>
-                    <div className="text-sm text-gray-500">Product variants have been set up</div>
-                  </div>
-                )}
-
-                {product.keywords.length > 0 && (
-                  <div className="border-l-4 border-purple-500 pl-4 py-2">
-                    <div className="font-medium text-gray-900">Keywords Added</div>
-                    <div className="text-sm text-gray-600">{product.keywords.length} keyword(s) configured</div>
-                    <div className="text-sm text-gray-500">Search optimization completed</div>
-                  </div>
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-medium text-gray-900">Stock Movements</h3>
+                {product.variants.length > 1 && (
+                  <select
+                    value={historyVariantId}
+                    onChange={(e) => setHistoryVariantId(e.target.value)}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    aria-label="Filter by variant"
+                  >
+                    <option value="">All variants</option>
+                    {product.variants.map((variant) => (
+                      <option key={variant.id} value={variant.id}>{variant.name}</option>
+                    ))}
+                  </select>
                 )}
+              </div>
 
-                <div className="border-l-4 border-gray-300 pl-4 py-2">
-                  <div className="font-medium text-gray-900">Current Status</div>
-                  <div className="text-sm text-gray-600">
-                    {product.isActive ? 'Active and available for sale' : 'Inactive - not available for sale'}
-                  </div>
-                  <div className="text-sm text-gray-500">
-                    Total stock: {getTotalStock()} units across {product.variants.length} variants
-                  </div>
+              {historyError ? (
+                <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">{historyError}</div>
+              ) : movements === null ? (
+                <div className="text-center py-8 text-gray-500">Loading stock history...</div>
+              ) : visibleMovements.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-gray-500">No stock movements recorded yet</p>
+                </div>
+              ) : (
+                <div className="border border-gray-200 rounded-lg overflow-x-auto max-h-96">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                        {product.variants.length > 1 && (
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variant</th>
+                        )}
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                        {showLocation && (
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                        )}
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {visibleMovements.map((movement) => (
+                        <tr key={movement.id}>
+                          <td className="px-4 py-2 text-sm text-gray-600 whitespace-nowrap">{formatDate(movement.createdAt)}</td>
+                          {product.variants.length > 1 && (
+                            <td className="px-4 py-2 text-sm text-gray-900">{movement.variantName}</td>
+                          )}
+                          <td className="px-4 py-2 text-sm text-gray-900">{STOCK_MOVEMENT_TYPE_LABELS[movement.type] || movement.type}</td>
+                          {showLocation && (
+                            <td className="px-4 py-2 text-sm text-gray-600">{movement.locationName || '—'}</td>
+                          )}
+                          <td className={`px-4 py-2 text-sm text-right font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-900">{movement.balanceAfter}</td>
+                          <td className="px-4 py-2 text-sm text-gray-600">{movement.userName || '—'}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">{movement.reason || ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
+              )}
+
+              <div className="text-sm text-gray-500">
+                Product created {formatDate(product.createdAt)} · Total stock: {getTotalStock()} units across {product.variants.length} variants
               </div>
             </div>
           )}
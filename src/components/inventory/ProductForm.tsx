@@ -13,6 +13,8 @@ import { Input } from "@/components/ui/Input";
 import { Select } from "@/components/ui/Select";
 import { Textarea } from "@/components/ui/Textarea";
 import { Modal } from "@/components/ui/Modal";
+import { ProductTaxFields } from "./ProductTaxFields";
+import { ProductBatchTrackingField } from "./ProductBatchTrackingField";
 import type { ProductVariant } from "@/types";
 
 interface ProductFormProps {
@@ -31,6 +33,7 @@ interface VariantFormData {
   stockQuantity: number;
   attributes: Record<string, string>;
   keywords: string[];
+  barcode?: string;
 }
 
 export function ProductForm({
@@ -78,6 +81,9 @@ export function ProductForm({
       description: "",
       basePrice: 0,
       categoryId: "",
+      hsnCode: "",
+      taxRate: 0,
+      priceIncludesTax: true,
       keywords: [],
       metadata: {
         author: "",
@@ -104,6 +110,10 @@ export function ProductForm({
         description: initialData.description ?? "",
         basePrice: initialData.basePrice ?? 0,
         categoryId: initialData.categoryId ?? "",
+        hsnCode: initialData.hsnCode ?? "",
+        taxRate: initialData.taxRate ?? 0,
+        priceIncludesTax: initialData.priceIncludesTax ?? true,
+        trackBatches: initialData.trackBatches ?? false,
         keywords:
           initialData.keywords?.map((k) =>
             typeof k === "string" ? { value: k } : k
@@ -142,6 +152,7 @@ export function ProductForm({
           stockQuantity: variant.stockQuantity,
           attributes: variant.attributes || {},
           keywords: variant.keywords || [],
+          barcode: variant.barcode || "",
         }));
         setVariants(variantData);
       }
@@ -211,6 +222,7 @@ export function ProductForm({
       stockQuantity: 0,
       attributes: {},
       keywords: [],
+      barcode: "",
     });
     setVariantKeywordInput("");
     setVariantAttributeFields([]);
@@ -410,6 +422,10 @@ export function ProductForm({
               />
             </div>
           </div>
+
+          <ProductTaxFields register={register} errors={errors} />
+
+          <ProductBatchTrackingField register={register} />
         </div>
 
         {/* Keywords */}
@@ -616,6 +632,11 @@ export function ProductForm({
                         <span className="text-sm text-gray-600">
                           Stock: {variant.stockQuantity}
                         </span>
+                        {variant.barcode && (
+                          <span className="text-sm font-mono text-gray-600">
+                            {variant.barcode}
+                          </span>
+                        )}
                       </div>
 
                       {Object.keys(variant.attributes).length > 0 && (
@@ -760,22 +781,40 @@ export function ProductForm({
                 </div>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Stock Quantity
-                </label>
-                <Input
-                  type="number"
-                  min="0"
-                  value={variantFormData.stockQuantity}
-                  onChange={(e) =>
-                    setVariantFormData({
-                      ...variantFormData,
-                      stockQuantity: parseInt(e.target.value) || 0,
-                    })
-                  }
-                  placeholder="0"
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Stock Quantity
+                  </label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={variantFormData.stockQuantity}
+                    onChange={(e) =>
+                      setVariantFormData({
+                        ...variantFormData,
+                        stockQuantity: parseInt(e.target.value) || 0,
+                      })
+                    }
+                    placeholder="0"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Barcode
+                  </label>
+                  <Input
+                    value={variantFormData.barcode || ""}
+                    onChange={(e) =>
+                      setVariantFormData({
+                        ...variantFormData,
+                        barcode: e.target.value,
+                      })
+                    }
+                    placeholder="ISBN or EAN"
+                  />
+                </div>
               </div>
 
               {/* Variant Keywords */}
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState, useEffect, useMemo } from "react";
-import { Package, Grid3X3, List, Edit, Trash2 } from "lucide-react";
+import { Package, Grid3X3, List, Edit, Trash2, Tag } from "lucide-react";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Select } from "@/components/ui/Select";
@@ -15,6 +15,7 @@ interface ProductListProps {
   onProductEdit: (product: EnhancedProduct) => void;
   onProductDelete: (productId: string) => void;
   onCreateProduct: () => void;
+  onPrintLabels?: (products: EnhancedProduct[]) => void;
   isLoading?: boolean;
 }
 
@@ -25,6 +26,7 @@ export function ProductList({
   onProductEdit,
   onProductDelete,
   onCreateProduct,
+  onPrintLabels,
   isLoading = false,
 }: ProductListProps) {
   const [searchQuery, setSearchQuery] = useState("");
@@ -34,6 +36,7 @@ export function ProductList({
   const [sortBy, setSortBy] = useState("name");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [viewMode, setViewMode] = useState<"list" | "grid">("list");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   // Filter and sort products
   const filteredProducts = useMemo(() => {
@@ -161,6 +164,30 @@ export function ProductList({
     }
   };
 
+  const toggleSelected = (productId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(productId)) {
+        next.delete(productId);
+      } else {
+        next.add(productId);
+      }
+      return next;
+    });
+  };
+
+  const allVisibleSelected =
+    filteredProducts.length > 0 &&
+    filteredProducts.every((product) => selectedIds.has(product.id));
+
+  const toggleAllVisible = () => {
+    setSelectedIds(
+      allVisibleSelected
+        ? new Set()
+        : new Set(filteredProducts.map((product) => product.id))
+    );
+  };
+
   const clearFilters = () => {
     setSearchQuery("");
     setSelectedCategory("");
@@ -206,6 +233,20 @@ export function ProductList({
               <Grid3X3 className="w-4 h-4" />
             </button>
           </div>
+          {onPrintLabels && (
+            <Button
+              variant="outline"
+              onClick={() =>
+                onPrintLabels(
+                  products.filter((product) => selectedIds.has(product.id))
+                )
+              }
+              disabled={selectedIds.size === 0}
+              icon={<Tag className="w-4 h-4" />}
+            >
+              Print Labels ({selectedIds.size})
+            </Button>
+          )}
           <Button
             onClick={onCreateProduct}
             className="bg-orange-600 hover:bg-orange-700"
@@ -392,6 +433,17 @@ export function ProductList({
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  {onPrintLabels && (
+                    <th className="pl-6 py-3 w-4">
+                      <input
+                        type="checkbox"
+                        checked={allVisibleSelected}
+                        onChange={toggleAllVisible}
+                        className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                        aria-label="Select all products"
+                      />
+                    </th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Product
                   </th>
@@ -426,6 +478,20 @@ export function ProductList({
                       className="hover:bg-gray-50 cursor-pointer"
                       onClick={() => onProductSelect(product)}
                     >
+                      {onPrintLabels && (
+                        <td
+                          className="pl-6 py-4 w-4"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(product.id)}
+                            onChange={() => toggleSelected(product.id)}
+                            className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                            aria-label={`Select ${product.name}`}
+                          />
+                        </td>
+                      )}
                       <td className="px-6 py-4">
                         <div className="flex flex-col">
                           <div className="text-sm font-medium text-gray-900 line-clamp-1">
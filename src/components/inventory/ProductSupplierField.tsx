@@ -0,0 +1,49 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { UseFormRegister, FieldErrors } from 'react-hook-form';
+import { Select } from '@/components/ui/Select';
+import type { ProductFormInput } from '@/lib/validation/product';
+import type { Supplier } from '@/types/purchasing';
+
+interface ProductSupplierFieldProps {
+  register: UseFormRegister<ProductFormInput>;
+  errors: FieldErrors<ProductFormInput>;
+}
+
+// Usual supplier picker shared by the product create and edit forms; reorders are drafted to it
+export function ProductSupplierField({ register, errors }: ProductSupplierFieldProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+
+  useEffect(() => {
+    const loadSuppliers = async () => {
+      try {
+        const response = await fetch('/api/suppliers?active=true');
+        if (response.ok) {
+          const result = await response.json();
+          setSuppliers(result.data || []);
+        }
+      } catch (error) {
+        console.error('Error loading suppliers:', error);
+      }
+    };
+
+    loadSuppliers();
+  }, []);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Supplier
+      </label>
+      <Select
+        {...register('supplierId')}
+        options={[
+          { value: '', label: 'No usual supplier' },
+          ...suppliers.map(supplier => ({ value: supplier.id, label: supplier.name })),
+        ]}
+        error={errors.supplierId?.message}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import React from 'react';
+import type { UseFormRegister, FieldErrors } from 'react-hook-form';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { GST_SLABS } from '@/types/tax';
+import type { ProductFormInput } from '@/lib/validation/product';
+
+interface ProductTaxFieldsProps {
+  register: UseFormRegister<ProductFormInput>;
+  errors: FieldErrors<ProductFormInput>;
+}
+
+// GST classification fields shared by the product create and edit forms
+export function ProductTaxFields({ register, errors }: ProductTaxFieldsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          HSN/SAC Code
+        </label>
+        <Input
+          {...register('hsnCode')}
+          placeholder="e.g. 4901"
+          inputMode="numeric"
+          error={errors.hsnCode?.message}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          GST Rate
+        </label>
+        <Select
+          {...register('taxRate', { valueAsNumber: true })}
+          options={GST_SLABS.map(rate => ({
+            value: String(rate),
+            label: rate === 0 ? 'Exempt (0%)' : `${rate}%`,
+          }))}
+          error={errors.taxRate?.message}
+        />
+      </div>
+
+      <div className="flex items-end pb-2">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            {...register('priceIncludesTax')}
+            className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+          />
+          <span>Price includes GST</span>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,490 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Modal } from '@/components/ui/Modal';
+import { useNotificationStore } from '@/stores/notificationStore';
+import type { PromotionType, PromotionScope } from '@/types/promotion';
+import type { PromotionWithTarget } from '@/services/database/promotions';
+
+interface PromotionManagerProps {
+  products: Array<{ id: string; name: string }>;
+  categories: Array<{ id: string; name: string }>;
+  isLoading?: boolean;
+}
+
+interface PromotionFormState {
+  name: string;
+  description: string;
+  type: PromotionType;
+  scope: PromotionScope;
+  productId: string;
+  categoryId: string;
+  value: string;
+  minQuantity: string;
+  getQuantity: string;
+  minCartTotal: string;
+  startsAt: string;
+  endsAt: string;
+  isActive: boolean;
+}
+
+const emptyForm: PromotionFormState = {
+  name: '',
+  description: '',
+  type: 'percentage',
+  scope: 'product',
+  productId: '',
+  categoryId: '',
+  value: '',
+  minQuantity: '',
+  getQuantity: '',
+  minCartTotal: '',
+  startsAt: '',
+  endsAt: '',
+  isActive: true,
+};
+
+const typeOptions = [
+  { value: 'percentage', label: 'Percentage off' },
+  { value: 'fixed', label: 'Fixed amount off' },
+  { value: 'buy_x_get_y', label: 'Buy X get Y free' },
+  { value: 'min_quantity_price', label: 'Bulk price above a quantity' },
+];
+
+const scopeOptions = [
+  { value: 'product', label: 'Single product' },
+  { value: 'category', label: 'Whole category' },
+  { value: 'cart', label: 'Entire cart' },
+];
+
+const toDateInput = (date?: Date | string | null) =>
+  date ? new Date(date).toISOString().slice(0, 10) : '';
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export function PromotionManager({ products, categories, isLoading = false }: PromotionManagerProps) {
+  const [promotions, setPromotions] = useState<PromotionWithTarget[]>([]);
+  const [isLoadingPromotions, setIsLoadingPromotions] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<PromotionWithTarget | null>(null);
+  const [form, setForm] = useState<PromotionFormState>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const loadPromotions = useCallback(async () => {
+    try {
+      setIsLoadingPromotions(true);
+      const response = await fetch('/api/promotions');
+      if (!response.ok) {
+        throw new Error('Failed to load promotions');
+      }
+      const result = await response.json();
+      setPromotions(result.data || []);
+    } catch (error) {
+      console.error('Error loading promotions:', error);
+    } finally {
+      setIsLoadingPromotions(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const updateForm = (changes: Partial<PromotionFormState>) => {
+    setForm(current => ({ ...current, ...changes }));
+  };
+
+  const handleOpenModal = (promotion?: PromotionWithTarget) => {
+    if (promotion) {
+      setEditingPromotion(promotion);
+      setForm({
+        name: promotion.name,
+        description: promotion.description || '',
+        type: promotion.type,
+        scope: promotion.scope,
+        productId: promotion.productId || '',
+        categoryId: promotion.categoryId || '',
+        value: String(promotion.value),
+        minQuantity: promotion.minQuantity ? String(promotion.minQuantity) : '',
+        getQuantity: promotion.getQuantity ? String(promotion.getQuantity) : '',
+        minCartTotal: promotion.minCartTotal ? String(promotion.minCartTotal) : '',
+        startsAt: toDateInput(promotion.startsAt),
+        endsAt: toDateInput(promotion.endsAt),
+        isActive: promotion.isActive,
+      });
+    } else {
+      setEditingPromotion(null);
+      setForm(emptyForm);
+    }
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingPromotion(null);
+    setForm(emptyForm);
+    setFormError(null);
+  };
+
+  const savePromotion = async (id: string | null, body: Record<string, unknown>) => {
+    const response = await fetch(id ? `/api/promotions/${id}` : '/api/promotions', {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details?.[0]?.message || result.error || 'Failed to save promotion');
+    }
+  };
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      await savePromotion(editingPromotion?.id || null, {
+        name: form.name,
+        description: form.description || null,
+        type: form.type,
+        scope: form.scope,
+        productId: form.scope === 'product' ? form.productId || null : null,
+        categoryId: form.scope === 'category' ? form.categoryId || null : null,
+        value: form.type === 'buy_x_get_y' ? 0 : Number(form.value || 0),
+        minQuantity: toNumber(form.minQuantity),
+        getQuantity: form.type === 'buy_x_get_y' ? toNumber(form.getQuantity) : null,
+        minCartTotal: form.scope === 'cart' ? toNumber(form.minCartTotal) : null,
+        // Festival windows cover the whole of the last day
+        startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`).toISOString() : null,
+        endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`).toISOString() : null,
+        isActive: form.isActive,
+      });
+
+      addNotification({
+        message: editingPromotion ? 'Promotion updated' : 'Promotion created',
+        type: 'success',
+      });
+      handleCloseModal();
+      await loadPromotions();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save promotion');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: PromotionWithTarget) => {
+    try {
+      await savePromotion(promotion.id, { isActive: !promotion.isActive });
+      await loadPromotions();
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to update promotion',
+        type: 'error',
+      });
+    }
+  };
+
+  const handleDeletePromotion = async (promotion: PromotionWithTarget) => {
+    if (!confirm(`Delete the promotion "${promotion.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/promotions/${promotion.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to delete promotion');
+      }
+      await loadPromotions();
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to delete promotion',
+        type: 'error',
+      });
+    }
+  };
+
+  const describeRule = (promotion: PromotionWithTarget) => {
+    switch (promotion.type) {
+      case 'percentage':
+        return `${promotion.value}% off${promotion.minQuantity ? ` on ${promotion.minQuantity}+ units` : ''}`;
+      case 'fixed':
+        return promotion.scope === 'cart'
+          ? `₹${promotion.value} off the cart`
+          : `₹${promotion.value} off each unit`;
+      case 'buy_x_get_y':
+        return `Buy ${promotion.minQuantity} get ${promotion.getQuantity} free`;
+      case 'min_quantity_price':
+        return `₹${promotion.value} each for ${promotion.minQuantity}+ units`;
+      default:
+        return '';
+    }
+  };
+
+  const describeTarget = (promotion: PromotionWithTarget) => {
+    if (promotion.scope === 'product') return promotion.productName || 'Unknown product';
+    if (promotion.scope === 'category') return promotion.categoryName || 'Unknown category';
+    return promotion.minCartTotal ? `Carts above ₹${promotion.minCartTotal}` : 'Any cart';
+  };
+
+  const describeWindow = (promotion: PromotionWithTarget) => {
+    if (!promotion.startsAt && !promotion.endsAt) return 'Always';
+    const start = promotion.startsAt ? new Date(promotion.startsAt).toLocaleDateString() : '…';
+    const end = promotion.endsAt ? new Date(promotion.endsAt).toLocaleDateString() : '…';
+    return `${start} – ${end}`;
+  };
+
+  const loading = isLoading || isLoadingPromotions;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Promotions</h2>
+          <p className="text-gray-600">Discounts applied automatically at the sales counter</p>
+        </div>
+        <Button
+          onClick={() => handleOpenModal()}
+          className="bg-orange-600 hover:bg-orange-700"
+        >
+          Add Promotion
+        </Button>
+      </div>
+
+      {/* Promotion List */}
+      <div className="space-y-2">
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-white p-4 rounded-lg border animate-pulse">
+                <div className="h-4 bg-gray-200 rounded mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded"></div>
+              </div>
+            ))}
+          </div>
+        ) : promotions.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 text-lg">No promotions found</p>
+            <p className="text-gray-400">Create a promotion to discount products at checkout</p>
+          </div>
+        ) : (
+          promotions.map((promotion) => (
+            <div
+              key={promotion.id}
+              className="flex items-center justify-between p-3 bg-white border rounded-lg"
+            >
+              <div>
+                <div className="flex items-center space-x-2">
+                  <h3 className="font-medium text-gray-900">{promotion.name}</h3>
+                  <span
+                    className={`inline-block px-2 py-1 text-xs rounded ${
+                      promotion.isActive
+                        ? 'bg-green-100 text-green-800'
+                        : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {promotion.isActive ? 'Active' : 'Paused'}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {describeRule(promotion)} • {describeTarget(promotion)}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">{describeWindow(promotion)}</p>
+              </div>
+
+              <div className="flex space-x-2">
+                <Button size="sm" variant="outline" onClick={() => handleToggleActive(promotion)}>
+                  {promotion.isActive ? 'Pause' : 'Activate'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleOpenModal(promotion)}>
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDeletePromotion(promotion)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Promotion Form Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        title={editingPromotion ? 'Edit Promotion' : 'Create Promotion'}
+      >
+        <form onSubmit={handleFormSubmit} className="space-y-4">
+          <Input
+            label="Promotion Name *"
+            value={form.name}
+            onChange={(e) => updateForm({ name: e.target.value })}
+            placeholder="e.g. Janmashtami week 10% off"
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Discount Type"
+              value={form.type}
+              onChange={(e) => {
+                const type = e.target.value as PromotionType;
+                // Cart-wide promotions only support plain discounts
+                updateForm({
+                  type,
+                  scope: form.scope === 'cart' && !['percentage', 'fixed'].includes(type) ? 'product' : form.scope,
+                });
+              }}
+              options={typeOptions}
+            />
+            <Select
+              label="Applies To"
+              value={form.scope}
+              onChange={(e) => updateForm({ scope: e.target.value as PromotionScope })}
+              options={scopeOptions.filter(
+                option => option.value !== 'cart' || ['percentage', 'fixed'].includes(form.type)
+              )}
+            />
+          </div>
+
+          {form.scope === 'product' && (
+            <Select
+              label="Product *"
+              value={form.productId}
+              onChange={(e) => updateForm({ productId: e.target.value })}
+              options={[
+                { value: '', label: 'Select a product' },
+                ...products.map(product => ({ value: product.id, label: product.name })),
+              ]}
+            />
+          )}
+
+          {form.scope === 'category' && (
+            <Select
+              label="Category *"
+              value={form.categoryId}
+              onChange={(e) => updateForm({ categoryId: e.target.value })}
+              options={[
+                { value: '', label: 'Select a category' },
+                ...categories.map(category => ({ value: category.id, label: category.name })),
+              ]}
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            {form.type !== 'buy_x_get_y' && (
+              <Input
+                label={
+                  form.type === 'percentage'
+                    ? 'Percentage Off *'
+                    : form.type === 'fixed'
+                    ? 'Amount Off (₹) *'
+                    : 'Bulk Unit Price (₹) *'
+                }
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.value}
+                onChange={(e) => updateForm({ value: e.target.value })}
+              />
+            )}
+            {form.scope !== 'cart' && (
+              <Input
+                label={form.type === 'buy_x_get_y' ? 'Buy Quantity *' : 'Minimum Quantity'}
+                type="number"
+                min="1"
+                step="1"
+                value={form.minQuantity}
+                onChange={(e) => updateForm({ minQuantity: e.target.value })}
+              />
+            )}
+            {form.type === 'buy_x_get_y' && (
+              <Input
+                label="Free Quantity *"
+                type="number"
+                min="1"
+                step="1"
+                value={form.getQuantity}
+                onChange={(e) => updateForm({ getQuantity: e.target.value })}
+              />
+            )}
+            {form.scope === 'cart' && (
+              <Input
+                label="Minimum Cart Total (₹)"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.minCartTotal}
+                onChange={(e) => updateForm({ minCartTotal: e.target.value })}
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Starts On"
+              type="date"
+              value={form.startsAt}
+              onChange={(e) => updateForm({ startsAt: e.target.value })}
+            />
+            <Input
+              label="Ends On"
+              type="date"
+              value={form.endsAt}
+              onChange={(e) => updateForm({ endsAt: e.target.value })}
+            />
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => updateForm({ isActive: e.target.checked })}
+              className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+            />
+            <span>Active</span>
+          </label>
+
+          {formError && (
+            <p className="text-sm text-red-600">{formError}</p>
+          )}
+
+          {/* Form Actions */}
+          <div className="flex justify-end space-x-3 pt-6 border-t">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCloseModal}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-orange-600 hover:bg-orange-700"
+            >
+              {isSubmitting ? 'Saving...' : editingPromotion ? 'Update Promotion' : 'Create Promotion'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
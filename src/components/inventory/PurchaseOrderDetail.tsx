@@ -0,0 +1,328 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { PackageCheck } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { PURCHASE_ORDER_STATUS_LABELS } from '@/types/purchasing';
+import type { PurchaseOrderStatus, PurchaseOrderWithItems } from '@/types/purchasing';
+import type { Location } from '@/types/stock';
+
+interface PurchaseOrderDetailProps {
+  orderId: string | null;
+  onClose: () => void;
+  onEdit: (order: PurchaseOrderWithItems) => void;
+  // Called after any status change; true when goods were put into stock
+  onChange: (stockChanged: boolean) => void;
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-amber-100 text-amber-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  return (
+    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[status]}`}>
+      {PURCHASE_ORDER_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+export function PurchaseOrderDetail({ orderId, onClose, onEdit, onChange }: PurchaseOrderDetailProps) {
+  const [order, setOrder] = useState<PurchaseOrderWithItems | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [received, setReceived] = useState<Record<string, string>>({});
+  const [supplierReference, setSupplierReference] = useState('');
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const loadOrder = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load purchase order');
+      }
+      setOrder(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load purchase order');
+    }
+  }, []);
+
+  useEffect(() => {
+    setOrder(null);
+    setError(null);
+    setIsReceiving(false);
+    setReceived({});
+    setSupplierReference('');
+    setLocationId('');
+    if (orderId) {
+      loadOrder(orderId);
+    }
+  }, [orderId, loadOrder]);
+
+  const runAction = async (action: 'place' | 'cancel') => {
+    if (!order) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/purchase-orders/${order.id}/${action}`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} purchase order`);
+      }
+
+      setOrder(result.data);
+      addNotification({
+        message: `${order.poNumber} ${action === 'place' ? 'marked as ordered' : 'cancelled'}`,
+        type: 'success',
+      });
+      onChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} purchase order`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const startReceiving = async () => {
+    if (!order) return;
+
+    try {
+      const response = await fetch('/api/locations?active=true');
+      if (response.ok) {
+        const result = await response.json();
+        setLocations(result.data || []);
+      }
+    } catch (err) {
+      console.error('Failed to load locations:', err);
+    }
+
+    // Default to everything still outstanding arriving in this delivery
+    setReceived(
+      Object.fromEntries(
+        order.items.map((item) => [item.id, String(item.quantityOrdered - item.quantityReceived)])
+      )
+    );
+    setIsReceiving(true);
+  };
+
+  const receiveGoods = async () => {
+    if (!order) return;
+
+    const items = order.items
+      .map((item) => ({ purchaseOrderItemId: item.id, quantity: parseInt(received[item.id]) || 0 }))
+      .filter((item) => item.quantity > 0);
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/purchase-orders/${order.id}/receive`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          supplierReference: supplierReference.trim() || null,
+          locationId: locationId || null,
+          items,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to receive goods');
+      }
+
+      setOrder(result.data);
+      setIsReceiving(false);
+      addNotification({
+        message: `Received ${items.reduce((sum, item) => sum + item.quantity, 0)} units into stock`,
+        type: 'success',
+      });
+      onChange(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to receive goods');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const canReceive = order?.status === 'ordered' || order?.status === 'partially_received';
+
+  return (
+    <Modal isOpen={!!orderId} onClose={onClose} title={order ? `Purchase Order ${order.poNumber}` : 'Purchase Order'} size="xl">
+      {!order ? (
+        <div className="py-8 text-center text-gray-500">{error || 'Loading...'}</div>
+      ) : (
+        <div className="space-y-5">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="text-sm text-gray-600 space-y-1">
+              <div>
+                <span className="font-medium text-gray-900">{order.supplierName}</span>
+                <span className="ml-3">
+                  <PurchaseOrderStatusBadge status={order.status} />
+                </span>
+              </div>
+              <div>
+                {order.orderedAt && `Ordered ${format(new Date(order.orderedAt), 'MMM dd, yyyy')}`}
+                {order.expectedAt && ` · Expected ${format(new Date(order.expectedAt), 'MMM dd, yyyy')}`}
+                {order.receivedAt && ` · Received ${format(new Date(order.receivedAt), 'MMM dd, yyyy')}`}
+              </div>
+              {order.notes && <div className="text-gray-500">{order.notes}</div>}
+            </div>
+            <div className="flex space-x-2">
+              {order.status === 'draft' && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => onEdit(order)} disabled={isWorking}>
+                    Edit
+                  </Button>
+                  <Button size="sm" onClick={() => runAction('place')} loading={isWorking}>
+                    Mark as Ordered
+                  </Button>
+                </>
+              )}
+              {canReceive && !isReceiving && (
+                <Button size="sm" onClick={startReceiving} icon={<PackageCheck className="w-4 h-4" />}>
+                  Receive Goods
+                </Button>
+              )}
+              {(order.status === 'draft' || order.status === 'ordered') && (
+                <Button variant="outline" size="sm" onClick={() => runAction('cancel')} disabled={isWorking}>
+                  Cancel Order
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ordered</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Cost</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Line Total</th>
+                  {isReceiving && (
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Arrived Now</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {order.items.map((item) => {
+                  const outstanding = item.quantityOrdered - item.quantityReceived;
+                  return (
+                    <tr key={item.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {item.productName}
+                        {item.variantName && <span className="text-gray-500"> - {item.variantName}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-900">{item.quantityOrdered}</td>
+                      <td className={`px-4 py-2 text-sm text-right ${outstanding > 0 ? 'text-amber-600' : 'text-green-600'}`}>
+                        {item.quantityReceived}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-900">{formatCurrency(item.unitCost)}</td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-900">
+                        {formatCurrency(item.unitCost * item.quantityOrdered)}
+                      </td>
+                      {isReceiving && (
+                        <td className="px-4 py-2 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            max={outstanding}
+                            value={received[item.id] ?? ''}
+                            onChange={(e) => setReceived((current) => ({ ...current, [item.id]: e.target.value }))}
+                            disabled={outstanding === 0}
+                            className="w-20 px-2 py-1 text-sm text-right border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                            aria-label={`Received quantity for ${item.productName}`}
+                          />
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="text-right text-sm font-medium text-gray-900">
+            Expected cost {formatCurrency(order.totalCost)}
+          </div>
+
+          {isReceiving && (
+            <div className="flex flex-wrap items-end justify-between gap-3 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+              <div className="w-64">
+                <Input
+                  label="Supplier invoice / challan no."
+                  value={supplierReference}
+                  onChange={(e) => setSupplierReference(e.target.value)}
+                />
+              </div>
+              {locations.length > 1 && (
+                <div className="w-56">
+                  <Select
+                    label="Receive into"
+                    value={locationId}
+                    onChange={(e) => setLocationId(e.target.value)}
+                    options={locations.map((location) => ({
+                      value: location.isDefault ? '' : location.id,
+                      label: location.name,
+                    }))}
+                  />
+                </div>
+              )}
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={() => setIsReceiving(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={receiveGoods} loading={isWorking}>
+                  Add to Stock
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {order.receipts.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Deliveries</h4>
+              <ul className="space-y-1 text-sm text-gray-600">
+                {order.receipts.map((receipt) => (
+                  <li key={receipt.id}>
+                    {format(new Date(receipt.receivedAt), 'MMM dd, yyyy HH:mm')} ·{' '}
+                    {receipt.items.reduce((sum, item) => sum + item.quantity, 0)} units
+                    {receipt.locationName && ` · into ${receipt.locationName}`}
+                    {receipt.supplierReference && ` · ${receipt.supplierReference}`}
+                    {receipt.receiverName && ` · by ${receipt.receiverName}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
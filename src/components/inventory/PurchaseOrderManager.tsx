@@ -0,0 +1,429 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trash2, Truck, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Modal } from '@/components/ui/Modal';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { SupplierManager } from './SupplierManager';
+import { PurchaseOrderDetail, PurchaseOrderStatusBadge } from './PurchaseOrderDetail';
+import { PURCHASE_ORDER_STATUS_LABELS } from '@/types/purchasing';
+import type { EnhancedProduct } from '@/services/database/products';
+import type { AutoDraftResult } from '@/services/database/purchaseOrders';
+import type {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  PurchaseOrderWithItems,
+  Supplier,
+} from '@/types/purchasing';
+
+interface PurchaseOrderManagerProps {
+  products: EnhancedProduct[];
+  onStockChange: () => void;
+}
+
+interface OrderLineState {
+  variantId: string;
+  quantityOrdered: string;
+  unitCost: string;
+}
+
+const emptyLine: OrderLineState = { variantId: '', quantityOrdered: '1', unitCost: '' };
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+export function PurchaseOrderManager({ products, onStockChange }: PurchaseOrderManagerProps) {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState<PurchaseOrderStatus | ''>('');
+  const [showSuppliers, setShowSuppliers] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrderWithItems | null>(null);
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedAt, setExpectedAt] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<OrderLineState[]>([emptyLine]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const variantOptions = useMemo(
+    () =>
+      products.flatMap((product) =>
+        product.variants.map((variant) => ({
+          value: variant.id,
+          label: `${product.name} - ${variant.name} (stock ${variant.stockQuantity ?? 0})`,
+        }))
+      ),
+    [products]
+  );
+
+  const loadOrders = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams();
+      if (status) params.append('status', status);
+
+      const response = await fetch(`/api/purchase-orders?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to load purchase orders');
+      }
+      const result = await response.json();
+      setOrders(result.data || []);
+    } catch (error) {
+      console.error('Error loading purchase orders:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  const loadSuppliers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/suppliers?active=true');
+      if (response.ok) {
+        const result = await response.json();
+        setSuppliers(result.data || []);
+      }
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, [loadSuppliers]);
+
+  const openForm = (order?: PurchaseOrderWithItems) => {
+    setEditingOrder(order || null);
+    setSupplierId(order?.supplierId || '');
+    setExpectedAt(order?.expectedAt ? new Date(order.expectedAt).toISOString().slice(0, 10) : '');
+    setNotes(order?.notes || '');
+    setLines(
+      order?.items.map((item) => ({
+        variantId: item.variantId,
+        quantityOrdered: String(item.quantityOrdered),
+        unitCost: String(item.unitCost),
+      })) || [emptyLine]
+    );
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const updateLine = (index: number, changes: Partial<OrderLineState>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const body = {
+        supplierId,
+        expectedAt: expectedAt || null,
+        notes: notes.trim() || null,
+        items: lines
+          .filter((line) => line.variantId)
+          .map((line) => ({
+            variantId: line.variantId,
+            quantityOrdered: parseInt(line.quantityOrdered) || 0,
+            unitCost: parseFloat(line.unitCost) || 0,
+          })),
+      };
+
+      const response = await fetch(
+        editingOrder ? `/api/purchase-orders/${editingOrder.id}` : '/api/purchase-orders',
+        {
+          method: editingOrder ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save purchase order');
+      }
+
+      addNotification({
+        message: `${result.data.poNumber} ${editingOrder ? 'updated' : 'saved as a draft'}`,
+        type: 'success',
+      });
+      setIsFormOpen(false);
+      await loadOrders();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save purchase order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const draftReorders = async () => {
+    setIsDrafting(true);
+    try {
+      const response = await fetch('/api/purchase-orders/auto-draft', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to draft purchase orders');
+      }
+
+      const { created, unassigned }: AutoDraftResult = result.data;
+      addNotification({
+        message: created.length > 0
+          ? `Drafted ${created.length} purchase order${created.length === 1 ? '' : 's'} for low stock`
+          : 'Nothing new to reorder',
+        type: created.length > 0 ? 'success' : 'info',
+      });
+      if (unassigned.length > 0) {
+        addNotification({
+          message: `${unassigned.length} low stock item${unassigned.length === 1 ? ' has' : 's have'} no supplier set: ${unassigned
+            .slice(0, 3)
+            .map((item) => item.productName)
+            .join(', ')}${unassigned.length > 3 ? '…' : ''}`,
+          type: 'warning',
+          duration: 8000,
+        });
+      }
+      await loadOrders();
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to draft purchase orders',
+        type: 'error',
+      });
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const formTotal = lines.reduce(
+    (sum, line) => sum + (parseInt(line.quantityOrdered) || 0) * (parseFloat(line.unitCost) || 0),
+    0
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Purchase Orders</h2>
+          <p className="text-gray-600">Order stock from suppliers and book in deliveries</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button variant="outline" onClick={() => setShowSuppliers(true)} icon={<Truck className="w-4 h-4" />}>
+            Suppliers
+          </Button>
+          <Button variant="outline" onClick={draftReorders} loading={isDrafting} icon={<Wand2 className="w-4 h-4" />}>
+            Draft Reorders
+          </Button>
+          <Button onClick={() => openForm()} icon={<Plus className="w-4 h-4" />}>
+            New Order
+          </Button>
+        </div>
+      </div>
+
+      <div className="w-56">
+        <Select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as PurchaseOrderStatus | '')}
+          options={[
+            { value: '', label: 'All orders' },
+            ...Object.entries(PURCHASE_ORDER_STATUS_LABELS).map(([value, label]) => ({ value, label })),
+          ]}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+          <span className="ml-2 text-gray-600">Loading purchase orders...</span>
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No purchase orders found</div>
+      ) : (
+        <div className="bg-white rounded-lg border overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">PO</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected Cost</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {orders.map((order) => (
+                <tr
+                  key={order.id}
+                  className="hover:bg-gray-50 cursor-pointer"
+                  onClick={() => setSelectedOrderId(order.id)}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{order.poNumber}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{order.supplierName || '—'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {order.createdAt ? format(new Date(order.createdAt), 'MMM dd, yyyy') : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{order.itemCount}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(order.totalCost)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <PurchaseOrderStatusBadge status={order.status} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal isOpen={showSuppliers} onClose={() => setShowSuppliers(false)} title="Suppliers" size="lg">
+        <SupplierManager onSuppliersChange={loadSuppliers} />
+      </Modal>
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        title={editingOrder ? `Edit ${editingOrder.poNumber}` : 'New Purchase Order'}
+        size="xl"
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="Supplier *"
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              options={[
+                { value: '', label: suppliers.length > 0 ? 'Select supplier' : 'Add a supplier first' },
+                ...suppliers.map((supplier) => ({ value: supplier.id, label: supplier.name })),
+              ]}
+            />
+            <Input
+              label="Expected delivery"
+              type="date"
+              value={expectedAt}
+              onChange={(e) => setExpectedAt(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase">
+              <div className="col-span-7">Item</div>
+              <div className="col-span-2">Quantity</div>
+              <div className="col-span-2">Unit cost (₹)</div>
+            </div>
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <div className="col-span-7">
+                  <Select
+                    value={line.variantId}
+                    onChange={(e) => updateLine(index, { variantId: e.target.value })}
+                    options={[{ value: '', label: 'Select item' }, ...variantOptions]}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    step="1"
+                    value={line.quantityOrdered}
+                    onChange={(e) => updateLine(index, { quantityOrdered: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div className="col-span-1 flex justify-center">
+                  <button
+                    type="button"
+                    onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-900 p-1 disabled:opacity-30"
+                    disabled={lines.length === 1}
+                    title="Remove line"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setLines((current) => [...current, emptyLine])}
+              icon={<Plus className="w-4 h-4" />}
+            >
+              Add Line
+            </Button>
+          </div>
+
+          <Input
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Delivery instructions, agreed terms..."
+          />
+
+          {formError && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              {formError}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">Expected cost {formatCurrency(formTotal)}</span>
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" loading={isSubmitting} disabled={!supplierId}>
+                {editingOrder ? 'Save Draft' : 'Create Draft'}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </Modal>
+
+      <PurchaseOrderDetail
+        orderId={selectedOrderId}
+        onClose={() => setSelectedOrderId(null)}
+        onEdit={(order) => {
+          setSelectedOrderId(null);
+          openForm(order);
+        }}
+        onChange={async (stockChanged) => {
+          await loadOrders();
+          if (stockChanged) {
+            onStockChange();
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -13,17 +13,13 @@ interface StockManagerProps {
   isLoading?: boolean;
 }
 
-interface StockUpdate {
-  productId: string;
-  variantId: string;
-  newStock: number;
-}
-
 export function StockManager({ products, onStockUpdate, isLoading = false }: StockManagerProps) {
   const [stockUpdates, setStockUpdates] = useState<Record<string, number>>({});
   const [isUpdating, setIsUpdating] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [stockFilter, setStockFilter] = useState<'all' | 'low' | 'out'>('all');
+  const [adjustmentType, setAdjustmentType] = useState<'adjustment' | 'write_off'>('adjustment');
+  const [reason, setReason] = useState('');
 
   // Filter products based on search and stock status
   const filteredProducts = products.filter(product => {
@@ -47,42 +43,53 @@ export function StockManager({ products, onStockUpdate, isLoading = false }: Sto
     return true;
   });
 
-  const handleStockChange = (productId: string, variantId: string, value: string) => {
-    const key = `${productId}-${variantId}`;
+  const handleStockChange = (variantId: string, value: string) => {
     const numValue = parseInt(value) || 0;
     
     setStockUpdates(prev => ({
       ...prev,
-      [key]: numValue
+      [variantId]: numValue
+    }));
+  };
+
+  // Every save lands in the stock ledger with the chosen type and reason
+  const saveStockLevels = async (levels: Record<string, number>) => {
+    const updates = Object.entries(levels).map(([variantId, stock]) => ({
+      variantId,
+      quantity: stock,
+      operation: 'set' as const,
+      type: adjustmentType,
+      reason: reason.trim() || undefined,
     }));
+
+    const response = await fetch('/api/products/stock', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ updates }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update stock');
+    }
   };
 
-  const handleUpdateStock = async (productId: string, variantId: string) => {
-    const key = `${productId}-${variantId}`;
-    const newStock = stockUpdates[key];
+  const handleUpdateStock = async (variantId: string) => {
+    const newStock = stockUpdates[variantId];
     
     if (newStock === undefined) return;
 
     try {
       setIsUpdating(true);
       
-      const response = await fetch(`/api/products/${productId}/variants/${variantId}/stock`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ stockQuantity: newStock }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to update stock');
-      }
+      await saveStockLevels({ [variantId]: newStock });
 
       // Remove from pending updates
       setStockUpdates(prev => {
         const updated = { ...prev };
-        delete updated[key];
+        delete updated[variantId];
         return updated;
       });
 
@@ -102,23 +109,7 @@ export function StockManager({ products, onStockUpdate, isLoading = false }: Sto
     try {
       setIsUpdating(true);
       
-      const updates = Object.entries(stockUpdates).map(([key, stock]) => {
-        const [productId, variantId] = key.split('-');
-        return { productId, variantId, stockQuantity: stock };
-      });
-
-      const response = await fetch('/api/products/stock/bulk-update', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ updates }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to update stock');
-      }
+      await saveStockLevels(stockUpdates);
 
       // Clear all pending updates
       setStockUpdates({});
@@ -195,6 +186,31 @@ export function StockManager({ products, onStockUpdate, isLoading = false }: Sto
               <option value="out">Out of Stock</option>
             </select>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Change Type
+            </label>
+            <select
+              value={adjustmentType}
+              onChange={(e) => setAdjustmentType(e.target.value as 'adjustment' | 'write_off')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            >
+              <option value="adjustment">Adjustment (recount, correction)</option>
+              <option value="write_off">Write-off (damaged, lost)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <Input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Recorded in the stock history"
+              maxLength={200}
+            />
+          </div>
         </div>
       </div>
 
@@ -231,9 +247,8 @@ export function StockManager({ products, onStockUpdate, isLoading = false }: Sto
                 ) : (
                   <div className="space-y-3">
                     {product.variants.map(variant => {
-                      const key = `${product.id}-${variant.id}`;
                       const currentStock = variant.stockQuantity || 0;
-                      const pendingStock = stockUpdates[key];
+                      const pendingStock = stockUpdates[variant.id];
                       const status = getStockStatus(currentStock);
                       
                       return (
@@ -261,13 +276,13 @@ export function StockManager({ products, onStockUpdate, isLoading = false }: Sto
                                 type="number"
                                 min="0"
                                 value={pendingStock !== undefined ? pendingStock : currentStock}
-                                onChange={(e) => handleStockChange(product.id, variant.id, e.target.value)}
+                                onChange={(e) => handleStockChange(variant.id, e.target.value)}
                                 className="w-20 text-center"
                               />
                               {pendingStock !== undefined && pendingStock !== currentStock && (
                                 <Button
                                   size="sm"
-                                  onClick={() => handleUpdateStock(product.id, variant.id)}
+                                  onClick={() => handleUpdateStock(variant.id)}
                                   disabled={isUpdating}
                                   className="bg-orange-600 hover:bg-orange-700"
                                 >
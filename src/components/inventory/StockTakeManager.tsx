@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ClipboardCheck } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Modal } from '@/components/ui/Modal';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { StockTakeSession, StockTakeStatusBadge } from './StockTakeSession';
+import type { Location, StockTake } from '@/types/stock';
+
+interface StockTakeManagerProps {
+  categories: Array<{ id: string; name: string }>;
+  onStockChange: () => void;
+}
+
+export function StockTakeManager({ categories, onStockChange }: StockTakeManagerProps) {
+  const [sessions, setSessions] = useState<StockTake[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/stock-takes');
+      if (!response.ok) {
+        throw new Error('Failed to load stock takes');
+      }
+      const result = await response.json();
+      setSessions(result.data || []);
+    } catch (error) {
+      console.error('Error loading stock takes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const openForm = async () => {
+    setName(`${format(new Date(), 'MMMM yyyy')} count`);
+    setCategoryId('');
+    setLocationId('');
+    setFormError(null);
+    setIsFormOpen(true);
+
+    try {
+      const response = await fetch('/api/locations?active=true');
+      if (response.ok) {
+        const result = await response.json();
+        setLocations(result.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to load locations:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch('/api/stock-takes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, categoryId: categoryId || null, locationId: locationId || null }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to start stock take');
+      }
+
+      addNotification({
+        message: `${result.data.reference} started with ${result.data.itemCount} items to count`,
+        type: 'success',
+      });
+      setIsFormOpen(false);
+      setSelectedId(result.data.id);
+      await loadSessions();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to start stock take');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSessionChange = (stockChanged: boolean) => {
+    loadSessions();
+    if (stockChanged) {
+      onStockChange();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Stock Takes</h2>
+          <p className="text-gray-600">Count the shelves against a frozen snapshot and post the differences in one batch</p>
+        </div>
+        <Button onClick={openForm} icon={<ClipboardCheck className="w-4 h-4" />}>
+          Start Stock Take
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+          <span className="ml-2 text-gray-600">Loading stock takes...</span>
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No stock takes yet</div>
+      ) : (
+        <div className="bg-white rounded-lg border overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scope</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Opened</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sessions.map((session) => (
+                <tr
+                  key={session.id}
+                  className="hover:bg-gray-50 cursor-pointer"
+                  onClick={() => setSelectedId(session.id)}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{session.reference}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{session.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {session.categoryName || 'All categories'}
+                    {session.locationName && ` · ${session.locationName}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {session.createdAt ? format(new Date(session.createdAt), 'MMM dd, yyyy') : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {session.countedCount} / {session.itemCount}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <StockTakeStatusBadge status={session.status} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} title="Start Stock Take" size="md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label="Name *"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+          />
+          <Select
+            label="Category"
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            options={[
+              { value: '', label: 'Whole shop' },
+              ...categories.map((category) => ({ value: category.id, label: category.name })),
+            ]}
+          />
+          {locations.length > 1 && (
+            <Select
+              label="Location"
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              options={locations.map((location) => ({
+                value: location.isDefault ? '' : location.id,
+                label: location.name,
+              }))}
+            />
+          )}
+          <p className="text-sm text-gray-500">
+            Each item is compared with the stock on record when it is counted, so sales made while counting are kept when the differences are posted.
+          </p>
+
+          {formError && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              {formError}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={isSubmitting} disabled={!name.trim()}>
+              Start Counting
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <StockTakeSession
+        stockTakeId={selectedId}
+        onClose={() => setSelectedId(null)}
+        onChange={handleSessionChange}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ScanLine } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { useNotificationStore } from '@/stores/notificationStore';
+import type { StockTakeItem, StockTakeStatus, StockTakeWithItems } from '@/types/stock';
+
+interface StockTakeSessionProps {
+  stockTakeId: string | null;
+  onClose: () => void;
+  // Called after the session changes status; true when adjustments were posted to stock
+  onChange: (stockChanged: boolean) => void;
+}
+
+const STATUS_STYLES: Record<StockTakeStatus, { label: string; className: string }> = {
+  counting: { label: 'Counting', className: 'bg-blue-100 text-blue-800' },
+  posted: { label: 'Posted', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-800' },
+};
+
+export function StockTakeStatusBadge({ status }: { status: StockTakeStatus }) {
+  return (
+    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[status].className}`}>
+      {STATUS_STYLES[status].label}
+    </span>
+  );
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+const varianceClass = (variance: number | null) =>
+  variance === null || variance === 0 ? 'text-gray-500' : variance < 0 ? 'text-red-600' : 'text-green-600';
+
+export function StockTakeSession({ stockTakeId, onClose, onChange }: StockTakeSessionProps) {
+  const [stockTake, setStockTake] = useState<StockTakeWithItems | null>(null);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [scanCode, setScanCode] = useState('');
+  const [showVariancesOnly, setShowVariancesOnly] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const loadStockTake = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/stock-takes/${id}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load stock take');
+      }
+      setStockTake(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stock take');
+    }
+  }, []);
+
+  useEffect(() => {
+    setStockTake(null);
+    setCounts({});
+    setScanCode('');
+    setError(null);
+    if (stockTakeId) {
+      loadStockTake(stockTakeId);
+    }
+  }, [stockTakeId, loadStockTake]);
+
+  const applyUpdatedItem = (updated: StockTakeItem) => {
+    setStockTake((current) => {
+      if (!current) return current;
+
+      const items = current.items.map((item) => (item.id === updated.id ? updated : item));
+      return {
+        ...current,
+        items,
+        countedCount: items.filter((item) => item.countedQuantity !== null).length,
+        varianceValue: Math.round(items.reduce((sum, item) => sum + item.varianceValue, 0) * 100) / 100,
+      };
+    });
+  };
+
+  const submitCount = async (body: { variantId?: string; barcode?: string; quantity: number; mode: 'set' | 'add' }) => {
+    if (!stockTake) return null;
+
+    const response = await fetch(`/api/stock-takes/${stockTake.id}/counts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details?.[0]?.message || result.error || 'Failed to record count');
+    }
+
+    applyUpdatedItem(result.data);
+    return result.data as StockTakeItem;
+  };
+
+  // Each scan adds one unit to the running count for that item
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = scanCode.trim();
+    if (!code) return;
+
+    setScanCode('');
+    try {
+      const item = await submitCount({ barcode: code, quantity: 1, mode: 'add' });
+      if (item) {
+        setCounts((current) => {
+          const updated = { ...current };
+          delete updated[item.id];
+          return updated;
+        });
+      }
+    } catch (err) {
+      addNotification({
+        message: err instanceof Error ? err.message : 'Failed to record scan',
+        type: 'error',
+      });
+    } finally {
+      scanInputRef.current?.focus();
+    }
+  };
+
+  const saveCount = async (item: StockTakeItem) => {
+    const value = counts[item.id];
+    if (value === undefined || value === '') return;
+
+    try {
+      await submitCount({ variantId: item.variantId, quantity: parseInt(value) || 0, mode: 'set' });
+      setCounts((current) => {
+        const updated = { ...current };
+        delete updated[item.id];
+        return updated;
+      });
+    } catch (err) {
+      addNotification({
+        message: err instanceof Error ? err.message : 'Failed to record count',
+        type: 'error',
+      });
+    }
+  };
+
+  const runAction = async (action: 'post' | 'cancel') => {
+    if (!stockTake) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/stock-takes/${stockTake.id}/${action}`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} stock take`);
+      }
+
+      setStockTake(result.data);
+      addNotification({
+        message: `${stockTake.reference} ${action === 'post' ? 'posted to stock' : 'cancelled'}`,
+        type: 'success',
+      });
+      onChange(action === 'post');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} stock take`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const isCounting = stockTake?.status === 'counting';
+  const visibleItems = (stockTake?.items || []).filter(
+    (item) => !showVariancesOnly || (item.variance !== null && item.variance !== 0)
+  );
+  const varianceLines = (stockTake?.items || []).filter((item) => item.variance !== null && item.variance !== 0);
+
+  return (
+    <Modal
+      isOpen={!!stockTakeId}
+      onClose={onClose}
+      title={stockTake ? `${stockTake.reference} · ${stockTake.name}` : 'Stock Take'}
+      size="xl"
+    >
+      {!stockTake ? (
+        <div className="py-8 text-center text-gray-500">{error || 'Loading...'}</div>
+      ) : (
+        <div className="space-y-5">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="text-sm text-gray-600 space-y-1">
+              <div className="flex items-center gap-3">
+                <StockTakeStatusBadge status={stockTake.status} />
+                <span>{stockTake.categoryName || 'All categories'}</span>
+                {stockTake.locationName && <span>{stockTake.locationName}</span>}
+              </div>
+              <div>
+                Counted {stockTake.countedCount} of {stockTake.itemCount} items
+                {stockTake.createdAt && ` · Opened ${format(new Date(stockTake.createdAt), 'MMM dd, yyyy HH:mm')}`}
+                {stockTake.postedAt && ` · Posted ${format(new Date(stockTake.postedAt), 'MMM dd, yyyy HH:mm')}`}
+                {stockTake.approverName && ` by ${stockTake.approverName}`}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-xs text-gray-500 uppercase">Variance value</div>
+              <div className={`text-lg font-semibold ${varianceClass(stockTake.varianceValue)}`}>
+                {formatCurrency(stockTake.varianceValue)}
+              </div>
+            </div>
+          </div>
+
+          {isCounting && (
+            <form onSubmit={handleScan} className="flex items-center gap-2">
+              <ScanLine className="w-5 h-5 text-gray-400" />
+              <input
+                ref={scanInputRef}
+                type="text"
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+                placeholder="Scan a barcode to add one to its count"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                autoFocus
+                aria-label="Scan barcode"
+              />
+            </form>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showVariancesOnly}
+              onChange={(e) => setShowVariancesOnly(e.target.checked)}
+              className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+            />
+            Show variances only
+          </label>
+
+          <div className="border border-gray-200 rounded-lg overflow-x-auto max-h-96">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted By</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleItems.map((item) => (
+                  <tr key={item.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {item.productName}
+                      {item.variantName && <span className="text-gray-500"> - {item.variantName}</span>}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{item.balanceAtCount ?? item.expectedQuantity}</td>
+                    <td className="px-4 py-2 text-right">
+                      {isCounting ? (
+                        <input
+                          type="number"
+                          min={0}
+                          value={counts[item.id] ?? (item.countedQuantity ?? '')}
+                          onChange={(e) => setCounts((current) => ({ ...current, [item.id]: e.target.value }))}
+                          onBlur={() => saveCount(item)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              saveCount(item);
+                            }
+                          }}
+                          className="w-20 px-2 py-1 text-sm text-right border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                          aria-label={`Counted quantity for ${item.productName}`}
+                        />
+                      ) : (
+                        <span className="text-sm text-gray-900">{item.countedQuantity ?? '—'}</span>
+                      )}
+                    </td>
+                    <td className={`px-4 py-2 text-sm text-right font-medium ${varianceClass(item.variance)}`}>
+                      {item.variance === null ? '—' : item.variance > 0 ? `+${item.variance}` : item.variance}
+                    </td>
+                    <td className={`px-4 py-2 text-sm text-right ${varianceClass(item.variance)}`}>
+                      {item.variance ? formatCurrency(item.varianceValue) : ''}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{item.counterName || ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {error && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {isCounting && (
+            <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t">
+              <p className="text-sm text-gray-600">
+                Posting adjusts {varianceLines.length} item{varianceLines.length === 1 ? '' : 's'}; uncounted items are left as they are.
+              </p>
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={() => runAction('cancel')} disabled={isWorking}>
+                  Cancel Count
+                </Button>
+                <Button onClick={() => runAction('post')} loading={isWorking} disabled={stockTake.countedCount === 0}>
+                  Approve &amp; Post
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Edit, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useNotificationStore } from '@/stores/notificationStore';
+import type { Supplier } from '@/types/purchasing';
+
+interface SupplierManagerProps {
+  onSuppliersChange?: () => void;
+}
+
+interface SupplierFormState {
+  name: string;
+  contactName: string;
+  phone: string;
+  email: string;
+  gstin: string;
+  address: string;
+}
+
+const emptyForm: SupplierFormState = {
+  name: '',
+  contactName: '',
+  phone: '',
+  email: '',
+  gstin: '',
+  address: '',
+};
+
+export function SupplierManager({ onSuppliersChange }: SupplierManagerProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SupplierFormState>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const loadSuppliers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/suppliers');
+      if (!response.ok) {
+        throw new Error('Failed to load suppliers');
+      }
+      const result = await response.json();
+      setSuppliers(result.data || []);
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, [loadSuppliers]);
+
+  const updateForm = (changes: Partial<SupplierFormState>) => {
+    setForm(current => ({ ...current, ...changes }));
+  };
+
+  const startEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id);
+    setForm({
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      gstin: supplier.gstin || '',
+      address: supplier.address || '',
+    });
+    setFormError(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch(editingId ? `/api/suppliers/${editingId}` : '/api/suppliers', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...form, isActive: true }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save supplier');
+      }
+
+      addNotification({ message: `Supplier ${form.name} saved`, type: 'success' });
+      resetForm();
+      await loadSuppliers();
+      onSuppliersChange?.();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save supplier');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleActive = async (supplier: Supplier) => {
+    try {
+      const response = supplier.isActive
+        ? await fetch(`/api/suppliers/${supplier.id}`, { method: 'DELETE' })
+        : await fetch(`/api/suppliers/${supplier.id}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ isActive: true }),
+        });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to update supplier');
+      }
+
+      await loadSuppliers();
+      onSuppliersChange?.();
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to update supplier',
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Supplier name *"
+            value={form.name}
+            onChange={(e) => updateForm({ name: e.target.value })}
+            placeholder="e.g. Bhaktivedanta Book Trust"
+            required
+          />
+          <Input
+            label="Contact person"
+            value={form.contactName}
+            onChange={(e) => updateForm({ contactName: e.target.value })}
+          />
+          <Input
+            label="Phone"
+            value={form.phone}
+            onChange={(e) => updateForm({ phone: e.target.value })}
+            inputMode="tel"
+          />
+          <Input
+            label="Email"
+            type="email"
+            value={form.email}
+            onChange={(e) => updateForm({ email: e.target.value })}
+          />
+          <Input
+            label="GSTIN"
+            value={form.gstin}
+            onChange={(e) => updateForm({ gstin: e.target.value })}
+            placeholder="15 characters"
+            maxLength={15}
+          />
+          <Input
+            label="Address"
+            value={form.address}
+            onChange={(e) => updateForm({ address: e.target.value })}
+          />
+        </div>
+
+        {formError && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+            {formError}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          {editingId && (
+            <Button type="button" variant="outline" onClick={resetForm}>
+              Cancel Edit
+            </Button>
+          )}
+          <Button type="submit" loading={isSubmitting} disabled={!form.name.trim()}>
+            {editingId ? 'Update Supplier' : 'Add Supplier'}
+          </Button>
+        </div>
+      </form>
+
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading suppliers...</div>
+      ) : suppliers.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">No suppliers yet</div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-80 overflow-y-auto">
+          {suppliers.map((supplier) => (
+            <div key={supplier.id} className="flex items-center justify-between px-4 py-3">
+              <div>
+                <div className={`text-sm font-medium ${supplier.isActive ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                  {supplier.name}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {[supplier.contactName, supplier.phone, supplier.gstin].filter(Boolean).join(' · ') || 'No contact details'}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => startEdit(supplier)}
+                  className="text-orange-600 hover:text-orange-900 p-1"
+                  title="Edit supplier"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+                {supplier.isActive ? (
+                  <button
+                    onClick={() => toggleActive(supplier)}
+                    className="text-red-600 hover:text-red-900 p-1"
+                    title="Deactivate supplier"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => toggleActive(supplier)}>
+                    Reactivate
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
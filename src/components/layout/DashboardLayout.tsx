@@ -3,22 +3,25 @@
 import React from 'react';
 import { Navigation } from './Navigation';
 import { cn } from '@/lib/utils';
+import type { Permission } from '@/types/auth';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
   userRole?: string;
+  permissions?: Permission[];
   className?: string;
 }
 
 export const DashboardLayout: React.FC<DashboardLayoutProps> = ({
   children,
   userRole = 'cashier',
+  permissions,
   className,
 }) => {
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Navigation */}
-      <Navigation userRole={userRole} />
+      <Navigation userRole={userRole} permissions={permissions} />
 
       {/* Main Content */}
       <div className={cn(
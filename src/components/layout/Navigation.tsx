@@ -5,17 +5,19 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { PrinterStatusIndicator } from "@/components/common/PrinterStatusIndicator";
+import { rolePermissions, type Permission } from "@/types/auth";
 
 interface NavigationItem {
   name: string;
   href: string;
   icon: React.ComponentType<{ className?: string }>;
-  roles?: string[];
+  permissions?: Permission[]; // Shown to users holding any of these
   badge?: string | number;
 }
 
 interface NavigationProps {
   userRole?: string;
+  permissions?: Permission[]; // Defaults to what a built-in role grants
   className?: string;
 }
 
@@ -105,6 +107,23 @@ const UsersIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+const CustomersIcon = ({ className }: { className?: string }) => (
+  <svg
+    className={className}
+    fill="none"
+    stroke="currentColor"
+    viewBox="0 0 24 24"
+    aria-hidden="true"
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M10 6H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V8a2 2 0 00-2-2h-5m-4 0V5a2 2 0 114 0v1m-4 0a2 2 0 104 0m-5 8a2 2 0 100-4 2 2 0 000 4zm0 0c1.306 0 2.417.835 2.83 2M9 14a3.001 3.001 0 00-2.83 2M15 11h3m-3 4h2"
+    />
+  </svg>
+);
+
 const SettingsIcon = ({ className }: { className?: string }) => (
   <svg
     className={className}
@@ -167,50 +186,56 @@ const navigationItems: NavigationItem[] = [
     name: "Sales",
     href: "/sales",
     icon: SalesIcon,
-    roles: ["admin", "manager", "cashier"],
+    permissions: ["sales.create"],
   },
   {
     name: "Catalog",
     href: "/catalog",
     icon: CatalogIcon,
-    roles: ["admin", "manager", "cashier"],
+  },
+  {
+    name: "Customers",
+    href: "/customers",
+    icon: CustomersIcon,
   },
   {
     name: "Inventory",
     href: "/inventory",
     icon: InventoryIcon,
-    roles: ["admin", "manager"],
+    permissions: ["inventory.manage", "inventory.adjust", "purchasing.manage", "promotions.manage"],
   },
   {
     name: "Reports",
     href: "/reports",
     icon: ReportsIcon,
-    roles: ["admin", "manager"],
+    permissions: ["reports.view", "reports.export", "payments.reconcile"],
   },
   {
     name: "Users",
     href: "/users",
     icon: UsersIcon,
-    roles: ["admin"],
+    permissions: ["users.manage"],
   },
   {
     name: "Settings",
     href: "/settings",
     icon: SettingsIcon,
-    roles: ["admin", "manager"],
+    permissions: ["settings.manage"],
   },
 ];
 
 export const Navigation: React.FC<NavigationProps> = ({
   userRole = "cashier",
+  permissions,
   className,
 }) => {
   const pathname = usePathname();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
-  // Filter navigation items based on user role
+  // Filter navigation items based on what the user's role allows
+  const granted = permissions ?? rolePermissions(userRole);
   const filteredItems = navigationItems.filter(
-    (item) => !item.roles || item.roles.includes(userRole)
+    (item) => !item.permissions || item.permissions.some((permission) => granted.includes(permission))
   );
 
   // Close mobile menu when route changes
@@ -11,6 +11,8 @@ interface DailySalesData {
   totalTransactions: number;
   totalTax: number;
   totalDiscount: number;
+  totalRefunds: number;
+  totalReturns: number;
   paymentMethodBreakdown: {
     cash: { count: number; amount: number };
     upi: { count: number; amount: number };
@@ -170,6 +172,11 @@ export function DailySalesReport({ selectedDate }: DailySalesReportProps) {
         <div className="bg-gradient-to-r from-green-500 to-green-600 rounded-lg p-6 text-white">
           <div className="text-sm font-medium opacity-90">Total Sales</div>
           <div className="text-2xl font-bold">{formatCurrency(data.totalSales)}</div>
+          {data.totalRefunds > 0 && (
+            <div className="text-xs opacity-90 mt-1">
+              Net of {formatCurrency(data.totalRefunds)} refunded ({data.totalReturns} return{data.totalReturns !== 1 ? 's' : ''})
+            </div>
+          )}
         </div>
         <div className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg p-6 text-white">
           <div className="text-sm font-medium opacity-90">Transactions</div>
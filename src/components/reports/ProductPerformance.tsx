@@ -11,10 +11,18 @@ interface ProductPerformanceItem {
   categoryName?: string;
   totalQuantity: number;
   totalRevenue: number;
+  totalDiscount?: number;
+  fullPriceRevenue?: number;
+  discountedRevenue?: number;
   transactionCount: number;
   averageOrderValue: number;
   lastSoldAt?: string;
   currentStock: number;
+  netSales?: number;
+  costOfGoods?: number;
+  grossMargin?: number;
+  marginPercent?: number;
+  stockValue?: number;
 }
 
 interface ProductPerformanceProps {
@@ -130,6 +138,9 @@ export function ProductPerformance({ reportType = 'performance' }: ProductPerfor
     }
   };
 
+  const totalNetSales = data.reduce((sum, item) => sum + (item.netSales ?? 0), 0);
+  const totalGrossMargin = data.reduce((sum, item) => sum + (item.grossMargin ?? 0), 0);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -228,7 +239,7 @@ export function ProductPerformance({ reportType = 'performance' }: ProductPerfor
 
       {/* Summary Cards */}
       {data.length > 0 && (
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className={`grid grid-cols-1 gap-4 ${reportType === 'performance' ? 'md:grid-cols-5' : 'md:grid-cols-4'}`}>
           <div className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg p-6 text-white">
             <div className="text-sm font-medium opacity-90">Total Products</div>
             <div className="text-2xl font-bold">{data.length}</div>
@@ -253,6 +264,15 @@ export function ProductPerformance({ reportType = 'performance' }: ProductPerfor
               )}
             </div>
           </div>
+          {reportType === 'performance' && (
+            <div className="bg-gradient-to-r from-teal-500 to-teal-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">Gross Margin</div>
+              <div className="text-2xl font-bold">{formatCurrency(totalGrossMargin)}</div>
+              <div className="text-sm opacity-90">
+                {totalNetSales > 0 ? ((totalGrossMargin / totalNetSales) * 100).toFixed(1) : '0.0'}% of net sales
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -275,6 +295,19 @@ export function ProductPerformance({ reportType = 'performance' }: ProductPerfor
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Revenue
                   </th>
+                  {reportType === 'performance' && (
+                    <>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Full Price
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        On Promotion
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Gross Margin
+                      </th>
+                    </>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Transactions
                   </th>
@@ -319,6 +352,31 @@ export function ProductPerformance({ reportType = 'performance' }: ProductPerfor
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-medium">
                       {formatCurrency(product.totalRevenue)}
                     </td>
+                    {reportType === 'performance' && (
+                      <>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatCurrency(product.fullPriceRevenue ?? product.totalRevenue)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatCurrency(product.discountedRevenue ?? 0)}
+                          {(product.totalDiscount ?? 0) > 0 && (
+                            <div className="text-xs text-green-700">
+                              -{formatCurrency(product.totalDiscount ?? 0)} discount
+                            </div>
+                          )}
+                        </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                          (product.grossMargin ?? 0) < 0 ? 'text-red-600' : 'text-gray-900'
+                        }`}>
+                          {formatCurrency(product.grossMargin ?? 0)}
+                          {(product.netSales ?? 0) > 0 && (
+                            <div className="text-xs font-normal text-gray-500">
+                              {(product.marginPercent ?? 0).toFixed(1)}% on {formatCurrency(product.netSales ?? 0)}
+                            </div>
+                          )}
+                        </td>
+                      </>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {product.transactionCount}
                     </td>
@@ -337,6 +395,11 @@ export function ProductPerformance({ reportType = 'performance' }: ProductPerfor
                           }`}>
                             {product.currentStock}
                           </span>
+                          {(product.stockValue ?? 0) > 0 && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              {formatCurrency(product.stockValue ?? 0)} at cost
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {formatDate(product.lastSoldAt)}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { receiptService } from '@/services/printer/receiptService';
+import type { Shift, ShiftStatus } from '@/types/shift';
+
+const STATUS_LABELS: Record<ShiftStatus, string> = {
+  open: 'Open',
+  pending_approval: 'Needs sign-off',
+  closed: 'Closed',
+};
+
+const STATUS_STYLES: Record<ShiftStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  pending_approval: 'bg-amber-100 text-amber-800',
+  closed: 'bg-green-100 text-green-800',
+};
+
+export function ShiftReports() {
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<ShiftStatus | ''>('');
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const fetchShifts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (status) params.append('status', status);
+
+      const response = await fetch(`/api/shifts?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch shifts');
+      }
+
+      setShifts(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchShifts();
+  }, [fetchShifts]);
+
+  const formatCurrency = (amount?: number | null) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(amount || 0);
+  };
+
+  const approveShift = async (shift: Shift) => {
+    try {
+      setWorkingId(shift.id);
+      const response = await fetch(`/api/shifts/${shift.id}/approve`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to sign off shift');
+      }
+
+      await fetchShifts();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to sign off shift');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const printReport = async (shift: Shift) => {
+    try {
+      setWorkingId(shift.id);
+      const type = shift.status === 'open' ? 'X' : 'Z';
+      const response = await fetch(`/api/shifts/${shift.id}/report?type=${type}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load shift report');
+      }
+
+      const printResult = await receiptService.printShiftReport(result.data);
+      if (!printResult.success) {
+        throw new Error(printResult.error || 'Failed to print shift report');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to print shift report');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900">Cashier Shifts</h2>
+        <div className="w-48">
+          <Select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ShiftStatus | '')}
+            options={[
+              { value: '', label: 'All shifts' },
+              { value: 'pending_approval', label: 'Needs sign-off' },
+              { value: 'open', label: 'Open' },
+              { value: 'closed', label: 'Closed' },
+            ]}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+          <span className="ml-2 text-gray-600">Loading shifts...</span>
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <div className="text-red-600 mb-4">Error: {error}</div>
+          <Button onClick={fetchShifts} variant="outline">
+            Retry
+          </Button>
+        </div>
+      ) : shifts.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No shifts found</div>
+      ) : (
+        <div className="bg-white rounded-lg border overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cashier</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Opened</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Float</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {shifts.map((shift) => (
+                <tr key={shift.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {shift.userName || shift.userId}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {format(new Date(shift.openedAt), 'MMM dd, HH:mm')}
+                    {shift.closedAt && ` – ${format(new Date(shift.closedAt), 'HH:mm')}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(shift.openingFloat)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {shift.expectedCash != null ? formatCurrency(shift.expectedCash) : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {shift.countedCash != null ? formatCurrency(shift.countedCash) : '—'}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                    !shift.variance ? 'text-gray-900' : shift.variance < 0 ? 'text-red-600' : 'text-amber-600'
+                  }`}>
+                    {shift.variance != null ? formatCurrency(shift.variance) : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[shift.status]}`}>
+                      {STATUS_LABELS[shift.status]}
+                    </span>
+                    {shift.approverName && (
+                      <div className="mt-1 text-xs text-gray-500">by {shift.approverName}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="flex gap-2">
+                      {shift.status === 'pending_approval' && (
+                        <Button
+                          size="sm"
+                          onClick={() => approveShift(shift)}
+                          disabled={workingId === shift.id}
+                        >
+                          Sign Off
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => printReport(shift)}
+                        disabled={workingId === shift.id}
+                      >
+                        {shift.status === 'open' ? 'X Report' : 'Z Report'}
+                      </Button>
+                    </div>
+                    {shift.closingNotes && (
+                      <div className="mt-1 text-xs text-gray-500 max-w-xs truncate" title={shift.closingNotes}>
+                        {shift.closingNotes}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
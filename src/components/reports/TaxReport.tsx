@@ -0,0 +1,341 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, startOfMonth } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { settingsService } from '@/services/settings/settingsService';
+import { GSTR1Exporter } from '@/services/reports/exportService';
+import { GST_STATE_CODES, type TaxReport as TaxReportData } from '@/types/tax';
+
+type TaxExportType = 'gstr1' | 'tax-summary' | 'b2c-summary' | 'tax-invoices';
+
+const thClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const tdClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+export function TaxReport() {
+  const [data, setData] = useState<TaxReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState({
+    startDate: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    endDate: format(new Date(), 'yyyy-MM-dd'),
+  });
+
+  // Whole days: the end date runs to the last second of that day
+  const getRange = useCallback(() => ({
+    startDate: dateRange.startDate ? `${dateRange.startDate}T00:00:00` : '',
+    endDate: dateRange.endDate ? `${dateRange.endDate}T23:59:59` : '',
+  }), [dateRange.startDate, dateRange.endDate]);
+
+  const fetchTaxReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const range = getRange();
+      const params = new URLSearchParams();
+      if (range.startDate) params.append('startDate', range.startDate);
+      if (range.endDate) params.append('endDate', range.endDate);
+
+      const response = await fetch(`/api/reports/tax?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch tax report');
+      }
+
+      setData(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [getRange]);
+
+  useEffect(() => {
+    fetchTaxReport();
+  }, [fetchTaxReport]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(amount);
+  };
+
+  const handleExport = async (reportType: TaxExportType) => {
+    try {
+      const { gstin, stateCode } = settingsService.getSettings().tax;
+      const response = await fetch('/api/reports/export', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          reportType,
+          format: reportType === 'gstr1' ? 'json' : 'csv',
+          filters: { ...getRange(), gstin, stateCode },
+        }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${reportType}_${dateRange.startDate}_to_${dateRange.endDate}.${reportType === 'gstr1' ? 'json' : 'csv'}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err) {
+      console.error('Export error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to export report');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+        <span className="ml-2 text-gray-600">Loading tax report...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-red-600 mb-4">Error: {error}</div>
+        <Button onClick={fetchTaxReport} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  // Anything that stops the GSTR-1 export, checked against the dates as picked
+  const filingProblems = data
+    ? GSTR1Exporter.problems({
+        ...data,
+        startDate: dateRange.startDate ? new Date(`${dateRange.startDate}T00:00:00`) : undefined,
+        endDate: dateRange.endDate ? new Date(`${dateRange.endDate}T23:59:59`) : undefined,
+      })
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header with Export Options */}
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900">GST Summary</h2>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleExport('gstr1')}>
+            GSTR-1 JSON
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('tax-summary')}>
+            HSN CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('b2c-summary')}>
+            B2C CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('tax-invoices')}>
+            Invoices CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg border p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Start Date
+            </label>
+            <Input
+              type="date"
+              value={dateRange.startDate}
+              onChange={(e) => setDateRange(prev => ({ ...prev, startDate: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              End Date
+            </label>
+            <Input
+              type="date"
+              value={dateRange.endDate}
+              onChange={(e) => setDateRange(prev => ({ ...prev, endDate: e.target.value }))}
+            />
+          </div>
+        </div>
+      </div>
+
+      {filingProblems.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <p className="text-sm font-medium text-amber-800">GSTR-1 can&apos;t be exported yet:</p>
+          <ul className="mt-1 list-disc list-inside text-sm text-amber-700">
+            {filingProblems.map(problem => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {data && (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">Taxable Value</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.totals.taxableValue)}</div>
+            </div>
+            <div className="bg-gradient-to-r from-green-500 to-green-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">CGST + SGST</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.totals.cgst + data.totals.sgst)}</div>
+            </div>
+            <div className="bg-gradient-to-r from-purple-500 to-purple-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">IGST</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.totals.igst)}</div>
+            </div>
+            <div className="bg-gradient-to-r from-orange-500 to-orange-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">Invoices</div>
+              <div className="text-2xl font-bold">{data.invoices.length}</div>
+              {data.documents && data.documents.cancelled > 0 && (
+                <div className="text-sm opacity-90">{data.documents.cancelled} cancelled</div>
+              )}
+            </div>
+          </div>
+
+          {/* HSN Summary */}
+          <div className="bg-white rounded-lg border">
+            <h3 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">HSN Summary</h3>
+            {data.hsnSummary.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={thClass}>HSN</th>
+                      <th className={thClass}>Rate</th>
+                      <th className={thClass}>Quantity</th>
+                      <th className={thClass}>Taxable Value</th>
+                      <th className={thClass}>CGST</th>
+                      <th className={thClass}>SGST</th>
+                      <th className={thClass}>IGST</th>
+                      <th className={thClass}>Total Value</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {data.hsnSummary.map((row) => (
+                      <tr key={`${row.hsnCode}-${row.rate}`}>
+                        <td className={`${tdClass} font-medium`}>{row.hsnCode || 'Not set'}</td>
+                        <td className={tdClass}>{row.rate}%</td>
+                        <td className={tdClass}>{row.quantity}</td>
+                        <td className={tdClass}>{formatCurrency(row.taxableValue)}</td>
+                        <td className={tdClass}>{formatCurrency(row.cgst)}</td>
+                        <td className={tdClass}>{formatCurrency(row.sgst)}</td>
+                        <td className={tdClass}>{formatCurrency(row.igst)}</td>
+                        <td className={tdClass}>{formatCurrency(row.totalValue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-12 text-gray-500">
+                No taxable sales in this period
+              </div>
+            )}
+          </div>
+
+          {/* B2C Summary */}
+          {data.b2cSummary.length > 0 && (
+            <div className="bg-white rounded-lg border">
+              <h3 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">B2C Summary</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={thClass}>Supply</th>
+                      <th className={thClass}>Place of Supply</th>
+                      <th className={thClass}>Rate</th>
+                      <th className={thClass}>Taxable Value</th>
+                      <th className={thClass}>CGST</th>
+                      <th className={thClass}>SGST</th>
+                      <th className={thClass}>IGST</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {data.b2cSummary.map((row) => (
+                      <tr key={`${row.supplyType}-${row.placeOfSupply}-${row.rate}`}>
+                        <td className={`${tdClass} font-medium`}>
+                          {row.supplyType === 'INTRA' ? 'Intra-state' : 'Inter-state'}
+                        </td>
+                        <td className={tdClass}>
+                          {row.placeOfSupply
+                            ? `${row.placeOfSupply} - ${GST_STATE_CODES[row.placeOfSupply] || 'Unknown'}`
+                            : row.supplyType === 'INTER' ? 'Not recorded' : 'Home state'}
+                        </td>
+                        <td className={tdClass}>{row.rate}%</td>
+                        <td className={tdClass}>{formatCurrency(row.taxableValue)}</td>
+                        <td className={tdClass}>{formatCurrency(row.cgst)}</td>
+                        <td className={tdClass}>{formatCurrency(row.sgst)}</td>
+                        <td className={tdClass}>{formatCurrency(row.igst)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Invoices */}
+          <div className="bg-white rounded-lg border">
+            <h3 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">Invoices</h3>
+            {data.invoices.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={thClass}>Invoice</th>
+                      <th className={thClass}>Date</th>
+                      <th className={thClass}>Taxable Value</th>
+                      <th className={thClass}>GST</th>
+                      <th className={thClass}>Invoice Value</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {data.invoices.map((invoice) => (
+                      <tr key={invoice.invoiceNumber}>
+                        <td className={`${tdClass} font-mono`}>
+                          {invoice.invoiceNumber}
+                        </td>
+                        <td className={tdClass}>
+                          {format(new Date(invoice.invoiceDate), 'MMM dd, yyyy')}
+                        </td>
+                        <td className={tdClass}>{formatCurrency(invoice.taxableValue)}</td>
+                        <td className={tdClass}>
+                          {formatCurrency(invoice.totalTax)}
+                          {invoice.interState && <span className="ml-1 text-xs text-gray-500">IGST</span>}
+                        </td>
+                        <td className={tdClass}>{formatCurrency(invoice.invoiceValue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-12 text-gray-500">
+                No invoices in this period
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import type { ReceiptData } from '@/types/receipt';
 
 interface TransactionItem {
   id: string;
+  invoiceNumber?: string;
   userId: string;
   userName: string;
   subtotal: number;
@@ -167,7 +168,7 @@ export function TransactionHistory({ onExport }: TransactionHistoryProps) {
     return {
       id: `receipt-${transaction.id}`,
       transactionId: transaction.id,
-      receiptNumber: transaction.id,
+      receiptNumber: transaction.invoiceNumber || transaction.id,
       storeName: "ISKCON Asansol Temple",
       storeAddress: "Gift & Book Store",
       storePhone: "+91-XXXXXXXXXX",
@@ -291,7 +292,8 @@ export function TransactionHistory({ onExport }: TransactionHistoryProps) {
               options={[
                 { value: '', label: 'All Methods' },
                 { value: 'cash', label: 'Cash' },
-                { value: 'upi', label: 'UPI' }
+                { value: 'upi', label: 'UPI' },
+                { value: 'split', label: 'Split' }
               ]}
             />
           </div>
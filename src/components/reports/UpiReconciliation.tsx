@@ -0,0 +1,448 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { format } from 'date-fns';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { Select } from '@/components/ui/Select';
+import { useNotificationStore } from '@/stores/notificationStore';
+import type { UpiCreditLine, UpiMatchMethod, UpiReconciliationReport, UpiSale } from '@/types/upi';
+
+const thClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const tdClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+const MATCH_LABELS: Record<UpiMatchMethod, string> = {
+  reference: 'Matched on reference',
+  amount: 'Matched on amount',
+  manual: 'Matched by hand',
+};
+
+// What the manager is settling in the modal
+type Resolving =
+  | { kind: 'credit'; credit: UpiCreditLine }
+  | { kind: 'sale'; sale: UpiSale };
+
+interface UpiReconciliationProps {
+  selectedDate: string;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+  }).format(amount);
+};
+
+const formatTime = (date: Date | null, timeKnown: boolean = true) => {
+  if (!date) return '-';
+  return format(new Date(date), timeKnown ? 'dd MMM, HH:mm' : 'dd MMM');
+};
+
+export function UpiReconciliation({ selectedDate }: UpiReconciliationProps) {
+  const [data, setData] = useState<UpiReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [resolving, setResolving] = useState<Resolving | null>(null);
+  const [matchSaleId, setMatchSaleId] = useState('');
+  const [note, setNote] = useState('');
+  const [resolveError, setResolveError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/reconciliation/upi?date=${selectedDate}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch UPI reconciliation');
+      }
+
+      setData(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDate]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/reconciliation/upi', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fileName: file.name, content: await file.text() }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to import statement');
+      }
+
+      const { added, duplicates, matched } = result.data;
+      addNotification({
+        message: `${added} credits imported, ${matched} matched${duplicates > 0 ? `, ${duplicates} already imported` : ''}`,
+        type: 'success',
+      });
+      await fetchReport();
+    } catch (err) {
+      addNotification({
+        message: err instanceof Error ? err.message : 'Failed to import statement',
+        type: 'error',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const sendResolution = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/reconciliation/upi/resolve', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details?.[0]?.message || result.error || 'Failed to resolve mismatch');
+    }
+  };
+
+  const handleOpenResolve = (item: Resolving) => {
+    setResolving(item);
+    setMatchSaleId('');
+    setNote('');
+    setResolveError(null);
+  };
+
+  const handleResolve = async (action: 'match' | 'ignore' | 'clear') => {
+    if (!resolving) return;
+
+    setIsSubmitting(true);
+    setResolveError(null);
+    try {
+      if (resolving.kind === 'credit') {
+        await sendResolution(action === 'match'
+          ? { action, lineId: resolving.credit.id, transactionId: matchSaleId, note: note.trim() || undefined }
+          : { action, lineId: resolving.credit.id, note: note.trim() });
+      } else {
+        await sendResolution({ action, transactionId: resolving.sale.transactionId, note: note.trim() });
+      }
+
+      setResolving(null);
+      await fetchReport();
+    } catch (err) {
+      setResolveError(err instanceof Error ? err.message : 'Failed to resolve mismatch');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReopen = async (body: Record<string, unknown>) => {
+    try {
+      await sendResolution(body);
+      await fetchReport();
+    } catch (err) {
+      addNotification({
+        message: err instanceof Error ? err.message : 'Failed to reopen',
+        type: 'error',
+      });
+    }
+  };
+
+  const describeCredit = (credit: UpiCreditLine) => {
+    if (credit.ignored) return { label: 'Set aside', className: 'bg-gray-100 text-gray-600' };
+    if (credit.transactionId) {
+      return { label: MATCH_LABELS[credit.matchedBy || 'manual'], className: 'bg-green-100 text-green-700' };
+    }
+    return { label: 'No sale', className: 'bg-red-100 text-red-700' };
+  };
+
+  const describeSale = (sale: UpiSale) => {
+    if (sale.creditId) return { label: 'Credited', className: 'bg-green-100 text-green-700' };
+    if (sale.clearedNote) return { label: 'Cleared', className: 'bg-gray-100 text-gray-600' };
+    return { label: 'No credit', className: 'bg-red-100 text-red-700' };
+  };
+
+  const openSales = data ? data.sales.filter(sale => !sale.creditId && !sale.clearedNote) : [];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+        <span className="ml-2 text-gray-600">Loading UPI reconciliation...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-red-600 mb-4">Error: {error}</div>
+        <Button onClick={fetchReport} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">UPI Reconciliation</h2>
+          <p className="text-sm text-gray-600">
+            UPI sales against the credits on the bank or PSP statement
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <Button
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            loading={isImporting}
+            icon={<Upload className="w-4 h-4" />}
+          >
+            Import Statement
+          </Button>
+          <Button variant="outline" size="sm" onClick={fetchReport}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {data && (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">UPI Sales ({data.summary.salesCount})</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.summary.salesTotal)}</div>
+            </div>
+            <div className="bg-gradient-to-r from-green-500 to-green-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">Matched ({data.summary.matchedCount})</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.summary.matchedTotal)}</div>
+            </div>
+            <div className="bg-gradient-to-r from-red-500 to-red-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">Sales without credit ({data.summary.unmatchedSales})</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.summary.unmatchedSalesTotal)}</div>
+            </div>
+            <div className="bg-gradient-to-r from-orange-500 to-orange-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">Credits without sale ({data.summary.unmatchedCredits})</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.summary.unmatchedCreditsTotal)}</div>
+            </div>
+          </div>
+
+          {/* UPI sales */}
+          <div className="bg-white rounded-lg border">
+            <h3 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">UPI Sales</h3>
+            {data.sales.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={thClass}>Time</th>
+                      <th className={thClass}>Amount</th>
+                      <th className={thClass}>Reference</th>
+                      <th className={thClass}>Cashier</th>
+                      <th className={thClass}>Status</th>
+                      <th className={thClass}></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {data.sales.map((sale) => {
+                      const status = describeSale(sale);
+                      return (
+                        <tr key={sale.transactionId}>
+                          <td className={tdClass}>{formatTime(sale.createdAt)}</td>
+                          <td className={tdClass}>{formatCurrency(sale.amount)}</td>
+                          <td className={`${tdClass} font-mono`}>{sale.references.join(', ') || '-'}</td>
+                          <td className={tdClass}>{sale.cashierName || '-'}</td>
+                          <td className={tdClass}>
+                            <span className={`inline-block px-2 py-1 text-xs rounded ${status.className}`}>{status.label}</span>
+                            {sale.clearedNote && <span className="ml-2 text-gray-500">{sale.clearedNote}</span>}
+                          </td>
+                          <td className={`${tdClass} text-right`}>
+                            {!sale.creditId && !sale.clearedNote && (
+                              <Button size="sm" variant="outline" onClick={() => handleOpenResolve({ kind: 'sale', sale })}>
+                                Clear
+                              </Button>
+                            )}
+                            {sale.clearedNote && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleReopen({ action: 'reopen_sale', transactionId: sale.transactionId })}
+                              >
+                                Reopen
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-12 text-gray-500">
+                No UPI sales on this day
+              </div>
+            )}
+          </div>
+
+          {/* Statement credits */}
+          <div className="bg-white rounded-lg border">
+            <h3 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">Statement Credits</h3>
+            {data.credits.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={thClass}>Posted</th>
+                      <th className={thClass}>Amount</th>
+                      <th className={thClass}>UTR</th>
+                      <th className={thClass}>Narration</th>
+                      <th className={thClass}>Status</th>
+                      <th className={thClass}></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {data.credits.map((credit) => {
+                      const status = describeCredit(credit);
+                      return (
+                        <tr key={credit.id}>
+                          <td className={tdClass}>{formatTime(credit.postedAt, credit.timeKnown)}</td>
+                          <td className={tdClass}>{formatCurrency(credit.amount)}</td>
+                          <td className={`${tdClass} font-mono`}>{credit.utr || '-'}</td>
+                          <td className={`${tdClass} max-w-xs truncate`} title={credit.narration || undefined}>
+                            {credit.narration || '-'}
+                          </td>
+                          <td className={tdClass}>
+                            <span className={`inline-block px-2 py-1 text-xs rounded ${status.className}`}>{status.label}</span>
+                            {credit.note && <span className="ml-2 text-gray-500">{credit.note}</span>}
+                            {credit.resolvedByName && <span className="ml-2 text-gray-400">by {credit.resolvedByName}</span>}
+                          </td>
+                          <td className={`${tdClass} text-right`}>
+                            {!credit.transactionId && !credit.ignored ? (
+                              <Button size="sm" variant="outline" onClick={() => handleOpenResolve({ kind: 'credit', credit })}>
+                                Resolve
+                              </Button>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleReopen({ action: 'reopen_credit', lineId: credit.id })}
+                              >
+                                Reopen
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-12 text-gray-500">
+                No statement credits for this day yet. Import the bank or PSP statement to reconcile.
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <Modal
+        isOpen={!!resolving}
+        onClose={() => setResolving(null)}
+        title={resolving?.kind === 'credit' ? 'Resolve Statement Credit' : 'Clear UPI Sale'}
+      >
+        {resolving && (
+          <div className="space-y-4">
+            {resolving.kind === 'credit' ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  {formatCurrency(resolving.credit.amount)} credited {formatTime(resolving.credit.postedAt, resolving.credit.timeKnown)}
+                  {resolving.credit.utr && `, UTR ${resolving.credit.utr}`}
+                </p>
+                <Select
+                  label="Sale it pays for"
+                  value={matchSaleId}
+                  onChange={(e) => setMatchSaleId(e.target.value)}
+                  placeholder="Pick a sale without a credit"
+                  options={openSales.map(sale => ({
+                    value: sale.transactionId,
+                    label: `${formatTime(sale.createdAt)} • ${formatCurrency(sale.amount)}${sale.references[0] ? ` • ${sale.references[0]}` : ''}`,
+                  }))}
+                />
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {formatCurrency(resolving.sale.amount)} UPI sale at {formatTime(resolving.sale.createdAt)} with no credit on the statement,
+                e.g. a payment that failed and was taken again in cash.
+              </p>
+            )}
+
+            <Input
+              label="Note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={resolving.kind === 'credit' ? 'e.g. Donation paid straight to the account' : 'e.g. Paid again in cash'}
+            />
+
+            {resolveError && (
+              <p className="text-sm text-red-600">{resolveError}</p>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-6 border-t">
+              <Button type="button" variant="outline" onClick={() => setResolving(null)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              {resolving.kind === 'credit' ? (
+                <>
+                  <Button variant="outline" onClick={() => handleResolve('ignore')} loading={isSubmitting} disabled={!note.trim()}>
+                    Set Aside
+                  </Button>
+                  <Button onClick={() => handleResolve('match')} loading={isSubmitting} disabled={!matchSaleId}>
+                    Match
+                  </Button>
+                </>
+              ) : (
+                <Button onClick={() => handleResolve('clear')} loading={isSubmitting} disabled={!note.trim()}>
+                  Clear Sale
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { VOUCHER_KIND_LABELS, type VoucherLiabilityReport as VoucherLiabilityData } from '@/types/voucher';
+
+const thClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const tdClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+export function VoucherLiabilityReport() {
+  const [data, setData] = useState<VoucherLiabilityData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/reports/vouchers');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch voucher liability report');
+      }
+
+      setData(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+    }).format(amount);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+        <span className="ml-2 text-gray-600">Loading voucher liability...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-red-600 mb-4">Error: {error}</div>
+        <Button onClick={fetchReport} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Voucher Liability</h2>
+          <p className="text-sm text-gray-600">
+            Gift vouchers and store credit still to be spent, as of {data ? format(new Date(data.asOf), 'dd MMM yyyy, HH:mm') : ''}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchReport}>
+          Refresh
+        </Button>
+      </div>
+
+      {data && (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-gradient-to-r from-orange-500 to-orange-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">Outstanding</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.outstanding)}</div>
+            </div>
+            <div className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">Expiring in 30 days</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.expiringSoon)}</div>
+            </div>
+            <div className="bg-gradient-to-r from-gray-500 to-gray-600 rounded-lg p-6 text-white">
+              <div className="text-sm font-medium opacity-90">Expired unspent</div>
+              <div className="text-2xl font-bold">{formatCurrency(data.expired)}</div>
+            </div>
+          </div>
+
+          {/* By kind */}
+          <div className="bg-white rounded-lg border">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={thClass}>Kind</th>
+                    <th className={thClass}>Issued</th>
+                    <th className={thClass}>Redeemed</th>
+                    <th className={thClass}>Open Vouchers</th>
+                    <th className={thClass}>Outstanding</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {data.rows.map((row) => (
+                    <tr key={row.kind}>
+                      <td className={`${tdClass} font-medium`}>{VOUCHER_KIND_LABELS[row.kind]}</td>
+                      <td className={tdClass}>{formatCurrency(row.issued)}</td>
+                      <td className={tdClass}>{formatCurrency(row.redeemed)}</td>
+                      <td className={tdClass}>{row.count}</td>
+                      <td className={tdClass}>{formatCurrency(row.outstanding)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Open vouchers */}
+          <div className="bg-white rounded-lg border">
+            <h3 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">Open Vouchers</h3>
+            {data.vouchers.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={thClass}>Code</th>
+                      <th className={thClass}>Kind</th>
+                      <th className={thClass}>Customer</th>
+                      <th className={thClass}>Value</th>
+                      <th className={thClass}>Balance</th>
+                      <th className={thClass}>Expires</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {data.vouchers.map((voucher) => (
+                      <tr key={voucher.id}>
+                        <td className={`${tdClass} font-mono`}>{voucher.code}</td>
+                        <td className={tdClass}>{VOUCHER_KIND_LABELS[voucher.kind]}</td>
+                        <td className={tdClass}>{voucher.customerName || '-'}</td>
+                        <td className={tdClass}>{formatCurrency(voucher.amount)}</td>
+                        <td className={tdClass}>{formatCurrency(voucher.balance)}</td>
+                        <td className={tdClass}>
+                          {voucher.expiresAt ? format(new Date(voucher.expiresAt), 'dd MMM yyyy') : 'Never'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-12 text-gray-500">
+                No vouchers left to spend
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { useDebounce } from '@/hooks/useDebounce';
+import type { ProductVariant } from '@/types';
+import type { ProductSearchResult } from '@/types/search';
+
+interface BarcodeLinkModalProps {
+  barcode: string | null;
+  onLinked: (variant: ProductVariant) => void;
+  onClose: () => void;
+}
+
+export function BarcodeLinkModal({ barcode, onLinked, onClose }: BarcodeLinkModalProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ProductSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [linkingId, setLinkingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const debouncedQuery = useDebounce(query, 300);
+
+  // Start afresh for each unknown code
+  useEffect(() => {
+    setQuery('');
+    setResults([]);
+    setError(null);
+  }, [barcode]);
+
+  useEffect(() => {
+    if (!debouncedQuery.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const search = async () => {
+      setIsSearching(true);
+      try {
+        const response = await fetch('/api/search', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            query: debouncedQuery.trim(),
+            limit: 10,
+            sortBy: 'relevance',
+            language: 'en',
+          }),
+        });
+
+        const data = await response.json();
+        setResults(response.ok && data.products ? data.products : []);
+      } catch (err) {
+        console.error('Search error:', err);
+        setResults([]);
+      } finally {
+        setIsSearching(false);
+      }
+    };
+
+    search();
+  }, [debouncedQuery]);
+
+  const linkVariant = async (variantId: string) => {
+    if (!barcode) return;
+
+    setLinkingId(variantId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/products/barcode/${encodeURIComponent(barcode)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ variantId }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to link barcode');
+      }
+
+      onLinked(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to link barcode');
+    } finally {
+      setLinkingId(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!barcode} onClose={onClose} title="Unknown Barcode" size="md">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          <span className="font-mono font-medium text-gray-900">{barcode}</span> isn&apos;t linked to
+          any product yet. Find the product it belongs to and pick the variant to link it to.
+        </p>
+
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search products..."
+          autoFocus
+        />
+
+        {error && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {isSearching ? (
+          <div className="text-sm text-gray-500">Searching...</div>
+        ) : (
+          results.length > 0 && (
+            <div className="max-h-80 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {results.map((product) => (
+                <div key={product.id} className="p-3">
+                  <div className="font-medium text-gray-900">{product.name}</div>
+                  {product.variants.length > 0 ? (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {product.variants.map((variant) => (
+                        <Button
+                          key={variant.id}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => linkVariant(variant.id)}
+                          loading={linkingId === variant.id}
+                          disabled={!!linkingId}
+                        >
+                          {variant.name} · ₹{variant.price.toFixed(2)}
+                        </Button>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="mt-1 text-xs text-gray-500">
+                      Barcodes belong to variants; add one to this product in Inventory first.
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Skip
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -3,6 +3,9 @@
 import { useState } from "react";
 import { useCartStore } from "@/stores/cartStore";
 import { Lightbulb } from "lucide-react";
+import { CustomerLookup } from "./CustomerLookup";
+import { DonationEntry } from "./DonationEntry";
+import { MemberPricing } from "@/services/loyalty/memberPricing";
 import type { CartItem } from "@/types";
 
 interface CartManagerProps {
@@ -11,13 +14,23 @@ interface CartManagerProps {
 }
 
 export function CartManager({ className = "", onCheckout }: CartManagerProps) {
-  const { items, total, updateQuantity, removeItem, clearCart, getItemCount } =
-    useCartStore();
-
-  // Calculate subtotal, tax, discount locally if needed
-  const subtotal = total;
-  const tax = 0;
-  const discount = 0;
+  const {
+    items,
+    subtotal,
+    discount,
+    saleDiscount,
+    tax,
+    addedTax,
+    total,
+    pricing,
+    tier,
+    donations,
+    donationTotal,
+    updateQuantity,
+    removeItem,
+    clearCart,
+    getItemCount,
+  } = useCartStore();
 
   const [showClearConfirm, setShowClearConfirm] = useState(false);
 
@@ -43,13 +56,22 @@ export function CartManager({ className = "", onCheckout }: CartManagerProps) {
     return `₹${amount.toFixed(2)}`;
   };
 
-  const getItemPrice = (item: CartItem) => {
+  const getRegularPrice = (item: CartItem) => {
     if (item.isCustomVariant && item.customVariantData) {
       return item.customVariantData.customPrice;
     }
     return item.variant?.price || item.product.basePrice;
   };
 
+  // Members see their tier's price; everyone else the regular one
+  const getItemPrice = (item: CartItem) =>
+    MemberPricing.priceFor(tier, {
+      productId: item.productId,
+      variantId: item.variantId,
+      unitPrice: getRegularPrice(item),
+      isCustomVariant: item.isCustomVariant,
+    });
+
   const getItemName = (item: CartItem) => {
     if (item.isCustomVariant) {
       const customDesc = item.customVariantData?.customDescription;
@@ -70,11 +92,15 @@ export function CartManager({ className = "", onCheckout }: CartManagerProps) {
     return item.variant?.stockQuantity || 999; // Assume unlimited stock for base products
   };
 
-  if (items.length === 0) {
+  if (items.length === 0 && donations.length === 0) {
     return (
       <div
         className={`bg-white rounded-lg shadow-sm border border-gray-200 sticky top-4 ${className}`}
       >
+        <div className="p-4 border-b border-gray-200 bg-orange-50 space-y-2">
+          <CustomerLookup />
+          <DonationEntry />
+        </div>
         <div className="p-6 text-center">
           <div className="w-16 h-16 mx-auto mb-4 bg-orange-100 rounded-full flex items-center justify-center">
             <svg
@@ -131,11 +157,15 @@ export function CartManager({ className = "", onCheckout }: CartManagerProps) {
             {formatCurrency(total)}
           </span>
         </div>
+        <div className="mt-3 space-y-2">
+          <CustomerLookup />
+          <DonationEntry />
+        </div>
       </div>
 
       {/* Cart Items */}
       <div className="max-h-80 overflow-y-auto">
-        {items.map((item) => (
+        {items.map((item, index) => (
           <div
             key={`${item.productId}-${item.variantId || "base"}`}
             className="p-4 border-b border-gray-100 last:border-b-0 hover:bg-gray-50 transition-colors"
@@ -168,6 +198,11 @@ export function CartManager({ className = "", onCheckout }: CartManagerProps) {
                 <div className="flex items-center justify-between mt-1">
                   <span className="text-lg font-bold text-orange-600">
                     {formatCurrency(getItemPrice(item))}
+                    {getItemPrice(item) < getRegularPrice(item) && (
+                      <span className="ml-2 text-sm font-normal text-gray-400 line-through">
+                        {formatCurrency(getRegularPrice(item))}
+                      </span>
+                    )}
                   </span>
                   <span className="text-xs text-gray-500">
                     {item.isCustomVariant
@@ -257,6 +292,17 @@ export function CartManager({ className = "", onCheckout }: CartManagerProps) {
                 </div>
               </div>
             </div>
+
+            {/* Applied Promotions */}
+            {pricing?.lines[index]?.appliedPromotions.map((promotion) => (
+              <div
+                key={promotion.promotionId}
+                className="flex justify-between mt-2 text-xs text-green-700"
+              >
+                <span>{promotion.name}</span>
+                <span>-{formatCurrency(promotion.amount)}</span>
+              </div>
+            ))}
           </div>
         ))}
       </div>
@@ -278,13 +324,45 @@ export function CartManager({ className = "", onCheckout }: CartManagerProps) {
 
         {/* Total Summary */}
         <div className="bg-white rounded-lg p-4 mb-4 shadow-sm">
+          {(discount > 0 || saleDiscount > 0 || addedTax > 0 || donationTotal > 0) && (
+            <div className="space-y-1 mb-2 text-sm">
+              <div className="flex justify-between text-gray-600">
+                <span>Subtotal</span>
+                <span>{formatCurrency(subtotal)}</span>
+              </div>
+              {discount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Promotions</span>
+                  <span>-{formatCurrency(discount)}</span>
+                </div>
+              )}
+              {saleDiscount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Discount</span>
+                  <span>-{formatCurrency(saleDiscount)}</span>
+                </div>
+              )}
+              {addedTax > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>GST</span>
+                  <span>{formatCurrency(addedTax)}</span>
+                </div>
+              )}
+              {donationTotal > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>Donations (80G)</span>
+                  <span>{formatCurrency(donationTotal)}</span>
+                </div>
+              )}
+            </div>
+          )}
           <div className="flex justify-between items-center text-2xl font-bold">
             <span className="text-gray-900">Total</span>
             <span className="text-orange-600">{formatCurrency(total)}</span>
           </div>
           <div className="text-sm text-gray-600 mt-1">
-            {getItemCount()} {getItemCount() === 1 ? "item" : "items"} • Tax
-            included
+            {getItemCount()} {getItemCount() === 1 ? "item" : "items"} •{" "}
+            {tax > 0 ? `GST ${formatCurrency(tax)} included` : "Tax included"}
           </div>
         </div>
 
@@ -1,180 +1,271 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useCartStore } from '@/stores/cartStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { settingsService } from '@/services/settings/settingsService';
+import { Modal } from '@/components/ui/Modal';
 import { Save, FileText } from 'lucide-react';
-import type { CartItem } from '@/stores/cartStore';
 
-interface SavedCart {
+interface HeldCart {
   id: string;
-  items: CartItem[];
+  label: string;
+  itemCount: number;
   total: number;
-  savedAt: Date;
-  customerName?: string;
+  userName: string;
+  createdAt: string;
+  expiresAt: string;
 }
 
-export function CartPersistence() {
-  const { items, total, clearCart } = useCartStore();
-  const [savedCarts, setSavedCarts] = useState<SavedCart[]>([]);
-  const [showSavedCarts, setShowSavedCarts] = useState(false);
+interface ExpiredHeldCart {
+  id: string;
+  label: string;
+  total: number;
+}
 
-  useEffect(() => {
-    loadSavedCarts();
-  }, []);
+// Held sales are refreshed periodically so carts parked at other counters show up
+const REFRESH_INTERVAL_MS = 60 * 1000;
 
-  const loadSavedCarts = () => {
+export function CartPersistence() {
+  const { items, total, customer, donations, clearCart, loadCart } = useCartStore();
+  const addNotification = useNotificationStore((state) => state.addNotification);
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([]);
+  const [showHeldCarts, setShowHeldCarts] = useState(false);
+  const [showHoldForm, setShowHoldForm] = useState(false);
+  const [label, setLabel] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadHeldCarts = useCallback(async () => {
     try {
-      const saved = localStorage.getItem('savedCarts');
-      if (saved) {
-        const carts = JSON.parse(saved).map((cart: any) => ({
-          ...cart,
-          savedAt: new Date(cart.savedAt),
-        }));
-        setSavedCarts(carts);
+      const response = await fetch('/api/held-carts');
+      if (!response.ok) {
+        return;
       }
+
+      const result = await response.json();
+      setHeldCarts(result.data?.carts || []);
+
+      (result.data?.expired || []).forEach((cart: ExpiredHeldCart) => {
+        addNotification({
+          message: `Held sale "${cart.label}" (₹${cart.total.toFixed(2)}) has expired`,
+          type: 'warning',
+          duration: 5000,
+        });
+      });
     } catch (error) {
-      console.error('Failed to load saved carts:', error);
+      console.error('Failed to load held sales:', error);
     }
-  };
+  }, [addNotification]);
 
-  const saveCurrentCart = (customerName?: string) => {
+  useEffect(() => {
+    loadHeldCarts();
+    const interval = setInterval(loadHeldCarts, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadHeldCarts]);
+
+  const holdCurrentCart = async () => {
     if (items.length === 0) return;
+    // Held sales keep only the items, so donations would be lost on resume
+    if (donations.length > 0) {
+      addNotification({
+        message: 'Take or remove the donations before holding the sale',
+        type: 'warning',
+      });
+      return;
+    }
 
-    const savedCart: SavedCart = {
-      id: `cart-${Date.now()}`,
-      items: [...items],
-      total,
-      savedAt: new Date(),
-      customerName,
-    };
-
-    const updatedCarts = [savedCart, ...savedCarts.slice(0, 4)]; // Keep only 5 most recent
-    setSavedCarts(updatedCarts);
-    
+    setIsWorking(true);
     try {
-      localStorage.setItem('savedCarts', JSON.stringify(updatedCarts));
+      const holdLabel = label.trim() || customer?.name || `Sale at ${new Date().toLocaleTimeString()}`;
+      const response = await fetch('/api/held-carts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          label: holdLabel,
+          items,
+          total,
+          expiresInMinutes: settingsService.getSettings().sales.heldCartExpiryMinutes,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to hold sale');
+      }
+
+      clearCart();
+      setLabel('');
+      setShowHoldForm(false);
+      addNotification({ message: `Sale held as "${holdLabel}"`, type: 'success' });
+      await loadHeldCarts();
     } catch (error) {
-      console.error('Failed to save cart:', error);
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to hold sale',
+        type: 'error',
+      });
+    } finally {
+      setIsWorking(false);
     }
-
-    clearCart();
   };
 
-  const loadSavedCart = (savedCart: SavedCart) => {
-    // This would need to be implemented in the cart store
-    // For now, we'll just show the concept
-    console.log('Loading saved cart:', savedCart);
-    setShowSavedCarts(false);
+  const resumeHeldCart = async (heldCart: HeldCart) => {
+    if (items.length > 0 || donations.length > 0) {
+      addNotification({
+        message: 'Hold or clear the current cart before resuming another sale',
+        type: 'warning',
+      });
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const response = await fetch(`/api/held-carts/${heldCart.id}/resume`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to resume held sale');
+      }
+
+      loadCart(result.data.items);
+      setShowHeldCarts(false);
+      addNotification({ message: `Resumed "${heldCart.label}"`, type: 'success' });
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to resume held sale',
+        type: 'error',
+      });
+    } finally {
+      setIsWorking(false);
+      await loadHeldCarts();
+    }
   };
 
-  const deleteSavedCart = (cartId: string) => {
-    const updatedCarts = savedCarts.filter(cart => cart.id !== cartId);
-    setSavedCarts(updatedCarts);
-    
+  const discardHeldCart = async (heldCart: HeldCart) => {
+    setIsWorking(true);
     try {
-      localStorage.setItem('savedCarts', JSON.stringify(updatedCarts));
+      const response = await fetch(`/api/held-carts/${heldCart.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to discard held sale');
+      }
     } catch (error) {
-      console.error('Failed to delete saved cart:', error);
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to discard held sale',
+        type: 'error',
+      });
+    } finally {
+      setIsWorking(false);
+      await loadHeldCarts();
     }
   };
 
-  if (items.length === 0 && savedCarts.length === 0) {
+  if (items.length === 0 && heldCarts.length === 0) {
     return null;
   }
 
   return (
     <>
-      {/* Save Cart Button */}
+      {/* Hold Sale */}
       {items.length > 0 && (
         <div className="mb-4">
-          <button
-            onClick={() => saveCurrentCart()}
-            className="w-full px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
-          >
-            <Save className="w-4 h-4 mr-2" />
-            Save Cart for Later
-          </button>
+          {showHoldForm ? (
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && holdCurrentCart()}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Label, e.g. customer name"
+                autoFocus
+              />
+              <button
+                onClick={holdCurrentCart}
+                disabled={isWorking}
+                className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Hold
+              </button>
+              <button
+                onClick={() => setShowHoldForm(false)}
+                className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowHoldForm(true)}
+              className="w-full flex items-center justify-center px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Hold Sale
+            </button>
+          )}
         </div>
       )}
 
-      {/* Saved Carts Button */}
-      {savedCarts.length > 0 && (
+      {/* Held Sales Button */}
+      {heldCarts.length > 0 && (
         <div className="mb-4">
           <button
-            onClick={() => setShowSavedCarts(true)}
-            className="w-full px-3 py-2 text-sm font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors"
+            onClick={() => setShowHeldCarts(true)}
+            className="w-full flex items-center justify-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors"
           >
             <FileText className="w-4 h-4 mr-2" />
-            Saved Carts ({savedCarts.length})
+            Held Sales ({heldCarts.length})
           </button>
         </div>
       )}
 
-      {/* Saved Carts Modal */}
-      {showSavedCarts && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-96 overflow-hidden">
-            <div className="p-4 border-b border-gray-200">
-              <div className="flex justify-between items-center">
-                <h3 className="text-lg font-semibold text-gray-900">Saved Carts</h3>
-                <button
-                  onClick={() => setShowSavedCarts(false)}
-                  className="text-gray-400 hover:text-gray-600"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </button>
-              </div>
-            </div>
-            
-            <div className="max-h-80 overflow-y-auto">
-              {savedCarts.map((cart) => (
-                <div key={cart.id} className="p-4 border-b border-gray-100 last:border-b-0">
-                  <div className="flex justify-between items-start mb-2">
-                    <div>
-                      <p className="font-medium text-gray-900">
-                        {cart.customerName || `Cart ${cart.id.slice(-4)}`}
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        {cart.items.length} items • ₹{cart.total.toFixed(2)}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        {cart.savedAt.toLocaleDateString()} at {cart.savedAt.toLocaleTimeString()}
-                      </p>
-                    </div>
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => loadSavedCart(cart)}
-                        className="px-3 py-1 text-xs bg-orange-600 text-white rounded hover:bg-orange-700"
-                      >
-                        Load
-                      </button>
-                      <button
-                        onClick={() => deleteSavedCart(cart.id)}
-                        className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
-                      >
-                        Delete
-                      </button>
-                    </div>
+      {/* Held Sales Modal */}
+      <Modal isOpen={showHeldCarts} onClose={() => setShowHeldCarts(false)} title="Held Sales">
+        <div className="max-h-96 overflow-y-auto -mx-2">
+          {heldCarts.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-6">No sales on hold</p>
+          ) : (
+            heldCarts.map((cart) => (
+              <div key={cart.id} className="px-2 py-3 border-b border-gray-100 last:border-b-0">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-medium text-gray-900">{cart.label}</p>
+                    <p className="text-sm text-gray-600">
+                      {cart.itemCount} items • ₹{cart.total.toFixed(2)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Held by {cart.userName} at {new Date(cart.createdAt).toLocaleTimeString()}
+                      {' '}• expires {new Date(cart.expiresAt).toLocaleTimeString()}
+                    </p>
                   </div>
-                  
-                  <div className="text-xs text-gray-600">
-                    {cart.items.slice(0, 2).map((item, index) => (
-                      <div key={index}>
-                        {item.product.name} × {item.quantity}
-                      </div>
-                    ))}
-                    {cart.items.length > 2 && (
-                      <div>... and {cart.items.length - 2} more</div>
-                    )}
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => resumeHeldCart(cart)}
+                      disabled={isWorking}
+                      className="px-3 py-1 text-xs bg-orange-600 text-white rounded hover:bg-orange-700 disabled:opacity-50"
+                    >
+                      Resume
+                    </button>
+                    <button
+                      onClick={() => discardHeldCart(cart)}
+                      disabled={isWorking}
+                      className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Discard
+                    </button>
                   </div>
                 </div>
-              ))}
-            </div>
-          </div>
+              </div>
+            ))
+          )}
         </div>
-      )}
+      </Modal>
     </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { CashDrawer } from '@/services/shifts/cashDrawer';
+import { CASH_DENOMINATIONS, type CashCount } from '@/types/shift';
+
+interface CashCountFormProps {
+  value: CashCount;
+  onChange: (value: CashCount) => void;
+  expectedCash: number;
+}
+
+export function CashCountForm({ value, onChange, expectedCash }: CashCountFormProps) {
+  const countedCash = CashDrawer.count(value);
+  const variance = CashDrawer.variance(expectedCash, countedCash);
+  const needsApproval = CashDrawer.needsApproval(variance);
+
+  const setNoteCount = (denomination: number, count: string) => {
+    onChange({
+      ...value,
+      notes: { ...value.notes, [denomination]: Math.max(0, parseInt(count) || 0) },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {CASH_DENOMINATIONS.map((denomination) => {
+          const count = value.notes[denomination] || 0;
+          return (
+            <div key={denomination} className="flex items-center space-x-3">
+              <label htmlFor={`note-${denomination}`} className="w-16 text-sm font-medium text-gray-700">
+                ₹{denomination}
+              </label>
+              <span className="text-gray-400">×</span>
+              <input
+                id={`note-${denomination}`}
+                type="number"
+                min={0}
+                value={count || ''}
+                onChange={(e) => setNoteCount(denomination, e.target.value)}
+                className="w-24 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                placeholder="0"
+              />
+              <span className="flex-1 text-right text-sm text-gray-900">
+                ₹{(denomination * count).toFixed(2)}
+              </span>
+            </div>
+          );
+        })}
+        <div className="flex items-center space-x-3">
+          <label htmlFor="coins" className="w-16 text-sm font-medium text-gray-700">
+            Coins
+          </label>
+          <span className="text-gray-400">₹</span>
+          <input
+            id="coins"
+            type="number"
+            min={0}
+            step="0.01"
+            value={value.coins || ''}
+            onChange={(e) => onChange({ ...value, coins: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-24 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            placeholder="0.00"
+          />
+          <span className="flex-1 text-right text-sm text-gray-900">
+            ₹{(value.coins || 0).toFixed(2)}
+          </span>
+        </div>
+      </div>
+
+      <div className="border-t border-gray-200 pt-3 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600">Counted</span>
+          <span className="font-medium text-gray-900">₹{countedCash.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Expected</span>
+          <span className="font-medium text-gray-900">₹{expectedCash.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Variance</span>
+          <span className={`font-semibold ${variance === 0 ? 'text-green-600' : variance < 0 ? 'text-red-600' : 'text-amber-600'}`}>
+            {variance > 0 ? '+' : variance < 0 ? '-' : ''}₹{Math.abs(variance).toFixed(2)}
+          </span>
+        </div>
+      </div>
+
+      {needsApproval && (
+        <div className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg">
+          This variance is over the limit; a manager will need to sign off the shift.
+        </div>
+      )}
+    </div>
+  );
+}
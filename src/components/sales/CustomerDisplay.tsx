@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { UpiQrDisplay } from './UpiQrDisplay';
+import { customerDisplayChannel } from '@/services/display/customerDisplayChannel';
+import { settingsService } from '@/services/settings/settingsService';
+import type { CustomerDisplayCart, CustomerDisplaySlide } from '@/types/customerDisplay';
+import type { UpiPaymentRequest } from '@/types/upi';
+
+// How long the thank-you stays up after a sale
+const THANK_YOU_MS = 8000;
+
+const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`;
+
+/**
+ * The customer's view of the till on a second screen: the cart as it is rung up, the UPI QR
+ * while paying, and festival announcements and featured books between sales
+ */
+export function CustomerDisplay() {
+  const [cart, setCart] = useState<CustomerDisplayCart | null>(null);
+  const [payment, setPayment] = useState<UpiPaymentRequest | null>(null);
+  const [thanks, setThanks] = useState<{ total: number; change: number } | null>(null);
+  const [display, setDisplay] = useState(() => settingsService.getSettings().customerDisplay);
+  const [slideIndex, setSlideIndex] = useState(0);
+  // Set from a finished sale until the till clears its cart
+  const saleClosing = useRef(false);
+
+  useEffect(() => {
+    const unsubscribe = customerDisplayChannel.subscribe((message) => {
+      switch (message.type) {
+        case 'cart':
+          setCart(message.cart);
+          if (message.cart.lines.length === 0) {
+            saleClosing.current = false;
+          } else if (!saleClosing.current) {
+            // The next customer's first item takes the thank-you down
+            setThanks(null);
+          }
+          break;
+        case 'payment':
+          setPayment(message.request);
+          break;
+        case 'complete':
+          setPayment(null);
+          saleClosing.current = true;
+          setThanks({ total: message.total, change: message.change });
+          break;
+      }
+    });
+
+    customerDisplayChannel.post({ type: 'request_state' });
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    return settingsService.subscribe(settings => setDisplay(settings.customerDisplay));
+  }, []);
+
+  useEffect(() => {
+    if (!thanks) return;
+    const timer = setTimeout(() => setThanks(null), THANK_YOU_MS);
+    return () => clearTimeout(timer);
+  }, [thanks]);
+
+  const slides: CustomerDisplaySlide[] = display.slides || [];
+  const isIdle = !thanks && !payment && !(cart && cart.lines.length > 0);
+
+  useEffect(() => {
+    if (!isIdle || slides.length < 2) return;
+    const timer = setInterval(
+      () => setSlideIndex(index => (index + 1) % slides.length),
+      Math.max(3, display.slideIntervalSeconds || 8) * 1000
+    );
+    return () => clearInterval(timer);
+  }, [isIdle, slides.length, display.slideIntervalSeconds]);
+
+  if (payment) {
+    return <UpiQrDisplay request={payment} />;
+  }
+
+  if (thanks) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-orange-50 p-8 text-center">
+        <p className="text-5xl font-bold text-orange-700">Thank you!</p>
+        <p className="text-2xl text-gray-700 mt-6">Paid {formatCurrency(thanks.total)}</p>
+        {thanks.change > 0 && (
+          <p className="text-3xl font-semibold text-gray-900 mt-2">Your change: {formatCurrency(thanks.change)}</p>
+        )}
+        <p className="text-xl text-gray-600 mt-8">Hare Krishna</p>
+      </div>
+    );
+  }
+
+  if (isIdle || !cart) {
+    const slide = slides[slideIndex % Math.max(slides.length, 1)];
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-orange-50 p-8 text-center">
+        {slide ? (
+          <div key={slide.id} className="max-w-4xl">
+            {slide.imageUrl && (
+              <img src={slide.imageUrl} alt="" className="max-h-[60vh] mx-auto mb-8 rounded-lg shadow-lg object-contain" />
+            )}
+            <h1 className="text-5xl font-bold text-orange-700">{slide.title}</h1>
+            {slide.message && <p className="text-2xl text-gray-700 mt-6 whitespace-pre-line">{slide.message}</p>}
+          </div>
+        ) : (
+          <h1 className="text-5xl font-bold text-orange-700">Hare Krishna!</h1>
+        )}
+        {slides.length > 1 && (
+          <div className="flex space-x-2 mt-10">
+            {slides.map((item, index) => (
+              <span
+                key={item.id}
+                className={`w-3 h-3 rounded-full ${index === slideIndex % slides.length ? 'bg-orange-600' : 'bg-orange-200'}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-white">
+      <div className="px-8 py-6 bg-orange-600 text-white">
+        <h1 className="text-3xl font-bold">Your Purchase</h1>
+        {cart.customerName && <p className="text-lg opacity-90">Welcome, {cart.customerName}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-8 py-4 divide-y divide-gray-200">
+        {cart.lines.map((line) => (
+          <div key={line.key} className="flex justify-between items-start py-4 text-2xl">
+            <div>
+              <p className="font-medium text-gray-900">{line.name}</p>
+              <p className="text-lg text-gray-600">
+                {line.detail && `${line.detail} • `}{line.quantity} × {formatCurrency(line.unitPrice)}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="font-semibold text-gray-900">{formatCurrency(line.lineTotal - line.discount)}</p>
+              {line.discount > 0 && (
+                <p className="text-lg text-green-700">You save {formatCurrency(line.discount)}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-8 py-6 border-t-2 border-gray-200 bg-gray-50 space-y-2 text-2xl">
+        <div className="flex justify-between text-gray-700">
+          <span>Subtotal</span>
+          <span>{formatCurrency(cart.subtotal)}</span>
+        </div>
+        {cart.discount > 0 && (
+          <div className="flex justify-between text-green-700">
+            <span>Discount</span>
+            <span>-{formatCurrency(cart.discount)}</span>
+          </div>
+        )}
+        {cart.addedTax > 0 && (
+          <div className="flex justify-between text-gray-700">
+            <span>GST</span>
+            <span>{formatCurrency(cart.addedTax)}</span>
+          </div>
+        )}
+        {cart.donationTotal > 0 && (
+          <div className="flex justify-between text-gray-700">
+            <span>Donation</span>
+            <span>{formatCurrency(cart.donationTotal)}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-4xl font-bold text-gray-900 pt-2">
+          <span>Total</span>
+          <span>{formatCurrency(cart.total)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { UserRound, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useCartStore } from '@/stores/cartStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { CUSTOMER_LANGUAGE_LABELS, type CustomerLanguage } from '@/types/customer';
+
+const languageOptions = Object.entries(CUSTOMER_LANGUAGE_LABELS).map(([value, label]) => ({ value, label }));
+
+/**
+ * Attach a customer to the sale by phone number, adding them on the spot if they are new
+ */
+export function CustomerLookup() {
+  const { customer, setCustomer, tier, setMemberTier } = useCartStore();
+  const [phone, setPhone] = useState('');
+  const [isNew, setIsNew] = useState(false);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [preferredLanguage, setPreferredLanguage] = useState<CustomerLanguage>('en');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  // Members are charged their tier's prices as soon as they are attached
+  const tierId = customer?.tierId;
+  useEffect(() => {
+    if (!tierId) return;
+
+    let cancelled = false;
+    const loadTier = async () => {
+      try {
+        const response = await fetch(`/api/membership-tiers/${tierId}`);
+        if (!response.ok) {
+          throw new Error('Failed to load membership tier');
+        }
+        const result = await response.json();
+        if (!cancelled) {
+          setMemberTier(result.data.isActive ? result.data : null);
+        }
+      } catch (err) {
+        console.error('Error loading membership tier:', err);
+      }
+    };
+
+    loadTier();
+    return () => {
+      cancelled = true;
+    };
+  }, [tierId, setMemberTier]);
+
+  const reset = () => {
+    setPhone('');
+    setIsNew(false);
+    setName('');
+    setEmail('');
+    setPreferredLanguage('en');
+    setError(null);
+  };
+
+  const handleFind = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!phone.trim()) return;
+
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/customers?phone=${encodeURIComponent(phone.trim())}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to look up customer');
+      }
+
+      const [found] = result.data || [];
+      if (found) {
+        setCustomer(found);
+        reset();
+      } else {
+        setIsNew(true);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up customer');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/customers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, phone, email, preferredLanguage }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to add customer');
+      }
+
+      setCustomer(result.data);
+      addNotification({ message: `${result.data.name} added as a customer`, type: 'success' });
+      reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add customer');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (customer) {
+    return (
+      <div className="flex items-center justify-between px-3 py-2 bg-white border border-orange-200 rounded-lg">
+        <div className="flex items-center min-w-0 space-x-2">
+          <UserRound className="w-4 h-4 text-orange-600 flex-shrink-0" />
+          <Link
+            href={`/customers?id=${customer.id}`}
+            className="text-sm font-medium text-gray-900 truncate hover:text-orange-700"
+          >
+            {customer.name}
+          </Link>
+          <span className="text-xs text-gray-500">{customer.phone}</span>
+          {tier && (
+            <span className="px-2 py-0.5 text-xs font-medium text-orange-800 bg-orange-100 rounded-full">
+              {tier.name}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setCustomer(null)}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded-full"
+          title="Remove customer from sale"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <form onSubmit={handleFind} className="flex space-x-2">
+        <Input
+          value={phone}
+          onChange={(e) => {
+            setPhone(e.target.value);
+            setIsNew(false);
+          }}
+          placeholder="Customer phone"
+          inputMode="tel"
+          inputSize="sm"
+          leftIcon={<UserRound className="w-4 h-4" />}
+        />
+        <Button type="submit" size="sm" variant="outline" loading={isWorking && !isNew} disabled={!phone.trim()}>
+          Find
+        </Button>
+      </form>
+
+      {isNew && (
+        <form onSubmit={handleCreate} className="p-3 space-y-2 bg-white border border-orange-200 rounded-lg">
+          <p className="text-xs text-gray-600">No customer with this number yet. Add them:</p>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name *"
+            inputSize="sm"
+            required
+          />
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email (for receipts)"
+            inputSize="sm"
+          />
+          <Select
+            value={preferredLanguage}
+            onChange={(e) => setPreferredLanguage(e.target.value as CustomerLanguage)}
+            options={languageOptions}
+            inputSize="sm"
+          />
+          <div className="flex justify-end space-x-2">
+            <Button type="button" size="sm" variant="ghost" onClick={reset}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" loading={isWorking} disabled={!name.trim()}>
+              Add &amp; Attach
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState } from 'react';
+import { HandHeart, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useCartStore } from '@/stores/cartStore';
+import { settingsService } from '@/services/settings/settingsService';
+
+const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`;
+
+/**
+ * Ring up donations with the sale. The donor must be the attached customer with a PAN on file,
+ * since each donation gets an 80G receipt in their name.
+ */
+export function DonationEntry() {
+  const { customer, setCustomer, donations, addDonation, removeDonation } = useCartStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [purposes] = useState(() =>
+    settingsService.getSettings().donations.purposes.map(purpose => purpose.trim()).filter(Boolean)
+  );
+  const [purpose, setPurpose] = useState(purposes[0] || '');
+  const [amount, setAmount] = useState('');
+  const [pan, setPan] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parsedAmount = parseFloat(amount);
+  const canAdd = !!customer?.pan && !!purpose && parsedAmount > 0;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+
+    addDonation(purpose, parsedAmount);
+    setAmount('');
+    setIsOpen(false);
+  };
+
+  const handleSavePan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customer) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/customers/${customer.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ pan }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save PAN');
+      }
+
+      setCustomer(result.data);
+      setPan('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save PAN');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {donations.map((donation) => (
+        <div
+          key={donation.id}
+          className="flex items-center justify-between px-3 py-2 text-sm bg-white border border-orange-200 rounded-lg"
+        >
+          <div className="flex items-center min-w-0 space-x-2">
+            <HandHeart className="w-4 h-4 text-orange-600 flex-shrink-0" />
+            <span className="truncate text-gray-900">{donation.purpose}</span>
+            <span className="text-xs text-gray-500">80G</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="font-medium text-gray-900">{formatCurrency(donation.amount)}</span>
+            <button
+              onClick={() => removeDonation(donation.id)}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded-full"
+              title="Remove donation"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {!isOpen ? (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setIsOpen(true)}
+          icon={<HandHeart className="w-4 h-4" />}
+        >
+          Add Donation
+        </Button>
+      ) : (
+        <div className="p-3 space-y-2 bg-white border border-orange-200 rounded-lg">
+          {!customer ? (
+            <p className="text-xs text-gray-600">
+              Attach the donor as the customer first; the 80G receipt is issued in their name.
+            </p>
+          ) : !customer.pan ? (
+            <form onSubmit={handleSavePan} className="space-y-2">
+              <p className="text-xs text-gray-600">
+                {customer.name} has no PAN on file. It is required on the 80G receipt.
+              </p>
+              <div className="flex space-x-2">
+                <Input
+                  value={pan}
+                  onChange={(e) => setPan(e.target.value.toUpperCase())}
+                  placeholder="PAN, e.g. ABCDE1234F"
+                  maxLength={10}
+                  inputSize="sm"
+                />
+                <Button type="submit" size="sm" loading={isSaving} disabled={pan.trim().length !== 10}>
+                  Save
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <form onSubmit={handleAdd} className="space-y-2">
+              <Select
+                value={purpose}
+                onChange={(e) => setPurpose(e.target.value)}
+                options={purposes.map(option => ({ value: option, label: option }))}
+                inputSize="sm"
+              />
+              <Input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Amount"
+                min={1}
+                step="0.01"
+                inputSize="sm"
+                autoFocus
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" size="sm" variant="ghost" onClick={() => setIsOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" size="sm" disabled={!canAdd}>
+                  Add
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {!customer && (
+            <div className="flex justify-end">
+              <Button type="button" size="sm" variant="ghost" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { ShieldCheck } from 'lucide-react';
+
+export interface ManagerCredentials {
+  username: string;
+  pin: string;
+}
+
+interface ManagerApprovalProps {
+  // Why approval is needed, as returned by the server
+  reason: string;
+  value: ManagerCredentials;
+  onChange: (value: ManagerCredentials) => void;
+}
+
+// Inline prompt for a manager to key in their username and PIN at the till
+export function ManagerApproval({ reason, value, onChange }: ManagerApprovalProps) {
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-start">
+        <ShieldCheck className="w-5 h-5 text-amber-600 mr-2 flex-shrink-0" />
+        <p className="text-sm text-amber-800">{reason}</p>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={value.username}
+          onChange={(e) => onChange({ ...value, username: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          placeholder="Manager username"
+          autoComplete="off"
+          aria-label="Manager username"
+        />
+        <input
+          type="password"
+          inputMode="numeric"
+          value={value.pin}
+          onChange={(e) => onChange({ ...value, pin: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          placeholder="PIN"
+          autoComplete="off"
+          aria-label="Manager PIN"
+        />
+      </div>
+    </div>
+  );
+}
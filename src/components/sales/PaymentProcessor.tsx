@@ -1,8 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useCartStore } from '@/stores/cartStore';
+import { useTerminalStore } from '@/stores/terminalStore';
 import { ReceiptPrinter } from './ReceiptPrinter';
+import { ManagerApproval, type ManagerCredentials } from './ManagerApproval';
+import { UpiQrDisplay } from './UpiQrDisplay';
+import { MemberPricing } from '@/services/loyalty/memberPricing';
+import { UpiIntent } from '@/services/upi/upiIntent';
+import { settingsService } from '@/services/settings/settingsService';
+import { customerDisplayChannel } from '@/services/display/customerDisplayChannel';
+import { POINT_VALUE } from '@/types/loyalty';
+import { GST_STATE_CODES } from '@/types/tax';
+import type { UpiPaymentRequest } from '@/types/upi';
+import { VOUCHER_KIND_LABELS, type Voucher } from '@/types/voucher';
 import type { Transaction } from '@/types';
 import type { ReceiptData, PrintResult } from '@/types/receipt';
 
@@ -21,8 +32,20 @@ interface PaymentFormData {
   upiTransactionId?: string;
 }
 
+// One tender of a split payment, e.g. part cash and the rest over UPI, loyalty points or a voucher
+interface Tender {
+  method: PaymentMethod | 'points' | 'voucher';
+  amount: number;
+  reference?: string;
+  tendered?: number;
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
 export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }: PaymentProcessorProps) {
-  const { items, total, clearCart } = useCartStore();
+  const {
+    items, total, discount, saleDiscount, tax, addedTax, customer, tier, donations, donationTotal, clearCart, setSaleDiscount,
+  } = useCartStore();
   const [formData, setFormData] = useState<PaymentFormData>({
     paymentMethod: 'cash',
   });
@@ -31,6 +54,74 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
   const [completedTransaction, setCompletedTransaction] = useState<Transaction | null>(null);
   const [receiptData, setReceiptData] = useState<ReceiptData | null>(null);
   const [showReceiptPrinter, setShowReceiptPrinter] = useState(false);
+  const [isSplit, setIsSplit] = useState(false);
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [splitAmount, setSplitAmount] = useState<number | undefined>();
+  const [interState, setInterState] = useState(false);
+  // Buyer's GST state code; GSTR-1 reports inter-state sales by place of supply
+  const [placeOfSupply, setPlaceOfSupply] = useState('');
+  const [pointsBalance, setPointsBalance] = useState(0);
+  const [pointsToRedeem, setPointsToRedeem] = useState<number | undefined>();
+  const [voucherCode, setVoucherCode] = useState('');
+  const [isApplyingVoucher, setIsApplyingVoucher] = useState(false);
+  // QR payment request for the UPI tender being entered; its reference is stored on the sale
+  const [upiRequest, setUpiRequest] = useState<UpiPaymentRequest | null>(null);
+  const [showUpiQr, setShowUpiQr] = useState(false);
+  const locationId = useTerminalStore((state) => state.locationId);
+  // Set when the server refuses the sale until a manager approves it (price overrides, discounts, expired stock)
+  const [approval, setApproval] = useState<{ reason: string; credentials: ManagerCredentials } | null>(null);
+
+  const paidSoFar = roundCurrency(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+  const remaining = roundCurrency(Math.max(0, total - paidSoFar));
+  // Amount the tender currently being entered will settle
+  const currentAmount = isSplit ? splitAmount ?? remaining : total;
+  const redeemedPoints = tenders.find(tender => tender.method === 'points');
+  const voucherTotal = roundCurrency(tenders
+    .filter(tender => tender.method === 'voucher')
+    .reduce((sum, tender) => sum + tender.amount, 0));
+  // Points pay for goods only, never the donations, and in whole points
+  const maxRedeemable = Math.floor(Math.min(
+    pointsBalance,
+    total - (donationTotal || 0) - voucherTotal,
+    remaining + (redeemedPoints?.amount || 0)
+  ) / POINT_VALUE);
+
+  useEffect(() => {
+    setPointsBalance(0);
+    if (!customer?.id) return;
+
+    const loadBalance = async () => {
+      try {
+        const response = await fetch(`/api/customers/${customer.id}/loyalty`);
+        if (response.ok) {
+          const result = await response.json();
+          setPointsBalance(result.data.balance || 0);
+        }
+      } catch (error) {
+        console.error('Error loading points balance:', error);
+      }
+    };
+
+    loadBalance();
+  }, [customer?.id]);
+
+  // Put the payment QR up on the customer display too, for as long as it is shown here
+  useEffect(() => {
+    if (!showUpiQr || !upiRequest) return;
+
+    customerDisplayChannel.post({ type: 'payment', request: upiRequest });
+    return () => customerDisplayChannel.post({ type: 'payment', request: null });
+  }, [showUpiQr, upiRequest]);
+
+  const getItemPrice = (item: typeof items[number]) =>
+    MemberPricing.priceFor(tier, {
+      productId: item.productId,
+      variantId: item.variantId,
+      unitPrice: item.isCustomVariant && item.customVariantData
+        ? item.customVariantData.customPrice
+        : item.variant?.price || item.product.basePrice,
+      isCustomVariant: item.isCustomVariant,
+    });
 
   const handlePaymentMethodChange = (method: PaymentMethod) => {
     setFormData(prev => ({
@@ -61,11 +152,21 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
+    if (isSplit) {
+      if (!currentAmount || currentAmount <= 0) {
+        newErrors.splitAmount = 'Please enter the amount for this payment';
+      } else if (currentAmount > remaining) {
+        newErrors.splitAmount = 'Amount cannot exceed the remaining balance';
+      }
+    }
+
     if (formData.paymentMethod === 'cash') {
       if (!formData.cashReceived || formData.cashReceived <= 0) {
         newErrors.cashReceived = 'Please enter the cash amount received';
-      } else if (formData.cashReceived < total) {
-        newErrors.cashReceived = 'Cash received cannot be less than the total amount';
+      } else if (formData.cashReceived < currentAmount) {
+        newErrors.cashReceived = isSplit
+          ? 'Cash received cannot be less than the cash amount'
+          : 'Cash received cannot be less than the total amount';
       }
     } else if (formData.paymentMethod === 'upi') {
       // UPI transaction ID is optional - can be added later if needed
@@ -76,13 +177,175 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
     return Object.keys(newErrors).length === 0;
   };
 
+  // A QR shown for a different amount than the one being paid no longer counts
+  const currentUpiRequest = upiRequest && upiRequest.amount === roundCurrency(currentAmount) ? upiRequest : null;
+
+  const buildCurrentTender = (): Tender => ({
+    method: formData.paymentMethod,
+    amount: roundCurrency(currentAmount),
+    reference: formData.paymentMethod === 'upi'
+      ? currentUpiRequest?.reference || formData.upiTransactionId || undefined
+      : undefined,
+    tendered: formData.paymentMethod === 'cash' ? formData.cashReceived : undefined,
+  });
+
+  const handleShowUpiQr = () => {
+    const amount = roundCurrency(currentAmount);
+    if (!(amount > 0)) {
+      setErrors({ upi: 'Nothing left to pay by UPI' });
+      return;
+    }
+
+    try {
+      const { vpa, payeeName, referencePrefix } = settingsService.getSettings().upi;
+      const request: UpiPaymentRequest = currentUpiRequest || {
+        vpa,
+        payeeName,
+        amount,
+        reference: UpiIntent.generateReference(referencePrefix),
+      };
+      // Checks the VPA before the QR goes up
+      UpiIntent.buildUri(request);
+      setUpiRequest(request);
+      setShowUpiQr(true);
+      setErrors(prev => ({ ...prev, upi: '' }));
+    } catch (error) {
+      setErrors({ upi: error instanceof Error ? error.message : 'Failed to create the UPI QR' });
+    }
+  };
+
+  const resetTenderFields = () => {
+    setFormData(prev => ({
+      ...prev,
+      cashReceived: undefined,
+      upiTransactionId: undefined,
+    }));
+    setSplitAmount(undefined);
+    setUpiRequest(null);
+    setErrors({});
+  };
+
+  const handleToggleSplit = () => {
+    setIsSplit(prev => !prev);
+    setTenders([]);
+    resetTenderFields();
+  };
+
+  const handleAddTender = () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    setTenders(prev => [...prev, buildCurrentTender()]);
+    resetTenderFields();
+  };
+
+  // Points go in as one tender of a split payment, replacing any points already applied
+  const handleRedeemPoints = () => {
+    const points = Math.min(pointsToRedeem ?? maxRedeemable, maxRedeemable);
+    if (!points || points <= 0) {
+      setErrors({ points: 'Enter the points to redeem' });
+      return;
+    }
+
+    setIsSplit(true);
+    setTenders(prev => [
+      ...(isSplit ? prev.filter(tender => tender.method !== 'points') : []),
+      { method: 'points', amount: roundCurrency(points * POINT_VALUE) },
+    ]);
+    setPointsToRedeem(undefined);
+    resetTenderFields();
+  };
+
+  // A voucher goes in as one tender of a split payment for as much of the goods as its balance covers
+  const handleApplyVoucher = async () => {
+    const code = voucherCode.trim().toUpperCase();
+    if (!code) {
+      setErrors({ voucher: 'Enter the voucher code' });
+      return;
+    }
+
+    setIsApplyingVoucher(true);
+    try {
+      const response = await fetch(`/api/vouchers/${encodeURIComponent(code)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Voucher not found');
+      }
+
+      const voucher: Voucher = result.data;
+      if (voucher.status === 'cancelled') {
+        throw new Error(`Voucher ${voucher.code} has been cancelled`);
+      }
+      if (voucher.expiresAt && new Date(voucher.expiresAt) < new Date()) {
+        throw new Error(`Voucher ${voucher.code} has expired`);
+      }
+      if (voucher.balance <= 0) {
+        throw new Error(`Voucher ${voucher.code} has been used up`);
+      }
+
+      const kept = isSplit ? tenders.filter(tender => tender.reference !== voucher.code) : [];
+      const keptPaid = kept.reduce((sum, tender) => sum + tender.amount, 0);
+      // Like points, vouchers pay for goods only, never the donations
+      const goodsLeft = total - (donationTotal || 0) - kept
+        .filter(tender => tender.method === 'points' || tender.method === 'voucher')
+        .reduce((sum, tender) => sum + tender.amount, 0);
+      const amount = roundCurrency(Math.min(voucher.balance, total - keptPaid, goodsLeft));
+      if (amount <= 0) {
+        throw new Error('Nothing left that a voucher can pay for');
+      }
+
+      setIsSplit(true);
+      setTenders([...kept, { method: 'voucher', amount, reference: voucher.code }]);
+      setVoucherCode('');
+      resetTenderFields();
+    } catch (error) {
+      setErrors({ voucher: error instanceof Error ? error.message : 'Failed to apply voucher' });
+    } finally {
+      setIsApplyingVoucher(false);
+    }
+  };
+
+  const handleRemoveTender = (index: number) => {
+    setTenders(prev => prev.filter((_, i) => i !== index));
+    setSplitAmount(undefined);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!validateForm()) {
+
+    if (interState && !placeOfSupply) {
+      setErrors({ placeOfSupply: "Choose the buyer's state for an inter-state sale" });
       return;
     }
 
+    let payments: Tender[];
+    if (isSplit) {
+      // Whatever is still outstanding is settled by the tender being entered
+      if (remaining > 0) {
+        if (!validateForm()) {
+          return;
+        }
+        const finalTender = buildCurrentTender();
+        if (roundCurrency(paidSoFar + finalTender.amount) < roundCurrency(total)) {
+          setErrors({
+            submit: `Remaining balance of ${formatCurrency(remaining - finalTender.amount)} must be paid before completing`,
+          });
+          return;
+        }
+        payments = [...tenders, finalTender];
+      } else {
+        payments = tenders;
+      }
+    } else {
+      if (!validateForm()) {
+        return;
+      }
+      payments = [buildCurrentTender()];
+    }
+
+    const methods = Array.from(new Set(payments.map(payment => payment.method)));
+
     setIsProcessing(true);
 
     try {
@@ -98,12 +361,22 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
           isCustomVariant: item.isCustomVariant || false,
           customVariantData: item.customVariantData,
         })),
-        paymentMethod: formData.paymentMethod,
-        paymentReference: formData.paymentMethod === 'upi' 
-          ? (formData.upiTransactionId || `UPI-${Date.now()}`)
-          : `CASH-${Date.now()}`,
-        tax: 0, // No tax for temple store
-        discount: 0, // No discount for now
+        paymentMethod: methods.length === 1 ? methods[0] : 'split',
+        // Reconciliation matches UPI credits on this reference
+        paymentReference: payments.find(payment => payment.method === 'upi' && payment.reference)?.reference
+          || payments[0].reference
+          || `${payments[0].method.toUpperCase()}-${Date.now()}`,
+        payments,
+        // GST and promotions are worked out again by the server; only the cashier's own discount is sent
+        discount: saleDiscount,
+        interState,
+        placeOfSupply: interState ? placeOfSupply : undefined,
+        locationId,
+        customerId: customer?.id,
+        donations: donations.length > 0
+          ? donations.map(donation => ({ purpose: donation.purpose, amount: donation.amount }))
+          : undefined,
+        managerOverride: approval?.credentials.pin ? approval.credentials : undefined,
       };
 
       // Call API to create transaction
@@ -117,13 +390,30 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.overrideRequired) {
+          setApproval(current => ({
+            reason: response.status === 409
+              ? `${errorData.error}. Ask a manager to enter their PIN to continue.`
+              : errorData.error,
+            credentials: { username: current?.credentials.username || '', pin: '' },
+          }));
+          return;
+        }
         throw new Error(errorData.error || 'Failed to process payment');
       }
 
+      setApproval(null);
       const transaction = await response.json();
       
       // Store completed transaction
       setCompletedTransaction(transaction.data);
+      customerDisplayChannel.post({
+        type: 'complete',
+        total: transaction.data.total,
+        change: roundCurrency(payments.reduce((sum, payment) => (
+          payment.tendered ? sum + Math.max(0, payment.tendered - payment.amount) : sum
+        ), 0)),
+      });
       
       // Generate receipt data
       const receiptResponse = await fetch(`/api/transactions/${transaction.data.id}/receipt`);
@@ -151,9 +441,10 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
     return `₹${amount.toFixed(2)}`;
   };
 
+  // Change is only given on the cash portion of the payment
   const calculateChange = () => {
     if (formData.paymentMethod === 'cash' && formData.cashReceived) {
-      return Math.max(0, formData.cashReceived - total);
+      return Math.max(0, formData.cashReceived - currentAmount);
     }
     return 0;
   };
@@ -227,14 +518,42 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
                   {item.quantity > 1 && ` × ${item.quantity}`}
                 </span>
                 <span className="font-medium">
-                  {formatCurrency((
-                    item.isCustomVariant && item.customVariantData
-                      ? item.customVariantData.customPrice
-                      : item.variant?.price || item.product.basePrice
-                  ) * item.quantity)}
+                  {formatCurrency(getItemPrice(item) * item.quantity)}
                 </span>
               </div>
             ))}
+            {discount > 0 && (
+              <div className="flex justify-between text-sm text-green-700">
+                <span>Promotions</span>
+                <span>-{formatCurrency(discount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between items-center text-sm">
+              <label htmlFor="sale-discount" className="text-gray-600">Discount</label>
+              <input
+                id="sale-discount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={saleDiscount || ''}
+                onChange={(e) => setSaleDiscount(parseFloat(e.target.value) || 0)}
+                // Tenders already taken were counted against the old total
+                disabled={paidSoFar > 0}
+                className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right focus:outline-none focus:ring-2 focus:ring-orange-500 disabled:bg-gray-100"
+              />
+            </div>
+            {addedTax > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">GST</span>
+                <span className="font-medium">{formatCurrency(addedTax)}</span>
+              </div>
+            )}
+            {donations.map((donation) => (
+              <div key={donation.id} className="flex justify-between text-sm">
+                <span className="text-gray-600">Donation: {donation.purpose}</span>
+                <span className="font-medium">{formatCurrency(donation.amount)}</span>
+              </div>
+            ))}
             <div className="border-t border-gray-300 pt-2 mt-3">
               <div className="flex justify-between text-lg font-semibold">
                 <span>Total</span>
@@ -242,15 +561,55 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
               </div>
             </div>
           </div>
+          {tax > 0 && (
+            <label className="flex items-center space-x-2 mt-3 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={interState}
+                onChange={(e) => setInterState(e.target.checked)}
+                className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+              />
+              <span>Inter-state sale (charge IGST instead of CGST + SGST)</span>
+            </label>
+          )}
+          {tax > 0 && interState && (
+            <div className="mt-2">
+              <select
+                value={placeOfSupply}
+                onChange={(e) => setPlaceOfSupply(e.target.value)}
+                aria-label="Buyer's state"
+                className={`w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500 ${
+                  errors.placeOfSupply ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                <option value="">Buyer&apos;s state</option>
+                {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+                  <option key={code} value={code}>{code} - {name}</option>
+                ))}
+              </select>
+              {errors.placeOfSupply && (
+                <p className="mt-1 text-sm text-red-600">{errors.placeOfSupply}</p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Payment Form */}
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Payment Method Selection */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-3">
-              Payment Method
-            </label>
+            <div className="flex justify-between items-center mb-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Payment Method
+              </label>
+              <button
+                type="button"
+                onClick={handleToggleSplit}
+                className="text-sm text-orange-600 hover:text-orange-700 font-medium"
+              >
+                {isSplit ? 'Single Payment' : 'Split Payment'}
+              </button>
+            </div>
             <div className="grid grid-cols-2 gap-3">
               <label className={`flex items-center p-4 border rounded-lg cursor-pointer transition-colors ${
                 formData.paymentMethod === 'cash'
@@ -303,8 +662,136 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
             </div>
           </div>
 
+          {/* Loyalty Points */}
+          {customer && pointsBalance > 0 && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium text-gray-900">Loyalty points</span>
+                <span className="text-gray-700">{pointsBalance} available</span>
+              </div>
+              {maxRedeemable > 0 && (
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    step="1"
+                    min="1"
+                    max={maxRedeemable}
+                    value={pointsToRedeem ?? ''}
+                    onChange={(e) => {
+                      setPointsToRedeem(e.target.value === '' ? undefined : parseInt(e.target.value, 10) || 0);
+                      setErrors(prev => ({ ...prev, points: '' }));
+                    }}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    placeholder={`Up to ${maxRedeemable}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleRedeemPoints}
+                    className="px-4 py-2 border border-orange-500 text-orange-600 rounded-md hover:bg-orange-100 font-medium"
+                  >
+                    Redeem
+                  </button>
+                </div>
+              )}
+              {errors.points && (
+                <p className="text-sm text-red-600">{errors.points}</p>
+              )}
+            </div>
+          )}
+
+          {/* Gift Voucher / Store Credit */}
+          <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+            <span className="block text-sm font-medium text-gray-900">
+              {VOUCHER_KIND_LABELS.gift} or {VOUCHER_KIND_LABELS.credit.toLowerCase()}
+            </span>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={voucherCode}
+                onChange={(e) => {
+                  setVoucherCode(e.target.value.toUpperCase());
+                  setErrors(prev => ({ ...prev, voucher: '' }));
+                }}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                placeholder="Scan or type the voucher code"
+              />
+              <button
+                type="button"
+                onClick={handleApplyVoucher}
+                disabled={isApplyingVoucher || !voucherCode.trim()}
+                className="px-4 py-2 border border-orange-500 text-orange-600 rounded-md hover:bg-orange-100 font-medium disabled:opacity-50"
+              >
+                {isApplyingVoucher ? 'Checking...' : 'Apply'}
+              </button>
+            </div>
+            {errors.voucher && (
+              <p className="text-sm text-red-600">{errors.voucher}</p>
+            )}
+          </div>
+
+          {/* Split Payment Tenders */}
+          {isSplit && (
+            <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+              {tenders.map((tender, index) => (
+                <div key={index} className="flex justify-between items-center text-sm">
+                  <span className="text-gray-700">
+                    <span className="font-medium uppercase">{tender.method}</span>
+                    {tender.method === 'points' && (
+                      <span className="text-gray-500"> · {Math.round(tender.amount / POINT_VALUE)} pts</span>
+                    )}
+                    {tender.reference && <span className="text-gray-500"> · {tender.reference}</span>}
+                  </span>
+                  <div className="flex items-center space-x-3">
+                    <span className="font-medium">{formatCurrency(tender.amount)}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveTender(index)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <div className={`flex justify-between font-semibold ${tenders.length > 0 ? 'border-t border-gray-300 pt-2' : ''}`}>
+                <span>Remaining Balance</span>
+                <span className={remaining > 0 ? 'text-orange-600' : 'text-green-700'}>
+                  {formatCurrency(remaining)}
+                </span>
+              </div>
+
+              {remaining > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Amount for this {formData.paymentMethod === 'cash' ? 'Cash' : 'UPI'} Payment
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">₹</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={splitAmount ?? ''}
+                      onChange={(e) => {
+                        setSplitAmount(e.target.value === '' ? undefined : parseFloat(e.target.value) || 0);
+                        setErrors(prev => ({ ...prev, splitAmount: '' }));
+                      }}
+                      className={`w-full pl-8 pr-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent ${
+                        errors.splitAmount ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                      placeholder={remaining.toFixed(2)}
+                    />
+                  </div>
+                  {errors.splitAmount && (
+                    <p className="mt-1 text-sm text-red-600">{errors.splitAmount}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Cash Payment Fields */}
-          {formData.paymentMethod === 'cash' && (
+          {formData.paymentMethod === 'cash' && (!isSplit || remaining > 0) && (
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -329,7 +816,7 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
                 )}
               </div>
 
-              {formData.cashReceived && formData.cashReceived >= total && (
+              {formData.cashReceived && formData.cashReceived >= currentAmount && (
                 <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                   <div className="flex justify-between items-center">
                     <span className="text-sm font-medium text-green-800">Change to Return</span>
@@ -343,24 +830,65 @@ export function PaymentProcessor({ onPaymentComplete, onCancel, className = '' }
           )}
 
           {/* UPI Payment Fields */}
-          {formData.paymentMethod === 'upi' && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                UPI Transaction ID <span className="text-gray-500 text-sm">(Optional)</span>
-              </label>
-              <input
-                type="text"
-                value={formData.upiTransactionId || ''}
-                onChange={(e) => handleInputChange('upiTransactionId', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                placeholder="Enter UPI transaction ID (optional)"
-              />
-              <p className="mt-1 text-xs text-gray-600">
-                You can add the transaction ID now or leave it blank to add later
-              </p>
+          {formData.paymentMethod === 'upi' && (!isSplit || remaining > 0) && (
+            <div className="space-y-3">
+              <button
+                type="button"
+                onClick={handleShowUpiQr}
+                className="w-full px-4 py-3 bg-gray-900 text-white rounded-md hover:bg-gray-800 font-medium"
+              >
+                {currentUpiRequest ? 'Show UPI QR Again' : `Show UPI QR for ${formatCurrency(currentAmount)}`}
+              </button>
+              {currentUpiRequest && (
+                <p className="text-xs text-gray-600">
+                  Payment reference {currentUpiRequest.reference} will be saved with the sale
+                </p>
+              )}
+              {errors.upi && (
+                <p className="text-sm text-red-600">{errors.upi}</p>
+              )}
+              {!currentUpiRequest && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    UPI Transaction ID <span className="text-gray-500 text-sm">(Optional)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.upiTransactionId || ''}
+                    onChange={(e) => handleInputChange('upiTransactionId', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    placeholder="Enter UPI transaction ID (optional)"
+                  />
+                  <p className="mt-1 text-xs text-gray-600">
+                    You can add the transaction ID now or leave it blank to add later
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
+          {showUpiQr && upiRequest && (
+            <UpiQrDisplay request={upiRequest} onClose={() => setShowUpiQr(false)} />
+          )}
+
+          {isSplit && remaining > 0 && (
+            <button
+              type="button"
+              onClick={handleAddTender}
+              className="w-full px-4 py-2 border border-orange-500 text-orange-600 rounded-md hover:bg-orange-50 focus:outline-none focus:ring-2 focus:ring-orange-500 font-medium"
+            >
+              Add Payment
+            </button>
+          )}
+
+          {approval && (
+            <ManagerApproval
+              reason={approval.reason}
+              value={approval.credentials}
+              onChange={(credentials) => setApproval({ ...approval, credentials })}
+            />
+          )}
+
           {/* Submit Error */}
           {errors.submit && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4">
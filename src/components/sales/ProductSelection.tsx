@@ -2,9 +2,15 @@
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useCartStore } from "@/stores/cartStore";
+import { useNotificationStore } from "@/stores/notificationStore";
 import { useDebounce } from "@/hooks/useDebounce";
+import {
+  useKeyboardShortcuts,
+  type KeyboardShortcut,
+} from "@/hooks/useKeyboardShortcuts";
 import { VariantSelector } from "./VariantSelector";
 import { CustomVariantSelector } from "./CustomVariantSelector";
+import { BarcodeLinkModal } from "./BarcodeLinkModal";
 import { Store, Book, Gem, Flame, Shirt, Crown } from "lucide-react";
 import type { Product, ProductVariant, CustomVariantData } from "@/types";
 import type { ProductSearchResult } from "@/types/search";
@@ -13,6 +19,24 @@ interface ProductSelectionProps {
   className?: string;
 }
 
+// Scanning is the only keyboard handling needed here; the search box handles the rest
+const NO_SHORTCUTS: KeyboardShortcut[] = [];
+
+// Build a cart product from the /api/products/[id] response
+const toCartProduct = (fullProduct: any): Product => ({
+  id: fullProduct.id,
+  name: fullProduct.name,
+  description: fullProduct.description,
+  basePrice: fullProduct.basePrice,
+  categoryId: fullProduct.categoryId,
+  keywords: fullProduct.keywords || [],
+  metadata: fullProduct.metadata || { customAttributes: {} },
+  isActive: fullProduct.isActive,
+  createdAt: new Date(fullProduct.createdAt),
+  updatedAt: new Date(fullProduct.updatedAt),
+  variants: fullProduct.variants || [],
+});
+
 export function ProductSelection({ className = "" }: ProductSelectionProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<ProductSearchResult[]>([]);
@@ -31,12 +55,14 @@ export function ProductSelection({ className = "" }: ProductSelectionProps) {
     Record<string, Product>
   >({});
   const [addedToCart, setAddedToCart] = useState<string | null>(null);
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
 
   const searchInputRef = useRef<HTMLInputElement>(null);
   const debouncedQuery = useDebounce(searchQuery, 300);
 
   const addItem = useCartStore((state) => state.addItem);
   const addCustomItem = useCartStore((state) => state.addCustomItem);
+  const addNotification = useNotificationStore((state) => state.addNotification);
 
   // Focus search input on mount
   useEffect(() => {
@@ -139,6 +165,62 @@ export function ProductSelection({ className = "" }: ProductSelectionProps) {
     }
   }, [debouncedQuery, selectedCategory, performSearch]);
 
+  // A scanned code adds its variant straight to the cart
+  const handleScan = useCallback(
+    async (code: string) => {
+      // The scanner typed into the search box too; clear it
+      setSearchQuery("");
+      setSearchResults([]);
+
+      try {
+        const response = await fetch(
+          `/api/products/barcode/${encodeURIComponent(code)}`
+        );
+        const result = await response.json();
+
+        if (response.ok && result.success) {
+          const { product, variant } = result.data;
+          addItem(toCartProduct(product), variant, 1);
+          setAddedToCart(product.id);
+          setTimeout(() => setAddedToCart(null), 2000);
+          addNotification({
+            message: `Added ${product.name} (${variant.name})`,
+            type: "success",
+            duration: 2000,
+          });
+        } else if (response.status === 404 && result.canLink) {
+          setUnknownBarcode(code);
+        } else {
+          addNotification({
+            message:
+              response.status === 404
+                ? `Unknown barcode ${code}. Ask a manager to link it to a product.`
+                : result.error || "Barcode lookup failed",
+            type: "error",
+          });
+        }
+      } catch (error) {
+        console.error("Barcode lookup error:", error);
+        addNotification({ message: "Barcode lookup failed", type: "error" });
+      }
+    },
+    [addItem, addNotification]
+  );
+
+  useKeyboardShortcuts({ shortcuts: NO_SHORTCUTS, onScan: handleScan });
+
+  const handleBarcodeLinked = (variant: ProductVariant) => {
+    const code = unknownBarcode;
+    setUnknownBarcode(null);
+    addNotification({
+      message: `Barcode linked to ${variant.name}`,
+      type: "success",
+    });
+    if (code) {
+      handleScan(code);
+    }
+  };
+
   const handleQuickAdd = async (product: ProductSearchResult) => {
     try {
       const response = await fetch(`/api/products/${product.id}`);
@@ -149,20 +231,7 @@ export function ProductSelection({ className = "" }: ProductSelectionProps) {
         return;
       }
 
-      const fullProduct = result.data;
-      const productData: Product = {
-        id: fullProduct.id,
-        name: fullProduct.name,
-        description: fullProduct.description,
-        basePrice: fullProduct.basePrice,
-        categoryId: fullProduct.categoryId,
-        keywords: fullProduct.keywords || [],
-        metadata: fullProduct.metadata || { customAttributes: {} },
-        isActive: fullProduct.isActive,
-        createdAt: new Date(fullProduct.createdAt),
-        updatedAt: new Date(fullProduct.updatedAt),
-        variants: fullProduct.variants || [],
-      };
+      const productData = toCartProduct(result.data);
 
       // Store product data for potential custom variant use
       setSelectedProducts((prev) => ({
@@ -198,20 +267,7 @@ export function ProductSelection({ className = "" }: ProductSelectionProps) {
 
       if (!result.success) return;
 
-      const fullProduct = result.data;
-      const productData: Product = {
-        id: fullProduct.id,
-        name: fullProduct.name,
-        description: fullProduct.description,
-        basePrice: fullProduct.basePrice,
-        categoryId: fullProduct.categoryId,
-        keywords: fullProduct.keywords || [],
-        metadata: fullProduct.metadata || { customAttributes: {} },
-        isActive: fullProduct.isActive,
-        createdAt: new Date(fullProduct.createdAt),
-        updatedAt: new Date(fullProduct.updatedAt),
-        variants: fullProduct.variants || [],
-      };
+      const productData = toCartProduct(result.data);
 
       addItem(productData, variant, 1);
       setShowVariantSelector(null);
@@ -282,6 +338,12 @@ export function ProductSelection({ className = "" }: ProductSelectionProps) {
 
   return (
     <div className={`space-y-4 ${className}`}>
+      <BarcodeLinkModal
+        barcode={unknownBarcode}
+        onLinked={handleBarcodeLinked}
+        onClose={() => setUnknownBarcode(null)}
+      />
+
       {/* Quick Search Bar */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
         <div className="relative">
@@ -290,7 +352,7 @@ export function ProductSelection({ className = "" }: ProductSelectionProps) {
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search products... (Press Enter to add first result)"
+            placeholder="Search or scan a barcode... (Press Enter to add first result)"
             className="w-full px-4 py-3 pl-12 pr-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 text-lg"
             onKeyDown={(e) => {
               if (e.key === "Enter" && searchResults.length > 0) {
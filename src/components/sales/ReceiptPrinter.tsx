@@ -57,6 +57,14 @@ export function ReceiptPrinter({
       const result = await receiptService.printReceipt(receiptData);
 
       if (result.success) {
+        // Each donation gets its own 80G receipt, printed after the sale receipt
+        for (const donation of receiptData.donations || []) {
+          const donationResult = await receiptService.printDonationReceipt(donation);
+          if (!donationResult.success) {
+            setError(`Donation receipt ${donation.receiptNumber}: ${donationResult.error || "Print failed"}`);
+            return;
+          }
+        }
         onPrintComplete(result);
       } else {
         setError(result.error || "Print failed");
@@ -0,0 +1,393 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Modal } from "@/components/ui/Modal";
+import { ReceiptPrinter } from "./ReceiptPrinter";
+import { ManagerApproval, type ManagerCredentials } from "./ManagerApproval";
+import { receiptService } from "@/services/printer/receiptService";
+import type { ReceiptData } from "@/types/receipt";
+import type { Voucher } from "@/types/voucher";
+
+interface ReturnProcessorProps {
+  transactionId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onReturnComplete?: (returnId: string) => void;
+}
+
+type RefundMethod = "cash" | "upi" | "voucher";
+
+const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  voucher: "Store Credit",
+};
+
+interface ReturnableItem {
+  transactionItemId: string;
+  productName: string;
+  variantName?: string;
+  unitPrice: number;
+  refundUnitAmount: number;
+  soldQuantity: number;
+  returnedQuantity: number;
+  returnableQuantity: number;
+}
+
+// What paid for the sale's goods; voucher and points shares refund as store credit and points
+interface SaleTenders {
+  money: number;
+  voucher: number;
+  points: number;
+}
+
+export function ReturnProcessor({
+  transactionId,
+  isOpen,
+  onClose,
+  onReturnComplete,
+}: ReturnProcessorProps) {
+  const [items, setItems] = useState<ReturnableItem[]>([]);
+  const [tenders, setTenders] = useState<SaleTenders | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>("cash");
+  const [refundReference, setRefundReference] = useState("");
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [receiptData, setReceiptData] = useState<ReceiptData | null>(null);
+  // Store credit issued by the return, so its slip can be printed with the refund receipt
+  const [storeCredit, setStoreCredit] = useState<Voucher | null>(null);
+  const [isPrintingCredit, setIsPrintingCredit] = useState(false);
+  // Set when the server needs a manager's PIN before refunding a cashier's return
+  const [approval, setApproval] = useState<{ reason: string; credentials: ManagerCredentials } | null>(null);
+
+  const fetchReturnableItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/transactions/${transactionId}/returns`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load transaction items");
+      }
+
+      setItems(result.data.items || []);
+      setTenders(result.data.tenders || null);
+      // Sales paid entirely with vouchers or points can only be refunded as store credit
+      if (result.data.tenders && result.data.tenders.money <= 0) {
+        setRefundMethod("voucher");
+      }
+      setQuantities({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [transactionId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchReturnableItems();
+      setReceiptData(null);
+      setStoreCredit(null);
+      setApproval(null);
+    }
+  }, [isOpen, fetchReturnableItems]);
+
+  const formatCurrency = (amount: number) => {
+    return `₹${amount.toFixed(2)}`;
+  };
+
+  const handleQuantityChange = (item: ReturnableItem, value: number) => {
+    const quantity = Math.min(Math.max(0, value || 0), item.returnableQuantity);
+    setQuantities((prev) => ({
+      ...prev,
+      [item.transactionItemId]: quantity,
+    }));
+  };
+
+  const selectedItems = items.filter(
+    (item) => (quantities[item.transactionItemId] || 0) > 0
+  );
+
+  // Mirrors the server: each unit refunds what the customer paid for it
+  const refundTotal = selectedItems.reduce(
+    (sum, item) => sum + Math.round(item.refundUnitAmount * quantities[item.transactionItemId] * 100) / 100,
+    0
+  );
+
+  const canRefundMoney = !tenders || tenders.money > 0;
+  const tenderTotal = tenders ? tenders.money + tenders.voucher + tenders.points : 0;
+  const creditShare = tenders && tenderTotal > 0 ? (refundTotal * tenders.voucher) / tenderTotal : 0;
+  const pointsShare = tenders && tenderTotal > 0 ? (refundTotal * tenders.points) / tenderTotal : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (selectedItems.length === 0) {
+      setError("Select at least one item to return");
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/transactions/${transactionId}/returns`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          refundMethod,
+          refundReference: refundReference || undefined,
+          reason: reason || undefined,
+          items: selectedItems.map((item) => ({
+            transactionItemId: item.transactionItemId,
+            quantity: quantities[item.transactionItemId],
+          })),
+          managerOverride: approval?.credentials.pin ? approval.credentials : undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        if (result.overrideRequired) {
+          setApproval((current) => ({
+            reason: response.status === 409
+              ? `${result.error}. Ask a manager to enter their PIN to continue.`
+              : result.error,
+            credentials: { username: current?.credentials.username || "", pin: "" },
+          }));
+          return;
+        }
+        throw new Error(result.error || "Failed to process return");
+      }
+
+      setApproval(null);
+
+      onReturnComplete?.(result.data.id);
+
+      if (result.data.creditCode) {
+        const voucherResponse = await fetch(`/api/vouchers/${encodeURIComponent(result.data.creditCode)}`);
+        if (voucherResponse.ok) {
+          setStoreCredit((await voucherResponse.json()).data);
+        }
+      }
+
+      // Load the return receipt so the refund slip can be printed
+      const receiptResponse = await fetch(`/api/returns/${result.data.id}/receipt`);
+      if (receiptResponse.ok) {
+        const receiptResult = await receiptResponse.json();
+        setReceiptData({
+          ...receiptResult.data,
+          timestamp: new Date(receiptResult.data.timestamp),
+        });
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to process return");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePrintStoreCredit = async () => {
+    if (!storeCredit) return;
+
+    setIsPrintingCredit(true);
+    try {
+      const result = await receiptService.printVoucher(storeCredit);
+      if (!result.success) {
+        setError(result.error || "Failed to print store credit");
+      }
+    } finally {
+      setIsPrintingCredit(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Return Items" size="lg">
+      {receiptData ? (
+        <div className="space-y-4">
+          {storeCredit && (
+            <div className="flex items-center justify-between bg-orange-50 border border-orange-200 rounded-lg p-4 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">
+                  Store credit {formatCurrency(storeCredit.amount)} issued
+                </p>
+                <p className="font-mono text-gray-700">{storeCredit.code}</p>
+              </div>
+              <button
+                type="button"
+                onClick={handlePrintStoreCredit}
+                disabled={isPrintingCredit}
+                className="px-4 py-2 border border-orange-500 text-orange-600 rounded-md hover:bg-orange-100 font-medium disabled:opacity-50"
+              >
+                {isPrintingCredit ? "Printing..." : "Print Credit Slip"}
+              </button>
+            </div>
+          )}
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+          <ReceiptPrinter
+            receiptData={receiptData}
+            onPrintComplete={() => onClose()}
+            onClose={onClose}
+          />
+        </div>
+      ) : loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-orange-500 border-t-transparent"></div>
+          <span className="ml-2 text-gray-600">Loading items...</span>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Items */}
+          <div className="space-y-2">
+            {items.map((item) => (
+              <div
+                key={item.transactionItemId}
+                className="flex items-center justify-between bg-gray-50 rounded p-3 text-sm"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {item.productName}
+                    {item.variantName && (
+                      <span className="text-gray-600"> ({item.variantName})</span>
+                    )}
+                  </p>
+                  <p className="text-gray-600">
+                    Sold {item.soldQuantity} × {formatCurrency(item.unitPrice)}
+                    {item.returnedQuantity > 0 &&
+                      ` · ${item.returnedQuantity} already returned`}
+                  </p>
+                </div>
+                <input
+                  type="number"
+                  min="0"
+                  max={item.returnableQuantity}
+                  disabled={item.returnableQuantity === 0}
+                  value={quantities[item.transactionItemId] || ""}
+                  onChange={(e) => handleQuantityChange(item, parseInt(e.target.value))}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right focus:outline-none focus:ring-2 focus:ring-orange-500 disabled:bg-gray-100"
+                  placeholder="0"
+                  aria-label={`Return quantity for ${item.productName}`}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Refund Method */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Refund Method
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              {(["cash", "upi", "voucher"] as RefundMethod[]).map((method) => (
+                <button
+                  key={method}
+                  type="button"
+                  onClick={() => setRefundMethod(method)}
+                  disabled={method !== "voucher" && !canRefundMoney}
+                  className={`p-3 border rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    refundMethod === method
+                      ? "border-orange-500 bg-orange-50"
+                      : "border-gray-200 hover:border-gray-300"
+                  }`}
+                >
+                  {REFUND_METHOD_LABELS[method]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {refundMethod === "voucher" && (
+            <p className="text-sm text-gray-600">
+              The refund is issued as store credit with its own code, to spend on a later visit.
+            </p>
+          )}
+
+          {creditShare > 0 && (
+            <p className="text-sm text-gray-600">
+              About {formatCurrency(creditShare)} of the refund goes back as store credit, since vouchers paid for that share of the sale.
+            </p>
+          )}
+
+          {pointsShare > 0 && (
+            <p className="text-sm text-gray-600">
+              About {formatCurrency(pointsShare)} of the refund goes back as points, since points paid for that share of the sale.
+            </p>
+          )}
+
+          {refundMethod === "upi" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                UPI Reference <span className="text-gray-500 text-sm">(Optional)</span>
+              </label>
+              <input
+                type="text"
+                value={refundReference}
+                onChange={(e) => setRefundReference(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                placeholder="Enter UPI refund reference"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Reason <span className="text-gray-500 text-sm">(Optional)</span>
+            </label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              placeholder="e.g. Damaged cover, wrong size"
+            />
+          </div>
+
+          {approval && (
+            <ManagerApproval
+              reason={approval.reason}
+              value={approval.credentials}
+              onChange={(credentials) => setApproval({ ...approval, credentials })}
+            />
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isProcessing || selectedItems.length === 0}
+              className="flex-1 px-4 py-3 bg-orange-600 text-white rounded-md hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+            >
+              {isProcessing
+                ? "Processing..."
+                : `Refund ${formatCurrency(refundTotal)}`}
+            </button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
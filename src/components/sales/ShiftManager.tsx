@@ -0,0 +1,253 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Clock, Printer, Wallet } from 'lucide-react';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { receiptService } from '@/services/printer/receiptService';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { CashCountForm } from './CashCountForm';
+import { TerminalLocationSelect } from './TerminalLocationSelect';
+import type { CashCount, Shift, ShiftReport } from '@/types/shift';
+
+const emptyCashCount: CashCount = { notes: {}, coins: 0 };
+
+export function ShiftManager() {
+  const addNotification = useNotificationStore((state) => state.addNotification);
+  const [current, setCurrent] = useState<ShiftReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showOpenForm, setShowOpenForm] = useState(false);
+  const [showEndForm, setShowEndForm] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [cashCount, setCashCount] = useState<CashCount>(emptyCashCount);
+  const [closingNotes, setClosingNotes] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadCurrentShift = useCallback(async () => {
+    try {
+      const response = await fetch('/api/shifts/current');
+      if (!response.ok) {
+        return;
+      }
+
+      const result = await response.json();
+      setCurrent(result.data || null);
+    } catch (error) {
+      console.error('Failed to load current shift:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCurrentShift();
+  }, [loadCurrentShift]);
+
+  const printReport = async (report: ShiftReport) => {
+    const result = await receiptService.printShiftReport(report);
+    if (!result.success) {
+      addNotification({
+        message: result.error || `Failed to print ${report.type} report`,
+        type: 'error',
+      });
+    }
+  };
+
+  const openShift = async () => {
+    setIsWorking(true);
+    try {
+      const response = await fetch('/api/shifts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ openingFloat: parseFloat(openingFloat) || 0 }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to open shift');
+      }
+
+      setShowOpenForm(false);
+      setOpeningFloat('');
+      addNotification({ message: 'Shift opened', type: 'success' });
+      await loadCurrentShift();
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to open shift',
+        type: 'error',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const printXReport = async () => {
+    // Refresh first so the snapshot includes the latest sales
+    const response = await fetch('/api/shifts/current');
+    const result = await response.json();
+    if (response.ok && result.data) {
+      setCurrent(result.data);
+      await printReport(result.data);
+    }
+  };
+
+  const endShift = async () => {
+    if (!current) return;
+
+    setIsWorking(true);
+    try {
+      const response = await fetch(`/api/shifts/${current.shift.id}/close`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          cashCount,
+          closingNotes: closingNotes.trim() || undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to end shift');
+      }
+
+      const closedShift: Shift = result.data;
+      addNotification({
+        message: closedShift.status === 'pending_approval'
+          ? 'Shift ended; the drawer variance needs a manager to sign off'
+          : 'Shift ended',
+        type: closedShift.status === 'pending_approval' ? 'warning' : 'success',
+        duration: 5000,
+      });
+
+      const reportResponse = await fetch(`/api/shifts/${closedShift.id}/report?type=Z`);
+      if (reportResponse.ok) {
+        const reportResult = await reportResponse.json();
+        await printReport(reportResult.data);
+      }
+
+      setShowEndForm(false);
+      setCashCount(emptyCashCount);
+      setClosingNotes('');
+      setCurrent(null);
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to end shift',
+        type: 'error',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  return (
+    <>
+      {current ? (
+        <div className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between text-sm">
+            <div className="flex items-center space-x-4 text-gray-600">
+              <span className="flex items-center">
+                <Clock className="w-4 h-4 mr-1" />
+                Shift since {new Date(current.shift.openedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <span className="hidden sm:inline">{current.transactionCount} sales</span>
+              <span className="flex items-center">
+                <Wallet className="w-4 h-4 mr-1" />
+                Drawer ₹{current.expectedCash.toFixed(2)}
+              </span>
+              <TerminalLocationSelect />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="sm" onClick={printXReport} icon={<Printer className="w-4 h-4" />}>
+                X Report
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={async () => {
+                  await loadCurrentShift();
+                  setShowEndForm(true);
+                }}
+              >
+                End Shift
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-amber-50 border-b border-amber-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between text-sm">
+            <span className="text-amber-800">
+              No shift open. Declare your opening cash float to start selling.
+            </span>
+            <div className="flex items-center space-x-4">
+              <TerminalLocationSelect />
+              <Button size="sm" onClick={() => setShowOpenForm(true)}>
+                Open Shift
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Modal isOpen={showOpenForm} onClose={() => setShowOpenForm(false)} title="Open Shift" size="sm">
+        <div className="space-y-4">
+          <Input
+            label="Opening cash float (₹)"
+            type="number"
+            min={0}
+            step="0.01"
+            value={openingFloat}
+            onChange={(e) => setOpeningFloat(e.target.value)}
+            hint="Cash in the drawer before the first sale"
+            autoFocus
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowOpenForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={openShift} loading={isWorking}>
+              Open Shift
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal isOpen={showEndForm} onClose={() => setShowEndForm(false)} title="End Shift - Count Drawer" size="md">
+        {current && (
+          <div className="space-y-4">
+            <CashCountForm
+              value={cashCount}
+              onChange={setCashCount}
+              expectedCash={current.expectedCash}
+            />
+            <textarea
+              value={closingNotes}
+              onChange={(e) => setClosingNotes(e.target.value)}
+              rows={2}
+              maxLength={500}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              placeholder="Notes, e.g. reason for a variance"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setShowEndForm(false)}>
+                Cancel
+              </Button>
+              <Button onClick={endShift} loading={isWorking}>
+                End Shift &amp; Print Z Report
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+}
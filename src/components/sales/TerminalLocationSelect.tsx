@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { useTerminalStore } from '@/stores/terminalStore';
+import type { Location } from '@/types/stock';
+
+// Which location this till sells from; hidden until the shop has more than one
+export function TerminalLocationSelect() {
+  const locationId = useTerminalStore((state) => state.locationId);
+  const setLocationId = useTerminalStore((state) => state.setLocationId);
+  const [locations, setLocations] = useState<Location[]>([]);
+
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        const response = await fetch('/api/locations?active=true');
+        if (!response.ok) {
+          return;
+        }
+
+        const result = await response.json();
+        const active: Location[] = result.data || [];
+        setLocations(active);
+
+        // A location closed since this till last sold falls back to the default
+        if (locationId && !active.some(location => location.id === locationId)) {
+          setLocationId(null);
+        }
+      } catch (error) {
+        console.error('Failed to load locations:', error);
+      }
+    };
+
+    loadLocations();
+  }, [locationId, setLocationId]);
+
+  if (locations.length <= 1) {
+    return null;
+  }
+
+  const defaultLocation = locations.find(location => location.isDefault);
+
+  return (
+    <label className="flex items-center text-gray-600" title="Sales from this till come out of this location's stock">
+      <MapPin className="w-4 h-4 mr-1" />
+      <select
+        value={locationId || defaultLocation?.id || ''}
+        onChange={(e) => setLocationId(e.target.value === defaultLocation?.id ? null : e.target.value)}
+        className="text-sm bg-transparent border-none focus:outline-none focus:ring-2 focus:ring-orange-500 rounded"
+      >
+        {locations.map((location) => (
+          <option key={location.id} value={location.id}>
+            {location.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { format } from "date-fns";
+import { ReturnProcessor } from "./ReturnProcessor";
+import { VoidTransaction } from "./VoidTransaction";
 
 interface TransactionHistoryProps {
   className?: string;
@@ -26,13 +28,17 @@ interface TransactionWithDetails {
   tax: number;
   discount: number;
   total: number;
-  paymentMethod: "cash" | "upi";
+  paymentMethod: "cash" | "upi" | "split";
   paymentReference?: string;
   status: "completed" | "pending" | "cancelled";
   createdAt: Date;
   syncStatus: "synced" | "pending" | "failed";
   userName: string;
+  customerName?: string | null;
   itemCount: number;
+  approvedByName?: string | null;
+  voidedByName?: string | null;
+  voidReason?: string | null;
 }
 
 export function TransactionHistory({
@@ -48,6 +54,12 @@ export function TransactionHistory({
   const [expandedTransaction, setExpandedTransaction] = useState<string | null>(
     null
   );
+  const [returnTransactionId, setReturnTransactionId] = useState<string | null>(
+    null
+  );
+  const [voidTransaction, setVoidTransaction] = useState<TransactionWithDetails | null>(
+    null
+  );
 
   // Filters
   const [dateFilter, setDateFilter] = useState("today");
@@ -220,6 +232,7 @@ export function TransactionHistory({
                 <option value="all">All Methods</option>
                 <option value="cash">Cash</option>
                 <option value="upi">UPI</option>
+                <option value="split">Split</option>
               </select>
             </div>
             <div className="flex items-end">
@@ -309,6 +322,11 @@ export function TransactionHistory({
                             <p className="text-sm text-gray-500 capitalize">
                               {transaction.paymentMethod}
                             </p>
+                            {transaction.customerName && (
+                              <p className="text-sm text-gray-700 truncate">
+                                {transaction.customerName}
+                              </p>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -377,6 +395,20 @@ export function TransactionHistory({
                         </div>
                       </div>
 
+                      {(transaction.approvedByName || transaction.status === "cancelled") && (
+                        <div className="text-sm text-gray-600 space-y-1">
+                          {transaction.approvedByName && (
+                            <p>Overrides approved by {transaction.approvedByName}</p>
+                          )}
+                          {transaction.status === "cancelled" && (
+                            <p className="text-red-700">
+                              Voided{transaction.voidedByName && ` by ${transaction.voidedByName}`}
+                              {transaction.voidReason && `: ${transaction.voidReason}`}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                       {/* Items List */}
                       <div>
                         <h4 className="text-sm font-medium text-gray-900 mb-2">
@@ -435,6 +467,22 @@ export function TransactionHistory({
                         >
                           Reprint
                         </button>
+                        {transaction.status === "completed" && (
+                          <button
+                            onClick={() => setReturnTransactionId(transaction.id)}
+                            className="px-3 py-1 text-sm border border-red-300 text-red-700 rounded hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                          >
+                            Return Items
+                          </button>
+                        )}
+                        {transaction.status === "completed" && (
+                          <button
+                            onClick={() => setVoidTransaction(transaction)}
+                            className="px-3 py-1 text-sm border border-red-300 text-red-700 rounded hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                          >
+                            Void Sale
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -469,6 +517,25 @@ export function TransactionHistory({
           </div>
         )}
       </div>
+
+      {returnTransactionId && (
+        <ReturnProcessor
+          transactionId={returnTransactionId}
+          isOpen={!!returnTransactionId}
+          onClose={() => setReturnTransactionId(null)}
+          onReturnComplete={() => fetchTransactions()}
+        />
+      )}
+
+      {voidTransaction && (
+        <VoidTransaction
+          transactionId={voidTransaction.id}
+          total={voidTransaction.total}
+          isOpen={!!voidTransaction}
+          onClose={() => setVoidTransaction(null)}
+          onVoided={() => fetchTransactions()}
+        />
+      )}
     </div>
   );
 }
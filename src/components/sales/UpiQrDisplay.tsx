@@ -0,0 +1,79 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Printer, X } from 'lucide-react';
+import { QrCode } from '@/services/barcode/qrCode';
+import { UpiIntent } from '@/services/upi/upiIntent';
+import { receiptService } from '@/services/printer/receiptService';
+import type { UpiPaymentRequest } from '@/types/upi';
+
+interface UpiQrDisplayProps {
+  request: UpiPaymentRequest;
+  // Left out on the customer display, which shows the QR without the cashier's buttons
+  onClose?: () => void;
+}
+
+/**
+ * Full-screen UPI payment QR with the amount filled in, for the customer to scan from the counter
+ */
+export function UpiQrDisplay({ request, onClose }: UpiQrDisplayProps) {
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [printError, setPrintError] = useState<string | null>(null);
+  const svg = useMemo(() => QrCode.toSVG(UpiIntent.buildUri(request)), [request]);
+
+  const handlePrint = async () => {
+    setIsPrinting(true);
+    setPrintError(null);
+    try {
+      const result = await receiptService.printUpiQr(request);
+      if (!result.success) {
+        setPrintError(result.error || 'Failed to print the QR code');
+      }
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-white p-6" role="dialog" aria-label="UPI payment QR">
+      {onClose && (
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-gray-400 hover:text-gray-600 rounded-full"
+          title="Close"
+        >
+          <X className="w-6 h-6" />
+        </button>
+      )}
+
+      <p className="text-lg text-gray-700">{request.payeeName}</p>
+      <p className="text-5xl font-bold text-gray-900 my-4">₹{request.amount.toFixed(2)}</p>
+      <div className="w-full max-w-sm aspect-square" dangerouslySetInnerHTML={{ __html: svg }} />
+      <p className="mt-4 text-gray-700">Scan with any UPI app to pay</p>
+      <p className="text-sm text-gray-500">{request.vpa} · Ref {request.reference}</p>
+
+      {onClose && (
+        <div className="flex space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={handlePrint}
+            disabled={isPrinting}
+            className="flex items-center px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            {isPrinting ? 'Printing...' : 'Print QR'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 font-medium"
+          >
+            Done
+          </button>
+        </div>
+      )}
+      {printError && <p className="mt-3 text-sm text-red-600">{printError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Modal } from "@/components/ui/Modal";
+import { ManagerApproval, type ManagerCredentials } from "./ManagerApproval";
+
+interface VoidTransactionProps {
+  transactionId: string;
+  total: number;
+  isOpen: boolean;
+  onClose: () => void;
+  onVoided?: () => void;
+}
+
+// Cancel a sale from the open shift, putting its stock back; the customer gets their money back by hand
+export function VoidTransaction({
+  transactionId,
+  total,
+  isOpen,
+  onClose,
+  onVoided,
+}: VoidTransactionProps) {
+  const [reason, setReason] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set when the server needs a manager's PIN before a cashier can void
+  const [approval, setApproval] = useState<{ reason: string; credentials: ManagerCredentials } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason("");
+      setError(null);
+      setApproval(null);
+    }
+  }, [isOpen, transactionId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason.trim()) {
+      setError("Give a reason for voiding the sale");
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/transactions/${transactionId}/void`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          reason,
+          managerOverride: approval?.credentials.pin ? approval.credentials : undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        if (result.overrideRequired) {
+          setApproval((current) => ({
+            reason: response.status === 409
+              ? `${result.error}. Ask a manager to enter their PIN to continue.`
+              : result.error,
+            credentials: { username: current?.credentials.username || "", pin: "" },
+          }));
+          return;
+        }
+        throw new Error(result.error || "Failed to void sale");
+      }
+
+      onVoided?.();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to void sale");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Void Sale" size="md">
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <p className="text-sm text-gray-600">
+          The sale of ₹{total.toFixed(2)} is cancelled and its items go back into stock. Hand the
+          customer their money back before voiding.
+        </p>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Reason
+          </label>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            placeholder="e.g. Rang up the wrong edition"
+          />
+        </div>
+
+        {approval && (
+          <ManagerApproval
+            reason={approval.reason}
+            value={approval.credentials}
+            onChange={(credentials) => setApproval({ ...approval, credentials })}
+          />
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex space-x-3 pt-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isProcessing}
+            className="flex-1 px-4 py-3 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {isProcessing ? "Voiding..." : "Void Sale"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -1,17 +1,52 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { FormField } from '@/components/ui/FormField';
 import { Select } from '@/components/ui/Select';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import { SystemSettings } from '@/types/settings';
+import { formatDate } from '@/lib/utils';
+import { UNREGISTERED_DEVICE_ID } from '@/types/auth';
 
 interface AuditLogSettingsProps {
   settings: SystemSettings;
   onChange: (updates: Partial<SystemSettings>) => void;
 }
 
+interface SecurityEvent {
+  id: string;
+  username: string;
+  action: string;
+  targetUsername?: string;
+  details?: any;
+  ipAddress?: string;
+  timestamp: string;
+}
+
+const describeDevice = (deviceId: string) =>
+  deviceId === UNREGISTERED_DEVICE_ID ? 'New devices' : `Device ${deviceId.slice(0, 8)}`;
+
+const describeSecurityEvent = (event: SecurityEvent) => {
+  const details = event.details || {};
+  switch (event.action) {
+    case 'login_failed':
+      return `Wrong PIN for ${details.username} (${details.failedCount} in a row)`;
+    case 'override_failed':
+      return `Wrong manager approval PIN for ${details.username} (${details.failedCount} in a row)`;
+    case 'account_locked':
+      return `${details.username} locked until ${formatDate(details.lockedUntil)}`;
+    case 'device_locked':
+      return `${describeDevice(details.deviceId)} locked until ${formatDate(details.lockedUntil)}`;
+    case 'unlock_user':
+      return `${event.username} unlocked ${event.targetUsername || details.username}`;
+    case 'unlock_device':
+      return `${event.username} unlocked ${describeDevice(details.deviceId).toLowerCase()}`;
+    default:
+      return event.action;
+  }
+};
+
 const LOG_LEVEL_OPTIONS = [
   { value: 'basic', label: 'Basic - Login/logout and major actions' },
   { value: 'detailed', label: 'Detailed - All user actions and system events' },
@@ -21,6 +56,56 @@ const LOG_LEVEL_OPTIONS = [
 export function AuditLogSettings({ settings, onChange }: AuditLogSettingsProps) {
   const [exportingLogs, setExportingLogs] = useState(false);
   const [clearingLogs, setClearingLogs] = useState(false);
+  const [securityEvents, setSecurityEvents] = useState<SecurityEvent[]>([]);
+  const [securityEventsError, setSecurityEventsError] = useState<string | null>(null);
+  const [loadingSecurityEvents, setLoadingSecurityEvents] = useState(true);
+  const [unlockingDevice, setUnlockingDevice] = useState<string | null>(null);
+
+  const fetchSecurityEvents = useCallback(async () => {
+    setLoadingSecurityEvents(true);
+    setSecurityEventsError(null);
+
+    try {
+      const response = await fetch('/api/users/security-events?limit=20');
+      if (response.status === 403) {
+        throw new Error('Security events are only shown to staff who can manage users');
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load security events');
+      }
+
+      const data = await response.json();
+      setSecurityEvents(data.events || []);
+    } catch (error) {
+      setSecurityEventsError(error instanceof Error ? error.message : 'Failed to load security events');
+    } finally {
+      setLoadingSecurityEvents(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSecurityEvents();
+  }, [fetchSecurityEvents]);
+
+  const handleUnlockDevice = async (deviceId: string) => {
+    setUnlockingDevice(deviceId);
+
+    try {
+      const response = await fetch(`/api/users/devices/${encodeURIComponent(deviceId)}/unlock`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to unlock device');
+      }
+
+      await fetchSecurityEvents();
+    } catch (error) {
+      console.error('Failed to unlock device:', error);
+      alert('Failed to unlock device');
+    } finally {
+      setUnlockingDevice(null);
+    }
+  };
 
   const handleAuditLogChange = (field: keyof SystemSettings['auditLog'], value: any) => {
     onChange({
@@ -218,6 +303,79 @@ export function AuditLogSettings({ settings, onChange }: AuditLogSettingsProps)
         </div>
       </div>
 
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Security Events
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Wrong PINs, refused approvals and lockouts; unlock staff from User Management and devices here
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchSecurityEvents}
+            disabled={loadingSecurityEvents}
+          >
+            Refresh
+          </Button>
+        </div>
+
+        {securityEventsError ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{securityEventsError}</p>
+        ) : loadingSecurityEvents ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading security events...</p>
+        ) : securityEvents.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No failed logins or lockouts recorded</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">When</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Event</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Device</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {securityEvents.map((event) => (
+                  <tr key={event.id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                      {formatDate(event.timestamp)}
+                    </td>
+                    <td className={`px-3 py-2 ${
+                      event.action.endsWith('_locked')
+                        ? 'text-red-700 dark:text-red-300 font-medium'
+                        : 'text-gray-900 dark:text-white'
+                    }`}>
+                      {describeSecurityEvent(event)}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                      {event.ipAddress || '-'}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-right">
+                      {event.action === 'device_locked' && event.details?.deviceId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUnlockDevice(event.details.deviceId)}
+                          disabled={unlockingDevice === event.details.deviceId}
+                        >
+                          Unlock
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
       <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-6">
         <h3 className="text-lg font-medium text-gray-900 dark:text-white">
           Log Management
@@ -1,8 +1,15 @@
 'use client';
 
+import { useState, useEffect } from 'react';
+import { Search, X } from 'lucide-react';
 import { FormField } from '@/components/ui/FormField';
 import { Select } from '@/components/ui/Select';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { Button } from '@/components/ui/Button';
 import { SystemSettings } from '@/types/settings';
+import type { CustomerDisplaySlide } from '@/types/customerDisplay';
+import type { Product } from '@/types';
 
 interface DisplaySettingsProps {
   settings: SystemSettings;
@@ -38,6 +45,72 @@ export function DisplaySettings({ settings, onChange }: DisplaySettingsProps) {
     onChange(newSettings);
   };
 
+  const [bookQuery, setBookQuery] = useState('');
+  const [bookResults, setBookResults] = useState<Product[]>([]);
+  const slides = settings.customerDisplay.slides;
+
+  // Look books up as the user types, without a request per keystroke
+  useEffect(() => {
+    if (bookQuery.trim().length < 2) {
+      setBookResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/products?search=${encodeURIComponent(bookQuery.trim())}&limit=10`);
+        if (response.ok) {
+          const result = await response.json();
+          setBookResults(result.data?.products || []);
+        }
+      } catch (error) {
+        console.error('Error searching products:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [bookQuery]);
+
+  const handleCustomerDisplayChange = (updates: Partial<SystemSettings['customerDisplay']>) => {
+    onChange({
+      customerDisplay: {
+        ...settings.customerDisplay,
+        ...updates,
+      },
+    });
+  };
+
+  const updateSlide = (id: string, changes: Partial<CustomerDisplaySlide>) => {
+    handleCustomerDisplayChange({
+      slides: slides.map(slide => (slide.id === id ? { ...slide, ...changes } : slide)),
+    });
+  };
+
+  const addSlide = (slide: Omit<CustomerDisplaySlide, 'id'>) => {
+    handleCustomerDisplayChange({
+      slides: [...slides, { id: `slide-${Date.now()}`, ...slide }],
+    });
+  };
+
+  const handleFeatureBook = (product: Product) => {
+    addSlide({
+      title: product.name,
+      message: [product.description, `Now ₹${product.basePrice.toFixed(2)}`].filter(Boolean).join('\n'),
+    });
+    setBookQuery('');
+  };
+
+  // Slide pictures are kept with the settings, so the display works offline
+  const handleSlideImage = (id: string, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        updateSlide(id, { imageUrl: e.target?.result as string });
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
   // Theme changes are applied automatically by the settings service
 
   return (
@@ -136,6 +209,111 @@ export function DisplaySettings({ settings, onChange }: DisplaySettingsProps) {
         </div>
       </div>
 
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-6">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            Customer Display
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Slides shown on the second screen between sales. Open it from the sales screen.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            label="Seconds per Slide"
+            hint="How long each announcement stays up"
+          >
+            <Input
+              type="number"
+              min="3"
+              max="120"
+              value={settings.customerDisplay.slideIntervalSeconds}
+              onChange={(e) => handleCustomerDisplayChange({ slideIntervalSeconds: Number(e.target.value) || 8 })}
+            />
+          </FormField>
+        </div>
+
+        <div className="space-y-4">
+          {slides.map((slide) => (
+            <div key={slide.id} className="p-4 border rounded-lg space-y-3">
+              <div className="flex items-start space-x-2">
+                <div className="flex-1">
+                  <Input
+                    value={slide.title}
+                    onChange={(e) => updateSlide(slide.id, { title: e.target.value })}
+                    placeholder="e.g. Gaura Purnima Festival - 14 March"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleCustomerDisplayChange({ slides: slides.filter(item => item.id !== slide.id) })}
+                  className="p-2 text-gray-400 hover:text-gray-600 rounded-full"
+                  title="Remove slide"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <Textarea
+                rows={2}
+                value={slide.message}
+                onChange={(e) => updateSlide(slide.id, { message: e.target.value })}
+                placeholder="Details shown under the title"
+              />
+              <div className="flex items-center space-x-3">
+                {slide.imageUrl && (
+                  <img
+                    src={slide.imageUrl}
+                    alt=""
+                    className="max-w-32 max-h-16 object-contain border rounded"
+                  />
+                )}
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => handleSlideImage(slide.id, e)}
+                  className="block text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-orange-50 file:text-orange-700 hover:file:bg-orange-100"
+                />
+                {slide.imageUrl && (
+                  <Button size="sm" variant="ghost" onClick={() => updateSlide(slide.id, { imageUrl: undefined })}>
+                    Remove picture
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex flex-col md:flex-row md:items-start md:space-x-3 space-y-3 md:space-y-0">
+            <Button size="sm" variant="outline" onClick={() => addSlide({ title: '', message: '' })}>
+              Add Announcement
+            </Button>
+            <div className="flex-1">
+              <Input
+                value={bookQuery}
+                onChange={(e) => setBookQuery(e.target.value)}
+                placeholder="Feature a book: search the catalog"
+                leftIcon={<Search className="w-4 h-4" />}
+                inputSize="sm"
+              />
+              {bookResults.length > 0 && (
+                <div className="mt-1 max-h-48 overflow-y-auto border rounded-lg divide-y divide-gray-100">
+                  {bookResults.map((product) => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      onClick={() => handleFeatureBook(product)}
+                      className="block w-full px-3 py-2 text-left text-sm hover:bg-orange-50"
+                    >
+                      {product.name} <span className="text-gray-500">₹{product.basePrice.toFixed(2)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
       <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
         <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
           Preview
@@ -2,7 +2,10 @@
 
 import { FormField } from '@/components/ui/FormField';
 import { Select } from '@/components/ui/Select';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
 import { SystemSettings } from '@/types/settings';
+import { GST_STATE_CODES } from '@/types/tax';
 import { 
   Globe, 
   DollarSign, 
@@ -10,7 +13,11 @@ import {
   Calendar, 
   Timer, 
   Eye, 
-  Info 
+  Info,
+  ShoppingCart,
+  Receipt,
+  HandHeart,
+  QrCode
 } from 'lucide-react';
 
 interface SystemPreferencesProps {
@@ -35,6 +42,11 @@ const TIMEZONE_OPTIONS = [
   { value: 'UTC', label: 'UTC' },
 ];
 
+const STATE_OPTIONS = Object.entries(GST_STATE_CODES).map(([code, name]) => ({
+  value: code,
+  label: `${code} - ${name}`,
+}));
+
 const DATE_FORMAT_OPTIONS = [
   { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY (31/12/2024)' },
   { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (12/31/2024)' },
@@ -186,6 +198,211 @@ export function SystemPreferences({ settings, onChange }: SystemPreferencesProps
         </div>
       </div>
 
+      {/* Sales Counter Section */}
+      <div className="space-y-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-8 h-8 bg-gradient-to-br from-orange-500 to-amber-500 rounded-lg flex items-center justify-center">
+            <ShoppingCart className="w-4 h-4 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Sales Counter
+            </h3>
+            <p className="text-sm text-gray-600">
+              Configure how held sales are handled at the counter
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            label="Held Sale Expiry"
+            hint="Minutes a parked cart stays available before it expires"
+          >
+            <Input
+              type="number"
+              value={settings.sales.heldCartExpiryMinutes}
+              onChange={(e) => handleChange('sales', {
+                ...settings.sales,
+                heldCartExpiryMinutes: parseInt(e.target.value),
+              })}
+              min={5}
+              max={10080}
+            />
+          </FormField>
+        </div>
+      </div>
+
+      {/* GST Registration Section */}
+      <div className="space-y-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-8 h-8 bg-gradient-to-br from-orange-500 to-amber-500 rounded-lg flex items-center justify-center">
+            <Receipt className="w-4 h-4 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              GST Registration
+            </h3>
+            <p className="text-sm text-gray-600">
+              Used when exporting GSTR-1 returns
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            label="GSTIN"
+            hint="15-character GST identification number of the store"
+          >
+            <Input
+              value={settings.tax.gstin}
+              onChange={(e) => handleChange('tax', {
+                ...settings.tax,
+                gstin: e.target.value.toUpperCase(),
+              })}
+              maxLength={15}
+              placeholder="19ABCDE1234F1Z5"
+            />
+          </FormField>
+
+          <FormField
+            label="State"
+            hint="Sales within this state are charged CGST + SGST"
+          >
+            <Select
+              value={settings.tax.stateCode}
+              onChange={(e) => handleChange('tax', {
+                ...settings.tax,
+                stateCode: e.target.value,
+              })}
+              options={STATE_OPTIONS}
+            />
+          </FormField>
+        </div>
+      </div>
+
+      {/* 80G Donation Receipts Section */}
+      <div className="space-y-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-8 h-8 bg-gradient-to-br from-orange-500 to-amber-500 rounded-lg flex items-center justify-center">
+            <HandHeart className="w-4 h-4 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Donation Receipts
+            </h3>
+            <p className="text-sm text-gray-600">
+              Printed on the 80G receipt given for each donation
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            label="Trust PAN"
+            hint="PAN of the trust receiving the donations"
+          >
+            <Input
+              value={settings.donations.trustPan}
+              onChange={(e) => handleChange('donations', {
+                ...settings.donations,
+                trustPan: e.target.value.toUpperCase(),
+              })}
+              maxLength={10}
+              placeholder="AAATI1234A"
+            />
+          </FormField>
+
+          <FormField
+            label="80G Registration Number"
+            hint="Approval number under section 80G of the Income Tax Act"
+          >
+            <Input
+              value={settings.donations.registrationNumber}
+              onChange={(e) => handleChange('donations', {
+                ...settings.donations,
+                registrationNumber: e.target.value,
+              })}
+            />
+          </FormField>
+
+          <FormField
+            label="Purposes"
+            hint="One per line; offered at the till when taking a donation"
+            className="md:col-span-2"
+          >
+            <Textarea
+              value={settings.donations.purposes.join('\n')}
+              onChange={(e) => handleChange('donations', {
+                ...settings.donations,
+                purposes: e.target.value.split('\n'),
+              })}
+              rows={4}
+            />
+          </FormField>
+        </div>
+      </div>
+
+      {/* UPI Payments Section */}
+      <div className="space-y-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-8 h-8 bg-gradient-to-br from-orange-500 to-amber-500 rounded-lg flex items-center justify-center">
+            <QrCode className="w-4 h-4 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              UPI Payments
+            </h3>
+            <p className="text-sm text-gray-600">
+              Account the payment QR at the till pays into
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            label="UPI ID (VPA)"
+            hint="Leave empty to take UPI without a QR code"
+          >
+            <Input
+              value={settings.upi.vpa}
+              onChange={(e) => handleChange('upi', {
+                ...settings.upi,
+                vpa: e.target.value.trim(),
+              })}
+              placeholder="iskconasansol@sbi"
+            />
+          </FormField>
+
+          <FormField
+            label="Payee Name"
+            hint="Shown in the customer's UPI app"
+          >
+            <Input
+              value={settings.upi.payeeName}
+              onChange={(e) => handleChange('upi', {
+                ...settings.upi,
+                payeeName: e.target.value,
+              })}
+            />
+          </FormField>
+
+          <FormField
+            label="Reference Prefix"
+            hint="Starts every payment reference, to find our payments on the bank statement"
+          >
+            <Input
+              value={settings.upi.referencePrefix}
+              onChange={(e) => handleChange('upi', {
+                ...settings.upi,
+                referencePrefix: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''),
+              })}
+              maxLength={10}
+            />
+          </FormField>
+        </div>
+      </div>
+
       {/* Preview Section */}
       <div className="bg-gradient-to-br from-orange-50 to-amber-50 border border-orange-200 rounded-xl p-6">
         <div className="flex items-start space-x-4">
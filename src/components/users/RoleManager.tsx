@@ -0,0 +1,271 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Edit, Plus, Shield, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { PERMISSION_CATALOGUE, type Permission, type Role } from '@/types/auth';
+
+interface RoleManagerProps {
+  roles: Role[];
+}
+
+// The catalogue grouped for the form, in catalogue order
+const permissionGroups = PERMISSION_CATALOGUE.reduce<Record<string, typeof PERMISSION_CATALOGUE[number][]>>(
+  (groups, permission) => {
+    (groups[permission.group] ||= []).push(permission);
+    return groups;
+  },
+  {}
+);
+
+export function RoleManager({ roles }: RoleManagerProps) {
+  const router = useRouter();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [id, setId] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const openForm = (role?: Role) => {
+    setEditingRole(role || null);
+    setId(role?.id || '');
+    setName(role?.name || '');
+    setDescription(role?.description || '');
+    setPermissions(role?.permissions || []);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const togglePermission = (permission: Permission) => {
+    setPermissions((current) =>
+      current.includes(permission)
+        ? current.filter((p) => p !== permission)
+        : [...current, permission]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const body = {
+        name,
+        description: description.trim() || null,
+        // Admin always holds every permission, so its list isn't sent
+        ...(editingRole?.id === 'admin' ? {} : { permissions }),
+      };
+
+      const response = await fetch(
+        editingRole ? `/api/roles/${editingRole.id}` : '/api/roles',
+        {
+          method: editingRole ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(editingRole ? body : { id, ...body }),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save role');
+      }
+
+      addNotification({
+        message: `${result.data.name} ${editingRole ? 'updated' : 'added'}`,
+        type: 'success',
+      });
+      setIsFormOpen(false);
+      router.refresh();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save role');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    if (!confirm(`Delete the ${role.name} role?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/roles/${role.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete role');
+      }
+
+      addNotification({ message: `${role.name} deleted`, type: 'success' });
+      router.refresh();
+    } catch (error) {
+      addNotification({
+        message: error instanceof Error ? error.message : 'Failed to delete role',
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Roles</h2>
+          <p className="text-gray-600">What each role can do; change a role and everyone on it follows</p>
+        </div>
+        <Button onClick={() => openForm()} icon={<Plus className="w-4 h-4" />}>
+          Add Role
+        </Button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Permissions</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Users</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {roles.map((role) => (
+              <tr key={role.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="flex items-center text-sm font-medium text-gray-900">
+                    <Shield className="w-4 h-4 mr-2 text-gray-400" />
+                    {role.name}
+                    {role.isSystem && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                        Built-in
+                      </span>
+                    )}
+                  </div>
+                  {role.description && (
+                    <div className="text-xs text-gray-500 mt-1">{role.description}</div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {role.permissions.length === PERMISSION_CATALOGUE.length
+                    ? 'Everything'
+                    : role.permissions.length === 0
+                      ? 'Nothing yet'
+                      : PERMISSION_CATALOGUE
+                        .filter((permission) => role.permissions.includes(permission.id))
+                        .map((permission) => permission.label)
+                        .join(', ')}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                  {role.userCount ?? 0}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right">
+                  <button
+                    onClick={() => openForm(role)}
+                    className="text-orange-600 hover:text-orange-900 p-1"
+                    title="Edit role"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  {!role.isSystem && (
+                    <button
+                      onClick={() => handleDelete(role)}
+                      className="text-red-600 hover:text-red-900 p-1"
+                      title="Delete role"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        title={editingRole ? `Edit ${editingRole.name}` : 'Add Role'}
+        size="lg"
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label="Name *"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Bookkeeper, Weekend volunteer"
+            required
+          />
+          {!editingRole && (
+            <Input
+              label="Role id *"
+              value={id}
+              onChange={(e) => setId(e.target.value)}
+              placeholder="e.g. bookkeeper"
+              hint="Lowercase letters, numbers, hyphens and underscores; it can't be changed later"
+              required
+            />
+          )}
+          <Input
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+
+          {editingRole?.id === 'admin' ? (
+            <p className="text-sm text-gray-500">Administrators always have every permission.</p>
+          ) : (
+            <div className="space-y-4">
+              {Object.entries(permissionGroups).map(([group, groupPermissions]) => (
+                <fieldset key={group}>
+                  <legend className="text-sm font-medium text-gray-900 mb-2">{group}</legend>
+                  <div className="space-y-2">
+                    {groupPermissions.map((permission) => (
+                      <label key={permission.id} className="flex items-start space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={permissions.includes(permission.id)}
+                          onChange={() => togglePermission(permission.id)}
+                          className="mt-0.5 rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                        />
+                        <span>
+                          {permission.label}
+                          <span className="block text-xs text-gray-500">{permission.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              ))}
+            </div>
+          )}
+
+          {formError && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              {formError}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={isSubmitting} disabled={!name.trim() || (!editingRole && !id.trim())}>
+              {editingRole ? 'Save' : 'Add Role'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
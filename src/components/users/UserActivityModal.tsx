@@ -34,17 +34,26 @@ interface UserActivityModalProps {
 const actionOptions = [
   { value: '', label: 'All Actions' },
   { value: 'login', label: 'Login' },
+  { value: 'login_failed', label: 'Failed Login' },
+  { value: 'account_locked', label: 'Account Locked' },
+  { value: 'unlock_user', label: 'Unlock User' },
   { value: 'create_user', label: 'Create User' },
   { value: 'update_user', label: 'Update User' },
   { value: 'deactivate_user', label: 'Deactivate User' },
   { value: 'reactivate_user', label: 'Reactivate User' },
   { value: 'change_pin', label: 'Change PIN' },
+  { value: 'post_stock_take', label: 'Post Stock Take' },
 ];
 
 const getActionColor = (action: string) => {
   switch (action) {
     case 'login':
       return 'bg-green-100 text-green-800';
+    case 'login_failed':
+    case 'account_locked':
+      return 'bg-red-100 text-red-800';
+    case 'unlock_user':
+      return 'bg-green-100 text-green-800';
     case 'create_user':
       return 'bg-blue-100 text-blue-800';
     case 'update_user':
@@ -55,6 +64,8 @@ const getActionColor = (action: string) => {
       return 'bg-green-100 text-green-800';
     case 'change_pin':
       return 'bg-purple-100 text-purple-800';
+    case 'post_stock_take':
+      return 'bg-orange-100 text-orange-800';
     default:
       return 'bg-gray-100 text-gray-800';
   }
@@ -64,6 +75,12 @@ const getActionLabel = (action: string) => {
   switch (action) {
     case 'login':
       return 'Login';
+    case 'login_failed':
+      return 'Failed Login';
+    case 'account_locked':
+      return 'Account Locked';
+    case 'unlock_user':
+      return 'Unlocked User';
     case 'create_user':
       return 'Created User';
     case 'update_user':
@@ -74,6 +91,8 @@ const getActionLabel = (action: string) => {
       return 'Reactivated User';
     case 'change_pin':
       return 'Changed PIN';
+    case 'post_stock_take':
+      return 'Posted Stock Take';
     default:
       return action.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
   }
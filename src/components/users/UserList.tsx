@@ -9,7 +9,7 @@ import { CreateUserForm } from '@/components/forms/CreateUserForm';
 import { EditUserForm } from '@/components/forms/EditUserForm';
 import { UserActivityModal } from './UserActivityModal';
 import { formatDate } from '@/lib/utils';
-import type { UserRole } from '@/types/auth';
+import type { Role, UserRole } from '@/types/auth';
 import type { CreateUserInput, UpdateUserInput } from '@/lib/validation/user';
 
 interface User {
@@ -20,26 +20,21 @@ interface User {
   createdAt: Date;
   updatedAt: Date;
   lastLoginAt?: Date;
+  lockedUntil?: Date | null; // Set while failed PINs have the account locked out
 }
 
 interface UserListProps {
-  currentUserRole: UserRole;
+  roles: Role[];
+  canManage: boolean;
 }
 
-const roleOptions = [
-  { value: '', label: 'All Roles' },
-  { value: 'cashier', label: 'Cashier' },
-  { value: 'manager', label: 'Manager' },
-  { value: 'admin', label: 'Administrator' },
-];
-
 const statusOptions = [
   { value: '', label: 'All Users' },
   { value: 'true', label: 'Active' },
   { value: 'false', label: 'Inactive' },
 ];
 
-export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
+export const UserList: React.FC<UserListProps> = ({ roles, canManage }) => {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -59,6 +54,11 @@ export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [activityUser, setActivityUser] = useState<User | null>(null);
   
+  const roleOptions = [
+    { value: '', label: 'All Roles' },
+    ...roles.map(role => ({ value: role.id, label: role.name })),
+  ];
+  
   // Form loading states
   const [createLoading, setCreateLoading] = useState(false);
   const [updateLoading, setUpdateLoading] = useState(false);
@@ -196,6 +196,24 @@ export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
     }
   };
 
+  // Unlock user
+  const handleUnlockUser = async (user: User) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}/unlock`, {
+        method: 'POST',
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to unlock user');
+      }
+      
+      await fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
   const getRoleBadgeColor = (role: UserRole) => {
     switch (role) {
       case 'admin':
@@ -205,7 +223,8 @@ export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
       case 'cashier':
         return 'bg-green-100 text-green-800';
       default:
-        return 'bg-gray-100 text-gray-800';
+        // Custom roles
+        return 'bg-purple-100 text-purple-800';
     }
   };
 
@@ -225,7 +244,7 @@ export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
           <h1 className="text-2xl font-bold text-gray-900">User Management</h1>
           <p className="text-gray-600">Manage system users and their permissions</p>
         </div>
-        {currentUserRole === 'admin' && (
+        {canManage && (
           <Button onClick={() => setShowCreateModal(true)}>
             Create User
           </Button>
@@ -304,6 +323,14 @@ export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
                   }`}>
                     {user.isActive ? 'Active' : 'Inactive'}
                   </span>
+                  {user.lockedUntil && (
+                    <span
+                      className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                      title={`Too many wrong PINs; locked until ${formatDate(user.lockedUntil)}`}
+                    >
+                      Locked
+                    </span>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {user.lastLoginAt ? formatDate(user.lastLoginAt) : 'Never'}
@@ -319,7 +346,7 @@ export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
                   >
                     Activity
                   </Button>
-                  {currentUserRole === 'admin' && (
+                  {canManage && (
                     <>
                       <Button
                         variant="ghost"
@@ -328,6 +355,15 @@ export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
                       >
                         Edit
                       </Button>
+                      {user.lockedUntil && (
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => handleUnlockUser(user)}
+                        >
+                          Unlock
+                        </Button>
+                      )}
                       {user.isActive ? (
                         <Button
                           variant="danger"
@@ -395,6 +431,7 @@ export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
         size="md"
       >
         <CreateUserForm
+          roles={roles}
           onSubmit={handleCreateUser}
           onCancel={() => setShowCreateModal(false)}
           loading={createLoading}
@@ -411,6 +448,7 @@ export const UserList: React.FC<UserListProps> = ({ currentUserRole }) => {
         >
           <EditUserForm
             user={editingUser}
+            roles={roles}
             onSubmit={handleUpdateUser}
             onCancel={() => setEditingUser(null)}
             loading={updateLoading}
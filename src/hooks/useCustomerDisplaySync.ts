@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useCartStore } from '@/stores/cartStore';
+import { customerDisplayChannel, CustomerDisplayChannel } from '@/services/display/customerDisplayChannel';
+
+/**
+ * Mirror the cart on the customer display while the till is open
+ */
+export function useCustomerDisplaySync() {
+  useEffect(() => {
+    const publish = () => {
+      customerDisplayChannel.post({
+        type: 'cart',
+        cart: CustomerDisplayChannel.snapshot(useCartStore.getState()),
+      });
+    };
+
+    publish();
+    const unsubscribeCart = useCartStore.subscribe(publish);
+    // A display opened mid-sale catches up straight away
+    const unsubscribeDisplay = customerDisplayChannel.subscribe((message) => {
+      if (message.type === 'request_state') {
+        publish();
+      }
+    });
+
+    return () => {
+      unsubscribeCart();
+      unsubscribeDisplay();
+    };
+  }, []);
+}
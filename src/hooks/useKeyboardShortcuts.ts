@@ -1,8 +1,9 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
+import { useEffect, useCallback, useRef } from 'react';
+import { ScanDetector } from '@/services/barcode/scanDetector';
 
-interface KeyboardShortcut {
+export interface KeyboardShortcut {
   key: string;
   ctrlKey?: boolean;
   altKey?: boolean;
@@ -16,12 +17,35 @@ interface KeyboardShortcut {
 interface UseKeyboardShortcutsOptions {
   shortcuts: KeyboardShortcut[];
   enabled?: boolean;
+  // Called with the code when a barcode scanner (rapid keys ending in Enter) is detected
+  onScan?: (code: string) => void;
 }
 
 export const useKeyboardShortcuts = ({
   shortcuts,
   enabled = true,
+  onScan,
 }: UseKeyboardShortcutsOptions) => {
+  const scanDetector = useRef(new ScanDetector());
+
+  const handleScanKey = useCallback((event: KeyboardEvent) => {
+    if (!enabled || !onScan) return;
+
+    if (event.ctrlKey || event.altKey || event.metaKey) {
+      scanDetector.current.reset();
+      return;
+    }
+
+    // Scans are picked up even while a field has focus, since the search box usually does
+    const code = scanDetector.current.handleKey(event.key, event.timeStamp);
+    if (code) {
+      // Keep the scanner's Enter from also submitting the focused field
+      event.preventDefault();
+      event.stopPropagation();
+      onScan(code);
+    }
+  }, [onScan, enabled]);
+
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     if (!enabled) return;
 
@@ -60,6 +84,14 @@ export const useKeyboardShortcuts = ({
     }
   }, [handleKeyDown, enabled]);
 
+  useEffect(() => {
+    if (enabled && onScan) {
+      // Capture phase, so a scan is seen before any field's own Enter handling
+      document.addEventListener('keydown', handleScanKey, true);
+      return () => document.removeEventListener('keydown', handleScanKey, true);
+    }
+  }, [handleScanKey, onScan, enabled]);
+
   return shortcuts;
 };
 
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { userService } from '@/services/database/users';
+import { managerOverrideSchema } from '@/lib/validation/user';
+import { OVERRIDE_PROMPTS, type OverrideReason } from '@/types/auth';
+import type { User } from '@/lib/db/schema';
+
+/**
+ * Check the manager approval a cashier's request carries for the given reasons.
+ * Returns the approving manager, or the response to send when the approval is
+ * missing (409, so the till can prompt for it), not accepted (403) or held off
+ * after too many wrong PINs (429).
+ */
+export async function authorizeManagerOverride(
+  credentials: unknown,
+  reasons: OverrideReason[],
+  details: Record<string, any>
+): Promise<User | NextResponse> {
+  const overrideRequired = reasons[0];
+
+  if (credentials === undefined || credentials === null) {
+    return NextResponse.json(
+      { error: OVERRIDE_PROMPTS[overrideRequired], overrideRequired },
+      { status: 409 }
+    );
+  }
+
+  const result = managerOverrideSchema.safeParse(credentials);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error.errors[0]?.message || 'Invalid manager approval', overrideRequired },
+      { status: 400 }
+    );
+  }
+
+  let manager: User | null;
+  try {
+    manager = await userService.authorizeOverride(
+      result.data.username,
+      result.data.pin,
+      'manager_override',
+      { reasons, ...details }
+    );
+  } catch (error) {
+    // Too many wrong PINs for this manager; the message says how long to wait
+    if (error instanceof Error && error.message.includes('Try again in')) {
+      return NextResponse.json(
+        { error: error.message, overrideRequired },
+        { status: 429 }
+      );
+    }
+    throw error;
+  }
+
+  if (!manager) {
+    return NextResponse.json(
+      { error: 'Manager username or PIN not accepted', overrideRequired },
+      { status: 403 }
+    );
+  }
+
+  return manager;
+}
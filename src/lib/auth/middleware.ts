@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSessionFromRequest, setSessionCookie, refreshSession, isSessionExpiringSoon } from './session';
 import { authService } from '@/services/auth/authService';
-import type { UserRole, Permission } from '@/types/auth';
+import type { AuthUser, UserRole, Permission } from '@/types/auth';
 
 export interface AuthMiddlewareOptions {
   requiredRole?: UserRole;
@@ -42,8 +42,8 @@ export async function withAuth(
     // Check permission requirements
     if (options.requiredPermissions && options.requiredPermissions.length > 0) {
       const hasPermission = options.requireAnyPermission
-        ? authService.hasAnyPermission(user.role, options.requiredPermissions)
-        : authService.hasAllPermissions(user.role, options.requiredPermissions);
+        ? authService.hasAnyPermission(user, options.requiredPermissions)
+        : authService.hasAllPermissions(user, options.requiredPermissions);
 
       if (!hasPermission) {
         return NextResponse.json(
@@ -127,17 +127,17 @@ export function adminOnly(
 }
 
 /**
- * Check if user can access a specific resource
+ * Check if user holds every one of the permissions a resource needs
  */
-export function canAccess(userRole: UserRole, requiredPermissions: Permission[]): boolean {
-  return authService.hasAllPermissions(userRole, requiredPermissions);
+export function canAccess(user: Pick<AuthUser, 'permissions'>, requiredPermissions: Permission[]): boolean {
+  return authService.hasAllPermissions(user, requiredPermissions);
 }
 
 /**
- * Get user role hierarchy level (higher number = more permissions)
+ * Get user role hierarchy level (higher number = more permissions); custom roles have none
  */
 export function getRoleLevel(role: UserRole): number {
-  const levels = {
+  const levels: Record<string, number> = {
     cashier: 1,
     manager: 2,
     admin: 3,
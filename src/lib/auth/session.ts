@@ -6,6 +6,7 @@ import { DEFAULT_AUTH_CONFIG } from '@/types/auth';
 import { authService } from '@/services/auth/authService';
 
 const SESSION_COOKIE_NAME = 'baikuntha-session';
+const DEVICE_COOKIE_NAME = 'baikuntha-device';
 const SESSION_SECRET = process.env.APP_SECRET || 'fallback-secret-key-change-in-production';
 
 /**
@@ -52,6 +53,24 @@ class SimpleTokenManager {
     }
   }
 
+  /**
+   * Sign a value so it can be handed out and trusted when it comes back
+   */
+  sign(value: string): string {
+    return `${value}.${this.createSignature(value)}`;
+  }
+
+  /**
+   * The value a signed token was made from, or null if it wasn't signed here
+   */
+  unsign(token: string): string | null {
+    const separator = token.lastIndexOf('.');
+    if (separator <= 0) return null;
+
+    const value = token.slice(0, separator);
+    return token.slice(separator + 1) === this.createSignature(value) ? value : null;
+  }
+
   private createSignature(payload: string): string {
     // Simple HMAC-like signature using built-in crypto
     return crypto
@@ -182,4 +201,26 @@ export async function getSessionUser(request?: NextRequest): Promise<AuthUser |
     return getSessionFromRequest(request);
   }
   return getSession();
-}
\ No newline at end of file
+}
+
+/**
+ * The terminal a request comes from, from the signed id the server gave it at its first login.
+ * Unlike the client's address headers this can't be made up, so a device can't dodge its own throttle.
+ */
+export function getDeviceId(request: NextRequest): string | null {
+  const token = request.cookies.get(DEVICE_COOKIE_NAME)?.value;
+  return token ? tokenManager.unsign(token) : null;
+}
+
+/**
+ * Give the terminal a new device id, kept for a year
+ */
+export function setDeviceCookie(response: NextResponse): void {
+  response.cookies.set(DEVICE_COOKIE_NAME, tokenManager.sign(crypto.randomUUID()), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 365 * 24 * 60 * 60,
+    path: '/',
+  });
+}
@@ -66,6 +66,17 @@ export const STOCK_CONFIG = {
   OUT_OF_STOCK_THRESHOLD: 0,
 } as const
 
+export const SCANNER_CONFIG = {
+  // USB scanners type a whole code within a few ms per key; people can't keep this pace
+  MAX_KEY_INTERVAL_MS: 50,
+  MIN_LENGTH: 6,
+} as const
+
+export const SHIFT_CONFIG = {
+  // Drawer variances above this many rupees need a manager to sign off the shift
+  VARIANCE_APPROVAL_THRESHOLD: 100,
+} as const
+
 export const RECEIPT_CONFIG = {
   TEMPLE_NAME: 'ISKCON Asansol Temple',
   STORE_NAME: 'Gift & Book Store',
@@ -25,6 +25,11 @@ export function getDb() {
   return db;
 }
 
+export type Database = ReturnType<typeof getDb>;
+
+// Handle passed to `db.transaction` callbacks, so helpers can join the caller's transaction
+export type DbTransaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
 export function getClient() {
   if (!client) {
     getDb(); // This will initialize the client
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
 
 // Users table
@@ -6,7 +6,7 @@ export const users = sqliteTable('users', {
   id: text('id').primaryKey(),
   username: text('username').notNull().unique(),
   pinHash: text('pin_hash').notNull(),
-  role: text('role').notNull(), // 'admin' | 'manager' | 'cashier'
+  role: text('role').notNull(), // Id of a row in roles
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
@@ -16,6 +16,17 @@ export const users = sqliteTable('users', {
   roleIdx: index('role_idx').on(table.role),
 }));
 
+// Roles as editable permission sets; admin, manager and cashier are built in
+export const roles = sqliteTable('roles', {
+  id: text('id').primaryKey(), // Slug, e.g. 'bookkeeper'
+  name: text('name').notNull(),
+  description: text('description'),
+  permissions: text('permissions', { mode: 'json' }).$type<string[]>().notNull(),
+  isSystem: integer('is_system', { mode: 'boolean' }).default(false),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+});
+
 // Categories table with search keywords
 export const categories = sqliteTable('categories', {
   id: text('id').primaryKey(),
@@ -31,6 +42,67 @@ export const categories = sqliteTable('categories', {
   parentIdx: index('category_parent_idx').on(table.parentId),
 }));
 
+// Suppliers table - publishers and vendors the temple buys stock from
+export const suppliers = sqliteTable('suppliers', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  contactName: text('contact_name'),
+  phone: text('phone'),
+  email: text('email'),
+  gstin: text('gstin'),
+  address: text('address'),
+  notes: text('notes'),
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  nameIdx: index('supplier_name_idx').on(table.name),
+  activeIdx: index('supplier_active_idx').on(table.isActive),
+}));
+
+// Membership tiers table - e.g. regular devotee, life member; each with its own prices and points rate
+export const membershipTiers = sqliteTable('membership_tiers', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  discountPercent: real('discount_percent').notNull().default(0), // Off the regular price when the tier has no price for a product
+  pointsPerRupee: real('points_per_rupee').notNull().default(0), // e.g. 0.01 earns one point per ₹100
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Tier prices table - a tier's price list; a row without a variant covers every variant of the product
+export const tierPrices = sqliteTable('tier_prices', {
+  id: text('id').primaryKey(),
+  tierId: text('tier_id').notNull().references(() => membershipTiers.id, { onDelete: 'cascade' }),
+  productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: text('variant_id').references(() => productVariants.id, { onDelete: 'cascade' }),
+  price: real('price').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  tierIdx: index('tier_price_tier_idx').on(table.tierId),
+  productIdx: index('tier_price_product_idx').on(table.productId),
+}));
+
+// Customers table - devotees, life members and donors a sale can be attached to
+export const customers = sqliteTable('customers', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  phone: text('phone').notNull(), // Ten digits without the country code, the lookup key at the till
+  email: text('email'),
+  address: text('address'),
+  pan: text('pan'), // Needed for donation receipts
+  preferredLanguage: text('preferred_language').notNull().default('en'), // 'en' | 'hi' | 'bn'
+  tierId: text('tier_id').references(() => membershipTiers.id), // Membership tier; regular prices when not set
+  notes: text('notes'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  phoneIdx: uniqueIndex('customer_phone_idx').on(table.phone),
+  nameIdx: index('customer_name_idx').on(table.name),
+  tierIdx: index('customer_tier_idx').on(table.tierId),
+}));
+
 // Products table with search support
 export const products = sqliteTable('products', {
   id: text('id').primaryKey(),
@@ -40,6 +112,12 @@ export const products = sqliteTable('products', {
   categoryId: text('category_id').references(() => categories.id),
   keywords: text('keywords'), // JSON array of search keywords
   metadata: text('metadata'), // JSON object for custom attributes
+  // GST classification
+  hsnCode: text('hsn_code'), // HSN for goods, SAC for services
+  taxRate: real('tax_rate').default(0), // GST slab in percent: 0 | 5 | 12 | 18 | 28
+  priceIncludesTax: integer('price_includes_tax', { mode: 'boolean' }).default(true),
+  supplierId: text('supplier_id').references(() => suppliers.id), // Usual supplier, used when drafting reorders
+  trackBatches: integer('track_batches', { mode: 'boolean' }).default(false), // Perishables sold first-expiry-first-out
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
@@ -47,6 +125,7 @@ export const products = sqliteTable('products', {
   nameIdx: index('product_name_idx').on(table.name),
   categoryIdx: index('product_category_idx').on(table.categoryId),
   priceIdx: index('product_price_idx').on(table.basePrice),
+  supplierIdx: index('product_supplier_idx').on(table.supplierId),
 }));
 
 // Product variants with search support
@@ -55,15 +134,66 @@ export const productVariants = sqliteTable('product_variants', {
   productId: text('product_id').references(() => products.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
   price: real('price').notNull(),
+  costPrice: real('cost_price').default(0), // Weighted average cost, updated by goods receipts
   stockQuantity: integer('stock_quantity').default(0),
   attributes: text('attributes'), // JSON object
   keywords: text('keywords'), // JSON array for variant-specific keywords
+  barcode: text('barcode'), // ISBN-13 for books, EAN/UPC for other goods
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
 }, (table) => ({
   productIdx: index('variant_product_idx').on(table.productId),
   priceIdx: index('variant_price_idx').on(table.price),
   stockIdx: index('variant_stock_idx').on(table.stockQuantity),
+  barcodeIdx: uniqueIndex('variant_barcode_idx').on(table.barcode),
+}));
+
+// Locations table - places stock is kept: the shop floor, storerooms and festival stalls
+export const locations = sqliteTable('locations', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  type: text('type').notNull().default('shop'), // 'shop' | 'storeroom' | 'stall'
+  isDefault: integer('is_default', { mode: 'boolean' }).default(false), // Takes stock changes that name no location
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  activeIdx: index('location_active_idx').on(table.isActive),
+}));
+
+// Stock levels table - how much of a variant is at each location; adds up to the variant's stock quantity
+export const stockLevels = sqliteTable('stock_levels', {
+  id: text('id').primaryKey(),
+  variantId: text('variant_id').notNull().references(() => productVariants.id, { onDelete: 'cascade' }),
+  locationId: text('location_id').notNull().references(() => locations.id),
+  quantity: integer('quantity').notNull().default(0),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  variantLocationIdx: uniqueIndex('stock_level_variant_location_idx').on(table.variantId, table.locationId),
+  locationIdx: index('stock_level_location_idx').on(table.locationId),
+}));
+
+// Shifts table - a cashier's session at the till, from opening float to the closing cash count
+export const shifts = sqliteTable('shifts', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id),
+  status: text('status').notNull().default('open'), // 'open' | 'pending_approval' | 'closed'
+  openingFloat: real('opening_float').notNull(),
+  expectedCash: real('expected_cash'), // Float + cash sales and gift vouchers sold - cash refunds, worked out at close
+  countedCash: real('counted_cash'),
+  variance: real('variance'), // Counted minus expected; negative means the drawer is short
+  cashCount: text('cash_count'), // JSON count of notes by denomination plus loose coins
+  closingNotes: text('closing_notes'),
+  approvedBy: text('approved_by').references(() => users.id),
+  approvedAt: integer('approved_at', { mode: 'timestamp' }),
+  openedAt: integer('opened_at', { mode: 'timestamp' }).notNull(),
+  closedAt: integer('closed_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userIdx: index('shift_user_idx').on(table.userId),
+  statusIdx: index('shift_status_idx').on(table.status),
+  openedIdx: index('shift_opened_idx').on(table.openedAt),
 }));
 
 // Transactions table
@@ -73,10 +203,21 @@ export const transactions = sqliteTable('transactions', {
   subtotal: real('subtotal').notNull(),
   tax: real('tax').default(0),
   discount: real('discount').default(0),
-  total: real('total').notNull(),
-  paymentMethod: text('payment_method').notNull(), // 'cash' | 'upi'
+  total: real('total').notNull(), // Everything the customer paid, donations included
+  donationTotal: real('donation_total').default(0), // Part of the total given as donations, kept out of sales figures
+  paymentMethod: text('payment_method').notNull(), // 'cash' | 'upi' | 'points' | 'voucher' | 'split' (see transaction_payments)
   paymentReference: text('payment_reference'),
+  interState: integer('inter_state', { mode: 'boolean' }).default(false), // IGST instead of CGST + SGST
+  placeOfSupply: text('place_of_supply'), // Buyer's GST state code on inter-state sales
+  invoiceNumber: text('invoice_number').unique(), // GST invoice series for the financial year, e.g. S/2026-27/000012; at most 16 characters for GSTR-1
+  shiftId: text('shift_id').references(() => shifts.id),
+  locationId: text('location_id').references(() => locations.id), // Where the terminal took the stock from
+  customerId: text('customer_id').references(() => customers.id),
   status: text('status').notNull().default('completed'), // 'completed' | 'pending' | 'cancelled'
+  approvedBy: text('approved_by').references(() => users.id), // Manager whose PIN let a cashier override prices, discount or expiry
+  voidedBy: text('voided_by').references(() => users.id), // Manager who authorised cancelling the sale
+  voidedAt: integer('voided_at', { mode: 'timestamp' }),
+  voidReason: text('void_reason'),
   syncStatus: text('sync_status').notNull().default('pending'), // 'synced' | 'pending' | 'failed'
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
@@ -86,6 +227,8 @@ export const transactions = sqliteTable('transactions', {
   syncIdx: index('transaction_sync_idx').on(table.syncStatus),
   dateIdx: index('transaction_date_idx').on(table.createdAt),
   paymentIdx: index('transaction_payment_idx').on(table.paymentMethod),
+  shiftIdx: index('transaction_shift_idx').on(table.shiftId),
+  customerIdx: index('transaction_customer_idx').on(table.customerId),
 }));
 
 // Transaction items table
@@ -100,6 +243,18 @@ export const transactionItems = sqliteTable('transaction_items', {
   // Custom variant support
   isCustomVariant: integer('is_custom_variant', { mode: 'boolean' }).default(false),
   customVariantData: text('custom_variant_data'), // JSON object for custom variant details
+  // Promotions applied to this line; totalPrice stays the full price before discount
+  discountAmount: real('discount_amount').default(0),
+  appliedPromotions: text('applied_promotions'), // JSON array of { promotionId, name, amount }
+  // GST snapshot at the time of sale, worked out on the line after discounts
+  hsnCode: text('hsn_code'),
+  taxRate: real('tax_rate').default(0),
+  taxableValue: real('taxable_value').default(0),
+  cgst: real('cgst').default(0),
+  sgst: real('sgst').default(0),
+  igst: real('igst').default(0),
+  // Variant cost price at the time of sale, for margin reporting
+  unitCost: real('unit_cost').default(0),
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
 }, (table) => ({
   transactionIdx: index('item_transaction_idx').on(table.transactionId),
@@ -108,6 +263,383 @@ export const transactionItems = sqliteTable('transaction_items', {
   customIdx: index('item_custom_idx').on(table.isCustomVariant),
 }));
 
+// Promotions table - automatic discount rules evaluated at the counter
+export const promotions = sqliteTable('promotions', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(), // Printed on receipts next to the discount
+  description: text('description'),
+  type: text('type').notNull(), // 'percentage' | 'fixed' | 'buy_x_get_y' | 'min_quantity_price'
+  scope: text('scope').notNull(), // 'product' | 'category' | 'cart'
+  productId: text('product_id').references(() => products.id, { onDelete: 'cascade' }),
+  categoryId: text('category_id').references(() => categories.id, { onDelete: 'cascade' }),
+  value: real('value').notNull(),
+  minQuantity: integer('min_quantity'),
+  getQuantity: integer('get_quantity'),
+  minCartTotal: real('min_cart_total'),
+  startsAt: integer('starts_at', { mode: 'timestamp' }),
+  endsAt: integer('ends_at', { mode: 'timestamp' }),
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  createdBy: text('created_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  activeIdx: index('promotion_active_idx').on(table.isActive),
+  productIdx: index('promotion_product_idx').on(table.productId),
+  categoryIdx: index('promotion_category_idx').on(table.categoryId),
+  windowIdx: index('promotion_window_idx').on(table.startsAt, table.endsAt),
+}));
+
+// Transaction payments table - one row per tender used to settle a transaction
+export const transactionPayments = sqliteTable('transaction_payments', {
+  id: text('id').primaryKey(),
+  transactionId: text('transaction_id').references(() => transactions.id, { onDelete: 'cascade' }),
+  method: text('method').notNull(), // 'cash' | 'upi' | 'points' | 'voucher'
+  amount: real('amount').notNull(), // Portion of the transaction total settled by this tender
+  reference: text('reference'),
+  tendered: real('tendered'), // Cash handed over by the customer, cash tenders only
+  changeGiven: real('change_given'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  transactionIdx: index('payment_transaction_idx').on(table.transactionId),
+  methodIdx: index('payment_method_idx').on(table.method),
+}));
+
+// Donations table - gifts taken at the counter with a sale, each with its own 80G receipt
+export const donations = sqliteTable('donations', {
+  id: text('id').primaryKey(),
+  transactionId: text('transaction_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }),
+  customerId: text('customer_id').notNull().references(() => customers.id),
+  purpose: text('purpose').notNull(), // e.g. Annadaan, Temple construction, Go-seva
+  amount: real('amount').notNull(),
+  receiptNumber: text('receipt_number').notNull().unique(), // 80G series, separate from sale receipts, e.g. 80G/2026-27/00012
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  transactionIdx: index('donation_transaction_idx').on(table.transactionId),
+  customerIdx: index('donation_customer_idx').on(table.customerId),
+  dateIdx: index('donation_date_idx').on(table.createdAt),
+}));
+
+// Loyalty points table - ledger of points earned, redeemed and adjusted; a customer's balance is the sum
+export const loyaltyPoints = sqliteTable('loyalty_points', {
+  id: text('id').primaryKey(),
+  customerId: text('customer_id').notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  transactionId: text('transaction_id').references(() => transactions.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // 'earn' | 'redeem' | 'adjust'
+  points: integer('points').notNull(), // Positive when earned, negative when redeemed
+  note: text('note'),
+  userId: text('user_id').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  customerIdx: index('loyalty_customer_idx').on(table.customerId),
+  transactionIdx: index('loyalty_transaction_idx').on(table.transactionId),
+}));
+
+// Held carts table - parked sales that any terminal can resume
+export const heldCarts = sqliteTable('held_carts', {
+  id: text('id').primaryKey(),
+  label: text('label').notNull(), // e.g. customer name, shown in the held sales list
+  userId: text('user_id').references(() => users.id),
+  cartData: text('cart_data').notNull(), // JSON array of cart items as held in the cart store
+  itemCount: integer('item_count').notNull(),
+  total: real('total').notNull(),
+  status: text('status').notNull().default('held'), // 'held' | 'resumed' | 'expired'
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  resumedBy: text('resumed_by').references(() => users.id),
+  resumedAt: integer('resumed_at', { mode: 'timestamp' }),
+  expiryNotifiedAt: integer('expiry_notified_at', { mode: 'timestamp' }), // when the owner was told it expired
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  statusIdx: index('held_cart_status_idx').on(table.status),
+  expiresIdx: index('held_cart_expires_idx').on(table.expiresAt),
+}));
+
+// Returns table - refunds issued against a completed transaction
+export const returns = sqliteTable('returns', {
+  id: text('id').primaryKey(),
+  originalTransactionId: text('original_transaction_id').notNull().references(() => transactions.id),
+  userId: text('user_id').references(() => users.id),
+  subtotal: real('subtotal').notNull(),
+  total: real('total').notNull(), // Amount refunded to the customer, points included
+  pointsRefunded: integer('points_refunded').default(0), // Points given back for the share of the sale paid with points
+  creditRefunded: real('credit_refunded').default(0), // Store credit given back for the share of the sale paid with vouchers
+  creditCode: text('credit_code'), // Code of the store credit issued by the return
+  refundMethod: text('refund_method').notNull(), // 'cash' | 'upi' | 'voucher', for the rest of the total
+  refundReference: text('refund_reference'), // UPI reference, or the code of the store credit issued
+  reason: text('reason'),
+  shiftId: text('shift_id').references(() => shifts.id), // Shift whose drawer paid out a cash refund
+  approvedBy: text('approved_by').references(() => users.id), // Manager whose PIN authorised a cashier's refund
+  syncStatus: text('sync_status').notNull().default('pending'), // 'synced' | 'pending' | 'failed'
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  transactionIdx: index('return_transaction_idx').on(table.originalTransactionId),
+  userIdx: index('return_user_idx').on(table.userId),
+  dateIdx: index('return_date_idx').on(table.createdAt),
+  refundMethodIdx: index('return_refund_method_idx').on(table.refundMethod),
+  shiftIdx: index('return_shift_idx').on(table.shiftId),
+}));
+
+// Return items table
+export const returnItems = sqliteTable('return_items', {
+  id: text('id').primaryKey(),
+  returnId: text('return_id').references(() => returns.id, { onDelete: 'cascade' }),
+  transactionItemId: text('transaction_item_id').references(() => transactionItems.id),
+  productId: text('product_id').references(() => products.id),
+  variantId: text('variant_id').references(() => productVariants.id),
+  quantity: integer('quantity').notNull(),
+  unitPrice: real('unit_price').notNull(),
+  totalPrice: real('total_price').notNull(),
+  restocked: integer('restocked', { mode: 'boolean' }).default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  returnIdx: index('return_item_return_idx').on(table.returnId),
+  transactionItemIdx: index('return_item_transaction_item_idx').on(table.transactionItemId),
+  productIdx: index('return_item_product_idx').on(table.productId),
+}));
+
+// Gift vouchers and store credit; what is left on one is its amount less its redemptions
+export const vouchers = sqliteTable('vouchers', {
+  id: text('id').primaryKey(),
+  code: text('code').notNull().unique(),
+  kind: text('kind').notNull(), // 'gift' | 'credit'
+  amount: real('amount').notNull(),
+  customerId: text('customer_id').references(() => customers.id),
+  returnId: text('return_id').references(() => returns.id), // Return that issued store credit
+  expiresAt: integer('expires_at', { mode: 'timestamp' }),
+  status: text('status').notNull().default('active'), // 'active' | 'cancelled'
+  note: text('note'),
+  shiftId: text('shift_id').references(() => shifts.id), // Shift whose drawer took payment for a gift voucher
+  paymentMethod: text('payment_method'), // 'cash' | 'upi' for gift vouchers sold; null for store credit
+  paymentReference: text('payment_reference'),
+  userId: text('user_id').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  customerIdx: index('voucher_customer_idx').on(table.customerId),
+  shiftIdx: index('voucher_shift_idx').on(table.shiftId),
+  expiresIdx: index('voucher_expires_idx').on(table.expiresAt),
+}));
+
+// Part or all of a voucher spent on a sale
+export const voucherRedemptions = sqliteTable('voucher_redemptions', {
+  id: text('id').primaryKey(),
+  voucherId: text('voucher_id').notNull().references(() => vouchers.id, { onDelete: 'cascade' }),
+  transactionId: text('transaction_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }),
+  amount: real('amount').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  voucherIdx: index('voucher_redemption_voucher_idx').on(table.voucherId),
+  transactionIdx: index('voucher_redemption_transaction_idx').on(table.transactionId),
+}));
+
+// Bank or PSP statement imported to reconcile UPI sales against what was credited
+export const upiStatements = sqliteTable('upi_statements', {
+  id: text('id').primaryKey(),
+  fileName: text('file_name').notNull(),
+  lineCount: integer('line_count').notNull(),
+  userId: text('user_id').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// One credit on an imported statement, and the sale it was matched to
+export const upiStatementLines = sqliteTable('upi_statement_lines', {
+  id: text('id').primaryKey(),
+  statementId: text('statement_id').notNull().references(() => upiStatements.id, { onDelete: 'cascade' }),
+  postedAt: integer('posted_at', { mode: 'timestamp' }).notNull(),
+  timeKnown: integer('time_known', { mode: 'boolean' }).notNull().default(true), // Some statements give the date only
+  amount: real('amount').notNull(),
+  utr: text('utr'), // Bank reference (UTR/RRN) of the credit
+  narration: text('narration'),
+  transactionId: text('transaction_id').references(() => transactions.id),
+  matchedBy: text('matched_by'), // 'reference' | 'amount' | 'manual'
+  ignored: integer('ignored', { mode: 'boolean' }).default(false), // Not a sale, e.g. a donation straight to the account
+  note: text('note'),
+  resolvedBy: text('resolved_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  statementIdx: index('upi_line_statement_idx').on(table.statementId),
+  postedIdx: index('upi_line_posted_idx').on(table.postedAt),
+  transactionIdx: index('upi_line_transaction_idx').on(table.transactionId),
+  utrIdx: index('upi_line_utr_idx').on(table.utr),
+}));
+
+// UPI sale a manager cleared without a credit, e.g. a payment that failed and was taken again in cash
+export const upiSaleClearances = sqliteTable('upi_sale_clearances', {
+  id: text('id').primaryKey(),
+  transactionId: text('transaction_id').notNull().unique().references(() => transactions.id, { onDelete: 'cascade' }),
+  note: text('note').notNull(),
+  userId: text('user_id').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Purchase orders table - stock ordered from a supplier
+export const purchaseOrders = sqliteTable('purchase_orders', {
+  id: text('id').primaryKey(),
+  poNumber: text('po_number').notNull().unique(), // e.g. PO-00042, quoted to the supplier
+  supplierId: text('supplier_id').notNull().references(() => suppliers.id),
+  status: text('status').notNull().default('draft'), // 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled'
+  notes: text('notes'),
+  expectedAt: integer('expected_at', { mode: 'timestamp' }),
+  orderedAt: integer('ordered_at', { mode: 'timestamp' }),
+  receivedAt: integer('received_at', { mode: 'timestamp' }), // When the last outstanding line arrived
+  createdBy: text('created_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  supplierIdx: index('po_supplier_idx').on(table.supplierId),
+  statusIdx: index('po_status_idx').on(table.status),
+  dateIdx: index('po_date_idx').on(table.createdAt),
+}));
+
+// Purchase order items table - one line per variant ordered
+export const purchaseOrderItems = sqliteTable('purchase_order_items', {
+  id: text('id').primaryKey(),
+  purchaseOrderId: text('purchase_order_id').notNull().references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+  variantId: text('variant_id').notNull().references(() => productVariants.id),
+  quantityOrdered: integer('quantity_ordered').notNull(),
+  quantityReceived: integer('quantity_received').notNull().default(0),
+  unitCost: real('unit_cost').notNull(), // Expected cost per unit agreed with the supplier
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  orderIdx: index('po_item_order_idx').on(table.purchaseOrderId),
+  variantIdx: index('po_item_variant_idx').on(table.variantId),
+}));
+
+// Goods receipts table - a delivery booked in against a purchase order
+export const goodsReceipts = sqliteTable('goods_receipts', {
+  id: text('id').primaryKey(),
+  purchaseOrderId: text('purchase_order_id').notNull().references(() => purchaseOrders.id),
+  receivedBy: text('received_by').references(() => users.id),
+  supplierReference: text('supplier_reference'), // Supplier's invoice or delivery challan number
+  locationId: text('location_id').references(() => locations.id), // Where the goods were put away
+  notes: text('notes'),
+  receivedAt: integer('received_at', { mode: 'timestamp' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  orderIdx: index('goods_receipt_order_idx').on(table.purchaseOrderId),
+  dateIdx: index('goods_receipt_date_idx').on(table.receivedAt),
+}));
+
+// Goods receipt items table - quantities put on the shelf from a delivery
+export const goodsReceiptItems = sqliteTable('goods_receipt_items', {
+  id: text('id').primaryKey(),
+  goodsReceiptId: text('goods_receipt_id').notNull().references(() => goodsReceipts.id, { onDelete: 'cascade' }),
+  purchaseOrderItemId: text('purchase_order_item_id').notNull().references(() => purchaseOrderItems.id),
+  variantId: text('variant_id').notNull().references(() => productVariants.id),
+  quantity: integer('quantity').notNull(),
+  unitCost: real('unit_cost').notNull(), // Actual invoiced cost, may differ from the PO line
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  receiptIdx: index('goods_receipt_item_receipt_idx').on(table.goodsReceiptId),
+  variantIdx: index('goods_receipt_item_variant_idx').on(table.variantId),
+}));
+
+// Stock movements table - append-only ledger of every change to a variant's stock level
+export const stockMovements = sqliteTable('stock_movements', {
+  id: text('id').primaryKey(),
+  variantId: text('variant_id').notNull().references(() => productVariants.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // 'sale' | 'return' | 'receipt' | 'adjustment' | 'transfer' | 'write_off'
+  quantity: integer('quantity').notNull(), // Signed change: negative when stock leaves
+  balanceAfter: integer('balance_after').notNull(), // Stock level once this movement was applied
+  referenceId: text('reference_id'), // Sale, return or goods receipt that caused the movement
+  locationId: text('location_id').references(() => locations.id), // Location whose stock changed
+  reason: text('reason'),
+  userId: text('user_id').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  variantIdx: index('stock_movement_variant_idx').on(table.variantId, table.createdAt),
+  typeIdx: index('stock_movement_type_idx').on(table.type),
+  referenceIdx: index('stock_movement_reference_idx').on(table.referenceId),
+}));
+
+// Stock takes table - a physical count session over a frozen snapshot of expected stock
+export const stockTakes = sqliteTable('stock_takes', {
+  id: text('id').primaryKey(),
+  reference: text('reference').notNull().unique(), // e.g. ST-00007
+  name: text('name').notNull(),
+  categoryId: text('category_id').references(() => categories.id), // Null counts the whole shop
+  locationId: text('location_id').references(() => locations.id), // Where the shelves are counted; null before locations were set up
+  status: text('status').notNull().default('counting'), // 'counting' | 'posted' | 'cancelled'
+  notes: text('notes'),
+  createdBy: text('created_by').references(() => users.id),
+  approvedBy: text('approved_by').references(() => users.id), // Manager who posted the adjustments
+  postedAt: integer('posted_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  statusIdx: index('stock_take_status_idx').on(table.status),
+  dateIdx: index('stock_take_date_idx').on(table.createdAt),
+}));
+
+// Stock take items table - one line per variant in scope when the count started
+export const stockTakeItems = sqliteTable('stock_take_items', {
+  id: text('id').primaryKey(),
+  stockTakeId: text('stock_take_id').notNull().references(() => stockTakes.id, { onDelete: 'cascade' }),
+  variantId: text('variant_id').notNull().references(() => productVariants.id, { onDelete: 'cascade' }),
+  expectedQuantity: integer('expected_quantity').notNull(), // Stock on record when the session was opened
+  countedQuantity: integer('counted_quantity'), // Null until someone has counted the shelf
+  balanceAtCount: integer('balance_at_count'), // Stock on record when the count was last entered; the variance is measured from it
+  unitValue: real('unit_value').notNull(), // Price at snapshot time, used to value the variance
+  countedBy: text('counted_by').references(() => users.id),
+  countedAt: integer('counted_at', { mode: 'timestamp' }),
+}, (table) => ({
+  stockTakeIdx: index('stock_take_item_take_idx').on(table.stockTakeId),
+  takeVariantIdx: uniqueIndex('stock_take_item_variant_idx').on(table.stockTakeId, table.variantId),
+}));
+
+// Stock transfers table - a document moving stock from one location to another
+export const stockTransfers = sqliteTable('stock_transfers', {
+  id: text('id').primaryKey(),
+  reference: text('reference').notNull().unique(), // e.g. TR-00012
+  fromLocationId: text('from_location_id').notNull().references(() => locations.id),
+  toLocationId: text('to_location_id').notNull().references(() => locations.id),
+  notes: text('notes'),
+  createdBy: text('created_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  dateIdx: index('stock_transfer_date_idx').on(table.createdAt),
+}));
+
+// Stock transfer items table - quantities moved per variant
+export const stockTransferItems = sqliteTable('stock_transfer_items', {
+  id: text('id').primaryKey(),
+  transferId: text('transfer_id').notNull().references(() => stockTransfers.id, { onDelete: 'cascade' }),
+  variantId: text('variant_id').notNull().references(() => productVariants.id, { onDelete: 'cascade' }),
+  quantity: integer('quantity').notNull(),
+}, (table) => ({
+  transferIdx: index('stock_transfer_item_transfer_idx').on(table.transferId),
+}));
+
+// Batches of perishable stock. A batch's quantity is the part of the variant's
+// stock known to carry that expiry; stock without a batch is left untracked.
+export const stockBatches = sqliteTable('stock_batches', {
+  id: text('id').primaryKey(),
+  variantId: text('variant_id').notNull().references(() => productVariants.id, { onDelete: 'cascade' }),
+  locationId: text('location_id').references(() => locations.id), // Where the batch is shelved; null before locations were set up
+  batchNumber: text('batch_number').notNull(),
+  manufacturedAt: integer('manufactured_at', { mode: 'timestamp' }),
+  expiresAt: integer('expires_at', { mode: 'timestamp' }),
+  quantity: integer('quantity').notNull().default(0), // Still on hand
+  receivedQuantity: integer('received_quantity').notNull().default(0),
+  createdBy: text('created_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  variantBatchIdx: uniqueIndex('stock_batch_variant_number_idx').on(table.variantId, table.batchNumber),
+  expiresIdx: index('stock_batch_expires_idx').on(table.expiresAt),
+  locationIdx: index('stock_batch_location_idx').on(table.locationId),
+}));
+
+// Which batches each sale line was taken from, so returns go back where they came from
+export const transactionItemBatches = sqliteTable('transaction_item_batches', {
+  id: text('id').primaryKey(),
+  transactionItemId: text('transaction_item_id').notNull().references(() => transactionItems.id, { onDelete: 'cascade' }),
+  batchId: text('batch_id').notNull().references(() => stockBatches.id, { onDelete: 'cascade' }),
+  quantity: integer('quantity').notNull(),
+}, (table) => ({
+  itemIdx: index('transaction_item_batch_item_idx').on(table.transactionItemId),
+}));
+
 // Search analytics table
 export const searchAnalytics = sqliteTable('search_analytics', {
   id: text('id').primaryKey(),
@@ -147,6 +679,18 @@ export const userActivity = sqliteTable('user_activity', {
   targetUserIdx: index('activity_target_user_idx').on(table.targetUserId),
 }));
 
+// Failed PIN attempts per username and per device, for login backoff and lockout
+export const loginAttempts = sqliteTable('login_attempts', {
+  id: text('id').primaryKey(), // `${scope}:${key}`
+  scope: text('scope').notNull(), // 'user' or 'device'
+  key: text('key').notNull(), // The username as typed, or the device id the server issued
+  failedCount: integer('failed_count').notNull().default(0),
+  lastFailedAt: integer('last_failed_at', { mode: 'timestamp' }),
+  lockedUntil: integer('locked_until', { mode: 'timestamp' }),
+}, (table) => ({
+  scopeIdx: index('login_attempts_scope_idx').on(table.scope),
+}));
+
 // Sync metadata table for tracking synchronization state
 export const syncMetadata = sqliteTable('sync_metadata', {
   id: text('id').primaryKey(),
@@ -188,27 +732,114 @@ export const scheduledReports = sqliteTable('scheduled_reports', {
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 
+export type RoleRecord = typeof roles.$inferSelect;
+export type NewRoleRecord = typeof roles.$inferInsert;
+
 export type Category = typeof categories.$inferSelect;
 export type NewCategory = typeof categories.$inferInsert;
 
+export type SupplierRecord = typeof suppliers.$inferSelect;
+export type NewSupplierRecord = typeof suppliers.$inferInsert;
+
+export type CustomerRecord = typeof customers.$inferSelect;
+export type NewCustomerRecord = typeof customers.$inferInsert;
+export type MembershipTierRecord = typeof membershipTiers.$inferSelect;
+export type NewMembershipTierRecord = typeof membershipTiers.$inferInsert;
+export type TierPriceRecord = typeof tierPrices.$inferSelect;
+export type NewTierPriceRecord = typeof tierPrices.$inferInsert;
+
 export type Product = typeof products.$inferSelect;
 export type NewProduct = typeof products.$inferInsert;
 
 export type ProductVariant = typeof productVariants.$inferSelect;
 export type NewProductVariant = typeof productVariants.$inferInsert;
 
+export type ShiftRecord = typeof shifts.$inferSelect;
+export type NewShiftRecord = typeof shifts.$inferInsert;
+
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
 
 export type TransactionItem = typeof transactionItems.$inferSelect;
 export type NewTransactionItem = typeof transactionItems.$inferInsert;
 
+export type PromotionRecord = typeof promotions.$inferSelect;
+export type NewPromotionRecord = typeof promotions.$inferInsert;
+
+export type TransactionPayment = typeof transactionPayments.$inferSelect;
+export type NewTransactionPayment = typeof transactionPayments.$inferInsert;
+
+export type DonationRecord = typeof donations.$inferSelect;
+export type NewDonationRecord = typeof donations.$inferInsert;
+export type LoyaltyPointRecord = typeof loyaltyPoints.$inferSelect;
+export type NewLoyaltyPointRecord = typeof loyaltyPoints.$inferInsert;
+
+export type HeldCart = typeof heldCarts.$inferSelect;
+export type NewHeldCart = typeof heldCarts.$inferInsert;
+
+export type Return = typeof returns.$inferSelect;
+export type NewReturn = typeof returns.$inferInsert;
+
+export type ReturnItem = typeof returnItems.$inferSelect;
+export type NewReturnItem = typeof returnItems.$inferInsert;
+
+export type VoucherRecord = typeof vouchers.$inferSelect;
+export type NewVoucherRecord = typeof vouchers.$inferInsert;
+export type VoucherRedemptionRecord = typeof voucherRedemptions.$inferSelect;
+export type NewVoucherRedemptionRecord = typeof voucherRedemptions.$inferInsert;
+export type UpiStatementRecord = typeof upiStatements.$inferSelect;
+export type NewUpiStatementRecord = typeof upiStatements.$inferInsert;
+export type UpiStatementLineRecord = typeof upiStatementLines.$inferSelect;
+export type NewUpiStatementLineRecord = typeof upiStatementLines.$inferInsert;
+export type UpiSaleClearanceRecord = typeof upiSaleClearances.$inferSelect;
+export type NewUpiSaleClearanceRecord = typeof upiSaleClearances.$inferInsert;
+
+export type PurchaseOrderRecord = typeof purchaseOrders.$inferSelect;
+export type NewPurchaseOrderRecord = typeof purchaseOrders.$inferInsert;
+
+export type PurchaseOrderItemRecord = typeof purchaseOrderItems.$inferSelect;
+export type NewPurchaseOrderItemRecord = typeof purchaseOrderItems.$inferInsert;
+
+export type GoodsReceiptRecord = typeof goodsReceipts.$inferSelect;
+export type NewGoodsReceiptRecord = typeof goodsReceipts.$inferInsert;
+
+export type GoodsReceiptItemRecord = typeof goodsReceiptItems.$inferSelect;
+export type NewGoodsReceiptItemRecord = typeof goodsReceiptItems.$inferInsert;
+
+export type StockMovementRecord = typeof stockMovements.$inferSelect;
+export type NewStockMovementRecord = typeof stockMovements.$inferInsert;
+
+export type StockTakeRecord = typeof stockTakes.$inferSelect;
+export type NewStockTakeRecord = typeof stockTakes.$inferInsert;
+
+export type StockTakeItemRecord = typeof stockTakeItems.$inferSelect;
+export type NewStockTakeItemRecord = typeof stockTakeItems.$inferInsert;
+
+export type LocationRecord = typeof locations.$inferSelect;
+export type NewLocationRecord = typeof locations.$inferInsert;
+
+export type StockLevelRecord = typeof stockLevels.$inferSelect;
+export type NewStockLevelRecord = typeof stockLevels.$inferInsert;
+
+export type StockTransferRecord = typeof stockTransfers.$inferSelect;
+export type NewStockTransferRecord = typeof stockTransfers.$inferInsert;
+
+export type StockTransferItemRecord = typeof stockTransferItems.$inferSelect;
+export type NewStockTransferItemRecord = typeof stockTransferItems.$inferInsert;
+export type StockBatchRecord = typeof stockBatches.$inferSelect;
+export type NewStockBatchRecord = typeof stockBatches.$inferInsert;
+export type TransactionItemBatchRecord = typeof transactionItemBatches.$inferSelect;
+export type NewTransactionItemBatchRecord = typeof transactionItemBatches.$inferInsert;
+
 export type SearchAnalytics = typeof searchAnalytics.$inferSelect;
 export type NewSearchAnalytics = typeof searchAnalytics.$inferInsert;
 
 export type UserActivity = typeof userActivity.$inferSelect;
 export type NewUserActivity = typeof userActivity.$inferInsert;
 
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type NewLoginAttempt = typeof loginAttempts.$inferInsert;
+
 export type SyncMetadata = typeof syncMetadata.$inferSelect;
 export type NewSyncMetadata = typeof syncMetadata.$inferInsert;
 
@@ -199,6 +199,8 @@ async function seedDatabase() {
           "The complete edition with original Sanskrit verses, word-for-word meanings, translations, and elaborate purports by His Divine Grace A.C. Bhaktivedanta Swami Prabhupada",
         basePrice: 350.0,
         categoryId: bhagavadGitaBooks.id,
+        hsnCode: "4901",
+        taxRate: 0,
         keywords: [
           "bhagavad",
           "gita",
@@ -269,6 +271,8 @@ async function seedDatabase() {
         "Complete 12 Canto set of Srimad Bhagavatam with original Sanskrit verses, translations, and purports",
       basePrice: 4500.0,
       categoryId: srimadBhagavatamBooks.id,
+      hsnCode: "4901",
+      taxRate: 0,
       keywords: [
         "srimad",
         "bhagavatam",
@@ -310,6 +314,8 @@ async function seedDatabase() {
         "Hand-crafted Tulsi wood japa mala with 108 beads for chanting the holy names",
       basePrice: 150.0,
       categoryId: japaAccessories.id,
+      hsnCode: "4420",
+      taxRate: 12,
       keywords: [
         "tulsi",
         "japa",
@@ -357,6 +363,8 @@ async function seedDatabase() {
         "Cotton japa bag with drawstring for carrying and protecting your japa mala",
       basePrice: 50.0,
       categoryId: japaAccessories.id,
+      hsnCode: "6307",
+      taxRate: 5,
       keywords: ["japa", "bag", "cotton", "drawstring", "protection", "carry"],
       metadata: {
         material: "Cotton",
@@ -84,7 +84,6 @@ async function testDatabaseOperations() {
       const transaction = await transactionService.createTransaction({
         userId: adminUser!.id,
         paymentMethod: "cash",
-        tax: 0,
         discount: 0,
         items: [
           {
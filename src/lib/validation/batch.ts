@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+// Batch schema; adding a batch either brings new stock in or labels stock already on the shelf
+export const createBatchSchema = z.object({
+  variantId: z.string().min(1, 'Variant is required'),
+  // Where the batch is shelved; the default location when not given
+  locationId: z.string().optional().nullable(),
+  batchNumber: z.string().trim().min(1, 'Batch number is required').max(50, 'Batch number too long'),
+  manufacturedAt: z.coerce.date().optional().nullable(),
+  expiresAt: z.coerce.date().optional().nullable(),
+  quantity: z.number().int('Quantity must be a whole number').min(1, 'Quantity must be at least 1'),
+  addToStock: z.boolean().default(true),
+  unitCost: z.number().min(0, 'Unit cost cannot be negative').optional(),
+}).refine(
+  (data) => !data.manufacturedAt || !data.expiresAt || data.expiresAt > data.manufacturedAt,
+  { message: 'Expiry must be after the manufacture date', path: ['expiresAt'] }
+);
+
+// Writing a batch off takes whatever is left of it out of stock
+export const writeOffBatchSchema = z.object({
+  reason: z.string().trim().max(200, 'Reason too long').optional(),
+});
+
+// Near-expiry report window
+export const nearExpiryQuerySchema = z.object({
+  days: z.coerce.number().int().min(0).max(365).default(30),
+});
+
+// Export types
+export type CreateBatchInput = z.infer<typeof createBatchSchema>;
+export type WriteOffBatchInput = z.infer<typeof writeOffBatchSchema>;
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+/**
+ * Reduce a phone number to its ten digits, dropping spaces, dashes and a +91 or 0 prefix
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 12 && digits.startsWith('91')) {
+    return digits.slice(2);
+  }
+  if (digits.length === 11 && digits.startsWith('0')) {
+    return digits.slice(1);
+  }
+  return digits;
+}
+
+export const phoneSchema = z.string()
+  .trim()
+  .transform(normalizePhone)
+  .refine(phone => /^[6-9]\d{9}$/.test(phone), 'Enter a 10-digit mobile number');
+
+export const customerLanguageSchema = z.enum(['en', 'hi', 'bn']);
+
+// Customer schema
+export const createCustomerSchema = z.object({
+  name: z.string().trim().min(1, 'Customer name is required').max(200, 'Customer name too long'),
+  phone: phoneSchema,
+  email: z.string().trim().email('Invalid email address').optional().nullable().or(z.literal('')),
+  address: z.string().trim().max(500, 'Address too long').optional().nullable(),
+  pan: z.string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{5}\d{4}[A-Z]$/, 'PAN must be 10 characters, e.g. ABCDE1234F')
+    .optional()
+    .nullable()
+    .or(z.literal('')),
+  preferredLanguage: customerLanguageSchema.default('en'),
+  tierId: z.string().min(1).optional().nullable(),
+  notes: z.string().trim().max(500, 'Notes too long').optional().nullable(),
+});
+
+export const updateCustomerSchema = createCustomerSchema.partial();
+
+// Customer search; a phone number finds the one match, anything else searches names
+export const customerSearchSchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Export types
+export type CreateCustomerInput = z.infer<typeof createCustomerSchema>;
+export type UpdateCustomerInput = z.infer<typeof updateCustomerSchema>;
+export type CustomerSearchInput = z.infer<typeof customerSearchSchema>;
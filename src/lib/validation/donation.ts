@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// One donation taken with a sale
+export const donationLineSchema = z.object({
+  purpose: z.string().trim().min(1, 'Choose what the donation is for').max(100, 'Purpose too long'),
+  amount: z.number()
+    .positive('Donation must be more than zero')
+    .max(1000000, 'Donations over ₹10,00,000 must be taken at the temple office')
+    .refine(amount => Math.abs(Math.round(amount * 100) - amount * 100) < 1e-6, 'Donation can have at most two decimal places'),
+});
+
+export const donationsSchema = z.array(donationLineSchema).max(10, 'No more than 10 donations on one sale');
+
+// Export types
+export type DonationLineInput = z.infer<typeof donationLineSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+// Cart line as stored by the cart store; product details are kept so the cart restores as-is
+export const heldCartItemSchema = z.object({
+  productId: z.string().min(1, 'Product is required'),
+  variantId: z.string().optional(),
+  quantity: z.number().int('Quantity must be a whole number').min(1, 'Quantity must be at least 1'),
+  product: z.object({ id: z.string() }).passthrough(),
+}).passthrough();
+
+// Park cart schema
+export const parkCartSchema = z.object({
+  label: z.string()
+    .trim()
+    .min(1, 'Label is required')
+    .max(100, 'Label too long'),
+  items: z.array(heldCartItemSchema).min(1, 'Cannot hold an empty cart'),
+  total: z.number().min(0, 'Total cannot be negative'),
+  expiresInMinutes: z.number()
+    .int('Expiry must be a whole number of minutes')
+    .min(5, 'Expiry must be at least 5 minutes')
+    .max(10080, 'Expiry cannot exceed 7 days')
+    .optional(),
+});
+
+// Export types
+export type HeldCartItemInput = z.infer<typeof heldCartItemSchema>;
+export type ParkCartInput = z.infer<typeof parkCartSchema>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+export const locationTypeSchema = z.enum(['shop', 'storeroom', 'stall']);
+
+// Location schema
+export const createLocationSchema = z.object({
+  name: z.string().trim().min(1, 'Location name is required').max(100, 'Location name too long'),
+  type: locationTypeSchema.default('shop'),
+  isDefault: z.boolean().optional(),
+});
+
+export const updateLocationSchema = createLocationSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+// Stock transfer schema; the whole document is posted at once
+export const createStockTransferSchema = z.object({
+  fromLocationId: z.string().min(1, 'Choose where the stock comes from'),
+  toLocationId: z.string().min(1, 'Choose where the stock goes'),
+  notes: z.string().trim().max(500, 'Notes too long').optional().nullable(),
+  items: z.array(z.object({
+    variantId: z.string().min(1, 'Variant is required'),
+    quantity: z.number().int('Quantity must be a whole number').min(1, 'Quantity must be at least 1'),
+  }))
+    .min(1, 'Add at least one item to transfer')
+    .refine(
+      items => new Set(items.map(item => item.variantId)).size === items.length,
+      'Each variant can only appear once on a transfer'
+    ),
+}).refine(
+  (data) => data.fromLocationId !== data.toLocationId,
+  { message: 'Stock must move to a different location', path: ['toLocationId'] }
+);
+
+// Export types
+export type LocationTypeInput = z.infer<typeof locationTypeSchema>;
+export type CreateLocationInput = z.infer<typeof createLocationSchema>;
+export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
+export type CreateStockTransferInput = z.infer<typeof createStockTransferSchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Membership tier schema
+export const createTierSchema = z.object({
+  name: z.string().trim().min(1, 'Tier name is required').max(100, 'Tier name too long'),
+  discountPercent: z.number().min(0, 'Discount cannot be negative').max(100, 'Discount cannot exceed 100%').default(0),
+  pointsPerRupee: z.number().min(0, 'Points rate cannot be negative').max(1, 'Points rate cannot exceed one point per rupee').default(0),
+});
+
+export const updateTierSchema = createTierSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+// A tier's whole price list, replaced in one go
+export const tierPricesSchema = z.array(z.object({
+  productId: z.string().min(1, 'Product is required'),
+  variantId: z.string().min(1).optional().nullable(),
+  price: z.number().positive('Member price must be greater than 0'),
+})).max(1000, 'Too many prices in one list')
+  .refine(
+    prices => new Set(prices.map(price => `${price.productId}:${price.variantId || ''}`)).size === prices.length,
+    'Each product or variant can only be listed once'
+  );
+
+// Points added or taken off by hand, e.g. a goodwill credit
+export const pointsAdjustmentSchema = z.object({
+  points: z.number().int('Points must be a whole number').refine(points => points !== 0, 'Points cannot be zero'),
+  note: z.string().trim().min(1, 'Give a reason for the adjustment').max(200, 'Note too long'),
+});
+
+// Export types
+export type CreateTierInput = z.infer<typeof createTierSchema>;
+export type UpdateTierInput = z.infer<typeof updateTierSchema>;
+export type TierPriceInput = z.infer<typeof tierPricesSchema>[number];
+export type PointsAdjustmentInput = z.infer<typeof pointsAdjustmentSchema>;
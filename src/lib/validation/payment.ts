@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+// Tender methods accepted at the counter; points are a member's loyalty points,
+// vouchers are gift vouchers and store credit identified by their code
+export const tenderMethodSchema = z.enum(['cash', 'upi', 'points', 'voucher']);
+
+// Single tender settling part (or all) of a transaction
+export const tenderSchema = z.object({
+  method: tenderMethodSchema,
+  amount: z.number().positive('Payment amount must be greater than 0'),
+  reference: z.string().max(100, 'Reference too long').optional(),
+  tendered: z.number().nonnegative('Cash tendered cannot be negative').optional(),
+}).refine(
+  (tender) => tender.method !== 'cash' || tender.tendered === undefined || tender.tendered >= tender.amount,
+  { message: 'Cash tendered cannot be less than the cash amount', path: ['tendered'] }
+).refine(
+  (tender) => tender.method !== 'voucher' || !!tender.reference?.trim(),
+  { message: 'Enter the voucher code', path: ['reference'] }
+);
+
+// Tenders submitted with a transaction; the sum is checked against the total by the service
+export const paymentsSchema = z.array(tenderSchema)
+  .min(1, 'At least one payment is required')
+  .max(10, 'Too many payments');
+
+// Export types
+export type TenderMethod = z.infer<typeof tenderMethodSchema>;
+export type TenderInput = z.infer<typeof tenderSchema>;
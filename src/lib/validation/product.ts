@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { GST_SLABS } from '@/types/tax';
+import { Barcode } from '@/services/barcode/barcode';
 
 // Product metadata schema with custom attributes
 export const productMetadataSchema = z.object({
@@ -26,13 +28,23 @@ export const keywordsSchema = z
     return cleaned.length === keywords.length;
   }, 'Keywords must be unique and non-empty');
 
+// ISBN-10/13, EAN-13/8, UPC-A or an in-store label code; blank clears it
+export const barcodeSchema = z
+  .string()
+  .trim()
+  .max(32, 'Barcode too long')
+  .refine(code => code === '' || Barcode.isValid(Barcode.normalize(code)), 'Barcode must be a valid ISBN, EAN or UPC code');
+
 // Create product variant schema (defined first to avoid circular reference)
 export const createProductVariantSchema = z.object({
   name: z.string().min(1, 'Variant name is required').max(100, 'Variant name too long'),
   price: z.number().min(0, 'Price must be non-negative'),
+  // Cost to the shop per unit; goods receipts keep it as a weighted average afterwards
+  costPrice: z.number().min(0, 'Cost price must be non-negative').optional(),
   stockQuantity: z.number().int().min(0, 'Stock quantity must be non-negative').default(0),
   attributes: variantAttributesSchema.default({}),
   keywords: keywordsSchema,
+  barcode: barcodeSchema.optional(),
 });
 
 // Product variant schema (with ID and productId)
@@ -41,12 +53,28 @@ export const productVariantSchema = createProductVariantSchema.extend({
   productId: z.string().uuid('Invalid product ID'),
 });
 
+// GST fields shared by the API and form schemas
+export const hsnCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^(\d{4}|\d{6}|\d{8})$/, 'HSN/SAC code must be 4, 6 or 8 digits')
+  .or(z.literal(''));
+
+export const taxRateSchema = z
+  .number()
+  .refine(rate => (GST_SLABS as readonly number[]).includes(rate), 'Tax rate must be a GST slab (0, 5, 12, 18 or 28%)');
+
 // Create product schema
 export const createProductSchema = z.object({
   name: z.string().min(1, 'Product name is required').max(200, 'Product name too long'),
   description: z.string().max(1000, 'Description too long').optional(),
   basePrice: z.number().min(0, 'Base price must be non-negative'),
   categoryId: z.string().uuid('Invalid category ID').optional(),
+  hsnCode: hsnCodeSchema.optional(),
+  taxRate: taxRateSchema.optional(),
+  priceIncludesTax: z.boolean().optional(),
+  supplierId: z.string().optional().nullable(),
+  trackBatches: z.boolean().optional(),
   keywords: keywordsSchema.default([]),
   metadata: productMetadataSchema.default({
     author: '',
@@ -69,9 +97,11 @@ export const updateProductSchema = createProductSchema.partial().extend({
     id: z.string().optional(),
     name: z.string().min(1, 'Variant name is required').max(100, 'Variant name too long'),
     price: z.number().min(0, 'Price must be non-negative'),
+    costPrice: z.number().min(0, 'Cost price must be non-negative').optional(),
     stockQuantity: z.number().int().min(0, 'Stock quantity must be non-negative').default(0),
     attributes: variantAttributesSchema.default({}),
     keywords: keywordsSchema,
+    barcode: barcodeSchema.optional(),
   })).optional(),
 });
 
@@ -81,6 +111,11 @@ export const productFormSchema = z.object({
   description: z.string().optional(),
   basePrice: z.number().min(0, 'Base price must be non-negative'),
   categoryId: z.string().optional(),
+  hsnCode: hsnCodeSchema.optional(),
+  taxRate: taxRateSchema,
+  priceIncludesTax: z.boolean(),
+  supplierId: z.string().optional(),
+  trackBatches: z.boolean().optional(),
   keywords: z.array(z.object({ value: z.string() })),
   metadata: productMetadataSchema,
   isActive: z.boolean(),
@@ -91,6 +126,11 @@ export const productFormSchema = z.object({
 // Update product variant schema
 export const updateProductVariantSchema = createProductVariantSchema.partial();
 
+// Link a scanned barcode to an existing variant
+export const linkBarcodeSchema = z.object({
+  variantId: z.string().min(1, 'Variant is required'),
+});
+
 // Product search schema
 export const productSearchSchema = z.object({
   query: z.string().optional(),
@@ -111,6 +151,8 @@ export const stockUpdateSchema = z.object({
   variantId: z.string().uuid('Invalid variant ID'),
   quantity: z.number().int().min(0, 'Stock quantity must be non-negative'),
   operation: z.enum(['set', 'add', 'subtract']).default('set'),
+  type: z.enum(['adjustment', 'write_off']).optional(),
+  reason: z.string().max(200).optional(),
 });
 
 // Bulk stock update schema
@@ -151,6 +193,8 @@ export const productImportSchema = z.object({
 export const lowStockAlertSchema = z.object({
   threshold: z.coerce.number().int().min(0).default(5),
   includeVariants: z.boolean().default(true),
+  // Judge stock at one location instead of the shop-wide total
+  locationId: z.string().optional(),
 });
 
 // Product query schema for filtering and pagination
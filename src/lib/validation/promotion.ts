@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+export const promotionTypeSchema = z.enum(['percentage', 'fixed', 'buy_x_get_y', 'min_quantity_price']);
+export const promotionScopeSchema = z.enum(['product', 'category', 'cart']);
+
+// Base promotion fields; rules that depend on the type/scope combination are checked below
+const promotionFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Promotion name is required').max(100, 'Promotion name too long'),
+  description: z.string().max(500, 'Description too long').optional().nullable(),
+  type: promotionTypeSchema,
+  scope: promotionScopeSchema,
+  productId: z.string().optional().nullable(),
+  categoryId: z.string().optional().nullable(),
+  value: z.number().min(0, 'Value cannot be negative'),
+  minQuantity: z.number().int('Quantity must be a whole number').min(1, 'Quantity must be at least 1').optional().nullable(),
+  getQuantity: z.number().int('Quantity must be a whole number').min(1, 'Quantity must be at least 1').optional().nullable(),
+  minCartTotal: z.number().min(0, 'Minimum cart total cannot be negative').optional().nullable(),
+  startsAt: z.coerce.date().optional().nullable(),
+  endsAt: z.coerce.date().optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+type PromotionFields = z.infer<typeof promotionFieldsSchema>;
+
+// Cross-field rules shared by create and update
+const checkPromotionRules = (promotion: Partial<PromotionFields>, ctx: z.RefinementCtx) => {
+  if (promotion.scope === 'product' && !promotion.productId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Select a product for this promotion', path: ['productId'] });
+  }
+  if (promotion.scope === 'category' && !promotion.categoryId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Select a category for this promotion', path: ['categoryId'] });
+  }
+  if (promotion.scope === 'cart' && promotion.type && !['percentage', 'fixed'].includes(promotion.type)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Cart promotions must be a percentage or fixed discount', path: ['type'] });
+  }
+  if (promotion.type === 'percentage' && promotion.value !== undefined && promotion.value > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Percentage cannot exceed 100', path: ['value'] });
+  }
+  if (promotion.type === 'buy_x_get_y' && (!promotion.minQuantity || !promotion.getQuantity)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter both the buy and free quantities', path: ['getQuantity'] });
+  }
+  if (promotion.type === 'min_quantity_price' && (!promotion.minQuantity || promotion.minQuantity < 2)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Minimum quantity must be at least 2', path: ['minQuantity'] });
+  }
+  if (promotion.startsAt && promotion.endsAt && promotion.endsAt < promotion.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'End date must be after the start date', path: ['endsAt'] });
+  }
+};
+
+// Create promotion schema
+export const createPromotionSchema = promotionFieldsSchema.superRefine(checkPromotionRules);
+
+// Update promotion schema
+export const updatePromotionSchema = promotionFieldsSchema.partial().superRefine(checkPromotionRules);
+
+// Export types
+export type CreatePromotionInput = z.infer<typeof createPromotionSchema>;
+export type UpdatePromotionInput = z.infer<typeof updatePromotionSchema>;
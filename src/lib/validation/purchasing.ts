@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+const quantitySchema = z.number()
+  .int('Quantity must be a whole number')
+  .min(1, 'Quantity must be at least 1');
+
+const unitCostSchema = z.number().min(0, 'Cost cannot be negative');
+
+// Supplier schema
+export const createSupplierSchema = z.object({
+  name: z.string().trim().min(1, 'Supplier name is required').max(200, 'Supplier name too long'),
+  contactName: z.string().trim().max(100, 'Contact name too long').optional().nullable(),
+  phone: z.string().trim().max(20, 'Phone number too long').optional().nullable(),
+  email: z.string().trim().email('Invalid email address').optional().nullable().or(z.literal('')),
+  gstin: z.string()
+    .trim()
+    .toUpperCase()
+    .regex(/^\d{2}[A-Z]{5}\d{4}[A-Z][A-Z\d]Z[A-Z\d]$/, 'GSTIN must be 15 characters, e.g. 19ABCDE1234F1Z5')
+    .optional()
+    .nullable()
+    .or(z.literal('')),
+  address: z.string().trim().max(500, 'Address too long').optional().nullable(),
+  notes: z.string().trim().max(500, 'Notes too long').optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+export const updateSupplierSchema = createSupplierSchema.partial();
+
+// Purchase order line schema
+export const purchaseOrderItemSchema = z.object({
+  variantId: z.string().min(1, 'Variant is required'),
+  quantityOrdered: quantitySchema,
+  unitCost: unitCostSchema,
+});
+
+// Create purchase order schema; new orders always start as drafts
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, 'Supplier is required'),
+  notes: z.string().trim().max(500, 'Notes too long').optional().nullable(),
+  expectedAt: z.coerce.date().optional().nullable(),
+  items: z.array(purchaseOrderItemSchema)
+    .min(1, 'Add at least one item to the order')
+    .refine(
+      items => new Set(items.map(item => item.variantId)).size === items.length,
+      'Each variant can only appear once on an order'
+    ),
+});
+
+// Drafts can be edited freely; once ordered the lines are fixed
+export const updatePurchaseOrderSchema = createPurchaseOrderSchema.partial();
+
+// Goods receipt schema
+export const receiveGoodsSchema = z.object({
+  supplierReference: z.string().trim().max(100, 'Reference too long').optional().nullable(),
+  // Where the delivery is put away; the default location when not given
+  locationId: z.string().optional().nullable(),
+  notes: z.string().trim().max(500, 'Notes too long').optional().nullable(),
+  items: z.array(z.object({
+    purchaseOrderItemId: z.string().min(1, 'Order line is required'),
+    quantity: quantitySchema,
+    unitCost: unitCostSchema.optional(),
+  }))
+    .min(1, 'Enter a quantity for at least one item')
+    .refine(
+      items => new Set(items.map(item => item.purchaseOrderItemId)).size === items.length,
+      'Each order line can only be received once per delivery'
+    ),
+});
+
+// Draft reorders for everything at or below the low stock threshold
+export const autoDraftSchema = z.object({
+  threshold: z.number().int().min(0).default(5),
+});
+
+// Export types
+export type CreateSupplierInput = z.infer<typeof createSupplierSchema>;
+export type UpdateSupplierInput = z.infer<typeof updateSupplierSchema>;
+export type PurchaseOrderItemInput = z.infer<typeof purchaseOrderItemSchema>;
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+export type UpdatePurchaseOrderInput = z.infer<typeof updatePurchaseOrderSchema>;
+export type ReceiveGoodsInput = z.infer<typeof receiveGoodsSchema>;
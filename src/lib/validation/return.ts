@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+// Refund methods mirror the payment methods accepted at the counter; a voucher refund issues store credit
+export const refundMethodSchema = z.enum(['cash', 'upi', 'voucher']);
+
+// Single line being returned from the original transaction
+export const returnItemSchema = z.object({
+  transactionItemId: z.string().min(1, 'Transaction item is required'),
+  quantity: z.number().int('Quantity must be a whole number').min(1, 'Quantity must be at least 1'),
+  restock: z.boolean().default(true),
+});
+
+// Create return schema
+export const createReturnSchema = z.object({
+  refundMethod: refundMethodSchema,
+  refundReference: z.string().max(100, 'Reference too long').optional(),
+  reason: z.string().max(500, 'Reason too long').optional(),
+  items: z.array(returnItemSchema)
+    .min(1, 'Select at least one item to return')
+    .refine(
+      items => new Set(items.map(item => item.transactionItemId)).size === items.length,
+      'Each item can only be listed once'
+    ),
+});
+
+// Export types
+export type RefundMethod = z.infer<typeof refundMethodSchema>;
+export type ReturnItemInput = z.infer<typeof returnItemSchema>;
+export type CreateReturnInput = z.infer<typeof createReturnSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { ALL_PERMISSIONS, type Permission } from '@/types/auth';
+import { userRoleSchema } from './user';
+
+export const permissionSchema = z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]]);
+
+// Role schema; the id is a slug kept on each user's row, so it can't change once created
+export const createRoleSchema = z.object({
+  id: userRoleSchema,
+  name: z.string().trim().min(1, 'Role name is required').max(50, 'Role name too long'),
+  description: z.string().trim().max(200, 'Description too long').optional().nullable(),
+  permissions: z.array(permissionSchema)
+    .refine(
+      permissions => new Set(permissions).size === permissions.length,
+      'Each permission can only be listed once'
+    ),
+});
+
+export const updateRoleSchema = createRoleSchema.omit({ id: true }).partial();
+
+// Export types
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
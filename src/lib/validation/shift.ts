@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { CASH_DENOMINATIONS } from '@/types/shift';
+
+const noteCountSchema = z.number()
+  .int('Note count must be a whole number')
+  .min(0, 'Note count cannot be negative');
+
+// Open shift schema
+export const openShiftSchema = z.object({
+  openingFloat: z.number()
+    .min(0, 'Opening float cannot be negative')
+    .max(100000, 'Opening float cannot exceed ₹1,00,000'),
+});
+
+// Drawer count at close: notes per denomination plus the value of loose coins
+export const cashCountSchema = z.object({
+  notes: z.object(
+    Object.fromEntries(
+      CASH_DENOMINATIONS.map(denomination => [denomination, noteCountSchema.optional()])
+    ) as Record<`${(typeof CASH_DENOMINATIONS)[number]}`, z.ZodOptional<typeof noteCountSchema>>
+  ),
+  coins: z.number().min(0, 'Coins cannot be negative'),
+});
+
+// Close shift schema
+export const closeShiftSchema = z.object({
+  cashCount: cashCountSchema,
+  closingNotes: z.string().trim().max(500, 'Notes too long').optional(),
+});
+
+// Export types
+export type OpenShiftInput = z.infer<typeof openShiftSchema>;
+export type CloseShiftInput = z.infer<typeof closeShiftSchema>;
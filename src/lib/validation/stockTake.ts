@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+// Stock take session schema
+export const createStockTakeSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  categoryId: z.string().optional().nullable(),
+  // Where the count happens; the default location when not given
+  locationId: z.string().optional().nullable(),
+  notes: z.string().trim().max(500, 'Notes too long').optional().nullable(),
+});
+
+// A count entered by hand or by scanning; scans add one unit at a time to the running count
+export const recordCountSchema = z.object({
+  variantId: z.string().optional(),
+  barcode: z.string().trim().optional(),
+  quantity: z.number().int('Quantity must be a whole number').min(0, 'Quantity cannot be negative'),
+  mode: z.enum(['set', 'add']).default('set'),
+}).refine(
+  (data) => !!data.variantId || !!data.barcode,
+  { message: 'Choose an item or scan a barcode', path: ['variantId'] }
+);
+
+// Export types
+export type CreateStockTakeInput = z.infer<typeof createStockTakeSchema>;
+export type RecordCountInput = z.infer<typeof recordCountSchema>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// Voiding a sale; the reason is kept on the sale alongside who authorised it
+export const voidTransactionSchema = z.object({
+  reason: z.string().trim().min(1, 'Give a reason for voiding the sale').max(500, 'Reason too long'),
+});
+
+// Export types
+export type VoidTransactionInput = z.infer<typeof voidTransactionSchema>;
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+// Statement exports run to a few thousand lines at most
+const MAX_STATEMENT_SIZE = 2 * 1024 * 1024;
+
+// Bank or PSP statement CSV uploaded for reconciliation
+export const importUpiStatementSchema = z.object({
+  fileName: z.string().trim().min(1, 'File name is required').max(200, 'File name too long'),
+  content: z.string().min(1, 'Statement is empty').max(MAX_STATEMENT_SIZE, 'Statement file too large'),
+});
+
+const noteSchema = z.string().trim().min(1, 'Say why, for the audit trail').max(200, 'Note too long');
+
+// A manager settling a mismatch between sales and statement credits
+export const resolveUpiSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('match'),
+    lineId: z.string().min(1),
+    transactionId: z.string().min(1),
+    note: z.string().trim().max(200, 'Note too long').optional(),
+  }),
+  z.object({
+    action: z.literal('ignore'),
+    lineId: z.string().min(1),
+    note: noteSchema,
+  }),
+  z.object({
+    action: z.literal('reopen_credit'),
+    lineId: z.string().min(1),
+  }),
+  z.object({
+    action: z.literal('clear'),
+    transactionId: z.string().min(1),
+    note: noteSchema,
+  }),
+  z.object({
+    action: z.literal('reopen_sale'),
+    transactionId: z.string().min(1),
+  }),
+]);
+
+// Export types
+export type ImportUpiStatementInput = z.infer<typeof importUpiStatementSchema>;
+export type ResolveUpiInput = z.infer<typeof resolveUpiSchema>;
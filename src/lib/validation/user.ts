@@ -1,5 +1,4 @@
 import { z } from 'zod';
-import type { UserRole } from '@/types/auth';
 
 // PIN validation schema with complexity requirements
 export const pinSchema = z
@@ -18,8 +17,14 @@ export const pinSchema = z
     return !isRepeated;
   }, 'PIN cannot be all the same digit');
 
-// User role validation
-export const userRoleSchema = z.enum(['admin', 'manager', 'cashier'] as const);
+// User role validation; roles live in the roles table, so whether one exists is checked when saving
+export const userRoleSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, 'Role is required')
+  .max(30, 'Role id too long')
+  .regex(/^[a-z][a-z0-9_-]*$/, 'Role id can only contain lowercase letters, numbers, hyphens and underscores');
 
 // Create user schema
 export const createUserSchema = z.object({
@@ -63,6 +68,12 @@ export const changePinSchema = z.object({
   path: ["newPin"],
 });
 
+// A manager's credentials, entered at the till to approve something a cashier can't do alone
+export const managerOverrideSchema = z.object({
+  username: z.string().trim().min(1, 'Manager username is required').toLowerCase(),
+  pin: z.string().min(1, 'Manager PIN is required'),
+});
+
 // User query schema for filtering
 export const userQuerySchema = z.object({
   role: userRoleSchema.optional(),
@@ -76,4 +87,5 @@ export const userQuerySchema = z.object({
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type ChangePinInput = z.infer<typeof changePinSchema>;
-export type UserQueryInput = z.infer<typeof userQuerySchema>;
\ No newline at end of file
+export type UserQueryInput = z.infer<typeof userQuerySchema>;
+export type ManagerOverrideInput = z.infer<typeof managerOverrideSchema>;
\ No newline at end of file
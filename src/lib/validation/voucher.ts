@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// Codes are printed in capitals but may be typed in any case
+export const voucherCodeSchema = z.string()
+  .trim()
+  .min(1, 'Voucher code is required')
+  .max(30, 'Voucher code too long')
+  .transform(code => code.toUpperCase());
+
+// Gift voucher sold by a manager, e.g. festival gift cards; paid for into the open shift's drawer
+export const issueVoucherSchema = z.object({
+  amount: z.number().positive('Voucher amount must be greater than 0').max(100000, 'Voucher amount too large'),
+  paymentMethod: z.enum(['cash', 'upi'], { errorMap: () => ({ message: 'Choose how the voucher was paid for' }) }),
+  paymentReference: z.string().trim().max(100, 'Payment reference too long').optional(),
+  customerId: z.string().min(1).optional().nullable(),
+  expiresAt: z.coerce.date().optional().nullable()
+    .refine(date => !date || date.getTime() > Date.now(), 'Expiry date must be in the future'),
+  note: z.string().trim().max(200, 'Note too long').optional(),
+});
+
+// Export types
+export type IssueVoucherInput = z.infer<typeof issueVoucherSchema>;
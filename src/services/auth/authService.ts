@@ -1,13 +1,13 @@
 import bcrypt from 'bcryptjs';
-import { eq } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
 import { getDb } from '@/lib/db/connection';
-import { users } from '@/lib/db/schema';
-import type { AuthUser, LoginRequest, LoginResponse, UserRole, Permission } from '@/types/auth';
-import { ROLE_PERMISSIONS, DEFAULT_AUTH_CONFIG } from '@/types/auth';
+import { users, roles, loginAttempts, type LoginAttempt } from '@/lib/db/schema';
+import type { AuthUser, LoginContext, LoginRequest, LoginResponse, Permission } from '@/types/auth';
+import { rolePermissions, UNREGISTERED_DEVICE_ID } from '@/types/auth';
+import { LoginThrottlePolicy, type LoginAttemptScope } from './loginThrottle';
 
 export class AuthService {
   private static instance: AuthService;
-  private loginAttempts = new Map<string, { count: number; lastAttempt: number }>();
   private db: ReturnType<typeof getDb> | null = null;
 
   private constructor() {}
@@ -42,39 +42,42 @@ export class AuthService {
   }
 
   /**
-   * Authenticate user with username and PIN
+   * Authenticate user with username and PIN; failures back off and lock out per username and per device
    */
-  async login(credentials: LoginRequest): Promise<LoginResponse> {
+  async login(credentials: LoginRequest, context: LoginContext = {}): Promise<LoginResponse> {
     const { username, pin } = credentials;
-
-    // Check for rate limiting
-    if (this.isUserLocked(username)) {
-      return {
-        success: false,
-        message: `Account temporarily locked. Try again in ${DEFAULT_AUTH_CONFIG.lockoutDurationMinutes} minutes.`,
-      };
-    }
+    const deviceId = context.deviceId && context.deviceId !== 'unknown' ? context.deviceId : undefined;
 
     try {
+      // Claim the attempt before checking the PIN; refused while the username or device is held off
+      if (!(await this.reserveAttempt('user', username))) {
+        return await this.refusal('user', username);
+      }
+      if (deviceId && !(await this.reserveAttempt('device', deviceId))) {
+        await this.releaseAttempt('user', username);
+        return await this.refusal('device', deviceId);
+      }
+
       // Find user by username
       const userResult = await this.getDb()
-        .select()
+        .select({ user: users, permissions: roles.permissions })
         .from(users)
+        .leftJoin(roles, eq(roles.id, users.role))
         .where(eq(users.username, username))
         .limit(1);
 
       if (userResult.length === 0) {
-        this.recordFailedAttempt(username);
-        return {
-          success: false,
-          message: 'Invalid username or PIN',
-        };
+        return await this.recordFailedAttempt(username, null, { ...context, deviceId });
       }
 
-      const user = userResult[0];
+      const { user, permissions } = userResult[0];
 
       // Check if user is active
       if (!user.isActive) {
+        await this.releaseAttempt('user', username);
+        if (deviceId) {
+          await this.releaseAttempt('device', deviceId);
+        }
         return {
           success: false,
           message: 'Account is deactivated. Contact administrator.',
@@ -84,15 +87,16 @@ export class AuthService {
       // Verify PIN
       const isValidPin = await this.verifyPin(pin, user.pinHash);
       if (!isValidPin) {
-        this.recordFailedAttempt(username);
-        return {
-          success: false,
-          message: 'Invalid username or PIN',
-        };
+        return await this.recordFailedAttempt(username, user.id, { ...context, deviceId });
       }
 
-      // Clear failed attempts on successful login
-      this.loginAttempts.delete(username);
+      // Clear failed attempts on successful login; one login doesn't vouch for every unregistered terminal
+      await this.clearAttempts('user', username);
+      if (deviceId === UNREGISTERED_DEVICE_ID) {
+        await this.releaseAttempt('device', deviceId);
+      } else if (deviceId) {
+        await this.clearAttempts('device', deviceId);
+      }
 
       // Update last login timestamp
       await this.getDb()
@@ -103,11 +107,14 @@ export class AuthService {
         })
         .where(eq(users.id, user.id));
 
+      await this.logSecurityEvent(user.id, 'login', { username: user.username }, { ...context, deviceId });
+
       // Return authenticated user
       const authUser: AuthUser = {
         id: user.id,
         username: user.username,
-        role: user.role as UserRole,
+        role: user.role,
+        permissions: rolePermissions(user.role, permissions),
         isActive: user.isActive ?? true,
         lastLoginAt: user.lastLoginAt ? new Date(user.lastLoginAt) : undefined,
       };
@@ -131,8 +138,9 @@ export class AuthService {
   async getUserById(userId: string): Promise<AuthUser | null> {
     try {
       const userResult = await this.getDb()
-        .select()
+        .select({ user: users, permissions: roles.permissions })
         .from(users)
+        .leftJoin(roles, eq(roles.id, users.role))
         .where(eq(users.id, userId))
         .limit(1);
 
@@ -140,11 +148,12 @@ export class AuthService {
         return null;
       }
 
-      const user = userResult[0];
+      const { user, permissions } = userResult[0];
       return {
         id: user.id,
         username: user.username,
-        role: user.role as UserRole,
+        role: user.role,
+        permissions: rolePermissions(user.role, permissions),
         isActive: user.isActive ?? true,
         lastLoginAt: user.lastLoginAt ? new Date(user.lastLoginAt) : undefined,
       };
@@ -157,22 +166,22 @@ export class AuthService {
   /**
    * Check if user has specific permission
    */
-  hasPermission(userRole: UserRole, permission: Permission): boolean {
-    return ROLE_PERMISSIONS[userRole].includes(permission as any);
+  hasPermission(user: Pick<AuthUser, 'permissions'>, permission: Permission): boolean {
+    return user.permissions.includes(permission);
   }
 
   /**
    * Check if user has any of the specified permissions
    */
-  hasAnyPermission(userRole: UserRole, permissions: Permission[]): boolean {
-    return permissions.some(permission => this.hasPermission(userRole, permission));
+  hasAnyPermission(user: Pick<AuthUser, 'permissions'>, permissions: Permission[]): boolean {
+    return permissions.some(permission => this.hasPermission(user, permission));
   }
 
   /**
    * Check if user has all specified permissions
    */
-  hasAllPermissions(userRole: UserRole, permissions: Permission[]): boolean {
-    return permissions.every(permission => this.hasPermission(userRole, permission));
+  hasAllPermissions(user: Pick<AuthUser, 'permissions'>, permissions: Permission[]): boolean {
+    return permissions.every(permission => this.hasPermission(user, permission));
   }
 
   /**
@@ -212,37 +221,183 @@ export class AuthService {
   }
 
   /**
-   * Record failed login attempt
+   * Claim a PIN check for this username outside login, like a manager approval; returns why it must wait, or null
+   * when it may go ahead. Approvals and logins share the username's failures, so neither gives more guesses at a PIN.
+   * Settle the claim with recordFailedPinCheck or clearFailedPinChecks.
    */
-  private recordFailedAttempt(username: string): void {
-    const now = Date.now();
-    const attempts = this.loginAttempts.get(username) || { count: 0, lastAttempt: now };
-    
-    attempts.count += 1;
-    attempts.lastAttempt = now;
-    
-    this.loginAttempts.set(username, attempts);
+  async reservePinCheck(username: string): Promise<LoginResponse | null> {
+    return (await this.reserveAttempt('user', username)) ? null : this.refusal('user', username);
   }
 
   /**
-   * Check if user is temporarily locked due to failed attempts
+   * Settle a claimed PIN check as wrong, logging it as the given action and any lockout it causes
    */
-  private isUserLocked(username: string): boolean {
-    const attempts = this.loginAttempts.get(username);
-    if (!attempts || attempts.count < DEFAULT_AUTH_CONFIG.maxLoginAttempts) {
-      return false;
+  async recordFailedPinCheck(
+    username: string,
+    userId: string | null,
+    action: string,
+    context: LoginContext = {},
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    const failure = await this.saveFailure('user', username);
+    await this.logSecurityEvent(userId, action, { ...details, username, failedCount: failure.failedCount }, context);
+    if (failure.lockedOut) {
+      await this.logSecurityEvent(userId, 'account_locked', {
+        username,
+        failedCount: failure.failedCount,
+        lockedUntil: failure.lockedUntil,
+      }, context);
     }
+  }
+
+  /**
+   * Forget a username's failed PINs once it has been entered correctly
+   */
+  async clearFailedPinChecks(username: string): Promise<void> {
+    await this.clearAttempts('user', username);
+  }
+
+  /**
+   * Failed attempts recorded for a username or device
+   */
+  private async getAttempts(scope: LoginAttemptScope, key: string): Promise<LoginAttempt | null> {
+    const result = await this.getDb()
+      .select()
+      .from(loginAttempts)
+      .where(eq(loginAttempts.id, LoginThrottlePolicy.attemptId(scope, key)))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  private async clearAttempts(scope: LoginAttemptScope, key: string): Promise<void> {
+    await this.getDb()
+      .delete(loginAttempts)
+      .where(eq(loginAttempts.id, LoginThrottlePolicy.attemptId(scope, key)));
+  }
 
-    const lockoutDuration = DEFAULT_AUTH_CONFIG.lockoutDurationMinutes * 60 * 1000;
-    const timeSinceLastAttempt = Date.now() - attempts.lastAttempt;
-    
-    if (timeSinceLastAttempt > lockoutDuration) {
-      // Lockout period has expired, clear attempts
-      this.loginAttempts.delete(username);
-      return false;
+  /**
+   * The response for an attempt refused while the username or device is backing off, locked out or mid-check
+   */
+  private async refusal(scope: LoginAttemptScope, key: string): Promise<LoginResponse> {
+    const attempts = await this.getAttempts(scope, key);
+    // The hold may have lapsed since the attempt was refused
+    const retryAfterSeconds = Math.max(1, LoginThrottlePolicy.retryAfterSeconds(attempts));
+    const wait = LoginThrottlePolicy.describeWait(retryAfterSeconds);
+    const message = LoginThrottlePolicy.isLockedOut(attempts, scope)
+      ? `${scope === 'user' ? 'Account' : 'This device is'} temporarily locked. Try again in ${wait}.`
+      : `Too many attempts. Try again in ${wait}.`;
+
+    return { success: false, message, retryAfterSeconds };
+  }
+
+  /**
+   * Settle a claimed login as failed against the username and device, logging any lockout it causes.
+   * Unknown usernames are counted too, so a lockout doesn't reveal which accounts exist.
+   */
+  private async recordFailedAttempt(
+    username: string,
+    userId: string | null,
+    context: LoginContext
+  ): Promise<LoginResponse> {
+    await this.recordFailedPinCheck(username, userId, 'login_failed', context);
+
+    if (context.deviceId) {
+      const deviceFailure = await this.saveFailure('device', context.deviceId);
+      if (deviceFailure.lockedOut) {
+        await this.logSecurityEvent(null, 'device_locked', {
+          deviceId: context.deviceId,
+          username,
+          failedCount: deviceFailure.failedCount,
+          lockedUntil: deviceFailure.lockedUntil,
+        }, context);
+      }
     }
 
-    return true;
+    return {
+      success: false,
+      message: 'Invalid username or PIN',
+    };
+  }
+
+  /**
+   * Claim the next attempt for a username or device in a single statement: it is counted as a failure and holds off
+   * other tries until it is settled, so attempts made at the same moment can't all skip the wait. False when held off.
+   */
+  private async reserveAttempt(scope: LoginAttemptScope, key: string): Promise<boolean> {
+    const now = new Date();
+    // Timestamps are stored in whole seconds
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    const memoryStart = Math.floor(LoginThrottlePolicy.memoryStart(now).getTime() / 1000);
+    const heldUntil = LoginThrottlePolicy.heldForCheckUntil(now);
+
+    const reserved = await this.getDb()
+      .insert(loginAttempts)
+      .values({ id: LoginThrottlePolicy.attemptId(scope, key), scope, key, failedCount: 1, lockedUntil: heldUntil })
+      .onConflictDoUpdate({
+        target: loginAttempts.id,
+        set: {
+          failedCount: sql`CASE WHEN ${loginAttempts.lastFailedAt} >= ${memoryStart} THEN ${loginAttempts.failedCount} + 1 ELSE 1 END`,
+          lockedUntil: heldUntil,
+        },
+        setWhere: sql`${loginAttempts.lockedUntil} IS NULL OR ${loginAttempts.lockedUntil} <= ${nowSeconds}`,
+      })
+      .returning({ failedCount: loginAttempts.failedCount });
+
+    return reserved.length > 0;
+  }
+
+  /**
+   * Settle a claimed attempt as a failure: hold off for as long as the failures so far call for
+   */
+  private async saveFailure(scope: LoginAttemptScope, key: string) {
+    const now = new Date();
+    const [saved] = await this.getDb()
+      .update(loginAttempts)
+      .set({ lastFailedAt: now })
+      .where(eq(loginAttempts.id, LoginThrottlePolicy.attemptId(scope, key)))
+      .returning({ failedCount: loginAttempts.failedCount });
+
+    const failure = LoginThrottlePolicy.failedTimes(saved?.failedCount ?? 1, scope, now);
+    await this.getDb()
+      .update(loginAttempts)
+      .set({ lockedUntil: failure.lockedUntil })
+      .where(eq(loginAttempts.id, LoginThrottlePolicy.attemptId(scope, key)));
+
+    return failure;
+  }
+
+  /**
+   * Give back a claimed attempt that never got as far as checking a PIN
+   */
+  private async releaseAttempt(scope: LoginAttemptScope, key: string): Promise<void> {
+    // It was only claimed because nothing held the key off, so there is no earlier wait to restore
+    await this.getDb()
+      .update(loginAttempts)
+      .set({ failedCount: sql`MAX(${loginAttempts.failedCount} - 1, 0)`, lockedUntil: null })
+      .where(eq(loginAttempts.id, LoginThrottlePolicy.attemptId(scope, key)));
+  }
+
+  /**
+   * Write a security event to the activity log; a failed write never blocks a login
+   */
+  private async logSecurityEvent(
+    userId: string | null,
+    action: string,
+    details: Record<string, any>,
+    context: LoginContext
+  ): Promise<void> {
+    try {
+      // Loaded lazily, like the activity service loads its own connection
+      const { userActivityService } = await import('@/services/database/userActivity');
+      await userActivityService.logActivity(userId, action, {
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      });
+    } catch (error) {
+      console.error('Error logging security event:', error);
+    }
   }
 
   /**
@@ -280,8 +435,8 @@ export class AuthService {
   /**
    * Clear all login attempts (for testing)
    */
-  clearLoginAttempts(): void {
-    this.loginAttempts.clear();
+  async clearLoginAttempts(): Promise<void> {
+    await this.getDb().delete(loginAttempts);
   }
 }
 
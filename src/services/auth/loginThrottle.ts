@@ -0,0 +1,100 @@
+import { DEFAULT_AUTH_CONFIG } from '@/types/auth';
+
+export type LoginAttemptScope = 'user' | 'device';
+
+export interface LoginAttemptState {
+  failedCount: number;
+  lastFailedAt?: Date | null;
+  lockedUntil?: Date | null;
+}
+
+/**
+ * Spaces out failed PIN attempts. Each failure doubles the wait before the next try; at the limit the
+ * username or device is locked out, and each failure after that doubles the lockout, until a login
+ * succeeds, an admin unlocks it, or it goes a full lockout ceiling without failing.
+ */
+export class LoginThrottlePolicy {
+  static attemptId(scope: LoginAttemptScope, key: string): string {
+    return `${scope}:${key}`;
+  }
+
+  static limit(scope: LoginAttemptScope): number {
+    return scope === 'user' ? DEFAULT_AUTH_CONFIG.maxLoginAttempts : DEFAULT_AUTH_CONFIG.maxDeviceLoginAttempts;
+  }
+
+  /**
+   * Seconds until the next attempt is allowed; 0 when it is
+   */
+  static retryAfterSeconds(state: LoginAttemptState | null | undefined, now: Date = new Date()): number {
+    if (!state?.lockedUntil) {
+      return 0;
+    }
+    return Math.max(0, Math.ceil((state.lockedUntil.getTime() - now.getTime()) / 1000));
+  }
+
+  /**
+   * Whether the state is a lockout rather than a short backoff between tries
+   */
+  static isLockedOut(state: LoginAttemptState | null | undefined, scope: LoginAttemptScope, now: Date = new Date()): boolean {
+    return !!state && state.failedCount >= this.limit(scope) && this.retryAfterSeconds(state, now) > 0;
+  }
+
+  /**
+   * How long to hold off after the given number of failures in a row
+   */
+  static waitSeconds(failedCount: number, scope: LoginAttemptScope): number {
+    const limit = this.limit(scope);
+    const lockoutSeconds = DEFAULT_AUTH_CONFIG.lockoutDurationMinutes * 60;
+    if (failedCount < limit) {
+      return Math.min(DEFAULT_AUTH_CONFIG.loginBackoffSeconds * 2 ** (failedCount - 1), lockoutSeconds);
+    }
+
+    return Math.min(lockoutSeconds * 2 ** (failedCount - limit), DEFAULT_AUTH_CONFIG.maxLockoutHours * 60 * 60);
+  }
+
+  /**
+   * Until when a PIN check started now holds off other tries; a check that never finishes stays counted as a failure
+   */
+  static heldForCheckUntil(now: Date = new Date()): Date {
+    return new Date(now.getTime() + DEFAULT_AUTH_CONFIG.pinCheckHoldSeconds * 1000);
+  }
+
+  /**
+   * Failures before this are forgotten rather than counted towards the next wait
+   */
+  static memoryStart(now: Date = new Date()): Date {
+    return new Date(now.getTime() - DEFAULT_AUTH_CONFIG.maxLockoutHours * 60 * 60 * 1000);
+  }
+
+  /**
+   * The state after one more failure; failures older than the lockout ceiling are forgotten
+   */
+  static afterFailure(state: LoginAttemptState | null | undefined, scope: LoginAttemptScope, now: Date = new Date()) {
+    const recent = state?.lastFailedAt && state.lastFailedAt >= this.memoryStart(now);
+    return this.failedTimes((recent ? state.failedCount : 0) + 1, scope, now);
+  }
+
+  /**
+   * The state once the given number of failures in a row has been counted, the last of them now
+   */
+  static failedTimes(failedCount: number, scope: LoginAttemptScope, now: Date = new Date()) {
+    return {
+      failedCount,
+      lastFailedAt: now,
+      lockedUntil: new Date(now.getTime() + this.waitSeconds(failedCount, scope) * 1000),
+      lockedOut: failedCount >= this.limit(scope),
+    };
+  }
+
+  /**
+   * "45 seconds", "15 minutes", "2 hours"
+   */
+  static describeWait(seconds: number): string {
+    const [amount, unit] = seconds < 60
+      ? [seconds, 'second']
+      : seconds < 60 * 60
+        ? [Math.ceil(seconds / 60), 'minute']
+        : [Math.ceil(seconds / 3600), 'hour'];
+    return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+  }
+}
@@ -0,0 +1,40 @@
+import { LARGE_DISCOUNT_PERCENT, type AuthUser, type OverrideReason } from '@/types/auth';
+
+export interface OverrideSaleLine {
+  unitPrice: number;
+  quantity: number;
+  listPrice: number; // The variant's price, or the product's base price for custom variants
+  isCustomVariant?: boolean;
+  customVariantData?: { customPrice: number };
+}
+
+/**
+ * Decides which till actions need a manager's PIN. Anyone who can approve overrides approves their own.
+ */
+export class ManagerOverridePolicy {
+  static needsApproval(user: Pick<AuthUser, 'permissions'>): boolean {
+    return !user.permissions.includes('sales.override');
+  }
+
+  /**
+   * What a sale needs approved before it is rung up; expired stock is found later, as batches are picked
+   */
+  static saleReasons(lines: OverrideSaleLine[], discount: number = 0): OverrideReason[] {
+    const reasons: OverrideReason[] = [];
+
+    const belowList = lines.some(line => {
+      const price = line.isCustomVariant ? line.customVariantData?.customPrice ?? line.unitPrice : line.unitPrice;
+      return price < line.listPrice;
+    });
+    if (belowList) {
+      reasons.push('price_override');
+    }
+
+    const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+    if (discount > 0 && discount > subtotal * LARGE_DISCOUNT_PERCENT / 100) {
+      reasons.push('large_discount');
+    }
+
+    return reasons;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Barcode normalisation and check-digit validation. Books carry ISBNs, which
+ * are printed as EAN-13 (978/979 prefix); other goods use EAN-13, EAN-8 or UPC-A.
+ */
+export class Barcode {
+  /**
+   * Strip separators and convert ISBN-10 to its ISBN-13 form, so a typed
+   * "81-89957-00-7" and a scanned "9788189957004" resolve to the same code
+   */
+  static normalize(raw: string): string {
+    const code = raw.replace(/[\s-]/g, '').toUpperCase();
+
+    if (this.isValidIsbn10(code)) {
+      return this.isbn10To13(code);
+    }
+    return code;
+  }
+
+  /**
+   * Whether a normalised code is an EAN-13, EAN-8 or UPC-A with a correct check digit
+   */
+  static isGtin(code: string): boolean {
+    if (!/^(\d{8}|\d{12}|\d{13})$/.test(code)) {
+      return false;
+    }
+    return this.gtinCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+  }
+
+  /**
+   * Whether a normalised code can be linked to a variant. Numeric codes of a
+   * GTIN length must carry a valid check digit (this catches mistyped ISBNs);
+   * anything else is treated as an in-store label code.
+   */
+  static isValid(code: string): boolean {
+    if (/^(\d{8}|\d{12}|\d{13})$/.test(code)) {
+      return this.isGtin(code);
+    }
+    return /^[0-9A-Z]{6,32}$/.test(code);
+  }
+
+  /**
+   * Whether a normalised code is a book ISBN (Bookland EAN)
+   */
+  static isIsbn(code: string): boolean {
+    return /^97[89]\d{10}$/.test(code) && this.isGtin(code);
+  }
+
+  static isValidIsbn10(code: string): boolean {
+    if (!/^\d{9}[\dX]$/.test(code)) {
+      return false;
+    }
+
+    const sum = code.split('').reduce((total, char, index) => {
+      const value = char === 'X' ? 10 : Number(char);
+      return total + value * (10 - index);
+    }, 0);
+    return sum % 11 === 0;
+  }
+
+  private static isbn10To13(isbn10: string): string {
+    const body = `978${isbn10.slice(0, 9)}`;
+    return `${body}${this.gtinCheckDigit(body)}`;
+  }
+
+  /**
+   * GS1 check digit: weights alternate 3,1 from the rightmost data digit
+   */
+  private static gtinCheckDigit(digits: string): number {
+    const sum = digits
+      .split('')
+      .reverse()
+      .reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10;
+  }
+}
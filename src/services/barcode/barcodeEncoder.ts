@@ -0,0 +1,111 @@
+import { Barcode } from './barcode';
+import type { BarcodeFormat } from '@/types/label';
+
+// EAN-13 "L" (odd parity) digit patterns; R is the complement, G is R reversed
+const EAN_L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+
+// Parity of the six left-hand digits, chosen by the leading (13th) digit
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// CODE128 symbol widths (bar, space, bar, space, bar, space) indexed by symbol value
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = '2331112';
+
+const complement = (bits: string) => bits.replace(/[01]/g, bit => (bit === '0' ? '1' : '0'));
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Turns product codes into bar patterns for labels printed on paper, where
+ * the printer can't draw the barcode itself (thermal printers use ESC/POS).
+ */
+export class BarcodeEncoder {
+  /**
+   * EAN-13 for ISBN/EAN codes, CODE128 for anything else
+   */
+  static formatFor(code: string): BarcodeFormat {
+    return code.length === 13 && Barcode.isGtin(code) ? 'EAN13' : 'CODE128';
+  }
+
+  /**
+   * The 95 modules of an EAN-13 symbol, '1' for bar and '0' for space
+   */
+  static ean13Modules(code: string): string {
+    if (!/^\d{13}$/.test(code)) {
+      throw new Error('EAN-13 needs exactly 13 digits');
+    }
+
+    const digits = code.split('').map(Number);
+    const parity = EAN_PARITY[digits[0]];
+
+    const left = digits.slice(1, 7).map((digit, index) => {
+      const right = complement(EAN_L_CODES[digit]);
+      return parity[index] === 'L' ? EAN_L_CODES[digit] : right.split('').reverse().join('');
+    });
+    const right = digits.slice(7).map(digit => complement(EAN_L_CODES[digit]));
+
+    return `101${left.join('')}01010${right.join('')}101`;
+  }
+
+  /**
+   * CODE128 (code set B) modules including the check symbol
+   */
+  static code128Modules(data: string): string {
+    if (!/^[\x20-\x7e]+$/.test(data)) {
+      throw new Error('CODE128 labels support printable ASCII only');
+    }
+
+    const values = data.split('').map(char => char.charCodeAt(0) - 32);
+    const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), CODE128_START_B) % 103;
+    const symbols = [CODE128_START_B, ...values, checksum].map(value => CODE128_PATTERNS[value]);
+
+    return [...symbols, CODE128_STOP]
+      .join('')
+      .split('')
+      .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+      .join('');
+  }
+
+  /**
+   * Inline SVG of the barcode with its digits underneath, scaled to fit its box
+   */
+  static toSVG(code: string, options: { height?: number; showText?: boolean } = {}): string {
+    const { height = 50, showText = true } = options;
+    const modules = this.formatFor(code) === 'EAN13' ? this.ean13Modules(code) : this.code128Modules(code);
+
+    const quietZone = 10;
+    const width = modules.length + quietZone * 2;
+    const barHeight = showText ? height - 10 : height;
+
+    const bars: string[] = [];
+    let runStart = -1;
+    for (let i = 0; i <= modules.length; i++) {
+      if (modules[i] === '1' && runStart < 0) {
+        runStart = i;
+      } else if (modules[i] !== '1' && runStart >= 0) {
+        bars.push(`<rect x="${quietZone + runStart}" y="0" width="${i - runStart}" height="${barHeight}"/>`);
+        runStart = -1;
+      }
+    }
+
+    const text = showText
+      ? `<text x="${width / 2}" y="${height - 1}" font-family="monospace" font-size="9" text-anchor="middle">${escapeXml(code)}</text>`
+      : '';
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" height="100%"><g fill="#000">${bars.join('')}</g>${text}</svg>`;
+  }
+}
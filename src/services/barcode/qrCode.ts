@@ -0,0 +1,411 @@
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// Error correction codewords per block and number of blocks, indexed by version (1-40)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+const ECC_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// Two-bit level indicator written into the format information
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+// Finder-like runs (1:1:3:1:1 with four light modules on one side) that mask selection avoids
+const FINDER_LIKE = ['10111010000', '00001011101'];
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Multiplication in GF(2^8) modulo the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Encodes text as a QR code (ISO/IEC 18004, byte mode) for drawing on screen or paper.
+ * Thermal printers draw their own QR codes from ESC/POS; this is for everywhere else.
+ */
+export class QrCode {
+  /**
+   * Modules left after the function patterns, i.e. room for data and error correction
+   */
+  static rawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+      const alignments = Math.floor(version / 7) + 2;
+      result -= (25 * alignments - 10) * alignments - 55;
+      if (version >= 7) {
+        result -= 36;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Data codewords a version holds at an error correction level
+   */
+  static dataCodewords(version: number, ecc: QrErrorCorrection): number {
+    return Math.floor(this.rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[ecc][version] * ECC_BLOCKS[ecc][version];
+  }
+
+  /**
+   * Split data into blocks, append each block's Reed-Solomon codewords and interleave them
+   */
+  static addErrorCorrection(data: number[], version: number, ecc: QrErrorCorrection): number[] {
+    const blockCount = ECC_BLOCKS[ecc][version];
+    const eccLength = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+    const rawCodewords = Math.floor(this.rawDataModules(version) / 8);
+    const shortBlocks = blockCount - (rawCodewords % blockCount);
+    const shortBlockLength = Math.floor(rawCodewords / blockCount);
+    const divisor = reedSolomonDivisor(eccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < blockCount; i++) {
+      const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+      offset += blockData.length;
+      const block = [...blockData];
+      // Short blocks get a placeholder so all blocks line up when interleaving
+      if (i < shortBlocks) {
+        block.push(0);
+      }
+      blocks.push(block.concat(reedSolomonRemainder(blockData, divisor)));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+      blocks.forEach((block, j) => {
+        if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+          result.push(block[i]);
+        }
+      });
+    }
+    return result;
+  }
+
+  /**
+   * The smallest QR code holding the text, as rows of modules (true is dark)
+   */
+  static encode(text: string, ecc: QrErrorCorrection = 'M'): boolean[][] {
+    const bytes = Array.from(new TextEncoder().encode(text));
+
+    let version = 1;
+    for (; version <= 40; version++) {
+      const countBits = version <= 9 ? 8 : 16;
+      if (bytes.length < 1 << countBits && 4 + countBits + bytes.length * 8 <= this.dataCodewords(version, ecc) * 8) {
+        break;
+      }
+    }
+    if (version > 40) {
+      throw new Error('Text is too long for a QR code');
+    }
+
+    // Byte mode indicator, character count, then the data
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i--) {
+        bits.push((value >>> i) & 1);
+      }
+    };
+    append(0b0100, 4);
+    append(bytes.length, version <= 9 ? 8 : 16);
+    bytes.forEach(byte => append(byte, 8));
+
+    // Terminator, byte alignment, then alternating pad codewords
+    const capacity = this.dataCodewords(version, ecc) * 8;
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+      append(pad, 8);
+    }
+
+    const data: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+
+    return new QrMatrix(version, ecc).draw(this.addErrorCorrection(data, version, ecc));
+  }
+
+  /**
+   * SVG of a QR code, with the four-module quiet zone scanners need
+   */
+  static toSVG(text: string, options: { ecc?: QrErrorCorrection } = {}): string {
+    const modules = this.encode(text, options.ecc);
+    const quietZone = 4;
+    const size = modules.length + quietZone * 2;
+
+    const cells: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) {
+          cells.push(`M${x + quietZone},${y + quietZone}h1v1h-1z`);
+        }
+      });
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="100%" height="100%" shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#fff"/><path d="${cells.join('')}" fill="#000"/></svg>`;
+  }
+}
+
+// The module grid of one symbol while it is being drawn
+class QrMatrix {
+  private size: number;
+  private modules: boolean[][];
+  private isFunction: boolean[][];
+
+  constructor(private version: number, private ecc: QrErrorCorrection) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  draw(codewords: number[]): boolean[][] {
+    this.drawFunctionPatterns();
+    this.drawCodewords(codewords);
+
+    // Try every mask and keep the one that leaves the fewest scanner-confusing patterns
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+      this.applyMask(mask);
+      this.drawFormatBits(mask);
+      const penalty = this.penalty();
+      if (penalty < bestPenalty) {
+        bestMask = mask;
+        bestPenalty = penalty;
+      }
+      this.applyMask(mask); // XOR again to undo
+    }
+
+    this.applyMask(bestMask);
+    this.drawFormatBits(bestMask);
+    return this.modules;
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) {
+      return [];
+    }
+    const count = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+    const result = [6];
+    for (let position = this.size - 7; result.length < count; position -= step) {
+      result.splice(1, 0, position);
+    }
+    return result;
+  }
+
+  private drawFunctionPatterns() {
+    // Timing patterns
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their separators, in three corners
+    for (const [cx, cy] of [[3, 3], [this.size - 4, 3], [3, this.size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            const distance = Math.max(Math.abs(dx), Math.abs(dy));
+            this.setFunctionModule(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    // Alignment patterns, except where they would overlap a finder
+    const positions = this.alignmentPositions();
+    const last = positions.length - 1;
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunctionModule(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas; the real bits go in once the mask is chosen
+    this.drawFormatBits(0);
+
+    // Version information, from version 7 up
+    if (this.version >= 7) {
+      let remainder = this.version;
+      for (let i = 0; i < 12; i++) {
+        remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+      }
+      const bits = (this.version << 12) | remainder;
+      for (let i = 0; i < 18; i++) {
+        const a = this.size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunctionModule(a, b, getBit(bits, i));
+        this.setFunctionModule(b, a, getBit(bits, i));
+      }
+    }
+  }
+
+  private drawFormatBits(mask: number) {
+    const data = (FORMAT_BITS[this.ecc] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) {
+      this.setFunctionModule(8, i, getBit(bits, i));
+    }
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunctionModule(14 - i, 8, getBit(bits, i));
+    }
+
+    // Split between the other two finders, plus the module that is always dark
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+    }
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  // Codeword bits run in two-module columns, zigzagging up and down from the bottom right
+  private drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5; // Skip the vertical timing pattern
+      }
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  private applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && MASKS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  private penalty(): number {
+    let result = 0;
+    const lines: string[] = [];
+    for (let i = 0; i < this.size; i++) {
+      lines.push(this.modules[i].map(dark => (dark ? '1' : '0')).join(''));
+      lines.push(this.modules.map(row => (row[i] ? '1' : '0')).join(''));
+    }
+
+    for (const line of lines) {
+      // Runs of five or more modules of one colour
+      for (const run of line.match(/0{5,}|1{5,}/g) || []) {
+        result += 3 + run.length - 5;
+      }
+      // Patterns that look like a finder
+      for (const pattern of FINDER_LIKE) {
+        for (let at = line.indexOf(pattern); at >= 0; at = line.indexOf(pattern, at + 1)) {
+          result += 40;
+        }
+      }
+    }
+
+    // 2x2 blocks of one colour
+    let dark = 0;
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.modules[y][x]) dark++;
+        if (
+          x + 1 < this.size && y + 1 < this.size &&
+          this.modules[y][x] === this.modules[y][x + 1] &&
+          this.modules[y][x] === this.modules[y + 1][x] &&
+          this.modules[y][x] === this.modules[y + 1][x + 1]
+        ) {
+          result += 3;
+        }
+      }
+    }
+
+    // Distance from an even balance of dark and light
+    const total = this.size * this.size;
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return result;
+  }
+}
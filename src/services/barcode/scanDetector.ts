@@ -0,0 +1,49 @@
+import { SCANNER_CONFIG } from '@/lib/constants';
+
+/**
+ * Tells a USB barcode scanner apart from a person typing. Scanners act as
+ * keyboards but send every character within a few milliseconds and finish
+ * with Enter; a key arriving after a longer gap starts a fresh buffer.
+ */
+export class ScanDetector {
+  private buffer = '';
+  private lastKeyAt = 0;
+
+  constructor(
+    private maxKeyInterval: number = SCANNER_CONFIG.MAX_KEY_INTERVAL_MS,
+    private minLength: number = SCANNER_CONFIG.MIN_LENGTH
+  ) {}
+
+  /**
+   * Feed one keydown; returns the scanned code when Enter completes a scan
+   */
+  handleKey(key: string, timestamp: number): string | null {
+    // Scanners press Shift for upper-case characters; it isn't part of the code
+    if (key === 'Shift') {
+      return null;
+    }
+
+    const isFast = this.buffer.length > 0 && timestamp - this.lastKeyAt <= this.maxKeyInterval;
+    this.lastKeyAt = timestamp;
+
+    if (key === 'Enter') {
+      const code = isFast && this.buffer.length >= this.minLength ? this.buffer : null;
+      this.buffer = '';
+      return code;
+    }
+
+    // Only printable characters make up a code; navigation and control keys reset it
+    if (key.length !== 1) {
+      this.buffer = '';
+      return null;
+    }
+
+    this.buffer = isFast ? this.buffer + key : key;
+    return null;
+  }
+
+  reset(): void {
+    this.buffer = '';
+    this.lastKeyAt = 0;
+  }
+}
@@ -1,6 +1,7 @@
 import { getDb } from '@/lib/db/connection';
 import { transactions, products, users, categories, transactionItems, productVariants } from '@/lib/db/schema';
 import { sql, eq, and, gte, desc, count } from 'drizzle-orm';
+import { salesValue } from '@/services/database/donations';
 import type { DashboardMetrics, QuickStats } from '@/types';
 
 export class DashboardService {
@@ -107,7 +108,7 @@ export class DashboardService {
 
     const result = await this.db
       .select({
-        total: sql<number>`COALESCE(SUM(${transactions.total}), 0)`,
+        total: sql<number>`COALESCE(SUM(${salesValue}), 0)`,
         count: sql<number>`COUNT(*)`,
       })
       .from(transactions)
@@ -141,7 +142,7 @@ export class DashboardService {
 
     const result = await this.db
       .select({
-        total: sql<number>`COALESCE(SUM(${transactions.total}), 0)`,
+        total: sql<number>`COALESCE(SUM(${salesValue}), 0)`,
       })
       .from(transactions)
       .where(
@@ -0,0 +1,425 @@
+import { getDb, type DbTransaction } from '@/lib/db/connection';
+import {
+  stockBatches,
+  transactionItemBatches,
+  products,
+  productVariants,
+  type StockBatchRecord,
+  type NewStockBatchRecord,
+  type NewTransactionItemBatchRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, or, asc, desc, gt, lte, isNull, isNotNull, sql, type SQL } from 'drizzle-orm';
+import { stockMovementService } from './stockMovements';
+import type { NearExpiryBatch, StockBatch } from '@/types/stock';
+import type { CreateBatchInput } from '@/lib/validation/batch';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Soonest expiry first; batches without a date go last
+const fefoOrder = [
+  sql`${stockBatches.expiresAt} IS NULL`,
+  asc(stockBatches.expiresAt),
+  asc(stockBatches.createdAt),
+];
+
+export interface BatchAllocation {
+  batchId: string;
+  quantity: number;
+}
+
+export interface AllocateOptions {
+  // Where the sale takes its stock from; the default location when not given
+  locationId?: string | null;
+  // Sell from expired batches once the good stock runs out; needs a manager's approval
+  allowExpired?: boolean;
+  now?: Date;
+}
+
+/**
+ * Whether a batch is past its expiry date
+ */
+export function isExpired(batch: Pick<StockBatch, 'expiresAt'>, now: Date = new Date()): boolean {
+  return !!batch.expiresAt && new Date(batch.expiresAt).getTime() <= now.getTime();
+}
+
+export class BatchService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toBatch(record: StockBatchRecord): StockBatch {
+    return {
+      id: record.id,
+      variantId: record.variantId,
+      locationId: record.locationId,
+      batchNumber: record.batchNumber,
+      manufacturedAt: record.manufacturedAt,
+      expiresAt: record.expiresAt,
+      quantity: record.quantity,
+      receivedQuantity: record.receivedQuantity,
+      createdAt: record.createdAt,
+    };
+  }
+
+  /**
+   * Batches of every variant of a product, in the order they will be sold
+   */
+  async findByProduct(productId: string, includeEmpty: boolean = false): Promise<StockBatch[]> {
+    try {
+      const rows: Array<{ batch: StockBatchRecord }> = await this.db
+        .select({ batch: stockBatches })
+        .from(stockBatches)
+        .innerJoin(productVariants, eq(stockBatches.variantId, productVariants.id))
+        .where(includeEmpty
+          ? eq(productVariants.productId, productId)
+          : and(eq(productVariants.productId, productId), gt(stockBatches.quantity, 0)))
+        .orderBy(...fefoOrder);
+
+      return rows.map(row => this.toBatch(row.batch));
+    } catch (error) {
+      console.error('Error finding batches:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find batch by ID
+   */
+  async findById(id: string): Promise<StockBatch | null> {
+    try {
+      const [record] = await this.db
+        .select()
+        .from(stockBatches)
+        .where(eq(stockBatches.id, id))
+        .limit(1);
+
+      return record ? this.toBatch(record) : null;
+    } catch (error) {
+      console.error('Error finding batch by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A location's batches; the default location when none is given. Batches added before
+   * locations were set up have no location and are the default location's.
+   */
+  private async batchesAt(tx: DbTransaction, locationId?: string | null): Promise<{ locationId: string | null; where: SQL | undefined }> {
+    const defaultLocationId = await stockMovementService.findDefaultLocationId(tx);
+    const at = locationId || defaultLocationId;
+    if (!at) {
+      return { locationId: null, where: undefined };
+    }
+
+    return {
+      locationId: at,
+      where: at === defaultLocationId
+        ? or(eq(stockBatches.locationId, at), isNull(stockBatches.locationId))
+        : eq(stockBatches.locationId, at),
+    };
+  }
+
+  /**
+   * Stock on hand at a location not yet assigned to any of its batches
+   */
+  private async untrackedQuantity(tx: DbTransaction, variantId: string, locationId?: string | null): Promise<number> {
+    const location = await this.batchesAt(tx, locationId);
+    const [row] = await tx
+      .select({
+        total: productVariants.stockQuantity,
+        batched: sql<number>`COALESCE((
+          SELECT SUM(${stockBatches.quantity}) FROM ${stockBatches}
+          WHERE ${stockBatches.variantId} = ${productVariants}.id
+          ${location.where ? sql`AND ${location.where}` : sql``}
+        ), 0)`,
+      })
+      .from(productVariants)
+      .where(eq(productVariants.id, variantId))
+      .limit(1);
+
+    const onHand = location.locationId
+      ? await stockMovementService.locationLevel(tx, variantId, location.locationId)
+      : row?.total || 0;
+    return Math.max(0, onHand - Number(row?.batched || 0));
+  }
+
+  /**
+   * Add a batch. New stock is received into it; otherwise it labels stock
+   * already on the shelf that has no batch yet.
+   */
+  async createBatch(data: CreateBatchInput, userId: string): Promise<StockBatch> {
+    try {
+      const [variant] = await this.db
+        .select({ productName: products.name, variantName: productVariants.name, trackBatches: products.trackBatches })
+        .from(productVariants)
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(eq(productVariants.id, data.variantId))
+        .limit(1);
+
+      if (!variant) {
+        throw new Error(`Variant ${data.variantId} not found`);
+      }
+      if (!variant.trackBatches) {
+        throw new Error(`Turn on batch tracking for ${variant.productName} first`);
+      }
+
+      const [duplicate] = await this.db
+        .select({ id: stockBatches.id })
+        .from(stockBatches)
+        .where(and(eq(stockBatches.variantId, data.variantId), eq(stockBatches.batchNumber, data.batchNumber)))
+        .limit(1);
+
+      if (duplicate) {
+        throw new Error(`Batch ${data.batchNumber} already exists for ${variant.productName} - ${variant.variantName}`);
+      }
+
+      const batchData: NewStockBatchRecord = {
+        id: uuidv4(),
+        variantId: data.variantId,
+        batchNumber: data.batchNumber,
+        manufacturedAt: data.manufacturedAt || null,
+        expiresAt: data.expiresAt || null,
+        quantity: data.quantity,
+        receivedQuantity: data.quantity,
+        createdBy: userId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await this.db.transaction(async (tx) => {
+        batchData.locationId = (await this.batchesAt(tx, data.locationId)).locationId;
+
+        if (data.addToStock) {
+          await stockMovementService.applyChange(tx, {
+            variantId: data.variantId,
+            type: 'receipt',
+            quantity: data.quantity,
+            locationId: batchData.locationId,
+            referenceId: batchData.id,
+            reason: `Batch ${data.batchNumber}`,
+            userId,
+            unitCost: data.unitCost,
+          });
+        } else {
+          const untracked = await this.untrackedQuantity(tx, data.variantId, batchData.locationId);
+          if (data.quantity > untracked) {
+            throw new Error(`Only ${untracked} of ${variant.productName} - ${variant.variantName} are not in a batch yet`);
+          }
+        }
+
+        await tx.insert(stockBatches).values(batchData);
+      });
+
+      return await this.findById(batchData.id) as StockBatch;
+    } catch (error) {
+      console.error('Error creating batch:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take whatever is left of a batch out of stock, e.g. once it has expired
+   */
+  async writeOffBatch(id: string, userId: string, reason?: string): Promise<StockBatch | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+      if (existing.quantity <= 0) {
+        throw new Error(`Batch ${existing.batchNumber} has nothing left to write off`);
+      }
+
+      await this.db.transaction(async (tx) => {
+        await tx
+          .update(stockBatches)
+          .set({ quantity: 0, updatedAt: new Date() })
+          .where(eq(stockBatches.id, id));
+
+        await stockMovementService.applyChange(tx, {
+          variantId: existing.variantId,
+          type: 'write_off',
+          quantity: -existing.quantity,
+          locationId: existing.locationId,
+          referenceId: id,
+          reason: reason || `Batch ${existing.batchNumber} ${isExpired(existing) ? 'expired' : 'written off'}`,
+          userId,
+        });
+      });
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error writing off batch:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a sale's quantity out of a variant's batches at the sale's location, first-expiry-first-out.
+   * Good batches go first, then stock without a batch. Expired batches are
+   * only touched with allowExpired; otherwise running into one is an error.
+   * Any shortfall beyond that is left unallocated, as for untracked products.
+   */
+  async allocate(
+    tx: DbTransaction,
+    variantId: string,
+    quantity: number,
+    options: AllocateOptions = {}
+  ): Promise<BatchAllocation[]> {
+    const now = options.now || new Date();
+    const location = await this.batchesAt(tx, options.locationId);
+    const batches: StockBatchRecord[] = await tx
+      .select()
+      .from(stockBatches)
+      .where(and(eq(stockBatches.variantId, variantId), gt(stockBatches.quantity, 0), location.where))
+      .orderBy(...fefoOrder);
+
+    const good = batches.filter(batch => !isExpired(batch, now));
+    const expired = batches.filter(batch => isExpired(batch, now));
+    const allocations: BatchAllocation[] = [];
+    let remaining = quantity;
+
+    const take = (batch: StockBatchRecord) => {
+      const taken = Math.min(batch.quantity, remaining);
+      if (taken > 0) {
+        allocations.push({ batchId: batch.id, quantity: taken });
+        remaining -= taken;
+      }
+    };
+
+    good.forEach(take);
+    if (remaining > 0) {
+      remaining -= Math.min(remaining, await this.untrackedQuantity(tx, variantId, location.locationId));
+    }
+
+    if (remaining > 0 && expired.length > 0) {
+      if (!options.allowExpired) {
+        const [variant] = await tx
+          .select({ productName: products.name, variantName: productVariants.name })
+          .from(productVariants)
+          .innerJoin(products, eq(productVariants.productId, products.id))
+          .where(eq(productVariants.id, variantId))
+          .limit(1);
+        const batch = expired[0];
+        throw new Error(
+          `Batch ${batch.batchNumber} of ${variant?.productName} - ${variant?.variantName} expired on ` +
+          `${new Date(batch.expiresAt as Date).toISOString().slice(0, 10)}; a manager must approve selling expired stock`
+        );
+      }
+      expired.forEach(take);
+    }
+
+    for (const allocation of allocations) {
+      await tx
+        .update(stockBatches)
+        .set({ quantity: sql`${stockBatches.quantity} - ${allocation.quantity}`, updatedAt: now })
+        .where(eq(stockBatches.id, allocation.batchId));
+    }
+
+    return allocations;
+  }
+
+  /**
+   * Record which batches a sale line came from
+   */
+  async recordAllocations(tx: DbTransaction, transactionItemId: string, allocations: BatchAllocation[]): Promise<void> {
+    if (allocations.length === 0) {
+      return;
+    }
+
+    const rows: NewTransactionItemBatchRecord[] = allocations.map(allocation => ({
+      id: uuidv4(),
+      transactionItemId,
+      batchId: allocation.batchId,
+      quantity: allocation.quantity,
+    }));
+    await tx.insert(transactionItemBatches).values(rows);
+  }
+
+  /**
+   * Put returned units back into the batches the sale line took them from,
+   * latest expiry first. Units beyond what came from batches stay untracked.
+   */
+  async restock(tx: DbTransaction, transactionItemId: string, quantity: number): Promise<void> {
+    const allocations: Array<{ id: string; batchId: string; quantity: number }> = await tx
+      .select({
+        id: transactionItemBatches.id,
+        batchId: transactionItemBatches.batchId,
+        quantity: transactionItemBatches.quantity,
+      })
+      .from(transactionItemBatches)
+      .innerJoin(stockBatches, eq(transactionItemBatches.batchId, stockBatches.id))
+      .where(eq(transactionItemBatches.transactionItemId, transactionItemId))
+      .orderBy(desc(stockBatches.expiresAt));
+
+    let remaining = quantity;
+    for (const allocation of allocations) {
+      const returned = Math.min(allocation.quantity, remaining);
+      if (returned <= 0) {
+        break;
+      }
+
+      await tx
+        .update(stockBatches)
+        .set({ quantity: sql`${stockBatches.quantity} + ${returned}`, updatedAt: new Date() })
+        .where(eq(stockBatches.id, allocation.batchId));
+      // Shrink the allocation so a second return can't put the same units back twice
+      await tx
+        .update(transactionItemBatches)
+        .set({ quantity: allocation.quantity - returned })
+        .where(eq(transactionItemBatches.id, allocation.id));
+      remaining -= returned;
+    }
+  }
+
+  /**
+   * Batches with stock left that expire within the given number of days,
+   * including those already expired
+   */
+  async getNearExpiry(days: number = 30, now: Date = new Date()): Promise<NearExpiryBatch[]> {
+    try {
+      const cutoff = new Date(now.getTime() + days * DAY_MS);
+      const rows: Array<{
+        batch: StockBatchRecord;
+        productId: string;
+        productName: string;
+        variantName: string;
+        price: number;
+      }> = await this.db
+        .select({
+          batch: stockBatches,
+          productId: products.id,
+          productName: products.name,
+          variantName: productVariants.name,
+          price: productVariants.price,
+        })
+        .from(stockBatches)
+        .innerJoin(productVariants, eq(stockBatches.variantId, productVariants.id))
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(and(
+          gt(stockBatches.quantity, 0),
+          isNotNull(stockBatches.expiresAt),
+          lte(stockBatches.expiresAt, cutoff)
+        ))
+        .orderBy(asc(stockBatches.expiresAt));
+
+      return rows.map(row => ({
+        ...this.toBatch(row.batch),
+        productId: row.productId,
+        productName: row.productName,
+        variantName: row.variantName,
+        daysToExpiry: Math.ceil((new Date(row.batch.expiresAt as Date).getTime() - now.getTime()) / DAY_MS),
+        value: Math.round(row.batch.quantity * row.price * 100) / 100,
+      }));
+    } catch (error) {
+      console.error('Error getting near-expiry batches:', error);
+      throw error;
+    }
+  }
+}
+
+export const batchService = new BatchService();
@@ -0,0 +1,306 @@
+import { getDb } from '@/lib/db/connection';
+import {
+  customers,
+  membershipTiers,
+  transactions,
+  transactionItems,
+  returns,
+  products,
+  type CustomerRecord,
+  type NewCustomerRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, ne, asc, desc, like, or, sql } from 'drizzle-orm';
+import { normalizePhone } from '@/lib/validation/customer';
+import { salesValue } from './donations';
+import type { Customer, CustomerHistory, CustomerLanguage, CustomerPurchase, CustomerTopProduct } from '@/types/customer';
+import type { CreateCustomerInput, UpdateCustomerInput } from '@/lib/validation/customer';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Outer transaction id spelled out, since drizzle leaves columns unqualified in single-table selects
+const outerTransactionId = sql`${transactions}.id`;
+
+// Refunds given against a sale, for queries over transactions
+const refundedAgainst = sql<number>`COALESCE((
+  SELECT SUM(${returns.total}) FROM ${returns}
+  WHERE ${returns.originalTransactionId} = ${outerTransactionId}
+), 0)`;
+
+export class CustomerService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toCustomer(record: CustomerRecord): Customer {
+    return {
+      id: record.id,
+      name: record.name,
+      phone: record.phone,
+      email: record.email,
+      address: record.address,
+      pan: record.pan,
+      preferredLanguage: record.preferredLanguage as CustomerLanguage,
+      tierId: record.tierId,
+      notes: record.notes,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  /**
+   * Search customers by name or part of their phone number
+   */
+  async search(query: string = '', limit: number = 50): Promise<Customer[]> {
+    try {
+      const term = query.trim();
+      const digits = normalizePhone(term);
+      const conditions = term
+        ? or(
+          like(customers.name, `%${term}%`),
+          digits.length >= 3 ? like(customers.phone, `%${digits}%`) : undefined
+        )
+        : undefined;
+
+      const result: CustomerRecord[] = await this.db
+        .select()
+        .from(customers)
+        .where(conditions)
+        .orderBy(asc(customers.name))
+        .limit(limit);
+
+      return result.map(record => this.toCustomer(record));
+    } catch (error) {
+      console.error('Error searching customers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find customer by ID
+   */
+  async findById(id: string): Promise<Customer | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(customers)
+        .where(eq(customers.id, id))
+        .limit(1);
+
+      return result[0] ? this.toCustomer(result[0]) : null;
+    } catch (error) {
+      console.error('Error finding customer by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the customer with a phone number, however it was typed
+   */
+  async findByPhone(phone: string): Promise<Customer | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(customers)
+        .where(eq(customers.phone, normalizePhone(phone)))
+        .limit(1);
+
+      return result[0] ? this.toCustomer(result[0]) : null;
+    } catch (error) {
+      console.error('Error finding customer by phone:', error);
+      throw error;
+    }
+  }
+
+  private async checkPhoneAvailable(phone: string, excludeId?: string): Promise<void> {
+    const [existing] = await this.db
+      .select({ name: customers.name })
+      .from(customers)
+      .where(excludeId
+        ? and(eq(customers.phone, phone), ne(customers.id, excludeId))
+        : eq(customers.phone, phone))
+      .limit(1);
+
+    if (existing) {
+      throw new Error(`${phone} already belongs to ${existing.name}`);
+    }
+  }
+
+  private async checkTierExists(tierId: string): Promise<void> {
+    const [tier] = await this.db
+      .select({ id: membershipTiers.id })
+      .from(membershipTiers)
+      .where(eq(membershipTiers.id, tierId))
+      .limit(1);
+
+    if (!tier) {
+      throw new Error(`Membership tier ${tierId} not found`);
+    }
+  }
+
+  /**
+   * Create a new customer; each phone number belongs to one customer
+   */
+  async createCustomer(data: CreateCustomerInput): Promise<Customer> {
+    try {
+      await this.checkPhoneAvailable(data.phone);
+      if (data.tierId) {
+        await this.checkTierExists(data.tierId);
+      }
+
+      const customerData: NewCustomerRecord = {
+        id: uuidv4(),
+        name: data.name,
+        phone: data.phone,
+        email: data.email || null,
+        address: data.address || null,
+        pan: data.pan || null,
+        preferredLanguage: data.preferredLanguage,
+        tierId: data.tierId || null,
+        notes: data.notes || null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await this.db.insert(customers).values(customerData);
+
+      return await this.findById(customerData.id) as Customer;
+    } catch (error) {
+      console.error('Error creating customer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update customer details
+   */
+  async updateCustomer(id: string, data: UpdateCustomerInput): Promise<Customer | null> {
+    try {
+      if (data.phone !== undefined) {
+        await this.checkPhoneAvailable(data.phone, id);
+      }
+      if (data.tierId) {
+        await this.checkTierExists(data.tierId);
+      }
+
+      const updateData: Partial<NewCustomerRecord> = { updatedAt: new Date() };
+
+      if (data.name !== undefined) updateData.name = data.name;
+      if (data.phone !== undefined) updateData.phone = data.phone;
+      if (data.email !== undefined) updateData.email = data.email || null;
+      if (data.address !== undefined) updateData.address = data.address || null;
+      if (data.pan !== undefined) updateData.pan = data.pan || null;
+      if (data.preferredLanguage !== undefined) updateData.preferredLanguage = data.preferredLanguage;
+      if (data.tierId !== undefined) updateData.tierId = data.tierId || null;
+      if (data.notes !== undefined) updateData.notes = data.notes || null;
+
+      await this.db
+        .update(customers)
+        .set(updateData)
+        .where(eq(customers.id, id));
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error updating customer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A customer's purchases, newest first, with lifetime totals and what they buy most
+   */
+  async getHistory(id: string, limit: number = 100): Promise<CustomerHistory | null> {
+    try {
+      const customer = await this.findById(id);
+      if (!customer) {
+        return null;
+      }
+
+      const completed = and(eq(transactions.customerId, id), eq(transactions.status, 'completed'));
+
+      const [totals] = await this.db
+        .select({
+          // Visits that were only a donation aren't purchases
+          purchaseCount: sql<number>`COUNT(CASE WHEN ${salesValue} > 0 THEN 1 END)`,
+          totalSales: sql<number>`COALESCE(SUM(${salesValue}), 0)`,
+          totalDonated: sql<number>`COALESCE(SUM(${transactions.donationTotal}), 0)`,
+          totalRefunded: sql<number>`COALESCE(SUM(${refundedAgainst}), 0)`,
+          firstPurchaseAt: sql<number | null>`MIN(${transactions.createdAt})`,
+          lastPurchaseAt: sql<number | null>`MAX(${transactions.createdAt})`,
+        })
+        .from(transactions)
+        .where(completed);
+
+      const purchases = await this.db
+        .select({
+          id: transactions.id,
+          createdAt: transactions.createdAt,
+          total: transactions.total,
+          discount: transactions.discount,
+          paymentMethod: transactions.paymentMethod,
+          status: transactions.status,
+          itemCount: sql<number>`(
+            SELECT COALESCE(SUM(${transactionItems.quantity}), 0) FROM ${transactionItems}
+            WHERE ${transactionItems.transactionId} = ${outerTransactionId}
+          )`,
+          refunded: refundedAgainst,
+        })
+        .from(transactions)
+        .where(eq(transactions.customerId, id))
+        .orderBy(desc(transactions.createdAt))
+        .limit(limit);
+
+      const topProducts = await this.db
+        .select({
+          productId: transactionItems.productId,
+          productName: products.name,
+          quantity: sql<number>`SUM(${transactionItems.quantity})`,
+          spent: sql<number>`SUM(${transactionItems.totalPrice} - COALESCE(${transactionItems.discountAmount}, 0))`,
+        })
+        .from(transactionItems)
+        .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+        .leftJoin(products, eq(transactionItems.productId, products.id))
+        .where(completed)
+        .groupBy(transactionItems.productId, products.name)
+        .orderBy(desc(sql`SUM(${transactionItems.quantity})`))
+        .limit(5);
+
+      const purchaseCount = Number(totals?.purchaseCount || 0);
+      const totalRefunded = roundCurrency(Number(totals?.totalRefunded || 0));
+      const totalSpent = roundCurrency(Number(totals?.totalSales || 0) - totalRefunded);
+
+      return {
+        customer,
+        summary: {
+          purchaseCount,
+          totalSpent,
+          totalRefunded,
+          totalDonated: roundCurrency(Number(totals?.totalDonated || 0)),
+          averageSale: purchaseCount > 0 ? roundCurrency(totalSpent / purchaseCount) : 0,
+          firstPurchaseAt: totals?.firstPurchaseAt ? new Date(Number(totals.firstPurchaseAt) * 1000) : null,
+          lastPurchaseAt: totals?.lastPurchaseAt ? new Date(Number(totals.lastPurchaseAt) * 1000) : null,
+        },
+        purchases: purchases.map((purchase): CustomerPurchase => ({
+          ...purchase,
+          discount: purchase.discount || 0,
+          itemCount: Number(purchase.itemCount),
+          refunded: roundCurrency(Number(purchase.refunded)),
+        })),
+        topProducts: topProducts.map((product): CustomerTopProduct => ({
+          productId: product.productId || '',
+          productName: product.productName || 'Unknown Product',
+          quantity: Number(product.quantity),
+          spent: roundCurrency(Number(product.spent)),
+        })),
+      };
+    } catch (error) {
+      console.error('Error getting customer history:', error);
+      throw error;
+    }
+  }
+}
+
+export const customerService = new CustomerService();
@@ -0,0 +1,101 @@
+import { getDb, type DbTransaction } from '@/lib/db/connection';
+import { donations, customers, transactions, type DonationRecord, type NewDonationRecord } from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, asc, like, sql } from 'drizzle-orm';
+import type { Donation } from '@/types/donation';
+import type { DonationLineInput } from '@/lib/validation/donation';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// What a transaction took in sales, leaving out the donations given with it
+export const salesValue = sql<number>`(${transactions.total} - COALESCE(${transactions.donationTotal}, 0))`;
+
+/**
+ * Indian financial year a date falls in, e.g. 2026-27 for April 2026 to March 2027
+ */
+export function financialYear(date: Date): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+export class DonationService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  /**
+   * Check a customer can be given an 80G receipt: they must exist and have a PAN on file
+   */
+  async checkDonor(customerId?: string | null): Promise<void> {
+    if (!customerId) {
+      throw new Error('Attach the donor as the customer so the 80G receipt can be issued');
+    }
+
+    const [donor] = await this.db
+      .select({ name: customers.name, pan: customers.pan })
+      .from(customers)
+      .where(eq(customers.id, customerId))
+      .limit(1);
+
+    if (!donor) {
+      throw new Error(`Customer ${customerId} not found`);
+    }
+    if (!donor.pan) {
+      throw new Error(`Add ${donor.name}'s PAN first; it is printed on the 80G receipt`);
+    }
+  }
+
+  /**
+   * Record the donations on a sale, numbering each receipt in the 80G series for the financial year
+   */
+  async recordDonations(
+    tx: DbTransaction,
+    transactionId: string,
+    customerId: string,
+    lines: DonationLineInput[],
+    createdAt: Date
+  ): Promise<void> {
+    // Counted inside the sale's transaction so two tills can't take the same number
+    const prefix = `80G/${financialYear(createdAt)}/`;
+    const [issued] = await tx
+      .select({ count: sql<number>`count(*)` })
+      .from(donations)
+      .where(like(donations.receiptNumber, `${prefix}%`));
+
+    let serial = Number(issued?.count || 0);
+    const rows: NewDonationRecord[] = lines.map(line => ({
+      id: uuidv4(),
+      transactionId,
+      customerId,
+      purpose: line.purpose,
+      amount: roundCurrency(line.amount),
+      receiptNumber: `${prefix}${String(++serial).padStart(5, '0')}`,
+      createdAt,
+    }));
+
+    await tx.insert(donations).values(rows);
+  }
+
+  /**
+   * Donations taken with a sale, in the order they were rung up
+   */
+  async findByTransaction(transactionId: string): Promise<Donation[]> {
+    try {
+      const rows: DonationRecord[] = await this.db
+        .select()
+        .from(donations)
+        .where(eq(donations.transactionId, transactionId))
+        .orderBy(asc(donations.receiptNumber));
+
+      return rows;
+    } catch (error) {
+      console.error('Error finding donations for transaction:', error);
+      throw error;
+    }
+  }
+}
+
+export const donationService = new DonationService();
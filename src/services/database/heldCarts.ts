@@ -0,0 +1,218 @@
+import { getDb } from '@/lib/db/connection';
+import { heldCarts, users, type HeldCart, type NewHeldCart } from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, asc, lt, isNull } from 'drizzle-orm';
+
+// Parked carts expire after four hours unless the terminal asks for something else
+export const DEFAULT_HELD_CART_EXPIRY_MINUTES = 240;
+
+export interface HeldCartSummary extends Omit<HeldCart, 'cartData'> {
+  userName: string;
+}
+
+export interface ResumedCart extends Omit<HeldCart, 'cartData'> {
+  items: unknown[];
+}
+
+export interface ParkCartInput {
+  label: string;
+  userId: string;
+  items: unknown[];
+  itemCount: number;
+  total: number;
+  expiresInMinutes?: number;
+}
+
+export class HeldCartService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  /**
+   * Park a cart so it can be resumed later from any terminal
+   */
+  async parkCart(data: ParkCartInput): Promise<Omit<HeldCart, 'cartData'>> {
+    try {
+      if (!data.items || data.items.length === 0) {
+        throw new Error('Cannot hold an empty cart');
+      }
+
+      const now = new Date();
+      const expiresInMinutes = data.expiresInMinutes || DEFAULT_HELD_CART_EXPIRY_MINUTES;
+
+      const heldCartData: NewHeldCart = {
+        id: uuidv4(),
+        label: data.label.trim(),
+        userId: data.userId,
+        cartData: JSON.stringify(data.items),
+        itemCount: data.itemCount,
+        total: data.total,
+        status: 'held',
+        expiresAt: new Date(now.getTime() + expiresInMinutes * 60 * 1000),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.db.insert(heldCarts).values(heldCartData);
+
+      const { cartData, ...summary } = heldCartData;
+      return summary as Omit<HeldCart, 'cartData'>;
+    } catch (error) {
+      console.error('Error parking cart:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark held carts past their expiry as expired and return the ones this call expired
+   */
+  async expireStaleCarts(): Promise<HeldCart[]> {
+    try {
+      const now = new Date();
+      // One conditional update, so a cart expired by a concurrent call is not returned twice
+      return await this.db
+        .update(heldCarts)
+        .set({ status: 'expired', updatedAt: now })
+        .where(and(eq(heldCarts.status, 'held'), lt(heldCarts.expiresAt, now)))
+        .returning();
+    } catch (error) {
+      console.error('Error expiring held carts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim the expiry notices still owed to a user for carts they parked.
+   * Each cart is claimed once, whichever terminal happened to expire it.
+   */
+  async claimExpiryNotices(userId: string): Promise<HeldCart[]> {
+    try {
+      return await this.db
+        .update(heldCarts)
+        .set({ expiryNotifiedAt: new Date() })
+        .where(and(
+          eq(heldCarts.userId, userId),
+          eq(heldCarts.status, 'expired'),
+          isNull(heldCarts.expiryNotifiedAt)
+        ))
+        .returning();
+    } catch (error) {
+      console.error('Error claiming held cart expiry notices:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List carts currently on hold, oldest first, expiring stale ones on the way.
+   * `expired` holds the requesting user's own carts that expired since they were last told.
+   */
+  async getHeldCarts(userId: string): Promise<{ carts: HeldCartSummary[]; expired: HeldCart[] }> {
+    try {
+      await this.expireStaleCarts();
+      const expired = await this.claimExpiryNotices(userId);
+
+      const result = await this.db
+        .select({
+          id: heldCarts.id,
+          label: heldCarts.label,
+          userId: heldCarts.userId,
+          itemCount: heldCarts.itemCount,
+          total: heldCarts.total,
+          status: heldCarts.status,
+          expiresAt: heldCarts.expiresAt,
+          resumedBy: heldCarts.resumedBy,
+          resumedAt: heldCarts.resumedAt,
+          expiryNotifiedAt: heldCarts.expiryNotifiedAt,
+          createdAt: heldCarts.createdAt,
+          updatedAt: heldCarts.updatedAt,
+          userName: users.username,
+        })
+        .from(heldCarts)
+        .leftJoin(users, eq(heldCarts.userId, users.id))
+        .where(eq(heldCarts.status, 'held'))
+        .orderBy(asc(heldCarts.createdAt));
+
+      return {
+        carts: result.map(cart => ({
+          ...cart,
+          userName: cart.userName || 'Unknown User',
+        })),
+        expired,
+      };
+    } catch (error) {
+      console.error('Error getting held carts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a held cart; only one terminal can pick up a given cart
+   */
+  async resumeCart(id: string, userId: string): Promise<ResumedCart> {
+    try {
+      const [heldCart] = await this.db
+        .select()
+        .from(heldCarts)
+        .where(eq(heldCarts.id, id))
+        .limit(1);
+
+      if (!heldCart) {
+        throw new Error('Held sale not found');
+      }
+
+      if (heldCart.status === 'held' && heldCart.expiresAt < new Date()) {
+        await this.expireStaleCarts();
+        throw new Error('Held sale has expired');
+      }
+
+      if (heldCart.status !== 'held') {
+        throw new Error(`Held sale has already been ${heldCart.status}`);
+      }
+
+      const now = new Date();
+      const result = await this.db
+        .update(heldCarts)
+        .set({ status: 'resumed', resumedBy: userId, resumedAt: now, updatedAt: now })
+        .where(and(eq(heldCarts.id, id), eq(heldCarts.status, 'held')));
+
+      // Another terminal got there first
+      if (result.rowsAffected === 0) {
+        throw new Error('Held sale has already been resumed');
+      }
+
+      const { cartData, ...rest } = heldCart;
+      return {
+        ...rest,
+        status: 'resumed',
+        resumedBy: userId,
+        resumedAt: now,
+        updatedAt: now,
+        items: JSON.parse(cartData),
+      };
+    } catch (error) {
+      console.error('Error resuming held cart:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Discard a held cart without resuming it
+   */
+  async discardCart(id: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .delete(heldCarts)
+        .where(and(eq(heldCarts.id, id), eq(heldCarts.status, 'held')));
+
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error('Error discarding held cart:', error);
+      throw error;
+    }
+  }
+}
+
+export const heldCartService = new HeldCartService();
@@ -1,15 +1,101 @@
 // Export all database services
 export { BaseService } from './base';
 export { userService, UserService } from './users';
+export { roleService, RoleService } from './roles';
 export { categoryService, CategoryService, type CategoryHierarchy } from './categories';
 export { productService, ProductService, type ProductWithVariants, type ProductSearchResult } from './products';
 export { 
   transactionService, 
   TransactionService, 
   type TransactionWithItems,
+  type PaymentInput,
   type DailySalesReport,
   type TopSellingProduct
 } from './transactions';
+export {
+  returnService,
+  ReturnService,
+  type ReturnWithItems,
+  type ReturnableItem,
+  type CreateReturnInput
+} from './returns';
+export {
+  heldCartService,
+  HeldCartService,
+  type HeldCartSummary,
+  type ResumedCart,
+  type ParkCartInput
+} from './heldCarts';
+export {
+  shiftService,
+  ShiftService,
+  type ShiftFilters
+} from './shifts';
+export {
+  promotionService,
+  PromotionService,
+  type PromotionWithTarget
+} from './promotions';
+export {
+  supplierService,
+  SupplierService
+} from './suppliers';
+export {
+  purchaseOrderService,
+  PurchaseOrderService,
+  type PurchaseOrderFilters,
+  type AutoDraftResult
+} from './purchaseOrders';
+export {
+  stockMovementService,
+  StockMovementService,
+  type StockChange,
+  type StockChangeResult,
+  type StockTransferLine
+} from './stockMovements';
+export {
+  stockTakeService,
+  StockTakeService,
+  type StockTakeFilters
+} from './stockTakes';
+export {
+  locationService,
+  LocationService
+} from './locations';
+export {
+  stockTransferService,
+  StockTransferService
+} from './stockTransfers';
+export { 
+  batchService, 
+  BatchService,
+  isExpired,
+  type BatchAllocation
+} from './batches';
+export { 
+  customerService, 
+  CustomerService
+} from './customers';
+export {
+  loyaltyService,
+  LoyaltyService
+} from './loyalty';
+export {
+  voucherService,
+  VoucherService,
+  isVoucherExpired
+} from './vouchers';
+export {
+  upiReconciliationService,
+  UpiReconciliationService,
+  matchUpiCredits
+} from './upiReconciliation';
+export {
+  donationService,
+  DonationService,
+  financialYear,
+  salesValue
+} from './donations';
 export { 
   searchService, 
   SearchService
@@ -0,0 +1,264 @@
+import { getDb, type DbTransaction } from '@/lib/db/connection';
+import {
+  locations,
+  stockLevels,
+  productVariants,
+  type LocationRecord,
+  type NewLocationRecord,
+  type NewStockLevelRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, asc, desc, ne, sql } from 'drizzle-orm';
+import type { Location, LocationStockLevel, LocationType } from '@/types/stock';
+import type { CreateLocationInput, UpdateLocationInput } from '@/lib/validation/location';
+
+// Outer variant id spelled out, since drizzle leaves columns unqualified in single-table selects
+const outerVariantId = sql`${productVariants}.id`;
+
+// Stock held anywhere other than the default location
+const storedElsewhere = sql<number>`COALESCE((
+  SELECT SUM(${stockLevels.quantity}) FROM ${stockLevels}
+  WHERE ${stockLevels.variantId} = ${outerVariantId}
+), 0)`;
+
+/**
+ * A variant's stock at one location, for queries over product_variants
+ */
+export function stockAtLocation(location: Pick<Location, 'id' | 'isDefault'>) {
+  return location.isDefault
+    ? sql<number>`COALESCE(${productVariants.stockQuantity}, 0) - ${storedElsewhere}`
+    : sql<number>`COALESCE((
+        SELECT ${stockLevels.quantity} FROM ${stockLevels}
+        WHERE ${stockLevels.variantId} = ${outerVariantId}
+          AND ${stockLevels.locationId} = ${location.id}
+      ), 0)`;
+}
+
+export class LocationService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toLocation(record: LocationRecord): Location {
+    return {
+      id: record.id,
+      name: record.name,
+      type: record.type as LocationType,
+      isDefault: record.isDefault ?? false,
+      isActive: record.isActive ?? true,
+      createdAt: record.createdAt,
+    };
+  }
+
+  /**
+   * Find all locations, the default first, optionally only the open ones
+   */
+  async findAll(activeOnly: boolean = false): Promise<Location[]> {
+    try {
+      const result: LocationRecord[] = await this.db
+        .select()
+        .from(locations)
+        .where(activeOnly ? eq(locations.isActive, true) : undefined)
+        .orderBy(desc(locations.isDefault), asc(locations.name));
+
+      return result.map(record => this.toLocation(record));
+    } catch (error) {
+      console.error('Error finding locations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find location by ID
+   */
+  async findById(id: string): Promise<Location | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(locations)
+        .where(eq(locations.id, id))
+        .limit(1);
+
+      return result[0] ? this.toLocation(result[0]) : null;
+    } catch (error) {
+      console.error('Error finding location by ID:', error);
+      throw error;
+    }
+  }
+
+  private async checkNameAvailable(name: string, excludeId?: string): Promise<void> {
+    const [existing] = await this.db
+      .select({ id: locations.id })
+      .from(locations)
+      .where(excludeId
+        ? and(sql`lower(${locations.name}) = lower(${name})`, ne(locations.id, excludeId))
+        : sql`lower(${locations.name}) = lower(${name})`)
+      .limit(1);
+
+    if (existing) {
+      throw new Error(`A location called ${name} already exists`);
+    }
+  }
+
+  /**
+   * Make a location the default. The old default's stock is written out to
+   * stock_levels and the new default's row is dropped, since the default's
+   * level is always worked out from the variant total.
+   */
+  private async moveDefault(tx: DbTransaction, locationId: string): Promise<void> {
+    const [current] = await tx
+      .select({ id: locations.id })
+      .from(locations)
+      .where(eq(locations.isDefault, true))
+      .limit(1);
+
+    if (current?.id === locationId) {
+      return;
+    }
+
+    if (current) {
+      const levels: Array<{ variantId: string; quantity: number }> = await tx
+        .select({
+          variantId: productVariants.id,
+          quantity: stockAtLocation({ id: current.id, isDefault: true }),
+        })
+        .from(productVariants);
+
+      const rows: NewStockLevelRecord[] = levels
+        .filter(level => Number(level.quantity) !== 0)
+        .map(level => ({
+          id: uuidv4(),
+          variantId: level.variantId,
+          locationId: current.id,
+          quantity: Number(level.quantity),
+          updatedAt: new Date(),
+        }));
+
+      if (rows.length > 0) {
+        await tx.insert(stockLevels).values(rows);
+      }
+      await tx.update(locations).set({ isDefault: false, updatedAt: new Date() }).where(eq(locations.id, current.id));
+    }
+
+    await tx.delete(stockLevels).where(eq(stockLevels.locationId, locationId));
+    await tx.update(locations).set({ isDefault: true, updatedAt: new Date() }).where(eq(locations.id, locationId));
+  }
+
+  /**
+   * Create a new location; the first one becomes the default and takes all existing stock
+   */
+  async createLocation(data: CreateLocationInput): Promise<Location> {
+    try {
+      await this.checkNameAvailable(data.name);
+
+      const [existing] = await this.db
+        .select({ count: sql<number>`count(*)` })
+        .from(locations);
+      const isFirst = Number(existing?.count || 0) === 0;
+
+      const locationData: NewLocationRecord = {
+        id: uuidv4(),
+        name: data.name,
+        type: data.type,
+        isDefault: false,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await this.db.transaction(async (tx) => {
+        await tx.insert(locations).values(locationData);
+        if (isFirst || data.isDefault) {
+          await this.moveDefault(tx, locationData.id);
+        }
+      });
+
+      return await this.findById(locationData.id) as Location;
+    } catch (error) {
+      console.error('Error creating location:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a location. The default can't be closed, and a location still
+   * holding stock has to be emptied by transfer first.
+   */
+  async updateLocation(id: string, data: UpdateLocationInput): Promise<Location | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+
+      if (data.name !== undefined && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+        await this.checkNameAvailable(data.name, id);
+      }
+
+      if (data.isActive === false && existing.isActive) {
+        if (existing.isDefault || data.isDefault) {
+          throw new Error('The default location cannot be closed; make another location the default first');
+        }
+
+        const [held] = await this.db
+          .select({ count: sql<number>`count(*)` })
+          .from(stockLevels)
+          .where(and(eq(stockLevels.locationId, id), ne(stockLevels.quantity, 0)));
+
+        if (Number(held?.count || 0) > 0) {
+          throw new Error(`Move the stock out of ${existing.name} before closing it`);
+        }
+      }
+
+      if (data.isDefault === false && existing.isDefault) {
+        throw new Error('Choose another location as the default instead');
+      }
+      if (data.isDefault && !existing.isDefault && (data.isActive ?? existing.isActive) === false) {
+        throw new Error('A closed location cannot be the default');
+      }
+
+      const updateData: Partial<NewLocationRecord> = { updatedAt: new Date() };
+      if (data.name !== undefined) updateData.name = data.name;
+      if (data.type !== undefined) updateData.type = data.type;
+      if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+      await this.db.transaction(async (tx) => {
+        await tx.update(locations).set(updateData).where(eq(locations.id, id));
+        if (data.isDefault && !existing.isDefault) {
+          await this.moveDefault(tx, id);
+        }
+      });
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error updating location:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stock of every variant at a location
+   */
+  async getStockLevels(locationId: string): Promise<LocationStockLevel[]> {
+    try {
+      const location = await this.findById(locationId);
+      if (!location) {
+        throw new Error(`Location ${locationId} not found`);
+      }
+
+      const rows: Array<{ variantId: string; quantity: number }> = await this.db
+        .select({ variantId: productVariants.id, quantity: stockAtLocation(location) })
+        .from(productVariants);
+
+      return rows.map(row => ({ variantId: row.variantId, locationId, quantity: Number(row.quantity) }));
+    } catch (error) {
+      console.error('Error getting location stock levels:', error);
+      throw error;
+    }
+  }
+}
+
+export const locationService = new LocationService();
@@ -0,0 +1,447 @@
+import { getDb, type DbTransaction } from '@/lib/db/connection';
+import {
+  membershipTiers,
+  tierPrices,
+  loyaltyPoints,
+  customers,
+  products,
+  productVariants,
+  type MembershipTierRecord,
+  type NewMembershipTierRecord,
+  type NewTierPriceRecord,
+  type NewLoyaltyPointRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, ne, asc, desc, inArray, sql } from 'drizzle-orm';
+import type { LoyaltyEntry, LoyaltyEntryType, LoyaltySummary, MembershipTier, TierPrice } from '@/types/loyalty';
+import type { CreateTierInput, UpdateTierInput, TierPriceInput } from '@/lib/validation/loyalty';
+
+export class LoyaltyService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toTier(record: MembershipTierRecord, prices: TierPrice[]): MembershipTier {
+    return {
+      id: record.id,
+      name: record.name,
+      discountPercent: record.discountPercent,
+      pointsPerRupee: record.pointsPerRupee,
+      isActive: record.isActive ?? true,
+      prices,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private async loadPrices(tierIds: string[]): Promise<TierPrice[]> {
+    if (tierIds.length === 0) {
+      return [];
+    }
+
+    return await this.db
+      .select({
+        id: tierPrices.id,
+        tierId: tierPrices.tierId,
+        productId: tierPrices.productId,
+        variantId: tierPrices.variantId,
+        price: tierPrices.price,
+        productName: products.name,
+        variantName: productVariants.name,
+      })
+      .from(tierPrices)
+      .leftJoin(products, eq(tierPrices.productId, products.id))
+      .leftJoin(productVariants, eq(tierPrices.variantId, productVariants.id))
+      .where(inArray(tierPrices.tierId, tierIds))
+      .orderBy(asc(products.name), asc(productVariants.name));
+  }
+
+  /**
+   * All membership tiers with their price lists
+   */
+  async listTiers(): Promise<MembershipTier[]> {
+    try {
+      const tiers: MembershipTierRecord[] = await this.db
+        .select()
+        .from(membershipTiers)
+        .orderBy(asc(membershipTiers.name));
+
+      const prices = await this.loadPrices(tiers.map(tier => tier.id));
+      return tiers.map(tier => this.toTier(tier, prices.filter(price => price.tierId === tier.id)));
+    } catch (error) {
+      console.error('Error listing membership tiers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a membership tier by ID, with its price list
+   */
+  async findTier(id: string): Promise<MembershipTier | null> {
+    try {
+      const [tier] = await this.db
+        .select()
+        .from(membershipTiers)
+        .where(eq(membershipTiers.id, id))
+        .limit(1);
+
+      return tier ? this.toTier(tier, await this.loadPrices([tier.id])) : null;
+    } catch (error) {
+      console.error('Error finding membership tier:', error);
+      throw error;
+    }
+  }
+
+  private async checkNameAvailable(name: string, excludeId?: string): Promise<void> {
+    const [existing] = await this.db
+      .select({ id: membershipTiers.id })
+      .from(membershipTiers)
+      .where(excludeId
+        ? and(eq(membershipTiers.name, name), ne(membershipTiers.id, excludeId))
+        : eq(membershipTiers.name, name))
+      .limit(1);
+
+    if (existing) {
+      throw new Error(`A tier named ${name} already exists`);
+    }
+  }
+
+  /**
+   * Create a membership tier with an empty price list
+   */
+  async createTier(data: CreateTierInput): Promise<MembershipTier> {
+    try {
+      await this.checkNameAvailable(data.name);
+
+      const tierData: NewMembershipTierRecord = {
+        id: uuidv4(),
+        name: data.name,
+        discountPercent: data.discountPercent,
+        pointsPerRupee: data.pointsPerRupee,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await this.db.insert(membershipTiers).values(tierData);
+
+      return await this.findTier(tierData.id) as MembershipTier;
+    } catch (error) {
+      console.error('Error creating membership tier:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a tier's name, discount, points rate or whether it is in use
+   */
+  async updateTier(id: string, data: UpdateTierInput): Promise<MembershipTier | null> {
+    try {
+      if (data.name !== undefined) {
+        await this.checkNameAvailable(data.name, id);
+      }
+
+      const updateData: Partial<NewMembershipTierRecord> = { updatedAt: new Date() };
+
+      if (data.name !== undefined) updateData.name = data.name;
+      if (data.discountPercent !== undefined) updateData.discountPercent = data.discountPercent;
+      if (data.pointsPerRupee !== undefined) updateData.pointsPerRupee = data.pointsPerRupee;
+      if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+      await this.db
+        .update(membershipTiers)
+        .set(updateData)
+        .where(eq(membershipTiers.id, id));
+
+      return await this.findTier(id);
+    } catch (error) {
+      console.error('Error updating membership tier:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a tier's price list
+   */
+  async setTierPrices(tierId: string, prices: TierPriceInput[]): Promise<MembershipTier | null> {
+    try {
+      const tier = await this.findTier(tierId);
+      if (!tier) {
+        return null;
+      }
+
+      const rows: NewTierPriceRecord[] = prices.map(price => ({
+        id: uuidv4(),
+        tierId,
+        productId: price.productId,
+        variantId: price.variantId || null,
+        price: price.price,
+        createdAt: new Date(),
+      }));
+
+      await this.db.transaction(async (tx) => {
+        await tx.delete(tierPrices).where(eq(tierPrices.tierId, tierId));
+        if (rows.length > 0) {
+          await tx.insert(tierPrices).values(rows);
+        }
+      });
+
+      return await this.findTier(tierId);
+    } catch (error) {
+      console.error('Error setting tier prices:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The active tier a customer belongs to, or null when they pay regular prices
+   */
+  async getCustomerTier(customerId: string): Promise<MembershipTier | null> {
+    try {
+      const [customer] = await this.db
+        .select({ tierId: customers.tierId })
+        .from(customers)
+        .where(eq(customers.id, customerId))
+        .limit(1);
+
+      if (!customer?.tierId) {
+        return null;
+      }
+
+      const tier = await this.findTier(customer.tierId);
+      return tier?.isActive ? tier : null;
+    } catch (error) {
+      console.error('Error getting customer tier:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A customer's points balance, read inside a transaction when about to spend from it
+   */
+  async getBalance(customerId: string, tx?: DbTransaction): Promise<number> {
+    const [result] = await (tx || this.db)
+      .select({ balance: sql<number>`COALESCE(SUM(${loyaltyPoints.points}), 0)` })
+      .from(loyaltyPoints)
+      .where(eq(loyaltyPoints.customerId, customerId));
+
+    return Number(result?.balance || 0);
+  }
+
+  /**
+   * A customer's tier, points balance and most recent ledger entries
+   */
+  async getSummary(customerId: string, limit: number = 50): Promise<LoyaltySummary> {
+    try {
+      const entries = await this.db
+        .select()
+        .from(loyaltyPoints)
+        .where(eq(loyaltyPoints.customerId, customerId))
+        .orderBy(desc(loyaltyPoints.createdAt))
+        .limit(limit);
+
+      return {
+        tier: await this.getCustomerTier(customerId),
+        balance: await this.getBalance(customerId),
+        entries: entries.map((entry: typeof loyaltyPoints.$inferSelect): LoyaltyEntry => ({
+          id: entry.id,
+          customerId: entry.customerId,
+          transactionId: entry.transactionId,
+          type: entry.type as LoyaltyEntryType,
+          points: entry.points,
+          note: entry.note,
+          createdAt: entry.createdAt,
+        })),
+      };
+    } catch (error) {
+      console.error('Error getting loyalty summary:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add or take off points by hand; a balance can't be taken below zero
+   */
+  async adjustPoints(customerId: string, points: number, note: string, userId: string): Promise<number> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const balance = await this.getBalance(customerId, tx);
+        if (balance + points < 0) {
+          throw new Error(`Only ${balance} points available`);
+        }
+
+        await tx.insert(loyaltyPoints).values({
+          id: uuidv4(),
+          customerId,
+          type: 'adjust',
+          points,
+          note,
+          userId,
+          createdAt: new Date(),
+        });
+
+        return balance + points;
+      });
+    } catch (error) {
+      console.error('Error adjusting loyalty points:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the points a sale spent and earned, inside the sale's own transaction
+   */
+  async recordSalePoints(
+    tx: DbTransaction,
+    sale: { transactionId: string; customerId: string; userId: string; redeemed: number; earned: number; createdAt: Date }
+  ): Promise<void> {
+    const rows: NewLoyaltyPointRecord[] = [];
+
+    if (sale.redeemed > 0) {
+      const balance = await this.getBalance(sale.customerId, tx);
+      if (balance < sale.redeemed) {
+        throw new Error(`Only ${balance} points available to redeem`);
+      }
+      rows.push({
+        id: uuidv4(),
+        customerId: sale.customerId,
+        transactionId: sale.transactionId,
+        type: 'redeem',
+        points: -sale.redeemed,
+        userId: sale.userId,
+        createdAt: sale.createdAt,
+      });
+    }
+
+    if (sale.earned > 0) {
+      rows.push({
+        id: uuidv4(),
+        customerId: sale.customerId,
+        transactionId: sale.transactionId,
+        type: 'earn',
+        points: sale.earned,
+        userId: sale.userId,
+        createdAt: sale.createdAt,
+      });
+    }
+
+    if (rows.length > 0) {
+      await tx.insert(loyaltyPoints).values(rows);
+    }
+  }
+
+  /**
+   * Take back the points a voided sale earned and return the ones it spent, inside the void's transaction
+   */
+  async reverseSalePoints(
+    tx: DbTransaction,
+    sale: { transactionId: string; customerId: string; userId: string }
+  ): Promise<void> {
+    const [row] = await tx
+      .select({ points: sql<number>`COALESCE(SUM(${loyaltyPoints.points}), 0)` })
+      .from(loyaltyPoints)
+      .where(eq(loyaltyPoints.transactionId, sale.transactionId));
+
+    const net = Number(row?.points || 0);
+    if (net === 0) {
+      return;
+    }
+
+    await tx.insert(loyaltyPoints).values({
+      id: uuidv4(),
+      customerId: sale.customerId,
+      transactionId: sale.transactionId,
+      type: 'adjust',
+      points: -net,
+      note: 'Sale voided',
+      userId: sale.userId,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Take back the points returned goods earned and give back the points spent on them, inside the
+   * return's transaction. Shares are of the sale's goods refunded before and after this return, so
+   * a run of partial returns never moves more points than the sale did. Returns the points given back.
+   */
+  async reverseReturnPoints(
+    tx: DbTransaction,
+    sale: { transactionId: string; customerId: string; userId: string },
+    share: { before: number; after: number }
+  ): Promise<number> {
+    const entries = await tx
+      .select({ type: loyaltyPoints.type, points: loyaltyPoints.points })
+      .from(loyaltyPoints)
+      .where(eq(loyaltyPoints.transactionId, sale.transactionId));
+
+    const earned = entries
+      .filter((entry: { type: string }) => entry.type === 'earn')
+      .reduce((sum: number, entry: { points: number }) => sum + entry.points, 0);
+    const redeemed = entries
+      .filter((entry: { type: string }) => entry.type === 'redeem')
+      .reduce((sum: number, entry: { points: number }) => sum - entry.points, 0);
+
+    const portion = (points: number) => Math.round(points * share.after) - Math.round(points * share.before);
+    const earnedBack = portion(earned);
+    const refunded = portion(redeemed);
+
+    const rows: NewLoyaltyPointRecord[] = [];
+    if (earnedBack > 0) {
+      rows.push({
+        id: uuidv4(),
+        customerId: sale.customerId,
+        transactionId: sale.transactionId,
+        type: 'adjust',
+        points: -earnedBack,
+        note: 'Items returned',
+        userId: sale.userId,
+        createdAt: new Date(),
+      });
+    }
+    if (refunded > 0) {
+      rows.push({
+        id: uuidv4(),
+        customerId: sale.customerId,
+        transactionId: sale.transactionId,
+        type: 'adjust',
+        points: refunded,
+        note: 'Points refunded for returned items',
+        userId: sale.userId,
+        createdAt: new Date(),
+      });
+    }
+
+    if (rows.length > 0) {
+      await tx.insert(loyaltyPoints).values(rows);
+    }
+    return refunded;
+  }
+
+  /**
+   * Points a sale earned and redeemed, for its receipt
+   */
+  async getSalePoints(transactionId: string): Promise<{ earned: number; redeemed: number }> {
+    try {
+      const entries = await this.db
+        .select({ type: loyaltyPoints.type, points: loyaltyPoints.points })
+        .from(loyaltyPoints)
+        .where(eq(loyaltyPoints.transactionId, transactionId));
+
+      return entries.reduce(
+        (totals: { earned: number; redeemed: number }, entry: { type: string; points: number }) => ({
+          earned: totals.earned + (entry.type === 'earn' ? entry.points : 0),
+          redeemed: totals.redeemed + (entry.type === 'redeem' ? -entry.points : 0),
+        }),
+        { earned: 0, redeemed: 0 }
+      );
+    } catch (error) {
+      console.error('Error getting sale points:', error);
+      throw error;
+    }
+  }
+}
+
+export const loyaltyService = new LoyaltyService();
@@ -3,6 +3,7 @@ import {
   products,
   productVariants,
   categories,
+  suppliers,
   searchAnalytics,
   type Product,
   type NewProduct,
@@ -12,6 +13,9 @@ import {
   type NewSearchAnalytics,
 } from "@/lib/db/schema";
 import { BaseService } from "./base";
+import { Barcode } from "@/services/barcode/barcode";
+import { stockMovementService, type StockChange } from "./stockMovements";
+import { locationService, stockAtLocation } from "./locations";
 import type {
   ProductSearchInput,
   ProductQueryInput,
@@ -42,6 +46,11 @@ export class ProductService extends BaseService<Product, NewProduct> {
     if (input.description !== undefined) result.description = input.description;
     if (input.basePrice !== undefined) result.basePrice = input.basePrice;
     if (input.categoryId !== undefined) result.categoryId = input.categoryId;
+    if (input.hsnCode !== undefined) result.hsnCode = input.hsnCode || null;
+    if (input.taxRate !== undefined) result.taxRate = input.taxRate;
+    if (input.priceIncludesTax !== undefined) result.priceIncludesTax = input.priceIncludesTax;
+    if (input.supplierId !== undefined) result.supplierId = input.supplierId || null;
+    if (input.trackBatches !== undefined) result.trackBatches = input.trackBatches;
     if (input.isActive !== undefined) result.isActive = input.isActive;
 
     // Transform complex fields to JSON strings, with defaults
@@ -76,6 +85,11 @@ export class ProductService extends BaseService<Product, NewProduct> {
       description: product.description,
       basePrice: product.basePrice,
       categoryId: product.categoryId,
+      hsnCode: product.hsnCode,
+      taxRate: product.taxRate ?? 0,
+      priceIncludesTax: product.priceIncludesTax ?? true,
+      supplierId: product.supplierId,
+      trackBatches: product.trackBatches ?? false,
       isActive: product.isActive,
       createdAt: product.createdAt,
       updatedAt: product.updatedAt,
@@ -429,7 +443,7 @@ export class ProductService extends BaseService<Product, NewProduct> {
     }
   }
 
-  async createProduct(productData: CreateProductInput): Promise<Product> {
+  async createProduct(productData: CreateProductInput, userId?: string): Promise<Product> {
     try {
       // Validate category exists if provided
       if (productData.categoryId) {
@@ -464,10 +478,12 @@ export class ProductService extends BaseService<Product, NewProduct> {
             productId: product.id,
             name: variantData.name,
             price: variantData.price,
+            costPrice: variantData.costPrice,
             stockQuantity: variantData.stockQuantity || 0,
             attributes: variantData.attributes || {},
             keywords: variantData.keywords || [],
-          });
+            barcode: variantData.barcode,
+          }, userId);
         }
       }
 
@@ -480,7 +496,8 @@ export class ProductService extends BaseService<Product, NewProduct> {
 
   async updateProduct(
     id: string,
-    productData: UpdateProductInput
+    productData: UpdateProductInput,
+    userId?: string
   ): Promise<Product | null> {
     try {
       // Validate category exists if being updated
@@ -514,17 +531,22 @@ export class ProductService extends BaseService<Product, NewProduct> {
         // Process each variant in the update
         for (const variantData of productData.variants) {
           if (variantData.id && existingVariantIds.has(variantData.id)) {
-            // Update existing variant
+            // Update existing variant; a changed stock figure goes through the ledger
             await this.updateVariant(variantData.id, {
               name: variantData.name,
               price: variantData.price,
-              stockQuantity: variantData.stockQuantity || 0,
+              costPrice: variantData.costPrice,
               attributes: variantData.attributes
                 ? JSON.stringify(variantData.attributes)
                 : null,
               keywords: variantData.keywords
                 ? JSON.stringify(variantData.keywords)
                 : null,
+              barcode: variantData.barcode,
+            });
+            await this.updateVariantStock(variantData.id, variantData.stockQuantity || 0, {
+              reason: "Product edited",
+              userId,
             });
             updatedVariantIds.add(variantData.id);
           } else {
@@ -533,10 +555,12 @@ export class ProductService extends BaseService<Product, NewProduct> {
               productId: id,
               name: variantData.name,
               price: variantData.price,
+              costPrice: variantData.costPrice,
               stockQuantity: variantData.stockQuantity || 0,
               attributes: variantData.attributes || {},
               keywords: variantData.keywords || [],
-            });
+              barcode: variantData.barcode,
+            }, userId);
             updatedVariantIds.add(newVariant.id);
           }
         }
@@ -606,10 +630,12 @@ export class ProductService extends BaseService<Product, NewProduct> {
     productId: string;
     name: string;
     price: number;
+    costPrice?: number;
     stockQuantity?: number;
     attributes?: Record<string, string>;
     keywords?: string[];
-  }): Promise<ProductVariant> {
+    barcode?: string | null;
+  }, userId?: string): Promise<ProductVariant> {
     try {
       // Validate product exists
       const product = await this.findById(variantData.productId);
@@ -618,23 +644,38 @@ export class ProductService extends BaseService<Product, NewProduct> {
       }
 
       const id = this.generateUUID();
+      const barcode = await this.resolveBarcode(variantData.barcode, id);
       const insertData: NewProductVariant = {
         id,
         productId: variantData.productId,
         name: variantData.name,
         price: variantData.price,
-        stockQuantity: variantData.stockQuantity || 0,
+        costPrice: variantData.costPrice || 0,
+        stockQuantity: 0,
         attributes: variantData.attributes
           ? JSON.stringify(variantData.attributes)
           : null,
         keywords: variantData.keywords
           ? JSON.stringify(variantData.keywords)
           : null,
+        barcode,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      await this.db.insert(productVariants).values(insertData);
+      // Opening stock is booked as the variant's first ledger movement
+      await this.db.transaction(async (tx) => {
+        await tx.insert(productVariants).values(insertData);
+        if (variantData.stockQuantity) {
+          await stockMovementService.applyChange(tx, {
+            variantId: id,
+            type: "adjustment",
+            quantity: variantData.stockQuantity,
+            reason: "Opening stock",
+            userId,
+          });
+        }
+      });
 
       return (await this.findVariantById(id)) as ProductVariant;
     } catch (error) {
@@ -652,6 +693,9 @@ export class ProductService extends BaseService<Product, NewProduct> {
         ...variantData,
         updatedAt: new Date(),
       };
+      if (variantData.barcode !== undefined) {
+        updateData.barcode = await this.resolveBarcode(variantData.barcode, id);
+      }
 
       await this.db
         .update(productVariants)
@@ -678,27 +722,117 @@ export class ProductService extends BaseService<Product, NewProduct> {
     }
   }
 
+  /**
+   * Normalise a barcode for storage and make sure no other variant has it
+   */
+  private async resolveBarcode(
+    barcode: string | null | undefined,
+    variantId: string
+  ): Promise<string | null> {
+    if (!barcode || !barcode.trim()) {
+      return null;
+    }
+
+    const code = Barcode.normalize(barcode);
+    if (!Barcode.isValid(code)) {
+      throw new Error(`Invalid barcode ${code}: check the digits and try again`);
+    }
+
+    const existing = await this.db
+      .select({ id: productVariants.id })
+      .from(productVariants)
+      .where(eq(productVariants.barcode, code))
+      .limit(1);
+    if (existing[0] && existing[0].id !== variantId) {
+      throw new Error(`Barcode ${code} is already linked to another product`);
+    }
+
+    return code;
+  }
+
+  /**
+   * Look up the active product variant a scanned barcode belongs to
+   */
+  async findByBarcode(barcode: string): Promise<BarcodeMatch | null> {
+    try {
+      const code = Barcode.normalize(barcode);
+      const result = await this.db
+        .select({ variant: productVariants })
+        .from(productVariants)
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(
+          and(eq(productVariants.barcode, code), eq(products.isActive, true))
+        )
+        .limit(1);
+
+      if (!result[0]) {
+        return null;
+      }
+
+      const variant = result[0].variant;
+      const [product] = await this.findProductsWithVariants(
+        variant.productId as string
+      );
+      return product ? { product, variant } : null;
+    } catch (error) {
+      console.error("Error finding product by barcode:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Attach a barcode to an existing variant, e.g. when a new ISBN is first scanned
+   */
+  async linkBarcode(variantId: string, barcode: string): Promise<ProductVariant> {
+    try {
+      const variant = await this.findVariantById(variantId);
+      if (!variant) {
+        throw new Error("Variant not found");
+      }
+      if (!barcode.trim()) {
+        throw new Error("Barcode is required");
+      }
+
+      return (await this.updateVariant(variantId, { barcode })) as ProductVariant;
+    } catch (error) {
+      console.error("Error linking barcode:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set a variant's stock level, recording the difference as a ledger movement
+   */
   async updateVariantStock(
     variantId: string,
-    quantity: number
+    quantity: number,
+    options: Partial<Pick<StockChange, "type" | "reason" | "userId">> = {}
   ): Promise<boolean> {
     try {
-      const result = await this.db
-        .update(productVariants)
-        .set({
-          stockQuantity: quantity,
-          updatedAt: new Date(),
-        })
-        .where(eq(productVariants.id, variantId));
+      const variant = await this.findVariantById(variantId);
+      if (!variant) {
+        return false;
+      }
 
-      return result.rowsAffected > 0;
+      await stockMovementService.recordChange({
+        variantId,
+        type: options.type || "adjustment",
+        setTo: quantity,
+        reason: options.reason,
+        userId: options.userId,
+      });
+
+      return true;
     } catch (error) {
       console.error("Error updating variant stock:", error);
       throw error;
     }
   }
 
-  async bulkUpdateStock(updates: StockUpdateInput[]): Promise<boolean> {
+  async bulkUpdateStock(
+    updates: StockUpdateInput[],
+    userId?: string
+  ): Promise<boolean> {
     try {
       for (const update of updates) {
         const variant = await this.findVariantById(update.variantId);
@@ -714,7 +848,11 @@ export class ProductService extends BaseService<Product, NewProduct> {
           );
         }
 
-        await this.updateVariantStock(update.variantId, newQuantity);
+        await this.updateVariantStock(update.variantId, newQuantity, {
+          type: update.type,
+          reason: update.reason,
+          userId,
+        });
       }
       return true;
     } catch (error) {
@@ -727,33 +865,51 @@ export class ProductService extends BaseService<Product, NewProduct> {
     options: LowStockAlertInput = { threshold: 5, includeVariants: true }
   ): Promise<LowStockItem[]> {
     try {
-      const { threshold = 5, includeVariants = true } = options;
+      const { threshold = 5, includeVariants = true, locationId } = options;
+
+      const location = locationId ? await locationService.findById(locationId) : null;
+      if (locationId && !location) {
+        throw new Error(`Location ${locationId} not found`);
+      }
+      const stockLevel = location
+        ? stockAtLocation(location)
+        : sql<number>`COALESCE(${productVariants.stockQuantity}, 0)`;
 
       const lowStockVariants = await this.db
         .select({
           variant: productVariants,
           product: products,
           category: categories,
+          supplier: suppliers,
+          stockLevel,
         })
         .from(productVariants)
         .innerJoin(products, eq(productVariants.productId, products.id))
         .leftJoin(categories, eq(products.categoryId, categories.id))
+        // An inactive supplier can't be reordered from, so it counts as none
+        .leftJoin(
+          suppliers,
+          and(eq(products.supplierId, suppliers.id), eq(suppliers.isActive, true))
+        )
         .where(
           and(
             eq(products.isActive, true),
-            lte(productVariants.stockQuantity, threshold)
+            lte(stockLevel, threshold)
           )
         )
-        .orderBy(asc(productVariants.stockQuantity));
+        .orderBy(asc(stockLevel));
 
       return lowStockVariants.map((row) => ({
         productId: row.product.id,
         productName: row.product.name,
         variantId: row.variant.id,
         variantName: row.variant.name,
-        currentStock: row.variant.stockQuantity || 0,
+        currentStock: Number(row.stockLevel ?? row.variant.stockQuantity ?? 0),
         threshold,
+        locationId: location?.id,
         categoryName: row.category?.name,
+        supplierId: row.supplier?.id,
+        supplierName: row.supplier?.name,
       }));
     } catch (error) {
       console.error("Error getting low stock items:", error);
@@ -1112,6 +1268,11 @@ export interface EnhancedProduct {
   description?: string | null;
   basePrice: number;
   categoryId?: string | null;
+  hsnCode?: string | null;
+  taxRate?: number;
+  priceIncludesTax?: boolean;
+  supplierId?: string | null;
+  trackBatches?: boolean;
   isActive?: boolean | null;
   createdAt?: Date | null;
   updatedAt?: Date | null;
@@ -1137,6 +1298,11 @@ export interface SearchFilters {
   attributes: Record<string, { value: string; count: number }[]>;
 }
 
+export interface BarcodeMatch {
+  product: ProductWithVariants;
+  variant: ProductVariant;
+}
+
 export interface LowStockItem {
   productId: string;
   productName: string;
@@ -1144,7 +1310,11 @@ export interface LowStockItem {
   variantName: string;
   currentStock: number;
   threshold: number;
+  // Set when the stock was judged at one location rather than shop-wide
+  locationId?: string;
   categoryName?: string;
+  supplierId?: string;
+  supplierName?: string;
 }
 
 export interface PaginatedProductResult {
@@ -0,0 +1,193 @@
+import { getDb } from '@/lib/db/connection';
+import {
+  promotions,
+  products,
+  categories,
+  type PromotionRecord,
+  type NewPromotionRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, desc, and, or, gte, lte, isNull } from 'drizzle-orm';
+import type { Promotion, PromotionType, PromotionScope } from '@/types/promotion';
+import type { CreatePromotionInput, UpdatePromotionInput } from '@/lib/validation/promotion';
+
+export interface PromotionWithTarget extends Promotion {
+  productName?: string;
+  categoryName?: string;
+  createdAt?: Date | null;
+}
+
+export class PromotionService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toPromotion(record: PromotionRecord): Promotion {
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description,
+      type: record.type as PromotionType,
+      scope: record.scope as PromotionScope,
+      productId: record.productId,
+      categoryId: record.categoryId,
+      value: record.value,
+      minQuantity: record.minQuantity,
+      getQuantity: record.getQuantity,
+      minCartTotal: record.minCartTotal,
+      startsAt: record.startsAt,
+      endsAt: record.endsAt,
+      isActive: record.isActive ?? true,
+    };
+  }
+
+  /**
+   * Find all promotions with their product/category names, newest first
+   */
+  async findAll(): Promise<PromotionWithTarget[]> {
+    try {
+      const result = await this.db
+        .select({
+          promotion: promotions,
+          productName: products.name,
+          categoryName: categories.name,
+        })
+        .from(promotions)
+        .leftJoin(products, eq(promotions.productId, products.id))
+        .leftJoin(categories, eq(promotions.categoryId, categories.id))
+        .orderBy(desc(promotions.createdAt));
+
+      return result.map(row => ({
+        ...this.toPromotion(row.promotion),
+        productName: row.productName || undefined,
+        categoryName: row.categoryName || undefined,
+        createdAt: row.promotion.createdAt,
+      }));
+    } catch (error) {
+      console.error('Error finding promotions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find promotion by ID
+   */
+  async findById(id: string): Promise<Promotion | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(promotions)
+        .where(eq(promotions.id, id))
+        .limit(1);
+
+      return result[0] ? this.toPromotion(result[0]) : null;
+    } catch (error) {
+      console.error('Error finding promotion by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get promotions that are switched on and inside their date window right now
+   */
+  async getActivePromotions(now: Date = new Date()): Promise<Promotion[]> {
+    try {
+      const result = await this.db
+        .select()
+        .from(promotions)
+        .where(
+          and(
+            eq(promotions.isActive, true),
+            or(isNull(promotions.startsAt), lte(promotions.startsAt, now)),
+            or(isNull(promotions.endsAt), gte(promotions.endsAt, now))
+          )
+        );
+
+      return result.map((record: PromotionRecord) => this.toPromotion(record));
+    } catch (error) {
+      console.error('Error getting active promotions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new promotion
+   */
+  async createPromotion(data: CreatePromotionInput, userId?: string): Promise<Promotion> {
+    try {
+      const promotionData: NewPromotionRecord = {
+        id: uuidv4(),
+        name: data.name,
+        description: data.description || null,
+        type: data.type,
+        scope: data.scope,
+        // Only keep the target that matches the scope
+        productId: data.scope === 'product' ? data.productId || null : null,
+        categoryId: data.scope === 'category' ? data.categoryId || null : null,
+        value: data.value,
+        minQuantity: data.minQuantity ?? null,
+        getQuantity: data.type === 'buy_x_get_y' ? data.getQuantity ?? null : null,
+        minCartTotal: data.scope === 'cart' ? data.minCartTotal ?? null : null,
+        startsAt: data.startsAt ?? null,
+        endsAt: data.endsAt ?? null,
+        isActive: data.isActive,
+        createdBy: userId || null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await this.db.insert(promotions).values(promotionData);
+
+      return (await this.findById(promotionData.id)) as Promotion;
+    } catch (error) {
+      console.error('Error creating promotion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a promotion
+   */
+  async updatePromotion(id: string, data: UpdatePromotionInput): Promise<Promotion | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+
+      await this.db
+        .update(promotions)
+        .set({
+          ...data,
+          updatedAt: new Date(),
+        })
+        .where(eq(promotions.id, id));
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a promotion; sales that used it keep their recorded discount
+   */
+  async deletePromotion(id: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .delete(promotions)
+        .where(eq(promotions.id, id));
+
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error('Error deleting promotion:', error);
+      throw error;
+    }
+  }
+}
+
+export const promotionService = new PromotionService();
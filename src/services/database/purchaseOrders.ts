@@ -0,0 +1,616 @@
+import { getDb } from '@/lib/db/connection';
+import {
+  purchaseOrders,
+  purchaseOrderItems,
+  goodsReceipts,
+  goodsReceiptItems,
+  suppliers,
+  products,
+  productVariants,
+  users,
+  locations,
+  type PurchaseOrderRecord,
+  type NewPurchaseOrderRecord,
+  type NewPurchaseOrderItemRecord,
+  type NewGoodsReceiptRecord,
+  type NewGoodsReceiptItemRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { productService, type LowStockItem } from './products';
+import { stockMovementService } from './stockMovements';
+import type {
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  PurchaseOrderWithItems,
+  GoodsReceipt,
+} from '@/types/purchasing';
+import type {
+  CreatePurchaseOrderInput,
+  UpdatePurchaseOrderInput,
+  ReceiveGoodsInput,
+} from '@/lib/validation/purchasing';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Orders still expecting goods; a variant on one of these isn't drafted again
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'ordered', 'partially_received'];
+
+// Automatic reorders bring stock back up to this multiple of the low stock threshold
+const REORDER_TARGET_MULTIPLIER = 2;
+
+export interface PurchaseOrderFilters {
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+  limit?: number;
+}
+
+export interface AutoDraftResult {
+  created: PurchaseOrderWithItems[];
+  // Low stock items whose product has no supplier to order from
+  unassigned: LowStockItem[];
+}
+
+type PurchaseOrderRow = PurchaseOrderRecord & { supplierName: string | null };
+
+export class PurchaseOrderService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toPurchaseOrder(
+    record: PurchaseOrderRow,
+    lines: Array<{ quantityOrdered: number; unitCost: number }>
+  ): PurchaseOrder {
+    return {
+      id: record.id,
+      poNumber: record.poNumber,
+      supplierId: record.supplierId,
+      supplierName: record.supplierName,
+      status: record.status as PurchaseOrderStatus,
+      notes: record.notes,
+      expectedAt: record.expectedAt,
+      orderedAt: record.orderedAt,
+      receivedAt: record.receivedAt,
+      createdBy: record.createdBy,
+      createdAt: record.createdAt,
+      itemCount: lines.length,
+      totalCost: roundCurrency(lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0)),
+    };
+  }
+
+  private selectOrders() {
+    return this.db
+      .select({
+        id: purchaseOrders.id,
+        poNumber: purchaseOrders.poNumber,
+        supplierId: purchaseOrders.supplierId,
+        status: purchaseOrders.status,
+        notes: purchaseOrders.notes,
+        expectedAt: purchaseOrders.expectedAt,
+        orderedAt: purchaseOrders.orderedAt,
+        receivedAt: purchaseOrders.receivedAt,
+        createdBy: purchaseOrders.createdBy,
+        createdAt: purchaseOrders.createdAt,
+        updatedAt: purchaseOrders.updatedAt,
+        supplierName: suppliers.name,
+      })
+      .from(purchaseOrders)
+      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id));
+  }
+
+  /**
+   * Next sequential PO number, e.g. PO-00042
+   */
+  private async nextPoNumber(): Promise<string> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(purchaseOrders);
+
+    return `PO-${String(Number(row?.count || 0) + 1).padStart(5, '0')}`;
+  }
+
+  /**
+   * Check the supplier can be ordered from and every variant exists
+   */
+  private async checkOrderLines(supplierId: string | undefined, variantIds: string[]): Promise<void> {
+    if (supplierId) {
+      const [supplier] = await this.db
+        .select({ id: suppliers.id, isActive: suppliers.isActive })
+        .from(suppliers)
+        .where(eq(suppliers.id, supplierId))
+        .limit(1);
+
+      if (!supplier) {
+        throw new Error(`Supplier ${supplierId} not found`);
+      }
+      if (!supplier.isActive) {
+        throw new Error('Supplier is inactive');
+      }
+    }
+
+    if (variantIds.length > 0) {
+      const found = await this.db
+        .select({ id: productVariants.id })
+        .from(productVariants)
+        .where(inArray(productVariants.id, variantIds));
+      const foundIds = new Set(found.map((row: { id: string }) => row.id));
+
+      const missing = variantIds.find(id => !foundIds.has(id));
+      if (missing) {
+        throw new Error(`Variant ${missing} not found`);
+      }
+    }
+  }
+
+  /**
+   * Find purchase orders, newest first
+   */
+  async findAll(filters: PurchaseOrderFilters = {}): Promise<PurchaseOrder[]> {
+    try {
+      const conditions = [];
+      if (filters.status) {
+        conditions.push(eq(purchaseOrders.status, filters.status));
+      }
+      if (filters.supplierId) {
+        conditions.push(eq(purchaseOrders.supplierId, filters.supplierId));
+      }
+
+      const orders: PurchaseOrderRow[] = await this.selectOrders()
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(purchaseOrders.createdAt))
+        .limit(filters.limit || 50);
+
+      if (orders.length === 0) {
+        return [];
+      }
+
+      const lines = await this.db
+        .select({
+          purchaseOrderId: purchaseOrderItems.purchaseOrderId,
+          quantityOrdered: purchaseOrderItems.quantityOrdered,
+          unitCost: purchaseOrderItems.unitCost,
+        })
+        .from(purchaseOrderItems)
+        .where(inArray(purchaseOrderItems.purchaseOrderId, orders.map(order => order.id)));
+
+      return orders.map(order =>
+        this.toPurchaseOrder(order, lines.filter((line: { purchaseOrderId: string }) => line.purchaseOrderId === order.id))
+      );
+    } catch (error) {
+      console.error('Error finding purchase orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a purchase order with its lines and the deliveries booked against it
+   */
+  async findById(id: string): Promise<PurchaseOrderWithItems | null> {
+    try {
+      const [order]: PurchaseOrderRow[] = await this.selectOrders()
+        .where(eq(purchaseOrders.id, id))
+        .limit(1);
+
+      if (!order) {
+        return null;
+      }
+
+      const items: PurchaseOrderItem[] = await this.db
+        .select({
+          id: purchaseOrderItems.id,
+          variantId: purchaseOrderItems.variantId,
+          productId: productVariants.productId,
+          productName: products.name,
+          variantName: productVariants.name,
+          quantityOrdered: purchaseOrderItems.quantityOrdered,
+          quantityReceived: purchaseOrderItems.quantityReceived,
+          unitCost: purchaseOrderItems.unitCost,
+        })
+        .from(purchaseOrderItems)
+        .leftJoin(productVariants, eq(purchaseOrderItems.variantId, productVariants.id))
+        .leftJoin(products, eq(productVariants.productId, products.id))
+        .where(eq(purchaseOrderItems.purchaseOrderId, id))
+        .orderBy(purchaseOrderItems.createdAt);
+
+      const receiptRows = await this.db
+        .select({
+          id: goodsReceipts.id,
+          purchaseOrderId: goodsReceipts.purchaseOrderId,
+          receivedBy: goodsReceipts.receivedBy,
+          receiverName: users.username,
+          supplierReference: goodsReceipts.supplierReference,
+          locationId: goodsReceipts.locationId,
+          locationName: locations.name,
+          notes: goodsReceipts.notes,
+          receivedAt: goodsReceipts.receivedAt,
+        })
+        .from(goodsReceipts)
+        .leftJoin(users, eq(goodsReceipts.receivedBy, users.id))
+        .leftJoin(locations, eq(goodsReceipts.locationId, locations.id))
+        .where(eq(goodsReceipts.purchaseOrderId, id))
+        .orderBy(goodsReceipts.receivedAt);
+
+      const receiptItems = receiptRows.length > 0
+        ? await this.db
+          .select()
+          .from(goodsReceiptItems)
+          .where(inArray(goodsReceiptItems.goodsReceiptId, receiptRows.map((row: { id: string }) => row.id)))
+        : [];
+
+      const receipts: GoodsReceipt[] = receiptRows.map((row: Omit<GoodsReceipt, 'items'>) => ({
+        ...row,
+        items: receiptItems
+          .filter((item: { goodsReceiptId: string }) => item.goodsReceiptId === row.id)
+          .map((item: typeof goodsReceiptItems.$inferSelect) => ({
+            id: item.id,
+            purchaseOrderItemId: item.purchaseOrderItemId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            unitCost: item.unitCost,
+          })),
+      }));
+
+      return {
+        ...this.toPurchaseOrder(order, items),
+        items,
+        receipts,
+      };
+    } catch (error) {
+      console.error('Error finding purchase order by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft purchase order for a supplier
+   */
+  async createPurchaseOrder(data: CreatePurchaseOrderInput, userId: string): Promise<PurchaseOrderWithItems> {
+    try {
+      await this.checkOrderLines(data.supplierId, data.items.map(item => item.variantId));
+
+      const orderData: NewPurchaseOrderRecord = {
+        id: uuidv4(),
+        poNumber: await this.nextPoNumber(),
+        supplierId: data.supplierId,
+        status: 'draft',
+        notes: data.notes || null,
+        expectedAt: data.expectedAt || null,
+        createdBy: userId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await this.db.insert(purchaseOrders).values(orderData);
+      await this.insertItems(orderData.id, data.items);
+
+      return await this.findById(orderData.id) as PurchaseOrderWithItems;
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      throw error;
+    }
+  }
+
+  private async insertItems(purchaseOrderId: string, items: CreatePurchaseOrderInput['items']): Promise<void> {
+    const itemsData: NewPurchaseOrderItemRecord[] = items.map(item => ({
+      id: uuidv4(),
+      purchaseOrderId,
+      variantId: item.variantId,
+      quantityOrdered: item.quantityOrdered,
+      quantityReceived: 0,
+      unitCost: item.unitCost,
+      createdAt: new Date(),
+    }));
+
+    await this.db.insert(purchaseOrderItems).values(itemsData);
+  }
+
+  /**
+   * Edit a draft; lines are replaced wholesale when given
+   */
+  async updatePurchaseOrder(id: string, data: UpdatePurchaseOrderInput): Promise<PurchaseOrderWithItems | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+      if (existing.status !== 'draft') {
+        throw new Error('Only draft purchase orders can be edited');
+      }
+
+      await this.checkOrderLines(data.supplierId, data.items?.map(item => item.variantId) || []);
+
+      const updateData: Partial<NewPurchaseOrderRecord> = { updatedAt: new Date() };
+      if (data.supplierId !== undefined) updateData.supplierId = data.supplierId;
+      if (data.notes !== undefined) updateData.notes = data.notes || null;
+      if (data.expectedAt !== undefined) updateData.expectedAt = data.expectedAt || null;
+
+      await this.db
+        .update(purchaseOrders)
+        .set(updateData)
+        .where(eq(purchaseOrders.id, id));
+
+      if (data.items) {
+        await this.db.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+        await this.insertItems(id, data.items);
+      }
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a draft as sent to the supplier
+   */
+  async placeOrder(id: string): Promise<PurchaseOrderWithItems | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+      if (existing.status !== 'draft') {
+        throw new Error('Only draft purchase orders can be placed');
+      }
+      if (existing.items.length === 0) {
+        throw new Error('Add at least one item to the order');
+      }
+
+      await this.db
+        .update(purchaseOrders)
+        .set({ status: 'ordered', orderedAt: new Date(), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id));
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error placing purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an order before any goods have arrived against it
+   */
+  async cancelPurchaseOrder(id: string): Promise<PurchaseOrderWithItems | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+      if (existing.status !== 'draft' && existing.status !== 'ordered') {
+        throw new Error('Purchase orders that have received goods cannot be cancelled');
+      }
+
+      await this.db
+        .update(purchaseOrders)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id));
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error cancelling purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Book in a delivery against a placed order, putting the goods into stock
+   * and re-averaging each variant's cost price with the invoiced cost
+   */
+  async receiveGoods(id: string, data: ReceiveGoodsInput, userId: string): Promise<PurchaseOrderWithItems | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+      if (existing.status !== 'ordered' && existing.status !== 'partially_received') {
+        throw new Error('Only placed purchase orders can receive goods');
+      }
+      if (data.locationId) {
+        const [location] = await this.db
+          .select({ name: locations.name, isActive: locations.isActive })
+          .from(locations)
+          .where(eq(locations.id, data.locationId))
+          .limit(1);
+        if (!location) {
+          throw new Error(`Location ${data.locationId} not found`);
+        }
+        if (!location.isActive) {
+          throw new Error(`${location.name} is closed and cannot receive stock`);
+        }
+      }
+
+      const itemsById = new Map(existing.items.map(item => [item.id, item]));
+      const receivedIds = new Set<string>();
+      const lines = data.items.map(received => {
+        const item = itemsById.get(received.purchaseOrderItemId);
+        if (!item) {
+          throw new Error(`Item ${received.purchaseOrderItemId} not found on purchase order`);
+        }
+        if (receivedIds.has(received.purchaseOrderItemId)) {
+          throw new Error(`Cannot receive ${item.productName || item.variantId} on two lines; enter its full quantity once`);
+        }
+        receivedIds.add(received.purchaseOrderItemId);
+
+        const outstanding = item.quantityOrdered - item.quantityReceived;
+        if (received.quantity > outstanding) {
+          throw new Error(
+            `Cannot receive ${received.quantity} of ${item.productName || item.variantId}; only ${outstanding} outstanding`
+          );
+        }
+        return { item, quantity: received.quantity, unitCost: received.unitCost ?? item.unitCost };
+      });
+
+      const receiptData: NewGoodsReceiptRecord = {
+        id: uuidv4(),
+        purchaseOrderId: id,
+        receivedBy: userId,
+        supplierReference: data.supplierReference || null,
+        locationId: data.locationId || null,
+        notes: data.notes || null,
+        receivedAt: new Date(),
+        createdAt: new Date(),
+      };
+
+      const receiptItemsData: NewGoodsReceiptItemRecord[] = lines.map(line => ({
+        id: uuidv4(),
+        goodsReceiptId: receiptData.id,
+        purchaseOrderItemId: line.item.id,
+        variantId: line.item.variantId,
+        quantity: line.quantity,
+        unitCost: line.unitCost,
+        createdAt: new Date(),
+      }));
+
+      await this.db.transaction(async (tx) => {
+        // Check again inside the transaction so two deliveries booked at once can't over-receive a line
+        const [order] = await tx
+          .select({ status: purchaseOrders.status })
+          .from(purchaseOrders)
+          .where(eq(purchaseOrders.id, id))
+          .limit(1);
+        if (order?.status !== 'ordered' && order?.status !== 'partially_received') {
+          throw new Error('Only placed purchase orders can receive goods');
+        }
+
+        const current = await tx
+          .select({
+            id: purchaseOrderItems.id,
+            quantityOrdered: purchaseOrderItems.quantityOrdered,
+            quantityReceived: purchaseOrderItems.quantityReceived,
+          })
+          .from(purchaseOrderItems)
+          .where(eq(purchaseOrderItems.purchaseOrderId, id));
+        const currentById = new Map(current.map(item => [item.id, item]));
+
+        for (const line of lines) {
+          const item = currentById.get(line.item.id);
+          const outstanding = item ? item.quantityOrdered - item.quantityReceived : 0;
+          if (line.quantity > outstanding) {
+            throw new Error(
+              `Cannot receive ${line.quantity} of ${line.item.productName || line.item.variantId}; only ${Math.max(0, outstanding)} outstanding`
+            );
+          }
+        }
+
+        const receivedByItem = new Map(lines.map(line => [line.item.id, line.quantity]));
+        const fullyReceived = current.every(
+          item => item.quantityReceived + (receivedByItem.get(item.id) || 0) >= item.quantityOrdered
+        );
+
+        await tx.insert(goodsReceipts).values(receiptData);
+        await tx.insert(goodsReceiptItems).values(receiptItemsData);
+
+        for (const line of lines) {
+          await tx
+            .update(purchaseOrderItems)
+            .set({ quantityReceived: sql`${purchaseOrderItems.quantityReceived} + ${line.quantity}` })
+            .where(eq(purchaseOrderItems.id, line.item.id));
+
+          await stockMovementService.applyChange(tx, {
+            variantId: line.item.variantId,
+            type: 'receipt',
+            quantity: line.quantity,
+            referenceId: receiptData.id,
+            reason: receiptData.supplierReference
+              ? `${existing.poNumber} (${receiptData.supplierReference})`
+              : existing.poNumber,
+            userId,
+            unitCost: line.unitCost,
+            locationId: data.locationId || undefined,
+          });
+        }
+
+        await tx
+          .update(purchaseOrders)
+          .set({
+            status: fullyReceived ? 'received' : 'partially_received',
+            receivedAt: fullyReceived ? receiptData.receivedAt : null,
+            updatedAt: new Date(),
+          })
+          .where(eq(purchaseOrders.id, id));
+      });
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error receiving goods:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Draft one purchase order per supplier for everything running low that isn't already on order
+   */
+  async createDraftsForLowStock(userId: string, threshold: number = 5): Promise<AutoDraftResult> {
+    try {
+      const lowStock = await productService.getLowStockItems({ threshold, includeVariants: true });
+      if (lowStock.length === 0) {
+        return { created: [], unassigned: [] };
+      }
+
+      const variantIds = lowStock.map(item => item.variantId);
+
+      const onOrder = await this.db
+        .select({ variantId: purchaseOrderItems.variantId })
+        .from(purchaseOrderItems)
+        .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+        .where(and(
+          inArray(purchaseOrders.status, OPEN_STATUSES),
+          inArray(purchaseOrderItems.variantId, variantIds),
+          sql`${purchaseOrderItems.quantityReceived} < ${purchaseOrderItems.quantityOrdered}`
+        ));
+      const onOrderIds = new Set(onOrder.map((row: { variantId: string }) => row.variantId));
+
+      // Start each line at the cost last agreed for that variant
+      const pastLines = await this.db
+        .select({ variantId: purchaseOrderItems.variantId, unitCost: purchaseOrderItems.unitCost })
+        .from(purchaseOrderItems)
+        .where(inArray(purchaseOrderItems.variantId, variantIds))
+        .orderBy(desc(purchaseOrderItems.createdAt));
+      const lastCost = new Map<string, number>();
+      for (const line of pastLines as Array<{ variantId: string; unitCost: number }>) {
+        if (!lastCost.has(line.variantId)) {
+          lastCost.set(line.variantId, line.unitCost);
+        }
+      }
+
+      const bySupplier = new Map<string, LowStockItem[]>();
+      const unassigned: LowStockItem[] = [];
+      for (const item of lowStock) {
+        if (onOrderIds.has(item.variantId)) continue;
+
+        if (!item.supplierId) {
+          unassigned.push(item);
+          continue;
+        }
+        bySupplier.set(item.supplierId, [...(bySupplier.get(item.supplierId) || []), item]);
+      }
+
+      const created: PurchaseOrderWithItems[] = [];
+      for (const [supplierId, items] of Array.from(bySupplier.entries())) {
+        created.push(await this.createPurchaseOrder({
+          supplierId,
+          notes: `Reorder drafted from low stock (threshold ${threshold})`,
+          items: items.map(item => ({
+            variantId: item.variantId,
+            quantityOrdered: Math.max(threshold * REORDER_TARGET_MULTIPLIER - item.currentStock, 1),
+            unitCost: lastCost.get(item.variantId) ?? 0,
+          })),
+        }, userId));
+      }
+
+      return { created, unassigned };
+    } catch (error) {
+      console.error('Error drafting purchase orders for low stock:', error);
+      throw error;
+    }
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
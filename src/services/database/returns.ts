@@ -0,0 +1,522 @@
+import { getDb, type DbTransaction } from '@/lib/db/connection';
+import {
+  returns,
+  returnItems,
+  transactions,
+  transactionItems,
+  transactionPayments,
+  products,
+  productVariants,
+  type Return,
+  type NewReturn,
+  type NewReturnItem,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, desc, and, gte, lte, sql, inArray } from 'drizzle-orm';
+import { stockMovementService } from './stockMovements';
+import { batchService } from './batches';
+import { voucherService } from './vouchers';
+import { loyaltyService } from './loyalty';
+import { STORE_CREDIT_VALIDITY_DAYS } from '@/types/voucher';
+import { POINT_VALUE } from '@/types/loyalty';
+
+// Types for return with items
+export interface ReturnWithItems extends Return {
+  items: Array<{
+    id: string;
+    transactionItemId: string;
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+    productName: string;
+    variantName?: string;
+  }>;
+}
+
+export interface ReturnableItem {
+  transactionItemId: string;
+  productId: string;
+  variantId?: string;
+  productName: string;
+  variantName?: string;
+  unitPrice: number;
+  refundUnitAmount: number; // What one unit cost the customer after its discounts, with tax
+  soldQuantity: number;
+  returnedQuantity: number;
+  returnableQuantity: number;
+  isCustomVariant: boolean;
+}
+
+// What paid for a sale's goods, by kind of tender
+export interface SaleTenders {
+  money: number; // Cash and UPI, which refund by any method
+  voucher: number; // Gift vouchers and store credit, which refund only as store credit
+  points: number; // Value of the points spent, which refund as points
+}
+
+export interface CreateReturnInput {
+  originalTransactionId: string;
+  userId: string;
+  refundMethod: string;
+  refundReference?: string;
+  reason?: string;
+  shiftId?: string;
+  approvedBy?: string; // Manager whose PIN authorised a cashier's refund
+  items: Array<{
+    transactionItemId: string;
+    quantity: number;
+    restock?: boolean;
+  }>;
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export class ReturnService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  /**
+   * Get the items of a transaction along with how many can still be returned
+   */
+  async getReturnableItems(transactionId: string): Promise<ReturnableItem[]> {
+    try {
+      const [transaction] = await this.db
+        .select({ total: transactions.total, donationTotal: transactions.donationTotal })
+        .from(transactions)
+        .where(eq(transactions.id, transactionId))
+        .limit(1);
+
+      const soldItems = await this.db
+        .select({
+          id: transactionItems.id,
+          productId: transactionItems.productId,
+          variantId: transactionItems.variantId,
+          quantity: transactionItems.quantity,
+          unitPrice: transactionItems.unitPrice,
+          totalPrice: transactionItems.totalPrice,
+          discountAmount: transactionItems.discountAmount,
+          taxableValue: transactionItems.taxableValue,
+          cgst: transactionItems.cgst,
+          sgst: transactionItems.sgst,
+          igst: transactionItems.igst,
+          isCustomVariant: transactionItems.isCustomVariant,
+          productName: products.name,
+          variantName: productVariants.name,
+          returnedQuantity: sql<number>`(
+            SELECT COALESCE(SUM(${returnItems.quantity}), 0)
+            FROM ${returnItems}
+            WHERE ${returnItems.transactionItemId} = ${transactionItems.id}
+          )`,
+        })
+        .from(transactionItems)
+        .leftJoin(products, eq(transactionItems.productId, products.id))
+        .leftJoin(productVariants, eq(transactionItems.variantId, productVariants.id))
+        .where(eq(transactionItems.transactionId, transactionId));
+
+      // Each line refunds what was paid for it: its own promotions off, GST on. A discount keyed in
+      // for the whole cart came off after tax, so it is shared over the lines by what each paid
+      const linesPaid = soldItems.map(item => {
+        const taxed = (item.taxableValue || 0) + (item.cgst || 0) + (item.sgst || 0) + (item.igst || 0);
+        return taxed > 0 ? taxed : item.totalPrice - (item.discountAmount || 0);
+      });
+      const linesTotal = linesPaid.reduce((sum, paid) => sum + paid, 0);
+      const cartRatio = transaction && linesTotal > 0
+        ? Math.min(1, (transaction.total - (transaction.donationTotal || 0)) / linesTotal)
+        : 1;
+
+      return soldItems.map((item, index) => {
+        const returnedQuantity = Number(item.returnedQuantity || 0);
+        return {
+          transactionItemId: item.id,
+          productId: item.productId || '',
+          variantId: item.variantId || undefined,
+          productName: item.productName || 'Unknown Product',
+          variantName: item.variantName || undefined,
+          unitPrice: item.unitPrice,
+          refundUnitAmount: item.quantity > 0 ? (linesPaid[index] * cartRatio) / item.quantity : 0,
+          soldQuantity: item.quantity,
+          returnedQuantity,
+          returnableQuantity: Math.max(0, item.quantity - returnedQuantity),
+          isCustomVariant: item.isCustomVariant || false,
+        };
+      });
+    } catch (error) {
+      console.error('Error getting returnable items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Split what a sale's goods were paid with into money, vouchers and points; donations are paid in money
+   */
+  async getSaleTenders(transactionId: string): Promise<SaleTenders> {
+    try {
+      const [sale] = await this.db
+        .select({ total: transactions.total, donationTotal: transactions.donationTotal, paymentMethod: transactions.paymentMethod })
+        .from(transactions)
+        .where(eq(transactions.id, transactionId))
+        .limit(1);
+
+      if (!sale) {
+        throw new Error(`Transaction ${transactionId} not found`);
+      }
+
+      const payments = await this.db
+        .select({ method: transactionPayments.method, amount: transactionPayments.amount })
+        .from(transactionPayments)
+        .where(eq(transactionPayments.transactionId, transactionId));
+
+      // Sales from before split tenders were recorded have no payment rows
+      const tenders = payments.length > 0 ? payments : [{ method: sale.paymentMethod, amount: sale.total }];
+      const paidWith = (method: string) => roundCurrency(
+        tenders
+          .filter((tender: { method: string }) => tender.method === method)
+          .reduce((sum: number, tender: { amount: number }) => sum + tender.amount, 0)
+      );
+
+      const voucher = paidWith('voucher');
+      const points = paidWith('points');
+      return {
+        money: roundCurrency(Math.max(0, sale.total - (sale.donationTotal || 0) - voucher - points)),
+        voucher,
+        points,
+      };
+    } catch (error) {
+      console.error('Error getting sale tenders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * How many of each transaction item have been returned so far
+   */
+  private async getReturnedQuantities(tx: DbTransaction, transactionItemIds: string[]): Promise<Map<string, number>> {
+    const rows = await tx
+      .select({
+        transactionItemId: returnItems.transactionItemId,
+        quantity: sql<number>`COALESCE(SUM(${returnItems.quantity}), 0)`,
+      })
+      .from(returnItems)
+      .where(inArray(returnItems.transactionItemId, transactionItemIds))
+      .groupBy(returnItems.transactionItemId);
+
+    return new Map(rows.map(row => [row.transactionItemId || '', Number(row.quantity)]));
+  }
+
+  /**
+   * Create a return against a completed transaction, restocking returned variants
+   */
+  async createReturn(data: CreateReturnInput): Promise<ReturnWithItems> {
+    try {
+      if (!data.items || data.items.length === 0) {
+        throw new Error('Return must have at least one item');
+      }
+
+      const [originalTransaction] = await this.db
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, data.originalTransactionId))
+        .limit(1);
+
+      if (!originalTransaction) {
+        throw new Error(`Transaction ${data.originalTransactionId} not found`);
+      }
+
+      if (originalTransaction.status !== 'completed') {
+        throw new Error('Only completed transactions can be returned');
+      }
+
+      // Money refunds need money to have been paid; vouchers and points can't be cashed out
+      const tenders = await this.getSaleTenders(data.originalTransactionId);
+      if (data.refundMethod !== 'voucher' && tenders.money <= 0) {
+        throw new Error('Cannot return a sale paid with vouchers or points for cash or UPI; refund it as store credit');
+      }
+
+      const returnableItems = await this.getReturnableItems(data.originalTransactionId);
+      const returnableById = new Map(returnableItems.map(item => [item.transactionItemId, item]));
+
+      const requestedIds = new Set<string>();
+      const lines = data.items.map(requested => {
+        const soldItem = returnableById.get(requested.transactionItemId);
+        if (!soldItem) {
+          throw new Error(`Item ${requested.transactionItemId} not found on transaction`);
+        }
+        if (requestedIds.has(requested.transactionItemId)) {
+          throw new Error(`Cannot return ${soldItem.productName} on two lines; list it once with the full quantity`);
+        }
+        requestedIds.add(requested.transactionItemId);
+        if (!Number.isInteger(requested.quantity) || requested.quantity <= 0) {
+          throw new Error('Return quantity must be a positive whole number');
+        }
+        if (requested.quantity > soldItem.returnableQuantity) {
+          throw new Error(
+            `Cannot return ${requested.quantity} of ${soldItem.productName}; only ${soldItem.returnableQuantity} remaining`
+          );
+        }
+        return { soldItem, quantity: requested.quantity, restock: requested.restock !== false };
+      });
+
+      const subtotal = lines.reduce((sum, line) => sum + line.soldItem.unitPrice * line.quantity, 0);
+
+      // Partial returns refund what was actually paid for those units; donations on the sale
+      // aren't goods and are never refunded
+      const total = roundCurrency(
+        lines.reduce((sum, line) => sum + roundCurrency(line.soldItem.refundUnitAmount * line.quantity), 0)
+      );
+
+      const returnData: NewReturn = {
+        id: uuidv4(),
+        originalTransactionId: data.originalTransactionId,
+        userId: data.userId,
+        subtotal,
+        total,
+        pointsRefunded: 0,
+        creditRefunded: 0,
+        refundMethod: data.refundMethod,
+        refundReference: data.refundReference || null,
+        reason: data.reason || null,
+        shiftId: data.shiftId || null,
+        approvedBy: data.approvedBy || null,
+        syncStatus: 'pending',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const returnItemsData: NewReturnItem[] = lines.map(line => ({
+        id: uuidv4(),
+        returnId: returnData.id,
+        transactionItemId: line.soldItem.transactionItemId,
+        productId: line.soldItem.productId,
+        variantId: line.soldItem.isCustomVariant ? null : line.soldItem.variantId || null,
+        quantity: line.quantity,
+        unitPrice: line.soldItem.unitPrice,
+        totalPrice: line.soldItem.unitPrice * line.quantity,
+        restocked: line.restock && !line.soldItem.isCustomVariant && !!line.soldItem.variantId,
+        createdAt: new Date(),
+      }));
+
+      await this.db.transaction(async (tx) => {
+        // Check again inside the transaction so two returns made at once can't both take the last units
+        const returned = await this.getReturnedQuantities(tx, lines.map(line => line.soldItem.transactionItemId));
+        for (const line of lines) {
+          const remaining = line.soldItem.soldQuantity - (returned.get(line.soldItem.transactionItemId) || 0);
+          if (line.quantity > remaining) {
+            throw new Error(
+              `Cannot return ${line.quantity} of ${line.soldItem.productName}; only ${Math.max(0, remaining)} remaining`
+            );
+          }
+        }
+
+        // The refund goes back the way the sale was paid. Shares of the sale refunded before and after
+        // this return are used, so a run of partial returns never gives back more than was paid
+        const [previous] = await tx
+          .select({ refunded: sql<number>`COALESCE(SUM(${returns.total}), 0)` })
+          .from(returns)
+          .where(eq(returns.originalTransactionId, data.originalTransactionId));
+
+        const goodsPaid = originalTransaction.total - (originalTransaction.donationTotal || 0);
+        const shareOf = (refunded: number) => (goodsPaid > 0 ? Math.min(1, refunded / goodsPaid) : 1);
+        const refundedBefore = Number(previous?.refunded || 0);
+        const share = { before: shareOf(refundedBefore), after: shareOf(refundedBefore + total) };
+
+        // Points spent on the sale go back as points, and the points the returned goods earned come off
+        if (originalTransaction.customerId) {
+          returnData.pointsRefunded = await loyaltyService.reverseReturnPoints(
+            tx,
+            { transactionId: data.originalTransactionId, customerId: originalTransaction.customerId, userId: data.userId },
+            share
+          );
+        }
+        // What vouchers paid for goes back as store credit
+        const creditRefunded = roundCurrency(
+          roundCurrency(tenders.voucher * share.after) - roundCurrency(tenders.voucher * share.before)
+        );
+        returnData.creditRefunded = creditRefunded;
+        // What is left of the refund is paid out by the refund method
+        const refundAmount = roundCurrency(
+          Math.max(0, total - (returnData.pointsRefunded || 0) * POINT_VALUE - creditRefunded)
+        );
+
+        await tx.insert(returns).values(returnData);
+        await tx.insert(returnItems).values(returnItemsData);
+
+        // Store credit is issued with the return as one voucher; when it's the refund method its code
+        // is the refund reference too
+        const creditAmount = roundCurrency(creditRefunded + (data.refundMethod === 'voucher' ? refundAmount : 0));
+        if (creditAmount > 0) {
+          const code = await voucherService.issue({
+            kind: 'credit',
+            amount: creditAmount,
+            customerId: originalTransaction.customerId,
+            returnId: returnData.id,
+            expiresAt: new Date(Date.now() + STORE_CREDIT_VALIDITY_DAYS * 24 * 60 * 60 * 1000),
+            note: data.reason,
+            userId: data.userId,
+          }, tx);
+          await tx
+            .update(returns)
+            .set(data.refundMethod === 'voucher' ? { creditCode: code, refundReference: code } : { creditCode: code })
+            .where(eq(returns.id, returnData.id));
+        }
+
+        // Put returned goods back on the shelf they were sold from (custom variants have no stock to restore)
+        for (const item of returnItemsData) {
+          if (item.restocked && item.variantId) {
+            await stockMovementService.applyChange(tx, {
+              variantId: item.variantId,
+              type: 'return',
+              quantity: item.quantity,
+              referenceId: returnData.id,
+              locationId: originalTransaction.locationId,
+              reason: data.reason,
+              userId: data.userId,
+            });
+            if (item.transactionItemId) {
+              await batchService.restock(tx, item.transactionItemId, item.quantity);
+            }
+          }
+        }
+      });
+
+      return await this.findReturnWithItems(returnData.id) as ReturnWithItems;
+    } catch (error) {
+      console.error('Error creating return:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find return by ID
+   */
+  async findById(id: string): Promise<Return | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(returns)
+        .where(eq(returns.id, id))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      console.error('Error finding return by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find return with items and product details
+   */
+  async findReturnWithItems(id: string): Promise<ReturnWithItems | null> {
+    try {
+      const returnRecord = await this.findById(id);
+      if (!returnRecord) {
+        return null;
+      }
+
+      const items = await this.db
+        .select({
+          id: returnItems.id,
+          transactionItemId: returnItems.transactionItemId,
+          productId: returnItems.productId,
+          variantId: returnItems.variantId,
+          quantity: returnItems.quantity,
+          unitPrice: returnItems.unitPrice,
+          totalPrice: returnItems.totalPrice,
+          productName: products.name,
+          variantName: productVariants.name,
+        })
+        .from(returnItems)
+        .leftJoin(products, eq(returnItems.productId, products.id))
+        .leftJoin(productVariants, eq(returnItems.variantId, productVariants.id))
+        .where(eq(returnItems.returnId, id));
+
+      return {
+        ...returnRecord,
+        items: items.map(item => ({
+          id: item.id,
+          transactionItemId: item.transactionItemId || '',
+          productId: item.productId || '',
+          variantId: item.variantId || undefined,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          totalPrice: item.totalPrice,
+          productName: item.productName || 'Unknown Product',
+          variantName: item.variantName || undefined,
+        })),
+      };
+    } catch (error) {
+      console.error('Error finding return with items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find all returns made against a transaction
+   */
+  async findByTransaction(transactionId: string): Promise<Return[]> {
+    try {
+      return await this.db
+        .select()
+        .from(returns)
+        .where(eq(returns.originalTransactionId, transactionId))
+        .orderBy(desc(returns.createdAt));
+    } catch (error) {
+      console.error('Error finding returns by transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get refunded totals per transaction, used to show net amounts in history views
+   */
+  async getRefundTotals(transactionIds: string[]): Promise<Map<string, number>> {
+    try {
+      if (transactionIds.length === 0) {
+        return new Map();
+      }
+
+      const result = await this.db
+        .select({
+          transactionId: returns.originalTransactionId,
+          refunded: sql<number>`COALESCE(SUM(${returns.total}), 0)`,
+        })
+        .from(returns)
+        .where(inArray(returns.originalTransactionId, transactionIds))
+        .groupBy(returns.originalTransactionId);
+
+      return new Map(result.map(row => [row.transactionId, Number(row.refunded)]));
+    } catch (error) {
+      console.error('Error getting refund totals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find returns by date range
+   */
+  async findByDateRange(startDate: Date, endDate: Date): Promise<Return[]> {
+    try {
+      return await this.db
+        .select()
+        .from(returns)
+        .where(
+          and(
+            gte(returns.createdAt, startDate),
+            lte(returns.createdAt, endDate)
+          )
+        )
+        .orderBy(desc(returns.createdAt));
+    } catch (error) {
+      console.error('Error finding returns by date range:', error);
+      throw error;
+    }
+  }
+}
+
+export const returnService = new ReturnService();
@@ -0,0 +1,189 @@
+import { getDb } from '@/lib/db/connection';
+import { roles, users, type RoleRecord, type NewRoleRecord } from '@/lib/db/schema';
+import { eq, asc, desc, sql } from 'drizzle-orm';
+import { userActivityService } from './userActivity';
+import { DEFAULT_ROLE_PERMISSIONS, rolePermissions, type Permission, type Role } from '@/types/auth';
+import type { CreateRoleInput, UpdateRoleInput } from '@/lib/validation/role';
+
+// Users currently holding the outer role
+const userCount = sql<number>`(
+  SELECT COUNT(*) FROM ${users} WHERE ${users.role} = ${roles}.id
+)`;
+
+export class RoleService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toRole(record: RoleRecord, count?: number): Role {
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description,
+      permissions: rolePermissions(record.id, record.permissions || []),
+      isSystem: record.isSystem ?? false,
+      userCount: count === undefined ? undefined : Number(count),
+    };
+  }
+
+  /**
+   * Find all roles, the built-in ones first, with how many users hold each
+   */
+  async findAll(): Promise<Role[]> {
+    try {
+      const result: Array<{ role: RoleRecord; userCount: number }> = await this.db
+        .select({ role: roles, userCount })
+        .from(roles)
+        .orderBy(desc(roles.isSystem), asc(roles.name));
+
+      return result.map(row => this.toRole(row.role, row.userCount));
+    } catch (error) {
+      console.error('Error finding roles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find role by ID
+   */
+  async findById(id: string): Promise<Role | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(roles)
+        .where(eq(roles.id, id))
+        .limit(1);
+
+      return result[0] ? this.toRole(result[0]) : null;
+    } catch (error) {
+      console.error('Error finding role by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The permissions a role grants. A built-in role missing from the table
+   * falls back to its defaults; an unknown role grants nothing.
+   */
+  async getPermissions(id: string): Promise<Permission[]> {
+    const role = await this.findById(id);
+    return role ? role.permissions : rolePermissions(id);
+  }
+
+  /**
+   * Create a custom role
+   */
+  async createRole(data: CreateRoleInput, createdByUserId?: string): Promise<Role> {
+    try {
+      const existing = await this.findById(data.id);
+      if (existing || data.id in DEFAULT_ROLE_PERMISSIONS) {
+        throw new Error(`A role with the id ${data.id} already exists`);
+      }
+
+      const roleData: NewRoleRecord = {
+        id: data.id,
+        name: data.name,
+        description: data.description || null,
+        permissions: data.permissions,
+        isSystem: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await this.db.insert(roles).values(roleData);
+
+      if (createdByUserId) {
+        await userActivityService.logActivity(createdByUserId, 'create_role', {
+          details: { roleId: data.id, permissions: data.permissions },
+        });
+      }
+
+      return await this.findById(data.id) as Role;
+    } catch (error) {
+      console.error('Error creating role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a role or change its permissions; admin always keeps every permission
+   */
+  async updateRole(id: string, data: UpdateRoleInput, updatedByUserId?: string): Promise<Role | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+
+      if (id === 'admin' && data.permissions !== undefined) {
+        throw new Error('The admin role always has every permission');
+      }
+
+      const updateData: Partial<NewRoleRecord> = { updatedAt: new Date() };
+      if (data.name !== undefined) updateData.name = data.name;
+      if (data.description !== undefined) updateData.description = data.description || null;
+      if (data.permissions !== undefined) updateData.permissions = data.permissions;
+
+      await this.db.update(roles).set(updateData).where(eq(roles.id, id));
+
+      if (updatedByUserId) {
+        await userActivityService.logActivity(updatedByUserId, 'update_role', {
+          details: {
+            roleId: id,
+            previousPermissions: existing.permissions,
+            permissions: data.permissions,
+          },
+        });
+      }
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error updating role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a custom role nobody holds any more
+   */
+  async deleteRole(id: string, deletedByUserId?: string): Promise<boolean> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return false;
+      }
+
+      if (existing.isSystem) {
+        throw new Error('Built-in roles cannot be deleted');
+      }
+
+      const [held] = await this.db
+        .select({ count: sql<number>`count(*)` })
+        .from(users)
+        .where(eq(users.role, id));
+
+      const count = Number(held?.count || 0);
+      if (count > 0) {
+        throw new Error(`Move the ${count} user${count === 1 ? '' : 's'} on ${existing.name} to another role before deleting it`);
+      }
+
+      await this.db.delete(roles).where(eq(roles.id, id));
+
+      if (deletedByUserId) {
+        await userActivityService.logActivity(deletedByUserId, 'delete_role', {
+          details: { roleId: id, name: existing.name },
+        });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting role:', error);
+      throw error;
+    }
+  }
+}
+
+export const roleService = new RoleService();
@@ -0,0 +1,366 @@
+import { getDb } from '@/lib/db/connection';
+import {
+  shifts,
+  transactions,
+  transactionPayments,
+  returns,
+  vouchers,
+  users,
+  type ShiftRecord,
+  type NewShiftRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { CashDrawer } from '@/services/shifts/cashDrawer';
+import { salesValue } from './donations';
+import { POINT_VALUE } from '@/types/loyalty';
+import type { Shift, ShiftStatus, ShiftReport, ShiftReportType, CashCount } from '@/types/shift';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface ShiftFilters {
+  userId?: string;
+  status?: ShiftStatus;
+  limit?: number;
+}
+
+export class ShiftService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toShift(record: ShiftRecord, names: Map<string, string> = new Map()): Shift {
+    return {
+      id: record.id,
+      userId: record.userId,
+      userName: names.get(record.userId),
+      status: record.status as ShiftStatus,
+      openingFloat: record.openingFloat,
+      expectedCash: record.expectedCash,
+      countedCash: record.countedCash,
+      variance: record.variance,
+      cashCount: record.cashCount ? JSON.parse(record.cashCount) as CashCount : null,
+      closingNotes: record.closingNotes,
+      approvedBy: record.approvedBy,
+      approverName: record.approvedBy ? names.get(record.approvedBy) : undefined,
+      approvedAt: record.approvedAt,
+      openedAt: record.openedAt,
+      closedAt: record.closedAt,
+    };
+  }
+
+  /**
+   * Look up usernames for the cashiers and approvers on a set of shifts
+   */
+  private async getUserNames(records: ShiftRecord[]): Promise<Map<string, string>> {
+    const userIds = Array.from(new Set(
+      records.flatMap(record => [record.userId, record.approvedBy]).filter((id): id is string => !!id)
+    ));
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.db
+      .select({ id: users.id, username: users.username })
+      .from(users)
+      .where(inArray(users.id, userIds));
+
+    return new Map(rows.map((row: { id: string; username: string }) => [row.id, row.username]));
+  }
+
+  /**
+   * Find shift by ID
+   */
+  async findById(id: string): Promise<Shift | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(shifts)
+        .where(eq(shifts.id, id))
+        .limit(1);
+
+      if (!result[0]) {
+        return null;
+      }
+      return this.toShift(result[0], await this.getUserNames(result));
+    } catch (error) {
+      console.error('Error finding shift by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find shifts, newest first
+   */
+  async findAll(filters: ShiftFilters = {}): Promise<Shift[]> {
+    try {
+      const conditions = [];
+      if (filters.userId) {
+        conditions.push(eq(shifts.userId, filters.userId));
+      }
+      if (filters.status) {
+        conditions.push(eq(shifts.status, filters.status));
+      }
+
+      const result: ShiftRecord[] = await this.db
+        .select()
+        .from(shifts)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(shifts.openedAt))
+        .limit(filters.limit || 50);
+
+      const names = await this.getUserNames(result);
+      return result.map(record => this.toShift(record, names));
+    } catch (error) {
+      console.error('Error finding shifts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the shift a cashier currently has open, if any
+   */
+  async getOpenShift(userId: string): Promise<Shift | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(shifts)
+        .where(and(eq(shifts.userId, userId), eq(shifts.status, 'open')))
+        .limit(1);
+
+      return result[0] ? this.toShift(result[0], await this.getUserNames(result)) : null;
+    } catch (error) {
+      console.error('Error getting open shift:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open a shift with the cash float the cashier starts the drawer with
+   */
+  async openShift(userId: string, openingFloat: number): Promise<Shift> {
+    try {
+      if (openingFloat < 0) {
+        throw new Error('Opening float cannot be negative');
+      }
+
+      const existing = await this.getOpenShift(userId);
+      if (existing) {
+        throw new Error('A shift is already open for this cashier');
+      }
+
+      const now = new Date();
+      const shiftData: NewShiftRecord = {
+        id: uuidv4(),
+        userId,
+        status: 'open',
+        openingFloat: roundCurrency(openingFloat),
+        openedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.db.insert(shifts).values(shiftData);
+
+      return (await this.findById(shiftData.id)) as Shift;
+    } catch (error) {
+      console.error('Error opening shift:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the X (running) or Z (closing) report for a shift
+   */
+  async getShiftReport(shiftId: string, type: ShiftReportType = 'X'): Promise<ShiftReport> {
+    try {
+      const shift = await this.findById(shiftId);
+      if (!shift) {
+        throw new Error(`Shift ${shiftId} not found`);
+      }
+      if (type === 'Z' && shift.status === 'open') {
+        throw new Error('Z report is only available once the shift is closed');
+      }
+
+      const saleConditions = and(eq(transactions.shiftId, shiftId), eq(transactions.status, 'completed'));
+
+      const [sales] = await this.db
+        .select({
+          transactionCount: sql<number>`COUNT(*)`,
+          grossSales: sql<number>`COALESCE(SUM(${salesValue}), 0)`,
+          donations: sql<number>`COALESCE(SUM(${transactions.donationTotal}), 0)`,
+          discounts: sql<number>`COALESCE(SUM(${transactions.discount}), 0)`,
+          tax: sql<number>`COALESCE(SUM(${transactions.tax}), 0)`,
+        })
+        .from(transactions)
+        .where(saleConditions);
+
+      const tenders = await this.db
+        .select({
+          method: transactionPayments.method,
+          amount: sql<number>`COALESCE(SUM(${transactionPayments.amount}), 0)`,
+        })
+        .from(transactionPayments)
+        .innerJoin(transactions, eq(transactionPayments.transactionId, transactions.id))
+        .where(saleConditions)
+        .groupBy(transactionPayments.method);
+
+      const refunds = await this.db
+        .select({
+          method: returns.refundMethod,
+          count: sql<number>`COUNT(*)`,
+          // Points and store credit given back for what points and vouchers paid aren't paid out by the refund method
+          amount: sql<number>`COALESCE(SUM(
+            ${returns.total} - COALESCE(${returns.pointsRefunded}, 0) * ${POINT_VALUE} - COALESCE(${returns.creditRefunded}, 0)
+          ), 0)`,
+          credit: sql<number>`COALESCE(SUM(${returns.creditRefunded}), 0)`,
+          points: sql<number>`COALESCE(SUM(${returns.pointsRefunded}), 0)`,
+        })
+        .from(returns)
+        .where(eq(returns.shiftId, shiftId))
+        .groupBy(returns.refundMethod);
+
+      // Gift vouchers are paid for into the drawer when sold, apart from any sale
+      const voucherPayments = await this.db
+        .select({
+          method: vouchers.paymentMethod,
+          amount: sql<number>`COALESCE(SUM(${vouchers.amount}), 0)`,
+        })
+        .from(vouchers)
+        .where(and(eq(vouchers.shiftId, shiftId), eq(vouchers.kind, 'gift')))
+        .groupBy(vouchers.paymentMethod);
+
+      const tenderTotal = (method: string) =>
+        roundCurrency(Number(tenders.find((row: { method: string }) => row.method === method)?.amount || 0));
+      const refundTotal = (method: string) =>
+        roundCurrency(Number(refunds.find((row: { method: string }) => row.method === method)?.amount || 0));
+
+      const grossSales = roundCurrency(Number(sales?.grossSales || 0));
+      const cashSales = tenderTotal('cash');
+      const giftVoucherCash = roundCurrency(Number(
+        voucherPayments.find((row: { method: string | null }) => row.method === 'cash')?.amount || 0
+      ));
+      const cashRefunds = refundTotal('cash');
+      const upiRefunds = refundTotal('upi');
+      const creditRefunds = roundCurrency(
+        refundTotal('voucher') + refunds.reduce((sum: number, row: { credit: number }) => sum + Number(row.credit), 0)
+      );
+      const pointsRefunds = roundCurrency(
+        refunds.reduce((sum: number, row: { points: number }) => sum + Number(row.points), 0) * POINT_VALUE
+      );
+
+      return {
+        type,
+        shift,
+        generatedAt: new Date(),
+        transactionCount: Number(sales?.transactionCount || 0),
+        grossSales,
+        donations: roundCurrency(Number(sales?.donations || 0)),
+        discounts: roundCurrency(Number(sales?.discounts || 0)),
+        tax: roundCurrency(Number(sales?.tax || 0)),
+        cashSales,
+        upiSales: tenderTotal('upi'),
+        voucherSales: tenderTotal('voucher'),
+        giftVouchersSold: roundCurrency(
+          voucherPayments.reduce((sum: number, row: { amount: number }) => sum + Number(row.amount), 0)
+        ),
+        refundCount: refunds.reduce((sum: number, row: { count: number }) => sum + Number(row.count), 0),
+        cashRefunds,
+        upiRefunds,
+        creditRefunds,
+        pointsRefunds,
+        netSales: roundCurrency(grossSales - cashRefunds - upiRefunds - creditRefunds - pointsRefunds),
+        expectedCash: roundCurrency(shift.openingFloat + cashSales + giftVoucherCash - cashRefunds),
+      };
+    } catch (error) {
+      console.error('Error getting shift report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a shift against the counted drawer; large variances wait for a manager
+   */
+  async closeShift(
+    shiftId: string,
+    userId: string,
+    cashCount: CashCount,
+    closingNotes?: string
+  ): Promise<Shift> {
+    try {
+      const shift = await this.findById(shiftId);
+      if (!shift) {
+        throw new Error(`Shift ${shiftId} not found`);
+      }
+      if (shift.userId !== userId) {
+        throw new Error('Only the cashier who opened the shift can close it');
+      }
+      if (shift.status !== 'open') {
+        throw new Error('Shift is already closed');
+      }
+
+      const { expectedCash } = await this.getShiftReport(shiftId, 'X');
+      const countedCash = CashDrawer.count(cashCount);
+      const variance = CashDrawer.variance(expectedCash, countedCash);
+      const now = new Date();
+
+      await this.db
+        .update(shifts)
+        .set({
+          status: CashDrawer.needsApproval(variance) ? 'pending_approval' : 'closed',
+          expectedCash,
+          countedCash,
+          variance,
+          cashCount: JSON.stringify(cashCount),
+          closingNotes: closingNotes || null,
+          closedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(shifts.id, shiftId));
+
+      return (await this.findById(shiftId)) as Shift;
+    } catch (error) {
+      console.error('Error closing shift:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Manager sign-off for a shift closed with a variance over the threshold
+   */
+  async approveShift(shiftId: string, managerId: string): Promise<Shift> {
+    try {
+      const shift = await this.findById(shiftId);
+      if (!shift) {
+        throw new Error(`Shift ${shiftId} not found`);
+      }
+      if (shift.status !== 'pending_approval') {
+        throw new Error('Shift is not waiting for approval');
+      }
+      if (shift.userId === managerId) {
+        throw new Error('A different manager must sign off your own shift');
+      }
+
+      const now = new Date();
+      await this.db
+        .update(shifts)
+        .set({
+          status: 'closed',
+          approvedBy: managerId,
+          approvedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(shifts.id, shiftId));
+
+      return (await this.findById(shiftId)) as Shift;
+    } catch (error) {
+      console.error('Error approving shift:', error);
+      throw error;
+    }
+  }
+}
+
+export const shiftService = new ShiftService();
@@ -0,0 +1,324 @@
+import { getDb, type DbTransaction } from '@/lib/db/connection';
+import {
+  stockMovements,
+  stockLevels,
+  locations,
+  productVariants,
+  users,
+  type NewStockMovementRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import type { StockMovement, StockMovementType } from '@/types/stock';
+
+// Timestamps only have second precision, so rowid keeps same-second movements in the order they happened
+const insertionOrder = sql`${stockMovements}.rowid`;
+
+export interface StockChange {
+  variantId: string;
+  type: StockMovementType;
+  // Signed change to apply; ignored when setTo is given
+  quantity?: number;
+  // New stock level, for counts where only the shelf figure is known.
+  // With a location this is the level there, otherwise the variant's total.
+  setTo?: number;
+  // Where the stock is; the default location when not given
+  locationId?: string | null;
+  referenceId?: string | null;
+  reason?: string | null;
+  userId?: string | null;
+  // Cost per unit of stock coming in; re-averages the variant's cost price
+  unitCost?: number;
+}
+
+export interface StockChangeResult {
+  variantId: string;
+  quantity: number;
+  balanceAfter: number;
+  // Null when the change left the stock level where it was
+  movementId: string | null;
+}
+
+/**
+ * Weighted average cost after receiving stock. Stock already below zero has
+ * no cost to carry forward, so only the units on hand are weighed.
+ */
+export function weightedAverageCost(
+  onHand: number,
+  currentCost: number,
+  receivedQuantity: number,
+  receivedCost: number
+): number {
+  const carried = Math.max(0, onHand);
+  const totalQuantity = carried + receivedQuantity;
+  if (totalQuantity <= 0) {
+    return currentCost;
+  }
+  return Math.round(((carried * currentCost + receivedQuantity * receivedCost) / totalQuantity) * 10000) / 10000;
+}
+
+export interface StockTransferLine {
+  variantId: string;
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  referenceId?: string | null;
+  reason?: string | null;
+  userId?: string | null;
+}
+
+export class StockMovementService {
+  private db = getDb();
+
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  /*
+   * The variant's stockQuantity stays the total across every location. Only
+   * non-default locations keep a row in stock_levels; the default location
+   * holds whatever is left, so stock recorded before locations existed (or
+   * added by the seed) needs no backfill.
+   */
+  async findDefaultLocationId(tx: DbTransaction): Promise<string | null> {
+    const [location] = await tx
+      .select({ id: locations.id })
+      .from(locations)
+      .where(eq(locations.isDefault, true))
+      .limit(1);
+
+    return location?.id || null;
+  }
+
+  private async storedLevel(tx: DbTransaction, variantId: string, locationId: string): Promise<number> {
+    const [level] = await tx
+      .select({ quantity: stockLevels.quantity })
+      .from(stockLevels)
+      .where(and(eq(stockLevels.variantId, variantId), eq(stockLevels.locationId, locationId)))
+      .limit(1);
+
+    return level?.quantity || 0;
+  }
+
+  private async adjustStoredLevel(tx: DbTransaction, variantId: string, locationId: string, delta: number) {
+    await tx
+      .insert(stockLevels)
+      .values({ id: uuidv4(), variantId, locationId, quantity: delta, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [stockLevels.variantId, stockLevels.locationId],
+        set: { quantity: sql`${stockLevels.quantity} + ${delta}`, updatedAt: new Date() },
+      });
+  }
+
+  /**
+   * Stock of a variant at one location
+   */
+  async locationLevel(tx: DbTransaction, variantId: string, locationId: string): Promise<number> {
+    const defaultLocationId = await this.findDefaultLocationId(tx);
+    if (locationId !== defaultLocationId) {
+      return this.storedLevel(tx, variantId, locationId);
+    }
+
+    const [row] = await tx
+      .select({
+        total: productVariants.stockQuantity,
+        elsewhere: sql<number>`COALESCE((
+          SELECT SUM(${stockLevels.quantity}) FROM ${stockLevels}
+          WHERE ${stockLevels.variantId} = ${productVariants}.id
+        ), 0)`,
+      })
+      .from(productVariants)
+      .where(eq(productVariants.id, variantId))
+      .limit(1);
+
+    return (row?.total || 0) - Number(row?.elsewhere || 0);
+  }
+
+  /**
+   * Change a variant's stock and append the matching ledger row.
+   * Must run inside the caller's transaction so the two can never disagree.
+   */
+  async applyChange(tx: DbTransaction, change: StockChange): Promise<StockChangeResult> {
+    const [variant] = await tx
+      .select({ stockQuantity: productVariants.stockQuantity, costPrice: productVariants.costPrice })
+      .from(productVariants)
+      .where(eq(productVariants.id, change.variantId))
+      .limit(1);
+
+    if (!variant) {
+      throw new Error(`Variant ${change.variantId} not found`);
+    }
+
+    const current = variant.stockQuantity || 0;
+    const defaultLocationId = await this.findDefaultLocationId(tx);
+    const locationId = change.locationId || defaultLocationId;
+
+    let quantity = change.quantity || 0;
+    if (change.setTo !== undefined) {
+      quantity = change.setTo - (change.locationId
+        ? await this.locationLevel(tx, change.variantId, change.locationId)
+        : current);
+    }
+
+    if (quantity === 0) {
+      return { variantId: change.variantId, quantity, balanceAfter: current, movementId: null };
+    }
+
+    const now = new Date();
+    const costPrice = change.unitCost !== undefined && quantity > 0
+      ? weightedAverageCost(current, variant.costPrice || 0, quantity, change.unitCost)
+      : undefined;
+
+    // Added in SQL and read back, so changes made at the same moment can't overwrite each other
+    const [updated] = await tx
+      .update(productVariants)
+      .set({ stockQuantity: sql`COALESCE(${productVariants.stockQuantity}, 0) + ${quantity}`, costPrice, updatedAt: now })
+      .where(eq(productVariants.id, change.variantId))
+      .returning({ stockQuantity: productVariants.stockQuantity });
+    const balanceAfter = updated?.stockQuantity || 0;
+
+    if (locationId && locationId !== defaultLocationId) {
+      await this.adjustStoredLevel(tx, change.variantId, locationId, quantity);
+    }
+
+    const movement: NewStockMovementRecord = {
+      id: uuidv4(),
+      variantId: change.variantId,
+      type: change.type,
+      quantity,
+      balanceAfter,
+      referenceId: change.referenceId || null,
+      locationId: locationId || null,
+      reason: change.reason || null,
+      userId: change.userId || null,
+      createdAt: now,
+    };
+
+    await tx.insert(stockMovements).values(movement);
+
+    return { variantId: change.variantId, quantity, balanceAfter, movementId: movement.id };
+  }
+
+  /**
+   * Move stock between two locations. The total doesn't change, so the ledger
+   * gets a matching pair of rows: out of one location and into the other.
+   */
+  async applyTransfer(tx: DbTransaction, line: StockTransferLine): Promise<void> {
+    const [variant] = await tx
+      .select({ stockQuantity: productVariants.stockQuantity })
+      .from(productVariants)
+      .where(eq(productVariants.id, line.variantId))
+      .limit(1);
+
+    if (!variant) {
+      throw new Error(`Variant ${line.variantId} not found`);
+    }
+
+    const defaultLocationId = await this.findDefaultLocationId(tx);
+    const now = new Date();
+    const legs = [
+      { locationId: line.fromLocationId, quantity: -line.quantity },
+      { locationId: line.toLocationId, quantity: line.quantity },
+    ];
+
+    for (const leg of legs) {
+      if (leg.locationId !== defaultLocationId) {
+        await this.adjustStoredLevel(tx, line.variantId, leg.locationId, leg.quantity);
+      }
+
+      const movement: NewStockMovementRecord = {
+        id: uuidv4(),
+        variantId: line.variantId,
+        type: 'transfer',
+        quantity: leg.quantity,
+        balanceAfter: variant.stockQuantity || 0,
+        referenceId: line.referenceId || null,
+        locationId: leg.locationId,
+        reason: line.reason || null,
+        userId: line.userId || null,
+        createdAt: now,
+      };
+      await tx.insert(stockMovements).values(movement);
+    }
+  }
+
+  /**
+   * Apply a single stock change in its own transaction
+   */
+  async recordChange(change: StockChange): Promise<StockChangeResult> {
+    try {
+      return await this.db.transaction((tx) => this.applyChange(tx, change));
+    } catch (error) {
+      console.error('Error recording stock change:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Movement history for every variant of a product, newest first
+   */
+  async findByProduct(productId: string, limit = 200): Promise<StockMovement[]> {
+    try {
+      const rows = await this.db
+        .select({
+          movement: stockMovements,
+          variantName: productVariants.name,
+          userName: users.username,
+          locationName: locations.name,
+        })
+        .from(stockMovements)
+        .innerJoin(productVariants, eq(stockMovements.variantId, productVariants.id))
+        .leftJoin(users, eq(stockMovements.userId, users.id))
+        .leftJoin(locations, eq(stockMovements.locationId, locations.id))
+        .where(eq(productVariants.productId, productId))
+        .orderBy(desc(stockMovements.createdAt), desc(insertionOrder))
+        .limit(limit);
+
+      return rows.map((row) => ({
+        ...row.movement,
+        type: row.movement.type as StockMovementType,
+        variantName: row.variantName,
+        userName: row.userName,
+        locationName: row.locationName,
+      }));
+    } catch (error) {
+      console.error('Error finding stock movements by product:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Movement history for one variant, newest first
+   */
+  async findByVariant(variantId: string, limit = 200): Promise<StockMovement[]> {
+    try {
+      const rows = await this.db
+        .select({
+          movement: stockMovements,
+          variantName: productVariants.name,
+          userName: users.username,
+          locationName: locations.name,
+        })
+        .from(stockMovements)
+        .innerJoin(productVariants, eq(stockMovements.variantId, productVariants.id))
+        .leftJoin(users, eq(stockMovements.userId, users.id))
+        .leftJoin(locations, eq(stockMovements.locationId, locations.id))
+        .where(eq(stockMovements.variantId, variantId))
+        .orderBy(desc(stockMovements.createdAt), desc(insertionOrder))
+        .limit(limit);
+
+      return rows.map((row) => ({
+        ...row.movement,
+        type: row.movement.type as StockMovementType,
+        variantName: row.variantName,
+        userName: row.userName,
+        locationName: row.locationName,
+      }));
+    } catch (error) {
+      console.error('Error finding stock movements by variant:', error);
+      throw error;
+    }
+  }
+}
+
+export const stockMovementService = new StockMovementService();
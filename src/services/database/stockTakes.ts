@@ -0,0 +1,465 @@
+import { getDb, type DbTransaction } from '@/lib/db/connection';
+import {
+  stockTakes,
+  stockTakeItems,
+  products,
+  productVariants,
+  categories,
+  locations,
+  users,
+  type StockTakeRecord,
+  type NewStockTakeRecord,
+  type NewStockTakeItemRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { stockMovementService } from './stockMovements';
+import { stockAtLocation } from './locations';
+import { userActivityService } from './userActivity';
+import type { StockTake, StockTakeItem, StockTakeStatus, StockTakeWithItems } from '@/types/stock';
+import type { CreateStockTakeInput, RecordCountInput } from '@/lib/validation/stockTake';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface StockTakeFilters {
+  status?: StockTakeStatus;
+  limit?: number;
+}
+
+type StockTakeRow = StockTakeRecord & {
+  categoryName: string | null;
+  locationName: string | null;
+  approverName: string | null;
+};
+
+export class StockTakeService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toStockTake(record: StockTakeRow, itemCount: number, countedCount: number): StockTake {
+    return {
+      id: record.id,
+      reference: record.reference,
+      name: record.name,
+      categoryId: record.categoryId,
+      categoryName: record.categoryName,
+      locationId: record.locationId,
+      locationName: record.locationName,
+      status: record.status as StockTakeStatus,
+      notes: record.notes,
+      createdBy: record.createdBy,
+      approvedBy: record.approvedBy,
+      approverName: record.approverName,
+      postedAt: record.postedAt,
+      createdAt: record.createdAt,
+      itemCount,
+      countedCount,
+    };
+  }
+
+  private selectStockTakes() {
+    return this.db
+      .select({
+        id: stockTakes.id,
+        reference: stockTakes.reference,
+        name: stockTakes.name,
+        categoryId: stockTakes.categoryId,
+        locationId: stockTakes.locationId,
+        status: stockTakes.status,
+        notes: stockTakes.notes,
+        createdBy: stockTakes.createdBy,
+        approvedBy: stockTakes.approvedBy,
+        postedAt: stockTakes.postedAt,
+        createdAt: stockTakes.createdAt,
+        updatedAt: stockTakes.updatedAt,
+        categoryName: categories.name,
+        locationName: locations.name,
+        approverName: users.username,
+      })
+      .from(stockTakes)
+      .leftJoin(categories, eq(stockTakes.categoryId, categories.id))
+      .leftJoin(locations, eq(stockTakes.locationId, locations.id))
+      .leftJoin(users, eq(stockTakes.approvedBy, users.id));
+  }
+
+  /**
+   * Next sequential stock take reference, e.g. ST-00007
+   */
+  private async nextReference(): Promise<string> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(stockTakes);
+
+    return `ST-${String(Number(row?.count || 0) + 1).padStart(5, '0')}`;
+  }
+
+  /**
+   * The category and everything nested under it
+   */
+  private async categoryScope(categoryId: string): Promise<string[]> {
+    const allCategories: Array<{ id: string; parentId: string | null }> = await this.db
+      .select({ id: categories.id, parentId: categories.parentId })
+      .from(categories);
+
+    if (!allCategories.some(category => category.id === categoryId)) {
+      throw new Error(`Category ${categoryId} not found`);
+    }
+
+    const scope = [categoryId];
+    for (let i = 0; i < scope.length; i++) {
+      for (const category of allCategories) {
+        if (category.parentId === scope[i] && !scope.includes(category.id)) {
+          scope.push(category.id);
+        }
+      }
+    }
+    return scope;
+  }
+
+  /**
+   * The location being counted; the default location when none is chosen
+   */
+  private async countLocation(locationId?: string | null): Promise<{ id: string; isDefault: boolean } | null> {
+    const [location] = await this.db
+      .select({ id: locations.id, name: locations.name, isDefault: locations.isDefault, isActive: locations.isActive })
+      .from(locations)
+      .where(locationId ? eq(locations.id, locationId) : eq(locations.isDefault, true))
+      .limit(1);
+
+    if (!location) {
+      if (locationId) {
+        throw new Error(`Location ${locationId} not found`);
+      }
+      return null;
+    }
+    if (!location.isActive) {
+      throw new Error(`${location.name} is closed and cannot be counted`);
+    }
+    return { id: location.id, isDefault: !!location.isDefault };
+  }
+
+  /**
+   * A variant's stock across every location, for counts made before locations were set up
+   */
+  private async variantTotal(tx: DbTransaction, variantId: string): Promise<number> {
+    const [variant] = await tx
+      .select({ stockQuantity: productVariants.stockQuantity })
+      .from(productVariants)
+      .where(eq(productVariants.id, variantId))
+      .limit(1);
+
+    return variant?.stockQuantity || 0;
+  }
+
+  /**
+   * List stock takes, newest first
+   */
+  async findAll(filters: StockTakeFilters = {}): Promise<StockTake[]> {
+    try {
+      const sessions: StockTakeRow[] = await this.selectStockTakes()
+        .where(filters.status ? eq(stockTakes.status, filters.status) : undefined)
+        .orderBy(desc(stockTakes.createdAt))
+        .limit(filters.limit || 50);
+
+      if (sessions.length === 0) {
+        return [];
+      }
+
+      const progress: Array<{ stockTakeId: string; itemCount: number; countedCount: number }> = await this.db
+        .select({
+          stockTakeId: stockTakeItems.stockTakeId,
+          itemCount: sql<number>`count(*)`,
+          countedCount: sql<number>`count(${stockTakeItems.countedQuantity})`,
+        })
+        .from(stockTakeItems)
+        .where(inArray(stockTakeItems.stockTakeId, sessions.map(session => session.id)))
+        .groupBy(stockTakeItems.stockTakeId);
+
+      const progressById = new Map(progress.map(row => [row.stockTakeId, row]));
+
+      return sessions.map(session => {
+        const row = progressById.get(session.id);
+        return this.toStockTake(session, Number(row?.itemCount || 0), Number(row?.countedCount || 0));
+      });
+    } catch (error) {
+      console.error('Error finding stock takes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a stock take with every line and its variance
+   */
+  async findById(id: string): Promise<StockTakeWithItems | null> {
+    try {
+      const [session] = await this.selectStockTakes()
+        .where(eq(stockTakes.id, id))
+        .limit(1);
+
+      if (!session) {
+        return null;
+      }
+
+      const rows = await this.db
+        .select({
+          id: stockTakeItems.id,
+          variantId: stockTakeItems.variantId,
+          productName: products.name,
+          variantName: productVariants.name,
+          barcode: productVariants.barcode,
+          expectedQuantity: stockTakeItems.expectedQuantity,
+          countedQuantity: stockTakeItems.countedQuantity,
+          balanceAtCount: stockTakeItems.balanceAtCount,
+          unitValue: stockTakeItems.unitValue,
+          countedBy: stockTakeItems.countedBy,
+          counterName: users.username,
+          countedAt: stockTakeItems.countedAt,
+        })
+        .from(stockTakeItems)
+        .leftJoin(productVariants, eq(stockTakeItems.variantId, productVariants.id))
+        .leftJoin(products, eq(productVariants.productId, products.id))
+        .leftJoin(users, eq(stockTakeItems.countedBy, users.id))
+        .where(eq(stockTakeItems.stockTakeId, id))
+        .orderBy(products.name, productVariants.name);
+
+      const items: StockTakeItem[] = rows.map((row: Omit<StockTakeItem, 'variance' | 'varianceValue'>) => {
+        // Counts entered before the balance was noted fall back to the opening snapshot
+        const variance = row.countedQuantity === null
+          ? null
+          : row.countedQuantity - (row.balanceAtCount ?? row.expectedQuantity);
+        return {
+          ...row,
+          variance,
+          varianceValue: roundCurrency((variance || 0) * row.unitValue),
+        };
+      });
+
+      const countedCount = items.filter(item => item.countedQuantity !== null).length;
+
+      return {
+        ...this.toStockTake(session, items.length, countedCount),
+        items,
+        varianceValue: roundCurrency(items.reduce((sum, item) => sum + item.varianceValue, 0)),
+      };
+    } catch (error) {
+      console.error('Error finding stock take:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open a count, freezing the stock on record at the location for every variant in scope
+   */
+  async createStockTake(data: CreateStockTakeInput, userId: string): Promise<StockTakeWithItems> {
+    try {
+      const scope = data.categoryId ? await this.categoryScope(data.categoryId) : null;
+      const location = await this.countLocation(data.locationId);
+
+      const variants: Array<{ id: string; stockQuantity: number | null; price: number }> = await this.db
+        .select({
+          id: productVariants.id,
+          stockQuantity: location ? stockAtLocation(location) : productVariants.stockQuantity,
+          price: productVariants.price,
+        })
+        .from(productVariants)
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(scope
+          ? and(eq(products.isActive, true), inArray(products.categoryId, scope))
+          : eq(products.isActive, true));
+
+      if (variants.length === 0) {
+        throw new Error('There are no stocked items to count in this category');
+      }
+
+      const stockTakeData: NewStockTakeRecord = {
+        id: uuidv4(),
+        reference: await this.nextReference(),
+        name: data.name,
+        categoryId: data.categoryId || null,
+        locationId: location?.id || null,
+        status: 'counting',
+        notes: data.notes || null,
+        createdBy: userId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const itemsData: NewStockTakeItemRecord[] = variants.map(variant => ({
+        id: uuidv4(),
+        stockTakeId: stockTakeData.id,
+        variantId: variant.id,
+        expectedQuantity: Number(variant.stockQuantity || 0),
+        countedQuantity: null,
+        unitValue: variant.price,
+      }));
+
+      await this.db.transaction(async (tx) => {
+        await tx.insert(stockTakes).values(stockTakeData);
+        await tx.insert(stockTakeItems).values(itemsData);
+      });
+
+      return await this.findById(stockTakeData.id) as StockTakeWithItems;
+    } catch (error) {
+      console.error('Error creating stock take:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a counted quantity; several staff can count the same session at once
+   */
+  async recordCount(id: string, data: RecordCountInput, userId: string): Promise<StockTakeItem | null> {
+    try {
+      const [session] = await this.db
+        .select({ status: stockTakes.status, locationId: stockTakes.locationId })
+        .from(stockTakes)
+        .where(eq(stockTakes.id, id))
+        .limit(1);
+
+      if (!session) {
+        return null;
+      }
+      if (session.status !== 'counting') {
+        throw new Error('Only open stock takes can be counted');
+      }
+
+      const [line] = await this.db
+        .select({ id: stockTakeItems.id, variantId: stockTakeItems.variantId })
+        .from(stockTakeItems)
+        .innerJoin(productVariants, eq(stockTakeItems.variantId, productVariants.id))
+        .where(and(
+          eq(stockTakeItems.stockTakeId, id),
+          data.variantId
+            ? eq(stockTakeItems.variantId, data.variantId)
+            : eq(productVariants.barcode, data.barcode || '')
+        ))
+        .limit(1);
+
+      if (!line) {
+        throw new Error(`Item ${data.barcode || data.variantId} is not part of this stock take`);
+      }
+
+      await this.db.transaction(async (tx) => {
+        // What the ledger says is on the shelf now; sales since the snapshot are already in it
+        const balanceAtCount = session.locationId
+          ? await stockMovementService.locationLevel(tx, line.variantId, session.locationId)
+          : await this.variantTotal(tx, line.variantId);
+
+        // Adding in SQL keeps simultaneous scans of the same item from overwriting each other
+        await tx
+          .update(stockTakeItems)
+          .set({
+            countedQuantity: data.mode === 'add'
+              ? sql`COALESCE(${stockTakeItems.countedQuantity}, 0) + ${data.quantity}`
+              : data.quantity,
+            balanceAtCount,
+            countedBy: userId,
+            countedAt: new Date(),
+          })
+          .where(eq(stockTakeItems.id, line.id));
+      });
+
+      const updated = await this.findById(id);
+      return updated?.items.find(item => item.id === line.id) || null;
+    } catch (error) {
+      console.error('Error recording stock count:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Post every counted variance as one batch of stock adjustments.
+   * Each variance is measured from the stock on record when that item was
+   * counted and applied as a change, so sales made before or after the count
+   * are neither lost nor taken off twice.
+   */
+  async postStockTake(id: string, userId: string): Promise<StockTakeWithItems | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+      if (existing.status !== 'counting') {
+        throw new Error('Only open stock takes can be posted');
+      }
+      if (existing.countedCount === 0) {
+        throw new Error('Count at least one item before posting');
+      }
+
+      const adjustments = existing.items.filter(item => item.variance !== null && item.variance !== 0);
+      const postedAt = new Date();
+
+      await this.db.transaction(async (tx) => {
+        for (const item of adjustments) {
+          await stockMovementService.applyChange(tx, {
+            variantId: item.variantId,
+            type: 'adjustment',
+            quantity: item.variance as number,
+            referenceId: id,
+            locationId: existing.locationId,
+            reason: `Stock take ${existing.reference}`,
+            userId,
+          });
+        }
+
+        await tx
+          .update(stockTakes)
+          .set({ status: 'posted', approvedBy: userId, postedAt, updatedAt: postedAt })
+          .where(eq(stockTakes.id, id));
+      });
+
+      await userActivityService.logActivity(userId, 'post_stock_take', {
+        details: {
+          stockTakeId: id,
+          reference: existing.reference,
+          name: existing.name,
+          countedItems: existing.countedCount,
+          adjustedItems: adjustments.length,
+          unitsAdjusted: adjustments.reduce((sum, item) => sum + (item.variance || 0), 0),
+          varianceValue: existing.varianceValue,
+        },
+      });
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error posting stock take:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Abandon a count without touching stock
+   */
+  async cancelStockTake(id: string): Promise<StockTakeWithItems | null> {
+    try {
+      const [session] = await this.db
+        .select({ status: stockTakes.status })
+        .from(stockTakes)
+        .where(eq(stockTakes.id, id))
+        .limit(1);
+
+      if (!session) {
+        return null;
+      }
+      if (session.status !== 'counting') {
+        throw new Error('Only open stock takes can be cancelled');
+      }
+
+      await this.db
+        .update(stockTakes)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(eq(stockTakes.id, id));
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error cancelling stock take:', error);
+      throw error;
+    }
+  }
+}
+
+export const stockTakeService = new StockTakeService();
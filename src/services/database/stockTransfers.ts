@@ -0,0 +1,216 @@
+import { getDb } from '@/lib/db/connection';
+import {
+  stockTransfers,
+  stockTransferItems,
+  locations,
+  products,
+  productVariants,
+  users,
+  type NewStockTransferRecord,
+  type NewStockTransferItemRecord,
+} from '@/lib/db/schema';
+import { alias } from 'drizzle-orm/sqlite-core';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, desc, inArray, sql } from 'drizzle-orm';
+import { stockMovementService } from './stockMovements';
+import type { StockTransfer, StockTransferItem, StockTransferWithItems } from '@/types/stock';
+import type { CreateStockTransferInput } from '@/lib/validation/location';
+
+const fromLocations = alias(locations, 'from_locations');
+const toLocations = alias(locations, 'to_locations');
+
+export class StockTransferService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private selectTransfers() {
+    return this.db
+      .select({
+        id: stockTransfers.id,
+        reference: stockTransfers.reference,
+        fromLocationId: stockTransfers.fromLocationId,
+        fromLocationName: fromLocations.name,
+        toLocationId: stockTransfers.toLocationId,
+        toLocationName: toLocations.name,
+        notes: stockTransfers.notes,
+        createdBy: stockTransfers.createdBy,
+        creatorName: users.username,
+        createdAt: stockTransfers.createdAt,
+        itemCount: sql<number>`(
+          SELECT count(*) FROM ${stockTransferItems}
+          WHERE ${stockTransferItems.transferId} = ${stockTransfers.id}
+        )`,
+        totalQuantity: sql<number>`(
+          SELECT COALESCE(SUM(${stockTransferItems.quantity}), 0) FROM ${stockTransferItems}
+          WHERE ${stockTransferItems.transferId} = ${stockTransfers.id}
+        )`,
+      })
+      .from(stockTransfers)
+      .leftJoin(fromLocations, eq(stockTransfers.fromLocationId, fromLocations.id))
+      .leftJoin(toLocations, eq(stockTransfers.toLocationId, toLocations.id))
+      .leftJoin(users, eq(stockTransfers.createdBy, users.id));
+  }
+
+  /**
+   * Next sequential transfer reference, e.g. TR-00012
+   */
+  private async nextReference(): Promise<string> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(stockTransfers);
+
+    return `TR-${String(Number(row?.count || 0) + 1).padStart(5, '0')}`;
+  }
+
+  /**
+   * List transfers, newest first
+   */
+  async findAll(limit: number = 50): Promise<StockTransfer[]> {
+    try {
+      const rows: StockTransfer[] = await this.selectTransfers()
+        .orderBy(desc(stockTransfers.createdAt), desc(sql`${stockTransfers}.rowid`))
+        .limit(limit);
+
+      return rows.map(row => ({
+        ...row,
+        itemCount: Number(row.itemCount),
+        totalQuantity: Number(row.totalQuantity),
+      }));
+    } catch (error) {
+      console.error('Error finding stock transfers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a transfer with its lines
+   */
+  async findById(id: string): Promise<StockTransferWithItems | null> {
+    try {
+      const [transfer] = await this.selectTransfers()
+        .where(eq(stockTransfers.id, id))
+        .limit(1);
+
+      if (!transfer) {
+        return null;
+      }
+
+      const items: StockTransferItem[] = await this.db
+        .select({
+          id: stockTransferItems.id,
+          variantId: stockTransferItems.variantId,
+          productName: products.name,
+          variantName: productVariants.name,
+          quantity: stockTransferItems.quantity,
+        })
+        .from(stockTransferItems)
+        .leftJoin(productVariants, eq(stockTransferItems.variantId, productVariants.id))
+        .leftJoin(products, eq(productVariants.productId, products.id))
+        .where(eq(stockTransferItems.transferId, id))
+        .orderBy(products.name, productVariants.name);
+
+      return {
+        ...transfer,
+        itemCount: Number(transfer.itemCount),
+        totalQuantity: Number(transfer.totalQuantity),
+        items,
+      };
+    } catch (error) {
+      console.error('Error finding stock transfer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Post a transfer, moving every line out of one location and into the other
+   */
+  async createTransfer(data: CreateStockTransferInput, userId: string): Promise<StockTransferWithItems> {
+    try {
+      const involved = await this.db
+        .select({ id: locations.id, name: locations.name, isActive: locations.isActive })
+        .from(locations)
+        .where(inArray(locations.id, [data.fromLocationId, data.toLocationId]));
+
+      const byId = new Map(involved.map((location: { id: string; name: string; isActive: boolean | null }) => [location.id, location]));
+      const from = byId.get(data.fromLocationId);
+      const to = byId.get(data.toLocationId);
+
+      if (!from) {
+        throw new Error(`Location ${data.fromLocationId} not found`);
+      }
+      if (!to) {
+        throw new Error(`Location ${data.toLocationId} not found`);
+      }
+      if (!to.isActive) {
+        throw new Error(`${to.name} is closed and cannot receive stock`);
+      }
+
+      const variants: Array<{ id: string; productName: string; variantName: string }> = await this.db
+        .select({ id: productVariants.id, productName: products.name, variantName: productVariants.name })
+        .from(productVariants)
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(inArray(productVariants.id, data.items.map(item => item.variantId)));
+
+      const variantsById = new Map(variants.map(variant => [variant.id, variant]));
+
+      const transferData: NewStockTransferRecord = {
+        id: uuidv4(),
+        reference: await this.nextReference(),
+        fromLocationId: data.fromLocationId,
+        toLocationId: data.toLocationId,
+        notes: data.notes || null,
+        createdBy: userId,
+        createdAt: new Date(),
+      };
+
+      const itemsData: NewStockTransferItemRecord[] = data.items.map(item => {
+        if (!variantsById.has(item.variantId)) {
+          throw new Error(`Variant ${item.variantId} not found`);
+        }
+        return {
+          id: uuidv4(),
+          transferId: transferData.id,
+          variantId: item.variantId,
+          quantity: item.quantity,
+        };
+      });
+
+      await this.db.transaction(async (tx) => {
+        await tx.insert(stockTransfers).values(transferData);
+        await tx.insert(stockTransferItems).values(itemsData);
+
+        for (const item of data.items) {
+          // Checked inside the transaction so a sale at the same moment can't overdraw the source
+          const available = await stockMovementService.locationLevel(tx, item.variantId, data.fromLocationId);
+          if (available < item.quantity) {
+            const variant = variantsById.get(item.variantId);
+            throw new Error(
+              `Only ${Math.max(0, available)} of ${variant?.productName} - ${variant?.variantName} at ${from.name}`
+            );
+          }
+
+          await stockMovementService.applyTransfer(tx, {
+            variantId: item.variantId,
+            fromLocationId: data.fromLocationId,
+            toLocationId: data.toLocationId,
+            quantity: item.quantity,
+            referenceId: transferData.id,
+            reason: `${transferData.reference}: ${from.name} → ${to.name}`,
+            userId,
+          });
+        }
+      });
+
+      return await this.findById(transferData.id) as StockTransferWithItems;
+    } catch (error) {
+      console.error('Error creating stock transfer:', error);
+      throw error;
+    }
+  }
+}
+
+export const stockTransferService = new StockTransferService();
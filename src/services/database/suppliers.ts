@@ -0,0 +1,142 @@
+import { getDb } from '@/lib/db/connection';
+import { suppliers, type SupplierRecord, type NewSupplierRecord } from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, asc } from 'drizzle-orm';
+import type { Supplier } from '@/types/purchasing';
+import type { CreateSupplierInput, UpdateSupplierInput } from '@/lib/validation/purchasing';
+
+export class SupplierService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toSupplier(record: SupplierRecord): Supplier {
+    return {
+      id: record.id,
+      name: record.name,
+      contactName: record.contactName,
+      phone: record.phone,
+      email: record.email,
+      gstin: record.gstin,
+      address: record.address,
+      notes: record.notes,
+      isActive: record.isActive ?? true,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  /**
+   * Find all suppliers by name, optionally only the active ones
+   */
+  async findAll(activeOnly: boolean = false): Promise<Supplier[]> {
+    try {
+      const result: SupplierRecord[] = await this.db
+        .select()
+        .from(suppliers)
+        .where(activeOnly ? eq(suppliers.isActive, true) : undefined)
+        .orderBy(asc(suppliers.name));
+
+      return result.map(record => this.toSupplier(record));
+    } catch (error) {
+      console.error('Error finding suppliers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find supplier by ID
+   */
+  async findById(id: string): Promise<Supplier | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(suppliers)
+        .where(eq(suppliers.id, id))
+        .limit(1);
+
+      return result[0] ? this.toSupplier(result[0]) : null;
+    } catch (error) {
+      console.error('Error finding supplier by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new supplier
+   */
+  async createSupplier(data: CreateSupplierInput): Promise<Supplier> {
+    try {
+      const supplierData: NewSupplierRecord = {
+        id: uuidv4(),
+        name: data.name,
+        contactName: data.contactName || null,
+        phone: data.phone || null,
+        email: data.email || null,
+        gstin: data.gstin || null,
+        address: data.address || null,
+        notes: data.notes || null,
+        isActive: data.isActive,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await this.db.insert(suppliers).values(supplierData);
+
+      return await this.findById(supplierData.id) as Supplier;
+    } catch (error) {
+      console.error('Error creating supplier:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update supplier details
+   */
+  async updateSupplier(id: string, data: UpdateSupplierInput): Promise<Supplier | null> {
+    try {
+      const updateData: Partial<NewSupplierRecord> = { updatedAt: new Date() };
+
+      if (data.name !== undefined) updateData.name = data.name;
+      if (data.contactName !== undefined) updateData.contactName = data.contactName || null;
+      if (data.phone !== undefined) updateData.phone = data.phone || null;
+      if (data.email !== undefined) updateData.email = data.email || null;
+      if (data.gstin !== undefined) updateData.gstin = data.gstin || null;
+      if (data.address !== undefined) updateData.address = data.address || null;
+      if (data.notes !== undefined) updateData.notes = data.notes || null;
+      if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+      await this.db
+        .update(suppliers)
+        .set(updateData)
+        .where(eq(suppliers.id, id));
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error updating supplier:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate a supplier; past purchase orders keep pointing at it
+   */
+  async deactivateSupplier(id: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .update(suppliers)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(suppliers.id, id));
+
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error('Error deactivating supplier:', error);
+      throw error;
+    }
+  }
+}
+
+export const supplierService = new SupplierService();
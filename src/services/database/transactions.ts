@@ -1,10 +1,32 @@
-import { getDb } from '@/lib/db/connection';
-import { transactions, transactionItems, products, productVariants, users, type Transaction, type NewTransaction, type NewTransactionItem } from '@/lib/db/schema';
+import { getDb, type DbTransaction } from '@/lib/db/connection';
+import { transactions, transactionItems, transactionPayments, products, productVariants, users, customers, promotions, shifts, returns, type Transaction, type NewTransaction, type NewTransactionItem, type NewTransactionPayment, type TransactionPayment } from '@/lib/db/schema';
 import { v4 as uuidv4 } from 'uuid';
-import { eq, desc, and, gte, lte, sql } from 'drizzle-orm';
+import { eq, desc, and, gte, lte, sql, inArray, like } from 'drizzle-orm';
+import { PromotionEngine } from '@/services/promotions/promotionEngine';
+import { GstCalculator } from '@/services/tax/gstCalculator';
+import { stockMovementService } from './stockMovements';
+import { batchService } from './batches';
+import { donationService, financialYear, salesValue } from './donations';
+import { loyaltyService } from './loyalty';
+import { voucherService } from './vouchers';
+import { userActivityService } from './userActivity';
+import { MemberPricing } from '@/services/loyalty/memberPricing';
+import { POINT_VALUE } from '@/types/loyalty';
+import type { Promotion, AppliedPromotion, PricingResult } from '@/types/promotion';
+import type { TaxLineResult } from '@/types/tax';
+import type { DonationLineInput } from '@/lib/validation/donation';
+
+// A single tender settling part of a transaction total
+export interface PaymentInput {
+  method: string;
+  amount: number;
+  reference?: string;
+  tendered?: number; // Cash handed over, used to work out change on the cash portion
+}
 
 // Types for transaction with items
 export interface TransactionWithItems extends Transaction {
+  payments: TransactionPayment[];
   items: Array<{
     id: string;
     productId: string;
@@ -12,6 +34,14 @@ export interface TransactionWithItems extends Transaction {
     quantity: number;
     unitPrice: number;
     totalPrice: number;
+    discountAmount: number;
+    appliedPromotions: AppliedPromotion[];
+    hsnCode?: string;
+    taxRate: number;
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
     product: {
       id: string;
       name: string;
@@ -25,6 +55,17 @@ export interface TransactionWithItems extends Transaction {
   }>;
 }
 
+interface ProductPricingInfo {
+  id: string;
+  categoryId: string | null;
+  hsnCode: string | null;
+  taxRate: number | null;
+  priceIncludesTax: boolean | null;
+  trackBatches: boolean | null;
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
 export interface DailySalesReport {
   date: Date;
   totalSales: number;
@@ -56,8 +97,21 @@ export class TransactionService {
       userId: string;
       paymentMethod: string;
       paymentReference?: string;
-      tax?: number;
+      payments?: PaymentInput[];
       discount?: number;
+      interState?: boolean;
+      // Buyer's GST state code, for inter-state sales
+      placeOfSupply?: string;
+      shiftId?: string;
+      // Location the terminal sells from; the default location when not set
+      locationId?: string;
+      // A manager approved selling from expired batches
+      allowExpired?: boolean;
+      // Manager whose PIN approved a cashier's overrides on the sale
+      approvedBy?: string;
+      customerId?: string;
+      // Tax-free gifts paid for with the sale; each gets an 80G receipt
+      donations?: DonationLineInput[];
       items: Array<{
         productId: string;
         variantId?: string;
@@ -73,14 +127,47 @@ export class TransactionService {
     }
   ): Promise<Transaction> {
     try {
-      if (!data.items || data.items.length === 0) {
+      const donationLines = data.donations || [];
+      if ((!data.items || data.items.length === 0) && donationLines.length === 0) {
         throw new Error('Transaction must have at least one item');
       }
+      if (donationLines.length > 0) {
+        await donationService.checkDonor(data.customerId);
+      }
 
-      const subtotal = data.items.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
-      const tax = data.tax || 0;
-      const discount = data.discount || 0;
-      const total = subtotal + tax - discount;
+      // Members pay their tier's prices; promotions then apply on top, as they do in the cart
+      const tier = data.customerId ? await loyaltyService.getCustomerTier(data.customerId) : null;
+      const items = data.items.map(item => ({ ...item, unitPrice: MemberPricing.priceFor(tier, item) }));
+
+      const productInfo = await this.getProductPricingInfo(items.map(item => item.productId));
+      const pricing = await this.applyPromotions(items, productInfo);
+      const lineTaxes = this.calculateTaxes(items, pricing, productInfo, data.interState);
+      const variantCosts = await this.getVariantCosts(
+        items.filter(item => item.variantId && !item.isCustomVariant).map(item => item.variantId as string)
+      );
+
+      const subtotal = items.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
+      const discount = pricing.discount + (data.discount || 0);
+      // GST is computed here from each product's slab; the client's figure is never trusted
+      const tax = roundCurrency(lineTaxes.reduce((sum, line) => sum + line.totalTax, 0));
+      const lineTotals = roundCurrency(lineTaxes.reduce((sum, line) => sum + line.lineTotal, 0));
+      if ((data.discount || 0) > lineTotals) {
+        throw new Error('Discount cannot be more than the items come to');
+      }
+      // Donations carry no GST and sit outside promotions
+      const donationTotal = roundCurrency(donationLines.reduce((sum, line) => sum + line.amount, 0));
+      // Tax-exclusive lines add their GST on top; inclusive lines already carry it
+      const total = roundCurrency(lineTotals - (data.discount || 0) + donationTotal);
+
+      const payments = this.resolvePayments(data, total);
+      const pointsRedeemed = this.resolvePointsRedeemed(payments, data.customerId, total - donationTotal);
+      const voucherPayments = this.resolveVoucherPayments(payments, total - donationTotal - pointsRedeemed * POINT_VALUE);
+      const voucherTotal = voucherPayments.reduce((sum, payment) => sum + payment.amount, 0);
+      // Points are earned on money paid, not on points or vouchers spent
+      const pointsEarned = data.customerId
+        ? MemberPricing.pointsEarned(tier, total - donationTotal - pointsRedeemed * POINT_VALUE - voucherTotal)
+        : 0;
+      const methods = Array.from(new Set(payments.map(payment => payment.method)));
 
       const transactionData: NewTransaction = {
         id: uuidv4(),
@@ -89,19 +176,23 @@ export class TransactionService {
         tax,
         discount,
         total,
-        paymentMethod: data.paymentMethod,
-        paymentReference: data.paymentReference || null,
+        donationTotal,
+        paymentMethod: methods.length === 1 ? methods[0] : 'split',
+        paymentReference: data.paymentReference || payments.find(payment => payment.reference)?.reference || null,
+        interState: data.interState || false,
+        placeOfSupply: data.interState ? data.placeOfSupply || null : null,
+        shiftId: data.shiftId || null,
+        locationId: data.locationId || null,
+        customerId: data.customerId || null,
         status: 'completed',
+        approvedBy: data.approvedBy || null,
         syncStatus: 'pending',
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      // Insert transaction
-      await this.db.insert(transactions).values(transactionData);
-
       // Insert transaction items
-      const transactionItemsData: NewTransactionItem[] = data.items.map(item => ({
+      const transactionItemsData: NewTransactionItem[] = items.map((item, index) => ({
         id: uuidv4(),
         transactionId: transactionData.id,
         productId: item.productId,
@@ -109,25 +200,94 @@ export class TransactionService {
         quantity: item.quantity,
         unitPrice: item.unitPrice,
         totalPrice: item.unitPrice * item.quantity,
+        discountAmount: pricing.lines[index].discount,
+        appliedPromotions: pricing.lines[index].appliedPromotions.length > 0
+          ? JSON.stringify(pricing.lines[index].appliedPromotions)
+          : null,
+        hsnCode: productInfo.get(item.productId)?.hsnCode || null,
+        taxRate: productInfo.get(item.productId)?.taxRate || 0,
+        taxableValue: lineTaxes[index].taxableValue,
+        cgst: lineTaxes[index].cgst,
+        sgst: lineTaxes[index].sgst,
+        igst: lineTaxes[index].igst,
+        unitCost: item.variantId && !item.isCustomVariant ? variantCosts.get(item.variantId) || 0 : 0,
         isCustomVariant: item.isCustomVariant || false,
         customVariantData: item.customVariantData ? JSON.stringify(item.customVariantData) : null,
         createdAt: new Date(),
       }));
 
-      await this.db.insert(transactionItems).values(transactionItemsData);
+      // Insert one payment row per tender
+      const paymentsData: NewTransactionPayment[] = payments.map(payment => ({
+        id: uuidv4(),
+        transactionId: transactionData.id,
+        method: payment.method,
+        amount: payment.amount,
+        reference: payment.reference || null,
+        tendered: payment.method === 'cash' ? payment.tendered ?? payment.amount : null,
+        changeGiven: payment.method === 'cash' ? Math.max(0, (payment.tendered ?? payment.amount) - payment.amount) : null,
+        createdAt: new Date(),
+      }));
 
-      // Update stock quantities (skip for custom variants)
-      for (const item of data.items) {
-        if (item.variantId && !item.isCustomVariant) {
-          await this.db
-            .update(productVariants)
-            .set({
-              stockQuantity: sql`${productVariants.stockQuantity} - ${item.quantity}`,
-              updatedAt: new Date(),
-            })
-            .where(eq(productVariants.id, item.variantId));
+      // The sale, its lines, tenders and the stock it takes off the shelf commit together
+      await this.db.transaction(async (tx) => {
+        transactionData.invoiceNumber = await this.nextInvoiceNumber(tx, transactionData.createdAt as Date);
+        await tx.insert(transactions).values(transactionData);
+        if (transactionItemsData.length > 0) {
+          await tx.insert(transactionItems).values(transactionItemsData);
         }
-      }
+        await tx.insert(transactionPayments).values(paymentsData);
+        if (donationLines.length > 0) {
+          await donationService.recordDonations(
+            tx,
+            transactionData.id,
+            data.customerId as string,
+            donationLines,
+            transactionData.createdAt as Date
+          );
+        }
+        if (pointsRedeemed > 0 || pointsEarned > 0) {
+          await loyaltyService.recordSalePoints(tx, {
+            transactionId: transactionData.id,
+            customerId: data.customerId as string,
+            userId: data.userId,
+            redeemed: pointsRedeemed,
+            earned: pointsEarned,
+            createdAt: transactionData.createdAt as Date,
+          });
+        }
+        for (const payment of voucherPayments) {
+          await voucherService.redeem(tx, {
+            code: payment.reference as string,
+            amount: payment.amount,
+            transactionId: transactionData.id,
+            createdAt: transactionData.createdAt as Date,
+          });
+        }
+
+        // Custom variants have no stock to take off
+        for (let index = 0; index < items.length; index++) {
+          const item = items[index];
+          if (item.variantId && !item.isCustomVariant) {
+            // Batches are picked before the stock moves, while the untracked remainder is still known
+            if (productInfo.get(item.productId)?.trackBatches) {
+              const allocations = await batchService.allocate(tx, item.variantId, item.quantity, {
+                locationId: data.locationId,
+                allowExpired: data.allowExpired,
+              });
+              await batchService.recordAllocations(tx, transactionItemsData[index].id, allocations);
+            }
+
+            await stockMovementService.applyChange(tx, {
+              variantId: item.variantId,
+              type: 'sale',
+              quantity: -item.quantity,
+              referenceId: transactionData.id,
+              locationId: data.locationId,
+              userId: data.userId,
+            });
+          }
+        }
+      });
 
       // Return the created transaction with items
       return await this.findTransactionWithItems(transactionData.id) as Transaction & { items: any[] };
@@ -137,6 +297,178 @@ export class TransactionService {
     }
   }
 
+  /**
+   * Load the category and GST details needed to price each product in a sale
+   */
+  private async getProductPricingInfo(productIds: string[]): Promise<Map<string, ProductPricingInfo>> {
+    if (productIds.length === 0) {
+      return new Map();
+    }
+
+    const rows: ProductPricingInfo[] = await this.db
+      .select({
+        id: products.id,
+        categoryId: products.categoryId,
+        hsnCode: products.hsnCode,
+        taxRate: products.taxRate,
+        priceIncludesTax: products.priceIncludesTax,
+        trackBatches: products.trackBatches,
+      })
+      .from(products)
+      .where(inArray(products.id, Array.from(new Set(productIds))));
+
+    return new Map(rows.map(row => [row.id, row]));
+  }
+
+  /**
+   * Current cost price of each variant, snapshotted onto the sale lines for margin reporting
+   */
+  private async getVariantCosts(variantIds: string[]): Promise<Map<string, number>> {
+    if (variantIds.length === 0) {
+      return new Map();
+    }
+
+    const rows: Array<{ id: string; costPrice: number | null }> = await this.db
+      .select({ id: productVariants.id, costPrice: productVariants.costPrice })
+      .from(productVariants)
+      .where(inArray(productVariants.id, Array.from(new Set(variantIds))));
+
+    return new Map(rows.map(row => [row.id, row.costPrice || 0]));
+  }
+
+  /**
+   * Price the items against the promotions running now; the client's discount is never trusted
+   */
+  private async applyPromotions(
+    items: Array<{ productId: string; unitPrice: number; quantity: number; isCustomVariant?: boolean }>,
+    productInfo: Map<string, ProductPricingInfo>
+  ): Promise<PricingResult> {
+    // The engine checks the date window, so only the on/off switch is filtered here
+    const activePromotions = await this.db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.isActive, true)) as Promotion[];
+
+    return PromotionEngine.evaluate(
+      items.map(item => ({
+        productId: item.productId,
+        categoryId: productInfo.get(item.productId)?.categoryId,
+        unitPrice: item.unitPrice,
+        quantity: item.quantity,
+        excludeFromPromotions: item.isCustomVariant,
+      })),
+      activePromotions
+    );
+  }
+
+  /**
+   * Work out GST per line on the amount left after promotions
+   */
+  private calculateTaxes(
+    items: Array<{ productId: string }>,
+    pricing: PricingResult,
+    productInfo: Map<string, ProductPricingInfo>,
+    interState?: boolean
+  ): TaxLineResult[] {
+    return items.map((item, index) => {
+      const info = productInfo.get(item.productId);
+      return GstCalculator.calculateLine({
+        amount: pricing.lines[index].lineTotal - pricing.lines[index].discount,
+        taxRate: info?.taxRate || 0,
+        priceIncludesTax: info?.priceIncludesTax ?? true,
+        interState,
+      });
+    });
+  }
+
+  /**
+   * Work out the tenders for a transaction, defaulting to a single payment of the full total
+   */
+  private resolvePayments(
+    data: { paymentMethod: string; paymentReference?: string; payments?: PaymentInput[] },
+    total: number
+  ): PaymentInput[] {
+    if (!data.payments || data.payments.length === 0) {
+      return [{ method: data.paymentMethod, amount: total, reference: data.paymentReference }];
+    }
+
+    for (const payment of data.payments) {
+      if (!(payment.amount > 0)) {
+        throw new Error('Payment amount must be greater than 0');
+      }
+      if (payment.method === 'cash' && payment.tendered !== undefined && payment.tendered < payment.amount) {
+        throw new Error('Cash tendered cannot be less than the cash amount');
+      }
+    }
+
+    const paid = data.payments.reduce((sum, payment) => sum + payment.amount, 0);
+    if (Math.abs(paid - total) > 0.01) {
+      throw new Error(`Payments total ₹${paid.toFixed(2)} does not match transaction total ₹${total.toFixed(2)}`);
+    }
+
+    return data.payments;
+  }
+
+  /**
+   * Work out the points a sale redeems; points pay for goods only, never donations
+   */
+  private resolvePointsRedeemed(payments: PaymentInput[], customerId: string | undefined, salesTotal: number): number {
+    const amount = roundCurrency(payments
+      .filter(payment => payment.method === 'points')
+      .reduce((sum, payment) => sum + payment.amount, 0));
+    if (amount === 0) {
+      return 0;
+    }
+
+    if (!customerId) {
+      throw new Error('Attach the customer to redeem their points');
+    }
+    if (amount > roundCurrency(salesTotal)) {
+      throw new Error('Points cannot pay for donations');
+    }
+
+    const points = amount / POINT_VALUE;
+    if (!Number.isInteger(points)) {
+      throw new Error('Points are redeemed in whole points only');
+    }
+    return points;
+  }
+
+  /**
+   * Voucher tenders on a sale; like points, vouchers pay for goods only
+   */
+  private resolveVoucherPayments(payments: PaymentInput[], goodsTotal: number): PaymentInput[] {
+    const voucherPayments = payments.filter(payment => payment.method === 'voucher');
+    if (voucherPayments.length === 0) {
+      return [];
+    }
+
+    if (voucherPayments.some(payment => !payment.reference?.trim())) {
+      throw new Error('Voucher code is required');
+    }
+    const amount = roundCurrency(voucherPayments.reduce((sum, payment) => sum + payment.amount, 0));
+    if (amount > roundCurrency(goodsTotal)) {
+      throw new Error('Vouchers cannot pay for donations');
+    }
+    return voucherPayments;
+  }
+
+  /**
+   * Get the tenders recorded against a transaction
+   */
+  async getPayments(transactionId: string): Promise<TransactionPayment[]> {
+    try {
+      return await this.db
+        .select()
+        .from(transactionPayments)
+        .where(eq(transactionPayments.transactionId, transactionId))
+        .orderBy(transactionPayments.createdAt);
+    } catch (error) {
+      console.error('Error getting transaction payments:', error);
+      throw error;
+    }
+  }
+
   /**
    * Find transaction by ID
    */
@@ -173,6 +505,14 @@ export class TransactionService {
           quantity: transactionItems.quantity,
           unitPrice: transactionItems.unitPrice,
           totalPrice: transactionItems.totalPrice,
+          discountAmount: transactionItems.discountAmount,
+          appliedPromotions: transactionItems.appliedPromotions,
+          hsnCode: transactionItems.hsnCode,
+          taxRate: transactionItems.taxRate,
+          taxableValue: transactionItems.taxableValue,
+          cgst: transactionItems.cgst,
+          sgst: transactionItems.sgst,
+          igst: transactionItems.igst,
           productName: products.name,
           productBasePrice: products.basePrice,
           variantName: productVariants.name,
@@ -183,8 +523,11 @@ export class TransactionService {
         .leftJoin(productVariants, eq(transactionItems.variantId, productVariants.id))
         .where(eq(transactionItems.transactionId, id));
 
+      const payments = await this.getPayments(id);
+
       const transactionWithItems: TransactionWithItems = {
         ...transaction,
+        payments,
         items: items.map(item => ({
           id: item.id,
           productId: item.productId || '',
@@ -192,6 +535,14 @@ export class TransactionService {
           quantity: item.quantity,
           unitPrice: item.unitPrice,
           totalPrice: item.totalPrice,
+          discountAmount: item.discountAmount || 0,
+          appliedPromotions: item.appliedPromotions ? JSON.parse(item.appliedPromotions) : [],
+          hsnCode: item.hsnCode || undefined,
+          taxRate: item.taxRate || 0,
+          taxableValue: item.taxableValue || 0,
+          cgst: item.cgst || 0,
+          sgst: item.sgst || 0,
+          igst: item.igst || 0,
           product: {
             id: item.productId || '',
             name: item.productName || 'Unknown Product',
@@ -305,6 +656,127 @@ export class TransactionService {
     }
   }
 
+  /**
+   * Next number in the sale invoice series for the financial year, e.g. S/2026-27/000012.
+   * Counted inside the sale's transaction so two tills can't take the same number.
+   */
+  private async nextInvoiceNumber(tx: DbTransaction, createdAt: Date): Promise<string> {
+    const prefix = `S/${financialYear(createdAt)}/`;
+    const [issued] = await tx
+      .select({ count: sql<number>`count(*)` })
+      .from(transactions)
+      .where(like(transactions.invoiceNumber, `${prefix}%`));
+
+    return `${prefix}${String(Number(issued?.count || 0) + 1).padStart(6, '0')}`;
+  }
+
+  /**
+   * Void a sale rung up in a shift that is still open: its stock goes back on the shelf and any
+   * points and vouchers it used are restored. Later sales are handled with a return instead.
+   */
+  async voidTransaction(
+    id: string,
+    data: { userId: string; reason: string; voidedBy: string }
+  ): Promise<Transaction> {
+    try {
+      const sale = await this.findById(id);
+      if (!sale) {
+        throw new Error('Transaction not found');
+      }
+      if (sale.status !== 'completed') {
+        throw new Error('Only completed sales can be voided');
+      }
+
+      const [shift] = sale.shiftId
+        ? await this.db.select({ status: shifts.status }).from(shifts).where(eq(shifts.id, sale.shiftId)).limit(1)
+        : [];
+      if (!shift || shift.status !== 'open') {
+        throw new Error('Only sales from a shift that is still open can be voided; process a return instead');
+      }
+
+      const [returned] = await this.db
+        .select({ id: returns.id })
+        .from(returns)
+        .where(eq(returns.originalTransactionId, id))
+        .limit(1);
+      if (returned) {
+        throw new Error('Sales with returns against them cannot be voided');
+      }
+
+      // 80G receipts are numbered in sequence and can't be taken back
+      const saleDonations = await donationService.findByTransaction(id);
+      if (saleDonations.length > 0) {
+        throw new Error('Sales with donations cannot be voided once their 80G receipts are issued');
+      }
+
+      const items = await this.db
+        .select({
+          id: transactionItems.id,
+          variantId: transactionItems.variantId,
+          quantity: transactionItems.quantity,
+          isCustomVariant: transactionItems.isCustomVariant,
+        })
+        .from(transactionItems)
+        .where(eq(transactionItems.transactionId, id));
+
+      await this.db.transaction(async (tx) => {
+        // Only the void that moves the sale off completed goes on, so two voids made at once can't
+        // both put the stock back and restore the points and vouchers
+        const voided = await tx
+          .update(transactions)
+          .set({
+            status: 'cancelled',
+            voidedBy: data.voidedBy,
+            voidedAt: new Date(),
+            voidReason: data.reason,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(transactions.id, id), eq(transactions.status, 'completed')));
+        if (voided.rowsAffected === 0) {
+          throw new Error('Only completed sales can be voided');
+        }
+
+        const [returnedSince] = await tx
+          .select({ id: returns.id })
+          .from(returns)
+          .where(eq(returns.originalTransactionId, id))
+          .limit(1);
+        if (returnedSince) {
+          throw new Error('Sales with returns against them cannot be voided');
+        }
+
+        if (sale.customerId) {
+          await loyaltyService.reverseSalePoints(tx, { transactionId: id, customerId: sale.customerId, userId: data.userId });
+        }
+        await voucherService.releaseRedemptions(tx, id);
+
+        for (const item of items) {
+          if (item.variantId && !item.isCustomVariant) {
+            await stockMovementService.applyChange(tx, {
+              variantId: item.variantId,
+              type: 'return',
+              quantity: item.quantity,
+              referenceId: id,
+              locationId: sale.locationId,
+              reason: `Sale voided: ${data.reason}`,
+              userId: data.userId,
+            });
+            await batchService.restock(tx, item.id, item.quantity);
+          }
+        }
+      });
+
+      await userActivityService.logActivity(data.userId, 'void_transaction', {
+        details: { transactionId: id, total: sale.total, reason: data.reason, voidedBy: data.voidedBy },
+      });
+
+      return await this.findById(id) as Transaction;
+    } catch (error) {
+      console.error('Error voiding transaction:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update sync status
    */
@@ -335,7 +807,7 @@ export class TransactionService {
 
       const result = await this.db
         .select({
-          totalSales: sql<number>`COALESCE(SUM(${transactions.total}), 0)`,
+          totalSales: sql<number>`COALESCE(SUM(${salesValue}), 0)`,
           totalTransactions: sql<number>`COUNT(*)`,
           totalTax: sql<number>`COALESCE(SUM(${transactions.tax}), 0)`,
           totalDiscount: sql<number>`COALESCE(SUM(${transactions.discount}), 0)`,
@@ -402,10 +874,17 @@ export class TransactionService {
     endDate?: Date;
     paymentMethod?: string;
     userId?: string;
+    customerId?: string;
     limit?: number;
     offset?: number;
   }): Promise<{
-    transactions: Array<Transaction & { userName: string; itemCount: number }>;
+    transactions: Array<Transaction & {
+      userName: string;
+      customerName: string | null;
+      itemCount: number;
+      approvedByName: string | null;
+      voidedByName: string | null;
+    }>;
     totalCount: number;
   }> {
     try {
@@ -420,13 +899,25 @@ export class TransactionService {
       }
       
       if (filters.paymentMethod) {
-        conditions.push(eq(transactions.paymentMethod, filters.paymentMethod));
+        // Split transactions match every method they were partly paid with
+        conditions.push(sql`(
+          ${transactions.paymentMethod} = ${filters.paymentMethod}
+          OR EXISTS (
+            SELECT 1 FROM ${transactionPayments}
+            WHERE ${transactionPayments.transactionId} = ${transactions.id}
+              AND ${transactionPayments.method} = ${filters.paymentMethod}
+          )
+        )`);
       }
       
       if (filters.userId) {
         conditions.push(eq(transactions.userId, filters.userId));
       }
 
+      if (filters.customerId) {
+        conditions.push(eq(transactions.customerId, filters.customerId));
+      }
+
       // Get total count
       const countResult = await this.db
         .select({ count: sql<number>`COUNT(*)` })
@@ -444,21 +935,37 @@ export class TransactionService {
           tax: transactions.tax,
           discount: transactions.discount,
           total: transactions.total,
+          donationTotal: transactions.donationTotal,
           paymentMethod: transactions.paymentMethod,
           paymentReference: transactions.paymentReference,
+          interState: transactions.interState,
+          placeOfSupply: transactions.placeOfSupply,
+          invoiceNumber: transactions.invoiceNumber,
+          shiftId: transactions.shiftId,
+          locationId: transactions.locationId,
+          customerId: transactions.customerId,
           status: transactions.status,
+          approvedBy: transactions.approvedBy,
+          voidedBy: transactions.voidedBy,
+          voidedAt: transactions.voidedAt,
+          voidReason: transactions.voidReason,
           syncStatus: transactions.syncStatus,
           createdAt: transactions.createdAt,
           updatedAt: transactions.updatedAt,
           userName: users.username,
+          customerName: customers.name,
           itemCount: sql<number>`(
             SELECT COUNT(*) 
             FROM ${transactionItems} 
             WHERE ${transactionItems.transactionId} = ${transactions.id}
           )`,
+          // Managers who approved the sale's overrides and its void
+          approvedByName: sql<string | null>`(SELECT ${users.username} FROM ${users} WHERE ${users.id} = ${transactions.approvedBy})`,
+          voidedByName: sql<string | null>`(SELECT ${users.username} FROM ${users} WHERE ${users.id} = ${transactions.voidedBy})`,
         })
         .from(transactions)
         .leftJoin(users, eq(transactions.userId, users.id))
+        .leftJoin(customers, eq(transactions.customerId, customers.id))
         .where(conditions.length > 0 ? and(...conditions) : undefined)
         .orderBy(desc(transactions.createdAt))
         .limit(filters.limit || 50)
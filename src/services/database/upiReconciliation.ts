@@ -0,0 +1,512 @@
+import { getDb } from '@/lib/db/connection';
+import {
+  upiStatements,
+  upiStatementLines,
+  upiSaleClearances,
+  transactions,
+  transactionPayments,
+  users,
+  type NewUpiStatementLineRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, gte, lte, or, inArray, isNull, sql } from 'drizzle-orm';
+import { UpiStatementParser } from '@/services/upi/statementParser';
+import type {
+  UpiCreditLine,
+  UpiMatchMethod,
+  UpiReconciliationReport,
+  UpiSale,
+  UpiStatementCredit,
+  UpiStatementImportResult,
+} from '@/types/upi';
+import type { ResolveUpiInput } from '@/lib/validation/upiReconciliation';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// How far apart a sale and its credit may be when matched on amount alone
+export const UPI_MATCH_WINDOW_MINUTES = 30;
+
+// Shorter references are too likely to turn up inside an unrelated UTR
+const MIN_REFERENCE_LENGTH = 6;
+
+export interface UpiMatch {
+  lineId: string;
+  transactionId: string;
+  matchedBy: UpiMatchMethod;
+}
+
+type MatchableCredit = Pick<UpiCreditLine, 'id' | 'postedAt' | 'timeKnown' | 'amount' | 'utr' | 'narration'>;
+type MatchableSale = Pick<UpiSale, 'transactionId' | 'createdAt' | 'amount' | 'references'>;
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+/**
+ * Pair statement credits with UPI sales: first where the credit carries our reference or the
+ * cashier's UTR, then on amount within the time window, but only where the pairing is unambiguous
+ */
+export function matchUpiCredits(credits: MatchableCredit[], sales: MatchableSale[]): UpiMatch[] {
+  const matches: UpiMatch[] = [];
+  const claimed = new Set<string>();
+
+  const remaining = credits.filter(credit => {
+    const text = `${credit.utr || ''} ${credit.narration || ''}`.toUpperCase();
+    const sale = sales.find(candidate =>
+      !claimed.has(candidate.transactionId) &&
+      candidate.amount === credit.amount &&
+      candidate.references.some(reference =>
+        reference.length >= MIN_REFERENCE_LENGTH && text.includes(reference.toUpperCase())
+      )
+    );
+
+    if (!sale) return true;
+    claimed.add(sale.transactionId);
+    matches.push({ lineId: credit.id, transactionId: sale.transactionId, matchedBy: 'reference' });
+    return false;
+  });
+
+  const windowMs = UPI_MATCH_WINDOW_MINUTES * 60 * 1000;
+  const candidatesFor = new Map<string, string[]>();
+  const creditsFor = new Map<string, number>();
+
+  for (const credit of remaining) {
+    const candidates = sales
+      .filter(sale =>
+        !claimed.has(sale.transactionId) &&
+        sale.amount === credit.amount &&
+        !!sale.createdAt &&
+        (credit.timeKnown
+          ? Math.abs(new Date(sale.createdAt).getTime() - new Date(credit.postedAt).getTime()) <= windowMs
+          : isSameDay(new Date(sale.createdAt), new Date(credit.postedAt)))
+      )
+      .map(sale => sale.transactionId);
+
+    candidatesFor.set(credit.id, candidates);
+    candidates.forEach(id => creditsFor.set(id, (creditsFor.get(id) || 0) + 1));
+  }
+
+  // Two ₹100 sales and two ₹100 credits in the same half hour are left for a manager to pair
+  for (const credit of remaining) {
+    const candidates = candidatesFor.get(credit.id) || [];
+    if (candidates.length === 1 && creditsFor.get(candidates[0]) === 1) {
+      matches.push({ lineId: credit.id, transactionId: candidates[0], matchedBy: 'amount' });
+    }
+  }
+
+  return matches;
+}
+
+const dayBounds = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return { start, end };
+};
+
+export class UpiReconciliationService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  /**
+   * Completed sales paid (partly) by UPI between two times, with the references they carry
+   */
+  private async getUpiSales(start: Date, end: Date): Promise<UpiSale[]> {
+    const inRange = and(
+      gte(transactions.createdAt, start),
+      lte(transactions.createdAt, end),
+      eq(transactions.status, 'completed')
+    );
+
+    const tenders = await this.db
+      .select({
+        transactionId: transactions.id,
+        createdAt: transactions.createdAt,
+        amount: transactionPayments.amount,
+        reference: transactionPayments.reference,
+        paymentReference: transactions.paymentReference,
+        cashierName: users.username,
+      })
+      .from(transactionPayments)
+      .innerJoin(transactions, eq(transactionPayments.transactionId, transactions.id))
+      .leftJoin(users, eq(transactions.userId, users.id))
+      .where(and(inRange, eq(transactionPayments.method, 'upi')));
+
+    // Transactions recorded before tenders were tracked only carry a single payment method
+    const legacy = await this.db
+      .select({
+        transactionId: transactions.id,
+        createdAt: transactions.createdAt,
+        amount: transactions.total,
+        reference: transactions.paymentReference,
+        paymentReference: transactions.paymentReference,
+        cashierName: users.username,
+      })
+      .from(transactions)
+      .leftJoin(users, eq(transactions.userId, users.id))
+      .where(and(
+        inRange,
+        eq(transactions.paymentMethod, 'upi'),
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${transactionPayments}
+          WHERE ${transactionPayments.transactionId} = ${transactions.id}
+        )`
+      ));
+
+    const sales = new Map<string, UpiSale>();
+    for (const row of [...tenders, ...legacy]) {
+      const sale: UpiSale = sales.get(row.transactionId) || {
+        transactionId: row.transactionId,
+        createdAt: row.createdAt,
+        amount: 0,
+        references: [],
+        cashierName: row.cashierName,
+        creditId: null,
+        clearedNote: null,
+      };
+      sale.amount = roundCurrency(sale.amount + row.amount);
+      for (const reference of [row.reference, row.paymentReference]) {
+        if (reference && !sale.references.includes(reference)) {
+          sale.references.push(reference);
+        }
+      }
+      sales.set(row.transactionId, sale);
+    }
+
+    const result = Array.from(sales.values());
+    if (result.length === 0) {
+      return result;
+    }
+
+    const ids = result.map(sale => sale.transactionId);
+    const matched = await this.db
+      .select({ id: upiStatementLines.id, transactionId: upiStatementLines.transactionId })
+      .from(upiStatementLines)
+      .where(inArray(upiStatementLines.transactionId, ids));
+    const cleared = await this.db
+      .select({ transactionId: upiSaleClearances.transactionId, note: upiSaleClearances.note })
+      .from(upiSaleClearances)
+      .where(inArray(upiSaleClearances.transactionId, ids));
+
+    for (const sale of result) {
+      sale.creditId = matched.find(line => line.transactionId === sale.transactionId)?.id || null;
+      sale.clearedNote = cleared.find(row => row.transactionId === sale.transactionId)?.note || null;
+    }
+
+    return result.sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+  }
+
+  /**
+   * Match the open credits posted between two times against the open UPI sales around them
+   */
+  private async autoMatch(start: Date, end: Date): Promise<number> {
+    const credits = await this.db
+      .select()
+      .from(upiStatementLines)
+      .where(and(
+        gte(upiStatementLines.postedAt, start),
+        lte(upiStatementLines.postedAt, end),
+        isNull(upiStatementLines.transactionId),
+        eq(upiStatementLines.ignored, false)
+      ));
+    if (credits.length === 0) {
+      return 0;
+    }
+
+    // Sales late in the evening can settle the next morning
+    const windowMs = UPI_MATCH_WINDOW_MINUTES * 60 * 1000;
+    const sales = (await this.getUpiSales(dayBounds(new Date(start.getTime() - windowMs)).start, new Date(end.getTime() + windowMs)))
+      .filter(sale => !sale.creditId && !sale.clearedNote);
+
+    const matches = matchUpiCredits(credits, sales);
+    for (const match of matches) {
+      await this.db
+        .update(upiStatementLines)
+        .set({ transactionId: match.transactionId, matchedBy: match.matchedBy })
+        .where(eq(upiStatementLines.id, match.lineId));
+    }
+
+    return matches.length;
+  }
+
+  /**
+   * Import a bank or PSP statement; credits already imported from an earlier statement are skipped
+   */
+  async importStatement(fileName: string, content: string, userId: string): Promise<UpiStatementImportResult> {
+    try {
+      const { credits } = UpiStatementParser.parse(content);
+      if (credits.length === 0) {
+        throw new Error('No credits found in the statement');
+      }
+
+      // Statements for overlapping days repeat the same credits
+      const utrs = credits.map(credit => credit.utr).filter((utr): utr is string => !!utr);
+      const known = utrs.length > 0
+        ? await this.db
+          .select({ utr: upiStatementLines.utr })
+          .from(upiStatementLines)
+          .where(inArray(upiStatementLines.utr, utrs))
+        : [];
+      const knownUtrs = new Set(known.map(row => row.utr));
+
+      const fresh: UpiStatementCredit[] = [];
+      for (const credit of credits) {
+        if (credit.utr) {
+          if (knownUtrs.has(credit.utr)) continue;
+          knownUtrs.add(credit.utr);
+        } else {
+          const [existing] = await this.db
+            .select({ id: upiStatementLines.id })
+            .from(upiStatementLines)
+            .where(and(
+              eq(upiStatementLines.postedAt, credit.postedAt),
+              eq(upiStatementLines.amount, credit.amount),
+              credit.narration ? eq(upiStatementLines.narration, credit.narration) : isNull(upiStatementLines.narration)
+            ))
+            .limit(1);
+          if (existing) continue;
+        }
+        fresh.push(credit);
+      }
+
+      const statementId = uuidv4();
+      const createdAt = new Date();
+
+      await this.db.transaction(async (tx) => {
+        await tx.insert(upiStatements).values({
+          id: statementId,
+          fileName,
+          lineCount: fresh.length,
+          userId,
+          createdAt,
+        });
+
+        if (fresh.length > 0) {
+          const lines: NewUpiStatementLineRecord[] = fresh.map(credit => ({
+            id: uuidv4(),
+            statementId,
+            postedAt: credit.postedAt,
+            timeKnown: credit.timeKnown,
+            amount: credit.amount,
+            utr: credit.utr,
+            narration: credit.narration,
+            ignored: false,
+            createdAt,
+          }));
+          await tx.insert(upiStatementLines).values(lines);
+        }
+      });
+
+      let matched = 0;
+      if (fresh.length > 0) {
+        const times = fresh.map(credit => credit.postedAt.getTime());
+        matched = await this.autoMatch(
+          dayBounds(new Date(Math.min(...times))).start,
+          dayBounds(new Date(Math.max(...times))).end
+        );
+      }
+
+      return {
+        statementId,
+        credits: credits.length,
+        added: fresh.length,
+        duplicates: credits.length - fresh.length,
+        matched,
+      };
+    } catch (error) {
+      console.error('Error importing UPI statement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * UPI sales of a day against the statement credits, with what is still unmatched on each side
+   */
+  async getReport(date: Date): Promise<UpiReconciliationReport> {
+    try {
+      const { start, end } = dayBounds(date);
+      const sales = await this.getUpiSales(start, end);
+      const saleIds = sales.map(sale => sale.transactionId);
+
+      // Credits posted that day, and those for the day's sales that settled on another day
+      const rows = await this.db
+        .select({
+          id: upiStatementLines.id,
+          statementId: upiStatementLines.statementId,
+          fileName: upiStatements.fileName,
+          postedAt: upiStatementLines.postedAt,
+          timeKnown: upiStatementLines.timeKnown,
+          amount: upiStatementLines.amount,
+          utr: upiStatementLines.utr,
+          narration: upiStatementLines.narration,
+          transactionId: upiStatementLines.transactionId,
+          matchedBy: upiStatementLines.matchedBy,
+          ignored: upiStatementLines.ignored,
+          note: upiStatementLines.note,
+          resolvedByName: users.username,
+        })
+        .from(upiStatementLines)
+        .leftJoin(upiStatements, eq(upiStatementLines.statementId, upiStatements.id))
+        .leftJoin(users, eq(upiStatementLines.resolvedBy, users.id))
+        .where(or(
+          and(gte(upiStatementLines.postedAt, start), lte(upiStatementLines.postedAt, end)),
+          saleIds.length > 0 ? inArray(upiStatementLines.transactionId, saleIds) : undefined
+        ))
+        .orderBy(upiStatementLines.postedAt);
+
+      const credits: UpiCreditLine[] = rows.map((row) => ({
+        ...row,
+        matchedBy: row.matchedBy as UpiMatchMethod | null,
+        ignored: !!row.ignored,
+      }));
+
+      const matched = sales.filter(sale => sale.creditId);
+      const openSales = sales.filter(sale => !sale.creditId && !sale.clearedNote);
+      const openCredits = credits.filter(credit => !credit.transactionId && !credit.ignored);
+      const sum = (amounts: number[]) => roundCurrency(amounts.reduce((total, amount) => total + amount, 0));
+
+      return {
+        date: start,
+        sales,
+        credits,
+        summary: {
+          salesCount: sales.length,
+          salesTotal: sum(sales.map(sale => sale.amount)),
+          creditsTotal: sum(credits.filter(credit => !credit.ignored).map(credit => credit.amount)),
+          matchedCount: matched.length,
+          matchedTotal: sum(matched.map(sale => sale.amount)),
+          unmatchedSales: openSales.length,
+          unmatchedSalesTotal: sum(openSales.map(sale => sale.amount)),
+          unmatchedCredits: openCredits.length,
+          unmatchedCreditsTotal: sum(openCredits.map(credit => credit.amount)),
+          clearedSales: sales.filter(sale => sale.clearedNote).length,
+          ignoredCredits: credits.filter(credit => credit.ignored).length,
+        },
+      };
+    } catch (error) {
+      console.error('Error getting UPI reconciliation report:', error);
+      throw error;
+    }
+  }
+
+  private async getLine(lineId: string) {
+    const [line] = await this.db
+      .select()
+      .from(upiStatementLines)
+      .where(eq(upiStatementLines.id, lineId))
+      .limit(1);
+
+    if (!line) {
+      throw new Error('Statement credit not found');
+    }
+    return line;
+  }
+
+  private async checkSaleExists(transactionId: string): Promise<void> {
+    const [sale] = await this.db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(eq(transactions.id, transactionId))
+      .limit(1);
+
+    if (!sale) {
+      throw new Error('Transaction not found');
+    }
+  }
+
+  /**
+   * A manager settling a mismatch: pairing a credit by hand, setting a credit aside,
+   * clearing a sale that never got a credit, or undoing any of these
+   */
+  async resolve(input: ResolveUpiInput, userId: string): Promise<void> {
+    try {
+      switch (input.action) {
+        case 'match': {
+          const line = await this.getLine(input.lineId);
+          await this.checkSaleExists(input.transactionId);
+
+          const [taken] = await this.db
+            .select({ id: upiStatementLines.id })
+            .from(upiStatementLines)
+            .where(eq(upiStatementLines.transactionId, input.transactionId))
+            .limit(1);
+          if (taken && taken.id !== line.id) {
+            throw new Error('That sale is already matched to another credit');
+          }
+
+          await this.db
+            .update(upiStatementLines)
+            .set({
+              transactionId: input.transactionId,
+              matchedBy: 'manual',
+              ignored: false,
+              note: input.note || null,
+              resolvedBy: userId,
+            })
+            .where(eq(upiStatementLines.id, line.id));
+          await this.db
+            .delete(upiSaleClearances)
+            .where(eq(upiSaleClearances.transactionId, input.transactionId));
+          break;
+        }
+
+        case 'ignore': {
+          const line = await this.getLine(input.lineId);
+          await this.db
+            .update(upiStatementLines)
+            .set({ transactionId: null, matchedBy: null, ignored: true, note: input.note, resolvedBy: userId })
+            .where(eq(upiStatementLines.id, line.id));
+          break;
+        }
+
+        case 'reopen_credit': {
+          const line = await this.getLine(input.lineId);
+          await this.db
+            .update(upiStatementLines)
+            .set({ transactionId: null, matchedBy: null, ignored: false, note: null, resolvedBy: null })
+            .where(eq(upiStatementLines.id, line.id));
+          break;
+        }
+
+        case 'clear': {
+          await this.checkSaleExists(input.transactionId);
+          const [matched] = await this.db
+            .select({ id: upiStatementLines.id })
+            .from(upiStatementLines)
+            .where(eq(upiStatementLines.transactionId, input.transactionId))
+            .limit(1);
+          if (matched) {
+            throw new Error('That sale is already matched to a credit');
+          }
+
+          await this.db
+            .delete(upiSaleClearances)
+            .where(eq(upiSaleClearances.transactionId, input.transactionId));
+          await this.db.insert(upiSaleClearances).values({
+            id: uuidv4(),
+            transactionId: input.transactionId,
+            note: input.note,
+            userId,
+            createdAt: new Date(),
+          });
+          break;
+        }
+
+        case 'reopen_sale': {
+          await this.db
+            .delete(upiSaleClearances)
+            .where(eq(upiSaleClearances.transactionId, input.transactionId));
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Error resolving UPI reconciliation:', error);
+      throw error;
+    }
+  }
+}
+
+export const upiReconciliationService = new UpiReconciliationService();
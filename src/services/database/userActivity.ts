@@ -1,4 +1,4 @@
-import { eq, desc, and, gte, lte, sql } from 'drizzle-orm';
+import { eq, desc, and, gte, lte, sql, inArray } from 'drizzle-orm';
 import { userActivity, users, type UserActivity, type NewUserActivity } from '@/lib/db/schema';
 import { BaseService } from './base';
 
@@ -15,6 +15,9 @@ export interface ActivityLogEntry {
   timestamp: Date;
 }
 
+// Login failures, lockouts and unlocks, shown together in the audit log settings
+export const SECURITY_ACTIONS = ['login_failed', 'override_failed', 'account_locked', 'device_locked', 'unlock_user', 'unlock_device'];
+
 export class UserActivityService extends BaseService<UserActivity, NewUserActivity> {
   get table() {
     return userActivity;
@@ -39,9 +42,9 @@ export class UserActivityService extends BaseService<UserActivity, NewUserActivi
   }
 
   
-  // Log user activity
+  // Log user activity; security events from unknown usernames or devices have no user
   async logActivity(
-    userId: string,
+    userId: string | null,
     action: string,
     options: {
       targetUserId?: string;
@@ -71,13 +74,14 @@ export class UserActivityService extends BaseService<UserActivity, NewUserActivi
   async getActivityLog(options: {
     userId?: string;
     action?: string;
+    actions?: string[];
     startDate?: Date;
     endDate?: Date;
     limit?: number;
     offset?: number;
   } = {}): Promise<ActivityLogEntry[]> {
     try {
-      const { userId, action, startDate, endDate, limit = 50, offset = 0 } = options;
+      const { userId, action, actions, startDate, endDate, limit = 50, offset = 0 } = options;
       
       // Build conditions
       const conditions = [];
@@ -89,6 +93,10 @@ export class UserActivityService extends BaseService<UserActivity, NewUserActivi
       if (action) {
         conditions.push(eq(userActivity.action, action));
       }
+
+      if (actions?.length) {
+        conditions.push(inArray(userActivity.action, actions));
+      }
       
       if (startDate) {
         conditions.push(gte(userActivity.timestamp, startDate));
@@ -164,6 +172,14 @@ export class UserActivityService extends BaseService<UserActivity, NewUserActivi
     });
   }
   
+  // Get recent login failures, lockouts and unlocks
+  async getSecurityEvents(limit: number = 50): Promise<ActivityLogEntry[]> {
+    return this.getActivityLog({
+      actions: SECURITY_ACTIONS,
+      limit,
+    });
+  }
+  
   // Get recent activity for a user
   async getRecentUserActivity(userId: string, hours: number = 24): Promise<ActivityLogEntry[]> {
     const startDate = new Date(Date.now() - hours * 60 * 60 * 1000);
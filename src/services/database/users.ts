@@ -1,7 +1,10 @@
-import { eq, and, desc, like, or, sql } from 'drizzle-orm';
-import { users, type User, type NewUser } from '@/lib/db/schema';
+import { eq, and, desc, like, or, sql, inArray } from 'drizzle-orm';
+import { users, loginAttempts, type User, type NewUser } from '@/lib/db/schema';
 import { BaseService } from './base';
 import { userActivityService } from './userActivity';
+import { roleService } from './roles';
+import { LoginThrottlePolicy } from '@/services/auth/loginThrottle';
+import { authService } from '@/services/auth/authService';
 import bcrypt from 'bcryptjs';
 
 export class UserService extends BaseService<User, NewUser> {
@@ -68,6 +71,8 @@ export class UserService extends BaseService<User, NewUser> {
       if (existingUser) {
         throw new Error('Username already exists');
       }
+
+      await this.checkRoleExists(rest.role);
       
       // Hash the PIN
       const saltRounds = parseInt(process.env.PIN_HASH_ROUNDS || '12');
@@ -103,10 +108,18 @@ export class UserService extends BaseService<User, NewUser> {
     }
   }
   
+  /**
+   * Check a PIN. A sign-in is logged as a login; with an approval the manager's
+   * approval is logged instead and their last login is left alone.
+   */
   async verifyPin(
     username: string, 
     pin: string,
-    activityOptions?: { ipAddress?: string; userAgent?: string }
+    activityOptions?: {
+      ipAddress?: string;
+      userAgent?: string;
+      approval?: { action: string; details: Record<string, any> };
+    }
   ): Promise<User | null> {
     try {
       const user = await this.findByUsername(username);
@@ -118,6 +131,16 @@ export class UserService extends BaseService<User, NewUser> {
       const isValidPin = await bcrypt.compare(pin, user.pinHash);
       
       if (isValidPin) {
+        const { approval, ...requestInfo } = activityOptions || {};
+
+        if (approval) {
+          await userActivityService.logActivity(user.id, approval.action, {
+            details: approval.details,
+            ...requestInfo,
+          });
+          return user;
+        }
+
         // Update last login time
         await this.updateLastLogin(user.id);
         
@@ -127,7 +150,7 @@ export class UserService extends BaseService<User, NewUser> {
           'login',
           {
             details: { username: user.username },
-            ...activityOptions,
+            ...requestInfo,
           }
         );
         
@@ -141,6 +164,49 @@ export class UserService extends BaseService<User, NewUser> {
     }
   }
   
+  /**
+   * Check a manager's PIN for an approval at the till; only roles with sales.override can approve.
+   * Wrong PINs count towards the username's lockout just as failed logins do.
+   */
+  async authorizeOverride(
+    username: string,
+    pin: string,
+    action: string,
+    details: Record<string, any> = {}
+  ): Promise<User | null> {
+    try {
+      // Claimed before the PIN is checked, so approvals sent at the same moment can't all skip the wait
+      const refused = await authService.reservePinCheck(username);
+      if (refused) {
+        throw new Error(refused.message);
+      }
+
+      const user = await this.findByUsername(username);
+      const permissions = user ? await roleService.getPermissions(user.role) : [];
+      const approver = permissions.includes('sales.override')
+        ? await this.verifyPin(username, pin, { approval: { action, details } })
+        : null;
+
+      if (!approver) {
+        await authService.recordFailedPinCheck(username, user?.id ?? null, 'override_failed', {}, { action });
+        return null;
+      }
+
+      await authService.clearFailedPinChecks(username);
+      return approver;
+    } catch (error) {
+      console.error('Error authorizing override:', error);
+      throw error;
+    }
+  }
+  
+  private async checkRoleExists(role: string): Promise<void> {
+    const existing = await roleService.findById(role);
+    if (!existing) {
+      throw new Error(`Role ${role} does not exist`);
+    }
+  }
+  
   async updateLastLogin(userId: string): Promise<void> {
     try {
       await this.db
@@ -289,6 +355,100 @@ export class UserService extends BaseService<User, NewUser> {
     }
   }
   
+  // Clear a user's failed login attempts, lifting any lockout
+  async unlockUser(
+    userId: string,
+    unlockedByUserId: string,
+    activityOptions?: { ipAddress?: string; userAgent?: string }
+  ): Promise<boolean> {
+    try {
+      const user = await this.findById(userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const result = await this.db
+        .delete(loginAttempts)
+        .where(eq(loginAttempts.id, LoginThrottlePolicy.attemptId('user', user.username)));
+
+      // Log activity
+      await userActivityService.logActivity(
+        unlockedByUserId,
+        'unlock_user',
+        {
+          targetUserId: userId,
+          details: {
+            username: user.username,
+            hadFailedAttempts: result.rowsAffected > 0,
+          },
+          ...activityOptions,
+        }
+      );
+
+      return true;
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      throw error;
+    }
+  }
+
+  // Clear a device's failed login attempts, lifting any lockout
+  async unlockDevice(
+    deviceId: string,
+    unlockedByUserId: string,
+    activityOptions?: { ipAddress?: string; userAgent?: string }
+  ): Promise<boolean> {
+    try {
+      const result = await this.db
+        .delete(loginAttempts)
+        .where(eq(loginAttempts.id, LoginThrottlePolicy.attemptId('device', deviceId)));
+
+      // Log activity
+      await userActivityService.logActivity(
+        unlockedByUserId,
+        'unlock_device',
+        {
+          details: {
+            deviceId,
+            hadFailedAttempts: result.rowsAffected > 0,
+          },
+          ...activityOptions,
+        }
+      );
+
+      return true;
+    } catch (error) {
+      console.error('Error unlocking device:', error);
+      throw error;
+    }
+  }
+
+  // When each of the given usernames is locked out until, for those that are
+  async getLockouts(usernames: string[]): Promise<Map<string, Date>> {
+    try {
+      const lockouts = new Map<string, Date>();
+      if (usernames.length === 0) {
+        return lockouts;
+      }
+
+      const attempts = await this.db
+        .select()
+        .from(loginAttempts)
+        .where(inArray(loginAttempts.id, usernames.map(username => LoginThrottlePolicy.attemptId('user', username))));
+
+      for (const attempt of attempts) {
+        if (LoginThrottlePolicy.isLockedOut(attempt, 'user') && attempt.lockedUntil) {
+          lockouts.set(attempt.key, attempt.lockedUntil);
+        }
+      }
+
+      return lockouts;
+    } catch (error) {
+      console.error('Error finding user lockouts:', error);
+      throw error;
+    }
+  }
+  
   // Update user information
   async updateUser(
     userId: string,
@@ -309,6 +469,10 @@ export class UserService extends BaseService<User, NewUser> {
           throw new Error('Username already exists');
         }
       }
+
+      if (updateData.role && updateData.role !== user.role) {
+        await this.checkRoleExists(updateData.role);
+      }
       
       const result = await this.db
         .update(users)
@@ -0,0 +1,303 @@
+import { getDb, type DbTransaction } from '@/lib/db/connection';
+import {
+  vouchers,
+  voucherRedemptions,
+  customers,
+  type NewVoucherRecord,
+} from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import { randomInt } from 'crypto';
+import { eq, desc, sql } from 'drizzle-orm';
+import type { Voucher, VoucherKind, VoucherLiabilityReport, VoucherStatus } from '@/types/voucher';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// No 0/O or 1/I, so codes read back over the counter without mistakes
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_PREFIX: Record<VoucherKind, string> = { gift: 'GV', credit: 'SC' };
+
+// Voucher id spelled out, since drizzle leaves columns unqualified in single-table selects
+const voucherId = sql`${vouchers}.id`;
+
+const redeemedOn = sql<number>`COALESCE((
+  SELECT SUM(${voucherRedemptions.amount}) FROM ${voucherRedemptions}
+  WHERE ${voucherRedemptions.voucherId} = ${voucherId}
+), 0)`;
+
+const voucherFields = {
+  id: vouchers.id,
+  code: vouchers.code,
+  kind: vouchers.kind,
+  amount: vouchers.amount,
+  redeemed: redeemedOn,
+  customerId: vouchers.customerId,
+  customerName: customers.name,
+  returnId: vouchers.returnId,
+  expiresAt: vouchers.expiresAt,
+  status: vouchers.status,
+  note: vouchers.note,
+  createdAt: vouchers.createdAt,
+};
+
+interface VoucherRow {
+  id: string;
+  code: string;
+  kind: string;
+  amount: number;
+  redeemed: number;
+  customerId: string | null;
+  customerName: string | null;
+  returnId: string | null;
+  expiresAt: Date | null;
+  status: string;
+  note: string | null;
+  createdAt: Date | null;
+}
+
+export interface IssueVoucherData {
+  kind: VoucherKind;
+  amount: number;
+  customerId?: string | null;
+  returnId?: string | null;
+  expiresAt?: Date | null;
+  note?: string | null;
+  // How a gift voucher was paid for, and the shift whose drawer took the money
+  shiftId?: string | null;
+  paymentMethod?: 'cash' | 'upi' | null;
+  paymentReference?: string | null;
+  userId: string;
+}
+
+export function isVoucherExpired(voucher: Pick<Voucher, 'expiresAt'>, asOf: Date = new Date()): boolean {
+  return !!voucher.expiresAt && new Date(voucher.expiresAt).getTime() < asOf.getTime();
+}
+
+export class VoucherService {
+  private db = getDb();
+
+  // Allow overriding the database connection for testing
+  public setDb(database: any) {
+    this.db = database;
+  }
+
+  private toVoucher(row: VoucherRow): Voucher {
+    return {
+      id: row.id,
+      code: row.code,
+      kind: row.kind as VoucherKind,
+      amount: row.amount,
+      balance: roundCurrency(row.amount - Number(row.redeemed || 0)),
+      customerId: row.customerId,
+      customerName: row.customerName,
+      returnId: row.returnId,
+      expiresAt: row.expiresAt,
+      status: row.status as VoucherStatus,
+      note: row.note,
+      createdAt: row.createdAt,
+    };
+  }
+
+  /**
+   * A new voucher code such as GV-7KQ2-M9XD
+   */
+  static generateCode(kind: VoucherKind): string {
+    const part = () => Array.from({ length: 4 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+    return `${CODE_PREFIX[kind]}-${part()}-${part()}`;
+  }
+
+  /**
+   * Issue a voucher; returns that give store credit issue theirs inside the return's own transaction
+   */
+  async issue(data: IssueVoucherData, tx?: DbTransaction): Promise<string> {
+    const db = tx || this.db;
+
+    // Codes are random, so a clash is rare; try again rather than fail the sale or return
+    let code = VoucherService.generateCode(data.kind);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const [existing] = await db
+        .select({ id: vouchers.id })
+        .from(vouchers)
+        .where(eq(vouchers.code, code))
+        .limit(1);
+      if (!existing) break;
+      code = VoucherService.generateCode(data.kind);
+    }
+
+    const voucherData: NewVoucherRecord = {
+      id: uuidv4(),
+      code,
+      kind: data.kind,
+      amount: roundCurrency(data.amount),
+      customerId: data.customerId || null,
+      returnId: data.returnId || null,
+      expiresAt: data.expiresAt || null,
+      status: 'active',
+      note: data.note || null,
+      shiftId: data.shiftId || null,
+      paymentMethod: data.paymentMethod || null,
+      paymentReference: data.paymentReference || null,
+      userId: data.userId,
+      createdAt: new Date(),
+    };
+
+    await db.insert(vouchers).values(voucherData);
+    return code;
+  }
+
+  /**
+   * Find a voucher by its code, with what is left on it
+   */
+  async findByCode(code: string): Promise<Voucher | null> {
+    try {
+      const [row] = await this.db
+        .select(voucherFields)
+        .from(vouchers)
+        .leftJoin(customers, eq(vouchers.customerId, customers.id))
+        .where(eq(vouchers.code, code.trim().toUpperCase()))
+        .limit(1);
+
+      return row ? this.toVoucher(row) : null;
+    } catch (error) {
+      console.error('Error finding voucher:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Vouchers issued, newest first
+   */
+  async list(limit: number = 500): Promise<Voucher[]> {
+    try {
+      const rows: VoucherRow[] = await this.db
+        .select(voucherFields)
+        .from(vouchers)
+        .leftJoin(customers, eq(vouchers.customerId, customers.id))
+        .orderBy(desc(vouchers.createdAt))
+        .limit(limit);
+
+      return rows.map(row => this.toVoucher(row));
+    } catch (error) {
+      console.error('Error listing vouchers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a voucher, e.g. one reported lost; whatever was left on it can no longer be spent
+   */
+  async cancel(code: string): Promise<Voucher | null> {
+    try {
+      const voucher = await this.findByCode(code);
+      if (!voucher) {
+        return null;
+      }
+      if (voucher.status === 'cancelled') {
+        throw new Error(`Voucher ${voucher.code} is already cancelled`);
+      }
+
+      await this.db
+        .update(vouchers)
+        .set({ status: 'cancelled' })
+        .where(eq(vouchers.id, voucher.id));
+
+      return await this.findByCode(voucher.code);
+    } catch (error) {
+      console.error('Error cancelling voucher:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Spend part or all of a voucher on a sale, inside the sale's own transaction
+   */
+  async redeem(
+    tx: DbTransaction,
+    redemption: { code: string; amount: number; transactionId: string; createdAt: Date }
+  ): Promise<void> {
+    const code = redemption.code.trim().toUpperCase();
+    const [row] = await tx
+      .select(voucherFields)
+      .from(vouchers)
+      .leftJoin(customers, eq(vouchers.customerId, customers.id))
+      .where(eq(vouchers.code, code))
+      .limit(1);
+
+    if (!row) {
+      throw new Error(`Voucher ${code} not found`);
+    }
+
+    const voucher = this.toVoucher(row);
+    if (voucher.status === 'cancelled') {
+      throw new Error(`Voucher ${code} has been cancelled`);
+    }
+    if (isVoucherExpired(voucher, redemption.createdAt)) {
+      throw new Error(`Voucher ${code} has expired`);
+    }
+    if (roundCurrency(redemption.amount) > voucher.balance) {
+      throw new Error(`Voucher ${code} has only ₹${voucher.balance.toFixed(2)} left`);
+    }
+
+    await tx.insert(voucherRedemptions).values({
+      id: uuidv4(),
+      voucherId: voucher.id,
+      transactionId: redemption.transactionId,
+      amount: roundCurrency(redemption.amount),
+      createdAt: redemption.createdAt,
+    });
+  }
+
+  /**
+   * Put what a voided sale spent back on its vouchers, inside the void's transaction
+   */
+  async releaseRedemptions(tx: DbTransaction, transactionId: string): Promise<void> {
+    await tx.delete(voucherRedemptions).where(eq(voucherRedemptions.transactionId, transactionId));
+  }
+
+  /**
+   * What the shop still owes on the vouchers it has issued, by kind
+   */
+  async getLiabilityReport(asOf: Date = new Date()): Promise<VoucherLiabilityReport> {
+    try {
+      const rows: VoucherRow[] = await this.db
+        .select(voucherFields)
+        .from(vouchers)
+        .leftJoin(customers, eq(vouchers.customerId, customers.id))
+        .where(eq(vouchers.status, 'active'))
+        .orderBy(vouchers.expiresAt);
+
+      const active = rows.map(row => this.toVoucher(row));
+      const outstanding = active.filter(voucher => voucher.balance > 0 && !isVoucherExpired(voucher, asOf));
+      const soon = new Date(asOf.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+      return {
+        asOf,
+        rows: (['gift', 'credit'] as VoucherKind[]).map(kind => {
+          const ofKind = active.filter(voucher => voucher.kind === kind);
+          const issued = roundCurrency(ofKind.reduce((sum, voucher) => sum + voucher.amount, 0));
+          const unspent = roundCurrency(ofKind.reduce((sum, voucher) => sum + voucher.balance, 0));
+          const owed = outstanding.filter(voucher => voucher.kind === kind);
+          return {
+            kind,
+            count: owed.length,
+            issued,
+            redeemed: roundCurrency(issued - unspent),
+            outstanding: roundCurrency(owed.reduce((sum, voucher) => sum + voucher.balance, 0)),
+          };
+        }),
+        outstanding: roundCurrency(outstanding.reduce((sum, voucher) => sum + voucher.balance, 0)),
+        expired: roundCurrency(active
+          .filter(voucher => isVoucherExpired(voucher, asOf))
+          .reduce((sum, voucher) => sum + voucher.balance, 0)),
+        expiringSoon: roundCurrency(outstanding
+          .filter(voucher => voucher.expiresAt && new Date(voucher.expiresAt) <= soon)
+          .reduce((sum, voucher) => sum + voucher.balance, 0)),
+        vouchers: outstanding,
+      };
+    } catch (error) {
+      console.error('Error getting voucher liability report:', error);
+      throw error;
+    }
+  }
+}
+
+export const voucherService = new VoucherService();
@@ -0,0 +1,94 @@
+import { getMemberItemPrice, type CartItem } from '@/stores/cartStore';
+import type { PricingResult } from '@/types/promotion';
+import type { Customer } from '@/types/customer';
+import type { MembershipTier } from '@/types/loyalty';
+import type { CustomerDisplayCart, CustomerDisplayMessage } from '@/types/customerDisplay';
+
+const CHANNEL_NAME = 'baikuntha-customer-display';
+
+// The parts of the cart store the customer display mirrors
+export interface CartSnapshotSource {
+  items: CartItem[];
+  pricing?: PricingResult;
+  subtotal: number;
+  discount: number;
+  saleDiscount?: number;
+  addedTax: number;
+  donationTotal: number;
+  total: number;
+  customer: Customer | null;
+  tier?: MembershipTier | null;
+}
+
+/**
+ * Carries the sale from the till to the customer display in another window on the same machine.
+ * BroadcastChannel needs no server, so the display keeps working offline.
+ */
+export class CustomerDisplayChannel {
+  private channel: BroadcastChannel | null = null;
+
+  private getChannel(): BroadcastChannel | null {
+    if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+      return null;
+    }
+    if (!this.channel) {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+    }
+    return this.channel;
+  }
+
+  /**
+   * The cart as the customer sees it, at the prices the till charges
+   */
+  static snapshot(cart: CartSnapshotSource): CustomerDisplayCart {
+    return {
+      lines: cart.items.map((item, index) => {
+        const priced = cart.pricing?.lines[index];
+        const unitPrice = getMemberItemPrice(item, cart.tier || null);
+
+        return {
+          key: `${item.productId}-${item.variantId || 'base'}`,
+          name: item.product.name,
+          detail: item.isCustomVariant
+            ? item.customVariantData?.customDescription || null
+            : item.variant?.name || null,
+          quantity: item.quantity,
+          unitPrice,
+          lineTotal: priced?.lineTotal ?? unitPrice * item.quantity,
+          discount: priced?.discount ?? 0,
+        };
+      }),
+      subtotal: cart.subtotal,
+      // The customer sees promotions and the cashier's discount as one saving
+      discount: cart.discount + (cart.saleDiscount || 0),
+      addedTax: cart.addedTax || 0,
+      donationTotal: cart.donationTotal || 0,
+      total: cart.total,
+      customerName: cart.customer?.name || null,
+    };
+  }
+
+  post(message: CustomerDisplayMessage): void {
+    try {
+      this.getChannel()?.postMessage(message);
+    } catch (error) {
+      console.error('Failed to update customer display:', error);
+    }
+  }
+
+  /**
+   * Listen for messages; returns a function that stops listening
+   */
+  subscribe(listener: (message: CustomerDisplayMessage) => void): () => void {
+    const channel = this.getChannel();
+    if (!channel) {
+      return () => {};
+    }
+
+    const handler = (event: MessageEvent<CustomerDisplayMessage>) => listener(event.data);
+    channel.addEventListener('message', handler);
+    return () => channel.removeEventListener('message', handler);
+  }
+}
+
+export const customerDisplayChannel = new CustomerDisplayChannel();
@@ -0,0 +1,51 @@
+import type { MembershipTier } from '@/types/loyalty';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface MemberPricingLine {
+  productId: string;
+  variantId?: string | null;
+  unitPrice: number;
+  isCustomVariant?: boolean;
+}
+
+/**
+ * Member prices and points. Shared by the cart store (live pricing) and the
+ * transaction service (authoritative pricing), so both always agree.
+ */
+export class MemberPricing {
+  /**
+   * Unit price a member of the tier pays: the variant's price list entry, then the product's,
+   * then the tier's percentage off the regular price
+   */
+  static priceFor(tier: MembershipTier | null | undefined, line: MemberPricingLine): number {
+    // Custom prices were agreed at the counter and are left alone
+    if (!tier || !tier.isActive || line.isCustomVariant) {
+      return line.unitPrice;
+    }
+
+    const listed = tier.prices.find(price => price.productId === line.productId && price.variantId === (line.variantId || null))
+      || tier.prices.find(price => price.productId === line.productId && price.variantId === null);
+    if (listed) {
+      // A price list never charges a member more than everyone else
+      return Math.min(listed.price, line.unitPrice);
+    }
+
+    if (tier.discountPercent > 0) {
+      return roundCurrency(line.unitPrice * (1 - tier.discountPercent / 100));
+    }
+
+    return line.unitPrice;
+  }
+
+  /**
+   * Whole points earned on an amount paid
+   */
+  static pointsEarned(tier: MembershipTier | null | undefined, amount: number): number {
+    if (!tier || !tier.isActive || tier.pointsPerRupee <= 0 || amount <= 0) {
+      return 0;
+    }
+    // Nudged so 0.01 points per rupee on ₹300 earns 3 despite floating point
+    return Math.floor(amount * tier.pointsPerRupee + 1e-9);
+  }
+}
@@ -0,0 +1,132 @@
+import { ThermalPrinter } from './thermalPrinter';
+import { BarcodeEncoder } from '@/services/barcode/barcodeEncoder';
+import type { LabelItem, LabelOptions, LabelSheetLayout } from '@/types/label';
+
+const ESC = 0x1b;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Lays out shelf and sticker labels, either as ESC/POS for a thermal printer
+ * or as an A4 sticker sheet for an ordinary printer.
+ */
+export class LabelGenerator {
+  /**
+   * One entry per physical label, in print order
+   */
+  static expand(items: LabelItem[]): LabelItem[] {
+    return items.flatMap(item => Array.from({ length: Math.max(0, item.copies) }, () => item));
+  }
+
+  static labelTitle(item: LabelItem): string {
+    return item.variantName ? `${item.productName} - ${item.variantName}` : item.productName;
+  }
+
+  /**
+   * ESC/POS bytes for a run of labels on a thermal printer, one after another
+   */
+  static generateThermalLabels(items: LabelItem[], options: LabelOptions, width: number = 32): Uint8Array {
+    const encoder = new TextEncoder();
+    const chunks: number[] = [];
+    const push = (...bytes: number[]) => chunks.push(...bytes);
+    const text = (value: string) => push(...Array.from(encoder.encode(value)));
+
+    this.expand(items).forEach(item => {
+      push(ESC, 0x40); // Initialize
+      push(ESC, 0x61, 1); // Centre
+
+      if (options.showName) {
+        const title = this.labelTitle(item);
+        text(`${title.length > width ? title.slice(0, width - 1) + '…' : title}\n`);
+      }
+
+      if (options.showPrice) {
+        push(ESC, 0x45, 1); // Bold
+        text(`Rs. ${item.price.toFixed(2)}\n`);
+        push(ESC, 0x45, 0);
+      }
+
+      if (item.barcode) {
+        const code = options.symbology === 'qr'
+          ? ThermalPrinter.qrCodeCommand(item.barcode, 5)
+          : ThermalPrinter.barcodeCommand(item.barcode, BarcodeEncoder.formatFor(item.barcode), 60);
+        push(...Array.from(code));
+        if (options.symbology === 'qr') {
+          text(`${item.barcode}\n`);
+        }
+      }
+
+      push(ESC, 0x64, 3); // Feed to the next label
+    });
+
+    return new Uint8Array(chunks);
+  }
+
+  /**
+   * Printable HTML for A4 sticker sheets; labels fill each sheet left to right, top to bottom
+   */
+  static generateSheetHTML(items: LabelItem[], layout: LabelSheetLayout, options: LabelOptions): string {
+    const labels = this.expand(items);
+    const perSheet = layout.columns * layout.rows;
+    const sheets: LabelItem[][] = [];
+    for (let i = 0; i < labels.length; i += perSheet) {
+      sheets.push(labels.slice(i, i + perSheet));
+    }
+
+    const renderLabel = (item: LabelItem) => {
+      const parts: string[] = [];
+      if (options.showName) {
+        parts.push(`<div class="name">${escapeHtml(this.labelTitle(item))}</div>`);
+      }
+      if (options.showPrice) {
+        parts.push(`<div class="price">₹${item.price.toFixed(2)}</div>`);
+      }
+      if (item.barcode) {
+        // QR is drawn by the thermal printer itself; sheets always carry the linear code
+        parts.push(`<div class="code">${BarcodeEncoder.toSVG(item.barcode)}</div>`);
+      }
+      return `<div class="label">${parts.join('')}</div>`;
+    };
+
+    const pages = sheets.map(sheet => `<div class="sheet">${sheet.map(renderLabel).join('')}</div>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Labels</title>
+  <style>
+    @page { size: A4; margin: 0; }
+    * { box-sizing: border-box; }
+    body { margin: 0; font-family: Arial, sans-serif; }
+    .sheet {
+      width: 210mm;
+      height: 297mm;
+      padding: ${layout.marginTop}mm 0 0 ${layout.marginLeft}mm;
+      display: grid;
+      grid-template-columns: repeat(${layout.columns}, ${layout.labelWidth}mm);
+      grid-auto-rows: ${layout.labelHeight}mm;
+      column-gap: ${layout.gapX}mm;
+      row-gap: ${layout.gapY}mm;
+      page-break-after: always;
+      overflow: hidden;
+    }
+    .label {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      padding: 1mm 2mm;
+      overflow: hidden;
+      text-align: center;
+    }
+    .name { font-size: 8pt; line-height: 1.1; max-height: 2.2em; overflow: hidden; }
+    .price { font-size: 10pt; font-weight: bold; margin: 0.5mm 0; }
+    .code { width: 100%; flex: 1; min-height: 0; }
+  </style>
+</head>
+<body>${pages}</body>
+</html>`;
+  }
+}
@@ -1,4 +1,10 @@
-import type { ReceiptData, ReceiptTemplate } from '@/types/receipt';
+import type { DonationReceiptData, DonationRegistration, ReceiptData, ReceiptTemplate } from '@/types/receipt';
+import { CASH_DENOMINATIONS, type ShiftReport } from '@/types/shift';
+import { VOUCHER_KIND_LABELS, type Voucher } from '@/types/voucher';
+import type { UpiPaymentRequest } from '@/types/upi';
+import { UpiIntent } from '@/services/upi/upiIntent';
+import { ThermalPrinter } from './thermalPrinter';
+import { BarcodeEncoder } from '@/services/barcode/barcodeEncoder';
 
 export class ReceiptGenerator {
   /**
@@ -10,10 +16,14 @@ export class ReceiptGenerator {
   ): string {
     const width = 32; // Standard thermal printer width
     const lines: string[] = [];
+    const isReturn = receiptData.receiptType === 'return';
 
     // Header
     lines.push(this.centerText(receiptData.storeName, width));
     lines.push(this.centerText('='.repeat(width), width));
+    if (isReturn) {
+      lines.push(this.centerText('*** RETURN / REFUND ***', width));
+    }
     lines.push('');
 
     // Store info
@@ -28,28 +38,54 @@ export class ReceiptGenerator {
 
     // Receipt info
     lines.push(`Receipt: ${receiptData.receiptNumber}`);
+    if (receiptData.originalReceiptNumber) {
+      lines.push(`Original: ${receiptData.originalReceiptNumber}`);
+    }
     lines.push(`Date: ${receiptData.timestamp.toLocaleString()}`);
     lines.push(`Cashier: ${receiptData.cashier.username}`);
+    if (receiptData.customer) {
+      lines.push(this.wrapText(`Customer: ${receiptData.customer.name}`, width));
+    }
+    if (receiptData.returnReason) {
+      lines.push(this.wrapText(`Reason: ${receiptData.returnReason}`, width));
+    }
     lines.push('-'.repeat(width));
 
     // Items
-    lines.push('ITEMS:');
+    lines.push(isReturn ? 'RETURNED ITEMS:' : 'ITEMS:');
     receiptData.items.forEach(item => {
       const itemName = item.variant 
         ? `${item.name} - ${item.variant}`
         : item.name;
       
       lines.push(this.wrapText(itemName, width));
+      if (item.hsnCode) {
+        lines.push(`  HSN: ${item.hsnCode}`);
+      }
       
       const qtyPrice = `${item.quantity} x ₹${item.unitPrice.toFixed(2)}`;
       const total = `₹${item.totalPrice.toFixed(2)}`;
       const spacesNeeded = width - qtyPrice.length - total.length;
       
       lines.push(`${qtyPrice}${' '.repeat(Math.max(1, spacesNeeded))}${total}`);
+
+      item.promotions?.forEach(promotion => {
+        lines.push(this.formatLine(`  ${promotion.name}`, `-₹${promotion.amount.toFixed(2)}`, width));
+      });
     });
 
     lines.push('-'.repeat(width));
 
+    // Donations, tax-exempt and receipted separately under 80G
+    if (receiptData.donations && receiptData.donations.length > 0) {
+      lines.push('DONATIONS:');
+      receiptData.donations.forEach(donation => {
+        lines.push(this.formatLine(donation.purpose, `₹${donation.amount.toFixed(2)}`, width));
+        lines.push(`  80G receipt ${donation.receiptNumber}`);
+      });
+      lines.push('-'.repeat(width));
+    }
+
     // Totals
     lines.push(this.formatLine('Subtotal:', `₹${receiptData.subtotal.toFixed(2)}`, width));
     
@@ -60,16 +96,52 @@ export class ReceiptGenerator {
     if (receiptData.discount > 0) {
       lines.push(this.formatLine('Discount:', `-₹${receiptData.discount.toFixed(2)}`, width));
     }
+
+    const donationTotal = (receiptData.donations || []).reduce((sum, donation) => sum + donation.amount, 0);
+    if (donationTotal > 0) {
+      lines.push(this.formatLine('Donations:', `₹${donationTotal.toFixed(2)}`, width));
+    }
     
     lines.push('='.repeat(width));
-    lines.push(this.formatLine('TOTAL:', `₹${receiptData.total.toFixed(2)}`, width));
+    lines.push(this.formatLine(isReturn ? 'REFUND:' : 'TOTAL:', `₹${receiptData.total.toFixed(2)}`, width));
     lines.push('='.repeat(width));
 
+    // GST breakup
+    const taxRows = (receiptData.taxBreakup || []).filter(row => row.totalTax > 0);
+    if (taxRows.length > 0) {
+      const isInterState = taxRows.some(row => row.igst > 0);
+      lines.push('');
+      lines.push('TAX BREAKUP:');
+      lines.push(this.formatColumns(
+        isInterState ? ['GST%', 'Taxable', 'IGST'] : ['GST%', 'Taxable', 'CGST', 'SGST'],
+        width
+      ));
+      taxRows.forEach(row => {
+        const amounts = isInterState ? [row.igst] : [row.cgst, row.sgst];
+        lines.push(this.formatColumns(
+          [`${row.rate}%`, row.taxableValue.toFixed(2), ...amounts.map(amount => amount.toFixed(2))],
+          width
+        ));
+      });
+      const totalGst = taxRows.reduce((sum, row) => sum + row.totalTax, 0);
+      lines.push(this.formatLine('Total GST:', `₹${totalGst.toFixed(2)}`, width));
+      if (receiptData.pricesIncludeTax) {
+        lines.push('Prices include GST');
+      }
+    }
+
     // Payment info
     lines.push('');
-    lines.push(`Payment: ${receiptData.paymentMethod.toUpperCase()}`);
+    lines.push(`${isReturn ? 'Refunded via' : 'Payment'}: ${receiptData.paymentMethod.toUpperCase()}`);
     
-    if (receiptData.paymentReference) {
+    if (receiptData.payments && receiptData.payments.length > 1) {
+      receiptData.payments.forEach(payment => {
+        lines.push(this.formatLine(`  ${payment.method.toUpperCase()}:`, `₹${payment.amount.toFixed(2)}`, width));
+        if (payment.reference) {
+          lines.push(`    Ref: ${payment.reference}`);
+        }
+      });
+    } else if (receiptData.paymentReference) {
       lines.push(`Ref: ${receiptData.paymentReference}`);
     }
     
@@ -81,6 +153,19 @@ export class ReceiptGenerator {
       lines.push(this.formatLine('Change:', `₹${receiptData.changeGiven.toFixed(2)}`, width));
     }
 
+    // Loyalty points
+    if (receiptData.loyalty) {
+      lines.push('');
+      lines.push(receiptData.loyalty.tierName ? `${receiptData.loyalty.tierName} member` : 'Loyalty points');
+      if (receiptData.loyalty.redeemed > 0) {
+        lines.push(this.formatLine('Points Redeemed:', `${receiptData.loyalty.redeemed}`, width));
+      }
+      if (receiptData.loyalty.earned > 0) {
+        lines.push(this.formatLine('Points Earned:', `${receiptData.loyalty.earned}`, width));
+      }
+      lines.push(this.formatLine('Points Balance:', `${receiptData.loyalty.balance}`, width));
+    }
+
     // Footer
     lines.push('');
     lines.push(this.centerText(receiptData.footer, width));
@@ -93,6 +178,8 @@ export class ReceiptGenerator {
    * Generate HTML receipt for PDF/web display
    */
   static generateHTMLReceipt(receiptData: ReceiptData): string {
+    const isReturn = receiptData.receiptType === 'return';
+
     return `
 <!DOCTYPE html>
 <html>
@@ -175,6 +262,7 @@ export class ReceiptGenerator {
 <body>
     <div class="header">
         <div class="store-name">${receiptData.storeName}</div>
+        ${isReturn ? '<div style="font-weight: bold;">*** RETURN / REFUND ***</div>' : ''}
         <div class="store-info">
             ${receiptData.storeAddress}<br>
             ${receiptData.storePhone ? `Phone: ${receiptData.storePhone}<br>` : ''}
@@ -184,24 +272,49 @@ export class ReceiptGenerator {
 
     <div class="receipt-info">
         <div>Receipt: ${receiptData.receiptNumber}</div>
+        ${receiptData.originalReceiptNumber ? `<div>Original: ${receiptData.originalReceiptNumber}</div>` : ''}
         <div>Date: ${receiptData.timestamp.toLocaleString()}</div>
         <div>Cashier: ${receiptData.cashier.username}</div>
+        ${receiptData.customer ? `<div>Customer: ${receiptData.customer.name}</div>` : ''}
+        ${receiptData.returnReason ? `<div>Reason: ${receiptData.returnReason}</div>` : ''}
     </div>
 
     <div class="items">
-        <div style="font-weight: bold; margin-bottom: 10px;">ITEMS:</div>
+        <div style="font-weight: bold; margin-bottom: 10px;">${isReturn ? 'RETURNED ITEMS:' : 'ITEMS:'}</div>
         ${receiptData.items.map(item => `
             <div class="item">
                 <div class="item-name">
                     ${item.name}${item.variant ? ` - ${item.variant}` : ''}
+                    ${item.hsnCode ? `<div style="font-size: 10px;">HSN: ${item.hsnCode}</div>` : ''}
                 </div>
                 <div class="item-details">
                     <span>${item.quantity} x ₹${item.unitPrice.toFixed(2)}</span>
                     <span>₹${item.totalPrice.toFixed(2)}</span>
                 </div>
+                ${(item.promotions || []).map(promotion => `
+                    <div class="item-details">
+                        <span>${promotion.name}</span>
+                        <span>-₹${promotion.amount.toFixed(2)}</span>
+                    </div>
+                `).join('')}
+            </div>
+        `).join('')}
+    </div>
+
+    ${receiptData.donations && receiptData.donations.length > 0 ? `
+    <div class="items">
+        <div style="font-weight: bold; margin-bottom: 10px;">DONATIONS:</div>
+        ${receiptData.donations.map(donation => `
+            <div class="item">
+                <div class="item-details">
+                    <span>${donation.purpose}</span>
+                    <span>₹${donation.amount.toFixed(2)}</span>
+                </div>
+                <div style="font-size: 10px;">80G receipt ${donation.receiptNumber}</div>
             </div>
         `).join('')}
     </div>
+    ` : ''}
 
     <div class="totals">
         <div class="total-line">
@@ -220,15 +333,43 @@ export class ReceiptGenerator {
                 <span>-₹${receiptData.discount.toFixed(2)}</span>
             </div>
         ` : ''}
+        ${receiptData.donations && receiptData.donations.length > 0 ? `
+            <div class="total-line">
+                <span>Donations:</span>
+                <span>₹${receiptData.donations.reduce((sum, donation) => sum + donation.amount, 0).toFixed(2)}</span>
+            </div>
+        ` : ''}
         <div class="total-line grand-total">
-            <span>TOTAL:</span>
+            <span>${isReturn ? 'REFUND:' : 'TOTAL:'}</span>
             <span>₹${receiptData.total.toFixed(2)}</span>
         </div>
     </div>
 
+    ${(receiptData.taxBreakup || []).some(row => row.totalTax > 0) ? `
+    <div class="totals">
+        <div style="font-weight: bold; margin-bottom: 5px;">TAX BREAKUP:</div>
+        ${(receiptData.taxBreakup || []).filter(row => row.totalTax > 0).map(row => `
+            <div class="total-line">
+                <span>GST ${row.rate}% on ₹${row.taxableValue.toFixed(2)}</span>
+                <span>${row.igst > 0
+                  ? `IGST ₹${row.igst.toFixed(2)}`
+                  : `CGST ₹${row.cgst.toFixed(2)} SGST ₹${row.sgst.toFixed(2)}`}</span>
+            </div>
+        `).join('')}
+        ${receiptData.pricesIncludeTax ? '<div>Prices include GST</div>' : ''}
+    </div>
+    ` : ''}
+
     <div class="payment-info">
-        <div>Payment: ${receiptData.paymentMethod.toUpperCase()}</div>
-        ${receiptData.paymentReference ? `<div>Ref: ${receiptData.paymentReference}</div>` : ''}
+        <div>${isReturn ? 'Refunded via' : 'Payment'}: ${receiptData.paymentMethod.toUpperCase()}</div>
+        ${receiptData.payments && receiptData.payments.length > 1
+          ? receiptData.payments.map(payment => `
+            <div class="total-line">
+                <span>${payment.method.toUpperCase()}${payment.reference ? ` (Ref: ${payment.reference})` : ''}:</span>
+                <span>₹${payment.amount.toFixed(2)}</span>
+            </div>
+          `).join('')
+          : receiptData.paymentReference ? `<div>Ref: ${receiptData.paymentReference}</div>` : ''}
         ${receiptData.cashReceived ? `
             <div class="total-line">
                 <span>Cash Received:</span>
@@ -243,6 +384,28 @@ export class ReceiptGenerator {
         ` : ''}
     </div>
 
+    ${receiptData.loyalty ? `
+    <div class="payment-info">
+        <div>${receiptData.loyalty.tierName ? `${receiptData.loyalty.tierName} member` : 'Loyalty points'}</div>
+        ${receiptData.loyalty.redeemed > 0 ? `
+            <div class="total-line">
+                <span>Points Redeemed:</span>
+                <span>${receiptData.loyalty.redeemed}</span>
+            </div>
+        ` : ''}
+        ${receiptData.loyalty.earned > 0 ? `
+            <div class="total-line">
+                <span>Points Earned:</span>
+                <span>${receiptData.loyalty.earned}</span>
+            </div>
+        ` : ''}
+        <div class="total-line">
+            <span>Points Balance:</span>
+            <span>${receiptData.loyalty.balance}</span>
+        </div>
+    </div>
+    ` : ''}
+
     <div class="footer">
         ${receiptData.footer}
     </div>
@@ -250,6 +413,388 @@ export class ReceiptGenerator {
 </html>`;
   }
 
+  /**
+   * Text of a voucher slip, down to where its QR code is printed
+   */
+  static generateVoucherSlip(voucher: Voucher, storeName: string, width: number = 32): string {
+    const lines: string[] = [];
+
+    lines.push(this.centerText(storeName, width));
+    lines.push(this.centerText('='.repeat(width), width));
+    lines.push(this.centerText(VOUCHER_KIND_LABELS[voucher.kind].toUpperCase(), width));
+    lines.push('');
+    if (voucher.customerName) {
+      lines.push(this.wrapText(`For: ${voucher.customerName}`, width));
+    }
+    lines.push(`Issued: ${new Date(voucher.createdAt || new Date()).toLocaleDateString()}`);
+    lines.push(voucher.expiresAt
+      ? `Valid until: ${new Date(voucher.expiresAt).toLocaleDateString()}`
+      : 'No expiry date');
+    lines.push('='.repeat(width));
+    lines.push(this.formatLine('VALUE:', `₹${voucher.amount.toFixed(2)}`, width));
+    if (voucher.balance !== voucher.amount) {
+      lines.push(this.formatLine('Balance:', `₹${voucher.balance.toFixed(2)}`, width));
+    }
+    lines.push('='.repeat(width));
+    lines.push(this.wrapText('Present this slip at the counter. Can be spent over more than one visit; not exchangeable for cash.', width));
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * ESC/POS bytes for a voucher slip, with its code as a QR code the till can scan
+   */
+  static generateThermalVoucher(voucher: Voucher, storeName: string, width: number = 32): Uint8Array {
+    const encoder = new TextEncoder();
+    return new Uint8Array([
+      ...Array.from(encoder.encode(this.generateVoucherSlip(voucher, storeName, width) + '\n')),
+      ...Array.from(ThermalPrinter.qrCodeCommand(voucher.code, 6)),
+      ...Array.from(encoder.encode(`${this.centerText(voucher.code, width)}\n\n`)),
+    ]);
+  }
+
+  /**
+   * HTML voucher slip for printing without a thermal printer
+   */
+  static generateHTMLVoucher(voucher: Voucher, storeName: string): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>${VOUCHER_KIND_LABELS[voucher.kind]} ${voucher.code}</title>
+    <style>
+        body {
+            font-family: 'Courier New', monospace;
+            max-width: 300px;
+            margin: 0 auto;
+            padding: 20px;
+            font-size: 12px;
+            line-height: 1.4;
+            text-align: center;
+        }
+        .store-name {
+            font-size: 16px;
+            font-weight: bold;
+            margin-bottom: 5px;
+        }
+        .value {
+            font-size: 20px;
+            font-weight: bold;
+            border-top: 1px solid #000;
+            border-bottom: 1px solid #000;
+            padding: 5px 0;
+            margin: 10px 0;
+        }
+        .code {
+            margin: 10px 0;
+        }
+        @media print {
+            body { margin: 0; padding: 10px; }
+        }
+    </style>
+</head>
+<body>
+    <div class="store-name">${storeName}</div>
+    <div style="font-weight: bold;">${VOUCHER_KIND_LABELS[voucher.kind].toUpperCase()}</div>
+    ${voucher.customerName ? `<div>For: ${voucher.customerName}</div>` : ''}
+    <div>Issued: ${new Date(voucher.createdAt || new Date()).toLocaleDateString()}</div>
+    <div>${voucher.expiresAt ? `Valid until: ${new Date(voucher.expiresAt).toLocaleDateString()}` : 'No expiry date'}</div>
+    <div class="value">₹${voucher.amount.toFixed(2)}</div>
+    ${voucher.balance !== voucher.amount ? `<div>Balance: ₹${voucher.balance.toFixed(2)}</div>` : ''}
+    <div class="code">${BarcodeEncoder.toSVG(voucher.code)}</div>
+    <div style="font-size: 10px;">Present this slip at the counter. Can be spent over more than one visit; not exchangeable for cash.</div>
+</body>
+</html>`;
+  }
+
+  /**
+   * ESC/POS bytes for a UPI payment QR with the amount filled in, for customers who'd rather scan it from paper
+   */
+  static generateThermalUpiQr(request: UpiPaymentRequest, width: number = 32): Uint8Array {
+    const encoder = new TextEncoder();
+    const header = [
+      this.centerText(request.payeeName, width),
+      this.centerText('SCAN TO PAY BY UPI', width),
+      '='.repeat(width),
+      this.formatLine('Amount:', `₹${request.amount.toFixed(2)}`, width),
+      '',
+    ].join('\n');
+    const footer = [
+      '',
+      this.centerText(request.vpa, width),
+      this.centerText(`Ref ${request.reference}`, width),
+      '',
+      '',
+    ].join('\n');
+
+    return new Uint8Array([
+      ...Array.from(encoder.encode(header + '\n')),
+      ...Array.from(ThermalPrinter.qrCodeCommand(UpiIntent.buildUri(request), 6)),
+      ...Array.from(encoder.encode(footer)),
+    ]);
+  }
+
+  /**
+   * Generate a thermal 80G donation receipt
+   */
+  static generateDonationReceipt(
+    donation: DonationReceiptData,
+    registration: DonationRegistration,
+    width: number = 32
+  ): string {
+    const lines: string[] = [];
+
+    // Header
+    lines.push(this.centerText(donation.storeName, width));
+    lines.push(this.centerText('='.repeat(width), width));
+    lines.push(this.centerText('DONATION RECEIPT', width));
+    lines.push(this.centerText('(Section 80G)', width));
+    lines.push('');
+    lines.push(`Receipt: ${donation.receiptNumber}`);
+    lines.push(`Date: ${new Date(donation.timestamp).toLocaleString()}`);
+    lines.push(`Sale: #${donation.transactionId.slice(-8)}`);
+    lines.push('-'.repeat(width));
+
+    // Donor
+    lines.push('Received with thanks from:');
+    lines.push(this.wrapText(donation.donor.name, width));
+    if (donation.donor.address) {
+      lines.push(this.wrapText(donation.donor.address, width));
+    }
+    lines.push(`Phone: ${donation.donor.phone}`);
+    lines.push(`PAN: ${donation.donor.pan}`);
+    lines.push('-'.repeat(width));
+
+    // Donation
+    lines.push(this.wrapText(`Purpose: ${donation.purpose}`, width));
+    lines.push('='.repeat(width));
+    lines.push(this.formatLine('AMOUNT:', `₹${donation.amount.toFixed(2)}`, width));
+    lines.push('='.repeat(width));
+    lines.push(this.wrapText(this.amountInWords(donation.amount), width));
+    lines.push(`Mode: ${donation.paymentMethod.toUpperCase()}`);
+    lines.push('-'.repeat(width));
+
+    // Trust registration
+    if (registration.trustPan) {
+      lines.push(`Trust PAN: ${registration.trustPan}`);
+    }
+    if (registration.registrationNumber) {
+      lines.push(this.wrapText(`80G Reg. No: ${registration.registrationNumber}`, width));
+    }
+    lines.push(this.wrapText('Eligible for deduction under section 80G of the Income Tax Act, 1961', width));
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate an HTML 80G donation receipt for PDF/web display
+   */
+  static generateHTMLDonationReceipt(donation: DonationReceiptData, registration: DonationRegistration): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>Donation Receipt ${donation.receiptNumber}</title>
+    <style>
+        body {
+            font-family: 'Courier New', monospace;
+            max-width: 300px;
+            margin: 0 auto;
+            padding: 20px;
+            font-size: 12px;
+            line-height: 1.4;
+        }
+        .header {
+            text-align: center;
+            margin-bottom: 15px;
+        }
+        .store-name {
+            font-size: 16px;
+            font-weight: bold;
+            margin-bottom: 5px;
+        }
+        .section {
+            border-bottom: 1px dashed #000;
+            padding-bottom: 10px;
+            margin-bottom: 10px;
+        }
+        .grand-total {
+            display: flex;
+            justify-content: space-between;
+            font-weight: bold;
+            font-size: 14px;
+            border-top: 1px solid #000;
+            border-bottom: 1px solid #000;
+            padding: 5px 0;
+            margin: 10px 0;
+        }
+        .footer {
+            text-align: center;
+            font-size: 10px;
+        }
+        @media print {
+            body { margin: 0; padding: 10px; }
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div class="store-name">${donation.storeName}</div>
+        <div style="font-weight: bold;">DONATION RECEIPT (Section 80G)</div>
+    </div>
+
+    <div class="section">
+        <div>Receipt: ${donation.receiptNumber}</div>
+        <div>Date: ${new Date(donation.timestamp).toLocaleString()}</div>
+        <div>Sale: #${donation.transactionId.slice(-8)}</div>
+    </div>
+
+    <div class="section">
+        <div>Received with thanks from:</div>
+        <div style="font-weight: bold;">${donation.donor.name}</div>
+        ${donation.donor.address ? `<div>${donation.donor.address}</div>` : ''}
+        <div>Phone: ${donation.donor.phone}</div>
+        <div>PAN: ${donation.donor.pan}</div>
+    </div>
+
+    <div class="section">
+        <div>Purpose: ${donation.purpose}</div>
+        <div class="grand-total">
+            <span>AMOUNT:</span>
+            <span>₹${donation.amount.toFixed(2)}</span>
+        </div>
+        <div>${this.amountInWords(donation.amount)}</div>
+        <div>Mode: ${donation.paymentMethod.toUpperCase()}</div>
+    </div>
+
+    <div class="footer">
+        ${registration.trustPan ? `<div>Trust PAN: ${registration.trustPan}</div>` : ''}
+        ${registration.registrationNumber ? `<div>80G Reg. No: ${registration.registrationNumber}</div>` : ''}
+        <div>Eligible for deduction under section 80G of the Income Tax Act, 1961</div>
+    </div>
+</body>
+</html>`;
+  }
+
+  /**
+   * Spell out a rupee amount the Indian way, e.g. "Rupees One Lakh Five Thousand Only"
+   */
+  static amountInWords(amount: number): string {
+    const paise = Math.round(amount * 100) % 100;
+    const rupees = Math.floor(Math.round(amount * 100) / 100);
+    const words = this.numberInWords(rupees) || 'Zero';
+
+    return `Rupees ${words}${paise > 0 ? ` and ${this.numberInWords(paise)} Paise` : ''} Only`;
+  }
+
+  /**
+   * Generate thermal X (mid-shift) or Z (shift close) report text
+   */
+  static generateShiftReport(report: ShiftReport, storeName: string, width: number = 32): string {
+    const lines: string[] = [];
+    const { shift } = report;
+    const money = (amount: number) => `₹${amount.toFixed(2)}`;
+
+    // Header
+    lines.push(this.centerText(storeName, width));
+    lines.push(this.centerText('='.repeat(width), width));
+    lines.push(this.centerText(report.type === 'Z' ? 'Z REPORT - SHIFT CLOSE' : 'X REPORT - SHIFT SNAPSHOT', width));
+    lines.push('');
+    lines.push(`Cashier: ${shift.userName || shift.userId}`);
+    lines.push(`Opened: ${new Date(shift.openedAt).toLocaleString()}`);
+    if (shift.closedAt) {
+      lines.push(`Closed: ${new Date(shift.closedAt).toLocaleString()}`);
+    }
+    lines.push(`Printed: ${new Date(report.generatedAt).toLocaleString()}`);
+    lines.push('-'.repeat(width));
+
+    // Sales
+    lines.push('SALES:');
+    lines.push(this.formatLine('Transactions:', String(report.transactionCount), width));
+    lines.push(this.formatLine('Gross Sales:', money(report.grossSales), width));
+    if (report.discounts > 0) {
+      lines.push(this.formatLine('Discounts:', money(report.discounts), width));
+    }
+    if (report.tax > 0) {
+      lines.push(this.formatLine('GST:', money(report.tax), width));
+    }
+    if (report.refundCount > 0) {
+      lines.push(this.formatLine(`Refunds (${report.refundCount}):`, `-${money(report.cashRefunds + report.upiRefunds + report.creditRefunds + report.pointsRefunds)}`, width));
+    }
+    lines.push(this.formatLine('Net Sales:', money(report.netSales), width));
+    if (report.donations > 0) {
+      lines.push(this.formatLine('Donations:', money(report.donations), width));
+    }
+    lines.push('-'.repeat(width));
+
+    // Tenders
+    lines.push('TENDERS:');
+    lines.push(this.formatLine('Cash:', money(report.cashSales), width));
+    lines.push(this.formatLine('UPI:', money(report.upiSales), width));
+    if (report.voucherSales > 0) {
+      lines.push(this.formatLine('Vouchers:', money(report.voucherSales), width));
+    }
+    if (report.giftVouchersSold > 0) {
+      lines.push(this.formatLine('Gift Vouchers Sold:', money(report.giftVouchersSold), width));
+    }
+    if (report.cashRefunds > 0) {
+      lines.push(this.formatLine('Cash Refunds:', `-${money(report.cashRefunds)}`, width));
+    }
+    if (report.upiRefunds > 0) {
+      lines.push(this.formatLine('UPI Refunds:', `-${money(report.upiRefunds)}`, width));
+    }
+    if (report.creditRefunds > 0) {
+      lines.push(this.formatLine('Store Credit:', `-${money(report.creditRefunds)}`, width));
+    }
+    if (report.pointsRefunds > 0) {
+      lines.push(this.formatLine('Points:', `-${money(report.pointsRefunds)}`, width));
+    }
+    lines.push('-'.repeat(width));
+
+    // Cash drawer
+    lines.push('CASH DRAWER:');
+    lines.push(this.formatLine('Opening Float:', money(shift.openingFloat), width));
+    lines.push(this.formatLine('Expected Cash:', money(shift.expectedCash ?? report.expectedCash), width));
+
+    if (shift.cashCount && shift.countedCash != null) {
+      CASH_DENOMINATIONS.forEach(denomination => {
+        const count = shift.cashCount?.notes[denomination] || 0;
+        if (count > 0) {
+          lines.push(this.formatLine(`  ₹${denomination} x ${count}`, money(denomination * count), width));
+        }
+      });
+      if (shift.cashCount.coins > 0) {
+        lines.push(this.formatLine('  Coins', money(shift.cashCount.coins), width));
+      }
+      lines.push(this.formatLine('Counted Cash:', money(shift.countedCash), width));
+
+      const variance = shift.variance || 0;
+      lines.push(this.formatLine('Variance:', `${variance < 0 ? '-' : variance > 0 ? '+' : ''}${money(Math.abs(variance))}`, width));
+    }
+
+    if (shift.status === 'pending_approval') {
+      lines.push('');
+      lines.push(this.wrapText('** AWAITING MANAGER SIGN-OFF **', width));
+    } else if (shift.approvedBy) {
+      lines.push(`Approved by: ${shift.approverName || shift.approvedBy}`);
+    }
+
+    if (shift.closingNotes) {
+      lines.push('');
+      lines.push(this.wrapText(`Notes: ${shift.closingNotes}`, width));
+    }
+
+    lines.push('='.repeat(width));
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+
   /**
    * Helper methods
    */
@@ -259,6 +804,39 @@ export class ReceiptGenerator {
     return ' '.repeat(padding) + text;
   }
 
+  // First column left-aligned, the rest right-aligned in equal widths
+  private static formatColumns(values: string[], width: number): string {
+    const firstWidth = 6;
+    const columnWidth = Math.floor((width - firstWidth) / Math.max(1, values.length - 1));
+    const [first, ...rest] = values;
+    return first.padEnd(firstWidth) + rest.map(value => value.padStart(columnWidth)).join('');
+  }
+
+  // Whole number in words using crore, lakh and thousand; empty for zero
+  private static numberInWords(value: number): string {
+    const ones = [
+      '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+      'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+    ];
+    const tens = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+    const belowHundred = (n: number) =>
+      n < 20 ? ones[n] : [tens[Math.floor(n / 10)], ones[n % 10]].filter(Boolean).join(' ');
+    const belowThousand = (n: number) =>
+      [n >= 100 ? `${ones[Math.floor(n / 100)]} Hundred` : '', belowHundred(n % 100)].filter(Boolean).join(' ');
+
+    const crore = Math.floor(value / 10000000);
+    const lakh = Math.floor(value / 100000) % 100;
+    const thousand = Math.floor(value / 1000) % 100;
+
+    return [
+      crore > 0 ? `${this.numberInWords(crore)} Crore` : '',
+      lakh > 0 ? `${belowHundred(lakh)} Lakh` : '',
+      thousand > 0 ? `${belowHundred(thousand)} Thousand` : '',
+      belowThousand(value % 1000),
+    ].filter(Boolean).join(' ');
+  }
+
   private static formatLine(label: string, value: string, width: number): string {
     const spacesNeeded = width - label.length - value.length;
     return `${label}${' '.repeat(Math.max(1, spacesNeeded))}${value}`;
@@ -1,14 +1,21 @@
 import { ReceiptGenerator } from './receiptGenerator';
 import { ThermalPrinter } from './thermalPrinter';
+import { LabelGenerator } from './labelGenerator';
+import { GstCalculator } from '@/services/tax/gstCalculator';
 import { settingsService } from '@/services/settings/settingsService';
 import type { 
   ReceiptData, 
+  DonationReceiptData,
   PrinterConfig, 
   PrintResult, 
   StoredReceipt,
   ReceiptTemplate 
 } from '@/types/receipt';
 import type { Transaction, TransactionItem } from '@/types';
+import type { ShiftReport } from '@/types/shift';
+import type { Voucher } from '@/types/voucher';
+import type { UpiPaymentRequest } from '@/types/upi';
+import type { LabelItem, LabelOptions, LabelOutput, LabelSheetLayout } from '@/types/label';
 import type { SystemSettings } from '@/types/settings';
 
 export class ReceiptService {
@@ -64,10 +71,11 @@ export class ReceiptService {
         variant: item.variant?.name,
         quantity: item.quantity,
         unitPrice: item.unitPrice,
-        totalPrice: item.totalPrice
+        totalPrice: item.totalPrice,
+        hsnCode: item.hsnCode
       })),
       subtotal: transaction.subtotal,
-      tax: transaction.tax,
+      ...GstCalculator.summarizeSale(transaction),
       discount: transaction.discount,
       total: transaction.total,
       paymentMethod: transaction.paymentMethod,
@@ -212,6 +220,214 @@ export class ReceiptService {
     }
   }
   
+  /**
+   * Print an 80G donation receipt, falling back to a downloadable copy without a thermal printer
+   */
+  async printDonationReceipt(donation: DonationReceiptData): Promise<PrintResult> {
+    const config = await this.getConfig();
+    const { trustPan, registrationNumber } = (await settingsService.getSettings()).donations;
+    const registration = { trustPan, registrationNumber };
+
+    try {
+      if (config.type === 'thermal' && ThermalPrinter.isSupported()) {
+        if (!this.thermalPrinter.isReady()) {
+          await this.thermalPrinter.connect(config.thermalConfig);
+        }
+        const receiptText = ReceiptGenerator.generateDonationReceipt(
+          donation,
+          registration,
+          config.thermalConfig?.width || 32
+        );
+        return await this.thermalPrinter.print(receiptText, config.thermalConfig);
+      }
+
+      const htmlContent = ReceiptGenerator.generateHTMLDonationReceipt(donation, registration);
+      const blob = new Blob([htmlContent], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `donation-${donation.receiptNumber.replace(/\//g, '-')}.html`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      return {
+        success: true,
+        printMethod: 'pdf'
+      };
+    } catch (error) {
+      console.error('Donation receipt printing failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Print failed',
+        printMethod: 'failed'
+      };
+    }
+  }
+
+  /**
+   * Print a gift voucher or store credit slip with its code as a QR code,
+   * falling back to a downloadable copy without a thermal printer
+   */
+  async printVoucher(voucher: Voucher): Promise<PrintResult> {
+    const config = await this.getConfig();
+    const storeName = 'ISKCON Asansol Temple';
+
+    try {
+      if (config.type === 'thermal' && ThermalPrinter.isSupported()) {
+        if (!this.thermalPrinter.isReady()) {
+          await this.thermalPrinter.connect(config.thermalConfig);
+        }
+        return await this.thermalPrinter.printRaw(
+          ReceiptGenerator.generateThermalVoucher(voucher, storeName, config.thermalConfig?.width || 32),
+          config.thermalConfig
+        );
+      }
+
+      const htmlContent = ReceiptGenerator.generateHTMLVoucher(voucher, storeName);
+      const blob = new Blob([htmlContent], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `voucher-${voucher.code}.html`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      return {
+        success: true,
+        printMethod: 'pdf'
+      };
+    } catch (error) {
+      console.error('Voucher printing failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Print failed',
+        printMethod: 'failed'
+      };
+    }
+  }
+
+  /**
+   * Print the payment QR for a UPI request; needs the thermal printer, which draws the QR itself
+   */
+  async printUpiQr(request: UpiPaymentRequest): Promise<PrintResult> {
+    try {
+      const config = await this.getConfig();
+      if (config.type !== 'thermal' || !ThermalPrinter.isSupported()) {
+        throw new Error('Set up the thermal printer to print the payment QR');
+      }
+      if (!this.thermalPrinter.isReady()) {
+        await this.thermalPrinter.connect(config.thermalConfig);
+      }
+
+      return await this.thermalPrinter.printRaw(
+        ReceiptGenerator.generateThermalUpiQr(request, config.thermalConfig?.width || 32),
+        config.thermalConfig
+      );
+    } catch (error) {
+      console.error('UPI QR printing failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Print failed',
+        printMethod: 'failed'
+      };
+    }
+  }
+
+  /**
+   * Print a shift X/Z report, falling back to a downloadable copy without a thermal printer
+   */
+  async printShiftReport(report: ShiftReport): Promise<PrintResult> {
+    const config = await this.getConfig();
+    const width = config.thermalConfig?.width || 32;
+    const reportText = ReceiptGenerator.generateShiftReport(report, 'ISKCON Asansol Temple', width);
+
+    try {
+      if (config.type === 'thermal' && ThermalPrinter.isSupported()) {
+        if (!this.thermalPrinter.isReady()) {
+          await this.thermalPrinter.connect(config.thermalConfig);
+        }
+        return await this.thermalPrinter.print(reportText, config.thermalConfig);
+      }
+
+      const blob = new Blob([`<pre style="font-family: 'Courier New', monospace;">${reportText}</pre>`], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${report.type}-report-${report.shift.id.slice(0, 8)}.html`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      return {
+        success: true,
+        printMethod: 'pdf'
+      };
+    } catch (error) {
+      console.error('Shift report printing failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Print failed',
+        printMethod: 'failed'
+      };
+    }
+  }
+
+  /**
+   * Print product labels on the thermal printer, or as an A4 sticker sheet to print from the browser
+   */
+  async printLabels(
+    items: LabelItem[],
+    options: LabelOptions,
+    output: LabelOutput,
+    layout: LabelSheetLayout
+  ): Promise<PrintResult> {
+    try {
+      if (output === 'thermal') {
+        const config = await this.getConfig();
+        if (!ThermalPrinter.isSupported()) {
+          throw new Error('Thermal printing is not supported in this browser');
+        }
+        if (!this.thermalPrinter.isReady()) {
+          await this.thermalPrinter.connect(config.thermalConfig);
+        }
+
+        const width = config.thermalConfig?.width || 32;
+        return await this.thermalPrinter.printRaw(
+          LabelGenerator.generateThermalLabels(items, options, width),
+          config.thermalConfig
+        );
+      }
+
+      const htmlContent = LabelGenerator.generateSheetHTML(items, layout, options);
+      const blob = new Blob([htmlContent], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `labels-${layout.id}.html`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      return {
+        success: true,
+        printMethod: 'pdf'
+      };
+    } catch (error) {
+      console.error('Label printing failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Print failed',
+        printMethod: 'failed'
+      };
+    }
+  }
+
   /**
    * Reprint a stored receipt
    */
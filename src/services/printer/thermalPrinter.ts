@@ -1,4 +1,5 @@
 import type { PrinterConfig, PrintResult } from "@/types/receipt";
+import type { BarcodeFormat } from "@/types/label";
 
 // Web USB types (since they might not be available in all environments)
 declare global {
@@ -55,6 +56,7 @@ export class ThermalPrinter {
 
   // ESC/POS commands
   private static readonly ESC = "\x1B";
+  private static readonly GS = 0x1d;
 
   // Common thermal printer vendor/product IDs
   private static readonly COMMON_PRINTERS = [
@@ -197,6 +199,108 @@ export class ThermalPrinter {
     }
   }
 
+  /**
+   * Send pre-built ESC/POS bytes (labels, barcodes) to the printer
+   */
+  async printRaw(
+    data: Uint8Array,
+    config?: PrinterConfig["thermalConfig"]
+  ): Promise<PrintResult> {
+    if (!this.isReady()) {
+      return {
+        success: false,
+        error: "Printer not connected",
+        printMethod: "failed",
+      };
+    }
+
+    try {
+      await this.sendData(data);
+
+      if (config?.cutPaper !== false) {
+        await this.sendData(new TextEncoder().encode(ThermalPrinter.ESC + "m"));
+      }
+
+      return {
+        success: true,
+        printMethod: "thermal",
+      };
+    } catch (error) {
+      console.error("Failed to print:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Print failed",
+        printMethod: "failed",
+      };
+    }
+  }
+
+  /**
+   * ESC/POS commands to print a linear barcode with its digits underneath
+   */
+  static barcodeCommand(
+    data: string,
+    format: BarcodeFormat,
+    height: number = 80
+  ): Uint8Array {
+    const GS = ThermalPrinter.GS;
+    const setup = [
+      GS, 0x68, Math.min(255, Math.max(1, height)), // GS h: bar height in dots
+      GS, 0x77, 2, // GS w: module width
+      GS, 0x48, 2, // GS H: human readable text below
+    ];
+
+    let payload: number[];
+    let symbology: number;
+    if (format === "EAN13") {
+      if (!/^\d{12,13}$/.test(data)) {
+        throw new Error("EAN-13 needs 12 or 13 digits");
+      }
+      // The printer works out the check digit itself from the first 12
+      symbology = 67;
+      payload = Array.from(data.slice(0, 12), (char) => char.charCodeAt(0));
+    } else {
+      if (!/^[\x20-\x7e]+$/.test(data)) {
+        throw new Error("CODE128 supports printable ASCII only");
+      }
+      // "{B" selects code set B for the data that follows
+      symbology = 73;
+      payload = Array.from(`{B${data}`, (char) => char.charCodeAt(0));
+    }
+    if (payload.length > 255) {
+      throw new Error("Barcode data too long");
+    }
+
+    return new Uint8Array([...setup, GS, 0x6b, symbology, payload.length, ...payload, 0x0a]);
+  }
+
+  /**
+   * ESC/POS commands to print a QR code (model 2, error correction M)
+   */
+  static qrCodeCommand(data: string, moduleSize: number = 6): Uint8Array {
+    const GS = ThermalPrinter.GS;
+    const bytes = Array.from(new TextEncoder().encode(data));
+    const storeLength = bytes.length + 3;
+    if (storeLength > 7092) {
+      throw new Error("QR code data too long");
+    }
+
+    // GS ( k <pL> <pH> 49 <fn> ...
+    const qr = (fn: number, ...params: number[]) => {
+      const length = params.length + 2;
+      return [GS, 0x28, 0x6b, length & 0xff, length >> 8, 49, fn, ...params];
+    };
+
+    return new Uint8Array([
+      ...qr(65, 50, 0), // Model 2
+      ...qr(67, Math.min(16, Math.max(1, moduleSize))), // Module size in dots
+      ...qr(69, 49), // Error correction level M
+      ...[GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 49, 80, 48, ...bytes], // Store data
+      ...qr(81, 48), // Print the stored symbol
+      0x0a,
+    ]);
+  }
+
   /**
    * Initialize printer with default settings
    */
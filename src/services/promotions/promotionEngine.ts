@@ -0,0 +1,184 @@
+import type {
+  Promotion,
+  PricingLine,
+  PricedLine,
+  PricingResult,
+  AppliedPromotion,
+} from '@/types/promotion';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Evaluates promotions against a cart. Shared by the cart store (live pricing)
+ * and the transaction service (authoritative pricing), so both always agree.
+ *
+ * Each line gets the single best product/category promotion; the best cart
+ * promotion then applies to what is left and is spread across the lines.
+ */
+export class PromotionEngine {
+  /**
+   * Check whether a promotion is switched on and inside its date window
+   */
+  static isActive(promotion: Promotion, now: Date = new Date()): boolean {
+    if (!promotion.isActive) {
+      return false;
+    }
+    if (promotion.startsAt && new Date(promotion.startsAt) > now) {
+      return false;
+    }
+    if (promotion.endsAt && new Date(promotion.endsAt) < now) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Price a cart, applying every promotion that qualifies
+   */
+  static evaluate(
+    lines: PricingLine[],
+    promotions: Promotion[],
+    now: Date = new Date()
+  ): PricingResult {
+    const active = promotions.filter(promotion => this.isActive(promotion, now));
+    const linePromotions = active.filter(promotion => promotion.scope !== 'cart');
+    const cartPromotions = active.filter(promotion => promotion.scope === 'cart');
+
+    const priced: PricedLine[] = lines.map(line => {
+      const lineTotal = roundCurrency(line.unitPrice * line.quantity);
+      if (line.excludeFromPromotions) {
+        return { lineTotal, discount: 0, appliedPromotions: [] };
+      }
+
+      const best = this.bestOf(
+        linePromotions
+          .filter(promotion => this.matchesLine(promotion, line))
+          .map(promotion => ({ promotion, amount: this.lineDiscount(promotion, line) }))
+      );
+
+      if (!best) {
+        return { lineTotal, discount: 0, appliedPromotions: [] };
+      }
+
+      const discount = roundCurrency(Math.min(best.amount, lineTotal));
+      return {
+        lineTotal,
+        discount,
+        appliedPromotions: [{ promotionId: best.promotion.id, name: best.promotion.name, amount: discount }],
+      };
+    });
+
+    // Cart promotions only look at what is still payable after line discounts
+    const eligible = priced
+      .map((line, index) => ({ index, net: line.lineTotal - line.discount }))
+      .filter(({ index, net }) => !lines[index].excludeFromPromotions && net > 0);
+    const eligibleTotal = roundCurrency(eligible.reduce((sum, line) => sum + line.net, 0));
+
+    const appliedCartPromotions: AppliedPromotion[] = [];
+    const bestCart = this.bestOf(
+      cartPromotions
+        .filter(promotion => eligibleTotal > 0 && eligibleTotal >= (promotion.minCartTotal || 0))
+        .map(promotion => ({ promotion, amount: this.cartDiscount(promotion, eligibleTotal) }))
+    );
+
+    if (bestCart) {
+      const cartDiscount = roundCurrency(Math.min(bestCart.amount, eligibleTotal));
+      appliedCartPromotions.push({
+        promotionId: bestCart.promotion.id,
+        name: bestCart.promotion.name,
+        amount: cartDiscount,
+      });
+
+      // Spread the cart discount pro rata so per-line revenue stays accurate
+      let allocated = 0;
+      eligible.forEach(({ index, net }, position) => {
+        const share = position === eligible.length - 1
+          ? roundCurrency(cartDiscount - allocated)
+          : roundCurrency(cartDiscount * (net / eligibleTotal));
+        allocated = roundCurrency(allocated + share);
+
+        if (share > 0) {
+          priced[index].discount = roundCurrency(priced[index].discount + share);
+          priced[index].appliedPromotions.push({
+            promotionId: bestCart.promotion.id,
+            name: bestCart.promotion.name,
+            amount: share,
+          });
+        }
+      });
+    }
+
+    const subtotal = roundCurrency(priced.reduce((sum, line) => sum + line.lineTotal, 0));
+    const discount = roundCurrency(priced.reduce((sum, line) => sum + line.discount, 0));
+
+    return {
+      subtotal,
+      discount,
+      total: roundCurrency(subtotal - discount),
+      lines: priced,
+      cartPromotions: appliedCartPromotions,
+    };
+  }
+
+  private static matchesLine(promotion: Promotion, line: PricingLine): boolean {
+    if (promotion.scope === 'product') {
+      return promotion.productId === line.productId;
+    }
+    if (promotion.scope === 'category') {
+      return !!line.categoryId && promotion.categoryId === line.categoryId;
+    }
+    return false;
+  }
+
+  private static lineDiscount(promotion: Promotion, line: PricingLine): number {
+    const minQuantity = promotion.minQuantity || 0;
+
+    switch (promotion.type) {
+      case 'percentage':
+        return line.quantity >= minQuantity
+          ? roundCurrency(line.unitPrice * line.quantity * (promotion.value / 100))
+          : 0;
+      case 'fixed':
+        return line.quantity >= minQuantity
+          ? roundCurrency(Math.min(promotion.value, line.unitPrice) * line.quantity)
+          : 0;
+      case 'buy_x_get_y': {
+        const buy = minQuantity;
+        const get = promotion.getQuantity || 0;
+        if (buy <= 0 || get <= 0) {
+          return 0;
+        }
+        const freeUnits = Math.floor(line.quantity / (buy + get)) * get;
+        return roundCurrency(freeUnits * line.unitPrice);
+      }
+      case 'min_quantity_price':
+        return line.quantity >= minQuantity && promotion.value < line.unitPrice
+          ? roundCurrency((line.unitPrice - promotion.value) * line.quantity)
+          : 0;
+      default:
+        return 0;
+    }
+  }
+
+  private static cartDiscount(promotion: Promotion, cartTotal: number): number {
+    switch (promotion.type) {
+      case 'percentage':
+        return roundCurrency(cartTotal * (promotion.value / 100));
+      case 'fixed':
+        return promotion.value;
+      default:
+        return 0;
+    }
+  }
+
+  private static bestOf(
+    candidates: Array<{ promotion: Promotion; amount: number }>
+  ): { promotion: Promotion; amount: number } | null {
+    return candidates
+      .filter(candidate => candidate.amount > 0)
+      .reduce<{ promotion: Promotion; amount: number } | null>(
+        (best, candidate) => (!best || candidate.amount > best.amount ? candidate : best),
+        null
+      );
+  }
+}
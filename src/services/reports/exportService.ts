@@ -1,4 +1,12 @@
 import { format } from 'date-fns';
+import {
+  GST_STATE_CODES,
+  type TaxReport,
+  type Gstr1Filer,
+  type Gstr1B2csCsvRow,
+  type Gstr1HsnCsvRow,
+  type TaxInvoiceCsvRow,
+} from '@/types/tax';
 
 // CSV Export functionality
 export class CSVExporter {
@@ -145,6 +153,147 @@ export class PDFExporter {
   }
 }
 
+// GSTR-1 export, following the GST offline tool's JSON schema and CSV templates
+export class GSTR1Exporter {
+  /**
+   * What stops the period being filed as it stands; empty when the JSON can be uploaded
+   */
+  static problems(report: TaxReport): string[] {
+    const problems: string[] = [];
+
+    if (!report.startDate || !report.endDate || format(report.startDate, 'yyyyMM') !== format(report.endDate, 'yyyyMM')) {
+      problems.push('GSTR-1 is filed for one month at a time; choose dates within a single month');
+    }
+    if (report.productsWithoutHsn.length > 0) {
+      problems.push(`Add HSN codes to ${report.productsWithoutHsn.join(', ')}`);
+    }
+    if (report.b2cSummary.some(row => row.supplyType === 'INTER' && !row.placeOfSupply)) {
+      problems.push("Some inter-state sales don't record the buyer's state");
+    }
+
+    return problems;
+  }
+
+  /**
+   * Build the GSTR-1 JSON (B2C small, HSN summary and documents issued) for the report's month
+   */
+  static toJSON(report: TaxReport, filer: Gstr1Filer) {
+    const problems = this.problems(report);
+    if (problems.length > 0) {
+      throw new Error(problems.join('. '));
+    }
+
+    return {
+      gstin: filer.gstin,
+      fp: format(report.startDate as Date, 'MMyyyy'),
+      b2cs: report.b2cSummary
+        .filter(row => row.taxableValue !== 0)
+        .map(row => ({
+          sply_ty: row.supplyType,
+          pos: row.supplyType === 'INTRA' ? filer.stateCode : row.placeOfSupply as string,
+          typ: 'OE',
+          rt: row.rate,
+          txval: row.taxableValue,
+          iamt: row.igst,
+          camt: row.cgst,
+          samt: row.sgst,
+          csamt: 0,
+        })),
+      hsn: {
+        data: report.hsnSummary.map((row, index) => ({
+          num: index + 1,
+          hsn_sc: row.hsnCode,
+          desc: '',
+          uqc: 'NOS',
+          qty: row.quantity,
+          rt: row.rate,
+          val: row.totalValue,
+          txval: row.taxableValue,
+          iamt: row.igst,
+          camt: row.cgst,
+          samt: row.sgst,
+          csamt: 0,
+        })),
+      },
+      doc_issue: {
+        doc_det: report.documents
+          ? [{
+              doc_num: 1,
+              docs: [{
+                num: 1,
+                from: report.documents.from,
+                to: report.documents.to,
+                totnum: report.documents.total,
+                cancel: report.documents.cancelled,
+                net_issue: report.documents.total - report.documents.cancelled,
+              }],
+            }]
+          : [],
+      },
+    };
+  }
+
+  /**
+   * Rows for the B2CS CSV template
+   */
+  static b2csRows(report: TaxReport, filer: Gstr1Filer): Gstr1B2csCsvRow[] {
+    return report.b2cSummary
+      .filter(row => row.taxableValue !== 0)
+      .map(row => ({
+        'Type': 'OE',
+        'Place Of Supply': this.placeOfSupply(row.supplyType === 'INTRA' ? filer.stateCode : row.placeOfSupply),
+        'Rate': row.rate,
+        'Applicable % of Tax Rate': '',
+        'Taxable Value': row.taxableValue,
+        'Cess Amount': 0,
+        'E-Commerce GSTIN': '',
+      }));
+  }
+
+  /**
+   * Rows for the HSN summary CSV template
+   */
+  static hsnRows(report: TaxReport): Gstr1HsnCsvRow[] {
+    return report.hsnSummary.map(row => ({
+      'HSN': row.hsnCode,
+      'Description': '',
+      'UQC': 'NOS-NUMBERS',
+      'Total Quantity': row.quantity,
+      'Total Value': row.totalValue,
+      'Rate': row.rate,
+      'Taxable Value': row.taxableValue,
+      'Integrated Tax Amount': row.igst,
+      'Central Tax Amount': row.cgst,
+      'State/UT Tax Amount': row.sgst,
+      'Cess Amount': 0,
+    }));
+  }
+
+  /**
+   * Per-invoice listing for the accountant's books
+   */
+  static invoiceRows(report: TaxReport): TaxInvoiceCsvRow[] {
+    return report.invoices.map(invoice => ({
+      'Invoice Number': invoice.invoiceNumber,
+      'Invoice Date': format(new Date(invoice.invoiceDate), 'dd-MMM-yyyy'),
+      'Supply Type': invoice.interState ? 'Inter-State' : 'Intra-State',
+      'Place Of Supply': this.placeOfSupply(invoice.placeOfSupply),
+      'Taxable Value': invoice.taxableValue,
+      'Integrated Tax Amount': invoice.igst,
+      'Central Tax Amount': invoice.cgst,
+      'State/UT Tax Amount': invoice.sgst,
+      'Invoice Value': invoice.invoiceValue,
+    }));
+  }
+
+  /**
+   * A state as the offline tool writes it, e.g. "19-West Bengal"
+   */
+  private static placeOfSupply(stateCode: string | null): string {
+    return stateCode ? `${stateCode}-${GST_STATE_CODES[stateCode] || ''}` : '';
+  }
+}
+
 // Report export service that combines both CSV and PDF functionality
 export class ReportExportService {
   /**
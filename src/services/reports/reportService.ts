@@ -2,14 +2,37 @@ import { getDb } from '@/lib/db/connection';
 import { 
   transactions, 
   transactionItems, 
+  transactionPayments,
   products, 
   productVariants, 
   categories, 
   users,
+  returns,
+  returnItems,
   type Transaction 
 } from '@/lib/db/schema';
-import { eq, desc, and, gte, lte, sql, count, sum } from 'drizzle-orm';
+import { eq, desc, and, gte, lte, sql, count, sum, inArray } from 'drizzle-orm';
 import { formatDateOnly } from '@/lib/utils';
+import { salesValue } from '@/services/database/donations';
+import { POINT_VALUE } from '@/types/loyalty';
+import type { TaxReport, HsnTaxRow, B2cSummaryRow, TaxInvoice } from '@/types/tax';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+const marginPercentOf = (grossMargin: number, netSales: number) =>
+  netSales > 0 ? Math.round((grossMargin / netSales) * 10000) / 100 : 0;
+
+// What the shop keeps from a sale line: after discounts and excluding GST.
+// Lines sold before GST was recorded only have the price and discount to go on.
+const lineNetSales = sql`CASE WHEN ${transactionItems.taxableValue} > 0
+  THEN ${transactionItems.taxableValue}
+  ELSE ${transactionItems.totalPrice} - COALESCE(${transactionItems.discountAmount}, 0) END`;
+
+// Cost of the goods on a sale line, at the cost price snapshotted when it was sold
+const lineCost = sql`${transactionItems.quantity} * COALESCE(${transactionItems.unitCost}, 0)`;
+
+// Stock on hand valued at cost; negative stock carries no value
+const stockValueAtCost = sql<number>`COALESCE(SUM(MAX(COALESCE(${productVariants.stockQuantity}, 0), 0) * COALESCE(${productVariants.costPrice}, 0)), 0)`;
 
 // Report types
 export interface DailySalesReport {
@@ -18,6 +41,9 @@ export interface DailySalesReport {
   totalTransactions: number;
   totalTax: number;
   totalDiscount: number;
+  // Refunds issued on the day; already deducted from totalSales
+  totalRefunds: number;
+  totalReturns: number;
   paymentMethodBreakdown: {
     cash: { count: number; amount: number };
     upi: { count: number; amount: number };
@@ -27,6 +53,7 @@ export interface DailySalesReport {
 
 export interface TransactionHistoryItem {
   id: string;
+  invoiceNumber?: string;
   userId: string;
   userName: string;
   subtotal: number;
@@ -62,16 +89,35 @@ export interface ProductPerformanceReport {
   categoryName?: string;
   totalQuantity: number;
   totalRevenue: number;
+  totalDiscount: number;
+  // Revenue from lines sold at full price vs. lines a promotion applied to (net of discount)
+  fullPriceRevenue: number;
+  discountedRevenue: number;
   transactionCount: number;
   averageOrderValue: number;
   lastSoldAt?: Date;
   currentStock: number;
+  // Revenue net of discounts and GST, less the cost of the goods sold
+  netSales: number;
+  costOfGoods: number;
+  grossMargin: number;
+  marginPercent: number;
+  // Current stock valued at the weighted average cost price
+  stockValue: number;
 }
 
 export interface SalesAnalytics {
   totalRevenue: number;
+  totalRefunds: number;
   totalTransactions: number;
   averageOrderValue: number;
+  // Net of discounts, GST and refunds; restocked returns give their cost back
+  netSales: number;
+  costOfGoods: number;
+  grossMargin: number;
+  marginPercent: number;
+  // Everything on the shelves now, valued at cost
+  inventoryValue: number;
   topPaymentMethod: string;
   salesTrend: Array<{
     date: Date;
@@ -118,7 +164,7 @@ export class ReportService {
       // Get basic sales metrics
       const salesMetrics = await this.db
         .select({
-          totalSales: sql<number>`COALESCE(SUM(${transactions.total}), 0)`,
+          totalSales: sql<number>`COALESCE(SUM(${salesValue}), 0)`,
           totalTransactions: sql<number>`COUNT(*)`,
           totalTax: sql<number>`COALESCE(SUM(${transactions.tax}), 0)`,
           totalDiscount: sql<number>`COALESCE(SUM(${transactions.discount}), 0)`,
@@ -132,8 +178,26 @@ export class ReportService {
           )
         );
 
-      // Get payment method breakdown
-      const paymentBreakdown = await this.db
+      // Get payment method breakdown from the individual tenders, so split sales count towards each method
+      const tenderBreakdown = await this.db
+        .select({
+          paymentMethod: transactionPayments.method,
+          count: sql<number>`COUNT(DISTINCT ${transactionPayments.transactionId})`,
+          amount: sql<number>`COALESCE(SUM(${transactionPayments.amount}), 0)`,
+        })
+        .from(transactionPayments)
+        .innerJoin(transactions, eq(transactionPayments.transactionId, transactions.id))
+        .where(
+          and(
+            gte(transactions.createdAt, startOfDay),
+            lte(transactions.createdAt, endOfDay),
+            eq(transactions.status, 'completed')
+          )
+        )
+        .groupBy(transactionPayments.method);
+
+      // Transactions recorded before tenders were tracked only carry a single payment method
+      const legacyBreakdown = await this.db
         .select({
           paymentMethod: transactions.paymentMethod,
           count: sql<number>`COUNT(*)`,
@@ -144,11 +208,35 @@ export class ReportService {
           and(
             gte(transactions.createdAt, startOfDay),
             lte(transactions.createdAt, endOfDay),
-            eq(transactions.status, 'completed')
+            eq(transactions.status, 'completed'),
+            sql`NOT EXISTS (
+              SELECT 1 FROM ${transactionPayments}
+              WHERE ${transactionPayments.transactionId} = ${transactions.id}
+            )`
           )
         )
         .groupBy(transactions.paymentMethod);
 
+      // Get refunds issued during the day, grouped by refund method
+      const refundBreakdown = await this.db
+        .select({
+          refundMethod: returns.refundMethod,
+          count: sql<number>`COUNT(*)`,
+          // Points and store credit given back for what points and vouchers paid aren't paid out by the refund method
+          amount: sql<number>`COALESCE(SUM(
+            ${returns.total} - COALESCE(${returns.pointsRefunded}, 0) * ${POINT_VALUE} - COALESCE(${returns.creditRefunded}, 0)
+          ), 0)`,
+          total: sql<number>`COALESCE(SUM(${returns.total}), 0)`,
+        })
+        .from(returns)
+        .where(
+          and(
+            gte(returns.createdAt, startOfDay),
+            lte(returns.createdAt, endOfDay)
+          )
+        )
+        .groupBy(returns.refundMethod);
+
       // Get top products for the day
       const topProducts = await this.getTopSellingProducts({
         startDate: startOfDay,
@@ -161,26 +249,33 @@ export class ReportService {
         upi: { count: 0, amount: 0 },
       };
 
-      paymentBreakdown.forEach(item => {
-        if (item.paymentMethod === 'cash') {
-          paymentMethodBreakdown.cash = {
-            count: Number(item.count),
-            amount: Number(item.amount),
-          };
-        } else if (item.paymentMethod === 'upi') {
-          paymentMethodBreakdown.upi = {
-            count: Number(item.count),
-            amount: Number(item.amount),
-          };
+      [...tenderBreakdown, ...legacyBreakdown].forEach(item => {
+        if (item.paymentMethod === 'cash' || item.paymentMethod === 'upi') {
+          paymentMethodBreakdown[item.paymentMethod].count += Number(item.count);
+          paymentMethodBreakdown[item.paymentMethod].amount += Number(item.amount);
+        }
+      });
+
+      // Refunds go back out through the same drawer/account, so net them per method
+      let totalRefunds = 0;
+      let totalReturns = 0;
+      refundBreakdown.forEach(item => {
+        const amount = Number(item.amount);
+        totalRefunds += Number(item.total);
+        totalReturns += Number(item.count);
+        if (item.refundMethod === 'cash' || item.refundMethod === 'upi') {
+          paymentMethodBreakdown[item.refundMethod].amount -= amount;
         }
       });
 
       return {
         date,
-        totalSales: Number(salesMetrics[0]?.totalSales || 0),
+        totalSales: Number(salesMetrics[0]?.totalSales || 0) - totalRefunds,
         totalTransactions: Number(salesMetrics[0]?.totalTransactions || 0),
         totalTax: Number(salesMetrics[0]?.totalTax || 0),
         totalDiscount: Number(salesMetrics[0]?.totalDiscount || 0),
+        totalRefunds,
+        totalReturns,
         paymentMethodBreakdown,
         topProducts,
       };
@@ -212,7 +307,15 @@ export class ReportService {
         conditions.push(eq(transactions.userId, filters.userId));
       }
       if (filters.paymentMethod) {
-        conditions.push(eq(transactions.paymentMethod, filters.paymentMethod));
+        // Split transactions match every method they were partly paid with
+        conditions.push(sql`(
+          ${transactions.paymentMethod} = ${filters.paymentMethod}
+          OR EXISTS (
+            SELECT 1 FROM ${transactionPayments}
+            WHERE ${transactionPayments.transactionId} = ${transactions.id}
+              AND ${transactionPayments.method} = ${filters.paymentMethod}
+          )
+        )`);
       }
 
       // Get total count
@@ -254,6 +357,7 @@ export class ReportService {
 
           return {
             id: row.transaction.id,
+            invoiceNumber: row.transaction.invoiceNumber || undefined,
             userId: row.transaction.userId || '',
             userName: row.userName || 'Unknown User',
             subtotal: row.transaction.subtotal,
@@ -369,6 +473,11 @@ export class ReportService {
           categoryName: categories.name,
           totalQuantity: sql<number>`COALESCE(SUM(${transactionItems.quantity}), 0)`,
           totalRevenue: sql<number>`COALESCE(SUM(${transactionItems.totalPrice}), 0)`,
+          totalDiscount: sql<number>`COALESCE(SUM(${transactionItems.discountAmount}), 0)`,
+          fullPriceRevenue: sql<number>`COALESCE(SUM(CASE WHEN COALESCE(${transactionItems.discountAmount}, 0) > 0 THEN 0 ELSE ${transactionItems.totalPrice} END), 0)`,
+          discountedRevenue: sql<number>`COALESCE(SUM(CASE WHEN ${transactionItems.discountAmount} > 0 THEN ${transactionItems.totalPrice} - ${transactionItems.discountAmount} ELSE 0 END), 0)`,
+          netSales: sql<number>`COALESCE(SUM(${lineNetSales}), 0)`,
+          costOfGoods: sql<number>`COALESCE(SUM(${lineCost}), 0)`,
           transactionCount: sql<number>`COUNT(DISTINCT ${transactions.id})`,
           lastSoldAt: sql<Date>`MAX(${transactions.createdAt})`,
         })
@@ -389,6 +498,7 @@ export class ReportService {
           const stockResult = await this.db
             .select({
               totalStock: sql<number>`COALESCE(SUM(${productVariants.stockQuantity}), 0)`,
+              stockValue: stockValueAtCost,
             })
             .from(productVariants)
             .where(eq(productVariants.productId, row.productId));
@@ -396,6 +506,9 @@ export class ReportService {
           const totalQuantity = Number(row.totalQuantity);
           const totalRevenue = Number(row.totalRevenue);
           const transactionCount = Number(row.transactionCount);
+          const netSales = roundCurrency(Number(row.netSales));
+          const costOfGoods = roundCurrency(Number(row.costOfGoods));
+          const grossMargin = roundCurrency(netSales - costOfGoods);
 
           return {
             productId: row.productId,
@@ -403,10 +516,18 @@ export class ReportService {
             categoryName: row.categoryName || undefined,
             totalQuantity,
             totalRevenue,
+            totalDiscount: Number(row.totalDiscount),
+            fullPriceRevenue: Number(row.fullPriceRevenue),
+            discountedRevenue: Number(row.discountedRevenue),
             transactionCount,
             averageOrderValue: transactionCount > 0 ? totalRevenue / transactionCount : 0,
             lastSoldAt: row.lastSoldAt || undefined,
             currentStock: Number(stockResult[0]?.totalStock || 0),
+            netSales,
+            costOfGoods,
+            grossMargin,
+            marginPercent: marginPercentOf(grossMargin, netSales),
+            stockValue: roundCurrency(Number(stockResult[0]?.stockValue || 0)),
           };
         })
       );
@@ -436,16 +557,67 @@ export class ReportService {
       // Get overall metrics
       const overallMetrics = await this.db
         .select({
-          totalRevenue: sql<number>`COALESCE(SUM(${transactions.total}), 0)`,
+          totalRevenue: sql<number>`COALESCE(SUM(${salesValue}), 0)`,
           totalTransactions: sql<number>`COUNT(*)`,
         })
         .from(transactions)
         .where(and(...conditions));
 
-      const totalRevenue = Number(overallMetrics[0]?.totalRevenue || 0);
+      // Returns are counted as negative revenue in the period they were refunded
+      const refundConditions = [];
+      if (filters.startDate) {
+        refundConditions.push(gte(returns.createdAt, filters.startDate));
+      }
+      if (filters.endDate) {
+        refundConditions.push(lte(returns.createdAt, filters.endDate));
+      }
+
+      const refundMetrics = await this.db
+        .select({
+          totalRefunds: sql<number>`COALESCE(SUM(${returns.total}), 0)`,
+        })
+        .from(returns)
+        .where(refundConditions.length > 0 ? and(...refundConditions) : undefined);
+
+      const totalRefunds = Number(refundMetrics[0]?.totalRefunds || 0);
+      const totalRevenue = Number(overallMetrics[0]?.totalRevenue || 0) - totalRefunds;
       const totalTransactions = Number(overallMetrics[0]?.totalTransactions || 0);
       const averageOrderValue = totalTransactions > 0 ? totalRevenue / totalTransactions : 0;
 
+      // Margin works on the sale lines rather than the till totals, so GST is left out
+      const marginMetrics = await this.db
+        .select({
+          netSales: sql<number>`COALESCE(SUM(${lineNetSales}), 0)`,
+          costOfGoods: sql<number>`COALESCE(SUM(${lineCost}), 0)`,
+        })
+        .from(transactionItems)
+        .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+        .where(and(...conditions));
+
+      // Refunded lines give back their share of the original line's net value;
+      // only restocked items return their cost, damaged ones are still a loss
+      const returnedMargin = await this.db
+        .select({
+          netSales: sql<number>`COALESCE(SUM(${returnItems.quantity} * (${lineNetSales}) / ${transactionItems.quantity}), 0)`,
+          costOfGoods: sql<number>`COALESCE(SUM(CASE WHEN ${returnItems.restocked} THEN ${returnItems.quantity} * COALESCE(${transactionItems.unitCost}, 0) ELSE 0 END), 0)`,
+        })
+        .from(returnItems)
+        .innerJoin(returns, eq(returnItems.returnId, returns.id))
+        .innerJoin(transactionItems, eq(returnItems.transactionItemId, transactionItems.id))
+        .where(refundConditions.length > 0 ? and(...refundConditions) : undefined);
+
+      const inventoryMetrics = await this.db
+        .select({ inventoryValue: stockValueAtCost })
+        .from(productVariants);
+
+      const netSales = roundCurrency(
+        Number(marginMetrics[0]?.netSales || 0) - Number(returnedMargin[0]?.netSales || 0)
+      );
+      const costOfGoods = roundCurrency(
+        Number(marginMetrics[0]?.costOfGoods || 0) - Number(returnedMargin[0]?.costOfGoods || 0)
+      );
+      const grossMargin = roundCurrency(netSales - costOfGoods);
+
       // Get top payment method
       const paymentMethods = await this.db
         .select({
@@ -463,7 +635,7 @@ export class ReportService {
       const salesTrend = await this.db
         .select({
           date: sql<string>`DATE(${transactions.createdAt})`,
-          sales: sql<number>`COALESCE(SUM(${transactions.total}), 0)`,
+          sales: sql<number>`COALESCE(SUM(${salesValue}), 0)`,
           transactions: sql<number>`COUNT(*)`,
         })
         .from(transactions)
@@ -471,6 +643,17 @@ export class ReportService {
         .groupBy(sql`DATE(${transactions.createdAt})`)
         .orderBy(sql`DATE(${transactions.createdAt})`);
 
+      const refundTrend = await this.db
+        .select({
+          date: sql<string>`DATE(${returns.createdAt})`,
+          refunds: sql<number>`COALESCE(SUM(${returns.total}), 0)`,
+        })
+        .from(returns)
+        .where(refundConditions.length > 0 ? and(...refundConditions) : undefined)
+        .groupBy(sql`DATE(${returns.createdAt})`);
+
+      const refundsByDate = new Map(refundTrend.map(item => [item.date, Number(item.refunds)]));
+
       // Get category breakdown
       const categoryBreakdown = await this.db
         .select({
@@ -486,21 +669,47 @@ export class ReportService {
         .groupBy(categories.id, categories.name)
         .orderBy(desc(sql`COALESCE(SUM(${transactionItems.totalPrice}), 0)`));
 
-      const categoryBreakdownWithPercentage = categoryBreakdown.map(item => ({
-        categoryId: item.categoryId || 'uncategorized',
-        categoryName: item.categoryName || 'Uncategorized',
-        revenue: Number(item.revenue),
-        percentage: totalRevenue > 0 ? (Number(item.revenue) / totalRevenue) * 100 : 0,
-      }));
+      const categoryReturns = await this.db
+        .select({
+          categoryId: categories.id,
+          refunded: sql<number>`COALESCE(SUM(${returnItems.totalPrice}), 0)`,
+        })
+        .from(returnItems)
+        .innerJoin(returns, eq(returnItems.returnId, returns.id))
+        .leftJoin(products, eq(returnItems.productId, products.id))
+        .leftJoin(categories, eq(products.categoryId, categories.id))
+        .where(refundConditions.length > 0 ? and(...refundConditions) : undefined)
+        .groupBy(categories.id);
+
+      const refundsByCategory = new Map(
+        categoryReturns.map(item => [item.categoryId || 'uncategorized', Number(item.refunded)])
+      );
+
+      const categoryBreakdownWithPercentage = categoryBreakdown.map(item => {
+        const categoryId = item.categoryId || 'uncategorized';
+        const revenue = Number(item.revenue) - (refundsByCategory.get(categoryId) || 0);
+        return {
+          categoryId,
+          categoryName: item.categoryName || 'Uncategorized',
+          revenue,
+          percentage: totalRevenue > 0 ? (revenue / totalRevenue) * 100 : 0,
+        };
+      });
 
       return {
         totalRevenue,
+        totalRefunds,
         totalTransactions,
         averageOrderValue,
+        netSales,
+        costOfGoods,
+        grossMargin,
+        marginPercent: marginPercentOf(grossMargin, netSales),
+        inventoryValue: roundCurrency(Number(inventoryMetrics[0]?.inventoryValue || 0)),
         topPaymentMethod,
         salesTrend: salesTrend.map(item => ({
           date: new Date(item.date),
-          sales: Number(item.sales),
+          sales: Number(item.sales) - (refundsByDate.get(item.date) || 0),
           transactions: Number(item.transactions),
         })),
         categoryBreakdown: categoryBreakdownWithPercentage,
@@ -511,6 +720,231 @@ export class ReportService {
     }
   }
 
+  /**
+   * Get GST collected per HSN code and rate, the GSTR-1 B2C summary and the invoice listing
+   */
+  async getTaxReport(filters: ReportFilters = {}): Promise<TaxReport> {
+    try {
+      const conditions = [eq(transactions.status, 'completed')];
+      if (filters.startDate) {
+        conditions.push(gte(transactions.createdAt, filters.startDate));
+      }
+      if (filters.endDate) {
+        conditions.push(lte(transactions.createdAt, filters.endDate));
+      }
+
+      // Returns reduce tax in the period they were refunded, pro rata to the quantity sent back
+      const refundConditions = [];
+      if (filters.startDate) {
+        refundConditions.push(gte(returns.createdAt, filters.startDate));
+      }
+      if (filters.endDate) {
+        refundConditions.push(lte(returns.createdAt, filters.endDate));
+      }
+      const returnedShare = sql`CAST(${returnItems.quantity} AS REAL) / ${transactionItems.quantity}`;
+
+      const soldByHsn = await this.db
+        .select({
+          hsnCode: transactionItems.hsnCode,
+          rate: transactionItems.taxRate,
+          interState: transactions.interState,
+          placeOfSupply: transactions.placeOfSupply,
+          quantity: sql<number>`COALESCE(SUM(${transactionItems.quantity}), 0)`,
+          taxableValue: sql<number>`COALESCE(SUM(${transactionItems.taxableValue}), 0)`,
+          cgst: sql<number>`COALESCE(SUM(${transactionItems.cgst}), 0)`,
+          sgst: sql<number>`COALESCE(SUM(${transactionItems.sgst}), 0)`,
+          igst: sql<number>`COALESCE(SUM(${transactionItems.igst}), 0)`,
+        })
+        .from(transactionItems)
+        .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+        .where(and(...conditions))
+        .groupBy(transactionItems.hsnCode, transactionItems.taxRate, transactions.interState, transactions.placeOfSupply);
+
+      const returnedByHsn = await this.db
+        .select({
+          hsnCode: transactionItems.hsnCode,
+          rate: transactionItems.taxRate,
+          interState: transactions.interState,
+          placeOfSupply: transactions.placeOfSupply,
+          quantity: sql<number>`COALESCE(SUM(${returnItems.quantity}), 0)`,
+          taxableValue: sql<number>`COALESCE(SUM(${transactionItems.taxableValue} * ${returnedShare}), 0)`,
+          cgst: sql<number>`COALESCE(SUM(${transactionItems.cgst} * ${returnedShare}), 0)`,
+          sgst: sql<number>`COALESCE(SUM(${transactionItems.sgst} * ${returnedShare}), 0)`,
+          igst: sql<number>`COALESCE(SUM(${transactionItems.igst} * ${returnedShare}), 0)`,
+        })
+        .from(returnItems)
+        .innerJoin(returns, eq(returnItems.returnId, returns.id))
+        .innerJoin(transactionItems, eq(returnItems.transactionItemId, transactionItems.id))
+        .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+        .where(refundConditions.length > 0 ? and(...refundConditions) : undefined)
+        .groupBy(transactionItems.hsnCode, transactionItems.taxRate, transactions.interState, transactions.placeOfSupply);
+
+      const hsnRows = new Map<string, HsnTaxRow>();
+      const b2cRows = new Map<string, B2cSummaryRow>();
+
+      const addRows = (rows: typeof soldByHsn, sign: 1 | -1) => {
+        rows.forEach(row => {
+          const hsnCode = row.hsnCode || '';
+          const rate = Number(row.rate || 0);
+          const amounts = {
+            taxableValue: sign * Number(row.taxableValue),
+            cgst: sign * Number(row.cgst),
+            sgst: sign * Number(row.sgst),
+            igst: sign * Number(row.igst),
+          };
+
+          const hsnKey = `${hsnCode}|${rate}`;
+          const hsnRow = hsnRows.get(hsnKey) || {
+            hsnCode, rate, quantity: 0, taxableValue: 0, cgst: 0, sgst: 0, igst: 0, totalTax: 0, totalValue: 0,
+          };
+          hsnRow.quantity += sign * Number(row.quantity);
+          hsnRow.taxableValue += amounts.taxableValue;
+          hsnRow.cgst += amounts.cgst;
+          hsnRow.sgst += amounts.sgst;
+          hsnRow.igst += amounts.igst;
+          hsnRows.set(hsnKey, hsnRow);
+
+          const supplyType = row.interState ? 'INTER' : 'INTRA';
+          const placeOfSupply = row.interState ? row.placeOfSupply || null : null;
+          const b2cKey = `${supplyType}|${placeOfSupply}|${rate}`;
+          const b2cRow = b2cRows.get(b2cKey) || {
+            supplyType, placeOfSupply, rate, taxableValue: 0, cgst: 0, sgst: 0, igst: 0,
+          };
+          b2cRow.taxableValue += amounts.taxableValue;
+          b2cRow.cgst += amounts.cgst;
+          b2cRow.sgst += amounts.sgst;
+          b2cRow.igst += amounts.igst;
+          b2cRows.set(b2cKey, b2cRow);
+        });
+      };
+
+      addRows(soldByHsn, 1);
+      addRows(returnedByHsn, -1);
+
+      const hsnSummary = Array.from(hsnRows.values())
+        .map(row => {
+          const totalTax = roundCurrency(row.cgst + row.sgst + row.igst);
+          return {
+            ...row,
+            taxableValue: roundCurrency(row.taxableValue),
+            cgst: roundCurrency(row.cgst),
+            sgst: roundCurrency(row.sgst),
+            igst: roundCurrency(row.igst),
+            totalTax,
+            totalValue: roundCurrency(row.taxableValue + totalTax),
+          };
+        })
+        .sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.rate - b.rate);
+
+      const b2cSummary = Array.from(b2cRows.values())
+        .map(row => ({
+          ...row,
+          taxableValue: roundCurrency(row.taxableValue),
+          cgst: roundCurrency(row.cgst),
+          sgst: roundCurrency(row.sgst),
+          igst: roundCurrency(row.igst),
+        }))
+        .sort((a, b) =>
+          a.supplyType.localeCompare(b.supplyType)
+          || (a.placeOfSupply || '').localeCompare(b.placeOfSupply || '')
+          || a.rate - b.rate
+        );
+
+      const invoiceRows = await this.db
+        .select({
+          invoiceNumber: transactions.invoiceNumber,
+          invoiceDate: transactions.createdAt,
+          interState: transactions.interState,
+          placeOfSupply: transactions.placeOfSupply,
+          // Donations are not part of the GST invoice
+          invoiceValue: salesValue,
+          taxableValue: sql<number>`COALESCE(SUM(${transactionItems.taxableValue}), 0)`,
+          cgst: sql<number>`COALESCE(SUM(${transactionItems.cgst}), 0)`,
+          sgst: sql<number>`COALESCE(SUM(${transactionItems.sgst}), 0)`,
+          igst: sql<number>`COALESCE(SUM(${transactionItems.igst}), 0)`,
+        })
+        .from(transactions)
+        .innerJoin(transactionItems, eq(transactionItems.transactionId, transactions.id))
+        .where(and(...conditions))
+        .groupBy(transactions.id)
+        .orderBy(transactions.invoiceNumber);
+
+      const invoices: TaxInvoice[] = invoiceRows.map(row => {
+        const cgst = roundCurrency(Number(row.cgst));
+        const sgst = roundCurrency(Number(row.sgst));
+        const igst = roundCurrency(Number(row.igst));
+        return {
+          // Every sale has been numbered since the series began, older ones by the migration
+          invoiceNumber: row.invoiceNumber as string,
+          invoiceDate: row.invoiceDate || new Date(),
+          interState: row.interState ?? false,
+          placeOfSupply: row.interState ? row.placeOfSupply || null : null,
+          taxableValue: roundCurrency(Number(row.taxableValue)),
+          cgst,
+          sgst,
+          igst,
+          totalTax: roundCurrency(cgst + sgst + igst),
+          invoiceValue: roundCurrency(Number(row.invoiceValue)),
+        };
+      });
+
+      // Voided sales keep their numbers, so the series is read from every numbered sale in the period
+      const seriesConditions = [inArray(transactions.status, ['completed', 'cancelled'])];
+      if (filters.startDate) {
+        seriesConditions.push(gte(transactions.createdAt, filters.startDate));
+      }
+      if (filters.endDate) {
+        seriesConditions.push(lte(transactions.createdAt, filters.endDate));
+      }
+      const [series] = await this.db
+        .select({
+          from: sql<string | null>`MIN(${transactions.invoiceNumber})`,
+          to: sql<string | null>`MAX(${transactions.invoiceNumber})`,
+          total: sql<number>`COUNT(${transactions.invoiceNumber})`,
+          cancelled: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.status} = 'cancelled' THEN 1 ELSE 0 END), 0)`,
+        })
+        .from(transactions)
+        .where(and(...seriesConditions));
+
+      const documents = series?.from && series.to
+        ? { from: series.from, to: series.to, total: Number(series.total), cancelled: Number(series.cancelled) }
+        : null;
+
+      const withoutHsn = await this.db
+        .selectDistinct({ name: products.name })
+        .from(transactionItems)
+        .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+        .innerJoin(products, eq(transactionItems.productId, products.id))
+        .where(and(...conditions, sql`COALESCE(TRIM(${transactionItems.hsnCode}), '') = ''`))
+        .orderBy(products.name);
+
+      const totals = hsnSummary.reduce(
+        (sum, row) => ({
+          taxableValue: roundCurrency(sum.taxableValue + row.taxableValue),
+          cgst: roundCurrency(sum.cgst + row.cgst),
+          sgst: roundCurrency(sum.sgst + row.sgst),
+          igst: roundCurrency(sum.igst + row.igst),
+          totalTax: roundCurrency(sum.totalTax + row.totalTax),
+        }),
+        { taxableValue: 0, cgst: 0, sgst: 0, igst: 0, totalTax: 0 }
+      );
+
+      return {
+        startDate: filters.startDate,
+        endDate: filters.endDate,
+        hsnSummary,
+        b2cSummary,
+        invoices,
+        documents,
+        productsWithoutHsn: withoutHsn.map(row => row.name),
+        totals,
+      };
+    } catch (error) {
+      console.error('Error getting tax report:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get report data for export
    */
@@ -548,7 +982,12 @@ export class ReportService {
             'Total Revenue': p.totalRevenue,
             'Transaction Count': p.transactionCount,
             'Average Order Value': p.averageOrderValue.toFixed(2),
+            'Net Sales': p.netSales,
+            'Cost of Goods': p.costOfGoods,
+            'Gross Margin': p.grossMargin,
+            'Margin %': p.marginPercent,
             'Current Stock': p.currentStock,
+            'Stock Value at Cost': p.stockValue,
             'Last Sold': p.lastSoldAt ? formatDateOnly(p.lastSoldAt) : 'Never',
           }));
 
@@ -565,6 +1004,8 @@ export class ReportService {
               'Total Transactions': report.totalTransactions,
               'Total Tax': report.totalTax,
               'Total Discount': report.totalDiscount,
+              'Total Refunds': report.totalRefunds,
+              'Returns': report.totalReturns,
               'Cash Sales': report.paymentMethodBreakdown.cash.amount,
               'Cash Transactions': report.paymentMethodBreakdown.cash.count,
               'UPI Sales': report.paymentMethodBreakdown.upi.amount,
@@ -10,6 +10,7 @@ import {
 } from "@/lib/db/schema";
 import { getDb } from "@/lib/db/connection";
 import { searchService } from "@/services/database/search";
+import { Barcode } from "@/services/barcode/barcode";
 import type {
   SearchQuery,
   SearchResult,
@@ -171,6 +172,8 @@ export class SearchEngine {
     }
 
     const searchTerm = `%${terms.join('%')}%`;
+    // A typed or scanned ISBN/EAN finds the product its variant is linked to
+    const barcode = Barcode.normalize(searchQuery.query);
     
     const results = await this.db
       .select({
@@ -185,7 +188,8 @@ export class SearchEngine {
           or(
             like(products.name, searchTerm),
             like(products.description, searchTerm),
-            like(products.keywords, searchTerm)
+            like(products.keywords, searchTerm),
+            sql`${products.id} IN (SELECT ${productVariants.productId} FROM ${productVariants} WHERE ${productVariants.barcode} = ${barcode})`
           )
         )
       )
@@ -9,6 +9,16 @@ export class SettingsService {
 
   private constructor() {
     this.settings = this.loadSettings();
+
+    // Pick up changes saved in another window, e.g. the customer display following the till
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (event.key === SETTINGS_KEY) {
+          this.settings = this.loadSettings();
+          this.notifyListeners();
+        }
+      });
+    }
   }
 
   static getInstance(): SettingsService {
@@ -155,6 +165,18 @@ export class SettingsService {
       errors.push('PIN minimum length must be at least 4');
     }
 
+    if (settings.sales?.heldCartExpiryMinutes !== undefined && settings.sales.heldCartExpiryMinutes < 5) {
+      errors.push('Held sale expiry must be at least 5 minutes');
+    }
+
+    if (settings.tax?.gstin && !/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(settings.tax.gstin)) {
+      errors.push('GSTIN must be a valid 15-character GST number');
+    }
+
+    if (settings.donations?.trustPan && !/^[A-Z]{5}\d{4}[A-Z]$/.test(settings.donations.trustPan)) {
+      errors.push('Trust PAN must be a valid 10-character PAN');
+    }
+
     if (settings.sync?.interval !== undefined && settings.sync.interval < 1) {
       errors.push('Sync interval must be at least 1 minute');
     }
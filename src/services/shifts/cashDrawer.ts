@@ -0,0 +1,35 @@
+import { SHIFT_CONFIG } from '@/lib/constants';
+import { CASH_DENOMINATIONS, type CashCount } from '@/types/shift';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Cash drawer arithmetic for closing a shift. Shared by the close-shift form
+ * (live totals) and the shift service (recorded figures).
+ */
+export class CashDrawer {
+  /**
+   * Total value of a denomination count
+   */
+  static count(cashCount: CashCount): number {
+    const notes = CASH_DENOMINATIONS.reduce(
+      (sum, denomination) => sum + denomination * (cashCount.notes[denomination] || 0),
+      0
+    );
+    return roundCurrency(notes + (cashCount.coins || 0));
+  }
+
+  /**
+   * Counted minus expected; negative means the drawer is short
+   */
+  static variance(expectedCash: number, countedCash: number): number {
+    return roundCurrency(countedCash - expectedCash);
+  }
+
+  /**
+   * Whether a variance is large enough to need a manager's sign-off
+   */
+  static needsApproval(variance: number): boolean {
+    return Math.abs(variance) > SHIFT_CONFIG.VARIANCE_APPROVAL_THRESHOLD;
+  }
+}
@@ -0,0 +1,106 @@
+import type { TaxLineInput, TaxLineResult, TaxBreakupRow, TaxedSale, SaleTaxSummary } from '@/types/tax';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Works out GST on sale lines. Used by the cart store for the live total and
+ * by the transaction service when the sale is recorded.
+ *
+ * Intra-state sales split the tax equally into CGST and SGST; inter-state
+ * sales charge the whole amount as IGST.
+ */
+export class GstCalculator {
+  /**
+   * Calculate the tax on a single line
+   */
+  static calculateLine(input: TaxLineInput): TaxLineResult {
+    const amount = roundCurrency(input.amount);
+    const rate = input.taxRate || 0;
+
+    let taxableValue: number;
+    let totalTax: number;
+
+    if (rate <= 0) {
+      taxableValue = amount;
+      totalTax = 0;
+    } else if (input.priceIncludesTax) {
+      // Back the tax out of the tag price
+      taxableValue = roundCurrency(amount / (1 + rate / 100));
+      totalTax = roundCurrency(amount - taxableValue);
+    } else {
+      taxableValue = amount;
+      totalTax = roundCurrency(amount * (rate / 100));
+    }
+
+    if (input.interState) {
+      return {
+        taxableValue,
+        cgst: 0,
+        sgst: 0,
+        igst: totalTax,
+        totalTax,
+        lineTotal: roundCurrency(taxableValue + totalTax),
+      };
+    }
+
+    const cgst = roundCurrency(totalTax / 2);
+    return {
+      taxableValue,
+      cgst,
+      sgst: roundCurrency(totalTax - cgst),
+      igst: 0,
+      totalTax,
+      lineTotal: roundCurrency(taxableValue + totalTax),
+    };
+  }
+
+  /**
+   * Group line taxes by rate for the breakup printed on receipts
+   */
+  static summarize(
+    lines: Array<Pick<TaxLineResult, 'taxableValue' | 'cgst' | 'sgst' | 'igst'> & { taxRate: number }>
+  ): TaxBreakupRow[] {
+    const byRate = new Map<number, TaxBreakupRow>();
+
+    lines.forEach(line => {
+      const row = byRate.get(line.taxRate) || {
+        rate: line.taxRate,
+        taxableValue: 0,
+        cgst: 0,
+        sgst: 0,
+        igst: 0,
+        totalTax: 0,
+      };
+
+      row.taxableValue = roundCurrency(row.taxableValue + line.taxableValue);
+      row.cgst = roundCurrency(row.cgst + line.cgst);
+      row.sgst = roundCurrency(row.sgst + line.sgst);
+      row.igst = roundCurrency(row.igst + line.igst);
+      row.totalTax = roundCurrency(row.cgst + row.sgst + row.igst);
+      byRate.set(line.taxRate, row);
+    });
+
+    return Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+  }
+
+  /**
+   * Summarise the GST on a recorded sale for receipts
+   */
+  static summarizeSale(sale: TaxedSale): SaleTaxSummary {
+    const addedTax = Math.max(0, roundCurrency(sale.total - sale.subtotal + (sale.discount || 0)));
+
+    return {
+      tax: addedTax,
+      taxBreakup: this.summarize(
+        sale.items.map(item => ({
+          taxRate: item.taxRate || 0,
+          taxableValue: item.taxableValue || 0,
+          cgst: item.cgst || 0,
+          sgst: item.sgst || 0,
+          igst: item.igst || 0,
+        }))
+      ),
+      pricesIncludeTax: (sale.tax || 0) - addedTax > 0.005,
+    };
+  }
+}
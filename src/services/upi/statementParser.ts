@@ -0,0 +1,212 @@
+import type { UpiStatementCredit } from '@/types/upi';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Banks put a few lines of account details above the header row
+const HEADER_SEARCH_ROWS = 25;
+
+interface StatementColumns {
+  date: number;
+  time: number;
+  credit: number; // Credit (deposit) column, or the amount column when there is only one
+  type: number; // Cr/Dr marker next to a single amount column
+  utr: number;
+  narration: number;
+}
+
+export interface ParsedStatement {
+  credits: UpiStatementCredit[];
+  skipped: number; // Debits, blank and summary rows
+}
+
+const findColumn = (headers: string[], patterns: RegExp[], exclude: number[] = []): number => {
+  for (const pattern of patterns) {
+    const index = headers.findIndex((header, i) => !exclude.includes(i) && pattern.test(header));
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+/**
+ * Reads bank and PSP statement CSV exports (SBI, HDFC, Paytm, PhonePe Business and the like)
+ * into UPI credits. Columns are found by their header names, since every bank lays them out differently.
+ */
+export class UpiStatementParser {
+  /**
+   * Split CSV text into rows, honouring quoted fields with commas, quotes and line breaks
+   */
+  static parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const source = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (inQuotes) {
+        if (char === '"' && source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && source[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows.map(cells => cells.map(cell => cell.trim()));
+  }
+
+  /**
+   * A statement date such as 19/10/2026, 19-Oct-26, 2026-10-19 or 19/10/2026 14:05:09, in local time
+   */
+  static parseDate(value: string): { date: Date; timeKnown: boolean } | null {
+    const text = value.trim();
+    const time = /(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i.exec(text);
+
+    let year: number;
+    let month: number;
+    let day: number;
+
+    const isoDate = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+    const numericDate = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/.exec(text);
+    const namedDate = /^(\d{1,2})[\s/-]([a-z]{3})[a-z]*[\s/-](\d{2,4})/i.exec(text);
+
+    if (isoDate) {
+      [year, month, day] = [Number(isoDate[1]), Number(isoDate[2]), Number(isoDate[3])];
+    } else if (numericDate) {
+      // Indian statements write the day first
+      [day, month, year] = [Number(numericDate[1]), Number(numericDate[2]), Number(numericDate[3])];
+    } else if (namedDate) {
+      day = Number(namedDate[1]);
+      month = MONTHS.indexOf(namedDate[2].toLowerCase()) + 1;
+      year = Number(namedDate[3]);
+    } else {
+      return null;
+    }
+
+    if (year < 100) year += 2000;
+    if (month < 1 || month > 12 || day < 1 || day > 31) {
+      return null;
+    }
+
+    let hours = 0;
+    let minutes = 0;
+    let seconds = 0;
+    if (time) {
+      hours = Number(time[1]) % (time[4] ? 12 : 24);
+      if (time[4]?.toLowerCase() === 'pm') hours += 12;
+      minutes = Number(time[2]);
+      seconds = Number(time[3] || 0);
+    }
+
+    const date = new Date(year, month - 1, day, hours, minutes, seconds);
+    if (date.getDate() !== day) {
+      return null;
+    }
+
+    return { date, timeKnown: !!time };
+  }
+
+  /**
+   * An amount such as "1,250.00", "₹ 500" or "500.00 CR"; null for an empty cell
+   */
+  static parseAmount(value: string): number | null {
+    const cleaned = value.replace(/[₹,\s]/g, '').replace(/(INR|Rs\.?|CR|DR)/gi, '');
+    if (!cleaned || cleaned === '-') {
+      return null;
+    }
+
+    const amount = Number(cleaned);
+    return Number.isFinite(amount) ? amount : null;
+  }
+
+  private static findColumns(row: string[]): StatementColumns | null {
+    const headers = row.map(cell => cell.toLowerCase());
+
+    const date = findColumn(headers, [/^(txn|tran|transaction)\.? ?date/, /^date/, /date/]);
+    const credit = findColumn(headers, [/credit|deposit/, /^amount|amount/]);
+    if (date < 0 || credit < 0) {
+      return null;
+    }
+
+    return {
+      date,
+      time: findColumn(headers, [/time/], [date]),
+      credit,
+      type: findColumn(headers, [/^(cr\/dr|dr\/cr|type|txn type)$/, /cr\/dr|dr\/cr/], [credit]),
+      utr: findColumn(headers, [/utr|rrn/, /ref/, /transaction id|txn id/], [date, credit]),
+      narration: findColumn(headers, [/narration|description|remarks|particulars|details/], [date, credit]),
+    };
+  }
+
+  /**
+   * Read the credits from a statement; debits and rows that aren't transactions are skipped
+   */
+  static parse(text: string): ParsedStatement {
+    const rows = this.parseCsv(text);
+
+    let headerIndex = -1;
+    let columns: StatementColumns | null = null;
+    for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_ROWS); i++) {
+      columns = this.findColumns(rows[i]);
+      if (columns) {
+        headerIndex = i;
+        break;
+      }
+    }
+
+    if (!columns) {
+      throw new Error('Could not find the date and amount columns in the statement');
+    }
+
+    const credits: UpiStatementCredit[] = [];
+    let skipped = 0;
+
+    for (const row of rows.slice(headerIndex + 1)) {
+      const cell = (index: number) => (index >= 0 ? row[index] || '' : '');
+
+      const time = cell(columns.time);
+      const posted = this.parseDate(time ? `${cell(columns.date)} ${time}` : cell(columns.date));
+      const amount = this.parseAmount(cell(columns.credit));
+      const type = cell(columns.type).toLowerCase();
+      const isDebit = type.startsWith('d') || /dr\s*$/i.test(cell(columns.credit));
+
+      if (!posted || amount === null || amount <= 0 || isDebit) {
+        skipped++;
+        continue;
+      }
+
+      credits.push({
+        postedAt: posted.date,
+        timeKnown: posted.timeKnown,
+        amount: Math.round(amount * 100) / 100,
+        utr: cell(columns.utr) || null,
+        narration: cell(columns.narration) || null,
+      });
+    }
+
+    return { credits, skipped };
+  }
+}
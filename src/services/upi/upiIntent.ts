@@ -0,0 +1,53 @@
+import type { UpiPaymentRequest } from '@/types/upi';
+
+const REFERENCE_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Builds the upi://pay links behind the payment QR shown at the till. Any UPI app
+ * scanning one opens with our account, the amount and our reference filled in.
+ */
+export class UpiIntent {
+  /**
+   * A VPA such as iskconasansol@sbi
+   */
+  static isValidVpa(vpa: string): boolean {
+    return /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/.test(vpa.trim());
+  }
+
+  /**
+   * A reference for one payment request: the prefix, the time in base 36 and two random characters.
+   * UPI allows up to 35 letters and digits.
+   */
+  static generateReference(prefix: string, now: Date = new Date()): string {
+    const random = Array.from({ length: 2 }, () =>
+      REFERENCE_ALPHABET[Math.floor(Math.random() * REFERENCE_ALPHABET.length)]
+    ).join('');
+    const cleanPrefix = prefix.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 10);
+    return `${cleanPrefix}${now.getTime().toString(36).toUpperCase()}${random}`;
+  }
+
+  /**
+   * The upi://pay link for an amount, following the NPCI deep linking spec
+   */
+  static buildUri(request: UpiPaymentRequest): string {
+    if (!this.isValidVpa(request.vpa)) {
+      throw new Error('Set the store UPI ID (VPA) in settings first');
+    }
+    if (!(request.amount > 0)) {
+      throw new Error('UPI amount must be greater than 0');
+    }
+
+    const params = [
+      `pa=${encodeURIComponent(request.vpa.trim())}`,
+      `pn=${encodeURIComponent(request.payeeName.trim())}`,
+      `am=${request.amount.toFixed(2)}`,
+      'cu=INR',
+      `tr=${encodeURIComponent(request.reference)}`,
+    ];
+    if (request.note) {
+      params.push(`tn=${encodeURIComponent(request.note.slice(0, 50))}`);
+    }
+
+    return `upi://pay?${params.join('&')}`;
+  }
+}
@@ -1,5 +1,12 @@
 import { create } from 'zustand';
 import type { Product, ProductVariant, CustomVariantData } from '@/types';
+import type { Promotion, PricingResult } from '@/types/promotion';
+import type { Customer } from '@/types/customer';
+import type { CartDonation } from '@/types/donation';
+import type { MembershipTier } from '@/types/loyalty';
+import { PromotionEngine } from '@/services/promotions/promotionEngine';
+import { GstCalculator } from '@/services/tax/gstCalculator';
+import { MemberPricing } from '@/services/loyalty/memberPricing';
 import { useNotificationStore } from './notificationStore';
 
 export interface CartItem {
@@ -15,18 +22,118 @@ export interface CartItem {
 
 interface CartStore {
   items: CartItem[];
+  subtotal: number;
+  discount: number;
+  // Discount the cashier gives off the whole sale, on top of promotions; large ones need a manager
+  saleDiscount: number;
+  // All GST in the cart, and the part of it added on top of tax-exclusive prices
+  tax: number;
+  addedTax: number;
   total: number;
+  pricing: PricingResult;
+  promotions: Promotion[];
+  // Who the sale is for; anonymous when null
+  customer: Customer | null;
+  // The customer's membership tier, whose prices the cart is charged at
+  tier: MembershipTier | null;
+  // Donations rung up with the sale; tax-exempt and added to the total as they are
+  donations: CartDonation[];
+  donationTotal: number;
   addItem: (product: Product, variant?: ProductVariant, quantity?: number) => void;
   addCustomItem: (product: Product, customData: CustomVariantData, quantity?: number) => void;
   removeItem: (productId: string, variantId?: string, isCustom?: boolean) => void;
   updateQuantity: (productId: string, variantId: string | undefined, quantity: number, isCustom?: boolean) => void;
   clearCart: () => void;
+  loadCart: (items: CartItem[]) => void;
+  setPromotions: (promotions: Promotion[]) => void;
+  setCustomer: (customer: Customer | null) => void;
+  setMemberTier: (tier: MembershipTier | null) => void;
+  addDonation: (purpose: string, amount: number) => void;
+  removeDonation: (id: string) => void;
+  setSaleDiscount: (amount: number) => void;
   getItemCount: () => number;
 }
 
+export const getItemPrice = (item: CartItem): number =>
+  item.isCustomVariant
+    ? item.customVariantData?.customPrice || item.product.basePrice
+    : item.variant?.price || item.product.basePrice;
+
+// What the attached customer pays for an item, after their membership tier's pricing
+export const getMemberItemPrice = (item: CartItem, tier: MembershipTier | null): number =>
+  MemberPricing.priceFor(tier, {
+    productId: item.productId,
+    variantId: item.variantId,
+    unitPrice: getItemPrice(item),
+    isCustomVariant: item.isCustomVariant,
+  });
+
+const emptyPricing: PricingResult = {
+  subtotal: 0,
+  discount: 0,
+  total: 0,
+  lines: [],
+  cartPromotions: [],
+};
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Price the cart with member prices, the active promotions and GST; pricing.lines lines up with items
+const priceCart = (
+  items: CartItem[],
+  promotions: Promotion[],
+  donations: CartDonation[],
+  tier: MembershipTier | null,
+  saleDiscount: number = 0
+) => {
+  const pricing = PromotionEngine.evaluate(
+    items.map(item => ({
+      productId: item.productId,
+      categoryId: item.product.categoryId,
+      unitPrice: getMemberItemPrice(item, tier),
+      quantity: item.quantity,
+      excludeFromPromotions: item.isCustomVariant,
+    })),
+    promotions
+  );
+
+  // Must match TransactionService.createTransaction so the payment total agrees with the server
+  const lineTaxes = items.map((item, index) => GstCalculator.calculateLine({
+    amount: pricing.lines[index].lineTotal - pricing.lines[index].discount,
+    taxRate: item.product.taxRate || 0,
+    priceIncludesTax: item.product.priceIncludesTax ?? true,
+  }));
+  const itemsTotal = roundCurrency(lineTaxes.reduce((sum, line) => sum + line.lineTotal, 0));
+  const donationTotal = roundCurrency(donations.reduce((sum, donation) => sum + donation.amount, 0));
+  // Taken off what the items come to, never off donations
+  const appliedSaleDiscount = roundCurrency(Math.min(Math.max(saleDiscount, 0), itemsTotal));
+
+  return {
+    pricing,
+    subtotal: pricing.subtotal,
+    discount: pricing.discount,
+    saleDiscount: appliedSaleDiscount,
+    tax: roundCurrency(lineTaxes.reduce((sum, line) => sum + line.totalTax, 0)),
+    addedTax: roundCurrency(itemsTotal - pricing.total),
+    donationTotal,
+    total: roundCurrency(itemsTotal - appliedSaleDiscount + donationTotal),
+  };
+};
+
 export const useCartStore = create<CartStore>((set, get) => ({
   items: [],
+  subtotal: 0,
+  discount: 0,
+  saleDiscount: 0,
+  tax: 0,
+  addedTax: 0,
   total: 0,
+  pricing: emptyPricing,
+  promotions: [],
+  customer: null,
+  tier: null,
+  donations: [],
+  donationTotal: 0,
 
   addItem: (product: Product, variant?: ProductVariant, quantity = 1) => {
     const { items } = get();
@@ -53,14 +160,7 @@ export const useCartStore = create<CartStore>((set, get) => ({
       newItems = [...items, newItem];
     }
 
-    const total = newItems.reduce((sum, item) => {
-      const price = item.isCustomVariant 
-        ? item.customVariantData?.customPrice || item.product.basePrice
-        : item.variant?.price || item.product.basePrice;
-      return sum + (price * item.quantity);
-    }, 0);
-
-    set({ items: newItems, total });
+    set({ items: newItems, ...priceCart(newItems, get().promotions, get().donations, get().tier, get().saleDiscount) });
 
     // Show notification
     const productName = variant ? `${product.name} - ${variant.name}` : product.name;
@@ -86,14 +186,7 @@ export const useCartStore = create<CartStore>((set, get) => ({
     
     const newItems = [...items, newItem];
 
-    const total = newItems.reduce((sum, item) => {
-      const price = item.isCustomVariant 
-        ? item.customVariantData?.customPrice || item.product.basePrice
-        : item.variant?.price || item.product.basePrice;
-      return sum + (price * item.quantity);
-    }, 0);
-
-    set({ items: newItems, total });
+    set({ items: newItems, ...priceCart(newItems, get().promotions, get().donations, get().tier, get().saleDiscount) });
 
     // Show notification
     const customDescription = customData.customDescription ? ` (${customData.customDescription})` : '';
@@ -111,14 +204,7 @@ export const useCartStore = create<CartStore>((set, get) => ({
       item => !(item.productId === productId && item.variantId === variantId)
     );
 
-    const total = newItems.reduce((sum, item) => {
-      const price = item.isCustomVariant 
-        ? item.customVariantData?.customPrice || item.product.basePrice
-        : item.variant?.price || item.product.basePrice;
-      return sum + (price * item.quantity);
-    }, 0);
-
-    set({ items: newItems, total });
+    set({ items: newItems, ...priceCart(newItems, get().promotions, get().donations, get().tier, get().saleDiscount) });
   },
 
   updateQuantity: (productId: string, variantId: string | undefined, quantity: number, isCustom?: boolean) => {
@@ -135,18 +221,72 @@ export const useCartStore = create<CartStore>((set, get) => ({
       return item;
     });
 
-    const total = newItems.reduce((sum, item) => {
-      const price = item.isCustomVariant 
-        ? item.customVariantData?.customPrice || item.product.basePrice
-        : item.variant?.price || item.product.basePrice;
-      return sum + (price * item.quantity);
-    }, 0);
-
-    set({ items: newItems, total });
+    set({ items: newItems, ...priceCart(newItems, get().promotions, get().donations, get().tier, get().saleDiscount) });
   },
 
   clearCart: () => {
-    set({ items: [], total: 0 });
+    set({
+      items: [],
+      subtotal: 0,
+      discount: 0,
+      saleDiscount: 0,
+      tax: 0,
+      addedTax: 0,
+      total: 0,
+      pricing: emptyPricing,
+      customer: null,
+      tier: null,
+      donations: [],
+      donationTotal: 0,
+    });
+  },
+
+  // Replace the cart contents, e.g. when resuming a held sale
+  loadCart: (items: CartItem[]) => {
+    const newItems = items.map(item => ({ ...item }));
+
+    // Held sales keep only the items, so any sale discount is given again
+    set({ items: newItems, ...priceCart(newItems, get().promotions, get().donations, get().tier) });
+  },
+
+  // Re-price the current cart whenever the active promotions change
+  setPromotions: (promotions: Promotion[]) => {
+    set({ promotions, ...priceCart(get().items, promotions, get().donations, get().tier, get().saleDiscount) });
+  },
+
+  setCustomer: (customer: Customer | null) => {
+    // A different customer, or none, means regular prices until their tier is loaded
+    if (!customer || customer.id !== get().customer?.id) {
+      const { items, promotions, donations, saleDiscount } = get();
+      set({ customer, tier: null, ...priceCart(items, promotions, donations, null, saleDiscount) });
+      return;
+    }
+    set({ customer });
+  },
+
+  // Re-price the cart at the attached customer's membership tier
+  setMemberTier: (tier: MembershipTier | null) => {
+    const { items, promotions, donations, saleDiscount } = get();
+    set({ tier, ...priceCart(items, promotions, donations, tier, saleDiscount) });
+  },
+
+  addDonation: (purpose: string, amount: number) => {
+    const { items, promotions, donations, tier, saleDiscount } = get();
+    const newDonations = [...donations, { id: `donation-${Date.now()}`, purpose, amount: roundCurrency(amount) }];
+
+    set({ donations: newDonations, ...priceCart(items, promotions, newDonations, tier, saleDiscount) });
+  },
+
+  removeDonation: (id: string) => {
+    const { items, promotions, donations, tier, saleDiscount } = get();
+    const newDonations = donations.filter(donation => donation.id !== id);
+
+    set({ donations: newDonations, ...priceCart(items, promotions, newDonations, tier, saleDiscount) });
+  },
+
+  setSaleDiscount: (amount: number) => {
+    const { items, promotions, donations, tier } = get();
+    set({ ...priceCart(items, promotions, donations, tier, amount) });
   },
 
   getItemCount: () => {
@@ -0,0 +1,24 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface TerminalStore {
+  // Location this till sells from; null sells from the default location
+  locationId: string | null;
+  setLocationId: (locationId: string | null) => void;
+}
+
+// Settings that belong to this device rather than the logged-in user
+export const useTerminalStore = create<TerminalStore>()(
+  persist(
+    (set) => ({
+      locationId: null,
+
+      setLocationId: (locationId) => {
+        set({ locationId });
+      },
+    }),
+    {
+      name: 'baikuntha-terminal',
+    }
+  )
+);
@@ -1,9 +1,13 @@
-export type UserRole = 'admin' | 'manager' | 'cashier';
+// The id of a role in the roles table; admin, manager and cashier are built in
+export type UserRole = string;
+
+export type BuiltInRole = 'admin' | 'manager' | 'cashier';
 
 export interface AuthUser {
   id: string;
   username: string;
   role: UserRole;
+  permissions: Permission[];
   isActive: boolean;
   lastLoginAt?: Date;
 }
@@ -17,8 +21,19 @@ export interface LoginResponse {
   success: boolean;
   user?: AuthUser;
   message?: string;
+  retryAfterSeconds?: number; // Set when the username or device is being held off
+}
+
+// Where a login attempt comes from, for per-device throttling and the audit log
+export interface LoginContext {
+  deviceId?: string;
+  ipAddress?: string;
+  userAgent?: string;
 }
 
+// Terminals that haven't been given a device id yet share one allowance of failed logins
+export const UNREGISTERED_DEVICE_ID = 'unregistered';
+
 export interface SessionData {
   userId: string;
   username: string;
@@ -29,27 +44,87 @@ export interface SessionData {
 
 export interface AuthConfig {
   sessionTimeoutMinutes: number;
-  maxLoginAttempts: number;
-  lockoutDurationMinutes: number;
+  maxLoginAttempts: number; // Failed PINs for one username before it is locked out
+  maxDeviceLoginAttempts: number; // Failed PINs from one device, across usernames
+  loginBackoffSeconds: number; // Wait after the first failure; doubles with each one after
+  lockoutDurationMinutes: number; // First lockout; doubles with each failure past the limit
+  maxLockoutHours: number; // Longest lockout, and how long failures are remembered
+  pinCheckHoldSeconds: number; // How long a PIN being checked holds off other tries for the same username or device
 }
 
 export const DEFAULT_AUTH_CONFIG: AuthConfig = {
   sessionTimeoutMinutes: 30,
   maxLoginAttempts: 5,
+  maxDeviceLoginAttempts: 20,
+  loginBackoffSeconds: 1,
   lockoutDurationMinutes: 15,
+  maxLockoutHours: 24,
+  pinCheckHoldSeconds: 10,
 };
 
-export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
-  admin: ['users:read', 'users:write', 'products:read', 'products:write', 'transactions:read', 'transactions:write', 'reports:read'],
-  manager: ['products:read', 'products:write', 'transactions:read', 'transactions:write', 'reports:read'],
-  cashier: ['transactions:read', 'transactions:write'],
+export const PERMISSION_CATALOGUE = [
+  { id: 'sales.create', group: 'Sales', label: 'Ring up sales', description: 'Use the till and take payments' },
+  { id: 'sales.refund', group: 'Sales', label: 'Process returns', description: 'Refund items from earlier sales' },
+  { id: 'sales.void', group: 'Sales', label: 'Void sales', description: 'Cancel a sale from the open shift' },
+  { id: 'sales.override', group: 'Sales', label: 'Approve overrides', description: 'Enter a PIN to approve price overrides, large discounts, returns and voids' },
+  { id: 'shifts.manage', group: 'Sales', label: 'Manage shifts', description: 'See every shift and approve cash-up variances' },
+  { id: 'customers.manage', group: 'Customers', label: 'Manage customers', description: 'Membership tiers, loyalty points and vouchers' },
+  { id: 'promotions.manage', group: 'Customers', label: 'Manage promotions', description: 'Create and schedule promotions' },
+  { id: 'inventory.manage', group: 'Inventory', label: 'Manage catalogue', description: 'Products, categories, barcodes and locations' },
+  { id: 'inventory.adjust', group: 'Inventory', label: 'Adjust stock', description: 'Stock adjustments, batches, stock-takes and transfers' },
+  { id: 'purchasing.manage', group: 'Inventory', label: 'Manage purchasing', description: 'Suppliers and purchase orders' },
+  { id: 'reports.view', group: 'Reports', label: 'View reports', description: 'Sales, tax and product reports and the manager dashboard' },
+  { id: 'reports.export', group: 'Reports', label: 'Export reports', description: 'Download reports and schedule emailed reports' },
+  { id: 'payments.reconcile', group: 'Reports', label: 'Reconcile payments', description: 'Import bank statements and match UPI credits' },
+  { id: 'settings.manage', group: 'Administration', label: 'Manage settings', description: 'Store settings and sync' },
+  { id: 'users.manage', group: 'Administration', label: 'Manage users', description: 'Staff accounts and roles' },
+] as const;
+
+export type Permission = typeof PERMISSION_CATALOGUE[number]['id'];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_CATALOGUE.map(permission => permission.id);
+
+// Seeded into the roles table; admin always holds every permission
+export const DEFAULT_ROLE_PERMISSIONS: Record<BuiltInRole, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  manager: [
+    'sales.create', 'sales.refund', 'sales.void', 'sales.override', 'shifts.manage',
+    'customers.manage', 'promotions.manage',
+    'inventory.manage', 'inventory.adjust', 'purchasing.manage',
+    'reports.view', 'reports.export', 'payments.reconcile', 'settings.manage',
+  ],
+  cashier: ['sales.create', 'sales.refund', 'sales.void'],
 };
 
-export type Permission =
-  | 'users:read'
-  | 'users:write'
-  | 'products:read'
-  | 'products:write'
-  | 'transactions:read'
-  | 'transactions:write'
-  | 'reports:read';
+export interface Role {
+  id: UserRole;
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+  isSystem: boolean;
+  userCount?: number;
+}
+
+/**
+ * Permissions a role grants, from its stored list (unknown entries dropped) or
+ * the built-in defaults when it has none
+ */
+export function rolePermissions(role: UserRole, stored?: string[] | null): Permission[] {
+  if (role === 'admin') return ALL_PERMISSIONS;
+  if (stored) return ALL_PERMISSIONS.filter(permission => stored.includes(permission));
+  return DEFAULT_ROLE_PERMISSIONS[role as BuiltInRole] || [];
+}
+
+// Till actions a cashier can only carry out with a manager's PIN
+export type OverrideReason = 'expired_stock' | 'price_override' | 'large_discount' | 'return' | 'void';
+
+// A discount on a sale larger than this share of its subtotal needs a manager
+export const LARGE_DISCOUNT_PERCENT = 10;
+
+export const OVERRIDE_PROMPTS: Record<OverrideReason, string> = {
+  expired_stock: 'This sale includes expired stock',
+  price_override: 'This sale has items priced below their list price',
+  large_discount: `Discounts over ${LARGE_DISCOUNT_PERCENT}% need a manager`,
+  return: 'Refunds need a manager',
+  void: 'Voiding a sale needs a manager',
+};
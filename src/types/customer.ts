@@ -0,0 +1,54 @@
+export type CustomerLanguage = 'en' | 'hi' | 'bn';
+
+export const CUSTOMER_LANGUAGE_LABELS: Record<CustomerLanguage, string> = {
+  en: 'English',
+  hi: 'हिन्दी',
+  bn: 'বাংলা',
+};
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  email?: string | null;
+  address?: string | null;
+  pan?: string | null;
+  preferredLanguage: CustomerLanguage;
+  tierId?: string | null; // Membership tier; regular prices when not set
+  notes?: string | null;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+}
+
+export interface CustomerPurchase {
+  id: string;
+  createdAt: Date | null;
+  total: number;
+  discount: number;
+  paymentMethod: string;
+  status: string;
+  itemCount: number;
+  refunded: number; // Returned against this sale so far
+}
+
+export interface CustomerTopProduct {
+  productId: string;
+  productName: string;
+  quantity: number;
+  spent: number;
+}
+
+export interface CustomerHistory {
+  customer: Customer;
+  summary: {
+    purchaseCount: number;
+    totalSpent: number; // Completed sales less refunds, donations left out
+    totalRefunded: number;
+    totalDonated: number;
+    averageSale: number;
+    firstPurchaseAt: Date | null;
+    lastPurchaseAt: Date | null;
+  };
+  purchases: CustomerPurchase[];
+  topProducts: CustomerTopProduct[];
+}
@@ -0,0 +1,38 @@
+import type { UpiPaymentRequest } from './upi';
+
+// One cart line as the customer sees it
+export interface CustomerDisplayLine {
+  key: string;
+  name: string;
+  detail: string | null; // Variant or custom description
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  discount: number;
+}
+
+// What the second screen shows of the sale being rung up
+export interface CustomerDisplayCart {
+  lines: CustomerDisplayLine[];
+  subtotal: number;
+  discount: number;
+  addedTax: number;
+  donationTotal: number;
+  total: number;
+  customerName: string | null;
+}
+
+// Shown on the second screen between sales
+export interface CustomerDisplaySlide {
+  id: string;
+  title: string;
+  message: string;
+  imageUrl?: string;
+}
+
+// Sent from the till to the customer display over a BroadcastChannel
+export type CustomerDisplayMessage =
+  | { type: 'cart'; cart: CustomerDisplayCart }
+  | { type: 'payment'; request: UpiPaymentRequest | null } // null takes the QR down
+  | { type: 'complete'; total: number; change: number }
+  | { type: 'request_state' }; // A display that just opened asks the till for the current cart
@@ -0,0 +1,19 @@
+// A donation line in the cart, before it is rung up
+export interface CartDonation {
+  id: string;
+  purpose: string;
+  amount: number;
+}
+
+export interface Donation {
+  id: string;
+  transactionId: string;
+  customerId: string;
+  purpose: string;
+  amount: number;
+  receiptNumber: string;
+  createdAt: Date | null;
+}
+
+// Purposes offered at the counter until settings say otherwise
+export const DEFAULT_DONATION_PURPOSES = ['Annadaan', 'Temple construction', 'Go-seva', 'General donation'];
@@ -17,6 +17,11 @@ export interface Product {
   description?: string
   basePrice: number
   categoryId: string
+  hsnCode?: string | null
+  taxRate?: number
+  priceIncludesTax?: boolean
+  supplierId?: string | null
+  trackBatches?: boolean // Sold first-expiry-first-out from dated batches
   keywords: string[]
   metadata: ProductMetadata
   isActive: boolean
@@ -31,9 +36,11 @@ export interface ProductVariant {
   productId: string
   name: string
   price: number
+  costPrice?: number // Weighted average cost to the shop, for margins
   stockQuantity: number
   attributes: Record<string, string>
   keywords: string[]
+  barcode?: string | null // ISBN-13 / EAN-13 / UPC-A, scanned at the till
   isCustom?: boolean // Flag for custom variants
 }
 
@@ -74,13 +81,26 @@ export interface Transaction {
   tax: number
   discount: number
   total: number
-  paymentMethod: 'cash' | 'upi'
+  paymentMethod: 'cash' | 'upi' | 'points' | 'voucher' | 'split'
   paymentReference?: string
+  payments?: TransactionPayment[]
+  customerId?: string | null
+  invoiceNumber?: string | null // GST invoice series, e.g. S/2026-27/000012
   status: 'completed' | 'pending' | 'cancelled'
   createdAt: Date
   syncStatus: 'synced' | 'pending' | 'failed'
 }
 
+export interface TransactionPayment {
+  id: string
+  transactionId: string
+  method: 'cash' | 'upi' | 'points' | 'voucher'
+  amount: number
+  reference?: string
+  tendered?: number
+  changeGiven?: number
+}
+
 export interface TransactionItem {
   id: string
   productId: string
@@ -0,0 +1,42 @@
+// Linear symbologies the label printers understand; EAN-13 for ISBN/EAN codes, CODE128 for the rest
+export type BarcodeFormat = 'EAN13' | 'CODE128';
+
+export type LabelSymbology = 'barcode' | 'qr';
+
+export type LabelOutput = 'thermal' | 'sheet';
+
+export interface LabelItem {
+  variantId: string;
+  productName: string;
+  variantName?: string;
+  price: number;
+  barcode?: string | null;
+  copies: number;
+}
+
+export interface LabelOptions {
+  showName: boolean;
+  showPrice: boolean;
+  symbology: LabelSymbology;
+}
+
+// A4 sticker sheet geometry, all in millimetres
+export interface LabelSheetLayout {
+  id: string;
+  name: string;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+export const LABEL_SHEET_LAYOUTS: LabelSheetLayout[] = [
+  { id: 'a4-65', name: '65 per sheet (38.1 × 21.2 mm)', columns: 5, rows: 13, labelWidth: 38.1, labelHeight: 21.2, marginTop: 10.7, marginLeft: 4.7, gapX: 2.5, gapY: 0 },
+  { id: 'a4-40', name: '40 per sheet (52.5 × 29.7 mm)', columns: 4, rows: 10, labelWidth: 52.5, labelHeight: 29.7, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+  { id: 'a4-24', name: '24 per sheet (64 × 34 mm)', columns: 3, rows: 8, labelWidth: 64, labelHeight: 34, marginTop: 12.5, marginLeft: 6.5, gapX: 2.5, gapY: 0 },
+  { id: 'a4-21', name: '21 per sheet (63.5 × 38.1 mm)', columns: 3, rows: 7, labelWidth: 63.5, labelHeight: 38.1, marginTop: 15.1, marginLeft: 7.2, gapX: 2.5, gapY: 0 },
+];
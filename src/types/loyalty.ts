@@ -0,0 +1,42 @@
+// Rupees one point is worth when redeemed as a tender
+export const POINT_VALUE = 1;
+
+export interface TierPrice {
+  id: string;
+  tierId: string;
+  productId: string;
+  // Covers every variant of the product when null
+  variantId: string | null;
+  price: number;
+  productName?: string | null;
+  variantName?: string | null;
+}
+
+export interface MembershipTier {
+  id: string;
+  name: string;
+  discountPercent: number; // Off the regular price of products missing from the price list
+  pointsPerRupee: number;
+  isActive: boolean;
+  prices: TierPrice[];
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+}
+
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'adjust';
+
+export interface LoyaltyEntry {
+  id: string;
+  customerId: string;
+  transactionId: string | null;
+  type: LoyaltyEntryType;
+  points: number; // Negative when redeemed
+  note: string | null;
+  createdAt: Date | null;
+}
+
+export interface LoyaltySummary {
+  tier: MembershipTier | null;
+  balance: number;
+  entries: LoyaltyEntry[];
+}
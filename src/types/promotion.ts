@@ -0,0 +1,53 @@
+export type PromotionType = 'percentage' | 'fixed' | 'buy_x_get_y' | 'min_quantity_price';
+export type PromotionScope = 'product' | 'category' | 'cart';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  description?: string | null;
+  type: PromotionType;
+  scope: PromotionScope;
+  productId?: string | null;
+  categoryId?: string | null;
+  // Percentage off, fixed amount off (per unit, or off the cart) or the bulk unit price
+  value: number;
+  // Buy quantity for buy-X-get-Y, threshold for minimum-quantity pricing and line discounts
+  minQuantity?: number | null;
+  // Free units for buy-X-get-Y
+  getQuantity?: number | null;
+  // Cart total required before a cart promotion applies
+  minCartTotal?: number | null;
+  // Festival window, e.g. Janmashtami week; open-ended when unset
+  startsAt?: Date | string | null;
+  endsAt?: Date | string | null;
+  isActive: boolean;
+}
+
+export interface PricingLine {
+  productId: string;
+  categoryId?: string | null;
+  unitPrice: number;
+  quantity: number;
+  // Custom-priced lines are already negotiated and never discounted further
+  excludeFromPromotions?: boolean;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  amount: number;
+}
+
+export interface PricedLine {
+  lineTotal: number;
+  discount: number;
+  appliedPromotions: AppliedPromotion[];
+}
+
+export interface PricingResult {
+  subtotal: number;
+  discount: number;
+  total: number;
+  lines: PricedLine[];
+  cartPromotions: AppliedPromotion[];
+}
@@ -0,0 +1,78 @@
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  gstin?: string | null;
+  address?: string | null;
+  notes?: string | null;
+  isActive: boolean;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+}
+
+// draft → ordered → partially_received → received; drafts and untouched orders can be cancelled
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export interface PurchaseOrderItem {
+  id: string;
+  variantId: string;
+  productId?: string | null;
+  productName?: string | null;
+  variantName?: string | null;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName?: string | null;
+  status: PurchaseOrderStatus;
+  notes?: string | null;
+  expectedAt?: Date | null;
+  orderedAt?: Date | null;
+  receivedAt?: Date | null;
+  createdBy?: string | null;
+  createdAt?: Date | null;
+  itemCount: number;
+  // Expected cost of everything ordered
+  totalCost: number;
+}
+
+export interface PurchaseOrderWithItems extends PurchaseOrder {
+  items: PurchaseOrderItem[];
+  receipts: GoodsReceipt[];
+}
+
+export interface GoodsReceiptItem {
+  id: string;
+  purchaseOrderItemId: string;
+  variantId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface GoodsReceipt {
+  id: string;
+  purchaseOrderId: string;
+  receivedBy?: string | null;
+  receiverName?: string | null;
+  supplierReference?: string | null;
+  locationId?: string | null;
+  locationName?: string | null;
+  notes?: string | null;
+  receivedAt: Date;
+  items: GoodsReceiptItem[];
+}
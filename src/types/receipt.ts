@@ -1,7 +1,13 @@
+import type { TaxBreakupRow } from './tax';
+
 export interface ReceiptData {
   id: string;
   transactionId: string;
   receiptNumber: string;
+  receiptType?: 'sale' | 'return';
+  // Set on return receipts to reference the sale being refunded
+  originalReceiptNumber?: string;
+  returnReason?: string;
   storeName: string;
   storeAddress: string;
   storePhone: string;
@@ -10,23 +16,79 @@ export interface ReceiptData {
     id: string;
     username: string;
   };
+  // Set when the sale was attached to a customer
+  customer?: {
+    id: string;
+    name: string;
+    phone: string;
+  };
   items: Array<{
     name: string;
     variant?: string;
     quantity: number;
     unitPrice: number;
     totalPrice: number;
+    hsnCode?: string;
+    // Promotions that reduced this line, printed under the item
+    promotions?: Array<{
+      name: string;
+      amount: number;
+    }>;
   }>;
   subtotal: number;
+  // GST added on top of tax-exclusive prices; GST already inside prices is only shown in the breakup
   tax: number;
   discount: number;
   total: number;
+  // GST per slab for the tax breakup table
+  taxBreakup?: TaxBreakupRow[];
+  pricesIncludeTax?: boolean;
   paymentMethod: string;
   paymentReference?: string;
+  // Per-tender breakdown when a sale was split across payment methods
+  payments?: Array<{
+    method: string;
+    amount: number;
+    reference?: string;
+  }>;
   cashReceived?: number;
   changeGiven?: number;
   timestamp: Date;
   footer: string;
+  // Donations taken with the sale; each also gets its own 80G receipt
+  donations?: DonationReceiptData[];
+  // Points the customer earned and spent on this sale, and what they have left
+  loyalty?: LoyaltyReceiptData;
+}
+
+export interface LoyaltyReceiptData {
+  tierName?: string;
+  earned: number;
+  redeemed: number;
+  balance: number;
+}
+
+// One 80G donation receipt, numbered in its own series apart from sale receipts
+export interface DonationReceiptData {
+  receiptNumber: string;
+  transactionId: string;
+  storeName: string;
+  donor: {
+    name: string;
+    phone: string;
+    address?: string;
+    pan: string;
+  };
+  purpose: string;
+  amount: number;
+  paymentMethod: string;
+  timestamp: Date;
+}
+
+// The trust's own registration, printed on every donation receipt
+export interface DonationRegistration {
+  trustPan: string;
+  registrationNumber: string;
 }
 
 export interface PrinterConfig {
@@ -1,3 +1,6 @@
+import { DEFAULT_DONATION_PURPOSES } from './donation';
+import type { CustomerDisplaySlide } from './customerDisplay';
+
 export interface SystemSettings {
   // System Preferences
   language: 'en' | 'hi' | 'bn';
@@ -31,6 +34,31 @@ export interface SystemSettings {
     showBarcode: boolean;
   };
 
+  // Sales Counter
+  sales: {
+    heldCartExpiryMinutes: number; // Parked carts expire after this long
+  };
+
+  // GST Registration
+  tax: {
+    gstin: string;
+    stateCode: string; // Two-digit GST state code of the store
+  };
+
+  // UPI collection account
+  upi: {
+    vpa: string; // e.g. iskconasansol@sbi; payments go here
+    payeeName: string; // Name shown in the customer's UPI app
+    referencePrefix: string; // Starts every payment reference, so our requests are easy to spot on statements
+  };
+
+  // 80G Donation Receipts
+  donations: {
+    purposes: string[]; // Offered at the till, in this order
+    trustPan: string;
+    registrationNumber: string; // 80G approval number printed on every receipt
+  };
+
   // Sync Settings
   sync: {
     mode: 'automatic' | 'manual';
@@ -76,6 +104,12 @@ export interface SystemSettings {
     colorBlindMode: boolean;
   };
 
+  // Customer-facing second screen at the till
+  customerDisplay: {
+    slideIntervalSeconds: number;
+    slides: CustomerDisplaySlide[]; // Festival announcements and featured books shown between sales
+  };
+
   // Notification Preferences
   notifications: {
     syncStatus: boolean;
@@ -150,6 +184,27 @@ export const DEFAULT_SETTINGS: SystemSettings = {
     showBarcode: false,
   },
   
+  sales: {
+    heldCartExpiryMinutes: 240,
+  },
+
+  tax: {
+    gstin: '',
+    stateCode: '19',
+  },
+
+  upi: {
+    vpa: '',
+    payeeName: 'ISKCON Asansol Temple',
+    referencePrefix: 'ISKA',
+  },
+
+  donations: {
+    purposes: [...DEFAULT_DONATION_PURPOSES],
+    trustPan: '',
+    registrationNumber: '',
+  },
+  
   sync: {
     mode: 'automatic',
     interval: 5,
@@ -190,6 +245,17 @@ export const DEFAULT_SETTINGS: SystemSettings = {
     highContrast: false,
     colorBlindMode: false,
   },
+
+  customerDisplay: {
+    slideIntervalSeconds: 8,
+    slides: [
+      {
+        id: 'welcome',
+        title: 'Hare Krishna!',
+        message: 'Welcome to the ISKCON Asansol Temple Gift & Book Store',
+      },
+    ],
+  },
   
   notifications: {
     syncStatus: true,
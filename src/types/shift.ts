@@ -0,0 +1,62 @@
+// Notes counted separately at close; everything smaller goes in as loose coins
+export const CASH_DENOMINATIONS = [2000, 500, 200, 100, 50, 20, 10] as const;
+
+export type CashDenomination = (typeof CASH_DENOMINATIONS)[number];
+
+export type ShiftStatus = 'open' | 'pending_approval' | 'closed';
+
+export interface CashCount {
+  // Number of notes per denomination, keyed by face value
+  notes: Partial<Record<CashDenomination, number>>;
+  // Total value of coins and small change
+  coins: number;
+}
+
+export interface Shift {
+  id: string;
+  userId: string;
+  userName?: string;
+  status: ShiftStatus;
+  openingFloat: number;
+  expectedCash?: number | null;
+  countedCash?: number | null;
+  variance?: number | null;
+  cashCount?: CashCount | null;
+  closingNotes?: string | null;
+  approvedBy?: string | null;
+  approverName?: string;
+  approvedAt?: Date | null;
+  openedAt: Date;
+  closedAt?: Date | null;
+}
+
+// X report: mid-shift snapshot; Z report: final figures once the shift is closed
+export type ShiftReportType = 'X' | 'Z';
+
+export interface ShiftReport {
+  type: ShiftReportType;
+  shift: Shift;
+  generatedAt: Date;
+  transactionCount: number;
+  grossSales: number;
+  // Donations taken with sales; not in grossSales, but in the tenders below
+  donations: number;
+  discounts: number;
+  tax: number;
+  cashSales: number;
+  upiSales: number;
+  // Gift vouchers and store credit spent
+  voucherSales: number;
+  // Gift vouchers sold, cash and UPI; not sales until they are spent
+  giftVouchersSold: number;
+  refundCount: number;
+  cashRefunds: number;
+  upiRefunds: number;
+  // Refunds given as store credit
+  creditRefunds: number;
+  // Value of the points given back for what points paid
+  pointsRefunds: number;
+  netSales: number;
+  // Float + cash sales + gift vouchers sold for cash - cash refunds
+  expectedCash: number;
+}
@@ -0,0 +1,147 @@
+export type StockMovementType = 'sale' | 'return' | 'receipt' | 'adjustment' | 'transfer' | 'write_off';
+
+export const STOCK_MOVEMENT_TYPE_LABELS: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  return: 'Customer return',
+  receipt: 'Goods received',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer',
+  write_off: 'Write-off',
+};
+
+export interface StockMovement {
+  id: string;
+  variantId: string;
+  variantName?: string | null;
+  type: StockMovementType;
+  // Signed change: negative when stock leaves
+  quantity: number;
+  balanceAfter: number;
+  referenceId?: string | null;
+  locationId?: string | null;
+  locationName?: string | null;
+  reason?: string | null;
+  userId?: string | null;
+  userName?: string | null;
+  createdAt: Date;
+}
+
+// counting → posted; a session can be abandoned while still counting
+export type StockTakeStatus = 'counting' | 'posted' | 'cancelled';
+
+export interface StockTake {
+  id: string;
+  reference: string;
+  name: string;
+  categoryId?: string | null;
+  categoryName?: string | null;
+  locationId?: string | null;
+  locationName?: string | null;
+  status: StockTakeStatus;
+  notes?: string | null;
+  createdBy?: string | null;
+  approvedBy?: string | null;
+  approverName?: string | null;
+  postedAt?: Date | null;
+  createdAt?: Date | null;
+  itemCount: number;
+  countedCount: number;
+}
+
+export interface StockTakeItem {
+  id: string;
+  variantId: string;
+  productName?: string | null;
+  variantName?: string | null;
+  barcode?: string | null;
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  // Stock on record when the count was entered, so sales made in between aren't counted twice
+  balanceAtCount: number | null;
+  // Counted minus the stock on record when it was counted; null until counted
+  variance: number | null;
+  unitValue: number;
+  varianceValue: number;
+  countedBy?: string | null;
+  counterName?: string | null;
+  countedAt?: Date | null;
+}
+
+export interface StockTakeWithItems extends StockTake {
+  items: StockTakeItem[];
+  // Sum of variance × unit value over counted lines
+  varianceValue: number;
+}
+
+export type LocationType = 'shop' | 'storeroom' | 'stall';
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  shop: 'Shop floor',
+  storeroom: 'Storeroom',
+  stall: 'Stall',
+};
+
+export interface Location {
+  id: string;
+  name: string;
+  type: LocationType;
+  // The default location takes any stock change that doesn't name a location
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt?: Date | null;
+}
+
+export interface LocationStockLevel {
+  variantId: string;
+  locationId: string;
+  quantity: number;
+}
+
+export interface StockTransfer {
+  id: string;
+  reference: string;
+  fromLocationId: string;
+  fromLocationName?: string | null;
+  toLocationId: string;
+  toLocationName?: string | null;
+  notes?: string | null;
+  createdBy?: string | null;
+  creatorName?: string | null;
+  createdAt?: Date | null;
+  itemCount: number;
+  totalQuantity: number;
+}
+
+export interface StockTransferItem {
+  id: string;
+  variantId: string;
+  productName?: string | null;
+  variantName?: string | null;
+  quantity: number;
+}
+
+export interface StockTransferWithItems extends StockTransfer {
+  items: StockTransferItem[];
+}
+
+export interface StockBatch {
+  id: string;
+  variantId: string;
+  locationId: string | null;
+  batchNumber: string;
+  manufacturedAt?: Date | null;
+  expiresAt?: Date | null;
+  quantity: number;
+  receivedQuantity: number;
+  createdAt?: Date | null;
+}
+
+export interface NearExpiryBatch extends StockBatch {
+  productId: string;
+  productName: string;
+  variantName: string;
+  // Negative once the batch has expired
+  daysToExpiry: number;
+  // Remaining quantity at the variant's selling price
+  value: number;
+}
@@ -0,0 +1,203 @@
+// GST slabs in percent; most temple store goods fall in 0, 5, 12 or 18
+export const GST_SLABS = [0, 5, 12, 18, 28] as const;
+
+export type GstSlab = (typeof GST_SLABS)[number];
+
+export interface TaxLineInput {
+  // Amount charged for the line after discounts, as entered on the price tag
+  amount: number;
+  taxRate: number;
+  priceIncludesTax: boolean;
+  interState?: boolean;
+}
+
+export interface TaxLineResult {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  // What the customer pays for the line
+  lineTotal: number;
+}
+
+export interface TaxBreakupRow {
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+// A recorded sale, as far as working out its tax summary goes
+export interface TaxedSale {
+  subtotal: number;
+  tax?: number | null;
+  discount?: number | null;
+  total: number;
+  items: Array<{
+    taxRate?: number;
+    taxableValue?: number;
+    cgst?: number;
+    sgst?: number;
+    igst?: number;
+  }>;
+}
+
+export interface SaleTaxSummary {
+  // GST charged on top of tax-exclusive prices, i.e. the part that moved the total
+  tax: number;
+  taxBreakup: TaxBreakupRow[];
+  // True when some of the GST sits inside tax-inclusive prices
+  pricesIncludeTax: boolean;
+}
+
+// GST state codes, used for place of supply in GSTR-1
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+// Taxable value and GST for one HSN code at one rate, net of returns
+export interface HsnTaxRow {
+  hsnCode: string;
+  rate: number;
+  quantity: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  totalValue: number;
+}
+
+// GSTR-1 table 7: B2C (small) supplies, grouped by supply type, place of supply and rate
+export interface B2cSummaryRow {
+  supplyType: 'INTRA' | 'INTER';
+  // Buyer's state code on inter-state sales; null within the store's state, or on sales made before it was recorded
+  placeOfSupply: string | null;
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface TaxInvoice {
+  invoiceNumber: string;
+  invoiceDate: Date;
+  interState: boolean;
+  placeOfSupply: string | null;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  invoiceValue: number;
+}
+
+// GSTR-1 table 13: the run of invoice numbers used in the period, voided sales included
+export interface TaxDocumentSeries {
+  from: string;
+  to: string;
+  total: number;
+  cancelled: number;
+}
+
+export interface TaxReport {
+  startDate?: Date;
+  endDate?: Date;
+  hsnSummary: HsnTaxRow[];
+  b2cSummary: B2cSummaryRow[];
+  invoices: TaxInvoice[];
+  documents: TaxDocumentSeries | null;
+  // Products sold in the period without an HSN code; GSTR-1 can't be filed until they have one
+  productsWithoutHsn: string[];
+  totals: {
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    totalTax: number;
+  };
+}
+
+// Seller details needed on a GSTR-1 return
+export interface Gstr1Filer {
+  gstin: string;
+  stateCode: string;
+}
+
+// Row of the offline tool's B2CS CSV template
+export interface Gstr1B2csCsvRow {
+  'Type': 'OE';
+  'Place Of Supply': string;
+  'Rate': number;
+  'Applicable % of Tax Rate': string;
+  'Taxable Value': number;
+  'Cess Amount': number;
+  'E-Commerce GSTIN': string;
+}
+
+// Row of the offline tool's HSN summary CSV template
+export interface Gstr1HsnCsvRow {
+  'HSN': string;
+  'Description': string;
+  'UQC': string;
+  'Total Quantity': number;
+  'Total Value': number;
+  'Rate': number;
+  'Taxable Value': number;
+  'Integrated Tax Amount': number;
+  'Central Tax Amount': number;
+  'State/UT Tax Amount': number;
+  'Cess Amount': number;
+}
+
+// Per-invoice listing for the accountant's books
+export interface TaxInvoiceCsvRow {
+  'Invoice Number': string;
+  'Invoice Date': string;
+  'Supply Type': 'Inter-State' | 'Intra-State';
+  'Place Of Supply': string;
+  'Taxable Value': number;
+  'Integrated Tax Amount': number;
+  'Central Tax Amount': number;
+  'State/UT Tax Amount': number;
+  'Invoice Value': number;
+}
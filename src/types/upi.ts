@@ -0,0 +1,77 @@
+// A request for one UPI payment, shown to the customer as a QR code
+export interface UpiPaymentRequest {
+  vpa: string;
+  payeeName: string;
+  amount: number;
+  // Our reference (tr); stored on the sale so the bank statement can be matched to it
+  reference: string;
+  note?: string;
+}
+
+export type UpiMatchMethod = 'reference' | 'amount' | 'manual';
+
+// A credit read from a bank or PSP statement
+export interface UpiStatementCredit {
+  postedAt: Date;
+  timeKnown: boolean; // False when the statement gives the date only
+  amount: number;
+  utr: string | null;
+  narration: string | null;
+}
+
+export interface UpiStatementImportResult {
+  statementId: string;
+  credits: number; // Credits read from the file
+  added: number;
+  duplicates: number; // Already imported from an earlier statement
+  matched: number;
+}
+
+export interface UpiCreditLine {
+  id: string;
+  statementId: string;
+  fileName: string | null;
+  postedAt: Date;
+  timeKnown: boolean;
+  amount: number;
+  utr: string | null;
+  narration: string | null;
+  transactionId: string | null;
+  matchedBy: UpiMatchMethod | null;
+  ignored: boolean;
+  note: string | null;
+  resolvedByName: string | null;
+}
+
+// A sale paid (partly) by UPI, and what it was reconciled against
+export interface UpiSale {
+  transactionId: string;
+  createdAt: Date | null;
+  amount: number; // UPI part of the sale
+  references: string[]; // Our QR reference and any UTR the cashier typed
+  cashierName: string | null;
+  creditId: string | null;
+  clearedNote: string | null; // Set when a manager cleared it without a credit
+}
+
+export interface UpiReconciliationSummary {
+  salesCount: number;
+  salesTotal: number;
+  creditsTotal: number;
+  matchedCount: number;
+  matchedTotal: number;
+  unmatchedSales: number;
+  unmatchedSalesTotal: number;
+  unmatchedCredits: number;
+  unmatchedCreditsTotal: number;
+  clearedSales: number;
+  ignoredCredits: number;
+}
+
+// UPI sales of one day against the credits on imported statements
+export interface UpiReconciliationReport {
+  date: Date;
+  sales: UpiSale[];
+  credits: UpiCreditLine[];
+  summary: UpiReconciliationSummary;
+}
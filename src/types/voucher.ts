@@ -0,0 +1,46 @@
+export type VoucherKind = 'gift' | 'credit';
+
+export type VoucherStatus = 'active' | 'cancelled';
+
+export const VOUCHER_KIND_LABELS: Record<VoucherKind, string> = {
+  gift: 'Gift voucher',
+  credit: 'Store credit',
+};
+
+// Days store credit from a return stays valid
+export const STORE_CREDIT_VALIDITY_DAYS = 365;
+
+export interface Voucher {
+  id: string;
+  code: string;
+  kind: VoucherKind;
+  amount: number; // Value when issued
+  balance: number; // What is left to spend
+  customerId: string | null;
+  customerName?: string | null;
+  returnId: string | null;
+  expiresAt: Date | null;
+  status: VoucherStatus;
+  note: string | null;
+  createdAt: Date | null;
+}
+
+export interface VoucherLiabilityRow {
+  kind: VoucherKind;
+  count: number;
+  issued: number;
+  redeemed: number;
+  outstanding: number;
+}
+
+// What the shop still owes on vouchers it has issued
+export interface VoucherLiabilityReport {
+  asOf: Date;
+  rows: VoucherLiabilityRow[];
+  outstanding: number;
+  // Unspent balances on vouchers past their expiry, no longer owed
+  expired: number;
+  // Outstanding balances expiring within the next 30 days
+  expiringSoon: number;
+  vouchers: Voucher[];
+}
@@ -28,6 +28,8 @@ vi.mock('@/lib/auth/session', () => ({
   setSessionCookie: vi.fn().mockReturnValue('baikuntha-session=mock-token; Path=/; HttpOnly; SameSite=Strict; Max-Age=86400'),
   clearSessionCookie: vi.fn().mockReturnValue('baikuntha-session=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0'),
   createSessionCookie: vi.fn().mockReturnValue('baikuntha-session=mock-token; Path=/; HttpOnly; SameSite=Strict; Max-Age=86400'),
+  getDeviceId: vi.fn().mockReturnValue(null),
+  setDeviceCookie: vi.fn(),
 }));
 
 // Mock middleware
@@ -48,6 +50,7 @@ import { POST as loginPost } from '@/app/api/auth/login/route';
 import { POST as logoutPost } from '@/app/api/auth/logout/route';
 import { GET as meGet } from '@/app/api/auth/me/route';
 import { PUT as changePinPut } from '@/app/api/auth/change-pin/route';
+import { DEFAULT_ROLE_PERMISSIONS } from '@/types/auth';
 
 describe('Authentication API Integration', () => {
   beforeEach(() => {
@@ -193,6 +196,7 @@ describe('Authentication API Integration', () => {
         id: 'user1',
         username: 'testuser',
         role: 'manager',
+        permissions: DEFAULT_ROLE_PERMISSIONS.manager,
         isActive: true,
         lastLoginAt: new Date(),
       });
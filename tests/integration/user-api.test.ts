@@ -3,6 +3,9 @@ import { NextRequest } from 'next/server';
 import { GET as getUsersGET, POST as createUserPOST } from '@/app/api/users/route';
 import { GET as getUserGET, PUT as updateUserPUT, DELETE as deactivateUserDELETE } from '@/app/api/users/[id]/route';
 import { POST as reactivateUserPOST } from '@/app/api/users/[id]/reactivate/route';
+import { POST as unlockUserPOST } from '@/app/api/users/[id]/unlock/route';
+import { POST as unlockDevicePOST } from '@/app/api/users/devices/[deviceId]/unlock/route';
+import { rolePermissions } from '@/types/auth';
 
 // Mock the services
 vi.mock('@/services/database/users', () => ({
@@ -13,6 +16,9 @@ vi.mock('@/services/database/users', () => ({
     updateUser: vi.fn(),
     deactivateUser: vi.fn(),
     reactivateUser: vi.fn(),
+    unlockUser: vi.fn(),
+    unlockDevice: vi.fn(),
+    getLockouts: vi.fn(),
   },
 }));
 
@@ -35,6 +41,7 @@ describe('User API Endpoints', () => {
     id: 'admin_123',
     username: 'admin',
     role: 'admin' as const,
+    permissions: rolePermissions('admin'),
     isActive: true,
   };
 
@@ -42,6 +49,7 @@ describe('User API Endpoints', () => {
     id: 'manager_123',
     username: 'manager',
     role: 'manager' as const,
+    permissions: rolePermissions('manager'),
     isActive: true,
   };
 
@@ -49,11 +57,13 @@ describe('User API Endpoints', () => {
     id: 'cashier_123',
     username: 'cashier',
     role: 'cashier' as const,
+    permissions: rolePermissions('cashier'),
     isActive: true,
   };
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(userService.getLockouts).mockResolvedValue(new Map());
   });
 
   afterEach(() => {
@@ -88,6 +98,38 @@ describe('User API Endpoints', () => {
       expect(response.status).toBe(200);
       expect(data.users).toHaveLength(1);
       expect(data.pagination.total).toBe(1);
+      expect(data.users[0].lockedUntil).toBeNull();
+    });
+
+    it('should flag users locked out by failed PINs', async () => {
+      const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+
+      vi.mocked(getSessionUser).mockResolvedValue(mockAdminUser);
+      vi.mocked(userService.searchUsers).mockResolvedValue({
+        users: [
+          {
+            id: 'user_1',
+            username: 'user1',
+            pinHash: 'hashed_pin',
+            role: 'cashier',
+            isActive: true,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            lastLoginAt: null,
+          },
+        ],
+        total: 1,
+      });
+      vi.mocked(userService.getLockouts).mockResolvedValue(new Map([['user1', lockedUntil]]));
+
+      const request = new NextRequest('http://localhost/api/users');
+      const response = await getUsersGET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(userService.getLockouts).toHaveBeenCalledWith(['user1']);
+      expect(data.users[0].lockedUntil).toBe(lockedUntil.toISOString());
+      expect(data.users[0]).not.toHaveProperty('pinHash');
     });
 
     it('should return 401 for unauthenticated user', async () => {
@@ -422,4 +464,83 @@ const updatedUser = {
       expect(response.status).toBe(404);
     });
   });
+
+  describe('POST /api/users/[id]/unlock', () => {
+    it('should unlock user for admin', async () => {
+      vi.mocked(getSessionUser).mockResolvedValue(mockAdminUser);
+      vi.mocked(userService.unlockUser).mockResolvedValue(true);
+
+      const request = new NextRequest('http://localhost/api/users/user_123/unlock', {
+        method: 'POST',
+      });
+
+      const response = await unlockUserPOST(request, { params: { id: 'user_123' } });
+
+      expect(response.status).toBe(200);
+      expect(userService.unlockUser).toHaveBeenCalledWith(
+        'user_123',
+        'admin_123',
+        expect.any(Object)
+      );
+    });
+
+    it('should return 403 for cashier role', async () => {
+      vi.mocked(getSessionUser).mockResolvedValue(mockCashierUser);
+
+      const request = new NextRequest('http://localhost/api/users/user_123/unlock', {
+        method: 'POST',
+      });
+
+      const response = await unlockUserPOST(request, { params: { id: 'user_123' } });
+
+      expect(response.status).toBe(403);
+      expect(userService.unlockUser).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for non-existent user', async () => {
+      vi.mocked(getSessionUser).mockResolvedValue(mockAdminUser);
+      vi.mocked(userService.unlockUser).mockRejectedValue(new Error('User not found'));
+
+      const request = new NextRequest('http://localhost/api/users/nonexistent/unlock', {
+        method: 'POST',
+      });
+
+      const response = await unlockUserPOST(request, { params: { id: 'nonexistent' } });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/users/devices/[deviceId]/unlock', () => {
+    it('should unlock a device for admin', async () => {
+      vi.mocked(getSessionUser).mockResolvedValue(mockAdminUser);
+      vi.mocked(userService.unlockDevice).mockResolvedValue(true);
+
+      const request = new NextRequest('http://localhost/api/users/devices/device_123/unlock', {
+        method: 'POST',
+      });
+
+      const response = await unlockDevicePOST(request, { params: { deviceId: 'device_123' } });
+
+      expect(response.status).toBe(200);
+      expect(userService.unlockDevice).toHaveBeenCalledWith(
+        'device_123',
+        'admin_123',
+        expect.any(Object)
+      );
+    });
+
+    it('should return 403 for cashier role', async () => {
+      vi.mocked(getSessionUser).mockResolvedValue(mockCashierUser);
+
+      const request = new NextRequest('http://localhost/api/users/devices/device_123/unlock', {
+        method: 'POST',
+      });
+
+      const response = await unlockDevicePOST(request, { params: { deviceId: 'device_123' } });
+
+      expect(response.status).toBe(403);
+      expect(userService.unlockDevice).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -60,6 +60,7 @@ describe('CartManager', () => {
     // Reset to empty cart state
     (useCartStore as any).mockReturnValue({
       items: [],
+      donations: [],
       subtotal: 0,
       tax: 0,
       discount: 0,
@@ -90,6 +91,7 @@ describe('CartManager', () => {
     beforeEach(() => {
       (useCartStore as any).mockReturnValue({
         items: [mockCartItem],
+        donations: [],
         subtotal: 500,
         tax: 0,
         discount: 0,
@@ -113,6 +115,7 @@ describe('CartManager', () => {
     it('should display item with variant name', () => {
       (useCartStore as any).mockReturnValue({
         items: [mockCartItemWithVariant],
+        donations: [],
         subtotal: 350,
         tax: 0,
         discount: 0,
@@ -140,6 +143,7 @@ describe('CartManager', () => {
     it('should display tax when present', () => {
       (useCartStore as any).mockReturnValue({
         items: [mockCartItem],
+        donations: [],
         subtotal: 500,
         tax: 50,
         discount: 0,
@@ -159,6 +163,7 @@ describe('CartManager', () => {
     it('should display discount when present', () => {
       (useCartStore as any).mockReturnValue({
         items: [mockCartItem],
+        donations: [],
         subtotal: 500,
         tax: 0,
         discount: 25,
@@ -180,6 +185,7 @@ describe('CartManager', () => {
     beforeEach(() => {
       (useCartStore as any).mockReturnValue({
         items: [mockCartItem],
+        donations: [],
         subtotal: 500,
         tax: 0,
         discount: 0,
@@ -226,6 +232,7 @@ describe('CartManager', () => {
     it('should disable decrease button when quantity is 1', () => {
       (useCartStore as any).mockReturnValue({
         items: [{ ...mockCartItem, quantity: 1 }],
+        donations: [],
         subtotal: 250,
         tax: 0,
         discount: 0,
@@ -248,6 +255,7 @@ describe('CartManager', () => {
     it('should disable increase button when at stock limit', () => {
       (useCartStore as any).mockReturnValue({
         items: [{ ...mockCartItemWithVariant, quantity: 10 }], // At stock limit
+        donations: [],
         subtotal: 3500,
         tax: 0,
         discount: 0,
@@ -272,6 +280,7 @@ describe('CartManager', () => {
     beforeEach(() => {
       (useCartStore as any).mockReturnValue({
         items: [mockCartItem],
+        donations: [],
         subtotal: 500,
         tax: 0,
         discount: 0,
@@ -300,6 +309,7 @@ describe('CartManager', () => {
     beforeEach(() => {
       (useCartStore as any).mockReturnValue({
         items: [mockCartItem],
+        donations: [],
         subtotal: 500,
         tax: 0,
         discount: 0,
@@ -354,6 +364,7 @@ describe('CartManager', () => {
     beforeEach(() => {
       (useCartStore as any).mockReturnValue({
         items: [mockCartItem],
+        donations: [],
         subtotal: 500,
         tax: 0,
         discount: 0,
@@ -56,6 +56,7 @@ describe('PaymentProcessor', () => {
     
     (useCartStore as any).mockReturnValue({
       items: [mockCartItem],
+      donations: [],
       total: 500,
       clearCart: mockClearCart,
     });
@@ -115,6 +116,7 @@ describe('PaymentProcessor', () => {
       };
 
       (useCartStore as any).mockReturnValue({
+        donations: [],
         items: [{
           ...mockCartItem,
           variant: mockVariant,
@@ -446,6 +448,7 @@ describe('PaymentProcessor', () => {
     it('should format currency correctly', () => {
       (useCartStore as any).mockReturnValue({
         items: [mockCartItem],
+        donations: [],
         total: 1234.56,
         clearCart: mockClearCart,
       });
@@ -4,7 +4,7 @@ import userEvent from '@testing-library/user-event';
 import { LoginForm } from '@/components/auth/LoginForm';
 import { SessionTimeoutWarning } from '@/components/auth/SessionTimeoutWarning';
 import { UserProfile } from '@/components/auth/UserProfile';
-import type { AuthUser } from '@/types/auth';
+import { DEFAULT_ROLE_PERMISSIONS, type AuthUser } from '@/types/auth';
 
 describe('Authentication Components', () => {
   beforeEach(() => {
@@ -89,6 +89,7 @@ describe('Authentication Components', () => {
       id: '1',
       username: 'testuser',
       role: 'manager',
+      permissions: DEFAULT_ROLE_PERMISSIONS.manager,
       isActive: true,
     };
 
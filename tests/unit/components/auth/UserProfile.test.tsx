@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { UserProfile } from '@/components/auth/UserProfile';
-import type { AuthUser } from '@/types/auth';
+import { DEFAULT_ROLE_PERMISSIONS, type AuthUser } from '@/types/auth';
 
 describe('UserProfile', () => {
   const mockOnLogout = vi.fn();
@@ -11,6 +11,7 @@ describe('UserProfile', () => {
     id: '1',
     username: 'testuser',
     role: 'manager',
+    permissions: DEFAULT_ROLE_PERMISSIONS.manager,
     isActive: true,
     lastLoginAt: new Date('2024-01-15T10:30:00Z'),
   };
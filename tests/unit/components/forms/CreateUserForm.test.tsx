@@ -3,6 +3,12 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { CreateUserForm } from '@/components/forms/CreateUserForm';
 import type { CreateUserInput } from '@/lib/validation/user';
 
+const mockRoles = [
+  { id: 'admin', name: 'Administrator' },
+  { id: 'manager', name: 'Manager' },
+  { id: 'cashier', name: 'Cashier' },
+];
+
 describe('CreateUserForm', () => {
   const mockOnSubmit = vi.fn();
   const mockOnCancel = vi.fn();
@@ -16,6 +22,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -30,6 +37,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -42,6 +50,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -54,6 +63,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -75,6 +85,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -90,6 +101,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -117,6 +129,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -134,6 +147,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -154,6 +168,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -177,6 +192,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
         loading={true}
       />
     );
@@ -193,6 +209,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
         loading={true}
       />
     );
@@ -206,6 +223,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -219,6 +237,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -239,6 +258,7 @@ describe('CreateUserForm', () => {
       <CreateUserForm
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -10,6 +10,12 @@ const mockUser = {
   isActive: true,
 };
 
+const mockRoles = [
+  { id: 'admin', name: 'Administrator' },
+  { id: 'manager', name: 'Manager' },
+  { id: 'cashier', name: 'Cashier' },
+];
+
 describe('EditUserForm', () => {
   const mockOnSubmit = vi.fn();
   const mockOnCancel = vi.fn();
@@ -24,6 +30,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -40,6 +47,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -53,6 +61,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -66,6 +75,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -86,6 +96,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -109,6 +120,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -132,6 +144,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -150,6 +163,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -169,6 +183,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -194,6 +209,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
         loading={true}
       />
     );
@@ -209,6 +225,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
         loading={true}
       />
     );
@@ -223,6 +240,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -236,6 +254,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
@@ -255,6 +274,7 @@ describe('EditUserForm', () => {
         user={mockUser}
         onSubmit={mockOnSubmit}
         onCancel={mockOnCancel}
+        roles={mockRoles}
       />
     );
 
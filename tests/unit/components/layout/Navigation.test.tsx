@@ -48,6 +48,17 @@ describe('Navigation Component', () => {
       expect(screen.getByText('Users')).toBeInTheDocument();
     });
 
+    it('shows navigation items based on a custom role\'s permissions', () => {
+      render(<Navigation userRole="bookkeeper" permissions={['reports.view', 'reports.export']} />);
+
+      expect(screen.getByText('bookkeeper')).toBeInTheDocument();
+      expect(screen.getByText('Reports')).toBeInTheDocument();
+      expect(screen.getByText('Catalog')).toBeInTheDocument();
+      expect(screen.queryByText('Sales')).not.toBeInTheDocument();
+      expect(screen.queryByText('Inventory')).not.toBeInTheDocument();
+      expect(screen.queryByText('Settings')).not.toBeInTheDocument();
+    });
+
     it('highlights active navigation item', () => {
       render(<Navigation userRole="admin" />);
       
@@ -61,6 +61,7 @@ describe('CartManager', () => {
     
     (useCartStore as any).mockReturnValue({
       items: [],
+      donations: [],
       total: 0,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -81,6 +82,7 @@ describe('CartManager', () => {
   it('displays cart items correctly', () => {
     (useCartStore as any).mockReturnValue({
       items: [mockCartItem],
+      donations: [],
       total: 500,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -100,6 +102,7 @@ describe('CartManager', () => {
   it('displays variant information when item has variant', () => {
     (useCartStore as any).mockReturnValue({
       items: [mockCartItemWithVariant],
+      donations: [],
       total: 350,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -116,6 +119,7 @@ describe('CartManager', () => {
   it('handles quantity increase', () => {
     (useCartStore as any).mockReturnValue({
       items: [mockCartItem],
+      donations: [],
       total: 500,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -137,6 +141,7 @@ describe('CartManager', () => {
   it('handles quantity decrease', () => {
     (useCartStore as any).mockReturnValue({
       items: [mockCartItem],
+      donations: [],
       total: 500,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -163,6 +168,7 @@ describe('CartManager', () => {
 
     (useCartStore as any).mockReturnValue({
       items: [singleItemCart],
+      donations: [],
       total: 250,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -182,6 +188,7 @@ describe('CartManager', () => {
   it('handles item removal', () => {
     (useCartStore as any).mockReturnValue({
       items: [mockCartItem],
+      donations: [],
       total: 500,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -200,6 +207,7 @@ describe('CartManager', () => {
   it('handles clear cart with confirmation', async () => {
     (useCartStore as any).mockReturnValue({
       items: [mockCartItem],
+      donations: [],
       total: 500,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -224,6 +232,7 @@ describe('CartManager', () => {
   it('handles checkout button click', () => {
     (useCartStore as any).mockReturnValue({
       items: [mockCartItem],
+      donations: [],
       total: 500,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -247,6 +256,7 @@ describe('CartManager', () => {
 
     (useCartStore as any).mockReturnValue({
       items: [itemWithLimitedStock],
+      donations: [],
       total: 3500,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
@@ -271,6 +281,7 @@ describe('CartManager', () => {
 
     (useCartStore as any).mockReturnValue({
       items: multipleItems,
+      donations: [],
       total: 850,
       updateQuantity: mockUpdateQuantity,
       removeItem: mockRemoveItem,
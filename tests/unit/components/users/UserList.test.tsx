@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { UserList } from '@/components/users/UserList';
-import type { UserRole } from '@/types/auth';
+import { DEFAULT_ROLE_PERMISSIONS, type Role, type UserRole } from '@/types/auth';
 
 // Mock fetch
 const mockFetch = vi.fn();
@@ -69,6 +69,12 @@ const mockUsers = [
   },
 ];
 
+const mockRoles: Role[] = [
+  { id: 'admin', name: 'Administrator', permissions: DEFAULT_ROLE_PERMISSIONS.admin, isSystem: true },
+  { id: 'manager', name: 'Manager', permissions: DEFAULT_ROLE_PERMISSIONS.manager, isSystem: true },
+  { id: 'cashier', name: 'Cashier', permissions: DEFAULT_ROLE_PERMISSIONS.cashier, isSystem: true },
+];
+
 describe('UserList', () => {
   beforeEach(() => {
     mockFetch.mockResolvedValue({
@@ -90,7 +96,7 @@ describe('UserList', () => {
   });
 
   it('renders user list with correct data', async () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       expect(screen.getByText('User Management')).toBeInTheDocument();
@@ -107,16 +113,16 @@ describe('UserList', () => {
     });
   });
 
-  it('shows create user button for admin users', async () => {
-    render(<UserList currentUserRole="admin" />);
+  it('shows create user button for users who can manage staff', async () => {
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       expect(screen.getByText('Create User')).toBeInTheDocument();
     });
   });
 
-  it('hides create user button for non-admin users', async () => {
-    render(<UserList currentUserRole="manager" />);
+  it('hides create user button for users who cannot manage staff', async () => {
+    render(<UserList roles={mockRoles} canManage={false} />);
 
     await waitFor(() => {
       expect(screen.queryByText('Create User')).not.toBeInTheDocument();
@@ -124,7 +130,7 @@ describe('UserList', () => {
   });
 
   it('displays user roles with correct badges', async () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       // Get all table rows
@@ -143,7 +149,7 @@ describe('UserList', () => {
   });
 
   it('displays user status correctly', async () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       // Look for status badges specifically in the table
@@ -160,7 +166,7 @@ describe('UserList', () => {
   });
 
   it('opens create user modal when create button is clicked', async () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       const createButton = screen.getByText('Create User');
@@ -171,7 +177,7 @@ describe('UserList', () => {
   });
 
   it('opens edit user modal when edit button is clicked', async () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       const editButtons = screen.getAllByText('Edit');
@@ -182,7 +188,7 @@ describe('UserList', () => {
   });
 
   it('opens activity modal when activity button is clicked', async () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       const activityButtons = screen.getAllByText('Activity');
@@ -193,7 +199,7 @@ describe('UserList', () => {
   });
 
   it('filters users by search term', async () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       const searchInput = screen.getByPlaceholderText('Search users...');
@@ -208,7 +214,7 @@ describe('UserList', () => {
   });
 
   it('filters users by role', async () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       const roleSelect = screen.getByDisplayValue('All Roles');
@@ -223,7 +229,7 @@ describe('UserList', () => {
   });
 
   it('filters users by status', async () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       const statusSelect = screen.getByDisplayValue('All Users');
@@ -252,7 +258,7 @@ describe('UserList', () => {
         json: async () => ({ users: [...mockUsers, { id: '4', username: 'test', role: 'cashier' }], pagination: { page: 1, limit: 20, total: 4, totalPages: 1 } }),
       });
 
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       const createButton = screen.getByText('Create User');
@@ -290,7 +296,7 @@ describe('UserList', () => {
         json: async () => ({ users: mockUsers, pagination: { page: 1, limit: 20, total: 3, totalPages: 1 } }),
       });
 
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       const deactivateButtons = screen.getAllByText('Deactivate');
@@ -322,7 +328,7 @@ describe('UserList', () => {
         json: async () => ({ users: mockUsers, pagination: { page: 1, limit: 20, total: 3, totalPages: 1 } }),
       });
 
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       const reactivateButton = screen.getByText('Reactivate');
@@ -336,10 +342,49 @@ describe('UserList', () => {
     });
   });
 
+  it('unlocks users locked out by failed PINs', async () => {
+    const lockedUsers = mockUsers.map(user =>
+      user.id === '2' ? { ...user, lockedUntil: new Date(Date.now() + 15 * 60 * 1000) } : user
+    );
+
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ users: lockedUsers, pagination: { page: 1, limit: 20, total: 3, totalPages: 1 } }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ message: 'User unlocked' }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ users: mockUsers, pagination: { page: 1, limit: 20, total: 3, totalPages: 1 } }),
+      });
+
+    render(<UserList roles={mockRoles} canManage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Locked')).toBeInTheDocument();
+    });
+    expect(screen.getAllByText('Unlock')).toHaveLength(1);
+
+    fireEvent.click(screen.getByText('Unlock'));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/users/2/unlock', {
+        method: 'POST',
+      });
+    });
+
+    await waitFor(() => {
+      expect(screen.queryByText('Locked')).not.toBeInTheDocument();
+    });
+  });
+
   it('displays error message when fetch fails', async () => {
     mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       expect(screen.getByText('Network error')).toBeInTheDocument();
@@ -347,7 +392,7 @@ describe('UserList', () => {
   });
 
   it('shows loading spinner initially', () => {
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     expect(document.querySelector('.animate-spin')).toBeInTheDocument();
   });
@@ -361,7 +406,7 @@ describe('UserList', () => {
       }),
     });
 
-    render(<UserList currentUserRole="admin" />);
+    render(<UserList roles={mockRoles} canManage />);
 
     await waitFor(() => {
       expect(screen.getByText('No users found')).toBeInTheDocument();
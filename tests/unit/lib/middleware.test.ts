@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, canAccess, getRoleLevel, hasRoleLevel } from '@/lib/auth/middleware';
-import type { AuthUser, UserRole, Permission } from '@/types/auth';
+import { DEFAULT_ROLE_PERMISSIONS, type AuthUser, type UserRole } from '@/types/auth';
 
 // Mock the session functions
 vi.mock('@/lib/auth/session', () => ({
@@ -26,6 +26,7 @@ describe('Authentication Middleware', () => {
     id: 'user1',
     username: 'testuser',
     role: 'manager',
+    permissions: DEFAULT_ROLE_PERMISSIONS.manager,
     isActive: true,
     lastLoginAt: new Date(),
   };
@@ -34,6 +35,7 @@ describe('Authentication Middleware', () => {
     id: 'admin1',
     username: 'admin',
     role: 'admin',
+    permissions: DEFAULT_ROLE_PERMISSIONS.admin,
     isActive: true,
     lastLoginAt: new Date(),
   };
@@ -42,6 +44,7 @@ describe('Authentication Middleware', () => {
     id: 'cashier1',
     username: 'cashier',
     role: 'cashier',
+    permissions: DEFAULT_ROLE_PERMISSIONS.cashier,
     isActive: true,
     lastLoginAt: new Date(),
   };
@@ -130,7 +133,7 @@ describe('Authentication Middleware', () => {
       const response = await withAuth(
         mockRequest, 
         mockHandler, 
-        { requiredPermissions: ['users:read', 'users:write'] }
+        { requiredPermissions: ['users.manage', 'settings.manage'] }
       );
 
       expect(mockHandler).not.toHaveBeenCalled();
@@ -154,7 +157,7 @@ describe('Authentication Middleware', () => {
         mockRequest, 
         mockHandler, 
         { 
-          requiredPermissions: ['users:read', 'products:read'],
+          requiredPermissions: ['users.manage', 'reports.view'],
           requireAnyPermission: true 
         }
       );
@@ -162,8 +165,8 @@ describe('Authentication Middleware', () => {
       expect(mockHandler).toHaveBeenCalledWith(mockRequest, mockUser);
       expect(response.status).toBe(200);
       expect(authService.hasAnyPermission).toHaveBeenCalledWith(
-        mockUser.role, 
-        ['users:read', 'products:read']
+        mockUser, 
+        ['users.manage', 'reports.view']
       );
     });
 
@@ -221,12 +224,12 @@ describe('Authentication Middleware', () => {
       const { authService } = await import('@/services/auth/authService');
       vi.mocked(authService.hasAllPermissions).mockReturnValue(true);
 
-      const result = canAccess('admin', ['users:read', 'users:write']);
+      const result = canAccess(mockAdminUser, ['users.manage', 'settings.manage']);
 
       expect(result).toBe(true);
       expect(authService.hasAllPermissions).toHaveBeenCalledWith(
-        'admin', 
-        ['users:read', 'users:write']
+        mockAdminUser, 
+        ['users.manage', 'settings.manage']
       );
     });
   });
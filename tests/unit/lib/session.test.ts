@@ -1,7 +1,15 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { createSession, verifySession, isSessionExpiringSoon, refreshSession } from '@/lib/auth/session';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createSession,
+  verifySession,
+  isSessionExpiringSoon,
+  refreshSession,
+  getDeviceId,
+  setDeviceCookie,
+} from '@/lib/auth/session';
 import type { AuthUser, SessionData } from '@/types/auth';
-import { DEFAULT_AUTH_CONFIG } from '@/types/auth';
+import { DEFAULT_AUTH_CONFIG, DEFAULT_ROLE_PERMISSIONS } from '@/types/auth';
 
 // Mock environment variable
 process.env.SESSION_SECRET = 'test-secret-key';
@@ -11,6 +19,7 @@ describe('Session Management', () => {
     id: 'user1',
     username: 'testuser',
     role: 'manager',
+    permissions: DEFAULT_ROLE_PERMISSIONS.manager,
     isActive: true,
     lastLoginAt: new Date(),
   };
@@ -233,4 +242,37 @@ describe('Session Management', () => {
       expect(sessionData).toBeNull(); // Should be rejected due to invalid signature
     });
   });
-});
\ No newline at end of file
+
+  describe('Device ids', () => {
+    const requestWithDevice = (token: string) => new NextRequest('http://localhost/api/auth/login', {
+      headers: { cookie: `baikuntha-device=${token}` },
+    });
+
+    it('should recognise a device id the server issued', () => {
+      const response = NextResponse.json({});
+      setDeviceCookie(response);
+      const token = response.cookies.get('baikuntha-device')!.value;
+
+      expect(getDeviceId(requestWithDevice(token))).toBe(token.split('.')[0]);
+    });
+
+    it('should give each device its own id', () => {
+      const first = NextResponse.json({});
+      const second = NextResponse.json({});
+      setDeviceCookie(first);
+      setDeviceCookie(second);
+
+      expect(first.cookies.get('baikuntha-device')!.value).not.toBe(second.cookies.get('baikuntha-device')!.value);
+    });
+
+    it('should ignore device ids the server did not issue', () => {
+      const response = NextResponse.json({});
+      setDeviceCookie(response);
+      const [, signature] = response.cookies.get('baikuntha-device')!.value.split('.');
+
+      expect(getDeviceId(requestWithDevice(`made-up.${signature}`))).toBeNull();
+      expect(getDeviceId(requestWithDevice('made-up'))).toBeNull();
+      expect(getDeviceId(new NextRequest('http://localhost/api/auth/login'))).toBeNull();
+    });
+  });
+});
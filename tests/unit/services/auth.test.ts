@@ -8,9 +8,11 @@ const mockDb = vi.hoisted(() => ({
   limit: vi.fn().mockReturnThis(),
   update: vi.fn().mockReturnThis(),
   set: vi.fn().mockReturnThis(),
+  delete: vi.fn().mockReturnThis(),
 }));
 
 vi.mock('@/lib/db/connection', () => ({
+  getDb: vi.fn(() => mockDb),
   getLocalDb: vi.fn(() => mockDb),
 }));
 
@@ -23,13 +25,13 @@ vi.mock('bcryptjs', () => ({
 }));
 
 import { authService } from '@/services/auth/authService';
-import type { LoginRequest, UserRole } from '@/types/auth';
-import { ROLE_PERMISSIONS } from '@/types/auth';
+import type { LoginRequest } from '@/types/auth';
+import { ALL_PERMISSIONS, rolePermissions } from '@/types/auth';
 
 describe('AuthService', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     // Clear login attempts before each test
-    authService.clearLoginAttempts();
+    await authService.clearLoginAttempts();
     vi.clearAllMocks();
   });
 
@@ -106,53 +108,54 @@ describe('AuthService', () => {
   });
 
   describe('Permission system', () => {
-    it('should check admin permissions correctly', () => {
-      const hasUserRead = authService.hasPermission('admin', 'users:read');
-      const hasUserWrite = authService.hasPermission('admin', 'users:write');
-      const hasProductRead = authService.hasPermission('admin', 'products:read');
-      
-      expect(hasUserRead).toBe(true);
-      expect(hasUserWrite).toBe(true);
-      expect(hasProductRead).toBe(true);
+    const admin = { permissions: rolePermissions('admin') };
+    const manager = { permissions: rolePermissions('manager') };
+    const cashier = { permissions: rolePermissions('cashier') };
+
+    it('should give admin every permission', () => {
+      expect(admin.permissions).toEqual(ALL_PERMISSIONS);
+      expect(authService.hasPermission(admin, 'users.manage')).toBe(true);
+      expect(authService.hasPermission(admin, 'settings.manage')).toBe(true);
+      expect(authService.hasPermission(admin, 'inventory.adjust')).toBe(true);
     });
 
     it('should check manager permissions correctly', () => {
-      const hasUserRead = authService.hasPermission('manager', 'users:read');
-      const hasUserWrite = authService.hasPermission('manager', 'users:write');
-      const hasProductRead = authService.hasPermission('manager', 'products:read');
-      const hasProductWrite = authService.hasPermission('manager', 'products:write');
-      
-      expect(hasUserRead).toBe(false);
-      expect(hasUserWrite).toBe(false);
-      expect(hasProductRead).toBe(true);
-      expect(hasProductWrite).toBe(true);
+      expect(authService.hasPermission(manager, 'users.manage')).toBe(false);
+      expect(authService.hasPermission(manager, 'settings.manage')).toBe(true);
+      expect(authService.hasPermission(manager, 'inventory.manage')).toBe(true);
+      expect(authService.hasPermission(manager, 'sales.override')).toBe(true);
     });
 
     it('should check cashier permissions correctly', () => {
-      const hasUserRead = authService.hasPermission('cashier', 'users:read');
-      const hasProductRead = authService.hasPermission('cashier', 'products:read');
-      const hasTransactionRead = authService.hasPermission('cashier', 'transactions:read');
-      const hasTransactionWrite = authService.hasPermission('cashier', 'transactions:write');
-      
-      expect(hasUserRead).toBe(false);
-      expect(hasProductRead).toBe(false);
-      expect(hasTransactionRead).toBe(true);
-      expect(hasTransactionWrite).toBe(true);
+      expect(authService.hasPermission(cashier, 'users.manage')).toBe(false);
+      expect(authService.hasPermission(cashier, 'inventory.manage')).toBe(false);
+      expect(authService.hasPermission(cashier, 'sales.override')).toBe(false);
+      expect(authService.hasPermission(cashier, 'sales.create')).toBe(true);
+      expect(authService.hasPermission(cashier, 'sales.refund')).toBe(true);
+    });
+
+    it('should use the stored permissions of a custom role', () => {
+      const bookkeeper = { permissions: rolePermissions('bookkeeper', ['reports.view', 'reports.export', 'unknown.permission']) };
+
+      expect(bookkeeper.permissions).toEqual(['reports.view', 'reports.export']);
+      expect(authService.hasPermission(bookkeeper, 'reports.export')).toBe(true);
+      expect(authService.hasPermission(bookkeeper, 'sales.create')).toBe(false);
+      expect(rolePermissions('volunteer')).toEqual([]);
     });
 
     it('should check if user has any of specified permissions', () => {
-      const hasAny = authService.hasAnyPermission('manager', ['users:read', 'products:read']);
+      const hasAny = authService.hasAnyPermission(manager, ['users.manage', 'reports.view']);
       expect(hasAny).toBe(true);
 
-      const hasNone = authService.hasAnyPermission('cashier', ['users:read', 'products:read']);
+      const hasNone = authService.hasAnyPermission(cashier, ['users.manage', 'reports.view']);
       expect(hasNone).toBe(false);
     });
 
     it('should check if user has all specified permissions', () => {
-      const hasAll = authService.hasAllPermissions('admin', ['users:read', 'products:read']);
+      const hasAll = authService.hasAllPermissions(admin, ['users.manage', 'reports.view']);
       expect(hasAll).toBe(true);
 
-      const hasNotAll = authService.hasAllPermissions('manager', ['users:read', 'products:read']);
+      const hasNotAll = authService.hasAllPermissions(manager, ['users.manage', 'reports.view']);
       expect(hasNotAll).toBe(false);
     });
   });
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { LoginThrottlePolicy } from '@/services/auth/loginThrottle';
+import { DEFAULT_AUTH_CONFIG } from '@/types/auth';
+
+const now = new Date('2024-06-01T10:00:00Z');
+const secondsLater = (seconds: number) => new Date(now.getTime() + seconds * 1000);
+
+// Fail the given number of times in a row, each as soon as the last wait is over
+const failTimes = (times: number, scope: 'user' | 'device' = 'user') => {
+  let state = null as ReturnType<typeof LoginThrottlePolicy.afterFailure> | null;
+  for (let i = 0; i < times; i++) {
+    state = LoginThrottlePolicy.afterFailure(state, scope, state?.lockedUntil ?? now);
+  }
+  return state!;
+};
+
+describe('LoginThrottlePolicy', () => {
+  it('should let anyone without failures straight in', () => {
+    expect(LoginThrottlePolicy.retryAfterSeconds(null, now)).toBe(0);
+    expect(LoginThrottlePolicy.retryAfterSeconds({ failedCount: 0, lockedUntil: null }, now)).toBe(0);
+  });
+
+  it('should double the wait after each failure below the limit', () => {
+    expect(LoginThrottlePolicy.waitSeconds(1, 'user')).toBe(1);
+    expect(LoginThrottlePolicy.waitSeconds(2, 'user')).toBe(2);
+    expect(LoginThrottlePolicy.waitSeconds(3, 'user')).toBe(4);
+    expect(LoginThrottlePolicy.waitSeconds(4, 'user')).toBe(8);
+  });
+
+  it('should not back off for longer than a lockout before the limit', () => {
+    expect(LoginThrottlePolicy.waitSeconds(DEFAULT_AUTH_CONFIG.maxDeviceLoginAttempts - 1, 'device'))
+      .toBe(DEFAULT_AUTH_CONFIG.lockoutDurationMinutes * 60);
+  });
+
+  it('should lock a username out at the limit and double the lockout after that', () => {
+    const limit = DEFAULT_AUTH_CONFIG.maxLoginAttempts;
+    const lockout = DEFAULT_AUTH_CONFIG.lockoutDurationMinutes * 60;
+
+    expect(LoginThrottlePolicy.waitSeconds(limit, 'user')).toBe(lockout);
+    expect(LoginThrottlePolicy.waitSeconds(limit + 1, 'user')).toBe(lockout * 2);
+    expect(LoginThrottlePolicy.waitSeconds(limit + 2, 'user')).toBe(lockout * 4);
+  });
+
+  it('should never lock out for longer than the ceiling', () => {
+    const ceiling = DEFAULT_AUTH_CONFIG.maxLockoutHours * 60 * 60;
+
+    expect(LoginThrottlePolicy.waitSeconds(50, 'user')).toBe(ceiling);
+    expect(LoginThrottlePolicy.waitSeconds(5000, 'user')).toBe(ceiling);
+  });
+
+  it('should give a device more tries than a username', () => {
+    const state = failTimes(DEFAULT_AUTH_CONFIG.maxLoginAttempts, 'device');
+
+    expect(state.lockedOut).toBe(false);
+    expect(failTimes(DEFAULT_AUTH_CONFIG.maxDeviceLoginAttempts, 'device').lockedOut).toBe(true);
+  });
+
+  it('should report a lockout once the limit is reached', () => {
+    const beforeLimit = failTimes(DEFAULT_AUTH_CONFIG.maxLoginAttempts - 1);
+    expect(beforeLimit.lockedOut).toBe(false);
+    expect(LoginThrottlePolicy.isLockedOut(beforeLimit, 'user', beforeLimit.lastFailedAt)).toBe(false);
+
+    const atLimit = failTimes(DEFAULT_AUTH_CONFIG.maxLoginAttempts);
+    expect(atLimit.lockedOut).toBe(true);
+    expect(LoginThrottlePolicy.isLockedOut(atLimit, 'user', atLimit.lastFailedAt)).toBe(true);
+    expect(LoginThrottlePolicy.retryAfterSeconds(atLimit, atLimit.lastFailedAt))
+      .toBe(DEFAULT_AUTH_CONFIG.lockoutDurationMinutes * 60);
+  });
+
+  it('should let the next attempt through once the wait is over', () => {
+    const state = LoginThrottlePolicy.afterFailure(null, 'user', now);
+
+    expect(LoginThrottlePolicy.retryAfterSeconds(state, now)).toBe(1);
+    expect(LoginThrottlePolicy.retryAfterSeconds(state, secondsLater(1))).toBe(0);
+  });
+
+  it('should keep counting after a lockout ends', () => {
+    const locked = failTimes(DEFAULT_AUTH_CONFIG.maxLoginAttempts);
+    const again = LoginThrottlePolicy.afterFailure(locked, 'user', locked.lockedUntil);
+
+    expect(again.failedCount).toBe(DEFAULT_AUTH_CONFIG.maxLoginAttempts + 1);
+    expect(LoginThrottlePolicy.retryAfterSeconds(again, locked.lockedUntil))
+      .toBe(DEFAULT_AUTH_CONFIG.lockoutDurationMinutes * 60 * 2);
+  });
+
+  it('should forget failures older than the lockout ceiling', () => {
+    const old = { failedCount: 7, lastFailedAt: now, lockedUntil: now };
+    const muchLater = secondsLater(DEFAULT_AUTH_CONFIG.maxLockoutHours * 60 * 60 + 1);
+
+    expect(LoginThrottlePolicy.afterFailure(old, 'user', muchLater).failedCount).toBe(1);
+  });
+
+  it('should work out the wait from a stored count of failures', () => {
+    const state = LoginThrottlePolicy.failedTimes(DEFAULT_AUTH_CONFIG.maxLoginAttempts, 'user', now);
+    const previous = failTimes(DEFAULT_AUTH_CONFIG.maxLoginAttempts - 1);
+
+    expect(state).toEqual(LoginThrottlePolicy.afterFailure({ ...previous, lastFailedAt: now }, 'user', now));
+    expect(state.lockedOut).toBe(true);
+  });
+
+  it('should remember failures for as long as the lockout ceiling', () => {
+    expect(LoginThrottlePolicy.memoryStart(now))
+      .toEqual(secondsLater(-DEFAULT_AUTH_CONFIG.maxLockoutHours * 60 * 60));
+  });
+
+  it('should hold off other tries while a PIN is being checked', () => {
+    const heldUntil = LoginThrottlePolicy.heldForCheckUntil(now);
+
+    expect(LoginThrottlePolicy.retryAfterSeconds({ failedCount: 1, lockedUntil: heldUntil }, now))
+      .toBe(DEFAULT_AUTH_CONFIG.pinCheckHoldSeconds);
+  });
+
+  it('should describe waits in the largest sensible unit', () => {
+    expect(LoginThrottlePolicy.describeWait(1)).toBe('1 second');
+    expect(LoginThrottlePolicy.describeWait(45)).toBe('45 seconds');
+    expect(LoginThrottlePolicy.describeWait(15 * 60)).toBe('15 minutes');
+    expect(LoginThrottlePolicy.describeWait(61)).toBe('2 minutes');
+    expect(LoginThrottlePolicy.describeWait(2 * 60 * 60)).toBe('2 hours');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { ManagerOverridePolicy } from '@/services/auth/managerOverride';
+import { rolePermissions } from '@/types/auth';
+
+describe('ManagerOverridePolicy', () => {
+  it('should only ask users who cannot approve overrides for a manager', () => {
+    expect(ManagerOverridePolicy.needsApproval({ permissions: rolePermissions('cashier') })).toBe(true);
+    expect(ManagerOverridePolicy.needsApproval({ permissions: rolePermissions('manager') })).toBe(false);
+    expect(ManagerOverridePolicy.needsApproval({ permissions: rolePermissions('admin') })).toBe(false);
+    expect(ManagerOverridePolicy.needsApproval({ permissions: ['sales.create', 'sales.override'] })).toBe(false);
+  });
+
+  it('should let sales at list price through', () => {
+    const lines = [{ unitPrice: 200, quantity: 2, listPrice: 200 }];
+
+    expect(ManagerOverridePolicy.saleReasons(lines)).toEqual([]);
+    expect(ManagerOverridePolicy.saleReasons(lines, 40)).toEqual([]);
+  });
+
+  it('should flag items sold below their list price', () => {
+    expect(ManagerOverridePolicy.saleReasons([{ unitPrice: 150, quantity: 1, listPrice: 200 }]))
+      .toEqual(['price_override']);
+    expect(ManagerOverridePolicy.saleReasons([
+      { unitPrice: 80, quantity: 1, listPrice: 100, isCustomVariant: true, customVariantData: { customPrice: 80 } },
+    ])).toEqual(['price_override']);
+  });
+
+  it('should allow custom prices above the base price', () => {
+    expect(ManagerOverridePolicy.saleReasons([
+      { unitPrice: 120, quantity: 1, listPrice: 100, isCustomVariant: true, customVariantData: { customPrice: 120 } },
+    ])).toEqual([]);
+  });
+
+  it('should flag discounts over the limit', () => {
+    const lines = [{ unitPrice: 500, quantity: 2, listPrice: 500 }];
+
+    expect(ManagerOverridePolicy.saleReasons(lines, 100)).toEqual([]);
+    expect(ManagerOverridePolicy.saleReasons(lines, 101)).toEqual(['large_discount']);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { Barcode } from '@/services/barcode/barcode';
+import { ScanDetector } from '@/services/barcode/scanDetector';
+
+describe('Barcode', () => {
+  it('should convert ISBN-10 to the ISBN-13 printed on the book', () => {
+    expect(Barcode.normalize('0-306-40615-2')).toBe('9780306406157');
+    expect(Barcode.normalize('080442957X')).toBe('9780804429573');
+    expect(Barcode.normalize(' 978-0-306-40615-7 ')).toBe('9780306406157');
+  });
+
+  it('should check GTIN check digits', () => {
+    expect(Barcode.isGtin('9780306406157')).toBe(true);
+    expect(Barcode.isGtin('9780306406158')).toBe(false);
+    expect(Barcode.isGtin('036000291452')).toBe(true);
+    expect(Barcode.isGtin('96385074')).toBe(true);
+    expect(Barcode.isIsbn('9780306406157')).toBe(true);
+    expect(Barcode.isIsbn('8901030865278')).toBe(false);
+  });
+
+  it('should reject mistyped GTINs but accept in-store label codes', () => {
+    expect(Barcode.isValid('9780306406158')).toBe(false);
+    expect(Barcode.isValid('TULSI108')).toBe(true);
+    expect(Barcode.isValid('AB1')).toBe(false);
+  });
+});
+
+describe('ScanDetector', () => {
+  const feed = (detector: ScanDetector, keys: string[], start: number, interval: number) =>
+    keys.map((key, index) => detector.handleKey(key, start + index * interval));
+
+  it('should report a code typed rapidly and ended with Enter', () => {
+    const detector = new ScanDetector(50, 6);
+    const results = feed(detector, [...'9780306406157'.split(''), 'Enter'], 1000, 8);
+
+    expect(results[results.length - 1]).toBe('9780306406157');
+    expect(results.slice(0, -1).every(result => result === null)).toBe(true);
+  });
+
+  it('should skip the Shift presses scanners send for capitals', () => {
+    const detector = new ScanDetector(50, 6);
+    const results = feed(detector, ['Shift', 'T', 'Shift', 'U', ...'LSI108'.split(''), 'Enter'], 1000, 5);
+
+    expect(results[results.length - 1]).toBe('TULSI108');
+  });
+
+  it('should ignore the same keys typed at human speed', () => {
+    const detector = new ScanDetector(50, 6);
+    const results = feed(detector, [...'9780306406157'.split(''), 'Enter'], 1000, 120);
+
+    expect(results.every(result => result === null)).toBe(true);
+  });
+
+  it('should ignore short bursts and keep only the fast tail after a pause', () => {
+    const detector = new ScanDetector(50, 6);
+    expect(feed(detector, [...'ab'.split(''), 'Enter'], 0, 5).pop()).toBeNull();
+
+    // A slow key followed by a scan: only the scanned characters are reported
+    detector.handleKey('x', 500);
+    expect(feed(detector, [...'12345678'.split(''), 'Enter'], 1000, 5).pop()).toBe('12345678');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BatchService, isExpired } from '@/services/database/batches';
+import { stockMovementService } from '@/services/database/stockMovements';
+import { createDbDouble, asTransaction } from '../../utils/db-double';
+
+// Mock the database connection
+vi.mock('@/lib/db/connection', () => ({
+  getDb: vi.fn(() => ({})),
+}));
+
+const now = new Date('2026-10-19T10:00:00Z');
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+function batch(id: string, quantity: number, expiresAt: Date | null) {
+  return { id, variantId: 'variant-1', batchNumber: id.toUpperCase(), quantity, expiresAt };
+}
+
+// Transaction double: the batch list (already in FEFO order), then the variant's total vs batched stock.
+// Batches at another location are assumed to be filtered out by the query already.
+function createTx(batches: ReturnType<typeof batch>[], stockQuantity: number) {
+  const batched = batches.reduce((sum, b) => sum + b.quantity, 0);
+  const limitResults = [
+    [{ total: stockQuantity, batched }],
+    [{ productName: 'Ghee', variantName: '500g' }],
+  ];
+  const tx = createDbDouble();
+  tx.builder.orderBy.mockResolvedValue(batches);
+  tx.builder.limit.mockImplementation(() => Promise.resolve(limitResults.shift() || []));
+  return tx;
+}
+
+describe('BatchService', () => {
+  let service: BatchService;
+
+  beforeEach(() => {
+    service = new BatchService();
+    // No locations set up unless a test says otherwise
+    vi.spyOn(stockMovementService, 'findDefaultLocationId').mockResolvedValue(null);
+  });
+
+  describe('allocate', () => {
+    it('should take the soonest-expiring good batch first', async () => {
+      const tx = createTx([batch('b1', 4, daysFromNow(10)), batch('b2', 10, daysFromNow(60))], 14);
+
+      const allocations = await service.allocate(asTransaction(tx), 'variant-1', 6, { now });
+
+      expect(allocations).toEqual([
+        { batchId: 'b1', quantity: 4 },
+        { batchId: 'b2', quantity: 2 },
+      ]);
+      expect(tx.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should sell stock without a batch before touching expired batches', async () => {
+      const tx = createTx([batch('old', 5, daysFromNow(-2)), batch('b1', 2, daysFromNow(30))], 10);
+
+      const allocations = await service.allocate(asTransaction(tx), 'variant-1', 5, { now });
+
+      // 2 from the good batch, 3 of the 3 untracked units
+      expect(allocations).toEqual([{ batchId: 'b1', quantity: 2 }]);
+    });
+
+    it('should refuse to sell expired stock without approval', async () => {
+      const tx = createTx([batch('old', 5, daysFromNow(-2)), batch('b1', 1, daysFromNow(30))], 6);
+
+      await expect(service.allocate(asTransaction(tx), 'variant-1', 3, { now }))
+        .rejects.toThrow('Batch OLD of Ghee - 500g expired on 2026-10-17; a manager must approve selling expired stock');
+      expect(tx.update).not.toHaveBeenCalled();
+    });
+
+    it('should sell expired batches once a manager approves', async () => {
+      const tx = createTx([batch('old', 5, daysFromNow(-2)), batch('b1', 1, daysFromNow(30))], 6);
+
+      const allocations = await service.allocate(asTransaction(tx), 'variant-1', 3, { now, allowExpired: true });
+
+      expect(allocations).toEqual([
+        { batchId: 'b1', quantity: 1 },
+        { batchId: 'old', quantity: 2 },
+      ]);
+    });
+  });
+
+  describe('allocate at a location', () => {
+    it('should only count stock without a batch at the sale\'s location', async () => {
+      vi.spyOn(stockMovementService, 'findDefaultLocationId').mockResolvedValue('main');
+      const levelSpy = vi.spyOn(stockMovementService, 'locationLevel').mockResolvedValue(8);
+      // 20 on hand across every location, but only 8 at the shop, 7 of them in its batches
+      const tx = createTx([batch('old', 5, daysFromNow(-2)), batch('b1', 2, daysFromNow(30))], 20);
+
+      await expect(service.allocate(asTransaction(tx), 'variant-1', 5, { now, locationId: 'shop' }))
+        .rejects.toThrow('a manager must approve selling expired stock');
+      expect(levelSpy).toHaveBeenCalledWith(tx, 'variant-1', 'shop');
+    });
+  });
+
+  describe('isExpired', () => {
+    it('should treat the expiry moment itself as expired', () => {
+      expect(isExpired({ expiresAt: now }, now)).toBe(true);
+      expect(isExpired({ expiresAt: daysFromNow(1) }, now)).toBe(false);
+      expect(isExpired({ expiresAt: null }, now)).toBe(false);
+    });
+  });
+});
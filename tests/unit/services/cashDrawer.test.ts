@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { CashDrawer } from '@/services/shifts/cashDrawer';
+
+describe('CashDrawer', () => {
+  it('should total notes by denomination plus loose coins', () => {
+    expect(CashDrawer.count({ notes: { 500: 3, 100: 4, 10: 2 }, coins: 7.5 })).toBe(1927.5);
+    expect(CashDrawer.count({ notes: {}, coins: 0 })).toBe(0);
+  });
+
+  it('should report shortages as a negative variance', () => {
+    expect(CashDrawer.variance(1500, 1480)).toBe(-20);
+    expect(CashDrawer.variance(1500, 1500.5)).toBe(0.5);
+  });
+
+  it('should only need a manager once the variance exceeds the threshold', () => {
+    expect(CashDrawer.needsApproval(-100)).toBe(false);
+    expect(CashDrawer.needsApproval(100)).toBe(false);
+    expect(CashDrawer.needsApproval(-100.01)).toBe(true);
+    expect(CashDrawer.needsApproval(250)).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { CustomerDisplayChannel } from '@/services/display/customerDisplayChannel';
+import type { CartItem } from '@/stores/cartStore';
+import type { MembershipTier } from '@/types/loyalty';
+import type { Customer } from '@/types/customer';
+import type { Product } from '@/types';
+
+const gita = {
+  id: 'gita',
+  name: 'Bhagavad Gita As It Is',
+  basePrice: 250,
+} as Product;
+
+const items: CartItem[] = [
+  {
+    productId: 'gita',
+    variantId: 'hardcover',
+    quantity: 2,
+    product: gita,
+    variant: { id: 'hardcover', name: 'Hardcover', price: 350 } as CartItem['variant'],
+  },
+  {
+    productId: 'gita',
+    variantId: 'custom-1',
+    quantity: 1,
+    product: gita,
+    isCustomVariant: true,
+    customVariantData: { customPrice: 200, customDescription: 'Shop-soiled copy' } as CartItem['customVariantData'],
+  },
+];
+
+const cart = {
+  items,
+  pricing: {
+    subtotal: 900,
+    discount: 70,
+    total: 830,
+    lines: [
+      { lineTotal: 700, discount: 70, appliedPromotions: [] },
+      { lineTotal: 200, discount: 0, appliedPromotions: [] },
+    ],
+    cartPromotions: [],
+  },
+  subtotal: 900,
+  discount: 70,
+  addedTax: 0,
+  donationTotal: 101,
+  total: 931,
+  customer: null as Customer | null,
+};
+
+describe('CustomerDisplayChannel', () => {
+  it('should show each line with its price and promotion discount', () => {
+    const snapshot = CustomerDisplayChannel.snapshot(cart);
+
+    expect(snapshot.lines).toEqual([
+      { key: 'gita-hardcover', name: 'Bhagavad Gita As It Is', detail: 'Hardcover', quantity: 2, unitPrice: 350, lineTotal: 700, discount: 70 },
+      { key: 'gita-custom-1', name: 'Bhagavad Gita As It Is', detail: 'Shop-soiled copy', quantity: 1, unitPrice: 200, lineTotal: 200, discount: 0 },
+    ]);
+    expect(snapshot).toMatchObject({ subtotal: 900, discount: 70, donationTotal: 101, total: 931, customerName: null });
+  });
+
+  it('should show members their member prices', () => {
+    const tier: MembershipTier = {
+      id: 'tier-1',
+      name: 'Life Member',
+      discountPercent: 10,
+      pointsPerRupee: 0,
+      isActive: true,
+      prices: [],
+    };
+
+    const snapshot = CustomerDisplayChannel.snapshot({
+      ...cart,
+      tier,
+      customer: { id: 'c1', name: 'Radha Devi' } as Customer,
+    });
+
+    expect(snapshot.lines.map(line => line.unitPrice)).toEqual([315, 200]);
+    expect(snapshot.customerName).toBe('Radha Devi');
+  });
+
+  it('should fall back to list prices before the cart has been priced', () => {
+    const snapshot = CustomerDisplayChannel.snapshot({ ...cart, pricing: undefined });
+
+    expect(snapshot.lines[0]).toMatchObject({ unitPrice: 350, lineTotal: 700, discount: 0 });
+  });
+});
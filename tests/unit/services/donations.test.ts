@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DonationService, financialYear } from '@/services/database/donations';
+import { createDbDouble, asTransaction } from '../../utils/db-double';
+
+// Mock the database connection
+vi.mock('@/lib/db/connection', () => ({
+  getDb: vi.fn(() => ({})),
+}));
+
+describe('DonationService', () => {
+  describe('financialYear', () => {
+    it('should start the financial year in April', () => {
+      expect(financialYear(new Date(2026, 3, 1))).toBe('2026-27');
+      expect(financialYear(new Date(2027, 2, 31))).toBe('2026-27');
+      expect(financialYear(new Date(2099, 11, 31))).toBe('2099-00');
+    });
+  });
+
+  describe('checkDonor', () => {
+    it('should require a customer to issue the receipt to', async () => {
+      const service = new DonationService();
+      service.setDb(createDbDouble([]));
+
+      await expect(service.checkDonor(null)).rejects.toThrow('Attach the donor as the customer');
+    });
+
+    it('should require the donor to have a PAN on file', async () => {
+      const service = new DonationService();
+      service.setDb(createDbDouble([{ name: 'Radha Devi', pan: null }]));
+
+      await expect(service.checkDonor('customer-1')).rejects.toThrow("Add Radha Devi's PAN first");
+    });
+
+    it('should accept a donor with a PAN', async () => {
+      const service = new DonationService();
+      service.setDb(createDbDouble([{ name: 'Radha Devi', pan: 'ABCDE1234F' }]));
+
+      await expect(service.checkDonor('customer-1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordDonations', () => {
+    it('should continue the 80G series for the financial year', async () => {
+      const tx = createDbDouble([]);
+      tx.builder.where.mockResolvedValue([{ count: 41 }]);
+      const service = new DonationService();
+
+      await service.recordDonations(
+        asTransaction(tx),
+        'transaction-1',
+        'customer-1',
+        [{ purpose: 'Annadaan', amount: 501 }, { purpose: 'Go-seva', amount: 101.5 }],
+        new Date(2026, 9, 19)
+      );
+
+      const rows = tx.values.mock.calls[0][0];
+      expect(rows.map((row: { receiptNumber: string }) => row.receiptNumber)).toEqual(['80G/2026-27/00042', '80G/2026-27/00043']);
+      expect(rows[1]).toMatchObject({ transactionId: 'transaction-1', customerId: 'customer-1', amount: 101.5 });
+    });
+  });
+});
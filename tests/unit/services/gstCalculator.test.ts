@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { GstCalculator } from '@/services/tax/gstCalculator';
+
+describe('GstCalculator', () => {
+  it('should back tax out of tax-inclusive prices', () => {
+    const result = GstCalculator.calculateLine({ amount: 118, taxRate: 18, priceIncludesTax: true });
+
+    expect(result.taxableValue).toBe(100);
+    expect(result.cgst).toBe(9);
+    expect(result.sgst).toBe(9);
+    expect(result.igst).toBe(0);
+    expect(result.lineTotal).toBe(118);
+  });
+
+  it('should add tax on top of tax-exclusive prices', () => {
+    const result = GstCalculator.calculateLine({ amount: 200, taxRate: 12, priceIncludesTax: false });
+
+    expect(result.taxableValue).toBe(200);
+    expect(result.totalTax).toBe(24);
+    expect(result.lineTotal).toBe(224);
+  });
+
+  it('should charge IGST for inter-state sales', () => {
+    const result = GstCalculator.calculateLine({ amount: 105, taxRate: 5, priceIncludesTax: true, interState: true });
+
+    expect(result.cgst).toBe(0);
+    expect(result.sgst).toBe(0);
+    expect(result.igst).toBe(5);
+  });
+
+  it('should keep CGST and SGST adding up to the total on odd paise', () => {
+    const result = GstCalculator.calculateLine({ amount: 10.01, taxRate: 5, priceIncludesTax: false });
+
+    expect(result.cgst + result.sgst).toBeCloseTo(result.totalTax, 2);
+  });
+
+  it('should not tax exempt goods such as books', () => {
+    const result = GstCalculator.calculateLine({ amount: 250, taxRate: 0, priceIncludesTax: true });
+
+    expect(result.totalTax).toBe(0);
+    expect(result.taxableValue).toBe(250);
+  });
+
+  it('should group lines by rate', () => {
+    const rows = GstCalculator.summarize([
+      { taxRate: 12, taxableValue: 100, cgst: 6, sgst: 6, igst: 0 },
+      { taxRate: 5, taxableValue: 40, cgst: 1, sgst: 1, igst: 0 },
+      { taxRate: 12, taxableValue: 50, cgst: 3, sgst: 3, igst: 0 },
+    ]);
+
+    expect(rows.map(row => row.rate)).toEqual([5, 12]);
+    expect(rows[1].taxableValue).toBe(150);
+    expect(rows[1].totalTax).toBe(18);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { BarcodeEncoder } from '@/services/barcode/barcodeEncoder';
+import { LabelGenerator } from '@/services/printer/labelGenerator';
+import { LABEL_SHEET_LAYOUTS } from '@/types/label';
+import type { LabelItem, LabelOptions } from '@/types/label';
+
+const options: LabelOptions = { showName: true, showPrice: true, symbology: 'barcode' };
+
+const item = (overrides: Partial<LabelItem> = {}): LabelItem => ({
+  variantId: 'v1',
+  productName: 'Bhagavad Gita',
+  variantName: 'Hardcover',
+  price: 350,
+  barcode: '9780306406157',
+  copies: 1,
+  ...overrides,
+});
+
+describe('BarcodeEncoder', () => {
+  it('should pick EAN-13 for valid 13 digit codes only', () => {
+    expect(BarcodeEncoder.formatFor('9780306406157')).toBe('EAN13');
+    expect(BarcodeEncoder.formatFor('9780306406158')).toBe('CODE128');
+    expect(BarcodeEncoder.formatFor('SKU001')).toBe('CODE128');
+  });
+
+  it('should encode EAN-13 as 95 modules with guard bars', () => {
+    const modules = BarcodeEncoder.ean13Modules('9780306406157');
+
+    expect(modules).toHaveLength(95);
+    expect(modules.slice(0, 3)).toBe('101');
+    expect(modules.slice(45, 50)).toBe('01010');
+    expect(modules.slice(-3)).toBe('101');
+  });
+
+  it('should encode CODE128 with start, check and stop symbols', () => {
+    const modules = BarcodeEncoder.code128Modules('SKU-42');
+
+    expect(modules).toHaveLength(11 * (6 + 2) + 13);
+    expect(modules.slice(0, 11)).toBe('11010010000'); // Start B
+    expect(modules.slice(-13)).toBe('1100011101011'); // Stop
+  });
+
+  it('should escape the human readable text in SVG', () => {
+    const svg = BarcodeEncoder.toSVG('A<B>');
+
+    expect(svg).toContain('A&lt;B&gt;');
+    expect(svg).toContain('<rect');
+  });
+});
+
+describe('LabelGenerator', () => {
+  it('should print one label per copy', () => {
+    expect(LabelGenerator.expand([item({ copies: 3 }), item({ variantId: 'v2', copies: 0 })])).toHaveLength(3);
+  });
+
+  it('should split labels across A4 sheets', () => {
+    const layout = LABEL_SHEET_LAYOUTS.find(l => l.id === 'a4-24')!;
+    const html = LabelGenerator.generateSheetHTML([item({ copies: 30 })], layout, options);
+
+    expect(html.match(/class="sheet"/g)).toHaveLength(2);
+    expect(html.match(/class="label"/g)).toHaveLength(30);
+    expect(html).toContain('size: A4');
+    expect(html).toContain('Bhagavad Gita - Hardcover');
+    expect(html).toContain('₹350.00');
+  });
+
+  it('should leave out name and price when switched off', () => {
+    const html = LabelGenerator.generateSheetHTML(
+      [item()],
+      LABEL_SHEET_LAYOUTS[0],
+      { ...options, showName: false, showPrice: false }
+    );
+
+    expect(html).not.toContain('class="name"');
+    expect(html).not.toContain('class="price"');
+    expect(html).toContain('<svg');
+  });
+
+  it('should produce ESC/POS barcode or QR commands for thermal labels', () => {
+    const barcode = Array.from(LabelGenerator.generateThermalLabels([item({ copies: 2 })], options));
+    const qr = Array.from(LabelGenerator.generateThermalLabels([item()], { ...options, symbology: 'qr' }));
+    const count = (bytes: number[], seq: number[]) =>
+      bytes.filter((_, i) => seq.every((b, j) => bytes[i + j] === b)).length;
+
+    expect(count(barcode, [0x1d, 0x6b, 67])).toBe(2);
+    expect(count(qr, [0x1d, 0x28, 0x6b])).toBeGreaterThan(0);
+    expect(count(qr, [0x1d, 0x6b])).toBe(0);
+  });
+});
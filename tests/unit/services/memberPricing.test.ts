@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { MemberPricing } from '@/services/loyalty/memberPricing';
+import type { MembershipTier } from '@/types/loyalty';
+
+const lifeMember: MembershipTier = {
+  id: 'tier-1',
+  name: 'Life Member',
+  discountPercent: 10,
+  pointsPerRupee: 0.01,
+  isActive: true,
+  prices: [
+    { id: 'price-1', tierId: 'tier-1', productId: 'gita', variantId: null, price: 180 },
+    { id: 'price-2', tierId: 'tier-1', productId: 'gita', variantId: 'hardcover', price: 300 },
+  ],
+};
+
+describe('MemberPricing', () => {
+  it('should charge regular prices without an active tier', () => {
+    const line = { productId: 'gita', unitPrice: 200 };
+
+    expect(MemberPricing.priceFor(null, line)).toBe(200);
+    expect(MemberPricing.priceFor(undefined, line)).toBe(200);
+    expect(MemberPricing.priceFor({ ...lifeMember, isActive: false }, line)).toBe(200);
+  });
+
+  it('should prefer the variant price, then the product price, over the tier discount', () => {
+    expect(MemberPricing.priceFor(lifeMember, { productId: 'gita', variantId: 'hardcover', unitPrice: 350 })).toBe(300);
+    expect(MemberPricing.priceFor(lifeMember, { productId: 'gita', variantId: 'paperback', unitPrice: 200 })).toBe(180);
+    expect(MemberPricing.priceFor(lifeMember, { productId: 'incense', unitPrice: 55 })).toBe(49.5);
+  });
+
+  it('should never list a member price above the regular price', () => {
+    expect(MemberPricing.priceFor(lifeMember, { productId: 'gita', unitPrice: 150 })).toBe(150);
+  });
+
+  it('should leave custom prices agreed at the counter alone', () => {
+    expect(MemberPricing.priceFor(lifeMember, { productId: 'gita', unitPrice: 500, isCustomVariant: true })).toBe(500);
+  });
+
+  it('should earn whole points on the amount paid', () => {
+    expect(MemberPricing.pointsEarned(lifeMember, 300)).toBe(3);
+    expect(MemberPricing.pointsEarned(lifeMember, 299.99)).toBe(2);
+    expect(MemberPricing.pointsEarned({ ...lifeMember, pointsPerRupee: 0 }, 1000)).toBe(0);
+    expect(MemberPricing.pointsEarned(null, 1000)).toBe(0);
+  });
+});
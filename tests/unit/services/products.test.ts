@@ -506,8 +506,8 @@ describe('ProductService', () => {
       const result = await productService.bulkUpdateStock(updates);
 
       expect(result).toBe(true);
-      expect(productService.updateVariantStock).toHaveBeenCalledWith('variant-1', 30); // 20 + 10
-      expect(productService.updateVariantStock).toHaveBeenCalledWith('variant-2', 5); // set to 5
+      expect(productService.updateVariantStock).toHaveBeenCalledWith('variant-1', 30, expect.any(Object)); // 20 + 10
+      expect(productService.updateVariantStock).toHaveBeenCalledWith('variant-2', 5, expect.any(Object)); // set to 5
     });
 
     it('should handle subtract operation with minimum zero', async () => {
@@ -525,7 +525,7 @@ describe('ProductService', () => {
       const result = await productService.bulkUpdateStock(updates);
 
       expect(result).toBe(true);
-      expect(productService.updateVariantStock).toHaveBeenCalledWith('variant-1', 0); // max(0, 10-25)
+      expect(productService.updateVariantStock).toHaveBeenCalledWith('variant-1', 0, expect.any(Object)); // max(0, 10-25)
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { PromotionEngine } from '@/services/promotions/promotionEngine';
+import type { Promotion, PricingLine } from '@/types/promotion';
+
+const basePromotion: Promotion = {
+  id: 'promo-1',
+  name: 'Promotion',
+  type: 'percentage',
+  scope: 'product',
+  value: 10,
+  isActive: true,
+};
+
+const gita: PricingLine = { productId: 'gita', categoryId: 'books', unitPrice: 200, quantity: 2 };
+const incense: PricingLine = { productId: 'incense', categoryId: 'puja', unitPrice: 50, quantity: 4 };
+
+describe('PromotionEngine', () => {
+  it('should leave the cart untouched when no promotion applies', () => {
+    const result = PromotionEngine.evaluate([gita, incense], []);
+
+    expect(result.subtotal).toBe(600);
+    expect(result.discount).toBe(0);
+    expect(result.total).toBe(600);
+  });
+
+  it('should apply percentage and fixed discounts per product and category', () => {
+    const result = PromotionEngine.evaluate([gita, incense], [
+      { ...basePromotion, id: 'p1', name: '10% off Gita', productId: 'gita' },
+      { ...basePromotion, id: 'p2', name: '₹5 off puja items', type: 'fixed', scope: 'category', categoryId: 'puja', value: 5 },
+    ]);
+
+    expect(result.lines[0].discount).toBe(40);
+    expect(result.lines[0].appliedPromotions[0].name).toBe('10% off Gita');
+    expect(result.lines[1].discount).toBe(20);
+    expect(result.total).toBe(540);
+  });
+
+  it('should pick the best line promotion instead of stacking them', () => {
+    const result = PromotionEngine.evaluate([gita], [
+      { ...basePromotion, id: 'p1', productId: 'gita', value: 10 },
+      { ...basePromotion, id: 'p2', scope: 'category', categoryId: 'books', value: 25 },
+    ]);
+
+    expect(result.lines[0].discount).toBe(100);
+    expect(result.lines[0].appliedPromotions).toHaveLength(1);
+    expect(result.lines[0].appliedPromotions[0].promotionId).toBe('p2');
+  });
+
+  it('should give free units for buy-X-get-Y', () => {
+    const result = PromotionEngine.evaluate(
+      [{ ...incense, quantity: 7 }],
+      [{ ...basePromotion, type: 'buy_x_get_y', productId: 'incense', minQuantity: 2, getQuantity: 1, value: 0 }]
+    );
+
+    // Two full sets of 2+1 in seven sticks
+    expect(result.lines[0].discount).toBe(100);
+  });
+
+  it('should apply minimum-quantity pricing only above the threshold', () => {
+    const bulk: Promotion = { ...basePromotion, type: 'min_quantity_price', productId: 'incense', minQuantity: 5, value: 40 };
+
+    expect(PromotionEngine.evaluate([incense], [bulk]).discount).toBe(0);
+    expect(PromotionEngine.evaluate([{ ...incense, quantity: 5 }], [bulk]).discount).toBe(50);
+  });
+
+  it('should only apply festival promotions inside their window', () => {
+    const janmashtami: Promotion = {
+      ...basePromotion,
+      productId: 'gita',
+      startsAt: '2026-08-30T00:00:00.000Z',
+      endsAt: '2026-09-06T23:59:59.000Z',
+    };
+
+    expect(PromotionEngine.evaluate([gita], [janmashtami], new Date('2026-09-02T10:00:00Z')).discount).toBe(40);
+    expect(PromotionEngine.evaluate([gita], [janmashtami], new Date('2026-09-10T10:00:00Z')).discount).toBe(0);
+  });
+
+  it('should spread cart promotions across lines once the minimum total is met', () => {
+    const cartPromotion: Promotion = {
+      ...basePromotion,
+      id: 'cart',
+      name: '₹60 off above ₹500',
+      type: 'fixed',
+      scope: 'cart',
+      value: 60,
+      minCartTotal: 500,
+    };
+
+    const result = PromotionEngine.evaluate([gita, incense], [cartPromotion]);
+
+    expect(result.cartPromotions[0].amount).toBe(60);
+    expect(result.lines[0].discount).toBe(40);
+    expect(result.lines[1].discount).toBe(20);
+    expect(result.total).toBe(540);
+
+    expect(PromotionEngine.evaluate([incense], [cartPromotion]).discount).toBe(0);
+  });
+
+  it('should never discount custom-priced lines', () => {
+    const result = PromotionEngine.evaluate(
+      [{ ...gita, excludeFromPromotions: true }],
+      [{ ...basePromotion, productId: 'gita' }]
+    );
+
+    expect(result.discount).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { QrCode } from '@/services/barcode/qrCode';
+import { UpiIntent } from '@/services/upi/upiIntent';
+
+// Format information read back from around the top-left finder, unmasked
+const readFormat = (modules: boolean[][]) => {
+  const positions: Array<[number, number]> = [];
+  for (let i = 0; i <= 5; i++) positions.push([8, i]);
+  positions.push([8, 7], [8, 8], [7, 8]);
+  for (let i = 9; i < 15; i++) positions.push([14 - i, 8]);
+  const bits = positions.reduce((value, [x, y], i) => value | ((modules[y][x] ? 1 : 0) << i), 0);
+  return (bits ^ 0x5412).toString(2).padStart(15, '0');
+};
+
+describe('QrCode', () => {
+  it('should compute the Reed-Solomon codewords of the specification example', () => {
+    // HELLO WORLD at version 1-M
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+    expect(QrCode.addErrorCorrection(data, 1, 'M').slice(16)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  it('should know how much each version holds', () => {
+    expect(QrCode.dataCodewords(1, 'M')).toBe(16);
+    expect(QrCode.dataCodewords(7, 'M')).toBe(124);
+    expect(QrCode.dataCodewords(40, 'L')).toBe(2956);
+  });
+
+  it('should pick the smallest version that fits and draw the finders', () => {
+    const modules = QrCode.encode('https://example.com');
+
+    expect(modules).toHaveLength(25);
+    expect(modules[0].slice(0, 7).every(Boolean)).toBe(true);
+    expect(modules[0][7]).toBe(false);
+    expect(modules[24].slice(0, 7).every(Boolean)).toBe(true);
+  });
+
+  it('should write valid format information for level M', () => {
+    const format = readFormat(QrCode.encode('ISKCON Asansol'));
+
+    expect(format.slice(0, 2)).toBe('00');
+    // BCH(15,5): the remainder of the full code word is zero
+    let remainder = parseInt(format, 2);
+    for (let i = 14; i >= 10; i--) {
+      if (remainder & (1 << i)) remainder ^= 0x537 << (i - 10);
+    }
+    expect(remainder).toBe(0);
+  });
+
+  it('should fit a UPI payment link', () => {
+    const uri = UpiIntent.buildUri({
+      vpa: 'iskconasansol@sbi',
+      payeeName: 'ISKCON Asansol Temple',
+      amount: 1234.5,
+      reference: 'ISKAMGX7ZK3QF9',
+    });
+
+    expect(QrCode.encode(uri).length).toBeLessThanOrEqual(45);
+    expect(QrCode.toSVG(uri)).toMatch(/^<svg[^>]+viewBox="0 0 \d+ \d+"/);
+  });
+
+  it('should refuse text too long for any version', () => {
+    expect(() => QrCode.encode('x'.repeat(3000))).toThrow('too long');
+  });
+});
+
+describe('UpiIntent', () => {
+  it('should build a upi://pay link with the amount and reference', () => {
+    expect(UpiIntent.buildUri({
+      vpa: 'iskconasansol@sbi',
+      payeeName: 'ISKCON Asansol Temple',
+      amount: 250,
+      reference: 'ISKAMGX7ZK3QF9',
+      note: 'Sale ISKAMGX7ZK3QF9',
+    })).toBe('upi://pay?pa=iskconasansol%40sbi&pn=ISKCON%20Asansol%20Temple&am=250.00&cu=INR&tr=ISKAMGX7ZK3QF9&tn=Sale%20ISKAMGX7ZK3QF9');
+  });
+
+  it('should refuse a missing VPA', () => {
+    expect(() => UpiIntent.buildUri({ vpa: '', payeeName: 'Temple', amount: 10, reference: 'R1' })).toThrow('UPI ID');
+    expect(UpiIntent.isValidVpa('temple@okaxis')).toBe(true);
+    expect(UpiIntent.isValidVpa('temple')).toBe(false);
+  });
+
+  it('should start references with the prefix and keep them alphanumeric', () => {
+    const reference = UpiIntent.generateReference('isk-a', new Date(2026, 9, 19));
+
+    expect(reference).toMatch(/^ISKA[0-9A-Z]+$/);
+    expect(reference.length).toBeLessThanOrEqual(35);
+  });
+});
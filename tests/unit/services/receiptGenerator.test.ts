@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { ReceiptGenerator } from '@/services/printer/receiptGenerator';
 import type { ReceiptData } from '@/types/receipt';
+import type { Voucher } from '@/types/voucher';
 
 describe('ReceiptGenerator', () => {
   const mockReceiptData: ReceiptData = {
@@ -123,6 +124,63 @@ describe('ReceiptGenerator', () => {
       expect(receipt).toContain('₹665.00');
     });
 
+    it('should label return receipts as refunds', () => {
+      const returnData = {
+        ...mockReceiptData,
+        receiptType: 'return' as const,
+        originalReceiptNumber: 'R000111',
+        returnReason: 'Damaged cover',
+        cashReceived: undefined,
+        changeGiven: undefined
+      };
+
+      const receipt = ReceiptGenerator.generateThermalReceipt(returnData);
+
+      expect(receipt).toContain('RETURN / REFUND');
+      expect(receipt).toContain('Original: R000111');
+      expect(receipt).toContain('Reason: Damaged cover');
+      expect(receipt).toContain('RETURNED ITEMS:');
+      expect(receipt).toContain('REFUND:');
+      expect(receipt).toContain('Refunded via: CASH');
+      expect(receipt).not.toContain('TOTAL:');
+    });
+
+    it('should list each tender of a split payment', () => {
+      const splitData = {
+        ...mockReceiptData,
+        paymentMethod: 'split',
+        payments: [
+          { method: 'cash', amount: 150 },
+          { method: 'upi', amount: 127.5, reference: 'UPI998877' }
+        ]
+      };
+
+      const receipt = ReceiptGenerator.generateThermalReceipt(splitData);
+
+      expect(receipt).toContain('Payment: SPLIT');
+      expect(receipt).toMatch(/CASH:\s+₹150\.00/);
+      expect(receipt).toMatch(/UPI:\s+₹127\.50/);
+      expect(receipt).toContain('Ref: UPI998877');
+    });
+
+    it('should print applied promotions under the item', () => {
+      const promotionData = {
+        ...mockReceiptData,
+        items: [
+          {
+            ...mockReceiptData.items[0],
+            promotions: [{ name: 'Janmashtami 10% off', amount: 25 }]
+          }
+        ],
+        discount: 25
+      };
+
+      const receipt = ReceiptGenerator.generateThermalReceipt(promotionData);
+
+      expect(receipt).toMatch(/Janmashtami 10% off\s+-₹25\.00/);
+      expect(receipt).toContain('Discount:');
+    });
+
     it('should respect custom width', () => {
       const customTemplate = {
         id: 'custom',
@@ -146,6 +204,50 @@ describe('ReceiptGenerator', () => {
     });
   });
 
+  describe('generateShiftReport', () => {
+    it('should print the drawer count and flag variances awaiting sign-off', () => {
+      const report = ReceiptGenerator.generateShiftReport({
+        type: 'Z',
+        shift: {
+          id: 'shift_1',
+          userId: 'user_1',
+          userName: 'cashier1',
+          status: 'pending_approval',
+          openingFloat: 1000,
+          expectedCash: 1650,
+          countedCash: 1500,
+          variance: -150,
+          cashCount: { notes: { 500: 3 }, coins: 0 },
+          openedAt: new Date('2024-01-15T09:00:00Z'),
+          closedAt: new Date('2024-01-15T18:00:00Z'),
+        },
+        generatedAt: new Date('2024-01-15T18:00:00Z'),
+        transactionCount: 2,
+        grossSales: 900,
+        donations: 0,
+        discounts: 0,
+        tax: 0,
+        cashSales: 650,
+        upiSales: 250,
+        voucherSales: 0,
+        giftVouchersSold: 0,
+        refundCount: 0,
+        cashRefunds: 0,
+        upiRefunds: 0,
+        creditRefunds: 0,
+        pointsRefunds: 0,
+        netSales: 900,
+        expectedCash: 1650,
+      }, 'ISKCON Asansol Temple');
+
+      expect(report).toContain('Z REPORT - SHIFT CLOSE');
+      expect(report).toContain('Cashier: cashier1');
+      expect(report).toMatch(/₹500 x 3\s+₹1500\.00/);
+      expect(report).toMatch(/Variance:\s+-₹150\.00/);
+      expect(report).toContain('AWAITING MANAGER SIGN-OFF');
+    });
+  });
+
   describe('generateHTMLReceipt', () => {
     it('should generate valid HTML receipt', () => {
       const html = ReceiptGenerator.generateHTMLReceipt(mockReceiptData);
@@ -204,6 +306,123 @@ describe('ReceiptGenerator', () => {
     });
   });
 
+  describe('donations', () => {
+    const donation = {
+      receiptNumber: '80G/2026-27/00042',
+      transactionId: 'transaction-12345678',
+      storeName: 'ISKCON Asansol Temple',
+      donor: { name: 'Radha Devi', phone: '9876543210', pan: 'ABCDE1234F' },
+      purpose: 'Annadaan',
+      amount: 501,
+      paymentMethod: 'cash',
+      timestamp: new Date('2026-10-19T10:30:00Z'),
+    };
+    const registration = { trustPan: 'AAATI1234A', registrationNumber: 'AAATI1234AF20214' };
+
+    it('should print the donor, PAN and amount in words on the 80G receipt', () => {
+      const receipt = ReceiptGenerator.generateDonationReceipt(donation, registration);
+
+      expect(receipt).toContain('DONATION RECEIPT');
+      expect(receipt).toContain('Receipt: 80G/2026-27/00042');
+      expect(receipt).toContain('PAN: ABCDE1234F');
+      expect(receipt).toContain('Trust PAN: AAATI1234A');
+      expect(receipt).toContain('₹501.00');
+      expect(receipt).toContain('Rupees Five Hundred One Only');
+    });
+
+    it('should list donations on the sale receipt with their 80G numbers', () => {
+      const receipt = ReceiptGenerator.generateThermalReceipt({ ...mockReceiptData, donations: [donation] });
+
+      expect(receipt).toContain('DONATIONS:');
+      expect(receipt).toContain('80G receipt 80G/2026-27/00042');
+      expect(receipt).toMatch(/Donations:\s+₹501\.00/);
+    });
+
+    it('should spell amounts in lakh and crore with paise', () => {
+      expect(ReceiptGenerator.amountInWords(125000)).toBe('Rupees One Lakh Twenty Five Thousand Only');
+      expect(ReceiptGenerator.amountInWords(21000000.5)).toBe('Rupees Two Crore Ten Lakh and Fifty Paise Only');
+      expect(ReceiptGenerator.amountInWords(0)).toBe('Rupees Zero Only');
+    });
+  });
+
+  describe('loyalty points', () => {
+    it('should print points earned, redeemed and the balance left', () => {
+      const receipt = ReceiptGenerator.generateThermalReceipt({
+        ...mockReceiptData,
+        loyalty: { tierName: 'Life Member', earned: 4, redeemed: 50, balance: 120 },
+      });
+
+      expect(receipt).toContain('Life Member member');
+      expect(receipt).toMatch(/Points Redeemed:\s+50/);
+      expect(receipt).toMatch(/Points Earned:\s+4/);
+      expect(receipt).toMatch(/Points Balance:\s+120/);
+    });
+
+    it('should leave points off receipts without a member', () => {
+      expect(ReceiptGenerator.generateThermalReceipt(mockReceiptData)).not.toContain('Points Balance');
+      expect(ReceiptGenerator.generateHTMLReceipt(mockReceiptData)).not.toContain('Points Balance');
+    });
+  });
+
+  describe('vouchers', () => {
+    const voucher: Voucher = {
+      id: 'voucher-1',
+      code: 'SC-7KQ2-M9XD',
+      kind: 'credit',
+      amount: 350,
+      balance: 120.5,
+      customerId: 'customer-1',
+      customerName: 'Radha Devi',
+      returnId: 'return-1',
+      expiresAt: new Date('2027-10-19T00:00:00Z'),
+      status: 'active',
+      note: null,
+      createdAt: new Date('2026-10-19T00:00:00Z'),
+    };
+
+    it('should print the value and what is left on the voucher', () => {
+      const slip = ReceiptGenerator.generateVoucherSlip(voucher, 'ISKCON Asansol Temple');
+
+      expect(slip).toContain('STORE CREDIT');
+      expect(slip).toContain('For: Radha Devi');
+      expect(slip).toMatch(/VALUE:\s+₹350\.00/);
+      expect(slip).toMatch(/Balance:\s+₹120\.50/);
+      expect(slip).toContain('Valid until:');
+    });
+
+    it('should follow the slip with the code as a QR code', () => {
+      const bytes = ReceiptGenerator.generateThermalVoucher(voucher, 'ISKCON Asansol Temple');
+      const text = new TextDecoder().decode(bytes);
+
+      // GS ( k: the ESC/POS QR code command
+      expect(Array.from(bytes).join(',')).toContain('29,40,107');
+      expect(text.lastIndexOf('SC-7KQ2-M9XD')).toBeGreaterThan(text.indexOf('STORE CREDIT'));
+    });
+
+    it('should include a barcode of the code in the HTML slip', () => {
+      const html = ReceiptGenerator.generateHTMLVoucher(voucher, 'ISKCON Asansol Temple');
+
+      expect(html).toContain('<svg');
+      expect(html).toContain('Store credit SC-7KQ2-M9XD');
+    });
+  });
+
+  describe('UPI payment QR', () => {
+    it('should print the amount and reference around the QR code', () => {
+      const bytes = ReceiptGenerator.generateThermalUpiQr({
+        vpa: 'iskconasansol@sbi',
+        payeeName: 'ISKCON Asansol Temple',
+        amount: 420,
+        reference: 'ISKAMGX7ZK3QF9',
+      });
+      const text = new TextDecoder().decode(bytes);
+
+      expect(text).toMatch(/Amount:\s+₹420\.00/);
+      expect(text).toContain('upi://pay?pa=iskconasansol%40sbi');
+      expect(text).toContain('Ref ISKAMGX7ZK3QF9');
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle very long product names', () => {
       const longNameData = {
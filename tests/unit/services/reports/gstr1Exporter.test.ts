@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { GSTR1Exporter } from '@/services/reports/exportService';
+import type { TaxReport } from '@/types/tax';
+
+const report: TaxReport = {
+  startDate: new Date(2026, 7, 1),
+  endDate: new Date(2026, 7, 31, 23, 59, 59),
+  hsnSummary: [
+    { hsnCode: '4420', rate: 12, quantity: 3, taxableValue: 401.79, cgst: 24.11, sgst: 24.1, igst: 0, totalTax: 48.21, totalValue: 450 },
+    { hsnCode: '4901', rate: 0, quantity: 2, taxableValue: 700, cgst: 0, sgst: 0, igst: 0, totalTax: 0, totalValue: 700 },
+  ],
+  b2cSummary: [
+    { supplyType: 'INTRA', placeOfSupply: null, rate: 0, taxableValue: 700, cgst: 0, sgst: 0, igst: 0 },
+    { supplyType: 'INTRA', placeOfSupply: null, rate: 12, taxableValue: 267.86, cgst: 16.07, sgst: 16.07, igst: 0 },
+    { supplyType: 'INTER', placeOfSupply: '10', rate: 12, taxableValue: 133.93, cgst: 0, sgst: 0, igst: 16.07 },
+  ],
+  invoices: [
+    { invoiceNumber: 'S/2026-27/000004', invoiceDate: new Date(2026, 7, 3), interState: false, placeOfSupply: null, taxableValue: 967.86, cgst: 16.07, sgst: 16.07, igst: 0, totalTax: 32.14, invoiceValue: 1000 },
+    { invoiceNumber: 'S/2026-27/000006', invoiceDate: new Date(2026, 7, 9), interState: true, placeOfSupply: '10', taxableValue: 133.93, cgst: 0, sgst: 0, igst: 16.07, totalTax: 16.07, invoiceValue: 150 },
+  ],
+  // 000005 was voided
+  documents: { from: 'S/2026-27/000004', to: 'S/2026-27/000006', total: 3, cancelled: 1 },
+  productsWithoutHsn: [],
+  totals: { taxableValue: 1101.79, cgst: 24.11, sgst: 24.1, igst: 0, totalTax: 48.21 },
+};
+
+const filer = { gstin: '19ABCDE1234F1Z5', stateCode: '19' };
+
+describe('GSTR1Exporter', () => {
+  it('should build the GSTR-1 JSON for the period', () => {
+    const gstr1 = GSTR1Exporter.toJSON(report, filer);
+
+    expect(gstr1.gstin).toBe('19ABCDE1234F1Z5');
+    expect(gstr1.fp).toBe('082026');
+    expect(gstr1.b2cs).toHaveLength(3);
+    expect(gstr1.b2cs[1]).toEqual({
+      sply_ty: 'INTRA', pos: '19', typ: 'OE', rt: 12, txval: 267.86, iamt: 0, camt: 16.07, samt: 16.07, csamt: 0,
+    });
+    expect(gstr1.b2cs[2]).toMatchObject({ sply_ty: 'INTER', pos: '10', iamt: 16.07 });
+    expect(gstr1.hsn.data[0]).toMatchObject({ num: 1, hsn_sc: '4420', qty: 3, rt: 12, txval: 401.79, val: 450 });
+  });
+
+  it('should record the invoice series as documents issued', () => {
+    const docs = GSTR1Exporter.toJSON(report, filer).doc_issue.doc_det[0].docs[0];
+
+    expect(docs.from).toBe('S/2026-27/000004');
+    expect(docs.to).toBe('S/2026-27/000006');
+    expect(docs.totnum).toBe(3);
+    expect(docs.cancel).toBe(1);
+    expect(docs.net_issue).toBe(2);
+  });
+
+  it('should refuse a period spanning more than one month', () => {
+    const twoMonths = { ...report, endDate: new Date(2026, 8, 30, 23, 59, 59) };
+
+    expect(GSTR1Exporter.problems(twoMonths)).toEqual([
+      'GSTR-1 is filed for one month at a time; choose dates within a single month',
+    ]);
+    expect(() => GSTR1Exporter.toJSON(twoMonths, filer)).toThrow('one month at a time');
+  });
+
+  it('should refuse products without HSN codes and inter-state sales without a state', () => {
+    const incomplete: TaxReport = {
+      ...report,
+      productsWithoutHsn: ['Tulsi Mala', 'Incense'],
+      b2cSummary: report.b2cSummary.map(row => (
+        row.supplyType === 'INTER' ? { ...row, placeOfSupply: null } : row
+      )),
+    };
+
+    expect(GSTR1Exporter.problems(incomplete)).toEqual([
+      'Add HSN codes to Tulsi Mala, Incense',
+      "Some inter-state sales don't record the buyer's state",
+    ]);
+    expect(() => GSTR1Exporter.toJSON(incomplete, filer)).toThrow('Add HSN codes');
+  });
+
+  it('should produce CSV rows matching the offline tool templates', () => {
+    const b2cs = GSTR1Exporter.b2csRows(report, filer);
+    expect(b2cs[0]['Place Of Supply']).toBe('19-West Bengal');
+    expect(b2cs[2]['Place Of Supply']).toBe('10-Bihar');
+
+    const hsn = GSTR1Exporter.hsnRows(report);
+    expect(hsn[0]['HSN']).toBe('4420');
+    expect(hsn[0]['Central Tax Amount']).toBe(24.11);
+
+    const invoices = GSTR1Exporter.invoiceRows(report);
+    expect(invoices[1]['Supply Type']).toBe('Inter-State');
+    expect(invoices[1]['Place Of Supply']).toBe('10-Bihar');
+    expect(invoices[1]['Invoice Value']).toBe(150);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SQL } from 'drizzle-orm';
+import { StockMovementService, weightedAverageCost } from '@/services/database/stockMovements';
+
+// Mock the database connection
+vi.mock('@/lib/db/connection', () => ({
+  getDb: vi.fn(() => ({})),
+}));
+
+// Minimal transaction double: one variant lookup, then recorded update/insert calls.
+// The update reads back balanceAfter, as the database would after adding the change.
+function createTx(stockQuantity: number | null, costPrice = 0, balanceAfter?: number) {
+  const limit = vi.fn().mockResolvedValue(stockQuantity === null ? [] : [{ stockQuantity, costPrice }]);
+  const returning = vi.fn().mockResolvedValue([{ stockQuantity: balanceAfter }]);
+  const set = vi.fn(() => ({ where: vi.fn(() => ({ returning })) }));
+  const values = vi.fn().mockResolvedValue(undefined);
+
+  return {
+    select: vi.fn(() => ({ from: () => ({ where: () => ({ limit }) }) })),
+    update: vi.fn(() => ({ set })),
+    insert: vi.fn(() => ({ values })),
+    set,
+    values,
+  };
+}
+
+describe('StockMovementService', () => {
+  let service: StockMovementService;
+
+  beforeEach(() => {
+    service = new StockMovementService();
+  });
+
+  describe('applyChange', () => {
+    it('should apply a signed change and record the running balance', async () => {
+      const tx = createTx(10, 0, 7);
+
+      const result = await service.applyChange(tx as any, {
+        variantId: 'variant-1',
+        type: 'sale',
+        quantity: -3,
+        referenceId: 'txn-1',
+        userId: 'user-1',
+      });
+
+      expect(result.quantity).toBe(-3);
+      expect(result.balanceAfter).toBe(7);
+      expect(tx.set).toHaveBeenCalledWith(expect.objectContaining({ stockQuantity: expect.any(SQL) }));
+      expect(tx.values).toHaveBeenCalledWith(expect.objectContaining({
+        variantId: 'variant-1',
+        type: 'sale',
+        quantity: -3,
+        balanceAfter: 7,
+        referenceId: 'txn-1',
+        userId: 'user-1',
+      }));
+    });
+
+    it('should turn a counted level into the difference from current stock', async () => {
+      const tx = createTx(12, 0, 9);
+
+      const result = await service.applyChange(tx as any, {
+        variantId: 'variant-1',
+        type: 'adjustment',
+        setTo: 9,
+        reason: 'Recount',
+      });
+
+      expect(result.quantity).toBe(-3);
+      expect(tx.values).toHaveBeenCalledWith(expect.objectContaining({
+        quantity: -3,
+        balanceAfter: 9,
+        reason: 'Recount',
+      }));
+    });
+
+    it('should not write anything when the level is unchanged', async () => {
+      const tx = createTx(5);
+
+      const result = await service.applyChange(tx as any, {
+        variantId: 'variant-1',
+        type: 'adjustment',
+        setTo: 5,
+      });
+
+      expect(result.movementId).toBeNull();
+      expect(tx.update).not.toHaveBeenCalled();
+      expect(tx.insert).not.toHaveBeenCalled();
+    });
+
+    it('should record the balance the database reports, counting changes made at the same moment', async () => {
+      // Another till sold 2 between this change reading the stock and writing it
+      const tx = createTx(10, 0, 5);
+
+      const result = await service.applyChange(tx as any, { variantId: 'variant-1', type: 'sale', quantity: -3 });
+
+      expect(result.balanceAfter).toBe(5);
+      expect(tx.values).toHaveBeenCalledWith(expect.objectContaining({ quantity: -3, balanceAfter: 5 }));
+    });
+
+    it('should reject unknown variants', async () => {
+      const tx = createTx(null);
+
+      await expect(
+        service.applyChange(tx as any, { variantId: 'missing', type: 'receipt', quantity: 4 })
+      ).rejects.toThrow('Variant missing not found');
+    });
+
+    it('should re-average the cost price when stock is received at a cost', async () => {
+      const tx = createTx(10, 50, 40);
+
+      await service.applyChange(tx as any, {
+        variantId: 'variant-1',
+        type: 'receipt',
+        quantity: 30,
+        unitCost: 70,
+      });
+
+      expect(tx.set).toHaveBeenCalledWith(expect.objectContaining({ costPrice: 65 }));
+    });
+
+    it('should leave the cost price alone for sales', async () => {
+      const tx = createTx(10, 50, 8);
+
+      await service.applyChange(tx as any, { variantId: 'variant-1', type: 'sale', quantity: -2 });
+
+      expect(tx.set).toHaveBeenCalledWith(expect.objectContaining({ costPrice: undefined }));
+    });
+  });
+
+  describe('weightedAverageCost', () => {
+    it('should weigh the stock on hand against the delivery', () => {
+      expect(weightedAverageCost(10, 50, 30, 70)).toBe(65);
+    });
+
+    it('should take the delivery cost when nothing is on hand', () => {
+      expect(weightedAverageCost(0, 50, 12, 42.5)).toBe(42.5);
+    });
+
+    it('should ignore negative stock on hand', () => {
+      expect(weightedAverageCost(-4, 50, 10, 30)).toBe(30);
+    });
+  });
+});
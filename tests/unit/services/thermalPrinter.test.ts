@@ -341,4 +341,32 @@ describe('ThermalPrinter', () => {
       expect(printer.isReady()).toBe(false);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('ThermalPrinter barcode commands', () => {
+  it('should print EAN-13 from the 12 data digits', () => {
+    const bytes = Array.from(ThermalPrinter.barcodeCommand('9780306406157', 'EAN13'));
+    const print = bytes.indexOf(0x6b);
+
+    expect(bytes.slice(print - 1, print + 3)).toEqual([0x1d, 0x6b, 67, 12]);
+    expect(String.fromCharCode(...bytes.slice(print + 3, print + 15))).toBe('978030640615');
+  });
+
+  it('should print CODE128 in code set B', () => {
+    const bytes = Array.from(ThermalPrinter.barcodeCommand('SKU-42', 'CODE128'));
+    const print = bytes.indexOf(0x6b);
+
+    expect(bytes.slice(print - 1, print + 3)).toEqual([0x1d, 0x6b, 73, 8]);
+    expect(String.fromCharCode(...bytes.slice(print + 3, print + 11))).toBe('{BSKU-42');
+  });
+
+  it('should store then print QR data', () => {
+    const bytes = Array.from(ThermalPrinter.qrCodeCommand('ABC'));
+    const store = [0x1d, 0x28, 0x6b, 6, 0, 0x31, 0x50, 0x30, 65, 66, 67];
+    const print = [0x1d, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30];
+
+    expect(bytes.join(',')).toContain(store.join(','));
+    expect(bytes.join(',')).toContain(print.join(','));
+    expect(bytes.indexOf(0x51)).toBeGreaterThan(bytes.indexOf(0x50));
+  });
+});
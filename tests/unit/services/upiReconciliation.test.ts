@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UpiStatementParser } from '@/services/upi/statementParser';
+import { matchUpiCredits } from '@/services/database/upiReconciliation';
+
+// Mock the database connection
+vi.mock('@/lib/db/connection', () => ({
+  getDb: vi.fn(() => ({})),
+}));
+
+const at = (time: string) => new Date(`2026-10-19T${time}:00`);
+
+const credit = (id: string, amount: number, time: string, extra: { utr?: string; narration?: string; timeKnown?: boolean } = {}) => ({
+  id,
+  postedAt: at(time),
+  timeKnown: extra.timeKnown ?? true,
+  amount,
+  utr: extra.utr ?? null,
+  narration: extra.narration ?? null,
+});
+
+const sale = (transactionId: string, amount: number, time: string, references: string[] = []) => ({
+  transactionId,
+  createdAt: at(time),
+  amount,
+  references,
+});
+
+describe('UpiStatementParser', () => {
+  it('should read quoted fields with commas and escaped quotes', () => {
+    expect(UpiStatementParser.parseCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('should read the date formats banks use, day first', () => {
+    expect(UpiStatementParser.parseDate('19/10/2026')).toEqual({ date: new Date(2026, 9, 19), timeKnown: false });
+    expect(UpiStatementParser.parseDate('19-Oct-26 02:05 PM')).toEqual({ date: new Date(2026, 9, 19, 14, 5), timeKnown: true });
+    expect(UpiStatementParser.parseDate('2026-10-19 09:30:15')).toEqual({ date: new Date(2026, 9, 19, 9, 30, 15), timeKnown: true });
+    expect(UpiStatementParser.parseDate('31/02/2026')).toBeNull();
+    expect(UpiStatementParser.parseDate('Opening Balance')).toBeNull();
+  });
+
+  it('should keep only the credits of a bank statement with debit and credit columns', () => {
+    const statement = [
+      'Account Name:,ISKCON ASANSOL',
+      'Account Number:,XXXX1234',
+      '',
+      'Txn Date,Value Date,Description,Ref No./Cheque No.,Debit,Credit,Balance',
+      '19/10/2026,19/10/2026,"UPI/CR/629212345678/RAHUL/SBIN/ISKA1ABC",629212345678,,"1,250.00","10,250.00"',
+      '19/10/2026,19/10/2026,UPI/DR/629212349999/VENDOR,629212349999,500.00,,"9,750.00"',
+      'Closing Balance,,,,,,"9,750.00"',
+    ].join('\n');
+
+    const { credits, skipped } = UpiStatementParser.parse(statement);
+
+    expect(credits).toEqual([{
+      postedAt: new Date(2026, 9, 19),
+      timeKnown: false,
+      amount: 1250,
+      utr: '629212345678',
+      narration: 'UPI/CR/629212345678/RAHUL/SBIN/ISKA1ABC',
+    }]);
+    expect(skipped).toBe(2);
+  });
+
+  it('should read a PSP export with one amount column and a Cr/Dr marker', () => {
+    const statement = [
+      'Date,Time,Amount,Type,UTR,Remarks',
+      '2026-10-19,14:05:09,300,CR,629298765432,ISKA1DEF',
+      '2026-10-19,15:00:00,50,DR,629298765433,Refund',
+    ].join('\n');
+
+    const { credits } = UpiStatementParser.parse(statement);
+
+    expect(credits).toHaveLength(1);
+    expect(credits[0]).toMatchObject({ postedAt: new Date(2026, 9, 19, 14, 5, 9), timeKnown: true, amount: 300, utr: '629298765432' });
+  });
+
+  it('should reject a file without date and amount columns', () => {
+    expect(() => UpiStatementParser.parse('name,phone\nRahul,9876543210')).toThrow('Could not find the date and amount columns');
+  });
+});
+
+describe('matchUpiCredits', () => {
+  it('should match a credit carrying our reference even outside the time window', () => {
+    const matches = matchUpiCredits(
+      [credit('c1', 250, '18:00', { narration: 'UPI/CR/629212345678/ISKA1ABC' })],
+      [sale('t1', 250, '10:00', ['ISKA1ABC']), sale('t2', 250, '17:55')]
+    );
+
+    expect(matches).toEqual([{ lineId: 'c1', transactionId: 't1', matchedBy: 'reference' }]);
+  });
+
+  it('should match a credit to the UTR the cashier typed', () => {
+    const matches = matchUpiCredits(
+      [credit('c1', 100, '11:00', { utr: '629212345678' })],
+      [sale('t1', 100, '09:00', ['629212345678'])]
+    );
+
+    expect(matches).toEqual([{ lineId: 'c1', transactionId: 't1', matchedBy: 'reference' }]);
+  });
+
+  it('should not match on reference when the amount differs', () => {
+    const matches = matchUpiCredits(
+      [credit('c1', 200, '18:00', { narration: 'ISKA1ABC' })],
+      [sale('t1', 250, '10:00', ['ISKA1ABC'])]
+    );
+
+    expect(matches).toEqual([]);
+  });
+
+  it('should match on amount within the time window', () => {
+    const matches = matchUpiCredits(
+      [credit('c1', 480, '10:20'), credit('c2', 480, '12:00')],
+      [sale('t1', 480, '10:00')]
+    );
+
+    expect(matches).toEqual([{ lineId: 'c1', transactionId: 't1', matchedBy: 'amount' }]);
+  });
+
+  it('should match a date-only credit to a sale on the same day', () => {
+    const matches = matchUpiCredits(
+      [credit('c1', 480, '00:00', { timeKnown: false })],
+      [sale('t1', 480, '19:30')]
+    );
+
+    expect(matches).toEqual([{ lineId: 'c1', transactionId: 't1', matchedBy: 'amount' }]);
+  });
+
+  it('should leave ambiguous amount matches for a manager', () => {
+    const matches = matchUpiCredits(
+      [credit('c1', 100, '10:05'), credit('c2', 100, '10:10')],
+      [sale('t1', 100, '10:00'), sale('t2', 100, '10:02')]
+    );
+
+    expect(matches).toEqual([]);
+  });
+
+  it('should not use a sale matched on reference again for an amount match', () => {
+    const matches = matchUpiCredits(
+      [credit('c1', 100, '10:05', { narration: 'ISKA1ABC' }), credit('c2', 100, '10:06')],
+      [sale('t1', 100, '10:00', ['ISKA1ABC']), sale('t2', 100, '10:03')]
+    );
+
+    expect(matches).toEqual([
+      { lineId: 'c1', transactionId: 't1', matchedBy: 'reference' },
+      { lineId: 'c2', transactionId: 't2', matchedBy: 'amount' },
+    ]);
+  });
+});
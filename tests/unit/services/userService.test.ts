@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { userService } from '@/services/database/users';
 import { userActivityService } from '@/services/database/userActivity';
+import { authService } from '@/services/auth/authService';
 import bcrypt from 'bcryptjs';
 
 // Mock the database connection
 vi.mock('@/lib/db/connection', () => ({
+  getDb: vi.fn(() => ({})),
   getLocalDb: vi.fn(() => ({
     select: vi.fn(),
     insert: vi.fn(),
@@ -20,6 +22,26 @@ vi.mock('@/services/database/userActivity', () => ({
   },
 }));
 
+// Manager approvals share the login throttle
+vi.mock('@/services/auth/authService', () => ({
+  authService: {
+    reservePinCheck: vi.fn(async () => null),
+    recordFailedPinCheck: vi.fn(),
+    clearFailedPinChecks: vi.fn(),
+  },
+}));
+
+// Roles grant their built-in permissions
+vi.mock('@/services/database/roles', async () => {
+  const { rolePermissions } = await import('@/types/auth');
+  return {
+    roleService: {
+      findById: vi.fn(async (role: string) => ({ id: role, permissions: rolePermissions(role) })),
+      getPermissions: vi.fn(async (role: string) => rolePermissions(role)),
+    },
+  };
+});
+
 // Mock bcryptjs
 vi.mock('bcryptjs', () => ({
   default: {
@@ -204,6 +226,97 @@ describe('UserService', () => {
     });
   });
 
+  describe('authorizeOverride', () => {
+    const manager = {
+      id: 'manager_123',
+      username: 'manager',
+      pinHash: 'hashed_pin',
+      role: 'manager' as const,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastLoginAt: null,
+    };
+
+    it('should log the approval instead of a login', async () => {
+      vi.spyOn(userService, 'findByUsername').mockResolvedValue(manager);
+      vi.mocked(bcrypt.compare).mockImplementation(async () => true);
+      const updateLastLoginSpy = vi.spyOn(userService, 'updateLastLogin').mockResolvedValue();
+
+      const result = await userService.authorizeOverride('manager', '1234', 'approve_return', {
+        cashierId: 'user_123',
+      });
+
+      expect(result).toEqual(manager);
+      expect(updateLastLoginSpy).not.toHaveBeenCalled();
+      expect(userActivityService.logActivity).toHaveBeenCalledWith(
+        'manager_123',
+        'approve_return',
+        { details: { cashierId: 'user_123' } }
+      );
+    });
+
+    it('should not accept an approver whose role cannot approve overrides', async () => {
+      vi.spyOn(userService, 'findByUsername').mockResolvedValue({ ...manager, role: 'cashier' as const });
+
+      const result = await userService.authorizeOverride('manager', '1234', 'approve_return');
+
+      expect(result).toBeNull();
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+      expect(userActivityService.logActivity).not.toHaveBeenCalled();
+    });
+
+    it('should return null if the PIN is wrong', async () => {
+      vi.spyOn(userService, 'findByUsername').mockResolvedValue(manager);
+      vi.mocked(bcrypt.compare).mockImplementation(async () => false);
+
+      const result = await userService.authorizeOverride('manager', '0000', 'approve_return');
+
+      expect(result).toBeNull();
+      expect(userActivityService.logActivity).not.toHaveBeenCalled();
+    });
+
+    it('should count a wrong PIN towards the manager\'s lockout', async () => {
+      vi.spyOn(userService, 'findByUsername').mockResolvedValue(manager);
+      vi.mocked(bcrypt.compare).mockImplementation(async () => false);
+
+      await userService.authorizeOverride('manager', '0000', 'approve_return');
+
+      expect(authService.recordFailedPinCheck).toHaveBeenCalledWith(
+        'manager',
+        'manager_123',
+        'override_failed',
+        {},
+        { action: 'approve_return' }
+      );
+      expect(authService.clearFailedPinChecks).not.toHaveBeenCalled();
+    });
+
+    it('should clear failed PINs once the approval is accepted', async () => {
+      vi.spyOn(userService, 'findByUsername').mockResolvedValue(manager);
+      vi.mocked(bcrypt.compare).mockImplementation(async () => true);
+
+      await userService.authorizeOverride('manager', '1234', 'approve_return');
+
+      expect(authService.clearFailedPinChecks).toHaveBeenCalledWith('manager');
+      expect(authService.recordFailedPinCheck).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to check the PIN while the manager is locked out', async () => {
+      vi.mocked(authService.reservePinCheck).mockResolvedValueOnce({
+        success: false,
+        message: 'Account temporarily locked. Try again in 15 minutes.',
+        retryAfterSeconds: 900,
+      });
+      const findSpy = vi.spyOn(userService, 'findByUsername');
+
+      await expect(userService.authorizeOverride('manager', '1234', 'approve_return'))
+        .rejects.toThrow('Try again in 15 minutes');
+      expect(findSpy).not.toHaveBeenCalled();
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateUser', () => {
     it('should update user and log activity', async () => {
       const existingUser = {
@@ -230,13 +343,13 @@ describe('UserService', () => {
       const mockDb = {
         update: vi.fn().mockReturnValue({
           set: vi.fn().mockReturnValue({
-            where: vi.fn().mockResolvedValue({ changes: 1 }),
+            where: vi.fn().mockResolvedValue({ rowsAffected: 1 }),
           }),
         }),
       };
       
       // @ts-ignore - Mocking private property
-      userService.localDb = mockDb;
+      userService.db = mockDb;
       
       // @ts-expect-error: override protected for test
       userService.queueForSync = vi.fn().mockResolvedValue(undefined);
@@ -327,13 +440,13 @@ describe('UserService', () => {
       const mockDb = {
         update: vi.fn().mockReturnValue({
           set: vi.fn().mockReturnValue({
-            where: vi.fn().mockResolvedValue({ changes: 1 }),
+            where: vi.fn().mockResolvedValue({ rowsAffected: 1 }),
           }),
         }),
       };
       
       // @ts-ignore - Mocking private property
-      userService.localDb = mockDb;
+      userService.db = mockDb;
       
       // @ts-expect-error: override protected for test
       userService.queueForSync = vi.fn().mockResolvedValue(undefined);
@@ -414,7 +527,7 @@ describe('UserService', () => {
       });
 
       // @ts-ignore - Mocking private property
-      userService.localDb = mockDb;
+      userService.db = mockDb;
 
       const result = await userService.searchUsers({
         search: 'admin',
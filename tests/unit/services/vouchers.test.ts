@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { VoucherService, isVoucherExpired } from '@/services/database/vouchers';
+import { createDbDouble, asTransaction } from '../../utils/db-double';
+
+// Mock the database connection
+vi.mock('@/lib/db/connection', () => ({
+  getDb: vi.fn(() => ({})),
+}));
+
+const voucherRow = (changes: Record<string, unknown> = {}) => ({
+  id: 'voucher-1',
+  code: 'GV-7KQ2-M9XD',
+  kind: 'gift',
+  amount: 500,
+  redeemed: 0,
+  customerId: null,
+  customerName: null,
+  returnId: null,
+  expiresAt: new Date(2027, 0, 1),
+  status: 'active',
+  note: null,
+  createdAt: new Date(2026, 0, 1),
+  ...changes,
+});
+
+const redemption = (amount: number) => ({
+  code: 'gv-7kq2-m9xd',
+  amount,
+  transactionId: 'transaction-1',
+  createdAt: new Date(2026, 9, 19),
+});
+
+describe('VoucherService', () => {
+  describe('generateCode', () => {
+    it('should prefix gift vouchers and store credit differently', () => {
+      expect(VoucherService.generateCode('gift')).toMatch(/^GV-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+      expect(VoucherService.generateCode('credit')).toMatch(/^SC-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    });
+
+    it('should leave out characters that are easy to misread', () => {
+      const codes = Array.from({ length: 50 }, () => VoucherService.generateCode('gift').slice(3));
+      expect(codes.join('')).not.toMatch(/[01OI]/);
+    });
+  });
+
+  describe('isVoucherExpired', () => {
+    it('should never expire a voucher without an expiry date', () => {
+      expect(isVoucherExpired({ expiresAt: null }, new Date(2099, 0, 1))).toBe(false);
+    });
+
+    it('should expire a voucher after its expiry date', () => {
+      const voucher = { expiresAt: new Date(2026, 9, 19) };
+      expect(isVoucherExpired(voucher, new Date(2026, 9, 18))).toBe(false);
+      expect(isVoucherExpired(voucher, new Date(2026, 9, 20))).toBe(true);
+    });
+  });
+
+  describe('redeem', () => {
+    it('should record a partial redemption against the voucher', async () => {
+      const tx = createDbDouble([voucherRow({ redeemed: 200 })]);
+      const service = new VoucherService();
+
+      await service.redeem(asTransaction(tx), redemption(250));
+
+      expect(tx.values).toHaveBeenCalledWith(expect.objectContaining({
+        voucherId: 'voucher-1',
+        transactionId: 'transaction-1',
+        amount: 250,
+      }));
+    });
+
+    it('should refuse to spend more than is left on the voucher', async () => {
+      const tx = createDbDouble([voucherRow({ redeemed: 400 })]);
+      const service = new VoucherService();
+
+      await expect(service.redeem(asTransaction(tx), redemption(150))).rejects.toThrow('Voucher GV-7KQ2-M9XD has only ₹100.00 left');
+      expect(tx.values).not.toHaveBeenCalled();
+    });
+
+    it('should refuse unknown, cancelled and expired vouchers', async () => {
+      const service = new VoucherService();
+
+      await expect(service.redeem(asTransaction(createDbDouble([])), redemption(10))).rejects.toThrow('not found');
+      await expect(service.redeem(asTransaction(createDbDouble([voucherRow({ status: 'cancelled' })])), redemption(10)))
+        .rejects.toThrow('has been cancelled');
+      await expect(service.redeem(asTransaction(createDbDouble([voucherRow({ expiresAt: new Date(2026, 5, 1) })])), redemption(10)))
+        .rejects.toThrow('has expired');
+    });
+  });
+});
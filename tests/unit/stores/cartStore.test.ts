@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { useCartStore } from '@/stores/cartStore';
 import type { Product, ProductVariant } from '@/types';
+import type { Customer } from '@/types/customer';
+import type { MembershipTier } from '@/types/loyalty';
 
 // Mock product data
 const mockProduct: Product = {
@@ -212,6 +214,136 @@ describe('CartStore', () => {
       // discount property does not exist on CartStore
       expect(state.total).toBe(0);
     });
+
+    it('should detach the customer so the next sale starts anonymous', () => {
+      const store = useCartStore.getState();
+
+      store.setCustomer({ id: 'customer-1', name: 'Radha Devi', phone: '9876543210', preferredLanguage: 'bn' });
+      store.addItem(mockProduct);
+      expect(useCartStore.getState().customer?.id).toBe('customer-1');
+
+      store.clearCart();
+      expect(useCartStore.getState().customer).toBeNull();
+    });
+  });
+
+  describe('donations', () => {
+    it('should add donations to the total without touching subtotal or GST', () => {
+      const store = useCartStore.getState();
+
+      store.addItem(mockProduct);
+      const itemsTotal = useCartStore.getState().total;
+      store.addDonation('Annadaan', 501);
+
+      const state = useCartStore.getState();
+      expect(state.donationTotal).toBe(501);
+      expect(state.total).toBe(itemsTotal + 501);
+      expect(state.subtotal).toBe(250);
+    });
+
+    it('should drop a donation from the total when it is removed', () => {
+      const store = useCartStore.getState();
+
+      store.addDonation('Go-seva', 101);
+      const [donation] = useCartStore.getState().donations;
+      store.removeDonation(donation.id);
+
+      expect(useCartStore.getState().donations).toHaveLength(0);
+      expect(useCartStore.getState().total).toBe(0);
+    });
+
+    it('should clear donations with the cart', () => {
+      const store = useCartStore.getState();
+
+      store.addDonation('Annadaan', 51);
+      store.clearCart();
+
+      expect(useCartStore.getState().donations).toHaveLength(0);
+      expect(useCartStore.getState().donationTotal).toBe(0);
+    });
+  });
+
+  describe('sale discount', () => {
+    it('should take the discount off the total and keep promotions separate', () => {
+      const store = useCartStore.getState();
+
+      store.addItem(mockProduct);
+      store.setSaleDiscount(50);
+
+      const state = useCartStore.getState();
+      expect(state.saleDiscount).toBe(50);
+      expect(state.discount).toBe(0);
+      expect(state.total).toBe(200);
+    });
+
+    it('should not discount more than the items or touch donations', () => {
+      const store = useCartStore.getState();
+
+      store.addItem(mockProduct);
+      store.addDonation('Annadaan', 101);
+      store.setSaleDiscount(1000);
+
+      const state = useCartStore.getState();
+      expect(state.saleDiscount).toBe(250);
+      expect(state.total).toBe(101);
+    });
+
+    it('should clear the discount with the cart', () => {
+      const store = useCartStore.getState();
+
+      store.addItem(mockProduct);
+      store.setSaleDiscount(25);
+      store.clearCart();
+
+      expect(useCartStore.getState().saleDiscount).toBe(0);
+    });
+  });
+
+  describe('membership tiers', () => {
+    const member: Customer = { id: 'customer-1', name: 'Radha Devi', phone: '9876543210', preferredLanguage: 'en', tierId: 'tier-1' };
+    const lifeMember: MembershipTier = {
+      id: 'tier-1',
+      name: 'Life Member',
+      discountPercent: 10,
+      pointsPerRupee: 0.01,
+      isActive: true,
+      prices: [{ id: 'price-1', tierId: 'tier-1', productId: 'product-2', variantId: 'variant-1', price: 300 }],
+    };
+
+    it('should price listed items from the tier and discount the rest', () => {
+      const store = useCartStore.getState();
+
+      store.addItem(mockProduct);
+      store.addItem(mockProductWithVariants, mockVariant);
+      store.setCustomer(member);
+      store.setMemberTier(lifeMember);
+
+      // Gita 250 less 10%, mala at its member price of 300
+      expect(useCartStore.getState().subtotal).toBe(525);
+    });
+
+    it('should go back to regular prices when the customer changes', () => {
+      const store = useCartStore.getState();
+
+      store.addItem(mockProduct);
+      store.setCustomer(member);
+      store.setMemberTier(lifeMember);
+      store.setCustomer({ ...member, id: 'customer-2', tierId: null });
+
+      const state = useCartStore.getState();
+      expect(state.tier).toBeNull();
+      expect(state.subtotal).toBe(250);
+    });
+
+    it('should ignore a paused tier', () => {
+      const store = useCartStore.getState();
+
+      store.addItem(mockProduct);
+      store.setCustomer(member);
+      store.setMemberTier({ ...lifeMember, isActive: false });
+
+      expect(useCartStore.getState().subtotal).toBe(250);
+    });
   });
 
   describe('calculateTotals', () => {
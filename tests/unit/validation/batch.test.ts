@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { createBatchSchema } from '@/lib/validation/batch';
+
+describe('Batch Validation Schemas', () => {
+  describe('createBatchSchema', () => {
+    it('should default to receiving new stock into the batch', () => {
+      const result = createBatchSchema.safeParse({
+        variantId: 'variant-1',
+        batchNumber: 'GH-2410',
+        expiresAt: '2027-04-30',
+        quantity: 24,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.addToStock).toBe(true);
+        expect(result.data.expiresAt).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should reject an expiry before the manufacture date', () => {
+      const result = createBatchSchema.safeParse({
+        variantId: 'variant-1',
+        batchNumber: 'GH-2410',
+        manufacturedAt: '2026-10-01',
+        expiresAt: '2026-09-01',
+        quantity: 24,
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].path).toEqual(['expiresAt']);
+      }
+    });
+
+    it('should need a batch number and a whole quantity', () => {
+      expect(createBatchSchema.safeParse({ variantId: 'variant-1', batchNumber: ' ', quantity: 1 }).success).toBe(false);
+      expect(createBatchSchema.safeParse({ variantId: 'variant-1', batchNumber: 'A1', quantity: 0 }).success).toBe(false);
+      expect(createBatchSchema.safeParse({ variantId: 'variant-1', batchNumber: 'A1', quantity: 2.5 }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { createCustomerSchema, normalizePhone } from '@/lib/validation/customer';
+
+describe('Customer Validation Schemas', () => {
+  describe('normalizePhone', () => {
+    it('should reduce every way of typing a number to ten digits', () => {
+      expect(normalizePhone('98765 43210')).toBe('9876543210');
+      expect(normalizePhone('+91-98765-43210')).toBe('9876543210');
+      expect(normalizePhone('09876543210')).toBe('9876543210');
+    });
+  });
+
+  describe('createCustomerSchema', () => {
+    it('should store the normalised phone and default to English', () => {
+      const result = createCustomerSchema.safeParse({ name: 'Radha Devi', phone: '+91 98765 43210' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.phone).toBe('9876543210');
+        expect(result.data.preferredLanguage).toBe('en');
+      }
+    });
+
+    it('should reject a number that is not a mobile number', () => {
+      const result = createCustomerSchema.safeParse({ name: 'Radha Devi', phone: '12345' });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Enter a 10-digit mobile number');
+      }
+    });
+
+    it('should upper-case the PAN and check its shape', () => {
+      const valid = createCustomerSchema.safeParse({ name: 'Radha Devi', phone: '9876543210', pan: 'abcde1234f' });
+      expect(valid.success && valid.data.pan).toBe('ABCDE1234F');
+
+      const invalid = createCustomerSchema.safeParse({ name: 'Radha Devi', phone: '9876543210', pan: 'ABCDE12345' });
+      expect(invalid.success).toBe(false);
+    });
+  });
+});
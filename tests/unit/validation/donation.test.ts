@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { donationLineSchema, donationsSchema } from '@/lib/validation/donation';
+
+describe('Donation Validation Schemas', () => {
+  describe('donationLineSchema', () => {
+    it('should accept a purpose and an amount in rupees and paise', () => {
+      const result = donationLineSchema.safeParse({ purpose: ' Annadaan ', amount: 501.5 });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.purpose).toBe('Annadaan');
+      }
+    });
+
+    it('should reject a donation without a purpose', () => {
+      const result = donationLineSchema.safeParse({ purpose: '', amount: 100 });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Choose what the donation is for');
+      }
+    });
+
+    it('should reject zero, negative and fractional-paise amounts', () => {
+      expect(donationLineSchema.safeParse({ purpose: 'Go-seva', amount: 0 }).success).toBe(false);
+      expect(donationLineSchema.safeParse({ purpose: 'Go-seva', amount: -10 }).success).toBe(false);
+      expect(donationLineSchema.safeParse({ purpose: 'Go-seva', amount: 10.005 }).success).toBe(false);
+    });
+
+    it('should accept amounts whose paise are not exact in floating point', () => {
+      expect(donationLineSchema.safeParse({ purpose: 'Go-seva', amount: 1.1 }).success).toBe(true);
+      expect(donationLineSchema.safeParse({ purpose: 'Go-seva', amount: 1234.57 }).success).toBe(true);
+    });
+  });
+
+  describe('donationsSchema', () => {
+    it('should cap the number of donations on one sale', () => {
+      const lines = Array.from({ length: 11 }, () => ({ purpose: 'Annadaan', amount: 100 }));
+      const result = donationsSchema.safeParse(lines);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('No more than 10 donations on one sale');
+      }
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { parkCartSchema } from '@/lib/validation/heldCart';
+
+const cartItem = {
+  productId: 'product-1',
+  variantId: 'variant-1',
+  quantity: 2,
+  product: { id: 'product-1', name: 'Bhagavad Gita', basePrice: 250 },
+};
+
+describe('Held Cart Validation Schemas', () => {
+  describe('parkCartSchema', () => {
+    it('should validate a labelled cart and keep product details', () => {
+      const result = parkCartSchema.safeParse({
+        label: '  Mr. Sharma  ',
+        items: [cartItem],
+        total: 500,
+        expiresInMinutes: 60,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.label).toBe('Mr. Sharma');
+        expect(result.data.items[0].product).toMatchObject({ name: 'Bhagavad Gita' });
+      }
+    });
+
+    it('should reject empty carts and blank labels', () => {
+      expect(parkCartSchema.safeParse({ label: 'Counter 2', items: [], total: 0 }).success).toBe(false);
+      expect(parkCartSchema.safeParse({ label: '   ', items: [cartItem], total: 500 }).success).toBe(false);
+    });
+
+    it('should reject expiry shorter than five minutes', () => {
+      const result = parkCartSchema.safeParse({
+        label: 'Counter 2',
+        items: [cartItem],
+        total: 500,
+        expiresInMinutes: 1,
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createLocationSchema,
+  updateLocationSchema,
+  createStockTransferSchema,
+} from '@/lib/validation/location';
+
+describe('Location Validation Schemas', () => {
+  describe('createLocationSchema', () => {
+    it('should default the type to shop', () => {
+      const result = createLocationSchema.safeParse({ name: 'Godown' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.type).toBe('shop');
+      }
+    });
+
+    it('should reject unknown types and blank names', () => {
+      expect(createLocationSchema.safeParse({ name: 'Van', type: 'vehicle' }).success).toBe(false);
+      expect(createLocationSchema.safeParse({ name: '  ' }).success).toBe(false);
+    });
+  });
+
+  describe('updateLocationSchema', () => {
+    it('should allow closing a location on its own', () => {
+      expect(updateLocationSchema.safeParse({ isActive: false }).success).toBe(true);
+    });
+  });
+
+  describe('createStockTransferSchema', () => {
+    const validTransfer = {
+      fromLocationId: 'location-1',
+      toLocationId: 'location-2',
+      items: [{ variantId: 'variant-1', quantity: 5 }],
+    };
+
+    it('should accept a transfer between two locations', () => {
+      expect(createStockTransferSchema.safeParse(validTransfer).success).toBe(true);
+    });
+
+    it('should reject moving stock to the same location', () => {
+      const result = createStockTransferSchema.safeParse({ ...validTransfer, toLocationId: 'location-1' });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].path).toEqual(['toLocationId']);
+      }
+    });
+
+    it('should reject empty, repeated or fractional lines', () => {
+      expect(createStockTransferSchema.safeParse({ ...validTransfer, items: [] }).success).toBe(false);
+      expect(createStockTransferSchema.safeParse({
+        ...validTransfer,
+        items: [{ variantId: 'variant-1', quantity: 1 }, { variantId: 'variant-1', quantity: 2 }],
+      }).success).toBe(false);
+      expect(createStockTransferSchema.safeParse({
+        ...validTransfer,
+        items: [{ variantId: 'variant-1', quantity: 1.5 }],
+      }).success).toBe(false);
+    });
+  });
+});
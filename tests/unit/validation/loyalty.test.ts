@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createTierSchema, tierPricesSchema, pointsAdjustmentSchema } from '@/lib/validation/loyalty';
+
+describe('Loyalty Validation Schemas', () => {
+  describe('createTierSchema', () => {
+    it('should default a tier to no discount and no points', () => {
+      const result = createTierSchema.safeParse({ name: ' Life Member ' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ name: 'Life Member', discountPercent: 0, pointsPerRupee: 0 });
+      }
+    });
+
+    it('should reject discounts over 100% and more than a point per rupee', () => {
+      expect(createTierSchema.safeParse({ name: 'Patron', discountPercent: 120 }).success).toBe(false);
+      expect(createTierSchema.safeParse({ name: 'Patron', pointsPerRupee: 2 }).success).toBe(false);
+    });
+  });
+
+  describe('tierPricesSchema', () => {
+    it('should accept product and variant prices', () => {
+      const result = tierPricesSchema.safeParse([
+        { productId: 'gita', price: 180 },
+        { productId: 'gita', variantId: 'hardcover', price: 300 },
+      ]);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject the same product listed twice', () => {
+      const result = tierPricesSchema.safeParse([
+        { productId: 'gita', price: 180 },
+        { productId: 'gita', variantId: null, price: 170 },
+      ]);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Each product or variant can only be listed once');
+      }
+    });
+  });
+
+  describe('pointsAdjustmentSchema', () => {
+    it('should require whole, non-zero points and a reason', () => {
+      expect(pointsAdjustmentSchema.safeParse({ points: -50, note: 'Expired' }).success).toBe(true);
+      expect(pointsAdjustmentSchema.safeParse({ points: 0, note: 'Nothing' }).success).toBe(false);
+      expect(pointsAdjustmentSchema.safeParse({ points: 2.5, note: 'Half' }).success).toBe(false);
+      expect(pointsAdjustmentSchema.safeParse({ points: 10, note: ' ' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { paymentsSchema, tenderSchema } from '@/lib/validation/payment';
+
+describe('Payment Validation Schemas', () => {
+  describe('paymentsSchema', () => {
+    it('should validate a cash and UPI split', () => {
+      const result = paymentsSchema.safeParse([
+        { method: 'cash', amount: 300, tendered: 500 },
+        { method: 'upi', amount: 200, reference: 'UPI123' },
+      ]);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an empty payment list', () => {
+      expect(paymentsSchema.safeParse([]).success).toBe(false);
+    });
+  });
+
+  describe('tenderSchema', () => {
+    it('should reject unknown methods and non-positive amounts', () => {
+      expect(tenderSchema.safeParse({ method: 'card', amount: 100 }).success).toBe(false);
+      expect(tenderSchema.safeParse({ method: 'upi', amount: 0 }).success).toBe(false);
+    });
+
+    it('should reject cash tendered below the cash portion', () => {
+      const result = tenderSchema.safeParse({ method: 'cash', amount: 300, tendered: 200 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Cash tendered cannot be less than the cash amount');
+      }
+    });
+
+    it('should require the code of a voucher tender', () => {
+      expect(tenderSchema.safeParse({ method: 'voucher', amount: 250, reference: 'GV-7KQ2-M9XD' }).success).toBe(true);
+
+      const result = tenderSchema.safeParse({ method: 'voucher', amount: 250 });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Enter the voucher code');
+      }
+    });
+  });
+});
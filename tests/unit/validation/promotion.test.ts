@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createPromotionSchema } from '@/lib/validation/promotion';
+
+describe('Promotion Validation Schemas', () => {
+  describe('createPromotionSchema', () => {
+    it('should validate a festival percentage promotion on a category', () => {
+      const result = createPromotionSchema.safeParse({
+        name: 'Janmashtami Week',
+        type: 'percentage',
+        scope: 'category',
+        categoryId: 'books',
+        value: 15,
+        startsAt: '2026-08-30',
+        endsAt: '2026-09-06',
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.startsAt).toBeInstanceOf(Date);
+        expect(result.data.isActive).toBe(true);
+      }
+    });
+
+    it('should require a target for product and category promotions', () => {
+      const result = createPromotionSchema.safeParse({
+        name: '10% off',
+        type: 'percentage',
+        scope: 'product',
+        value: 10,
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Select a product for this promotion');
+      }
+    });
+
+    it('should reject buy-X-get-Y without quantities and on the whole cart', () => {
+      expect(createPromotionSchema.safeParse({
+        name: 'Buy 2 get 1',
+        type: 'buy_x_get_y',
+        scope: 'product',
+        productId: 'incense',
+        value: 0,
+        minQuantity: 2,
+      }).success).toBe(false);
+
+      expect(createPromotionSchema.safeParse({
+        name: 'Buy 2 get 1',
+        type: 'buy_x_get_y',
+        scope: 'cart',
+        value: 0,
+        minQuantity: 2,
+        getQuantity: 1,
+      }).success).toBe(false);
+    });
+
+    it('should reject percentages above 100 and inverted date windows', () => {
+      expect(createPromotionSchema.safeParse({
+        name: 'Too generous',
+        type: 'percentage',
+        scope: 'cart',
+        value: 120,
+      }).success).toBe(false);
+
+      expect(createPromotionSchema.safeParse({
+        name: 'Backwards',
+        type: 'fixed',
+        scope: 'cart',
+        value: 50,
+        startsAt: '2026-09-06',
+        endsAt: '2026-08-30',
+      }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSupplierSchema,
+  createPurchaseOrderSchema,
+  receiveGoodsSchema,
+} from '@/lib/validation/purchasing';
+
+describe('Purchasing Validation Schemas', () => {
+  describe('createSupplierSchema', () => {
+    it('should accept a supplier with just a name', () => {
+      const result = createSupplierSchema.safeParse({ name: 'Bhaktivedanta Book Trust' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.isActive).toBe(true);
+      }
+    });
+
+    it('should normalise and check the GSTIN', () => {
+      const valid = createSupplierSchema.safeParse({ name: 'BBT', gstin: '19abcde1234f1z5' });
+      expect(valid.success).toBe(true);
+      if (valid.success) {
+        expect(valid.data.gstin).toBe('19ABCDE1234F1Z5');
+      }
+
+      expect(createSupplierSchema.safeParse({ name: 'BBT', gstin: '19ABCDE1234' }).success).toBe(false);
+      expect(createSupplierSchema.safeParse({ name: 'BBT', gstin: '' }).success).toBe(true);
+    });
+  });
+
+  describe('createPurchaseOrderSchema', () => {
+    const line = { variantId: 'variant-1', quantityOrdered: 10, unitCost: 120 };
+
+    it('should validate a purchase order', () => {
+      const result = createPurchaseOrderSchema.safeParse({ supplierId: 'supplier-1', items: [line] });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject empty orders and repeated variants', () => {
+      expect(createPurchaseOrderSchema.safeParse({ supplierId: 'supplier-1', items: [] }).success).toBe(false);
+      expect(
+        createPurchaseOrderSchema.safeParse({ supplierId: 'supplier-1', items: [line, line] }).success
+      ).toBe(false);
+    });
+
+    it('should reject fractional or zero quantities', () => {
+      expect(
+        createPurchaseOrderSchema.safeParse({ supplierId: 'supplier-1', items: [{ ...line, quantityOrdered: 0 }] }).success
+      ).toBe(false);
+      expect(
+        createPurchaseOrderSchema.safeParse({ supplierId: 'supplier-1', items: [{ ...line, quantityOrdered: 1.5 }] }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('receiveGoodsSchema', () => {
+    it('should allow the invoiced cost to be left out', () => {
+      const result = receiveGoodsSchema.safeParse({
+        supplierReference: 'INV-2041',
+        items: [{ purchaseOrderItemId: 'line-1', quantity: 4 }],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require at least one received line', () => {
+      expect(receiveGoodsSchema.safeParse({ items: [] }).success).toBe(false);
+    });
+
+    it('should reject an order line received twice in one delivery', () => {
+      const result = receiveGoodsSchema.safeParse({
+        items: [
+          { purchaseOrderItemId: 'line-1', quantity: 4 },
+          { purchaseOrderItemId: 'line-1', quantity: 4 },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createReturnSchema } from '@/lib/validation/return';
+
+describe('Return Validation Schemas', () => {
+  describe('createReturnSchema', () => {
+    it('should validate a partial return', () => {
+      const result = createReturnSchema.safeParse({
+        refundMethod: 'cash',
+        reason: 'Wrong size',
+        items: [{ transactionItemId: 'item-1', quantity: 1 }],
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items[0].restock).toBe(true);
+      }
+    });
+
+    it('should reject unknown refund methods', () => {
+      const result = createReturnSchema.safeParse({
+        refundMethod: 'card',
+        items: [{ transactionItemId: 'item-1', quantity: 1 }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject empty returns and non-positive quantities', () => {
+      expect(createReturnSchema.safeParse({ refundMethod: 'upi', items: [] }).success).toBe(false);
+      expect(
+        createReturnSchema.safeParse({
+          refundMethod: 'upi',
+          items: [{ transactionItemId: 'item-1', quantity: 0 }],
+        }).success
+      ).toBe(false);
+      expect(
+        createReturnSchema.safeParse({
+          refundMethod: 'upi',
+          items: [{ transactionItemId: 'item-1', quantity: 1.5 }],
+        }).success
+      ).toBe(false);
+    });
+
+    it('should reject an item listed twice', () => {
+      const result = createReturnSchema.safeParse({
+        refundMethod: 'cash',
+        items: [
+          { transactionItemId: 'item-1', quantity: 1 },
+          { transactionItemId: 'item-1', quantity: 1 },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Each item can only be listed once');
+      }
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createRoleSchema, updateRoleSchema } from '@/lib/validation/role';
+
+describe('Role Validation Schemas', () => {
+  describe('createRoleSchema', () => {
+    it('should accept a custom role', () => {
+      const result = createRoleSchema.parse({
+        id: 'Bookkeeper',
+        name: 'Bookkeeper',
+        permissions: ['reports.view', 'reports.export', 'payments.reconcile'],
+      });
+
+      expect(result.id).toBe('bookkeeper');
+      expect(result.permissions).toHaveLength(3);
+    });
+
+    it('should accept a role with no permissions yet', () => {
+      expect(() => createRoleSchema.parse({
+        id: 'volunteer',
+        name: 'Volunteer',
+        permissions: [],
+      })).not.toThrow();
+    });
+
+    it('should reject permissions outside the catalogue', () => {
+      expect(() => createRoleSchema.parse({
+        id: 'bookkeeper',
+        name: 'Bookkeeper',
+        permissions: ['reports.delete'],
+      })).toThrow();
+    });
+
+    it('should reject a permission listed twice', () => {
+      expect(() => createRoleSchema.parse({
+        id: 'bookkeeper',
+        name: 'Bookkeeper',
+        permissions: ['reports.view', 'reports.view'],
+      })).toThrow('Each permission can only be listed once');
+    });
+
+    it('should reject ids that are not slugs', () => {
+      expect(() => createRoleSchema.parse({
+        id: 'book keeper',
+        name: 'Bookkeeper',
+        permissions: [],
+      })).toThrow();
+    });
+
+    it('should require a name', () => {
+      expect(() => createRoleSchema.parse({
+        id: 'bookkeeper',
+        name: '  ',
+        permissions: [],
+      })).toThrow('Role name is required');
+    });
+  });
+
+  describe('updateRoleSchema', () => {
+    it('should accept partial updates', () => {
+      expect(() => updateRoleSchema.parse({ name: 'Weekend volunteer' })).not.toThrow();
+      expect(() => updateRoleSchema.parse({ permissions: ['sales.create'] })).not.toThrow();
+    });
+
+    it('should not carry the id', () => {
+      const result = updateRoleSchema.parse({ id: 'other', name: 'Bookkeeper' });
+      expect(result).not.toHaveProperty('id');
+    });
+  });
+});
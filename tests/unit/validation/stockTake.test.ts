@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { createStockTakeSchema, recordCountSchema } from '@/lib/validation/stockTake';
+
+describe('Stock Take Validation Schemas', () => {
+  describe('createStockTakeSchema', () => {
+    it('should accept a whole-shop count', () => {
+      const result = createStockTakeSchema.safeParse({ name: 'March shelf count' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept a count of one category at one location', () => {
+      const result = createStockTakeSchema.safeParse({
+        name: 'Storeroom incense',
+        categoryId: 'category-1',
+        locationId: 'location-2',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a name', () => {
+      expect(createStockTakeSchema.safeParse({ name: '  ', categoryId: 'category-1' }).success).toBe(false);
+    });
+  });
+
+  describe('recordCountSchema', () => {
+    it('should default to setting the counted quantity', () => {
+      const result = recordCountSchema.safeParse({ variantId: 'variant-1', quantity: 12 });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.mode).toBe('set');
+      }
+    });
+
+    it('should accept a scanned barcode instead of a variant', () => {
+      expect(recordCountSchema.safeParse({ barcode: '9780140449136', quantity: 1, mode: 'add' }).success).toBe(true);
+    });
+
+    it('should need an item and a whole, non-negative quantity', () => {
+      expect(recordCountSchema.safeParse({ quantity: 1 }).success).toBe(false);
+      expect(recordCountSchema.safeParse({ variantId: 'variant-1', quantity: -1 }).success).toBe(false);
+      expect(recordCountSchema.safeParse({ variantId: 'variant-1', quantity: 1.5 }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { voidTransactionSchema } from '@/lib/validation/transaction';
+
+describe('Transaction Validation Schemas', () => {
+  describe('voidTransactionSchema', () => {
+    it('should accept a reason', () => {
+      const result = voidTransactionSchema.safeParse({ reason: '  Rang up the wrong book ' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.reason).toBe('Rang up the wrong book');
+      }
+    });
+
+    it('should require a reason', () => {
+      expect(voidTransactionSchema.safeParse({}).success).toBe(false);
+      expect(voidTransactionSchema.safeParse({ reason: '   ' }).success).toBe(false);
+    });
+  });
+});
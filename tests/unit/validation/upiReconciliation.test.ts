@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { importUpiStatementSchema, resolveUpiSchema } from '@/lib/validation/upiReconciliation';
+
+describe('UPI Reconciliation Validation Schemas', () => {
+  describe('importUpiStatementSchema', () => {
+    it('should validate a statement upload', () => {
+      const result = importUpiStatementSchema.safeParse({ fileName: 'statement.csv', content: 'Date,Amount\n19/10/2026,100' });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an empty file', () => {
+      expect(importUpiStatementSchema.safeParse({ fileName: 'statement.csv', content: '' }).success).toBe(false);
+    });
+  });
+
+  describe('resolveUpiSchema', () => {
+    it('should validate a manual match without a note', () => {
+      const result = resolveUpiSchema.safeParse({ action: 'match', lineId: 'line-1', transactionId: 'txn-1' });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a note to set a credit aside or clear a sale', () => {
+      expect(resolveUpiSchema.safeParse({ action: 'ignore', lineId: 'line-1', note: ' ' }).success).toBe(false);
+      expect(resolveUpiSchema.safeParse({ action: 'clear', transactionId: 'txn-1' }).success).toBe(false);
+      expect(resolveUpiSchema.safeParse({ action: 'clear', transactionId: 'txn-1', note: 'Paid again in cash' }).success).toBe(true);
+    });
+
+    it('should reject an unknown action', () => {
+      expect(resolveUpiSchema.safeParse({ action: 'delete', lineId: 'line-1' }).success).toBe(false);
+    });
+  });
+});
@@ -50,7 +50,7 @@ describe('User Validation Schemas', () => {
 
   describe('userRoleSchema', () => {
     it('should accept valid roles', () => {
-      const validRoles = ['admin', 'manager', 'cashier'];
+      const validRoles = ['admin', 'manager', 'cashier', 'bookkeeper', 'weekend_volunteer'];
       
       validRoles.forEach(role => {
         expect(() => userRoleSchema.parse(role)).not.toThrow();
@@ -58,8 +58,8 @@ describe('User Validation Schemas', () => {
     });
 
     it('should reject invalid roles', () => {
-      expect(() => userRoleSchema.parse('invalid')).toThrow();
-      expect(() => userRoleSchema.parse('user')).toThrow();
+      expect(() => userRoleSchema.parse('store manager')).toThrow();
+      expect(() => userRoleSchema.parse('1st-shift')).toThrow();
       expect(() => userRoleSchema.parse('')).toThrow();
     });
   });
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { voucherCodeSchema, issueVoucherSchema } from '@/lib/validation/voucher';
+
+describe('Voucher Validation Schemas', () => {
+  describe('voucherCodeSchema', () => {
+    it('should accept a code typed in any case', () => {
+      expect(voucherCodeSchema.parse(' gv-7kq2-m9xd ')).toBe('GV-7KQ2-M9XD');
+    });
+
+    it('should reject an empty code', () => {
+      expect(voucherCodeSchema.safeParse('  ').success).toBe(false);
+    });
+  });
+
+  describe('issueVoucherSchema', () => {
+    it('should validate a gift voucher with an expiry date', () => {
+      const result = issueVoucherSchema.safeParse({
+        amount: 1001,
+        paymentMethod: 'cash',
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        note: 'Janmashtami gift card',
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.expiresAt).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should reject non-positive amounts and expiry dates in the past', () => {
+      expect(issueVoucherSchema.safeParse({ amount: 0, paymentMethod: 'cash' }).success).toBe(false);
+
+      const result = issueVoucherSchema.safeParse({ amount: 500, paymentMethod: 'cash', expiresAt: '2020-01-01' });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Expiry date must be in the future');
+      }
+    });
+
+    it('should require how the voucher was paid for', () => {
+      const result = issueVoucherSchema.safeParse({ amount: 500 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Choose how the voucher was paid for');
+      }
+    });
+  });
+});
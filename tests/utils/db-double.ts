@@ -0,0 +1,52 @@
+import { vi, type Mock } from 'vitest';
+import type { DbTransaction } from '@/lib/db/connection';
+
+// The query builder methods the services chain; each returns the builder until the chain ends
+export interface QueryBuilderDouble {
+  from: Mock;
+  innerJoin: Mock;
+  leftJoin: Mock;
+  where: Mock;
+  orderBy: Mock;
+  limit: Mock;
+}
+
+export interface DbDouble {
+  select: Mock;
+  insert: Mock;
+  update: Mock;
+  builder: QueryBuilderDouble;
+  // What insert(...).values and update(...).set were called with
+  values: Mock;
+  set: Mock;
+}
+
+/**
+ * Database double for services that take a db or transaction.
+ * A select chain resolves to the given rows at limit(); inserts and updates resolve and are recorded.
+ * Override a builder method to end a chain elsewhere, e.g. builder.orderBy.mockResolvedValue(rows).
+ */
+export function createDbDouble(rows: unknown[] = []): DbDouble {
+  const builder = {} as QueryBuilderDouble;
+  builder.from = vi.fn(() => builder);
+  builder.innerJoin = vi.fn(() => builder);
+  builder.leftJoin = vi.fn(() => builder);
+  builder.where = vi.fn(() => builder);
+  builder.orderBy = vi.fn(() => builder);
+  builder.limit = vi.fn().mockResolvedValue(rows);
+
+  const values = vi.fn().mockResolvedValue(undefined);
+  const set = vi.fn(() => ({ where: vi.fn().mockResolvedValue(undefined) }));
+
+  return {
+    select: vi.fn(() => builder),
+    insert: vi.fn(() => ({ values })),
+    update: vi.fn(() => ({ set })),
+    builder,
+    values,
+    set,
+  };
+}
+
+// Hand the double to a service method that expects a real transaction
+export const asTransaction = (db: DbDouble): DbTransaction => db as unknown as DbTransaction;